@@ -0,0 +1,85 @@
+// @/app/@left/(_public)/(_BILLING)/(_server)/api/billing/checkout/route.ts
+
+import { NextResponse } from "next/server";
+import { z } from "zod";
+import { auth } from "@/app/@left/(_public)/(_AUTH)/(_service)/(_actions)/auth";
+import { getNextAuthUrl } from "@/lib/utils/get-next-auth-url";
+import {
+  createBillingPortalSession,
+  createCheckoutSession,
+} from "../../../../(_service)/(_libs)/stripe";
+import { getBillingPlan } from "../../../../(_service)/(_libs)/plans";
+import { getSubscriptionByUserId } from "../../../../(_service)/(_db-queries)/subscription/queries";
+
+const checkoutRequestSchema = z.object({
+  planId: z.enum(["pro", "business"]),
+  interval: z.enum(["monthly", "yearly"]).default("monthly"),
+});
+
+/**
+ * Creates a Stripe Checkout session and returns its URL.
+ * Active and trialing subscribers get the Customer Portal URL instead,
+ * so a second subscription is never started.
+ */
+export async function POST(request: Request) {
+  const session = await auth();
+
+  if (!session?.user || session.user.type === "guest") {
+    return NextResponse.json(
+      { error: "Sign in to subscribe", redirectTo: "/register" },
+      { status: 401 }
+    );
+  }
+
+  const parsed = checkoutRequestSchema.safeParse(
+    await request.json().catch(() => ({}))
+  );
+  if (!parsed.success) {
+    return NextResponse.json(
+      { error: "Invalid request body", issues: parsed.error.issues },
+      { status: 400 }
+    );
+  }
+
+  const { planId, interval } = parsed.data;
+  const priceId = getBillingPlan(planId)?.prices[interval].stripePriceId;
+
+  if (!priceId) {
+    return NextResponse.json(
+      { error: `No Stripe price configured for ${planId} (${interval})` },
+      { status: 500 }
+    );
+  }
+
+  try {
+    const existing = await getSubscriptionByUserId({
+      userId: session.user.id,
+    });
+    const baseUrl = getNextAuthUrl();
+
+    if (existing?.status === "active" || existing?.status === "trialing") {
+      const portal = await createBillingPortalSession({
+        customerId: existing.stripeCustomerId,
+        returnUrl: baseUrl,
+      });
+      return NextResponse.json({ url: portal.url });
+    }
+
+    const checkout = await createCheckoutSession({
+      userId: session.user.id,
+      email: session.user.email,
+      customerId: existing?.stripeCustomerId,
+      priceId,
+      successUrl: `${baseUrl}/?checkout=success`,
+      cancelUrl: `${baseUrl}/?checkout=cancelled`,
+    });
+
+    return NextResponse.json({ url: checkout.url });
+  } catch (error) {
+    console.error("Failed to create checkout session", error);
+    return NextResponse.json(
+      { error: "Failed to create checkout session" },
+      { status: 502 }
+    );
+  }
+}
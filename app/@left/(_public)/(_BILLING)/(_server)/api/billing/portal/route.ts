@@ -0,0 +1,44 @@
+// @/app/@left/(_public)/(_BILLING)/(_server)/api/billing/portal/route.ts
+
+import { NextResponse } from "next/server";
+import { auth } from "@/app/@left/(_public)/(_AUTH)/(_service)/(_actions)/auth";
+import { getNextAuthUrl } from "@/lib/utils/get-next-auth-url";
+import { createBillingPortalSession } from "../../../../(_service)/(_libs)/stripe";
+import { getSubscriptionByUserId } from "../../../../(_service)/(_db-queries)/subscription/queries";
+
+/**
+ * Returns a Stripe Customer Portal URL for the signed-in subscriber.
+ */
+export async function POST() {
+  const session = await auth();
+
+  if (!session?.user) {
+    return NextResponse.json({ error: "Unauthorized" }, { status: 401 });
+  }
+
+  const subscription = await getSubscriptionByUserId({
+    userId: session.user.id,
+  });
+
+  if (!subscription) {
+    return NextResponse.json(
+      { error: "No subscription found" },
+      { status: 404 }
+    );
+  }
+
+  try {
+    const portal = await createBillingPortalSession({
+      customerId: subscription.stripeCustomerId,
+      returnUrl: getNextAuthUrl(),
+    });
+
+    return NextResponse.json({ url: portal.url });
+  } catch (error) {
+    console.error("Failed to create billing portal session", error);
+    return NextResponse.json(
+      { error: "Failed to open billing portal" },
+      { status: 502 }
+    );
+  }
+}
@@ -0,0 +1,51 @@
+// @/app/@left/(_public)/(_BILLING)/(_server)/api/billing/webhook/route.ts
+
+import { NextResponse } from "next/server";
+import {
+  constructStripeEvent,
+  StripeSignatureError,
+} from "../../../../(_service)/(_libs)/stripe";
+import { handleStripeEvent } from "../../../../(_service)/(_libs)/webhook-handlers";
+
+/**
+ * Stripe webhook endpoint. The raw body is verified against
+ * STRIPE_WEBHOOK_SECRET before any event is processed.
+ */
+export async function POST(request: Request) {
+  const secret = process.env.STRIPE_WEBHOOK_SECRET;
+  if (!secret) {
+    console.error("STRIPE_WEBHOOK_SECRET is not configured");
+    return NextResponse.json(
+      { error: "Webhook is not configured" },
+      { status: 500 }
+    );
+  }
+
+  const payload = await request.text();
+
+  let event;
+  try {
+    event = constructStripeEvent({
+      payload,
+      signatureHeader: request.headers.get("stripe-signature"),
+      secret,
+    });
+  } catch (error) {
+    if (error instanceof StripeSignatureError) {
+      return NextResponse.json({ error: error.message }, { status: 400 });
+    }
+    return NextResponse.json({ error: "Invalid payload" }, { status: 400 });
+  }
+
+  try {
+    const result = await handleStripeEvent(event);
+    return NextResponse.json({ received: true, ...result });
+  } catch (error) {
+    console.error(`Failed to handle Stripe event ${event.id}`, error);
+    // 500 makes Stripe retry the delivery
+    return NextResponse.json(
+      { error: "Failed to handle event" },
+      { status: 500 }
+    );
+  }
+}
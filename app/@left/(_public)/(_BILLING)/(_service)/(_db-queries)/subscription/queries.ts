@@ -0,0 +1,98 @@
+// @/app/@left/(_public)/(_BILLING)/(_service)/(_db-queries)/subscription/queries.ts
+
+import { prisma } from "@/lib/db";
+import type {
+  Subscription,
+  SubscriptionStatus,
+  UserType,
+} from "@prisma/client";
+
+/**
+ * Retrieves the subscription of a user.
+ * @param userId - The ID of the user.
+ * @returns The subscription or null if the user never subscribed.
+ */
+export async function getSubscriptionByUserId({
+  userId,
+}: {
+  userId: string;
+}): Promise<Subscription | null> {
+  try {
+    return await prisma.subscription.findUnique({ where: { userId } });
+  } catch (error) {
+    console.error("Failed to get subscription by user id from database", error);
+    throw error;
+  }
+}
+
+/**
+ * Retrieves a subscription by its Stripe subscription id.
+ * @param stripeSubscriptionId - The Stripe subscription id (sub_...).
+ * @returns The subscription or null if it is not stored yet.
+ */
+export async function getSubscriptionByStripeId({
+  stripeSubscriptionId,
+}: {
+  stripeSubscriptionId: string;
+}): Promise<Subscription | null> {
+  try {
+    return await prisma.subscription.findUnique({
+      where: { stripeSubscriptionId },
+    });
+  } catch (error) {
+    console.error(
+      "Failed to get subscription by stripe id from database",
+      error
+    );
+    throw error;
+  }
+}
+
+/**
+ * Creates or updates the user's subscription and sets the user type in one transaction.
+ * A user has at most one subscription; a new Stripe subscription replaces the old one.
+ * @param userType - The new user type, or null to leave it unchanged.
+ * @param data.updatedAt - Creation time of the applied Stripe event, used to skip older events.
+ * @returns The saved subscription.
+ */
+export async function upsertSubscription({
+  userId,
+  userType,
+  data,
+}: {
+  userId: string;
+  userType: UserType | null;
+  data: {
+    stripeCustomerId: string;
+    stripeSubscriptionId: string;
+    stripePriceId: string;
+    planId: string;
+    status: SubscriptionStatus;
+    currentPeriodEnd: Date | null;
+    cancelAtPeriodEnd: boolean;
+    updatedAt: Date;
+  };
+}): Promise<Subscription> {
+  try {
+    const [subscription] = await prisma.$transaction([
+      prisma.subscription.upsert({
+        where: { userId },
+        create: { userId, ...data },
+        update: data,
+      }),
+      ...(userType
+        ? [
+            prisma.user.update({
+              where: { id: userId },
+              data: { type: userType },
+            }),
+          ]
+        : []),
+    ]);
+
+    return subscription;
+  } catch (error) {
+    console.error("Failed to upsert subscription in database", error);
+    throw error;
+  }
+}
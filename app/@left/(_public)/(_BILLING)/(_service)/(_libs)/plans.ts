@@ -0,0 +1,75 @@
+// @/app/@left/(_public)/(_BILLING)/(_service)/(_libs)/plans.ts
+
+import type { SubscriptionStatus, UserType } from "@prisma/client";
+import { billingPlansConfig } from "@/config/billing-plans.config";
+import type {
+  BillingInterval,
+  BillingPlan,
+  BillingPlanId,
+} from "@/types/billing";
+import { entitlementsByUserType } from "@/app/@left/(_public)/(_CHAT)/(chat)/(_service)/(_libs)/ai/entitlements";
+
+// Statuses that keep paid access; past_due stays active while Stripe retries the payment
+const ACTIVE_STATUSES: SubscriptionStatus[] = [
+  "active",
+  "trialing",
+  "past_due",
+];
+
+// Only these types are managed by billing; guests and privileged roles are never touched
+const BILLING_MANAGED_USER_TYPES: UserType[] = [
+  "authUser",
+  "subscriber",
+  "customer",
+];
+
+export function getBillingPlan(planId: string): BillingPlan | undefined {
+  return billingPlansConfig.find((plan) => plan.id === planId);
+}
+
+export function isBillingPlanId(planId: string): planId is BillingPlanId {
+  return getBillingPlan(planId) !== undefined;
+}
+
+/**
+ * Resolves the plan and interval a Stripe price belongs to.
+ */
+export function getBillingPlanByPriceId(
+  stripePriceId: string
+): { plan: BillingPlan; interval: BillingInterval } | undefined {
+  for (const plan of billingPlansConfig) {
+    for (const [interval, price] of Object.entries(plan.prices)) {
+      if (price.stripePriceId && price.stripePriceId === stripePriceId) {
+        return { plan, interval: interval as BillingInterval };
+      }
+    }
+  }
+  return undefined;
+}
+
+export function getPlanEntitlements(planId: BillingPlanId) {
+  const plan = getBillingPlan(planId);
+  return plan ? entitlementsByUserType[plan.userType] : undefined;
+}
+
+export function isActiveSubscriptionStatus(status: SubscriptionStatus) {
+  return ACTIVE_STATUSES.includes(status);
+}
+
+/**
+ * User type a billing-managed user should have for a subscription state.
+ * Returns null when the current type is not managed by billing.
+ */
+export function getUserTypeForSubscription({
+  currentType,
+  plan,
+  status,
+}: {
+  currentType: UserType;
+  plan: BillingPlan | undefined;
+  status: SubscriptionStatus;
+}): UserType | null {
+  if (!BILLING_MANAGED_USER_TYPES.includes(currentType)) return null;
+  if (plan && isActiveSubscriptionStatus(status)) return plan.userType;
+  return "authUser";
+}
@@ -0,0 +1,222 @@
+// @/app/@left/(_public)/(_BILLING)/(_service)/(_libs)/stripe.ts
+
+import { createHmac, timingSafeEqual } from "node:crypto";
+
+const STRIPE_API_URL = "https://api.stripe.com/v1";
+
+// Stripe rejects events older than 5 minutes by default; we use the same tolerance
+const WEBHOOK_TOLERANCE_SECONDS = 300;
+
+/**
+ * Subset of the Stripe subscription object used by the webhook handler.
+ */
+export interface StripeSubscription {
+  id: string;
+  object: "subscription";
+  customer: string;
+  status: string;
+  cancel_at_period_end: boolean;
+  current_period_end?: number;
+  metadata: Record<string, string>;
+  items: {
+    data: Array<{
+      price: { id: string };
+      current_period_end?: number;
+    }>;
+  };
+}
+
+export interface StripeCheckoutSession {
+  id: string;
+  object: "checkout.session";
+  url: string | null;
+  customer: string | null;
+  subscription: string | null;
+  client_reference_id: string | null;
+  metadata: Record<string, string>;
+}
+
+export interface StripeEvent<T = unknown> {
+  id: string;
+  type: string;
+  created: number;
+  data: { object: T };
+}
+
+export class StripeSignatureError extends Error {
+  constructor(message: string) {
+    super(message);
+    this.name = "StripeSignatureError";
+  }
+}
+
+/**
+ * Flattens nested params into Stripe's form encoding:
+ * { line_items: [{ price: "p" }] } -> line_items[0][price]=p
+ */
+function encodeFormParams(
+  params: Record<string, unknown>,
+  prefix = ""
+): string[] {
+  return Object.entries(params).flatMap(([key, value]) => {
+    if (value === undefined || value === null) return [];
+    const name = prefix ? `${prefix}[${key}]` : key;
+
+    if (typeof value === "object") {
+      return encodeFormParams(value as Record<string, unknown>, name);
+    }
+
+    return [`${encodeURIComponent(name)}=${encodeURIComponent(String(value))}`];
+  });
+}
+
+async function stripeRequest<T>(
+  path: string,
+  params: Record<string, unknown>
+): Promise<T> {
+  const apiKey = process.env.STRIPE_API_KEY;
+  if (!apiKey) {
+    throw new Error("STRIPE_API_KEY is not configured");
+  }
+
+  const response = await fetch(`${STRIPE_API_URL}${path}`, {
+    method: "POST",
+    headers: {
+      Authorization: `Bearer ${apiKey}`,
+      "Content-Type": "application/x-www-form-urlencoded",
+    },
+    body: encodeFormParams(params).join("&"),
+  });
+
+  const data = await response.json();
+
+  if (!response.ok) {
+    throw new Error(
+      `Stripe request ${path} failed: ${
+        data?.error?.message ?? response.status
+      }`
+    );
+  }
+
+  return data as T;
+}
+
+/**
+ * Creates a Checkout session for a subscription price.
+ * The user id is stored on both the session and the subscription so
+ * webhook events can be linked back to the user.
+ */
+export function createCheckoutSession({
+  userId,
+  email,
+  customerId,
+  priceId,
+  successUrl,
+  cancelUrl,
+}: {
+  userId: string;
+  email?: string | null;
+  customerId?: string;
+  priceId: string;
+  successUrl: string;
+  cancelUrl: string;
+}) {
+  return stripeRequest<StripeCheckoutSession>("/checkout/sessions", {
+    mode: "subscription",
+    line_items: [{ price: priceId, quantity: 1 }],
+    success_url: successUrl,
+    cancel_url: cancelUrl,
+    client_reference_id: userId,
+    customer: customerId,
+    customer_email: customerId ? undefined : email ?? undefined,
+    metadata: { userId },
+    subscription_data: { metadata: { userId } },
+  });
+}
+
+/**
+ * Creates a Customer Portal session where users manage or cancel their plan.
+ */
+export function createBillingPortalSession({
+  customerId,
+  returnUrl,
+}: {
+  customerId: string;
+  returnUrl: string;
+}) {
+  return stripeRequest<{ id: string; url: string }>(
+    "/billing_portal/sessions",
+    { customer: customerId, return_url: returnUrl }
+  );
+}
+
+function computeSignature(payload: string, secret: string, timestamp: number) {
+  return createHmac("sha256", secret)
+    .update(`${timestamp}.${payload}`, "utf8")
+    .digest("hex");
+}
+
+/**
+ * Builds a `Stripe-Signature` header value for a payload.
+ * Used by tests and local fixtures to send signed events without Stripe.
+ */
+export function generateStripeSignatureHeader({
+  payload,
+  secret,
+  timestamp = Math.floor(Date.now() / 1000),
+}: {
+  payload: string;
+  secret: string;
+  timestamp?: number;
+}) {
+  return `t=${timestamp},v1=${computeSignature(payload, secret, timestamp)}`;
+}
+
+/**
+ * Verifies the `Stripe-Signature` header and parses the event.
+ * Follows Stripe's scheme: HMAC-SHA256 of "<timestamp>.<raw body>".
+ * @throws StripeSignatureError when the header is missing, stale or invalid.
+ */
+export function constructStripeEvent({
+  payload,
+  signatureHeader,
+  secret,
+  toleranceSeconds = WEBHOOK_TOLERANCE_SECONDS,
+}: {
+  payload: string;
+  signatureHeader: string | null;
+  secret: string;
+  toleranceSeconds?: number;
+}): StripeEvent {
+  if (!signatureHeader) {
+    throw new StripeSignatureError("Missing Stripe-Signature header");
+  }
+
+  const parts = signatureHeader.split(",").map((part) => part.split("="));
+  const timestamp = Number(parts.find(([key]) => key === "t")?.[1]);
+  const signatures = parts
+    .filter(([key]) => key === "v1")
+    .map(([, value]) => value);
+
+  if (!Number.isFinite(timestamp) || signatures.length === 0) {
+    throw new StripeSignatureError("Malformed Stripe-Signature header");
+  }
+
+  if (Math.abs(Date.now() / 1000 - timestamp) > toleranceSeconds) {
+    throw new StripeSignatureError("Timestamp outside the tolerance zone");
+  }
+
+  const expected = Buffer.from(computeSignature(payload, secret, timestamp));
+  const isValid = signatures.some((signature) => {
+    const received = Buffer.from(signature);
+    return (
+      received.length === expected.length && timingSafeEqual(received, expected)
+    );
+  });
+
+  if (!isValid) {
+    throw new StripeSignatureError("No signatures found matching the payload");
+  }
+
+  return JSON.parse(payload) as StripeEvent;
+}
@@ -0,0 +1,133 @@
+// @/app/@left/(_public)/(_BILLING)/(_service)/(_libs)/webhook-handlers.ts
+
+import { SubscriptionStatus } from "@prisma/client";
+import { getUserById } from "@/app/@left/(_public)/(_AUTH)/(_service)/(_db-queries)/user-queries";
+import type { StripeEvent, StripeSubscription } from "./stripe";
+import { getBillingPlanByPriceId, getUserTypeForSubscription } from "./plans";
+import {
+  getSubscriptionByStripeId,
+  getSubscriptionByUserId,
+  upsertSubscription,
+} from "../(_db-queries)/subscription/queries";
+
+export type WebhookResult =
+  | { handled: true; userId: string; status: SubscriptionStatus }
+  | { handled: false; reason: string };
+
+const SUBSCRIPTION_EVENTS = [
+  "customer.subscription.created",
+  "customer.subscription.updated",
+  "customer.subscription.deleted",
+];
+
+function toSubscriptionStatus(status: string): SubscriptionStatus {
+  return Object.values(SubscriptionStatus).includes(
+    status as SubscriptionStatus
+  )
+    ? (status as SubscriptionStatus)
+    : SubscriptionStatus.incomplete;
+}
+
+/**
+ * Mirrors a Stripe subscription into the Subscription table and
+ * flips the user's type between authUser and the plan's user type.
+ * Stripe does not guarantee delivery order, so stale events are skipped:
+ * events for a replaced subscription (unless it became active again) and
+ * events created before the last applied one.
+ */
+async function syncSubscription(
+  subscription: StripeSubscription,
+  deleted: boolean,
+  eventCreatedAt: Date
+): Promise<WebhookResult> {
+  const userId =
+    subscription.metadata?.userId ??
+    (
+      await getSubscriptionByStripeId({
+        stripeSubscriptionId: subscription.id,
+      })
+    )?.userId;
+
+  if (!userId) {
+    return { handled: false, reason: "Subscription is not linked to a user" };
+  }
+
+  const user = await getUserById(userId, { throwOnError: true });
+  if (!user) {
+    return { handled: false, reason: `User ${userId} not found` };
+  }
+
+  const [item] = subscription.items.data;
+  const stripePriceId = item?.price.id ?? "";
+  const planMatch = getBillingPlanByPriceId(stripePriceId);
+  const status = deleted
+    ? SubscriptionStatus.canceled
+    : toSubscriptionStatus(subscription.status);
+  const currentPeriodEnd =
+    subscription.current_period_end ?? item?.current_period_end;
+
+  const current = await getSubscriptionByUserId({ userId });
+  if (
+    current &&
+    current.stripeSubscriptionId !== subscription.id &&
+    status !== SubscriptionStatus.active
+  ) {
+    return {
+      handled: false,
+      reason: `Subscription ${subscription.id} is not the current subscription of user ${userId}`,
+    };
+  }
+  if (current && eventCreatedAt < current.updatedAt) {
+    return {
+      handled: false,
+      reason: `Event for subscription ${subscription.id} is older than the stored state`,
+    };
+  }
+
+  if (!planMatch) {
+    console.warn(
+      `Stripe price ${stripePriceId} is not mapped to a billing plan (subscription ${subscription.id})`
+    );
+  }
+
+  await upsertSubscription({
+    userId,
+    userType: getUserTypeForSubscription({
+      currentType: user.type,
+      plan: planMatch?.plan,
+      status,
+    }),
+    data: {
+      stripeCustomerId: subscription.customer,
+      stripeSubscriptionId: subscription.id,
+      stripePriceId,
+      planId: planMatch?.plan.id ?? "unknown",
+      status,
+      currentPeriodEnd: currentPeriodEnd
+        ? new Date(currentPeriodEnd * 1000)
+        : null,
+      cancelAtPeriodEnd: subscription.cancel_at_period_end,
+      updatedAt: eventCreatedAt,
+    },
+  });
+
+  return { handled: true, userId, status };
+}
+
+/**
+ * Dispatches a verified Stripe event. Unsupported event types are acknowledged
+ * and ignored so Stripe does not retry them.
+ */
+export async function handleStripeEvent(
+  event: StripeEvent
+): Promise<WebhookResult> {
+  if (!SUBSCRIPTION_EVENTS.includes(event.type)) {
+    return { handled: false, reason: `Ignored event type ${event.type}` };
+  }
+
+  return syncSubscription(
+    event.data.object as StripeSubscription,
+    event.type === "customer.subscription.deleted",
+    new Date(event.created * 1000)
+  );
+}
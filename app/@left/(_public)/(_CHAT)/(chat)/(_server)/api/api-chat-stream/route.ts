@@ -15,14 +15,29 @@ import {
 } from "@/app/@left/(_public)/(_CHAT)/(chat)/(_service)/(_libs)/ai/prompts";
 import { getTrailingMessageId } from "@/lib/utils";
 import { generateTitleFromUserMessage } from "../../../(_service)/(_actions)/actions";
-import { createDocument } from "@/app/@left/(_public)/(_CHAT)/(chat)/(_service)/(_libs)/ai/tools/create-document";
-import { updateDocument } from "@/app/@left/(_public)/(_CHAT)/(chat)/(_service)/(_libs)/ai/tools/update-document";
-import { requestSuggestions } from "@/app/@left/(_public)/(_CHAT)/(chat)/(_service)/(_libs)/ai/tools/request-suggestions";
-import { getWeather } from "@/app/@left/(_public)/(_CHAT)/(chat)/(_service)/(_libs)/ai/tools/get-weather";
-import { fileSearchVectorStore } from "@/app/@left/(_public)/(_CHAT)/(chat)/(_service)/(_libs)/ai/tools/file-search-vector-store";
+import {
+  appendMessageToBranch,
+  getActiveBranchByChatId,
+} from "../../../(_service)/(_db-queries)/message/queries";
 import { isProductionEnvironment } from "@/app/@left/(_public)/(_CHAT)/(chat)/(_service)/(_constants)/constants";
+import { chatTools } from "@/app/@left/(_public)/(_CHAT)/(chat)/(_service)/(_libs)/ai/tools/chat-tools";
+import {
+  DEFAULT_CHAT_MODEL,
+  modelSupportsTools,
+} from "@/app/@left/(_public)/(_CHAT)/(chat)/(_service)/(_libs)/ai/models";
+import { resolveChatAssistant } from "@/app/@left/(_public)/(_CHAT)/(chat)/(_service)/(_libs)/ai/assistant";
+import { isChatModelAvailable } from "@/app/@left/(_public)/(_CHAT)/(chat)/(_service)/(_libs)/ai/entitlements";
+import {
+  API_SUPPORT_ASSISTANT,
+  getAssistantTools,
+} from "@/app/@left/(_public)/(_CHAT)/(chat)/(_service)/(_libs)/assistants";
 import { myProvider } from "@/app/@left/(_public)/(_CHAT)/(chat)/(_service)/(_libs)/ai/providers";
-import { entitlementsByUserType } from "@/app/@left/(_public)/(_CHAT)/(chat)/(_service)/(_libs)/ai/entitlements";
+import {
+  checkMessageQuotas,
+  quotaExceededResponse,
+} from "@/app/@left/(_public)/(_CHAT)/(chat)/(_service)/(_libs)/ai/quotas";
+import { recordTokenUsage } from "@/app/@left/(_public)/(_CHAT)/(chat)/(_service)/(_libs)/ai/usage";
+import { getFilesByUrls } from "@/app/@left/(_public)/(_CHAT)/(chat)/(_service)/(_db-queries)/file/queries";
 import { postRequestBodySchema, type PostRequestBody } from "./schema";
 import { geolocation } from "@vercel/functions";
 import {
@@ -41,54 +56,6 @@ export const maxDuration = 60;
 
 let globalStreamContext: ResumableStreamContext | null = null;
 
-/**
- * Logs token usage with detailed information and correct GPT-4 Mini pricing
- * @param prefix - Prefix for source identification
- * @param usage - Object with token usage information
- * @param chatId - Chat ID for context
- * @param userId - User ID for context
- */
-function logTokenUsage(
-  prefix: string,
-  usage: any,
-  chatId?: string,
-  userId?: string
-) {
-  if (!usage) {
-    console.log(`${prefix} - Token usage data not available`);
-    return;
-  }
-
-  const { promptTokens, completionTokens, totalTokens } = usage;
-
-  console.log(`\n🔢 ===== ${prefix.toUpperCase()} TOKEN USAGE =====`);
-  console.log(`📊 Chat ID: ${chatId || "unknown"}`);
-  console.log(`👤 User ID: ${userId || "unknown"}`);
-  console.log(`📥 Input tokens (Prompt): ${promptTokens ?? "unknown"}`);
-  console.log(
-    `📤 Output tokens (Completion): ${completionTokens ?? "unknown"}`
-  );
-  console.log(`🔄 Total tokens: ${totalTokens ?? "unknown"}`);
-
-  // GPT-4 Mini pricing calculation: Input $0.15/1M, Output $0.60/1M
-  if (promptTokens && completionTokens) {
-    const inputCost = (promptTokens / 1000000) * 0.15; // $0.15 per 1M tokens
-    const outputCost = (completionTokens / 1000000) * 0.6; // $0.60 per 1M tokens
-    const totalCost = inputCost + outputCost;
-
-    console.log(
-      `💰 GPT-4 Mini cost: $${totalCost.toFixed(8)} (Input: $${inputCost.toFixed(8)}, Output: $${outputCost.toFixed(8)})`
-    );
-
-    // Additionally show cost in cents for clarity
-    const totalCostCents = totalCost * 100;
-    console.log(`💸 Cost in cents: ${totalCostCents.toFixed(6)}¢`);
-  }
-
-  console.log(`⏰ Logged at: ${new Date().toISOString()}`);
-  console.log(`🔢 ===== END TOKEN USAGE =====\n`);
-}
-
 /**
  * Get or create a global resumable stream context for data streaming.
  */
@@ -129,7 +96,8 @@ export async function POST(request: Request) {
     const {
       id: chatId,
       message,
-      selectedChatModel,
+      selectedChatModel: requestedChatModel,
+      selectedAssistant,
       selectedVisibilityType,
     } = requestBody;
 
@@ -158,31 +126,6 @@ export async function POST(request: Request) {
 
     // Now session is always defined and can be safely used further
 
-    // Count how many user messages they sent in last 24 hours
-    const messageCount = await prisma.message.count({
-      where: {
-        role: "user",
-        createdAt: {
-          gte: new Date(Date.now() - 24 * 60 * 60 * 1000),
-        },
-        Chat: {
-          userId,
-        },
-      },
-    });
-
-    if (messageCount >= entitlementsByUserType[userType].maxMessagesPerDay) {
-      return NextResponse.json(
-        {
-          error:
-            "You've reached your daily limit. Sign up to get 5× more messages per day!",
-          redirectTo: "/register",
-          delay: 3000,
-        },
-        { status: 429 }
-      );
-    }
-
     // Check if chat exists
     let chat = await prisma.chat.findUnique({ where: { id: chatId } });
     console.log(
@@ -193,15 +136,69 @@ export async function POST(request: Request) {
       "console: // @/app/@left/(chat)/api/chat/route.ts message:  ",
       message
     );
+
+    // Prevent users from accessing others' chats
+    if (chat && chat.userId !== userId) {
+      return new Response("Forbidden", { status: 403 });
+    }
+
+    // API clients talk to the integration assistant unless they pick another one;
+    // chats without an available assistant fall back to it as well
+    const assistant = await resolveChatAssistant({
+      chat,
+      slug: selectedAssistant ?? API_SUPPORT_ASSISTANT,
+      fallbackSlug: API_SUPPORT_ASSISTANT,
+      userType,
+    });
+    if (assistant === undefined) {
+      return new Response("Unknown assistant", { status: 400 });
+    }
+
+    const selectedChatModel =
+      requestedChatModel ?? assistant?.modelId ?? DEFAULT_CHAT_MODEL;
+
+    if (!isChatModelAvailable(userType, selectedChatModel)) {
+      return new Response("Model not available", { status: 403 });
+    }
+
+    // Only the user's own uploads can be attached: their size is known
+    const attachmentUrls = (message.experimental_attachments ?? []).map(
+      ({ url }) => url
+    );
+    const attachmentFiles = await getFilesByUrls({
+      userId,
+      urls: attachmentUrls,
+    });
+    if (attachmentFiles.length < new Set(attachmentUrls).size) {
+      return new Response("Unknown attachment", { status: 400 });
+    }
+
+    const quotaViolation = await checkMessageQuotas({
+      userId,
+      userType,
+      modelId: selectedChatModel,
+      attachments: message.experimental_attachments,
+    });
+
+    if (quotaViolation) {
+      return quotaExceededResponse(quotaViolation, userType);
+    }
+
     if (!chat) {
       // Create new chat with title generated from first user message
-      const title = await generateTitleFromUserMessage({ message });
+      const title = await generateTitleFromUserMessage({
+        message,
+        chatId,
+        userId,
+        userType,
+      });
       chat = await prisma.chat.create({
         data: {
           id: chatId,
           userId: userId ? userId : "12345qwert",
           title,
           visibility: selectedVisibilityType,
+          assistantId: assistant?.id,
           createdAt: new Date(),
         },
       });
@@ -209,18 +206,10 @@ export async function POST(request: Request) {
         "console: // @/app/@left/(chat)/api/chat/route.ts chat:  ",
         chat
       );
-    } else {
-      // Prevent users from accessing others' chats
-      if (chat.userId !== userId) {
-        return new Response("Forbidden", { status: 403 });
-      }
     }
 
-    // Fetch previous messages (Message_v2 model) ordered by creation time
-    const previousMessages = await prisma.message.findMany({
-      where: { chatId },
-      orderBy: { createdAt: "asc" },
-    });
+    // API clients always continue the active branch of the chat
+    const previousMessages = await getActiveBranchByChatId(chatId);
 
     // Map DB model to UI-friendly message format for AI processing
     const previousUImessages = previousMessages.map(
@@ -244,8 +233,9 @@ export async function POST(request: Request) {
     const requestHints: RequestHints = { longitude, latitude, city, country };
 
     // Save user's new message to DB
-    await prisma.message.create({
-      data: {
+    await appendMessageToBranch({
+      parentId: previousMessages.at(-1)?.id ?? null,
+      message: {
         id: message.id,
         chatId,
         role: "user",
@@ -270,19 +260,26 @@ export async function POST(request: Request) {
       execute: (dataStream) => {
         const result = streamText({
           model: myProvider.languageModel(selectedChatModel),
-          system:
-            "Ты — общительный, тёплый, внимательный и вежливый ИИ-официант-девушка ресторана CHICKO. Если тебе известно имя встречай клиента по имени от лица ресторана CHICKO. Если информация неизвестна то значит это новый гость можешь уточнить как его зовут , и если он ответит то значит нужно запомнить его имя и в дальнейшем обращаться по этому имени. Используй наши девизы, ВАРИАНТЫ ПРИВЕТСТВИЙ и фирменные послания. Используя информацию о клиенте о времени его последнего посещения если оно существует о количестве дней с последнего заказа о любимом блюде и генерирует дружелюбные разнообразные неповторимые разговоры с призывом на вовлечение. ",
+          system: assistant?.systemPrompt || undefined,
           messages,
           maxSteps: 5,
-
+          experimental_activeTools: !modelSupportsTools(selectedChatModel)
+            ? []
+            : getAssistantTools(assistant),
           experimental_transform: smoothStream({ chunking: "word" }),
           experimental_generateMessageId: generateCuid,
-          tools: {},
+          tools: chatTools({ session, dataStream, assistant }),
           onFinish: async ({ response, usage }) => {
             if (!session.user?.id) return;
 
-            // Log token usage with GPT-4 Mini pricing
-            logTokenUsage("AI Response", usage, chatId, userId);
+            await recordTokenUsage({
+              modelId: selectedChatModel,
+              usage,
+              source: "api_chat",
+              chatId,
+              userId,
+              userType,
+            });
 
             try {
               const assistantId = getTrailingMessageId({
@@ -297,8 +294,9 @@ export async function POST(request: Request) {
                 responseMessages: response.messages,
               });
 
-              await prisma.message.create({
-                data: {
+              await appendMessageToBranch({
+                parentId: message.id,
+                message: {
                   id: assistantId,
                   chatId,
                   role: assistantMessage.role,
@@ -388,7 +386,7 @@ export async function GET(request: Request) {
     return new Response("Not found", { status: 404 });
   }
 
-  if (chat.visibility === "private" && chat.userId !== session.user.id) {
+  if (chat.visibility !== "public" && chat.userId !== session.user.id) {
     return new Response("Forbidden", { status: 403 });
   }
 
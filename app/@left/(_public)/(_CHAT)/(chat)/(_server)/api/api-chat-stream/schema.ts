@@ -2,6 +2,7 @@
 
 import { z } from "zod";
 import { isValidCuid } from "@/lib/utils/validateCuid";
+import { isChatModelId } from "@/app/@left/(_public)/(_CHAT)/(chat)/(_service)/(_libs)/ai/models";
 
 // Изменяем схему для id и message.id на CUID с использованием refine
 
@@ -33,12 +34,14 @@ export const postRequestBodySchema = z.object({
       )
       .optional(),
   }),
-  selectedChatModel: z.enum([
-    "api-chat-support",
-    "chat-model",
-    "chat-model-reasoning",
-  ]),
-  selectedVisibilityType: z.enum(["public", "private"]),
+  // Не передана — модель ассистента по умолчанию
+  selectedChatModel: z
+    .string()
+    .refine(isChatModelId, { message: "Unknown chat model" })
+    .optional(),
+  // slug ассистента; учитывается только при создании чата
+  selectedAssistant: z.string().min(1).max(100).optional(),
+  selectedVisibilityType: z.enum(["public", "unlisted", "private"]),
 });
 
 export type PostRequestBody = z.infer<typeof postRequestBodySchema>;
@@ -0,0 +1,38 @@
+// @/app/@left/(_public)/(_CHAT)/(chat)/(_server)/api/assistants/route.ts
+
+import { auth } from "@/app/@left/(_public)/(_AUTH)/(_service)/(_actions)/auth";
+import { getAssistants } from "../../../(_service)/(_db-queries)/assistant/queries";
+import type { AssistantOption } from "../../../(_service)/(_libs)/assistants";
+
+/**
+ * Lists the enabled assistants available to the signed-in user's role,
+ * without their prompts and tool settings.
+ */
+export async function GET() {
+  const session = await auth();
+  if (!session?.user?.id) {
+    return new Response("Unauthorized", { status: 401 });
+  }
+
+  try {
+    const assistants = await getAssistants({ userType: session.user.type });
+
+    return Response.json(
+      assistants.map(
+        ({ slug, name, icon, description, modelId }): AssistantOption => ({
+          slug,
+          name,
+          icon,
+          description,
+          modelId,
+        })
+      ),
+      { status: 200 }
+    );
+  } catch (error) {
+    console.error("GET /assistants error:", error);
+    return new Response("An error occurred while processing your request!", {
+      status: 500,
+    });
+  }
+}
@@ -0,0 +1,37 @@
+// @/app/@left/(_public)/(_CHAT)/(chat)/(_server)/api/chat/branches/route.ts
+
+import { auth } from "@/app/@left/(_public)/(_AUTH)/(_service)/(_actions)/auth";
+import { getChatById } from "../../../../(_service)/(_db-queries)/chat/queries";
+import { getMessageTreeByChatId } from "../../../../(_service)/(_db-queries)/message/queries";
+
+/**
+ * Message tree of a chat (ids and parent ids) for the branch switcher.
+ */
+export async function GET(request: Request) {
+  const { searchParams } = new URL(request.url);
+  const chatId = searchParams.get("chatId");
+
+  if (!chatId) {
+    return new Response("chatId is required", { status: 400 });
+  }
+
+  const session = await auth();
+  if (!session?.user?.id) {
+    return new Response("Unauthorized", { status: 401 });
+  }
+
+  const chat = await getChatById(chatId);
+
+  // A chat that is not saved yet has no branches
+  if (!chat) {
+    return Response.json([], { status: 200 });
+  }
+
+  if (chat.userId !== session.user.id) {
+    return new Response("Forbidden", { status: 403 });
+  }
+
+  const tree = await getMessageTreeByChatId(chatId);
+
+  return Response.json(tree, { status: 200 });
+}
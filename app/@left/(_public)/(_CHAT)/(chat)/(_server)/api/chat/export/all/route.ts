@@ -0,0 +1,77 @@
+// @/app/@left/(_public)/(_CHAT)/(chat)/(_server)/api/chat/export/all/route.ts
+
+import { UserType } from "@prisma/client";
+import { auth } from "@/app/@left/(_public)/(_AUTH)/(_service)/(_actions)/auth";
+import {
+  getAllChatsByUserId,
+  getChatExport,
+} from "../../../../../(_service)/(_db-queries)/export/queries";
+import {
+  chatToMarkdown,
+  getAttachmentDisposition,
+  getExportFileName,
+} from "../../../../../(_service)/(_libs)/chat-export";
+import {
+  createZip,
+  type ZipEntry,
+} from "../../../../../(_service)/(_libs)/zip";
+
+// Выгрузку чужих чатов (запросы комплаенса) делают только администраторы
+const EXPORT_ANY_USER_TYPES: UserType[] = [UserType.admin, UserType.architect];
+
+/**
+ * Exports all chats of the signed-in user as a zip with a JSON (importable)
+ * and a Markdown file per chat. Admins may pass ?userId to export another user.
+ */
+export async function GET(request: Request) {
+  const { searchParams } = new URL(request.url);
+  const requestedUserId = searchParams.get("userId");
+
+  const session = await auth();
+  if (!session?.user?.id) {
+    return new Response("Unauthorized", { status: 401 });
+  }
+
+  const userId = requestedUserId ?? session.user.id;
+  if (
+    userId !== session.user.id &&
+    !EXPORT_ANY_USER_TYPES.includes(session.user.type)
+  ) {
+    return new Response("Forbidden", { status: 403 });
+  }
+
+  try {
+    const chats = await getAllChatsByUserId(userId);
+    const entries: ZipEntry[] = [];
+
+    // По одному чату за раз: выгрузка с документами может быть большой
+    for (const chat of chats) {
+      const data = await getChatExport(chat);
+      entries.push(
+        {
+          name: `json/${getExportFileName(chat, "json")}`,
+          data: JSON.stringify(data, null, 2),
+        },
+        {
+          name: `markdown/${getExportFileName(chat, "md")}`,
+          data: chatToMarkdown(data),
+        }
+      );
+    }
+
+    const date = new Date().toISOString().slice(0, 10);
+    return new Response(createZip(entries), {
+      headers: {
+        "Content-Type": "application/zip",
+        "Content-Disposition": getAttachmentDisposition(
+          `aifa-chats-${userId}-${date}.zip`
+        ),
+      },
+    });
+  } catch (error) {
+    console.error("GET /chat/export/all error:", error);
+    return new Response("An error occurred while processing your request!", {
+      status: 500,
+    });
+  }
+}
@@ -0,0 +1,78 @@
+// @/app/@left/(_public)/(_CHAT)/(chat)/(_server)/api/chat/export/route.ts
+
+import { auth } from "@/app/@left/(_public)/(_AUTH)/(_service)/(_actions)/auth";
+import { getChatById } from "../../../../(_service)/(_db-queries)/chat/queries";
+import { getChatExport } from "../../../../(_service)/(_db-queries)/export/queries";
+import {
+  chatToMarkdown,
+  chatToPrintableHtml,
+  getAttachmentDisposition,
+  getExportFileName,
+  type ChatExportFormat,
+} from "../../../../(_service)/(_libs)/chat-export";
+
+const EXPORT_FORMATS: ChatExportFormat[] = ["markdown", "json", "pdf"];
+
+/**
+ * Exports a chat of the signed-in user (or any public chat).
+ * Query: ?id&format=markdown|json|pdf. Markdown and JSON are downloaded as files;
+ * "pdf" returns a printable page that opens the browser's print dialog.
+ */
+export async function GET(request: Request) {
+  const { searchParams } = new URL(request.url);
+  const id = searchParams.get("id");
+  const format = (searchParams.get("format") ?? "json") as ChatExportFormat;
+
+  if (!id) {
+    return new Response("Not Found", { status: 404 });
+  }
+
+  if (!EXPORT_FORMATS.includes(format)) {
+    return new Response("Invalid format", { status: 400 });
+  }
+
+  const session = await auth();
+  if (!session?.user?.id) {
+    return new Response("Unauthorized", { status: 401 });
+  }
+
+  try {
+    const chat = await getChatById(id);
+
+    if (!chat) {
+      return new Response("Not Found", { status: 404 });
+    }
+
+    if (chat.userId !== session.user.id && chat.visibility !== "public") {
+      return new Response("Forbidden", { status: 403 });
+    }
+
+    const data = await getChatExport(chat);
+
+    if (format === "pdf") {
+      return new Response(chatToPrintableHtml(data), {
+        headers: { "Content-Type": "text/html; charset=utf-8" },
+      });
+    }
+
+    const isMarkdown = format === "markdown";
+    return new Response(
+      isMarkdown ? chatToMarkdown(data) : JSON.stringify(data, null, 2),
+      {
+        headers: {
+          "Content-Type": isMarkdown
+            ? "text/markdown; charset=utf-8"
+            : "application/json; charset=utf-8",
+          "Content-Disposition": getAttachmentDisposition(
+            getExportFileName(chat, isMarkdown ? "md" : "json")
+          ),
+        },
+      }
+    );
+  } catch (error) {
+    console.error("GET /chat/export error:", error);
+    return new Response("An error occurred while processing your request!", {
+      status: 500,
+    });
+  }
+}
@@ -0,0 +1,141 @@
+// @/app/@left/(_public)/(_CHAT)/(chat)/(_server)/api/chat/folders/route.ts
+
+import { Prisma } from "@prisma/client";
+import { auth } from "@/app/@left/(_public)/(_AUTH)/(_service)/(_actions)/auth";
+import {
+  createChatFolder,
+  deleteChatFolderById,
+  getChatFolderById,
+  getChatFoldersByUserId,
+  renameChatFolder,
+} from "../../../../(_service)/(_db-queries)/folder/queries";
+import { folderBodySchema, type FolderBody } from "./schema";
+
+const isDuplicateName = (error: unknown) =>
+  error instanceof Prisma.PrismaClientKnownRequestError &&
+  error.code === "P2002";
+
+async function parseBody(request: Request): Promise<FolderBody | null> {
+  try {
+    return folderBodySchema.parse(await request.json());
+  } catch (_) {
+    return null;
+  }
+}
+
+// Папкой управляет только её владелец
+async function getOwnedFolder(id: string | null) {
+  const session = await auth();
+  if (!session?.user?.id) {
+    return { error: new Response("Unauthorized", { status: 401 }) };
+  }
+
+  const folder = id ? await getChatFolderById(id) : null;
+  if (!folder) {
+    return { error: new Response("Not Found", { status: 404 }) };
+  }
+  if (folder.userId !== session.user.id) {
+    return { error: new Response("Forbidden", { status: 403 }) };
+  }
+
+  return { folder };
+}
+
+/**
+ * Lists the current user's chat folders with their chat counts.
+ */
+export async function GET() {
+  const session = await auth();
+  if (!session?.user?.id) {
+    return new Response("Unauthorized", { status: 401 });
+  }
+
+  const folders = await getChatFoldersByUserId(session.user.id);
+
+  return Response.json(folders, { status: 200 });
+}
+
+/**
+ * Creates a folder. Body: { name }.
+ */
+export async function POST(request: Request) {
+  const body = await parseBody(request);
+  if (!body) {
+    return new Response("Invalid request body", { status: 400 });
+  }
+
+  const session = await auth();
+  if (!session?.user?.id) {
+    return new Response("Unauthorized", { status: 401 });
+  }
+
+  try {
+    const folder = await createChatFolder({
+      userId: session.user.id,
+      name: body.name,
+    });
+
+    return Response.json(folder, { status: 201 });
+  } catch (error) {
+    if (isDuplicateName(error)) {
+      return new Response("Folder already exists", { status: 409 });
+    }
+    console.error("POST /chat/folders error:", error);
+    return new Response("An error occurred while processing your request!", {
+      status: 500,
+    });
+  }
+}
+
+/**
+ * Renames a folder. Query: ?id. Body: { name }.
+ */
+export async function PATCH(request: Request) {
+  const { searchParams } = new URL(request.url);
+
+  const body = await parseBody(request);
+  if (!body) {
+    return new Response("Invalid request body", { status: 400 });
+  }
+
+  const { folder, error } = await getOwnedFolder(searchParams.get("id"));
+  if (error) return error;
+
+  try {
+    const renamedFolder = await renameChatFolder({
+      id: folder.id,
+      name: body.name,
+    });
+
+    return Response.json(renamedFolder, { status: 200 });
+  } catch (error) {
+    if (isDuplicateName(error)) {
+      return new Response("Folder already exists", { status: 409 });
+    }
+    console.error("PATCH /chat/folders error:", error);
+    return new Response("An error occurred while processing your request!", {
+      status: 500,
+    });
+  }
+}
+
+/**
+ * Deletes a folder. Query: ?id. Its chats are kept and become unfiled.
+ */
+export async function DELETE(request: Request) {
+  const { searchParams } = new URL(request.url);
+
+  const { folder, error } = await getOwnedFolder(searchParams.get("id"));
+  if (error) return error;
+
+  try {
+    const deletedFolder = await deleteChatFolderById(folder.id);
+
+    return Response.json(deletedFolder, { status: 200 });
+  } catch (error) {
+    console.error("DELETE /chat/folders error:", error);
+    return new Response("An error occurred while processing your request!", {
+      status: 500,
+    });
+  }
+}
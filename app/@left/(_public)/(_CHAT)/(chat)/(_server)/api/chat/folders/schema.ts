@@ -0,0 +1,9 @@
+// @/app/@left/(_public)/(_CHAT)/(chat)/(_server)/api/chat/folders/schema.ts
+
+import { z } from "zod";
+
+export const folderBodySchema = z.object({
+  name: z.string().trim().min(1).max(64),
+});
+
+export type FolderBody = z.infer<typeof folderBodySchema>;
@@ -0,0 +1,63 @@
+// @/app/@left/(_public)/(_CHAT)/(chat)/(_server)/api/chat/fork/route.ts
+
+import { auth } from "@/app/@left/(_public)/(_AUTH)/(_service)/(_actions)/auth";
+import { getChatById } from "../../../../(_service)/(_db-queries)/chat/queries";
+import {
+  forkChat,
+  getActiveChatShareByToken,
+} from "../../../../(_service)/(_db-queries)/share/queries";
+
+/**
+ * Copies a chat branch into a new chat of the signed-in user and returns its id:
+ * "Continue this chat" for a shared (by token) or public (by chatId) chat, and
+ * "Fork into new chat" from any message (messageId) of the user's own chat.
+ */
+export async function POST(request: Request) {
+  const { searchParams } = new URL(request.url);
+  const token = searchParams.get("token");
+  const chatId = searchParams.get("chatId");
+  const messageId = searchParams.get("messageId") ?? undefined;
+
+  if (!token && !chatId) {
+    return new Response("token or chatId is required", { status: 400 });
+  }
+
+  const session = await auth();
+  if (!session?.user?.id) {
+    return new Response("Unauthorized", { status: 401 });
+  }
+
+  try {
+    const chat = token
+      ? (await getActiveChatShareByToken(token))?.Chat
+      : await getChatById(chatId as string);
+
+    if (!chat) {
+      return new Response("Not Found", { status: 404 });
+    }
+
+    const isOwner = chat.userId === session.user.id;
+
+    // Guests may fork only their own chats
+    if (!isOwner && session.user.type === "guest") {
+      return new Response("Unauthorized", { status: 401 });
+    }
+
+    if (!token && !isOwner && chat.visibility !== "public") {
+      return new Response("Forbidden", { status: 403 });
+    }
+
+    const fork = await forkChat({
+      chatId: chat.id,
+      userId: session.user.id,
+      messageId,
+    });
+
+    return Response.json({ id: fork.id }, { status: 201 });
+  } catch (error) {
+    console.error("POST /chat/fork error:", error);
+    return new Response("An error occurred while processing your request!", {
+      status: 500,
+    });
+  }
+}
@@ -0,0 +1,43 @@
+// @/app/@left/(_public)/(_CHAT)/(chat)/(_server)/api/chat/import/route.ts
+
+import { auth } from "@/app/@left/(_public)/(_AUTH)/(_service)/(_actions)/auth";
+import { importChat } from "../../../../(_service)/(_db-queries)/export/queries";
+import { importBodySchema, MAX_IMPORT_SIZE, type ImportBody } from "./schema";
+
+/**
+ * Imports a JSON chat export (GET /api/chat/export?format=json) as a new
+ * private chat of the signed-in user and returns its id.
+ */
+export async function POST(request: Request) {
+  const contentLength = Number(request.headers.get("content-length") ?? 0);
+  if (contentLength > MAX_IMPORT_SIZE) {
+    return new Response("File is too large", { status: 413 });
+  }
+
+  const session = await auth();
+  if (!session?.user?.id) {
+    return new Response("Unauthorized", { status: 401 });
+  }
+
+  let body: ImportBody;
+  try {
+    const text = await request.text();
+    if (text.length > MAX_IMPORT_SIZE) {
+      return new Response("File is too large", { status: 413 });
+    }
+    body = importBodySchema.parse(JSON.parse(text));
+  } catch (_) {
+    return new Response("Invalid chat export", { status: 400 });
+  }
+
+  try {
+    const chat = await importChat({ userId: session.user.id, data: body });
+
+    return Response.json({ id: chat.id }, { status: 201 });
+  } catch (error) {
+    console.error("POST /chat/import error:", error);
+    return new Response("An error occurred while processing your request!", {
+      status: 500,
+    });
+  }
+}
@@ -0,0 +1,82 @@
+// @/app/@left/(_public)/(_CHAT)/(chat)/(_server)/api/chat/import/schema.ts
+
+import { z } from "zod";
+import { ArtifactKind, Visibility, type Prisma } from "@prisma/client";
+import {
+  CHAT_EXPORT_FORMAT,
+  CHAT_EXPORT_VERSION,
+} from "@/app/@left/(_public)/(_CHAT)/(chat)/(_service)/(_libs)/chat-export";
+import { CODE_LANGUAGES } from "@/app/@left/(_public)/(_CHAT)/(chat)/(_service)/(_libs)/artifacts/code/languages";
+import { getDocumentIds } from "@/app/@left/(_public)/(_CHAT)/(chat)/(_service)/(_libs)/document-links";
+
+export const MAX_IMPORT_SIZE = 20 * 1024 * 1024;
+
+// Идентификаторы из файла заменяются при импорте, поэтому формат не проверяется
+const idString = z.string().min(1).max(64);
+
+// Части, вложения и аннотации переносятся как есть
+const jsonValue = z
+  .custom<Prisma.JsonValue>()
+  .transform((value) => value ?? null);
+
+export const importBodySchema = z
+  .object({
+    format: z.literal(CHAT_EXPORT_FORMAT),
+    version: z.literal(CHAT_EXPORT_VERSION),
+    exportedAt: z.string(),
+    chat: z.object({
+      id: idString,
+      title: z.string().trim().min(1).max(500),
+      visibility: z.nativeEnum(Visibility),
+      activeMessageId: idString.nullable(),
+      createdAt: z.string().datetime(),
+    }),
+    messages: z
+      .array(
+        z.object({
+          id: idString,
+          parentId: idString.nullable(),
+          role: z.enum(["user", "system", "assistant"]),
+          content: jsonValue,
+          parts: jsonValue,
+          attachments: jsonValue,
+          annotations: jsonValue,
+          createdAt: z.string().datetime(),
+        })
+      )
+      .max(5000),
+    votes: z
+      .array(z.object({ messageId: idString, isUpvoted: z.boolean() }))
+      .max(5000),
+    documents: z
+      .array(
+        z.object({
+          id: idString,
+          createdAt: z.string().datetime(),
+          title: z.string().max(500),
+          content: z.string().nullable(),
+          kind: z.nativeEnum(ArtifactKind),
+          language: z.enum(CODE_LANGUAGES).nullish(),
+        })
+      )
+      .max(1000),
+  })
+  .refine(
+    (data) =>
+      new Set(data.messages.map((message) => message.id)).size ===
+      data.messages.length,
+    { message: "Duplicate message ids", path: ["messages"] }
+  )
+  // Документ из частей сообщений, которого нет в файле, — чужой документ:
+  // его id не заменится при импорте и откроет к нему доступ
+  .refine(
+    (data) => {
+      const documentIds = new Set(data.documents.map(({ id }) => id));
+      return data.messages.every((message) =>
+        getDocumentIds(message.parts).every((id) => documentIds.has(id))
+      );
+    },
+    { message: "Messages reference unknown documents", path: ["messages"] }
+  );
+
+export type ImportBody = z.infer<typeof importBodySchema>;
@@ -0,0 +1,80 @@
+// @/app/@left/(_public)/(_CHAT)/(chat)/(_server)/api/chat/organize/route.ts
+
+import { auth } from "@/app/@left/(_public)/(_AUTH)/(_service)/(_actions)/auth";
+import {
+  getChatById,
+  updateChatOrganization,
+} from "../../../../(_service)/(_db-queries)/chat/queries";
+import { getChatFolderById } from "../../../../(_service)/(_db-queries)/folder/queries";
+import { countChatTagsOfUser } from "../../../../(_service)/(_db-queries)/tag/queries";
+import { organizeBodySchema, type OrganizeBody } from "./schema";
+
+/**
+ * Pins a chat, moves it into a folder and sets its tags.
+ * Query: ?id. Body: { pinned?, folderId?, tagIds? }; omitted fields are kept.
+ */
+export async function PATCH(request: Request) {
+  const { searchParams } = new URL(request.url);
+  const id = searchParams.get("id");
+
+  if (!id) {
+    return new Response("Not Found", { status: 404 });
+  }
+
+  let body: OrganizeBody;
+  try {
+    body = organizeBodySchema.parse(await request.json());
+  } catch (_) {
+    return new Response("Invalid request body", { status: 400 });
+  }
+
+  const session = await auth();
+  if (!session?.user?.id) {
+    return new Response("Unauthorized", { status: 401 });
+  }
+
+  try {
+    const chat = await getChatById(id);
+
+    if (!chat) {
+      return new Response("Not Found", { status: 404 });
+    }
+
+    if (chat.userId !== session.user.id) {
+      return new Response("Forbidden", { status: 403 });
+    }
+
+    // Папка и теги должны принадлежать владельцу чата
+    if (body.folderId) {
+      const folder = await getChatFolderById(body.folderId);
+      if (folder?.userId !== session.user.id) {
+        return new Response("Invalid folder", { status: 400 });
+      }
+    }
+
+    const tagIds = body.tagIds && [...new Set(body.tagIds)];
+    if (tagIds && tagIds.length > 0) {
+      const count = await countChatTagsOfUser({
+        userId: session.user.id,
+        ids: tagIds,
+      });
+      if (count !== tagIds.length) {
+        return new Response("Invalid tags", { status: 400 });
+      }
+    }
+
+    const updatedChat = await updateChatOrganization({
+      chatId: id,
+      pinned: body.pinned,
+      folderId: body.folderId,
+      tagIds,
+    });
+
+    return Response.json(updatedChat, { status: 200 });
+  } catch (error) {
+    console.error("PATCH /chat/organize error:", error);
+    return new Response("An error occurred while processing your request!", {
+      status: 500,
+    });
+  }
+}
@@ -0,0 +1,18 @@
+// @/app/@left/(_public)/(_CHAT)/(chat)/(_server)/api/chat/organize/schema.ts
+
+import { z } from "zod";
+import { isValidCuid } from "@/lib/utils/validateCuid";
+
+const cuidString = z
+  .string()
+  .min(1)
+  .refine(isValidCuid, { message: "Invalid CUID" });
+
+// Не переданные поля не меняются; folderId: null убирает чат из папки
+export const organizeBodySchema = z.object({
+  pinned: z.boolean().optional(),
+  folderId: cuidString.nullable().optional(),
+  tagIds: z.array(cuidString).max(20).optional(),
+});
+
+export type OrganizeBody = z.infer<typeof organizeBodySchema>;
@@ -15,14 +15,42 @@ import {
 } from "@/app/@left/(_public)/(_CHAT)/(chat)/(_service)/(_libs)/ai/prompts";
 import { getTrailingMessageId } from "@/lib/utils";
 import { generateTitleFromUserMessage } from "../../../(_service)/(_actions)/actions";
-import { createDocument } from "@/app/@left/(_public)/(_CHAT)/(chat)/(_service)/(_libs)/ai/tools/create-document";
-import { updateDocument } from "@/app/@left/(_public)/(_CHAT)/(chat)/(_service)/(_libs)/ai/tools/update-document";
-import { requestSuggestions } from "@/app/@left/(_public)/(_CHAT)/(chat)/(_service)/(_libs)/ai/tools/request-suggestions";
-import { getWeather } from "@/app/@left/(_public)/(_CHAT)/(chat)/(_service)/(_libs)/ai/tools/get-weather";
-import { fileSearchVectorStore } from "@/app/@left/(_public)/(_CHAT)/(chat)/(_service)/(_libs)/ai/tools/file-search-vector-store";
+import {
+  appendMessageToBranch,
+  getActiveBranchByChatId,
+  getBranchByMessageId,
+  getMessageById,
+} from "../../../(_service)/(_db-queries)/message/queries";
 import { isProductionEnvironment } from "@/app/@left/(_public)/(_CHAT)/(chat)/(_service)/(_constants)/constants";
+import { chatTools } from "@/app/@left/(_public)/(_CHAT)/(chat)/(_service)/(_libs)/ai/tools/chat-tools";
 import { myProvider } from "@/app/@left/(_public)/(_CHAT)/(chat)/(_service)/(_libs)/ai/providers";
-import { entitlementsByUserType } from "@/app/@left/(_public)/(_CHAT)/(chat)/(_service)/(_libs)/ai/entitlements";
+import {
+  checkMessageQuotas,
+  quotaExceededResponse,
+} from "@/app/@left/(_public)/(_CHAT)/(chat)/(_service)/(_libs)/ai/quotas";
+import { recordTokenUsage } from "@/app/@left/(_public)/(_CHAT)/(chat)/(_service)/(_libs)/ai/usage";
+import {
+  DEFAULT_CHAT_MODEL,
+  modelSupportsTools,
+} from "@/app/@left/(_public)/(_CHAT)/(chat)/(_service)/(_libs)/ai/models";
+import { resolveChatAssistant } from "@/app/@left/(_public)/(_CHAT)/(chat)/(_service)/(_libs)/ai/assistant";
+import { isChatModelAvailable } from "@/app/@left/(_public)/(_CHAT)/(chat)/(_service)/(_libs)/ai/entitlements";
+import { getAssistantTools } from "@/app/@left/(_public)/(_CHAT)/(chat)/(_service)/(_libs)/assistants";
+import {
+  pageSelectionPrompt,
+  pageSelectionQuote,
+  resolvePageSelection,
+} from "@/app/@left/(_public)/(_CHAT)/(chat)/(_service)/(_libs)/ai/page-selection-prompt";
+import { getPageSelection } from "@/app/@left/(_public)/(_CHAT)/(chat)/(_service)/(_libs)/page-selection";
+import {
+  extractMemories,
+  isMemoryActive,
+  selectRelevantMemories,
+} from "@/app/@left/(_public)/(_CHAT)/(chat)/(_service)/(_libs)/ai/memory";
+import { getUserMemoriesByUserId } from "../../../(_service)/(_db-queries)/memory/queries";
+import { getUserInstructions } from "../../../(_service)/(_db-queries)/instructions/queries";
+import { getSystemPromptSections } from "../../../(_service)/(_db-queries)/prompt-section/queries";
+import { getFilesByUrls } from "../../../(_service)/(_db-queries)/file/queries";
 import { postRequestBodySchema, type PostRequestBody } from "./schema";
 import { geolocation } from "@vercel/functions";
 import {
@@ -34,7 +62,6 @@ import { differenceInSeconds } from "date-fns";
 import { prisma } from "@/lib/db";
 
 import { Chat, Message, Prisma, UserType } from "@prisma/client";
-import { openai } from "@ai-sdk/openai";
 import { generateCuid } from "@/lib/utils/generateCuid";
 import { extractSubFromJWT } from "@/lib/utils/extract-sub-from-jwt";
 import { z } from "zod";
@@ -43,54 +70,6 @@ export const maxDuration = 60;
 
 let globalStreamContext: ResumableStreamContext | null = null;
 
-/**
- * Logs token usage with detailed information and correct GPT-4 Mini pricing
- * @param prefix - Prefix for source identification
- * @param usage - Object with token usage information
- * @param chatId - Chat ID for context
- * @param userId - User ID for context
- */
-function logTokenUsage(
-  prefix: string,
-  usage: any,
-  chatId?: string,
-  userId?: string
-) {
-  if (!usage) {
-    console.log(`${prefix} - Token usage data not available`);
-    return;
-  }
-
-  const { promptTokens, completionTokens, totalTokens } = usage;
-
-  console.log(`\n🔢 ===== ${prefix.toUpperCase()} TOKEN USAGE =====`);
-  console.log(`📊 Chat ID: ${chatId || "unknown"}`);
-  console.log(`👤 User ID: ${userId || "unknown"}`);
-  console.log(`📥 Input tokens (Prompt): ${promptTokens ?? "unknown"}`);
-  console.log(
-    `📤 Output tokens (Completion): ${completionTokens ?? "unknown"}`
-  );
-  console.log(`🔄 Total tokens: ${totalTokens ?? "unknown"}`);
-
-  // GPT-4 Mini pricing calculation: Input $0.15/1M, Output $0.60/1M
-  if (promptTokens && completionTokens) {
-    const inputCost = (promptTokens / 1000000) * 0.15; // $0.15 per 1M tokens
-    const outputCost = (completionTokens / 1000000) * 0.6; // $0.60 per 1M tokens
-    const totalCost = inputCost + outputCost;
-
-    console.log(
-      `💰 GPT-4 Mini cost: $${totalCost.toFixed(8)} (Input: $${inputCost.toFixed(8)}, Output: $${outputCost.toFixed(8)})`
-    );
-
-    // Additionally show cost in cents for clarity
-    const totalCostCents = totalCost * 100;
-    console.log(`💸 Cost in cents: ${totalCostCents.toFixed(6)}¢`);
-  }
-
-  console.log(`⏰ Logged at: ${new Date().toISOString()}`);
-  console.log(`🔢 ===== END TOKEN USAGE =====\n`);
-}
-
 /**
  * Get or create a global resumable stream context for data streaming.
  */
@@ -131,8 +110,10 @@ export async function POST(request: Request) {
     const {
       id: chatId,
       message,
-      selectedChatModel,
+      selectedChatModel: requestedChatModel,
+      selectedAssistant,
       selectedVisibilityType,
+      parentId: requestedParentId,
     } = requestBody;
 
     let session = await auth();
@@ -160,31 +141,6 @@ export async function POST(request: Request) {
 
     // Now session is always defined and can be safely used further
 
-    // Count how many user messages they sent in last 24 hours
-    const messageCount = await prisma.message.count({
-      where: {
-        role: "user",
-        createdAt: {
-          gte: new Date(Date.now() - 24 * 60 * 60 * 1000),
-        },
-        Chat: {
-          userId,
-        },
-      },
-    });
-
-    if (messageCount >= entitlementsByUserType[userType].maxMessagesPerDay) {
-      return NextResponse.json(
-        {
-          error:
-            "You've reached your daily limit. Sign up to get 5× more messages per day!",
-          redirectTo: "/register",
-          delay: 3000,
-        },
-        { status: 429 }
-      );
-    }
-
     // Check if chat exists
     let chat = await prisma.chat.findUnique({ where: { id: chatId } });
     console.log(
@@ -195,15 +151,67 @@ export async function POST(request: Request) {
       "console: // @/app/@left/(chat)/api/chat/route.ts message:  ",
       message
     );
+
+    // Prevent users from accessing others' chats
+    if (chat && chat.userId !== userId) {
+      return new Response("Forbidden", { status: 403 });
+    }
+
+    // The assistant is picked when the chat is created and kept afterwards
+    const assistant = await resolveChatAssistant({
+      chat,
+      slug: selectedAssistant,
+      userType,
+    });
+    if (assistant === undefined) {
+      return new Response("Unknown assistant", { status: 400 });
+    }
+
+    const selectedChatModel =
+      requestedChatModel ?? assistant?.modelId ?? DEFAULT_CHAT_MODEL;
+
+    if (!isChatModelAvailable(userType, selectedChatModel)) {
+      return new Response("Model not available", { status: 403 });
+    }
+
+    // Only the user's own uploads can be attached: their size is known
+    const attachmentUrls = (message.experimental_attachments ?? []).map(
+      ({ url }) => url
+    );
+    const attachmentFiles = await getFilesByUrls({
+      userId,
+      urls: attachmentUrls,
+    });
+    if (attachmentFiles.length < new Set(attachmentUrls).size) {
+      return new Response("Unknown attachment", { status: 400 });
+    }
+
+    const quotaViolation = await checkMessageQuotas({
+      userId,
+      userType,
+      modelId: selectedChatModel,
+      attachments: message.experimental_attachments,
+    });
+
+    if (quotaViolation) {
+      return quotaExceededResponse(quotaViolation, userType);
+    }
+
     if (!chat) {
       // Create new chat with title generated from first user message
-      const title = await generateTitleFromUserMessage({ message });
+      const title = await generateTitleFromUserMessage({
+        message,
+        chatId,
+        userId,
+        userType,
+      });
       chat = await prisma.chat.create({
         data: {
           id: chatId,
           userId: userId ? userId : "12345qwert",
           title,
           visibility: selectedVisibilityType,
+          assistantId: assistant?.id,
           createdAt: new Date(),
         },
       });
@@ -211,26 +219,44 @@ export async function POST(request: Request) {
         "console: // @/app/@left/(chat)/api/chat/route.ts chat:  ",
         chat
       );
+    }
+
+    // An already saved user message means regeneration: the new answer
+    // becomes a sibling branch of the previous one
+    const existingMessage = await getMessageById(message.id);
+    if (
+      existingMessage &&
+      (existingMessage.chatId !== chatId || existingMessage.role !== "user")
+    ) {
+      return new Response("Invalid message", { status: 400 });
+    }
+
+    let parentId: string | null;
+    if (existingMessage) {
+      parentId = existingMessage.parentId;
+    } else if (requestedParentId !== undefined) {
+      parentId = requestedParentId;
     } else {
-      // Prevent users from accessing others' chats
-      if (chat.userId !== userId) {
-        return new Response("Forbidden", { status: 403 });
-      }
+      parentId = (await getActiveBranchByChatId(chatId)).at(-1)?.id ?? null;
     }
 
-    // Fetch previous messages (Message_v2 model) ordered by creation time
-    const previousMessages = await prisma.message.findMany({
-      where: { chatId },
-      orderBy: { createdAt: "asc" },
+    // History follows the branch the message continues, not the whole tree
+    const previousMessages = await getBranchByMessageId({
+      chatId,
+      messageId: parentId,
     });
+    if (parentId && previousMessages.length === 0) {
+      return new Response("Invalid parent message", { status: 400 });
+    }
 
     // Map DB model to UI-friendly message format for AI processing
     const previousUImessages = previousMessages.map(
-      ({ id, role, parts, attachments, createdAt }: Message) => ({
+      ({ id, role, parts, attachments, annotations, createdAt }: Message) => ({
         id,
         role,
         parts,
         experimental_attachments: attachments,
+        annotations,
         createdAt,
       })
     );
@@ -245,17 +271,72 @@ export async function POST(request: Request) {
     const { longitude, latitude, city, country } = geolocation(request);
     const requestHints: RequestHints = { longitude, latitude, city, country };
 
+    // Фрагмент страницы ("Ask AI about this"): проверяем его по странице до
+    // сохранения, чтобы в истории осталась аннотация с данными сервера
+    const requestedSelection = getPageSelection(message);
+    const pageSelection = requestedSelection
+      ? await resolvePageSelection(requestedSelection)
+      : null;
+
     // Save user's new message to DB
-    await prisma.message.create({
-      data: {
-        id: message.id,
-        chatId,
-        role: "user",
-        parts: message.parts,
-        attachments: message.experimental_attachments ?? [],
-        createdAt: new Date(),
-      },
-    });
+    if (!existingMessage) {
+      await appendMessageToBranch({
+        parentId,
+        message: {
+          id: message.id,
+          chatId,
+          role: "user",
+          parts: message.parts,
+          attachments: message.experimental_attachments ?? [],
+          annotations: pageSelection ? [pageSelection] : undefined,
+          createdAt: new Date(),
+        },
+      });
+    }
+
+    // Для проверенного фрагмента ищем похожие материалы и другие страницы
+    // сайта до начала генерации
+    const selectionPrompt = pageSelection
+      ? await pageSelectionPrompt({ selection: pageSelection, userType })
+      : null;
+    // Сам фрагмент идёт цитатой в сообщении пользователя, не в системном промпте
+    const modelMessages = pageSelection
+      ? messages.map((uiMessage) =>
+          uiMessage.id === message.id
+            ? {
+                ...uiMessage,
+                parts: [
+                  {
+                    type: "text" as const,
+                    text: pageSelectionQuote(pageSelection),
+                  },
+                  ...(uiMessage.parts ?? []),
+                ],
+              }
+            : uiMessage
+        )
+      : messages;
+
+    // Долговременная память: только для включивших её пользователей (не гостей и не apiUser)
+    const userText = message.parts.map((part) => part.text).join("\n");
+    const memoryActive = await isMemoryActive({ userId, userType });
+    const memories = memoryActive
+      ? selectRelevantMemories(await getUserMemoriesByUserId(userId), userText)
+      : [];
+
+    // Инструкции профиля и чата и разделы администратора (см. systemPrompt)
+    const [profileInstructions, promptSections] = await Promise.all([
+      getUserInstructions(userId),
+      getSystemPromptSections({ enabledOnly: true }),
+    ]);
+    const promptOptions = {
+      selectedChatModel,
+      requestHints,
+      assistantPrompt: assistant?.systemPrompt,
+      memories,
+      instructions: { profile: profileInstructions, chat: chat.instructions },
+      sections: promptSections,
+    };
 
     // Create a new stream ID and associate to chat
     const streamId = generateCuid();
@@ -272,44 +353,28 @@ export async function POST(request: Request) {
       execute: (dataStream) => {
         const result = streamText({
           model: myProvider.languageModel(selectedChatModel),
-          system: systemPrompt({ selectedChatModel, requestHints }),
-          messages,
+          system: selectionPrompt
+            ? `${systemPrompt(promptOptions)}\n\n${selectionPrompt}`
+            : systemPrompt(promptOptions),
+          messages: modelMessages,
           maxSteps: 5,
-          experimental_activeTools:
-            selectedChatModel === "chat-model-reasoning"
-              ? []
-              : [
-                  "web_search_preview",
-                  "getWeather",
-                  "createDocument",
-                  "updateDocument",
-                  "requestSuggestions",
-                  "fileSearchVectorStore",
-                ],
+          experimental_activeTools: !modelSupportsTools(selectedChatModel)
+            ? []
+            : getAssistantTools(assistant),
           experimental_transform: smoothStream({ chunking: "word" }),
           experimental_generateMessageId: generateCuid,
-          tools: {
-            web_search_preview: openai.tools.webSearchPreview({
-              // optional configuration:
-              searchContextSize: "high",
-              userLocation: {
-                type: "approximate",
-                city: "San Francisco",
-                region: "California",
-              },
-            }),
-            fileSearchVectorStore,
-            getWeather,
-            createDocument: createDocument({ session, dataStream }),
-
-            updateDocument: updateDocument({ session, dataStream }),
-            requestSuggestions: requestSuggestions({ session, dataStream }),
-          },
+          tools: chatTools({ session, dataStream, assistant }),
           onFinish: async ({ response, usage }) => {
             if (!session.user?.id) return;
 
-            // Log token usage with GPT-4 Mini pricing
-            logTokenUsage("AI Response", usage, chatId, userId);
+            await recordTokenUsage({
+              modelId: selectedChatModel,
+              usage,
+              source: "chat",
+              chatId,
+              userId,
+              userType,
+            });
 
             try {
               const assistantId = getTrailingMessageId({
@@ -324,8 +389,9 @@ export async function POST(request: Request) {
                 responseMessages: response.messages,
               });
 
-              await prisma.message.create({
-                data: {
+              await appendMessageToBranch({
+                parentId: message.id,
+                message: {
                   id: assistantId,
                   chatId,
                   role: assistantMessage.role,
@@ -342,6 +408,21 @@ export async function POST(request: Request) {
               console.log(
                 `✅ Assistant message saved successfully for chat ${chatId}`
               );
+
+              if (memoryActive) {
+                const assistantText = (assistantMessage.parts ?? [])
+                  .flatMap((part) => (part.type === "text" ? [part.text] : []))
+                  .join("\n");
+                after(() =>
+                  extractMemories({
+                    userId,
+                    userType,
+                    chatId,
+                    userText,
+                    assistantText,
+                  })
+                );
+              }
             } catch (error) {
               console.error("Failed to save assistant message:", error);
 
@@ -415,7 +496,7 @@ export async function GET(request: Request) {
     return new Response("Not found", { status: 404 });
   }
 
-  if (chat.visibility === "private" && chat.userId !== session.user.id) {
+  if (chat.visibility !== "public" && chat.userId !== session.user.id) {
     return new Response("Forbidden", { status: 403 });
   }
 
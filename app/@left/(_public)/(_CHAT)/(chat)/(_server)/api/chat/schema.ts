@@ -2,6 +2,11 @@
 
 import { z } from "zod";
 import { isValidCuid } from "@/lib/utils/validateCuid";
+import { isChatModelId } from "@/app/@left/(_public)/(_CHAT)/(chat)/(_service)/(_libs)/ai/models";
+import {
+  MAX_PAGE_SELECTION_LENGTH,
+  PAGE_SELECTION_ANNOTATION,
+} from "@/app/@left/(_public)/(_CHAT)/(chat)/(_service)/(_libs)/page-selection";
 
 const cuidString = z
   .string()
@@ -13,6 +18,20 @@ const textPartSchema = z.object({
   type: z.enum(["text"]),
 });
 
+const pageSelectionAnnotationSchema = z.object({
+  type: z.literal(PAGE_SELECTION_ANNOTATION),
+  pageId: z.string().min(1).max(200),
+  sectionId: z.string().min(1).max(200),
+  // Только путь сайта: "//host" и "/\host" браузер откроет как внешнюю ссылку
+  href: z
+    .string()
+    .startsWith("/")
+    .max(2000)
+    .refine((href) => !/^\/[/\\]/.test(href), { message: "Invalid href" }),
+  pageTitle: z.string().max(2000),
+  text: z.string().min(1).max(MAX_PAGE_SELECTION_LENGTH),
+});
+
 export const postRequestBodySchema = z.object({
   id: z.string(),
   message: z.object({
@@ -30,13 +49,18 @@ export const postRequestBodySchema = z.object({
         })
       )
       .optional(),
+    annotations: z.array(pageSelectionAnnotationSchema).max(1).optional(),
   }),
-  selectedChatModel: z.enum([
-    "api-chat-support",
-    "chat-model",
-    "chat-model-reasoning",
-  ]),
-  selectedVisibilityType: z.enum(["public", "private"]),
+  // Предыдущее сообщение ветки; не передан — продолжается активная ветка
+  parentId: cuidString.nullable().optional(),
+  // Не передана — модель ассистента по умолчанию
+  selectedChatModel: z
+    .string()
+    .refine(isChatModelId, { message: "Unknown chat model" })
+    .optional(),
+  // slug ассистента; учитывается только при создании чата
+  selectedAssistant: z.string().min(1).max(100).optional(),
+  selectedVisibilityType: z.enum(["public", "unlisted", "private"]),
 });
 
 export type PostRequestBody = z.infer<typeof postRequestBodySchema>;
@@ -0,0 +1,114 @@
+// @/app/@left/(_public)/(_CHAT)/(chat)/(_server)/api/chat/share/route.ts
+
+import { randomBytes } from "crypto";
+import { auth } from "@/app/@left/(_public)/(_AUTH)/(_service)/(_actions)/auth";
+import {
+  getChatById,
+  updateChatVisibilityById,
+} from "../../../../(_service)/(_db-queries)/chat/queries";
+import {
+  createChatShare,
+  getActiveChatSharesByChatId,
+  getChatShareById,
+  revokeChatShareById,
+} from "../../../../(_service)/(_db-queries)/share/queries";
+
+// Ссылки на чат управляет только его владелец
+async function getOwnedChat(chatId: string) {
+  const session = await auth();
+  if (!session?.user?.id) {
+    return { error: new Response("Unauthorized", { status: 401 }) };
+  }
+
+  const chat = await getChatById(chatId);
+  if (!chat) {
+    return { error: new Response("Not Found", { status: 404 }) };
+  }
+  if (chat.userId !== session.user.id) {
+    return { error: new Response("Forbidden", { status: 403 }) };
+  }
+
+  return { chat };
+}
+
+export async function GET(request: Request) {
+  const { searchParams } = new URL(request.url);
+  const chatId = searchParams.get("chatId");
+
+  if (!chatId) {
+    return new Response("chatId is required", { status: 400 });
+  }
+
+  const { error } = await getOwnedChat(chatId);
+  if (error) return error;
+
+  const shares = await getActiveChatSharesByChatId({ chatId });
+
+  return Response.json(shares, { status: 200 });
+}
+
+export async function POST(request: Request) {
+  const { searchParams } = new URL(request.url);
+  const chatId = searchParams.get("chatId");
+
+  if (!chatId) {
+    return new Response("chatId is required", { status: 400 });
+  }
+
+  const { chat, error } = await getOwnedChat(chatId);
+  if (error) return error;
+
+  try {
+    const share = await createChatShare({
+      chatId,
+      token: randomBytes(24).toString("base64url"),
+    });
+
+    // Приватный чат становится unlisted: его видят только получившие ссылку
+    if (chat.visibility === "private") {
+      await updateChatVisibilityById({ chatId, visibility: "unlisted" });
+    }
+
+    return Response.json(share, { status: 201 });
+  } catch (error) {
+    console.error("POST /chat/share error:", error);
+    return new Response("An error occurred while processing your request!", {
+      status: 500,
+    });
+  }
+}
+
+export async function DELETE(request: Request) {
+  const { searchParams } = new URL(request.url);
+  const id = searchParams.get("id");
+
+  if (!id) {
+    return new Response("Not Found", { status: 404 });
+  }
+
+  const session = await auth();
+  if (!session?.user?.id) {
+    return new Response("Unauthorized", { status: 401 });
+  }
+
+  try {
+    const share = await getChatShareById(id);
+
+    if (!share) {
+      return new Response("Not Found", { status: 404 });
+    }
+
+    if (share.Chat.userId !== session.user.id) {
+      return new Response("Forbidden", { status: 403 });
+    }
+
+    const revokedShare = await revokeChatShareById(id);
+
+    return Response.json(revokedShare, { status: 200 });
+  } catch (error) {
+    console.error("DELETE /chat/share error:", error);
+    return new Response("An error occurred while processing your request!", {
+      status: 500,
+    });
+  }
+}
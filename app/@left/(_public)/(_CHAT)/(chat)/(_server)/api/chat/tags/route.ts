@@ -0,0 +1,100 @@
+// @/app/@left/(_public)/(_CHAT)/(chat)/(_server)/api/chat/tags/route.ts
+
+import { Prisma } from "@prisma/client";
+import { auth } from "@/app/@left/(_public)/(_AUTH)/(_service)/(_actions)/auth";
+import {
+  createChatTag,
+  deleteChatTagById,
+  getChatTagById,
+  getChatTagsByUserId,
+} from "../../../../(_service)/(_db-queries)/tag/queries";
+import { tagBodySchema, type TagBody } from "./schema";
+
+/**
+ * Lists the current user's chat tags.
+ */
+export async function GET() {
+  const session = await auth();
+  if (!session?.user?.id) {
+    return new Response("Unauthorized", { status: 401 });
+  }
+
+  const tags = await getChatTagsByUserId(session.user.id);
+
+  return Response.json(tags, { status: 200 });
+}
+
+/**
+ * Creates a tag. Body: { name }.
+ */
+export async function POST(request: Request) {
+  let body: TagBody;
+  try {
+    body = tagBodySchema.parse(await request.json());
+  } catch (_) {
+    return new Response("Invalid request body", { status: 400 });
+  }
+
+  const session = await auth();
+  if (!session?.user?.id) {
+    return new Response("Unauthorized", { status: 401 });
+  }
+
+  try {
+    const tag = await createChatTag({
+      userId: session.user.id,
+      name: body.name,
+    });
+
+    return Response.json(tag, { status: 201 });
+  } catch (error) {
+    if (
+      error instanceof Prisma.PrismaClientKnownRequestError &&
+      error.code === "P2002"
+    ) {
+      return new Response("Tag already exists", { status: 409 });
+    }
+    console.error("POST /chat/tags error:", error);
+    return new Response("An error occurred while processing your request!", {
+      status: 500,
+    });
+  }
+}
+
+/**
+ * Deletes a tag and removes it from all chats. Query: ?id.
+ */
+export async function DELETE(request: Request) {
+  const { searchParams } = new URL(request.url);
+  const id = searchParams.get("id");
+
+  if (!id) {
+    return new Response("Not Found", { status: 404 });
+  }
+
+  const session = await auth();
+  if (!session?.user?.id) {
+    return new Response("Unauthorized", { status: 401 });
+  }
+
+  try {
+    const tag = await getChatTagById(id);
+
+    if (!tag) {
+      return new Response("Not Found", { status: 404 });
+    }
+
+    if (tag.userId !== session.user.id) {
+      return new Response("Forbidden", { status: 403 });
+    }
+
+    const deletedTag = await deleteChatTagById(id);
+
+    return Response.json(deletedTag, { status: 200 });
+  } catch (error) {
+    console.error("DELETE /chat/tags error:", error);
+    return new Response("An error occurred while processing your request!", {
+      status: 500,
+    });
+  }
+}
@@ -0,0 +1,9 @@
+// @/app/@left/(_public)/(_CHAT)/(chat)/(_server)/api/chat/tags/schema.ts
+
+import { z } from "zod";
+
+export const tagBodySchema = z.object({
+  name: z.string().trim().min(1).max(32),
+});
+
+export type TagBody = z.infer<typeof tagBodySchema>;
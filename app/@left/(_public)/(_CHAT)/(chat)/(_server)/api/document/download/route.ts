@@ -0,0 +1,138 @@
+// @/app/@left/(_public)/(_CHAT)/(chat)/(_server)/api/document/download/route.ts
+
+import { auth } from "@/app/@left/(_public)/(_AUTH)/(_service)/(_actions)/auth";
+import { getDocumentsById } from "../../../../(_service)/(_db-queries)/document/queries";
+import {
+  getActiveChatShareByToken,
+  isDocumentInChat,
+} from "../../../../(_service)/(_db-queries)/share/queries";
+import {
+  getAttachmentDisposition,
+  getExportFileName,
+} from "../../../../(_service)/(_libs)/chat-export";
+import { parseProject } from "../../../../(_service)/(_libs)/artifacts/project/files";
+import {
+  parseSheet,
+  sheetToCsv,
+} from "../../../../(_service)/(_libs)/artifacts/sheet/data";
+import { getSheetDisplayValues } from "../../../../(_service)/(_libs)/artifacts/sheet/formulas";
+import { createXlsx } from "../../../../(_service)/(_libs)/artifacts/sheet/xlsx";
+import { createZip } from "../../../../(_service)/(_libs)/zip";
+
+const SHEET_FORMATS = ["csv", "xlsx"];
+
+/**
+ * Downloads a project document as a zip, or a sheet document as CSV
+ * (default) or XLSX with ?format=xlsx. Without ?timestamp the latest
+ * version is used. Viewers of a shared chat pass ?shareToken.
+ */
+export async function GET(request: Request) {
+  const { searchParams } = new URL(request.url);
+  const id = searchParams.get("id");
+  const timestamp = searchParams.get("timestamp");
+  const shareToken = searchParams.get("shareToken");
+  const format = searchParams.get("format") ?? "csv";
+
+  if (!id) {
+    return new Response("Missing id", { status: 400 });
+  }
+
+  if (!SHEET_FORMATS.includes(format)) {
+    return new Response("Unsupported format", { status: 400 });
+  }
+
+  try {
+    const documents = await getDocumentsById(id);
+
+    if (shareToken) {
+      const share = await getActiveChatShareByToken(shareToken);
+
+      if (
+        !share ||
+        !(await isDocumentInChat({ chat: share.Chat, documentId: id }))
+      ) {
+        return new Response("Not found", { status: 404 });
+      }
+    } else {
+      const session = await auth();
+
+      if (!session?.user?.id) {
+        return new Response("Unauthorized", { status: 401 });
+      }
+
+      if (documents.length > 0 && documents[0].userId !== session.user.id) {
+        return new Response("Forbidden", { status: 403 });
+      }
+    }
+
+    const document = timestamp
+      ? documents.find(
+          (version) =>
+            version.createdAt.getTime() === new Date(timestamp).getTime()
+        )
+      : documents.at(-1);
+
+    if (!document) {
+      return new Response("Not found", { status: 404 });
+    }
+
+    if (document.kind === "sheet") {
+      const sheet = parseSheet(document.content);
+      const fileName = getExportFileName(document, format);
+
+      if (format === "xlsx") {
+        return new Response(
+          createXlsx(sheet, document.title, document.createdAt),
+          {
+            headers: {
+              "Content-Type":
+                "application/vnd.openxmlformats-officedocument.spreadsheetml.sheet",
+              "Content-Disposition": getAttachmentDisposition(fileName),
+            },
+          }
+        );
+      }
+
+      // BOM lets Excel detect UTF-8 in non-Latin sheets
+      return new Response(
+        `\uFEFF${sheetToCsv(sheet, getSheetDisplayValues(sheet))}`,
+        {
+          headers: {
+            "Content-Type": "text/csv; charset=utf-8",
+            "Content-Disposition": getAttachmentDisposition(fileName),
+          },
+        }
+      );
+    }
+
+    if (document.kind !== "project") {
+      return new Response(
+        "Only project and sheet documents can be downloaded",
+        { status: 400 }
+      );
+    }
+
+    // Files go into a folder so the archive does not unpack into the cwd
+    const fileName = getExportFileName(document, "zip");
+    const folder = fileName.replace(/\.zip$/, "");
+    const zip = createZip(
+      parseProject(document.content).map((file) => ({
+        name: `${folder}/${file.path}`,
+        data: file.content,
+      })),
+      document.createdAt
+    );
+
+    return new Response(zip, {
+      headers: {
+        "Content-Type": "application/zip",
+        "Content-Disposition": getAttachmentDisposition(fileName),
+      },
+    });
+  } catch (error) {
+    console.error("GET /document/download error:", error);
+    return new Response("An error occurred while processing your request!", {
+      status: 500,
+    });
+  }
+}
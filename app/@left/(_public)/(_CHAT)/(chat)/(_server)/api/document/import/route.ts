@@ -0,0 +1,88 @@
+// @/app/@left/(_public)/(_CHAT)/(chat)/(_server)/api/document/import/route.ts
+
+import { auth } from "@/app/@left/(_public)/(_AUTH)/(_service)/(_actions)/auth";
+import { generateCuid } from "@/lib/utils/generateCuid";
+import { saveDocument } from "../../../../(_service)/(_db-queries)/document/queries";
+import {
+  serializeSheet,
+  sheetFromCsv,
+  type SheetData,
+} from "../../../../(_service)/(_libs)/artifacts/sheet/data";
+import { readXlsx } from "../../../../(_service)/(_libs)/artifacts/sheet/xlsx";
+
+const MAX_SHEET_IMPORT_SIZE = 5 * 1024 * 1024;
+
+/**
+ * Imports an uploaded CSV or XLSX file (multipart field "file") as a new
+ * sheet document of the signed-in user. The first row becomes the column
+ * headers; for XLSX only the first worksheet is read.
+ */
+export async function POST(request: Request) {
+  const contentLength = Number(request.headers.get("content-length") ?? 0);
+  if (contentLength > MAX_SHEET_IMPORT_SIZE) {
+    return new Response("File is too large", { status: 413 });
+  }
+
+  const session = await auth();
+  if (!session?.user?.id) {
+    return new Response("Unauthorized", { status: 401 });
+  }
+
+  let file: File;
+  try {
+    const entry = (await request.formData()).get("file");
+    if (!(entry instanceof File)) {
+      return new Response("No file uploaded", { status: 400 });
+    }
+    file = entry;
+  } catch (_) {
+    return new Response("No file uploaded", { status: 400 });
+  }
+
+  if (file.size > MAX_SHEET_IMPORT_SIZE) {
+    return new Response("File is too large", { status: 413 });
+  }
+
+  const extension = file.name.split(".").pop()?.toLowerCase();
+  if (extension !== "csv" && extension !== "xlsx") {
+    return new Response("Only CSV and XLSX files can be imported", {
+      status: 400,
+    });
+  }
+
+  let sheet: SheetData;
+  try {
+    const data = Buffer.from(await file.arrayBuffer());
+    sheet =
+      extension === "xlsx"
+        ? readXlsx(data)
+        : sheetFromCsv(data.toString("utf8").replace(/^\uFEFF/, ""));
+  } catch (_) {
+    return new Response("Invalid spreadsheet", { status: 400 });
+  }
+
+  if (sheet.columns.length === 0) {
+    return new Response("The spreadsheet is empty", { status: 400 });
+  }
+
+  try {
+    const document = await saveDocument({
+      id: generateCuid(),
+      title:
+        file.name
+          .replace(/\.[^.]+$/, "")
+          .trim()
+          .slice(0, 200) || "Sheet",
+      kind: "sheet",
+      content: serializeSheet(sheet),
+      userId: session.user.id,
+    });
+
+    return Response.json(document, { status: 201 });
+  } catch (error) {
+    console.error("POST /document/import error:", error);
+    return new Response("An error occurred while processing your request!", {
+      status: 500,
+    });
+  }
+}
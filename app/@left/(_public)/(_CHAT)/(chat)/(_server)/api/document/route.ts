@@ -7,6 +7,10 @@ import {
   getDocumentsById,
   saveDocument,
 } from "../../../(_service)/(_db-queries)/document/queries";
+import {
+  getActiveChatShareByToken,
+  isDocumentInChat,
+} from "../../../(_service)/(_db-queries)/share/queries";
 
 export async function GET(request: Request) {
   const { searchParams } = new URL(request.url);
@@ -16,6 +20,24 @@ export async function GET(request: Request) {
     return new Response("Missing id", { status: 400 });
   }
 
+  const shareToken = searchParams.get("shareToken");
+
+  // Viewers of a shared chat read its artifacts without signing in
+  if (shareToken) {
+    const share = await getActiveChatShareByToken(shareToken);
+
+    if (
+      !share ||
+      !(await isDocumentInChat({ chat: share.Chat, documentId: id }))
+    ) {
+      return new Response("Not found", { status: 404 });
+    }
+
+    const documents = await getDocumentsById(id);
+
+    return Response.json(documents, { status: 200 });
+  }
+
   const session = await auth();
 
   if (!session?.user?.id) {
@@ -73,6 +95,8 @@ export async function POST(request: Request) {
     content,
     title,
     kind,
+    // Manual edits keep the language of the latest version
+    language: documents.at(-1)?.language,
     userId: session.user.id,
   });
 
@@ -5,6 +5,7 @@ import { NextResponse } from "next/server";
 import { z } from "zod";
 import { auth } from "@/app/@left/(_public)/(_AUTH)/(_service)/(_actions)/auth";
 import { prisma } from "@/lib/db";
+import { entitlementsByUserType } from "@/app/@left/(_public)/(_CHAT)/(chat)/(_service)/(_libs)/ai/entitlements";
 
 const allowedTypes = [
   "image/jpeg",
@@ -61,6 +62,23 @@ export async function POST(request: Request) {
       return NextResponse.json({ error: errorMessage }, { status: 400 });
     }
 
+    const { maxAttachmentSizeBytes } =
+      entitlementsByUserType[session.user.type];
+
+    if (file.size > maxAttachmentSizeBytes) {
+      return NextResponse.json(
+        {
+          error: `File size should be less than ${Math.floor(
+            maxAttachmentSizeBytes / (1024 * 1024)
+          )}MB for your plan`,
+          limit: "attachmentSize",
+          max: maxAttachmentSizeBytes,
+          used: file.size,
+        },
+        { status: 413 }
+      );
+    }
+
     // Получаем имя файла
     const filename = (formData.get("file") as File).name;
     const fileBuffer = await file.arrayBuffer();
@@ -2,7 +2,10 @@
 
 import { auth } from "@/app/@left/(_public)/(_AUTH)/(_service)/(_actions)/auth";
 import { NextRequest } from "next/server";
-import { getChatsByUserId } from "../../../(_service)/(_db-queries)/chat/queries";
+import {
+  getChatsByUserId,
+  getPinnedChatsByUserId,
+} from "../../../(_service)/(_db-queries)/chat/queries";
 
 export async function GET(request: NextRequest) {
   const { searchParams } = request.nextUrl;
@@ -10,6 +13,10 @@ export async function GET(request: NextRequest) {
   const limit = parseInt(searchParams.get("limit") || "10");
   const startingAfter = searchParams.get("starting_after");
   const endingBefore = searchParams.get("ending_before");
+  const filter = {
+    folderId: searchParams.get("folder_id"),
+    tagId: searchParams.get("tag_id"),
+  };
 
   if (startingAfter && endingBefore) {
     return Response.json(
@@ -25,11 +32,21 @@ export async function GET(request: NextRequest) {
   }
 
   try {
+    // Закреплённые чаты приходят отдельным списком без пагинации
+    if (searchParams.get("pinned") === "true") {
+      const chats = await getPinnedChatsByUserId({
+        id: session.user.id,
+        filter,
+      });
+      return Response.json(chats);
+    }
+
     const chats = await getChatsByUserId({
       id: session.user.id,
       limit,
       startingAfter,
       endingBefore,
+      filter,
     });
 
     return Response.json(chats);
@@ -0,0 +1,53 @@
+// @app/@left/(_public)/(_CHAT)/(chat)/(_server)/api/history/search/route.ts
+
+import { auth } from "@/app/@left/(_public)/(_AUTH)/(_service)/(_actions)/auth";
+import { NextRequest } from "next/server";
+import { searchChatsByUserId } from "../../../../(_service)/(_db-queries)/chat/queries";
+import {
+  SEARCH_QUERY_MAX_LENGTH,
+  SEARCH_QUERY_MIN_LENGTH,
+} from "../../../../(_service)/(_libs)/chat-search";
+
+const MAX_LIMIT = 50;
+
+/**
+ * Full-text search over the titles and messages of the current user's chats.
+ * Query params: q (search string), limit (default 20).
+ */
+export async function GET(request: NextRequest) {
+  const { searchParams } = request.nextUrl;
+
+  const query = (searchParams.get("q") || "").trim();
+  const limit = Math.min(
+    Math.max(parseInt(searchParams.get("limit") || "20") || 20, 1),
+    MAX_LIMIT
+  );
+
+  if (
+    query.length < SEARCH_QUERY_MIN_LENGTH ||
+    query.length > SEARCH_QUERY_MAX_LENGTH
+  ) {
+    return Response.json(
+      `Search query must be ${SEARCH_QUERY_MIN_LENGTH}-${SEARCH_QUERY_MAX_LENGTH} characters long!`,
+      { status: 400 }
+    );
+  }
+
+  const session = await auth();
+
+  if (!session?.user?.id) {
+    return Response.json("Unauthorized!", { status: 401 });
+  }
+
+  try {
+    const results = await searchChatsByUserId({
+      id: session.user.id,
+      query,
+      limit,
+    });
+
+    return Response.json(results);
+  } catch (_) {
+    return Response.json("Failed to search chats!", { status: 500 });
+  }
+}
@@ -0,0 +1,104 @@
+// @/app/@left/(_public)/(_CHAT)/(chat)/(_server)/api/instructions/route.ts
+
+import { auth } from "@/app/@left/(_public)/(_AUTH)/(_service)/(_actions)/auth";
+import { getChatById } from "../../../(_service)/(_db-queries)/chat/queries";
+import {
+  getUserInstructions,
+  updateChatInstructions,
+  updateUserInstructions,
+} from "../../../(_service)/(_db-queries)/instructions/queries";
+import type { InstructionsState } from "../../../(_service)/(_libs)/instructions";
+import { instructionsBodySchema, type InstructionsBody } from "./schema";
+
+/**
+ * Returns the signed-in user's profile instructions and, with ?chatId,
+ * the instructions of that chat (own chats only).
+ */
+export async function GET(request: Request) {
+  const { searchParams } = new URL(request.url);
+  const chatId = searchParams.get("chatId");
+
+  const session = await auth();
+  if (!session?.user?.id) {
+    return new Response("Unauthorized", { status: 401 });
+  }
+
+  try {
+    const [profile, chat] = await Promise.all([
+      getUserInstructions(session.user.id),
+      chatId ? getChatById(chatId) : null,
+    ]);
+
+    if (chat && chat.userId !== session.user.id) {
+      return new Response("Forbidden", { status: 403 });
+    }
+
+    return Response.json(
+      {
+        profile,
+        chat: chat?.instructions ?? null,
+        chatExists: !!chat,
+      } satisfies InstructionsState,
+      { status: 200 }
+    );
+  } catch (error) {
+    console.error("GET /instructions error:", error);
+    return new Response("An error occurred while processing your request!", {
+      status: 500,
+    });
+  }
+}
+
+/**
+ * Updates instructions. Query: ?chatId (required for chat instructions).
+ * Body: { profile?, chat? }; omitted fields are kept, null or "" clears them.
+ */
+export async function PATCH(request: Request) {
+  const { searchParams } = new URL(request.url);
+  const chatId = searchParams.get("chatId");
+
+  let body: InstructionsBody;
+  try {
+    body = instructionsBodySchema.parse(await request.json());
+  } catch (_) {
+    return new Response("Invalid request body", { status: 400 });
+  }
+
+  const session = await auth();
+  if (!session?.user?.id) {
+    return new Response("Unauthorized", { status: 401 });
+  }
+
+  try {
+    if (body.chat !== undefined) {
+      const chat = chatId ? await getChatById(chatId) : null;
+
+      if (!chat) {
+        return new Response("Not Found", { status: 404 });
+      }
+
+      if (chat.userId !== session.user.id) {
+        return new Response("Forbidden", { status: 403 });
+      }
+
+      await updateChatInstructions({
+        chatId: chat.id,
+        instructions: body.chat,
+      });
+    }
+
+    if (body.profile !== undefined) {
+      await updateUserInstructions({
+        userId: session.user.id,
+        instructions: body.profile,
+      });
+    }
+
+    return new Response("Instructions updated", { status: 200 });
+  } catch (error) {
+    console.error("PATCH /instructions error:", error);
+    return new Response("An error occurred while processing your request!", {
+      status: 500,
+    });
+  }
+}
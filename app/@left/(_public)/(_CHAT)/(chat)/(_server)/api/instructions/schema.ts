@@ -0,0 +1,20 @@
+// @/app/@left/(_public)/(_CHAT)/(chat)/(_server)/api/instructions/schema.ts
+
+import { z } from "zod";
+import { INSTRUCTIONS_MAX_LENGTH } from "@/app/@left/(_public)/(_CHAT)/(chat)/(_service)/(_libs)/instructions";
+
+// Пустая строка удаляет инструкции
+const instructionsString = z
+  .string()
+  .trim()
+  .max(INSTRUCTIONS_MAX_LENGTH)
+  .transform((value) => value || null)
+  .nullable();
+
+// Не переданные поля не меняются; chat требует ?chatId
+export const instructionsBodySchema = z.object({
+  profile: instructionsString.optional(),
+  chat: instructionsString.optional(),
+});
+
+export type InstructionsBody = z.infer<typeof instructionsBodySchema>;
@@ -0,0 +1,127 @@
+// @/app/@left/(_public)/(_CHAT)/(chat)/(_server)/api/memory/route.ts
+
+import { auth } from "@/app/@left/(_public)/(_AUTH)/(_service)/(_actions)/auth";
+import { entitlementsByUserType } from "@/app/@left/(_public)/(_CHAT)/(chat)/(_service)/(_libs)/ai/entitlements";
+import {
+  deleteUserMemoriesByUserId,
+  deleteUserMemoryById,
+  getUserMemoriesByUserId,
+  getUserMemoryById,
+  isMemoryEnabledForUser,
+  updateUserMemory,
+} from "../../../(_service)/(_db-queries)/memory/queries";
+import type { UserMemoryState } from "../../../(_service)/(_libs)/user-memory";
+import { memoryBodySchema, type MemoryBody } from "./schema";
+
+// Гостям и apiUser память недоступна
+async function getMemoryUserId() {
+  const session = await auth();
+  if (!session?.user?.id) {
+    return { error: new Response("Unauthorized", { status: 401 }) };
+  }
+  if (!entitlementsByUserType[session.user.type].longTermMemory) {
+    return { error: new Response("Forbidden", { status: 403 }) };
+  }
+
+  return { userId: session.user.id };
+}
+
+// Воспоминанием управляет только его владелец
+async function getOwnedMemory(id: string | null) {
+  const { userId, error } = await getMemoryUserId();
+  if (error) return { error };
+
+  const memory = id ? await getUserMemoryById(id) : null;
+  if (!memory) {
+    return { error: new Response("Not Found", { status: 404 }) };
+  }
+  if (memory.userId !== userId) {
+    return { error: new Response("Forbidden", { status: 403 }) };
+  }
+
+  return { memory };
+}
+
+/**
+ * Returns whether memory is enabled and everything remembered about the user.
+ */
+export async function GET() {
+  const { userId, error } = await getMemoryUserId();
+  if (error) return error;
+
+  try {
+    const [enabled, memories] = await Promise.all([
+      isMemoryEnabledForUser(userId),
+      getUserMemoriesByUserId(userId),
+    ]);
+
+    return Response.json({ enabled, memories } satisfies UserMemoryState, {
+      status: 200,
+    });
+  } catch (error) {
+    console.error("GET /memory error:", error);
+    return new Response("An error occurred while processing your request!", {
+      status: 500,
+    });
+  }
+}
+
+/**
+ * Edits a memory. Query: ?id. Body: { content }.
+ */
+export async function PATCH(request: Request) {
+  const { searchParams } = new URL(request.url);
+
+  let body: MemoryBody;
+  try {
+    body = memoryBodySchema.parse(await request.json());
+  } catch (_) {
+    return new Response("Invalid request body", { status: 400 });
+  }
+
+  const { memory, error } = await getOwnedMemory(searchParams.get("id"));
+  if (error) return error;
+
+  try {
+    const updated = await updateUserMemory({
+      id: memory.id,
+      content: body.content,
+    });
+
+    return Response.json(updated, { status: 200 });
+  } catch (error) {
+    console.error("PATCH /memory error:", error);
+    return new Response("An error occurred while processing your request!", {
+      status: 500,
+    });
+  }
+}
+
+/**
+ * Deletes a memory (?id) or, without an id, everything remembered about the user.
+ */
+export async function DELETE(request: Request) {
+  const { searchParams } = new URL(request.url);
+  const id = searchParams.get("id");
+
+  try {
+    if (!id) {
+      const { userId, error } = await getMemoryUserId();
+      if (error) return error;
+
+      const count = await deleteUserMemoriesByUserId(userId);
+      return Response.json({ count }, { status: 200 });
+    }
+
+    const { memory, error } = await getOwnedMemory(id);
+    if (error) return error;
+
+    const deleted = await deleteUserMemoryById(memory.id);
+    return Response.json(deleted, { status: 200 });
+  } catch (error) {
+    console.error("DELETE /memory error:", error);
+    return new Response("An error occurred while processing your request!", {
+      status: 500,
+    });
+  }
+}
@@ -0,0 +1,16 @@
+// @/app/@left/(_public)/(_CHAT)/(chat)/(_server)/api/memory/schema.ts
+
+import { z } from "zod";
+import { MEMORY_MAX_LENGTH } from "@/app/@left/(_public)/(_CHAT)/(chat)/(_service)/(_libs)/user-memory";
+
+export const memoryBodySchema = z.object({
+  content: z.string().trim().min(1).max(MEMORY_MAX_LENGTH),
+});
+
+export type MemoryBody = z.infer<typeof memoryBodySchema>;
+
+export const memorySettingsBodySchema = z.object({
+  enabled: z.boolean(),
+});
+
+export type MemorySettingsBody = z.infer<typeof memorySettingsBodySchema>;
@@ -0,0 +1,42 @@
+// @/app/@left/(_public)/(_CHAT)/(chat)/(_server)/api/memory/settings/route.ts
+
+import { auth } from "@/app/@left/(_public)/(_AUTH)/(_service)/(_actions)/auth";
+import { entitlementsByUserType } from "@/app/@left/(_public)/(_CHAT)/(chat)/(_service)/(_libs)/ai/entitlements";
+import { setMemoryEnabledForUser } from "../../../../(_service)/(_db-queries)/memory/queries";
+import { memorySettingsBodySchema, type MemorySettingsBody } from "../schema";
+
+/**
+ * Turns long-term memory on or off for the signed-in user. Body: { enabled }.
+ * Turning it off stops using and extracting memories but keeps the saved ones.
+ */
+export async function PATCH(request: Request) {
+  let body: MemorySettingsBody;
+  try {
+    body = memorySettingsBodySchema.parse(await request.json());
+  } catch (_) {
+    return new Response("Invalid request body", { status: 400 });
+  }
+
+  const session = await auth();
+  if (!session?.user?.id) {
+    return new Response("Unauthorized", { status: 401 });
+  }
+
+  if (!entitlementsByUserType[session.user.type].longTermMemory) {
+    return new Response("Forbidden", { status: 403 });
+  }
+
+  try {
+    await setMemoryEnabledForUser({
+      userId: session.user.id,
+      enabled: body.enabled,
+    });
+
+    return Response.json({ enabled: body.enabled }, { status: 200 });
+  } catch (error) {
+    console.error("PATCH /memory/settings error:", error);
+    return new Response("An error occurred while processing your request!", {
+      status: 500,
+    });
+  }
+}
@@ -4,14 +4,21 @@
 
 import { generateText, type UIMessage } from "ai";
 import { cookies } from "next/headers";
+import type { UserType } from "@prisma/client";
 
+import { auth } from "@/app/@left/(_public)/(_AUTH)/(_service)/(_actions)/auth";
 import type { VisibilityType } from "@/app/@left/(_public)/(_CHAT)/(chat)/(_service)/(_components)/visibility-selector";
 import { myProvider } from "@/app/@left/(_public)/(_CHAT)/(chat)/(_service)/(_libs)/ai/providers";
+import { recordTokenUsage } from "@/app/@left/(_public)/(_CHAT)/(chat)/(_service)/(_libs)/ai/usage";
 import {
-  deleteMessagesByChatIdAfterTimestamp,
   getMessageById,
+  setActiveBranch,
 } from "../(_db-queries)/message/queries";
-import { updateChatVisibilityById } from "../(_db-queries)/chat/queries";
+import { convertToUIMessages } from "../(_libs)/ui-messages";
+import {
+  getChatById,
+  updateChatVisibilityById,
+} from "../(_db-queries)/chat/queries";
 
 export async function saveChatModelAsCookie(model: string) {
   const cookieStore = await cookies();
@@ -20,10 +27,16 @@ export async function saveChatModelAsCookie(model: string) {
 
 export async function generateTitleFromUserMessage({
   message,
+  chatId,
+  userId,
+  userType,
 }: {
   message: UIMessage;
+  chatId?: string;
+  userId?: string;
+  userType?: UserType;
 }) {
-  const { text: title } = await generateText({
+  const { text: title, usage } = await generateText({
     model: myProvider.languageModel("title-model"),
     system: `/n
     - you will generate a short title based on the first message a user begins a conversation with
@@ -33,20 +46,38 @@ export async function generateTitleFromUserMessage({
     prompt: JSON.stringify(message),
   });
 
+  await recordTokenUsage({
+    modelId: "title-model",
+    usage,
+    source: "title",
+    chatId,
+    userId,
+    userType,
+  });
+
   return title;
 }
 
-export async function deleteTrailingMessages({ id }: { id: string }) {
-  const message = await getMessageById(id);
+/**
+ * Показывает соседнюю ветку диалога: делает активной ветку с сообщением messageId
+ * и возвращает ее сообщения для useChat.
+ */
+export async function switchMessageBranch({
+  messageId,
+}: {
+  messageId: string;
+}): Promise<UIMessage[]> {
+  const session = await auth();
+  const message = await getMessageById(messageId);
+  const chat = message ? await getChatById(message.chatId) : null;
 
-  if (!message) {
-    throw new Error(`Message with id ${id} not found`);
+  if (!session?.user?.id || !chat || chat.userId !== session.user.id) {
+    throw new Error("Forbidden");
   }
 
-  await deleteMessagesByChatIdAfterTimestamp({
-    chatId: message.chatId,
-    timestamp: message.createdAt,
-  });
+  const messages = await setActiveBranch({ chatId: chat.id, messageId });
+
+  return convertToUIMessages(messages);
 }
 
 export async function updateChatVisibility({
@@ -56,5 +87,12 @@ export async function updateChatVisibility({
   chatId: string;
   visibility: VisibilityType;
 }) {
+  // Видимость меняет только владелец чата
+  const session = await auth();
+  const chat = await getChatById(chatId);
+  if (!session?.user?.id || !chat || chat.userId !== session.user.id) {
+    throw new Error("Forbidden");
+  }
+
   await updateChatVisibilityById({ chatId, visibility });
 }
@@ -6,6 +6,7 @@ import { useRouter } from "next/navigation";
 
 import { PlusIcon } from "@/components/shared/icons";
 import { SidebarHistory } from "@/app/@left/(_public)/(_CHAT)/(chat)/(_service)/(_components)/sidebar-history";
+import { SidebarSearch } from "@/app/@left/(_public)/(_CHAT)/(chat)/(_service)/(_components)/sidebar-search";
 import { SidebarUserNav } from "@/app/@left/(_public)/(_CHAT)/(chat)/(_service)/(_components)/sidebar-user-nav";
 import { Button } from "@/components/ui/button";
 import {
@@ -67,7 +68,9 @@ export function AppSidebar({ user }: { user: User | undefined }) {
         </SidebarMenu>
       </SidebarHeader>
       <SidebarContent>
-        <SidebarHistory user={user} />
+        <SidebarSearch user={user}>
+          <SidebarHistory user={user} />
+        </SidebarSearch>
       </SidebarContent>
       <SidebarFooter>
         {user ? (
@@ -11,6 +11,7 @@ import { Dispatch, memo, SetStateAction, useState } from "react";
 import { cn } from "@/lib/utils";
 import { toast } from "sonner";
 import { ArtifactActionContext } from "./create-artifact";
+import { useDocumentUrl } from "../(_hooks)/use-shared-chat";
 
 interface ArtifactActionsProps {
   artifact: UIArtifact;
@@ -32,6 +33,7 @@ function PureArtifactActions({
   setMetadata,
 }: ArtifactActionsProps) {
   const [isLoading, setIsLoading] = useState(false);
+  const getDocumentUrl = useDocumentUrl();
 
   const artifactDefinition = artifactDefinitions.find(
     (definition) => definition.kind === artifact.kind
@@ -42,7 +44,10 @@ function PureArtifactActions({
   }
 
   const actionContext: ArtifactActionContext = {
+    documentId: artifact.documentId,
     content: artifact.content,
+    language: artifact.language,
+    getDocumentUrl,
     handleVersionChange,
     currentVersionIndex,
     isCurrentVersion,
@@ -99,7 +104,11 @@ export const ArtifactActions = memo(
     if (prevProps.currentVersionIndex !== nextProps.currentVersionIndex)
       return false;
     if (prevProps.isCurrentVersion !== nextProps.isCurrentVersion) return false;
+    if (prevProps.artifact.documentId !== nextProps.artifact.documentId)
+      return false;
     if (prevProps.artifact.content !== nextProps.artifact.content) return false;
+    if (prevProps.artifact.language !== nextProps.artifact.language)
+      return false;
 
     return true;
   }
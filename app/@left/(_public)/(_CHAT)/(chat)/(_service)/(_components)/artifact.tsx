@@ -23,10 +23,14 @@ import { ArtifactCloseButton } from "./artifact-close-button";
 import { ArtifactMessages } from "./artifact-messages";
 import { useSidebar } from "./sidebar";
 import { useArtifact } from "@/app/@left/(_public)/(_CHAT)/(chat)/(_service)/(_hooks)/use-artifact";
+import { useDocumentUrl } from "@/app/@left/(_public)/(_CHAT)/(chat)/(_service)/(_hooks)/use-shared-chat";
 import { imageArtifact } from "@/app/@left/(_public)/(_CHAT)/(chat)/(_service)/(_libs)/artifacts/image/client";
 import { codeArtifact } from "@/app/@left/(_public)/(_CHAT)/(chat)/(_service)/(_libs)/artifacts/code/client";
 import { sheetArtifact } from "@/app/@left/(_public)/(_CHAT)/(chat)/(_service)/(_libs)/artifacts/sheet/client";
 import { textArtifact } from "@/app/@left/(_public)/(_CHAT)/(chat)/(_service)/(_libs)/artifacts/text/client";
+import { projectArtifact } from "@/app/@left/(_public)/(_CHAT)/(chat)/(_service)/(_libs)/artifacts/project/client";
+import { chartArtifact } from "@/app/@left/(_public)/(_CHAT)/(chat)/(_service)/(_libs)/artifacts/chart/client";
+import { diagramArtifact } from "@/app/@left/(_public)/(_CHAT)/(chat)/(_service)/(_libs)/artifacts/diagram/client";
 import equal from "fast-deep-equal";
 import type { UseChatHelpers } from "@ai-sdk/react";
 import type { VisibilityType } from "./visibility-selector";
@@ -37,6 +41,9 @@ export const artifactDefinitions = [
   codeArtifact,
   imageArtifact,
   sheetArtifact,
+  projectArtifact,
+  chartArtifact,
+  diagramArtifact,
 ];
 export type ArtifactKind = (typeof artifactDefinitions)[number]["kind"];
 
@@ -45,6 +52,8 @@ export interface UIArtifact {
   documentId: string;
   kind: ArtifactKind;
   content: string;
+  // Язык кода для kind = code
+  language: string | null;
   isVisible: boolean;
   status: "streaming" | "idle";
   boundingBox: {
@@ -90,13 +99,14 @@ function PureArtifact({
 }) {
   const { artifact, setArtifact, metadata, setMetadata } = useArtifact();
   const { t } = useTranslation();
+  const getDocumentUrl = useDocumentUrl();
   const {
     data: documents,
     isLoading: isDocumentsFetching,
     mutate: mutateDocuments,
   } = useSWR<Array<Document>>(
     artifact.documentId !== "init" && artifact.status !== "streaming"
-      ? `/api/document?id=${artifact.documentId}`
+      ? getDocumentUrl(artifact.documentId)
       : null,
     fetcher
   );
@@ -117,6 +127,7 @@ function PureArtifact({
         setArtifact((currentArtifact) => ({
           ...currentArtifact,
           content: mostRecentDocument.content ?? "",
+          language: mostRecentDocument.language,
         }));
       }
     }
@@ -180,6 +191,8 @@ function PureArtifact({
 
   const saveContent = useCallback(
     (updatedContent: string, debounce: boolean) => {
+      if (isReadonly) return;
+
       if (document && updatedContent !== document.content) {
         setIsContentDirty(true);
 
@@ -190,7 +203,7 @@ function PureArtifact({
         }
       }
     },
-    [document, debouncedHandleContentChange, handleContentChange]
+    [isReadonly, document, debouncedHandleContentChange, handleContentChange]
   );
 
   function getDocumentContentById(index: number) {
@@ -327,23 +340,25 @@ function PureArtifact({
                   artifactStatus={artifact.status}
                 />
 
-                <form className="flex flex-row gap-2 relative items-end w-full px-4 pb-4">
-                  <MultimodalInput
-                    chatId={chatId}
-                    input={input}
-                    setInput={setInput}
-                    handleSubmit={handleSubmit}
-                    status={status}
-                    stop={stop}
-                    attachments={attachments}
-                    setAttachments={setAttachments}
-                    messages={messages}
-                    append={append}
-                    className="bg-background dark:bg-muted"
-                    setMessages={setMessages}
-                    selectedVisibilityType={selectedVisibilityType}
-                  />
-                </form>
+                {!isReadonly && (
+                  <form className="flex flex-row gap-2 relative items-end w-full px-4 pb-4">
+                    <MultimodalInput
+                      chatId={chatId}
+                      input={input}
+                      setInput={setInput}
+                      handleSubmit={handleSubmit}
+                      status={status}
+                      stop={stop}
+                      attachments={attachments}
+                      setAttachments={setAttachments}
+                      messages={messages}
+                      append={append}
+                      className="bg-background dark:bg-muted"
+                      setMessages={setMessages}
+                      selectedVisibilityType={selectedVisibilityType}
+                    />
+                  </form>
+                )}
               </div>
             </motion.div>
           )}
@@ -461,6 +476,7 @@ function PureArtifact({
                     ? artifact.content
                     : getDocumentContentById(currentVersionIndex)
                 }
+                language={artifact.language}
                 mode={mode}
                 status={artifact.status}
                 currentVersionIndex={currentVersionIndex}
@@ -475,7 +491,7 @@ function PureArtifact({
               />
 
               <AnimatePresence>
-                {isCurrentVersion && (
+                {isCurrentVersion && !isReadonly && (
                   <Toolbar
                     isToolbarVisible={isToolbarVisible}
                     setIsToolbarVisible={setIsToolbarVisible}
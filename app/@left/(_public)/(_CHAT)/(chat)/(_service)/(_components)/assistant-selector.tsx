@@ -0,0 +1,153 @@
+// @/app/@left/(_public)/(_CHAT)/(chat)/(_service)/(_components)/assistant-selector.tsx
+
+"use client";
+
+import { startTransition, useState } from "react";
+import useSWR from "swr";
+import type { Session } from "next-auth";
+import { saveChatModelAsCookie } from "@/app/@left/(_public)/(_CHAT)/(chat)/(_service)/(_actions)/actions";
+import { entitlementsByUserType } from "@/app/@left/(_public)/(_CHAT)/(chat)/(_service)/(_libs)/ai/entitlements";
+import { Button } from "@/components/ui/button";
+import {
+  DropdownMenu,
+  DropdownMenuContent,
+  DropdownMenuItem,
+  DropdownMenuTrigger,
+} from "@/components/ui/dropdown-menu";
+import {
+  CheckCircleFillIcon,
+  ChevronDownIcon,
+} from "@/components/shared/icons";
+import { cn, fetcher } from "@/lib/utils";
+import type { AssistantOption } from "../(_libs)/assistants";
+import { useTranslation } from "../(_libs)/translation";
+
+function AssistantLabel({ assistant }: { assistant: AssistantOption }) {
+  return (
+    <>
+      {assistant.icon && <span aria-hidden>{assistant.icon}</span>}
+      {assistant.name}
+    </>
+  );
+}
+
+/**
+ * Выбор ассистента для нового чата. После первого сообщения ассистент
+ * закреплён за чатом и только показывается. Выбор переключает модель
+ * на модель ассистента по умолчанию, если она доступна пользователю.
+ */
+export function AssistantSelector({
+  session,
+  selectedAssistant,
+  onSelect,
+  isLocked,
+  className,
+}: {
+  session: Session;
+  selectedAssistant: string | null;
+  onSelect: (slug: string | null) => void;
+  isLocked: boolean;
+  className?: string;
+}) {
+  const { t } = useTranslation();
+  const [open, setOpen] = useState(false);
+  const { data: assistants } = useSWR<Array<AssistantOption>>(
+    "/api/assistants",
+    fetcher
+  );
+
+  const { availableChatModelIds } = entitlementsByUserType[session.user.type];
+  const selected = assistants?.find(
+    (assistant) => assistant.slug === selectedAssistant
+  );
+
+  if (!assistants || assistants.length === 0) return null;
+
+  if (isLocked) {
+    return selected ? (
+      <div
+        data-testid="assistant-badge"
+        className={cn(
+          "hidden md:flex items-center gap-1.5 h-[34px] px-2 text-sm text-muted-foreground",
+          className
+        )}
+      >
+        <AssistantLabel assistant={selected} />
+      </div>
+    ) : null;
+  }
+
+  const select = (assistant: AssistantOption | null) => {
+    setOpen(false);
+    onSelect(assistant?.slug ?? null);
+
+    if (assistant && availableChatModelIds.includes(assistant.modelId)) {
+      startTransition(() => {
+        saveChatModelAsCookie(assistant.modelId);
+      });
+    }
+  };
+
+  return (
+    <DropdownMenu open={open} onOpenChange={setOpen}>
+      <DropdownMenuTrigger
+        asChild
+        className={cn(
+          "w-fit data-[state=open]:bg-accent data-[state=open]:text-accent-foreground",
+          className
+        )}
+      >
+        <Button
+          data-testid="assistant-selector"
+          variant="outline"
+          size="sm"
+          className="md:px-2 md:h-[34px]"
+        >
+          {selected ? (
+            <AssistantLabel assistant={selected} />
+          ) : (
+            t("Default assistant")
+          )}
+          <ChevronDownIcon />
+        </Button>
+      </DropdownMenuTrigger>
+      <DropdownMenuContent align="start" className="min-w-[300px]">
+        {[null, ...assistants].map((assistant) => (
+          <DropdownMenuItem
+            key={assistant?.slug ?? "default"}
+            data-testid={`assistant-selector-item-${
+              assistant?.slug ?? "default"
+            }`}
+            data-active={(assistant?.slug ?? null) === selectedAssistant}
+            onSelect={() => select(assistant)}
+            asChild
+          >
+            <button
+              type="button"
+              className="gap-4 group/item flex flex-row justify-between items-center w-full"
+            >
+              <div className="flex flex-col gap-1 items-start">
+                <div className="flex items-center gap-1.5">
+                  {assistant ? (
+                    <AssistantLabel assistant={assistant} />
+                  ) : (
+                    t("Default assistant")
+                  )}
+                </div>
+                <div className="text-xs text-muted-foreground text-left">
+                  {assistant
+                    ? assistant.description
+                    : t("General-purpose assistant with all tools")}
+                </div>
+              </div>
+
+              <div className="text-foreground dark:text-foreground opacity-0 group-data-[active=true]/item:opacity-100">
+                <CheckCircleFillIcon />
+              </div>
+            </button>
+          </DropdownMenuItem>
+        ))}
+      </DropdownMenuContent>
+    </DropdownMenu>
+  );
+}
@@ -0,0 +1,77 @@
+// @/app/@left/(_public)/(_CHAT)/(chat)/(_service)/(_components)/branch-switcher.tsx
+
+"use client";
+
+import { useState } from "react";
+import { ChevronLeft, ChevronRight } from "lucide-react";
+import type { UseChatHelpers } from "@ai-sdk/react";
+import { toast } from "sonner";
+import { Button } from "@/components/ui/button";
+import { switchMessageBranch } from "../(_actions)/actions";
+import { useMessageBranch } from "../(_hooks)/use-message-branches";
+import { useTranslation } from "../(_libs)/translation";
+
+/**
+ * Переключатель "< 2/3 >" между правками сообщения или перегенерациями ответа.
+ */
+export function BranchSwitcher({
+  chatId,
+  messageId,
+  setMessages,
+}: {
+  chatId: string;
+  messageId: string;
+  setMessages: UseChatHelpers["setMessages"];
+}) {
+  const { t } = useTranslation();
+  const [isSwitching, setIsSwitching] = useState(false);
+  const branch = useMessageBranch({ chatId, messageId, enabled: true });
+
+  if (!branch) return null;
+
+  const switchTo = async (siblingId: string | null) => {
+    if (!siblingId) return;
+
+    setIsSwitching(true);
+    try {
+      const messages = await switchMessageBranch({ messageId: siblingId });
+      setMessages(messages);
+    } catch (error) {
+      console.error("Failed to switch branch:", error);
+      toast.error(t("Failed to switch the branch"));
+    } finally {
+      setIsSwitching(false);
+    }
+  };
+
+  return (
+    <div
+      data-testid="branch-switcher"
+      className="flex flex-row items-center text-xs text-muted-foreground"
+    >
+      <Button
+        variant="ghost"
+        size="icon"
+        className="size-6"
+        aria-label={t("Previous branch")}
+        disabled={isSwitching || !branch.previousId}
+        onClick={() => switchTo(branch.previousId)}
+      >
+        <ChevronLeft className="size-4" />
+      </Button>
+      <span className="tabular-nums">
+        {branch.index + 1}/{branch.count}
+      </span>
+      <Button
+        variant="ghost"
+        size="icon"
+        className="size-6"
+        aria-label={t("Next branch")}
+        disabled={isSwitching || !branch.nextId}
+        onClick={() => switchTo(branch.nextId)}
+      >
+        <ChevronRight className="size-4" />
+      </Button>
+    </div>
+  );
+}
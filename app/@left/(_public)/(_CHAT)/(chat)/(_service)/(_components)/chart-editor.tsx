@@ -0,0 +1,340 @@
+// @/app/@left/(_public)/(_CHAT)/(chat)/(_service)/(_components)/chart-editor.tsx
+
+"use client";
+
+import { memo, useMemo } from "react";
+import useSWR from "swr";
+import type { Document } from "@prisma/client";
+import {
+  Bar,
+  BarChart,
+  CartesianGrid,
+  Cell,
+  Legend,
+  Line,
+  LineChart,
+  Pie,
+  PieChart,
+  ResponsiveContainer,
+  Scatter,
+  ScatterChart,
+  Tooltip,
+  XAxis,
+  YAxis,
+} from "recharts";
+import { ChevronDown, Table } from "lucide-react";
+import { fetcher } from "@/lib/utils";
+import { Button } from "@/components/ui/button";
+import {
+  DropdownMenu,
+  DropdownMenuCheckboxItem,
+  DropdownMenuContent,
+  DropdownMenuTrigger,
+} from "@/components/ui/dropdown-menu";
+import {
+  Select,
+  SelectContent,
+  SelectItem,
+  SelectTrigger,
+  SelectValue,
+} from "@/components/ui/select";
+import { useDocumentUrl } from "../(_hooks)/use-shared-chat";
+import { useTranslation } from "../(_libs)/translation";
+import {
+  CHART_TYPES,
+  getChartPoints,
+  getChartTable,
+  parseChart,
+  serializeChart,
+  type ChartPoint,
+  type ChartSpec,
+  type ChartType,
+} from "../(_libs)/artifacts/chart/spec";
+
+type ChartEditorProps = {
+  content: string;
+  saveContent: (content: string, isCurrentVersion: boolean) => void;
+  status: string;
+  isCurrentVersion: boolean;
+  currentVersionIndex: number;
+  isInline?: boolean;
+};
+
+const CHART_TYPE_LABELS: Record<ChartType, string> = {
+  bar: "Bar",
+  line: "Line",
+  pie: "Pie",
+  scatter: "Scatter",
+};
+
+const CHART_COLORS = [1, 2, 3, 4, 5].map(
+  (index) => `hsl(var(--chart-${index}))`
+);
+
+// Возвращает сам график recharts: ResponsiveContainer передаёт размеры
+// только своему прямому потомку
+function renderChart(spec: ChartSpec, points: ChartPoint[]) {
+  const axisProps = {
+    stroke: "hsl(var(--muted-foreground))",
+    fontSize: 12,
+  };
+  const tooltipProps = {
+    contentStyle: {
+      background: "hsl(var(--background))",
+      border: "1px solid hsl(var(--border))",
+      borderRadius: 6,
+    },
+  };
+
+  switch (spec.type) {
+    case "pie": {
+      const [series] = spec.y;
+      return (
+        <PieChart>
+          <Pie
+            data={points}
+            dataKey={series}
+            nameKey={spec.x}
+            outerRadius="80%"
+            isAnimationActive={false}
+            label
+          >
+            {points.map((_, index) => (
+              <Cell
+                key={index}
+                fill={CHART_COLORS[index % CHART_COLORS.length]}
+              />
+            ))}
+          </Pie>
+          <Tooltip {...tooltipProps} />
+          <Legend />
+        </PieChart>
+      );
+    }
+    case "scatter":
+      return (
+        <ScatterChart>
+          <CartesianGrid strokeDasharray="3 3" />
+          <XAxis
+            {...axisProps}
+            type="number"
+            dataKey="x"
+            name={spec.x}
+            domain={["auto", "auto"]}
+          />
+          <YAxis {...axisProps} type="number" dataKey="y" />
+          <Tooltip {...tooltipProps} />
+          <Legend />
+          {spec.y.map((series, index) => (
+            <Scatter
+              key={series}
+              name={series}
+              data={points.map((point) => ({
+                x: point[spec.x],
+                y: point[series],
+              }))}
+              fill={CHART_COLORS[index % CHART_COLORS.length]}
+              isAnimationActive={false}
+            />
+          ))}
+        </ScatterChart>
+      );
+    case "line":
+      return (
+        <LineChart data={points}>
+          <CartesianGrid strokeDasharray="3 3" />
+          <XAxis {...axisProps} dataKey={spec.x} />
+          <YAxis {...axisProps} />
+          <Tooltip {...tooltipProps} />
+          <Legend />
+          {spec.y.map((series, index) => (
+            <Line
+              key={series}
+              dataKey={series}
+              stroke={CHART_COLORS[index % CHART_COLORS.length]}
+              strokeWidth={2}
+              connectNulls
+              isAnimationActive={false}
+            />
+          ))}
+        </LineChart>
+      );
+    default:
+      return (
+        <BarChart data={points}>
+          <CartesianGrid strokeDasharray="3 3" />
+          <XAxis {...axisProps} dataKey={spec.x} />
+          <YAxis {...axisProps} />
+          <Tooltip {...tooltipProps} />
+          <Legend />
+          {spec.y.map((series, index) => (
+            <Bar
+              key={series}
+              dataKey={series}
+              fill={CHART_COLORS[index % CHART_COLORS.length]}
+              isAnimationActive={false}
+            />
+          ))}
+        </BarChart>
+      );
+  }
+}
+
+const PureChartEditor = ({
+  content,
+  saveContent,
+  status,
+  isCurrentVersion,
+  isInline = false,
+}: ChartEditorProps) => {
+  const { t } = useTranslation();
+  const getDocumentUrl = useDocumentUrl();
+
+  const spec = useMemo(() => parseChart(content), [content]);
+
+  // Тот же ключ, что у панели артефакта: правки открытой таблицы сразу
+  // попадают в график
+  const {
+    data: sheetVersions,
+    error: sheetError,
+    isLoading: isSheetLoading,
+  } = useSWR<Document[]>(
+    spec.sheetId ? getDocumentUrl(spec.sheetId) : null,
+    fetcher
+  );
+  const sheet = sheetVersions?.at(-1);
+
+  const table = useMemo(
+    () => getChartTable(spec, sheet?.content ?? null),
+    [spec, sheet]
+  );
+  const points = useMemo(() => getChartPoints(spec, table), [spec, table]);
+  const columns = table.columns.filter(Boolean);
+
+  const isEditable = isCurrentVersion && status !== "streaming" && !isInline;
+
+  const updateSpec = (changes: Partial<ChartSpec>) => {
+    saveContent(serializeChart({ ...spec, ...changes }), false);
+  };
+
+  const toggleSeries = (column: string, checked: boolean) => {
+    updateSpec({
+      y: checked
+        ? columns.filter((name) => name === column || spec.y.includes(name))
+        : spec.y.filter((name) => name !== column),
+    });
+  };
+
+  const message =
+    spec.sheetId && sheetError
+      ? t("The source spreadsheet is not available")
+      : spec.sheetId && isSheetLoading
+      ? t("Loading data...")
+      : points.length === 0 && status !== "streaming"
+      ? t("No numeric data to plot")
+      : null;
+
+  return (
+    <div className="flex size-full flex-col">
+      {!isInline && (
+        <div className="flex flex-wrap items-center gap-2 border-b px-2 py-1.5 dark:border-zinc-700">
+          <Select
+            value={spec.type}
+            onValueChange={(value) => updateSpec({ type: value as ChartType })}
+            disabled={!isEditable}
+          >
+            <SelectTrigger data-testid="chart-type" className="h-8 w-[120px]">
+              <SelectValue />
+            </SelectTrigger>
+            <SelectContent>
+              {CHART_TYPES.map((type) => (
+                <SelectItem key={type} value={type}>
+                  {t(CHART_TYPE_LABELS[type])}
+                </SelectItem>
+              ))}
+            </SelectContent>
+          </Select>
+
+          <Select
+            value={columns.includes(spec.x) ? spec.x : undefined}
+            onValueChange={(value) =>
+              updateSpec({
+                x: value,
+                y: spec.y.filter((name) => name !== value),
+              })
+            }
+            disabled={!isEditable || columns.length === 0}
+          >
+            <SelectTrigger className="h-8 w-[160px]">
+              <SelectValue
+                placeholder={
+                  spec.type === "scatter" ? t("X axis") : t("Labels")
+                }
+              />
+            </SelectTrigger>
+            <SelectContent>
+              {columns.map((column) => (
+                <SelectItem key={column} value={column}>
+                  {column}
+                </SelectItem>
+              ))}
+            </SelectContent>
+          </Select>
+
+          <DropdownMenu>
+            <DropdownMenuTrigger asChild disabled={!isEditable}>
+              <Button variant="outline" size="sm" className="h-8 gap-1">
+                {spec.y.length > 0 ? spec.y.join(", ") : t("Values")}
+                <ChevronDown className="size-3.5" />
+              </Button>
+            </DropdownMenuTrigger>
+            <DropdownMenuContent align="start">
+              {columns
+                .filter((column) => column !== spec.x)
+                .map((column) => (
+                  <DropdownMenuCheckboxItem
+                    key={column}
+                    checked={spec.y.includes(column)}
+                    onCheckedChange={(checked) => toggleSeries(column, checked)}
+                    onSelect={(event) => event.preventDefault()}
+                  >
+                    {column}
+                  </DropdownMenuCheckboxItem>
+                ))}
+            </DropdownMenuContent>
+          </DropdownMenu>
+
+          <div className="ml-auto flex items-center gap-1.5 text-xs text-muted-foreground">
+            <Table className="size-3.5" />
+            {spec.sheetId ? sheet?.title ?? t("Spreadsheet") : t("Inline data")}
+          </div>
+        </div>
+      )}
+
+      <div className="relative min-h-0 flex-1 p-4">
+        {message ? (
+          <div className="flex size-full items-center justify-center text-sm text-muted-foreground">
+            {message}
+          </div>
+        ) : (
+          <ResponsiveContainer width="100%" height="100%">
+            {renderChart(spec, points)}
+          </ResponsiveContainer>
+        )}
+      </div>
+    </div>
+  );
+};
+
+function areEqual(prevProps: ChartEditorProps, nextProps: ChartEditorProps) {
+  return (
+    prevProps.currentVersionIndex === nextProps.currentVersionIndex &&
+    prevProps.isCurrentVersion === nextProps.isCurrentVersion &&
+    prevProps.isInline === nextProps.isInline &&
+    prevProps.status === nextProps.status &&
+    prevProps.content === nextProps.content &&
+    prevProps.saveContent === nextProps.saveContent
+  );
+}
+
+export const ChartEditor = memo(PureChartEditor, areEqual);
@@ -6,6 +6,10 @@ import { ModelSelector } from "@/app/@left/(_public)/(_CHAT)/(chat)/(_service)/(
 import { SidebarToggle } from "@/app/@left/(_public)/(_CHAT)/(chat)/(_service)/(_components)/sidebar-toggle";
 import { memo } from "react";
 import { type VisibilityType, VisibilitySelector } from "./visibility-selector";
+import { ShareDialog } from "./share-dialog";
+import { ExportMenu } from "./export-menu";
+import { InstructionsDialog } from "./instructions-dialog";
+import { AssistantSelector } from "./assistant-selector";
 import type { Session } from "next-auth";
 
 function PureChatHeader({
@@ -14,17 +18,33 @@ function PureChatHeader({
   selectedVisibilityType,
   isReadonly,
   session,
+  selectedAssistant,
+  onSelectAssistant,
+  hasMessages,
 }: {
   chatId: string;
   selectedModelId: string;
   selectedVisibilityType: VisibilityType;
   isReadonly: boolean;
   session: Session;
+  selectedAssistant: string | null;
+  onSelectAssistant: (slug: string | null) => void;
+  hasMessages: boolean;
 }) {
   return (
     <header className="flex sticky top-0 z-20 bg-background py-1.5 items-center px-2 md:px-2 gap-2">
       <SidebarToggle />
 
+      {!isReadonly && (
+        <AssistantSelector
+          session={session}
+          selectedAssistant={selectedAssistant}
+          onSelect={onSelectAssistant}
+          isLocked={hasMessages}
+          className="order-1 md:order-1"
+        />
+      )}
+
       {!isReadonly && (
         <ModelSelector
           session={session}
@@ -40,10 +60,26 @@ function PureChatHeader({
           className="order-1 md:order-3"
         />
       )}
+
+      {!isReadonly && (
+        <ShareDialog chatId={chatId} className="order-1 md:order-4" />
+      )}
+
+      {!isReadonly && (
+        <InstructionsDialog chatId={chatId} className="order-1 md:order-5" />
+      )}
+
+      {!isReadonly && (
+        <ExportMenu chatId={chatId} className="order-1 md:order-6" />
+      )}
     </header>
   );
 }
 
 export const ChatHeader = memo(PureChatHeader, (prevProps, nextProps) => {
-  return prevProps.selectedModelId === nextProps.selectedModelId;
+  return (
+    prevProps.selectedModelId === nextProps.selectedModelId &&
+    prevProps.selectedAssistant === nextProps.selectedAssistant &&
+    prevProps.hasMessages === nextProps.hasMessages
+  );
 });
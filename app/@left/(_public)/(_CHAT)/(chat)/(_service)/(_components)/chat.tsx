@@ -19,6 +19,7 @@ import type { Session } from "next-auth";
 import { useRouter, useSearchParams } from "next/navigation";
 import { useChatVisibility } from "@/app/@left/(_public)/(_CHAT)/(chat)/(_service)/(_hooks)/use-chat-visibility";
 import { useAutoResume } from "@/app/@left/(_public)/(_CHAT)/(chat)/(_service)/(_hooks)/use-auto-resume";
+import { getMessageBranchesKey } from "@/app/@left/(_public)/(_CHAT)/(chat)/(_service)/(_hooks)/use-message-branches";
 import { Vote } from "@prisma/client";
 import { generateCuid } from "@/lib/utils/generateCuid";
 
@@ -30,6 +31,8 @@ export function Chat({
   isReadonly,
   session,
   autoResume,
+  focusMessageId,
+  initialAssistant = null,
 }: {
   id: string;
   initialMessages: Array<UIMessage>;
@@ -38,6 +41,9 @@ export function Chat({
   isReadonly: boolean;
   session: Session;
   autoResume: boolean;
+  focusMessageId?: string;
+  // slug ассистента чата; у нового чата выбирается в шапке
+  initialAssistant?: string | null;
 }) {
   const { mutate } = useSWRConfig();
   const { visibilityType } = useChatVisibility({
@@ -45,6 +51,7 @@ export function Chat({
     initialVisibilityType,
   });
   const router = useRouter();
+  const [selectedAssistant, setSelectedAssistant] = useState(initialAssistant);
   const {
     messages,
     setMessages,
@@ -68,9 +75,13 @@ export function Chat({
       message: body.messages.at(-1),
       selectedChatModel: initialChatModel,
       selectedVisibilityType: visibilityType,
+      selectedAssistant: selectedAssistant ?? undefined,
+      // Предыдущее сообщение на экране — родитель в дереве сообщений
+      parentId: body.messages.at(-2)?.id ?? null,
     }),
     onFinish: () => {
       mutate(unstable_serialize(getChatHistoryPaginationKey));
+      mutate(getMessageBranchesKey(id));
     },
     onError: (error) => {
       let redirectTo: string | undefined;
@@ -114,8 +125,9 @@ export function Chat({
     }
   }, [query, append, hasAppendedQuery, id]);
 
+  // Голоса видит только владелец чата
   const { data: votes } = useSWR<Array<Vote>>(
-    messages.length >= 2 ? `/api/vote?chatId=${id}` : null,
+    !isReadonly && messages.length >= 2 ? `/api/vote?chatId=${id}` : null,
     fetcher
   );
 
@@ -130,6 +142,19 @@ export function Chat({
     setMessages,
   });
 
+  // Переход из поиска внутри уже открытого чата: сервер переключил ветку,
+  // а useChat держит прежние сообщения
+  useEffect(() => {
+    if (
+      focusMessageId &&
+      !messages.some((message) => message.id === focusMessageId) &&
+      initialMessages.some((message) => message.id === focusMessageId)
+    ) {
+      setMessages(initialMessages);
+    }
+    // eslint-disable-next-line react-hooks/exhaustive-deps
+  }, [focusMessageId, initialMessages]);
+
   useEffect(() => {
     console.log("essages in chat txt ", messages);
   }, [messages]);
@@ -143,6 +168,9 @@ export function Chat({
           selectedVisibilityType={initialVisibilityType}
           isReadonly={isReadonly}
           session={session}
+          selectedAssistant={selectedAssistant}
+          onSelectAssistant={setSelectedAssistant}
+          hasMessages={messages.length > 0}
         />
 
         <Messages
@@ -154,6 +182,7 @@ export function Chat({
           reload={reload}
           isReadonly={isReadonly}
           isArtifactVisible={isArtifactVisible}
+          focusMessageId={focusMessageId}
         />
 
         <form className="flex mx-auto px-4 bg-background pb-4 md:pb-6 gap-2 w-full md:max-w-3xl">
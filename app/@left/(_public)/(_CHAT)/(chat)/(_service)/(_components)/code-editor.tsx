@@ -5,10 +5,15 @@
 import { EditorView } from "@codemirror/view";
 import { EditorState, Transaction } from "@codemirror/state";
 import { python } from "@codemirror/lang-python";
+import { javascript } from "@codemirror/lang-javascript";
 import { oneDark } from "@codemirror/theme-one-dark";
 import { basicSetup } from "codemirror";
 import React, { memo, useEffect, useRef } from "react";
 import { Suggestion } from "@prisma/client";
+import {
+  isCodeLanguage,
+  toCodeLanguage,
+} from "../(_libs)/artifacts/code/languages";
 
 type EditorProps = {
   content: string;
@@ -17,9 +22,26 @@ type EditorProps = {
   isCurrentVersion: boolean;
   currentVersionIndex: number;
   suggestions: Array<Suggestion>;
+  language?: string | null;
 };
 
-function PureCodeEditor({ content, onSaveContent, status }: EditorProps) {
+function languageExtension(language?: string | null) {
+  // Файлы проектов без поддерживаемого языка показываются без подсветки
+  if (language && !isCodeLanguage(language)) return [];
+
+  const codeLanguage = toCodeLanguage(language);
+
+  return codeLanguage === "python"
+    ? python()
+    : javascript({ typescript: codeLanguage === "typescript" });
+}
+
+function PureCodeEditor({
+  content,
+  onSaveContent,
+  status,
+  language,
+}: EditorProps) {
   const containerRef = useRef<HTMLDivElement>(null);
   const editorRef = useRef<EditorView | null>(null);
 
@@ -27,7 +49,7 @@ function PureCodeEditor({ content, onSaveContent, status }: EditorProps) {
     if (containerRef.current && !editorRef.current) {
       const startState = EditorState.create({
         doc: content,
-        extensions: [basicSetup, python(), oneDark],
+        extensions: [basicSetup, languageExtension(language), oneDark],
       });
 
       editorRef.current = new EditorView({
@@ -65,13 +87,18 @@ function PureCodeEditor({ content, onSaveContent, status }: EditorProps) {
 
       const newState = EditorState.create({
         doc: editorRef.current.state.doc,
-        extensions: [basicSetup, python(), oneDark, updateListener],
+        extensions: [
+          basicSetup,
+          languageExtension(language),
+          oneDark,
+          updateListener,
+        ],
         selection: currentSelection,
       });
 
       editorRef.current.setState(newState);
     }
-  }, [onSaveContent]);
+  }, [onSaveContent, language]);
 
   useEffect(() => {
     if (editorRef.current && content) {
@@ -105,6 +132,7 @@ function areEqual(prevProps: EditorProps, nextProps: EditorProps) {
   if (prevProps.currentVersionIndex !== nextProps.currentVersionIndex)
     return false;
   if (prevProps.isCurrentVersion !== nextProps.isCurrentVersion) return false;
+  if (prevProps.language !== nextProps.language) return false;
   if (prevProps.status === "streaming" && nextProps.status === "streaming")
     return false;
   if (prevProps.content !== nextProps.content) return false;
@@ -8,7 +8,10 @@ import { DataStreamDelta } from "./data-stream-handler";
 import { UIArtifact } from "./artifact";
 
 export type ArtifactActionContext<M = any> = {
+  documentId: string;
   content: string;
+  language: string | null;
+  getDocumentUrl: (documentId: string, path?: string) => string;
   handleVersionChange: (type: "next" | "prev" | "toggle" | "latest") => void;
   currentVersionIndex: number;
   isCurrentVersion: boolean;
@@ -38,6 +41,7 @@ export type ArtifactToolbarItem = {
 interface ArtifactContent<M = any> {
   title: string;
   content: string;
+  language: string | null;
   mode: "edit" | "diff";
   isCurrentVersion: boolean;
   currentVersionIndex: number;
@@ -9,6 +9,8 @@ import {
   useArtifact,
 } from "@/app/@left/(_public)/(_CHAT)/(chat)/(_service)/(_hooks)/use-artifact";
 import { Suggestion } from "@prisma/client";
+import type { ChatNavigationEvent } from "@/app/@right/(_service)/(_libs)/chat-navigation";
+import { useRightPanelNavigation } from "../(_hooks)/use-right-panel-navigation";
 
 export type DataStreamDelta = {
   type:
@@ -16,18 +18,24 @@ export type DataStreamDelta = {
     | "code-delta"
     | "sheet-delta"
     | "image-delta"
+    | "project-delta"
+    | "chart-delta"
+    | "diagram-delta"
     | "title"
     | "id"
     | "suggestion"
     | "clear"
     | "finish"
-    | "kind";
-  content: string | Suggestion;
+    | "kind"
+    | "language"
+    | "navigate";
+  content: string | Suggestion | ChatNavigationEvent;
 };
 
 export function DataStreamHandler({ id }: { id: string }) {
   const { data: dataStream } = useChat({ id });
   const { artifact, setArtifact, setMetadata } = useArtifact();
+  const openInRightPanel = useRightPanelNavigation();
   const lastProcessedIndex = useRef(-1);
 
   useEffect(() => {
@@ -37,6 +45,13 @@ export function DataStreamHandler({ id }: { id: string }) {
     lastProcessedIndex.current = dataStream.length - 1;
 
     (newDeltas as DataStreamDelta[]).forEach((delta: DataStreamDelta) => {
+      // Инструмент navigateToPage открывает страницу в правой панели
+      if (delta.type === "navigate") {
+        const { href, sectionId } = delta.content as ChatNavigationEvent;
+        openInRightPanel(href, sectionId);
+        return;
+      }
+
       const artifactDefinition = artifactDefinitions.find(
         (artifactDefinition) => artifactDefinition.kind === artifact.kind
       );
@@ -73,6 +88,14 @@ export function DataStreamHandler({ id }: { id: string }) {
             return {
               ...draftArtifact,
               kind: delta.content as ArtifactKind,
+              language: null,
+              status: "streaming",
+            };
+
+          case "language":
+            return {
+              ...draftArtifact,
+              language: delta.content as string,
               status: "streaming",
             };
 
@@ -94,7 +117,7 @@ export function DataStreamHandler({ id }: { id: string }) {
         }
       });
     });
-  }, [dataStream, setArtifact, setMetadata, artifact]);
+  }, [dataStream, setArtifact, setMetadata, artifact, openInRightPanel]);
 
   return null;
 }
@@ -0,0 +1,131 @@
+// @/app/@left/(_public)/(_CHAT)/(chat)/(_service)/(_components)/diagram-editor.tsx
+
+"use client";
+
+import { memo, useEffect, useRef, useState } from "react";
+import { useTheme } from "next-themes";
+import type { Suggestion } from "@prisma/client";
+import { cn } from "@/lib/utils";
+import { CodeEditor } from "./code-editor";
+import { useTranslation } from "../(_libs)/translation";
+import { renderDiagram } from "../(_libs)/artifacts/diagram/render";
+
+type DiagramEditorProps = {
+  content: string;
+  onSaveContent: (updatedContent: string, debounce: boolean) => void;
+  status: "streaming" | "idle";
+  isCurrentVersion: boolean;
+  currentVersionIndex: number;
+  suggestions: Array<Suggestion>;
+  isInline?: boolean;
+  // Ошибка отрисовки или null, когда диаграмма снова отрисовалась
+  onRenderError?: (message: string | null) => void;
+};
+
+// Пауза после ввода, прежде чем перерисовывать диаграмму
+const RENDER_DELAY = 300;
+
+function PureDiagramEditor({
+  isInline = false,
+  onRenderError,
+  ...editorProps
+}: DiagramEditorProps) {
+  const { content, status } = editorProps;
+  const { t } = useTranslation();
+  const { resolvedTheme } = useTheme();
+  // Последняя удачная отрисовка остаётся на экране, пока исходник с ошибкой
+  const [svg, setSvg] = useState("");
+  const [hasError, setHasError] = useState(false);
+  // Колбэк в ref: новая функция при каждой отрисовке панели не должна
+  // запускать перерисовку диаграммы
+  const onRenderErrorRef = useRef(onRenderError);
+
+  useEffect(() => {
+    onRenderErrorRef.current = onRenderError;
+  }, [onRenderError]);
+
+  useEffect(() => {
+    // Во время генерации исходник неполный и почти всегда с ошибкой
+    if (status === "streaming" || !content.trim()) return;
+
+    let isCancelled = false;
+    const timeout = setTimeout(async () => {
+      try {
+        const nextSvg = await renderDiagram(
+          content,
+          resolvedTheme === "dark" ? "dark" : "default"
+        );
+        if (isCancelled) return;
+
+        setSvg(nextSvg);
+        setHasError(false);
+        onRenderErrorRef.current?.(null);
+      } catch (error) {
+        if (isCancelled) return;
+
+        setHasError(true);
+        onRenderErrorRef.current?.(
+          error instanceof Error ? error.message : String(error)
+        );
+      }
+    }, RENDER_DELAY);
+
+    return () => {
+      isCancelled = true;
+      clearTimeout(timeout);
+    };
+  }, [content, status, resolvedTheme]);
+
+  const preview = svg ? (
+    <div
+      data-testid="diagram-preview"
+      className={cn(
+        "flex justify-center [&_svg]:h-auto [&_svg]:max-w-full",
+        hasError && "opacity-50"
+      )}
+      // SVG собран Mermaid с securityLevel: "strict"
+      dangerouslySetInnerHTML={{ __html: svg }}
+    />
+  ) : (
+    <div className="text-sm text-muted-foreground">
+      {status === "streaming" ? t("Drawing the diagram...") : null}
+    </div>
+  );
+
+  if (isInline) {
+    return <div className="size-full overflow-hidden p-4">{preview}</div>;
+  }
+
+  return (
+    <div className="flex size-full flex-col lg:flex-row">
+      <div className="min-h-0 px-1 lg:w-2/5 lg:shrink-0 lg:border-r dark:border-zinc-700">
+        <CodeEditor {...editorProps} language="mermaid" />
+      </div>
+      <div className="min-w-0 flex-1 overflow-auto p-4 pb-24">
+        {hasError && (
+          <div className="mb-2 text-xs text-red-500">
+            {t("The diagram has errors, see the console")}
+          </div>
+        )}
+        {preview}
+      </div>
+    </div>
+  );
+}
+
+function areEqual(
+  prevProps: DiagramEditorProps,
+  nextProps: DiagramEditorProps
+) {
+  if (prevProps.currentVersionIndex !== nextProps.currentVersionIndex)
+    return false;
+  if (prevProps.isCurrentVersion !== nextProps.isCurrentVersion) return false;
+  if (prevProps.isInline !== nextProps.isInline) return false;
+  if (prevProps.onSaveContent !== nextProps.onSaveContent) return false;
+  if (prevProps.status !== nextProps.status) return false;
+  if (prevProps.content !== nextProps.content) return false;
+
+  return true;
+}
+
+export const DiagramEditor = memo(PureDiagramEditor, areEqual);
@@ -25,9 +25,13 @@ import { Editor } from "./text-editor";
 import { DocumentToolCall, DocumentToolResult } from "./document";
 import { CodeEditor } from "./code-editor";
 import { useArtifact } from "@/app/@left/(_public)/(_CHAT)/(chat)/(_service)/(_hooks)/use-artifact";
+import { useDocumentUrl } from "@/app/@left/(_public)/(_CHAT)/(chat)/(_service)/(_hooks)/use-shared-chat";
 import equal from "fast-deep-equal";
 import { SpreadsheetEditor } from "./sheet-editor";
+import { ChartEditor } from "./chart-editor";
+import { DiagramEditor } from "./diagram-editor";
 import { ImageEditor } from "./image-editor";
+import { parseProject } from "../(_libs)/artifacts/project/files";
 
 interface DocumentPreviewProps {
   isReadonly: boolean;
@@ -41,10 +45,11 @@ export function DocumentPreview({
   args,
 }: DocumentPreviewProps) {
   const { artifact, setArtifact } = useArtifact();
+  const getDocumentUrl = useDocumentUrl();
 
   const { data: documents, isLoading: isDocumentsFetching } = useSWR<
     Array<Document>
-  >(result ? `/api/document?id=${result.id}` : null, fetcher);
+  >(result ? getDocumentUrl(result.id) : null, fetcher);
 
   const previewDocument = useMemo(() => documents?.[0], [documents]);
   const hitboxRef = useRef<HTMLDivElement>(null);
@@ -98,6 +103,7 @@ export function DocumentPreview({
           title: artifact.title,
           kind: artifact.kind,
           content: artifact.content,
+          language: artifact.language,
           id: artifact.documentId,
           createdAt: new Date(),
           userId: "noop",
@@ -171,6 +177,7 @@ const PureHitboxLayer = ({
               title: result.title,
               documentId: result.id,
               kind: result.kind,
+              language: null,
               isVisible: true,
               boundingBox: {
                 left: boundingBox.x,
@@ -268,7 +275,30 @@ const DocumentContent = ({ document }: { document: Document }) => {
       ) : document.kind === "code" ? (
         <div className="flex flex-1 relative w-full">
           <div className="absolute inset-0">
-            <CodeEditor {...commonProps} onSaveContent={() => {}} />
+            <CodeEditor
+              {...commonProps}
+              language={document.language}
+              onSaveContent={() => {}}
+            />
+          </div>
+        </div>
+      ) : document.kind === "project" ? (
+        <div className="flex flex-col gap-1.5 p-4 font-mono text-sm">
+          {parseProject(document.content).map((file) => (
+            <div key={file.path} className="flex items-center gap-2">
+              <span className="text-muted-foreground">
+                <FileIcon size={14} />
+              </span>
+              {file.path}
+            </div>
+          ))}
+        </div>
+      ) : document.kind === "diagram" ? (
+        <DiagramEditor {...commonProps} onSaveContent={() => {}} isInline />
+      ) : document.kind === "chart" ? (
+        <div className="flex flex-1 relative size-full">
+          <div className="absolute inset-0">
+            <ChartEditor {...commonProps} isInline />
           </div>
         </div>
       ) : document.kind === "sheet" ? (
@@ -69,6 +69,7 @@ function PureDocumentToolResult({
           documentId: result.id,
           kind: result.kind,
           content: "",
+          language: null,
           title: result.title,
           isVisible: true,
           status: "idle",
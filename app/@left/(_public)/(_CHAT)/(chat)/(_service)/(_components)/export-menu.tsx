@@ -0,0 +1,72 @@
+// @/app/@left/(_public)/(_CHAT)/(chat)/(_service)/(_components)/export-menu.tsx
+
+"use client";
+
+import { Download, FileJson, FileText, Printer } from "lucide-react";
+import { Button } from "@/components/ui/button";
+import {
+  DropdownMenu,
+  DropdownMenuContent,
+  DropdownMenuItem,
+  DropdownMenuTrigger,
+} from "@/components/ui/dropdown-menu";
+import type { ChatExportFormat } from "../(_libs)/chat-export";
+import { useTranslation } from "../(_libs)/translation";
+
+function getExportUrl(chatId: string, format: ChatExportFormat) {
+  return `/api/chat/export?id=${chatId}&format=${format}`;
+}
+
+/**
+ * Выгрузка чата: Markdown и JSON скачиваются файлом, PDF — через печать
+ * страницы, открытой в новой вкладке.
+ */
+export function ExportMenu({
+  chatId,
+  className,
+}: {
+  chatId: string;
+  className?: string;
+}) {
+  const { t } = useTranslation();
+
+  return (
+    <DropdownMenu>
+      <DropdownMenuTrigger asChild className={className}>
+        <Button
+          data-testid="export-button"
+          variant="outline"
+          className="hidden md:flex md:px-2 md:h-[34px]"
+        >
+          <Download />
+          {t("Export")}
+        </Button>
+      </DropdownMenuTrigger>
+
+      <DropdownMenuContent align="start">
+        <DropdownMenuItem asChild className="cursor-pointer">
+          <a href={getExportUrl(chatId, "markdown")} download>
+            <FileText />
+            {t("Markdown")}
+          </a>
+        </DropdownMenuItem>
+        <DropdownMenuItem asChild className="cursor-pointer">
+          <a href={getExportUrl(chatId, "json")} download>
+            <FileJson />
+            {t("JSON (can be imported)")}
+          </a>
+        </DropdownMenuItem>
+        <DropdownMenuItem asChild className="cursor-pointer">
+          <a
+            href={getExportUrl(chatId, "pdf")}
+            target="_blank"
+            rel="noopener noreferrer"
+          >
+            <Printer />
+            {t("PDF (print)")}
+          </a>
+        </DropdownMenuItem>
+      </DropdownMenuContent>
+    </DropdownMenu>
+  );
+}
@@ -0,0 +1,175 @@
+// @/app/@left/(_public)/(_CHAT)/(chat)/(_service)/(_components)/instructions-dialog.tsx
+
+"use client";
+
+import { useState } from "react";
+import useSWR from "swr";
+import { toast } from "sonner";
+import { ScrollText } from "lucide-react";
+import { Button } from "@/components/ui/button";
+import { Label } from "@/components/ui/label";
+import { Textarea } from "@/components/ui/textarea";
+import {
+  Dialog,
+  DialogContent,
+  DialogDescription,
+  DialogHeader,
+  DialogTitle,
+  DialogTrigger,
+} from "@/components/ui/dialog";
+import { LoaderIcon } from "@/components/shared/icons";
+import { cn, fetcher } from "@/lib/utils";
+import {
+  INSTRUCTIONS_MAX_LENGTH,
+  type InstructionsState,
+} from "../(_libs)/instructions";
+import { useTranslation } from "../(_libs)/translation";
+
+function InstructionsForm({
+  chatId,
+  state,
+  onSaved,
+}: {
+  chatId: string;
+  state: InstructionsState;
+  onSaved: () => void;
+}) {
+  const { t } = useTranslation();
+  const [chat, setChat] = useState(state.chat ?? "");
+  const [profile, setProfile] = useState(state.profile ?? "");
+  const [isSaving, setIsSaving] = useState(false);
+
+  const save = async () => {
+    setIsSaving(true);
+    try {
+      // Чата ещё нет до первого сообщения — сохраняем только профиль
+      const response = await fetch(`/api/instructions?chatId=${chatId}`, {
+        method: "PATCH",
+        headers: { "Content-Type": "application/json" },
+        body: JSON.stringify(
+          state.chatExists ? { chat, profile } : { profile }
+        ),
+      });
+      if (!response.ok) throw new Error(await response.text());
+
+      toast.success(t("Instructions saved"));
+      onSaved();
+    } catch (error) {
+      console.error("Failed to save instructions:", error);
+      toast.error(t("Failed to save instructions"));
+    } finally {
+      setIsSaving(false);
+    }
+  };
+
+  return (
+    <div className="flex flex-col gap-4">
+      <div className="flex flex-col gap-2">
+        <Label htmlFor="chat-instructions">{t("For this chat")}</Label>
+        <Textarea
+          id="chat-instructions"
+          data-testid="chat-instructions"
+          value={chat}
+          maxLength={INSTRUCTIONS_MAX_LENGTH}
+          disabled={!state.chatExists}
+          placeholder={
+            state.chatExists
+              ? t("For example: answer in German, as a strict code reviewer")
+              : t("Send the first message to set instructions for this chat")
+          }
+          className="min-h-24"
+          onChange={(event) => setChat(event.target.value)}
+        />
+      </div>
+
+      <div className="flex flex-col gap-2">
+        <Label htmlFor="profile-instructions">{t("For all chats")}</Label>
+        <Textarea
+          id="profile-instructions"
+          data-testid="profile-instructions"
+          value={profile}
+          maxLength={INSTRUCTIONS_MAX_LENGTH}
+          placeholder={t("For example: keep answers short and friendly")}
+          className="min-h-24"
+          onChange={(event) => setProfile(event.target.value)}
+        />
+      </div>
+
+      <div className="text-xs text-muted-foreground">
+        {t(
+          "Chat instructions take precedence over profile instructions. Rules set by administrators always apply."
+        )}
+      </div>
+
+      <Button
+        data-testid="save-instructions"
+        disabled={isSaving}
+        onClick={save}
+      >
+        {isSaving && (
+          <span className="animate-spin">
+            <LoaderIcon />
+          </span>
+        )}
+        {t("Save")}
+      </Button>
+    </div>
+  );
+}
+
+/**
+ * Пользовательские инструкции: тон, язык и роль ассистента для текущего чата
+ * и для всех чатов профиля. Попадают в системный промпт перед
+ * заблокированными администратором разделами.
+ */
+export function InstructionsDialog({
+  chatId,
+  className,
+}: {
+  chatId: string;
+  className?: string;
+}) {
+  const { t } = useTranslation();
+  const [open, setOpen] = useState(false);
+  const { data, mutate } = useSWR<InstructionsState>(
+    open ? `/api/instructions?chatId=${chatId}` : null,
+    fetcher
+  );
+
+  return (
+    <Dialog open={open} onOpenChange={setOpen}>
+      <DialogTrigger asChild>
+        <Button
+          data-testid="instructions-button"
+          variant="outline"
+          className={cn("hidden md:flex md:px-2 md:h-[34px]", className)}
+        >
+          <ScrollText />
+          {t("Instructions")}
+        </Button>
+      </DialogTrigger>
+
+      <DialogContent className="sm:max-w-lg">
+        <DialogHeader>
+          <DialogTitle>{t("Custom instructions")}</DialogTitle>
+          <DialogDescription>
+            {t("Tell AIFA how to respond: tone, language or role.")}
+          </DialogDescription>
+        </DialogHeader>
+
+        {data === undefined ? (
+          <div className="h-48 animate-pulse rounded-md bg-muted" />
+        ) : (
+          <InstructionsForm
+            chatId={chatId}
+            state={data}
+            onSaved={() => {
+              mutate();
+              setOpen(false);
+            }}
+          />
+        )}
+      </DialogContent>
+    </Dialog>
+  );
+}
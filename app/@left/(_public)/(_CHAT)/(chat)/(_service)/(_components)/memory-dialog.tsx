@@ -0,0 +1,219 @@
+// @/app/@left/(_public)/(_CHAT)/(chat)/(_service)/(_components)/memory-dialog.tsx
+
+"use client";
+
+import { useState } from "react";
+import useSWR from "swr";
+import { toast } from "sonner";
+import type { UserMemory } from "@prisma/client";
+import { Button } from "@/components/ui/button";
+import { Label } from "@/components/ui/label";
+import { Textarea } from "@/components/ui/textarea";
+import {
+  Dialog,
+  DialogContent,
+  DialogDescription,
+  DialogHeader,
+  DialogTitle,
+} from "@/components/ui/dialog";
+import { PencilEditIcon, TrashIcon } from "@/components/shared/icons";
+import { fetcher } from "@/lib/utils";
+import {
+  MEMORY_MAX_LENGTH,
+  type UserMemoryState,
+} from "../(_libs)/user-memory";
+import { useTranslation } from "../(_libs)/translation";
+
+const MEMORY_KEY = "/api/memory";
+
+function MemoryItem({
+  memory,
+  onSave,
+  onDelete,
+}: {
+  memory: UserMemory;
+  onSave: (content: string) => Promise<void>;
+  onDelete: () => void;
+}) {
+  const { t } = useTranslation();
+  const [isEditing, setIsEditing] = useState(false);
+  const [content, setContent] = useState(memory.content);
+
+  if (isEditing) {
+    return (
+      <div data-testid="memory-item" className="flex flex-col gap-2">
+        <Textarea
+          autoFocus
+          value={content}
+          maxLength={MEMORY_MAX_LENGTH}
+          className="min-h-16"
+          onChange={(event) => setContent(event.target.value)}
+        />
+        <div className="flex justify-end gap-2">
+          <Button
+            variant="ghost"
+            size="sm"
+            onClick={() => {
+              setContent(memory.content);
+              setIsEditing(false);
+            }}
+          >
+            {t("Cancel")}
+          </Button>
+          <Button
+            size="sm"
+            disabled={!content.trim()}
+            onClick={async () => {
+              await onSave(content.trim());
+              setIsEditing(false);
+            }}
+          >
+            {t("Save")}
+          </Button>
+        </div>
+      </div>
+    );
+  }
+
+  return (
+    <div
+      data-testid="memory-item"
+      className="group/memory flex items-start gap-2 rounded-md px-2 py-1.5 text-sm hover:bg-muted"
+    >
+      <span className="flex-1 whitespace-pre-wrap break-words">
+        {memory.content}
+      </span>
+      <Button
+        variant="ghost"
+        size="icon"
+        className="size-7 shrink-0 opacity-0 group-hover/memory:opacity-100 focus-visible:opacity-100"
+        aria-label={t("Edit")}
+        onClick={() => setIsEditing(true)}
+      >
+        <PencilEditIcon />
+      </Button>
+      <Button
+        variant="ghost"
+        size="icon"
+        className="size-7 shrink-0 opacity-0 group-hover/memory:opacity-100 focus-visible:opacity-100"
+        aria-label={t("Delete")}
+        onClick={onDelete}
+      >
+        <TrashIcon />
+      </Button>
+    </div>
+  );
+}
+
+/**
+ * «Что AIFA помнит обо мне»: включение долговременной памяти, просмотр,
+ * правка и удаление сохранённых фактов.
+ */
+export function MemoryDialog({
+  open,
+  onOpenChange,
+}: {
+  open: boolean;
+  onOpenChange: (open: boolean) => void;
+}) {
+  const { t } = useTranslation();
+  const { data, mutate } = useSWR<UserMemoryState>(
+    open ? MEMORY_KEY : null,
+    fetcher
+  );
+
+  const request = async (url: string, init: RequestInit) => {
+    const response = await fetch(url, {
+      ...init,
+      headers: { "Content-Type": "application/json" },
+    });
+    if (!response.ok) {
+      toast.error(t("Failed to update memory"));
+      return false;
+    }
+    return true;
+  };
+
+  const setEnabled = async (enabled: boolean) => {
+    const updated = await request(`${MEMORY_KEY}/settings`, {
+      method: "PATCH",
+      body: JSON.stringify({ enabled }),
+    });
+    if (updated) mutate();
+  };
+
+  const saveMemory = async (id: string, content: string) => {
+    const saved = await request(`${MEMORY_KEY}?id=${id}`, {
+      method: "PATCH",
+      body: JSON.stringify({ content }),
+    });
+    if (saved) mutate();
+  };
+
+  const deleteMemory = async (id?: string) => {
+    const deleted = await request(id ? `${MEMORY_KEY}?id=${id}` : MEMORY_KEY, {
+      method: "DELETE",
+    });
+    if (deleted) mutate();
+  };
+
+  return (
+    <Dialog open={open} onOpenChange={onOpenChange}>
+      <DialogContent className="sm:max-w-lg">
+        <DialogHeader>
+          <DialogTitle>{t("Memory")}</DialogTitle>
+          <DialogDescription>
+            {t(
+              "AIFA can remember facts and preferences you share and use them in new chats."
+            )}
+          </DialogDescription>
+        </DialogHeader>
+
+        <div className="flex items-center gap-2">
+          <input
+            id="memory-enabled"
+            data-testid="memory-enabled"
+            type="checkbox"
+            className="size-4 accent-primary"
+            checked={data?.enabled ?? false}
+            disabled={!data}
+            onChange={(event) => setEnabled(event.target.checked)}
+          />
+          <Label htmlFor="memory-enabled">
+            {t("Remember things across chats")}
+          </Label>
+        </div>
+
+        <div className="flex max-h-80 flex-col gap-1 overflow-y-auto">
+          {data === undefined ? (
+            <div className="h-9 animate-pulse rounded-md bg-muted" />
+          ) : data.memories.length === 0 ? (
+            <div className="text-sm text-muted-foreground">
+              {t("Nothing remembered yet")}
+            </div>
+          ) : (
+            data.memories.map((memory) => (
+              <MemoryItem
+                key={memory.id}
+                memory={memory}
+                onSave={(content) => saveMemory(memory.id, content)}
+                onDelete={() => deleteMemory(memory.id)}
+              />
+            ))
+          )}
+        </div>
+
+        {data && data.memories.length > 0 && (
+          <Button
+            data-testid="delete-all-memories"
+            variant="outline"
+            className="text-destructive"
+            onClick={() => deleteMemory()}
+          >
+            {t("Forget everything")}
+          </Button>
+        )}
+      </DialogContent>
+    </Dialog>
+  );
+}
@@ -5,8 +5,13 @@ import { useSWRConfig } from "swr";
 import { useCopyToClipboard } from "usehooks-ts";
 import type { Vote } from "@prisma/client";
 
+import { useRouter } from "next/navigation";
+import { unstable_serialize } from "swr/infinite";
+import { GitFork } from "lucide-react";
+import type { UseChatHelpers } from "@ai-sdk/react";
 import {
   CopyIcon,
+  RedoIcon,
   ThumbDownIcon,
   ThumbUpIcon,
 } from "@/components/shared/icons";
@@ -21,28 +26,90 @@ import { memo } from "react";
 import equal from "fast-deep-equal";
 import { toast } from "sonner";
 import { useTranslation } from "../(_libs)/translation";
+import { BranchSwitcher } from "./branch-switcher";
+import { getChatHistoryPaginationKey } from "./sidebar-history";
 
 export function PureMessageActions({
   chatId,
   message,
   vote,
   isLoading,
+  setMessages,
+  reload,
 }: {
   chatId: string;
   message: Message;
   vote: Vote | undefined;
   isLoading: boolean;
+  setMessages: UseChatHelpers["setMessages"];
+  reload: UseChatHelpers["reload"];
 }) {
   const { t } = useTranslation();
   const { mutate } = useSWRConfig();
+  const router = useRouter();
   const [_, copyToClipboard] = useCopyToClipboard();
 
   if (isLoading) return null;
-  if (message.role === "user") return null;
+
+  // Новый чат с веткой диалога до этого сообщения включительно
+  const forkButton = (
+    <Tooltip>
+      <TooltipTrigger asChild>
+        <Button
+          data-testid="message-fork"
+          className="py-1 px-2 h-fit text-muted-foreground"
+          variant="outline"
+          onClick={() => {
+            const fork = fetch(
+              `/api/chat/fork?chatId=${chatId}&messageId=${message.id}`,
+              { method: "POST" }
+            ).then(async (response) => {
+              if (!response.ok) throw new Error(await response.text());
+              return (await response.json()) as { id: string };
+            });
+
+            toast.promise(fork, {
+              loading: t("Forking the chat..."),
+              success: ({ id }) => {
+                mutate(unstable_serialize(getChatHistoryPaginationKey));
+                router.push(`/chat/${id}`);
+                return t("Forked into a new chat!");
+              },
+              error: t("Failed to fork the chat."),
+            });
+          }}
+        >
+          <GitFork className="size-4" />
+        </Button>
+      </TooltipTrigger>
+      <TooltipContent>{t("Fork into new chat")}</TooltipContent>
+    </Tooltip>
+  );
+
+  if (message.role === "user") {
+    return (
+      <TooltipProvider delayDuration={0}>
+        <div className="flex flex-row gap-2 items-center justify-end opacity-0 group-hover/message:opacity-100">
+          <BranchSwitcher
+            chatId={chatId}
+            messageId={message.id}
+            setMessages={setMessages}
+          />
+          {forkButton}
+        </div>
+      </TooltipProvider>
+    );
+  }
 
   return (
     <TooltipProvider delayDuration={0}>
-      <div className="flex flex-row gap-2">
+      <div className="flex flex-row gap-2 items-center">
+        <BranchSwitcher
+          chatId={chatId}
+          messageId={message.id}
+          setMessages={setMessages}
+        />
+
         <Tooltip>
           <TooltipTrigger asChild>
             <Button
@@ -175,6 +242,29 @@ export function PureMessageActions({
           </TooltipTrigger>
           <TooltipContent>{t("Downvote Response")}</TooltipContent>
         </Tooltip>
+
+        <Tooltip>
+          <TooltipTrigger asChild>
+            <Button
+              data-testid="message-regenerate"
+              className="py-1 px-2 h-fit text-muted-foreground"
+              variant="outline"
+              onClick={() => {
+                // Ответ на тот же вопрос станет соседней веткой этого ответа
+                setMessages((messages) => {
+                  const index = messages.findIndex((m) => m.id === message.id);
+                  return index === -1 ? messages : messages.slice(0, index);
+                });
+                reload();
+              }}
+            >
+              <RedoIcon />
+            </Button>
+          </TooltipTrigger>
+          <TooltipContent>{t("Regenerate response")}</TooltipContent>
+        </Tooltip>
+
+        {forkButton}
       </div>
     </TooltipProvider>
   );
@@ -0,0 +1,166 @@
+// @/app/@left/(_public)/(_CHAT)/(chat)/(_service)/(_components)/message-citations.tsx
+
+"use client";
+
+import { memo, useCallback, useMemo } from "react";
+import Link from "next/link";
+import type { Components } from "react-markdown";
+import { Markdown } from "@/components/shared/markdown";
+import {
+  Tooltip,
+  TooltipContent,
+  TooltipTrigger,
+} from "@/components/ui/tooltip";
+import { cn } from "@/lib/utils";
+import {
+  type Citation,
+  linkCitationMarkers,
+  parseCitationHref,
+} from "../(_libs)/citations";
+import { useTranslation } from "../(_libs)/translation";
+import { useRightPanelNavigation } from "../(_hooks)/use-right-panel-navigation";
+
+/**
+ * Открывает страницу источника в правой панели и подсвечивает секцию.
+ */
+function useOpenCitation() {
+  const openInRightPanel = useRightPanelNavigation();
+
+  return useCallback(
+    (citation: Citation) => {
+      if (citation.href) openInRightPanel(citation.href, citation.sectionId);
+    },
+    [openInRightPanel]
+  );
+}
+
+function CitationMarker({
+  citation,
+  onOpen,
+}: {
+  citation: Citation;
+  onOpen: (citation: Citation) => void;
+}) {
+  return (
+    <Tooltip>
+      <TooltipTrigger asChild>
+        <button
+          type="button"
+          data-testid="citation-marker"
+          className={cn(
+            "mx-0.5 inline-flex h-4 min-w-4 -translate-y-1 items-center justify-center rounded-sm bg-muted px-1 text-[10px] font-medium text-muted-foreground",
+            citation.href
+              ? "hover:bg-primary hover:text-primary-foreground"
+              : "cursor-default"
+          )}
+          onClick={() => onOpen(citation)}
+        >
+          {citation.rank}
+        </button>
+      </TooltipTrigger>
+      <TooltipContent className="max-w-xs">
+        <div className="font-medium">{citation.title}</div>
+        {citation.snippet && (
+          <div className="text-xs opacity-80">{citation.snippet}</div>
+        )}
+      </TooltipContent>
+    </Tooltip>
+  );
+}
+
+/**
+ * Текст ответа, в котором маркеры [n] превращены в кликабельные сноски.
+ */
+function PureCitedMarkdown({
+  text,
+  citations,
+}: {
+  text: string;
+  citations: Citation[];
+}) {
+  const openCitation = useOpenCitation();
+
+  const overrides = useMemo<Partial<Components>>(
+    () => ({
+      a: ({ node, children, href, ...props }) => {
+        const rank = parseCitationHref(href);
+        const citation = citations.find((item) => item.rank === rank);
+
+        if (citation) {
+          return <CitationMarker citation={citation} onOpen={openCitation} />;
+        }
+
+        return (
+          <Link
+            className="text-blue-500 hover:underline"
+            target="_blank"
+            rel="noreferrer"
+            href={href ?? ""}
+            {...props}
+          >
+            {children}
+          </Link>
+        );
+      },
+    }),
+    [citations, openCitation]
+  );
+
+  return (
+    <Markdown overrides={overrides}>
+      {linkCitationMarkers(text, citations)}
+    </Markdown>
+  );
+}
+
+export const CitedMarkdown = memo(PureCitedMarkdown);
+
+/**
+ * Список источников под ответом ассистента.
+ */
+export function MessageSources({ citations }: { citations: Citation[] }) {
+  const { t } = useTranslation();
+  const openCitation = useOpenCitation();
+
+  if (citations.length === 0) return null;
+
+  return (
+    <div data-testid="message-sources" className="flex flex-col gap-2">
+      <div className="text-sm font-medium text-muted-foreground">
+        {t("Sources")}
+      </div>
+      <ol className="flex flex-col gap-1">
+        {citations.map((citation) => (
+          <li key={citation.rank}>
+            <button
+              type="button"
+              disabled={!citation.href}
+              className="flex w-full gap-2 rounded-md px-2 py-1 text-left text-sm enabled:hover:bg-muted"
+              onClick={() => openCitation(citation)}
+            >
+              <span className="shrink-0 text-muted-foreground">
+                [{citation.rank}]
+              </span>
+              <span className="flex min-w-0 flex-col">
+                <span className="font-medium">
+                  {citation.title}
+                  {citation.heading && citation.heading !== citation.title && (
+                    <span className="font-normal text-muted-foreground">
+                      {" "}
+                      · {citation.heading}
+                    </span>
+                  )}
+                </span>
+                {citation.snippet && (
+                  <span className="line-clamp-2 text-xs text-muted-foreground">
+                    {citation.snippet}
+                  </span>
+                )}
+              </span>
+            </button>
+          </li>
+        ))}
+      </ol>
+    </div>
+  );
+}
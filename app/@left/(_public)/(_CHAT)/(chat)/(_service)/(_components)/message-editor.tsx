@@ -4,7 +4,7 @@ import { ChatRequestOptions, Message } from "ai";
 import { Button } from "../../../../../../../components/ui/button";
 import { Dispatch, SetStateAction, useEffect, useRef, useState } from "react";
 import { Textarea } from "../../../../../../../components/ui/textarea";
-import { deleteTrailingMessages } from "@/app/@left/(_public)/(_CHAT)/(chat)/(_service)/(_actions)/actions";
+import { generateCuid } from "@/lib/utils/generateCuid";
 import { UseChatHelpers } from "@ai-sdk/react";
 import { useTranslation } from "../(_libs)/translation";
 
@@ -72,13 +72,11 @@ export function MessageEditor({
           variant="default"
           className="h-fit py-2 px-3"
           disabled={isSubmitting}
-          onClick={async () => {
+          onClick={() => {
             setIsSubmitting(true);
 
-            await deleteTrailingMessages({
-              id: message.id,
-            });
-
+            // Правка не удаляет старый путь: отредактированное сообщение
+            // с новым id становится соседней веткой исходного
             // @ts-expect-error todo: support UIMessage in setMessages
             setMessages((messages) => {
               const index = messages.findIndex((m) => m.id === message.id);
@@ -86,6 +84,7 @@ export function MessageEditor({
               if (index !== -1) {
                 const updatedMessage = {
                   ...message,
+                  id: generateCuid(),
                   content: draftContent,
                   parts: [{ type: "text", text: draftContent }],
                 };
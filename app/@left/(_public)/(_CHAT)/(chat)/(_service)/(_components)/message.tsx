@@ -26,6 +26,11 @@ import { DocumentPreview } from "./document-preview";
 import { MessageReasoning } from "./message-reasoning";
 import type { UseChatHelpers } from "@ai-sdk/react";
 import { useTranslation } from "../(_libs)/translation";
+import { getCitationsBefore } from "../(_libs)/citations";
+import { CitedMarkdown, MessageSources } from "./message-citations";
+import { PageNavigationResult } from "./page-navigation-result";
+import { PageSelectionQuote } from "./page-selection-quote";
+import { getPageSelection } from "../(_libs)/page-selection";
 
 const PurePreviewMessage = ({
   chatId,
@@ -48,11 +53,13 @@ const PurePreviewMessage = ({
 }) => {
   const [mode, setMode] = useState<"view" | "edit">("view");
   const { t } = useTranslation();
+  const pageSelection = getPageSelection(message);
   return (
     <AnimatePresence>
       <motion.div
         data-testid={`message-${message.role}`}
-        className="w-full mx-auto max-w-3xl px-4 group/message"
+        data-message-id={message.id}
+        className="w-full mx-auto max-w-3xl px-4 group/message rounded-xl transition-colors duration-700 data-[focused=true]:bg-muted"
         initial={{ y: 5, opacity: 0 }}
         animate={{ y: 0, opacity: 1 }}
         data-role={message.role}
@@ -94,6 +101,13 @@ const PurePreviewMessage = ({
                 </div>
               )}
 
+            {message.role === "user" && pageSelection && (
+              <PageSelectionQuote
+                selection={pageSelection}
+                className="ml-auto max-w-full"
+              />
+            )}
+
             {message.parts?.map((part, index) => {
               const { type } = part;
               const key = `message-${message.id}-part-${index}`;
@@ -110,6 +124,11 @@ const PurePreviewMessage = ({
 
               if (type === "text") {
                 if (mode === "view") {
+                  const citations =
+                    message.role === "assistant"
+                      ? getCitationsBefore(message.parts, index)
+                      : [];
+
                   return (
                     <div key={key} className="flex flex-row gap-2 items-start">
                       {message.role === "user" && !isReadonly && (
@@ -137,7 +156,14 @@ const PurePreviewMessage = ({
                             message.role === "user",
                         })}
                       >
-                        <Markdown>{sanitizeText(part.text)}</Markdown>
+                        {citations.length > 0 ? (
+                          <CitedMarkdown
+                            text={sanitizeText(part.text)}
+                            citations={citations}
+                          />
+                        ) : (
+                          <Markdown>{sanitizeText(part.text)}</Markdown>
+                        )}
                       </div>
                     </div>
                   );
@@ -216,6 +242,10 @@ const PurePreviewMessage = ({
                             ))}
                           </div>
                         </div>
+                      ) : toolName === "navigateToPage" ? (
+                        <div className="text-sm text-muted-foreground">
+                          {t("Opening the page...")}
+                        </div>
                       ) : null}
                     </div>
                   );
@@ -245,6 +275,8 @@ const PurePreviewMessage = ({
                           result={result}
                           isReadonly={isReadonly}
                         />
+                      ) : toolName === "navigateToPage" ? (
+                        <PageNavigationResult result={result} />
                       ) : (
                         // <div className="overflow-x-auto max-w-full bg-primary text-primary-foreground px-3 py-2 rounded-xl">
                         <pre className="whitespace-pre-wrap break-words font-mono">
@@ -261,6 +293,10 @@ const PurePreviewMessage = ({
               }
             })}
 
+            {message.role === "assistant" && mode === "view" && (
+              <MessageSources citations={getCitationsBefore(message.parts)} />
+            )}
+
             {!isReadonly && (
               <MessageActions
                 key={`action-${message.id}`}
@@ -268,6 +304,8 @@ const PurePreviewMessage = ({
                 message={message}
                 vote={vote}
                 isLoading={isLoading}
+                setMessages={setMessages}
+                reload={reload}
               />
             )}
           </div>
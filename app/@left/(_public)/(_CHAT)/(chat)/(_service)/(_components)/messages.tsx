@@ -19,6 +19,7 @@ interface MessagesProps {
   reload: UseChatHelpers["reload"];
   isReadonly: boolean;
   isArtifactVisible: boolean;
+  focusMessageId?: string;
 }
 
 function PureMessages({
@@ -29,6 +30,7 @@ function PureMessages({
   setMessages,
   reload,
   isReadonly,
+  focusMessageId,
 }: MessagesProps) {
   const {
     containerRef: messagesContainerRef,
@@ -39,6 +41,10 @@ function PureMessages({
   } = useMessages({
     chatId,
     status,
+    // Фокус срабатывает, когда сообщение уже отрисовано (после смены ветки)
+    focusMessageId: messages.some((message) => message.id === focusMessageId)
+      ? focusMessageId
+      : undefined,
   });
 
   return (
@@ -85,6 +91,7 @@ function PureMessages({
 export const Messages = memo(PureMessages, (prevProps, nextProps) => {
   if (prevProps.isArtifactVisible && nextProps.isArtifactVisible) return true;
 
+  if (prevProps.focusMessageId !== nextProps.focusMessageId) return false;
   if (prevProps.status !== nextProps.status) return false;
   if (prevProps.status && nextProps.status) return false;
   if (prevProps.messages.length !== nextProps.messages.length) return false;
@@ -33,6 +33,12 @@ import { AnimatePresence, motion } from "framer-motion";
 import { ArrowDown } from "lucide-react";
 import { useScrollToBottom } from "@/app/@left/(_public)/(_CHAT)/(chat)/(_service)/(_hooks)/use-scroll-to-bottom";
 import type { VisibilityType } from "./visibility-selector";
+import { useAppContext } from "@/contexts/app-context";
+import { PageSelectionQuote } from "./page-selection-quote";
+import { toPageSelectionAnnotation } from "../(_libs)/page-selection";
+import { useTranslation } from "../(_libs)/translation";
+import { useArtifact } from "@/app/@left/(_public)/(_CHAT)/(chat)/(_service)/(_hooks)/use-artifact";
+import type { Document } from "@prisma/client";
 
 function PureMultimodalInput({
   chatId,
@@ -117,12 +123,40 @@ function PureMultimodalInput({
   const fileInputRef = useRef<HTMLInputElement>(null);
   const [uploadQueue, setUploadQueue] = useState<Array<string>>([]);
 
+  // Фрагмент страницы из правого слота ("Ask AI about this")
+  const { t } = useTranslation();
+  const { pageSelection, setPageSelection } = useAppContext();
+
+  useEffect(() => {
+    if (!pageSelection) return;
+    if (!textareaRef.current?.value) {
+      setInput(t("Tell me more about this"));
+    }
+    textareaRef.current?.focus();
+    // Only when a new fragment is attached
+    // eslint-disable-next-line react-hooks/exhaustive-deps
+  }, [pageSelection]);
+
   const submitForm = useCallback(() => {
     window.history.replaceState({}, "", `/chat/${chatId}`);
 
-    handleSubmit(undefined, {
-      experimental_attachments: attachments,
-    });
+    if (pageSelection) {
+      // handleSubmit не умеет передавать annotations, поэтому append
+      append(
+        {
+          role: "user",
+          content: input,
+          annotations: [toPageSelectionAnnotation(pageSelection)],
+        },
+        { experimental_attachments: attachments }
+      );
+      setInput("");
+      setPageSelection(null);
+    } else {
+      handleSubmit(undefined, {
+        experimental_attachments: attachments,
+      });
+    }
 
     setAttachments([]);
     setLocalStorageInput("");
@@ -134,6 +168,11 @@ function PureMultimodalInput({
   }, [
     attachments,
     handleSubmit,
+    append,
+    input,
+    setInput,
+    pageSelection,
+    setPageSelection,
     setAttachments,
     setLocalStorageInput,
     width,
@@ -167,14 +206,71 @@ function PureMultimodalInput({
     }
   };
 
+  const { setArtifact } = useArtifact();
+
+  // CSV и XLSX не прикрепляются к сообщению, а импортируются в новую таблицу:
+  // она открывается в панели артефакта, а в поле ввода подставляется ссылка
+  // на документ, чтобы модель могла его изменить
+  const importSheet = useCallback(
+    async (file: File) => {
+      const formData = new FormData();
+      formData.append("file", file);
+
+      try {
+        const response = await fetch("/api/document/import", {
+          method: "POST",
+          body: formData,
+        });
+
+        if (!response.ok) {
+          toast.error(await response.text());
+          return;
+        }
+
+        const sheet: Document = await response.json();
+
+        setArtifact({
+          documentId: sheet.id,
+          kind: "sheet",
+          content: sheet.content ?? "",
+          language: null,
+          title: sheet.title,
+          isVisible: true,
+          status: "idle",
+          boundingBox: {
+            top: window.innerHeight / 2,
+            left: window.innerWidth / 2,
+            width: 0,
+            height: 0,
+          },
+        });
+
+        setInput(
+          (currentInput) =>
+            currentInput ||
+            `${t("Spreadsheet")} "${sheet.title}" (document id: ${sheet.id}): `
+        );
+      } catch (error) {
+        toast.error(t("Failed to import the spreadsheet, please try again!"));
+      }
+    },
+    [setArtifact, setInput, t]
+  );
+
   const handleFileChange = useCallback(
     async (event: ChangeEvent<HTMLInputElement>) => {
       const files = Array.from(event.target.files || []);
+      const sheetFiles = files.filter((file) =>
+        /\.(csv|xlsx)$/i.test(file.name)
+      );
+      const otherFiles = files.filter((file) => !sheetFiles.includes(file));
 
       setUploadQueue(files.map((file) => file.name));
 
       try {
-        const uploadPromises = files.map((file) => uploadFile(file));
+        await Promise.all(sheetFiles.map((file) => importSheet(file)));
+
+        const uploadPromises = otherFiles.map((file) => uploadFile(file));
         const uploadedAttachments = await Promise.all(uploadPromises);
         const successfullyUploadedAttachments = uploadedAttachments.filter(
           (attachment) => attachment !== undefined
@@ -190,7 +286,7 @@ function PureMultimodalInput({
         setUploadQueue([]);
       }
     },
-    [setAttachments]
+    [setAttachments, importSheet]
   );
 
   const { isAtBottom, scrollToBottom } = useScrollToBottom();
@@ -247,6 +343,13 @@ function PureMultimodalInput({
         tabIndex={-1}
       />
 
+      {pageSelection && (
+        <PageSelectionQuote
+          selection={pageSelection}
+          onRemove={() => setPageSelection(null)}
+        />
+      )}
+
       {(attachments.length > 0 || uploadQueue.length > 0) && (
         <div
           data-testid="attachments-preview"
@@ -0,0 +1,49 @@
+// @/app/@left/(_public)/(_CHAT)/(chat)/(_service)/(_components)/page-navigation-result.tsx
+
+"use client";
+
+import { GlobeIcon } from "@/components/shared/icons";
+import { Button } from "@/components/ui/button";
+import { useTranslation } from "../(_libs)/translation";
+import { useRightPanelNavigation } from "../(_hooks)/use-right-panel-navigation";
+
+interface PageNavigationResultProps {
+  result?: {
+    title?: string;
+    href?: string;
+    sectionId?: string | null;
+    error?: string;
+  };
+}
+
+/**
+ * Итог вызова navigateToPage: ссылка, чтобы снова открыть страницу.
+ */
+export function PageNavigationResult({ result }: PageNavigationResultProps) {
+  const { t } = useTranslation();
+  const openInRightPanel = useRightPanelNavigation();
+
+  if (!result?.href) {
+    return (
+      <div className="text-sm text-muted-foreground">
+        {t("No matching page to open")}
+      </div>
+    );
+  }
+
+  const { href, sectionId } = result;
+
+  return (
+    <Button
+      data-testid="page-navigation-result"
+      variant="outline"
+      size="sm"
+      className="h-fit gap-2 py-1"
+      onClick={() => openInRightPanel(href, sectionId)}
+    >
+      <GlobeIcon size={14} />
+      <span className="text-muted-foreground">{t("Opened page")}</span>
+      <span className="font-medium">{result.title ?? href}</span>
+    </Button>
+  );
+}
@@ -0,0 +1,65 @@
+// @/app/@left/(_public)/(_CHAT)/(chat)/(_service)/(_components)/page-selection-quote.tsx
+
+"use client";
+
+import { CrossSmallIcon, GlobeIcon } from "@/components/shared/icons";
+import { Button } from "@/components/ui/button";
+import { cn } from "@/lib/utils";
+import type { PageSelection } from "@/contexts/app-context";
+import { useTranslation } from "../(_libs)/translation";
+import { useRightPanelNavigation } from "../(_hooks)/use-right-panel-navigation";
+
+interface PageSelectionQuoteProps {
+  selection: PageSelection;
+  onRemove?: () => void;
+  className?: string;
+}
+
+/**
+ * Фрагмент страницы, приложенный к сообщению: в поле ввода (с кнопкой удаления)
+ * и над отправленным сообщением пользователя.
+ */
+export function PageSelectionQuote({
+  selection,
+  onRemove,
+  className,
+}: PageSelectionQuoteProps) {
+  const { t } = useTranslation();
+  const openInRightPanel = useRightPanelNavigation();
+
+  return (
+    <div
+      data-testid="page-selection-quote"
+      className={cn(
+        "flex gap-2 rounded-xl border-l-4 border-primary bg-muted px-3 py-2 text-sm",
+        className
+      )}
+    >
+      <div className="flex min-w-0 flex-1 flex-col gap-1">
+        <button
+          type="button"
+          className="flex items-center gap-1 text-left text-xs text-muted-foreground hover:underline"
+          onClick={() => openInRightPanel(selection.href, selection.sectionId)}
+        >
+          <GlobeIcon size={12} />
+          <span className="truncate">
+            {t("About")}: {selection.pageTitle}
+          </span>
+        </button>
+        <div className="line-clamp-3 whitespace-pre-wrap">{selection.text}</div>
+      </div>
+
+      {onRemove && (
+        <Button
+          variant="ghost"
+          size="icon"
+          className="size-6 shrink-0"
+          aria-label={t("Remove")}
+          onClick={onRemove}
+        >
+          <CrossSmallIcon size={14} />
+        </Button>
+      )}
+    </div>
+  );
+}
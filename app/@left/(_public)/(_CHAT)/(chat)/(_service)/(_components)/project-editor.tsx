@@ -0,0 +1,360 @@
+// @/app/@left/(_public)/(_CHAT)/(chat)/(_service)/(_components)/project-editor.tsx
+
+"use client";
+
+import { memo, useCallback, useEffect, useMemo, useRef, useState } from "react";
+import { ChevronDown, ChevronRight, Folder, X } from "lucide-react";
+import { cn } from "@/lib/utils";
+import { FileIcon } from "@/components/shared/icons";
+import { CodeEditor } from "./code-editor";
+import { useTranslation } from "../(_libs)/translation";
+import {
+  buildProjectTree,
+  diffLines,
+  diffProjects,
+  parseProject,
+  projectFileLanguage,
+  serializeProject,
+  type ProjectFileChange,
+  type ProjectTreeNode,
+} from "../(_libs)/artifacts/project/files";
+
+// Открытые вкладки; хранятся в metadata артефакта и переживают переход в diff
+export interface ProjectEditorState {
+  openPaths: string[];
+  activePath: string | null;
+}
+
+export const initialProjectEditorState: ProjectEditorState = {
+  openPaths: [],
+  activePath: null,
+};
+
+function FileTree({
+  nodes,
+  activePath,
+  collapsedPaths,
+  onSelectFile,
+  onToggleFolder,
+  depth = 0,
+}: {
+  nodes: ProjectTreeNode[];
+  activePath: string | null;
+  collapsedPaths: Set<string>;
+  onSelectFile: (path: string) => void;
+  onToggleFolder: (path: string) => void;
+  depth?: number;
+}) {
+  return (
+    <>
+      {nodes.map((node) => {
+        const isCollapsed = collapsedPaths.has(node.path);
+
+        return (
+          <div key={node.path}>
+            <button
+              type="button"
+              data-testid={node.children ? undefined : "project-file"}
+              className={cn(
+                "flex w-full items-center gap-1.5 truncate py-1 pr-2 text-left hover:bg-zinc-200 dark:hover:bg-zinc-700",
+                {
+                  "bg-zinc-200 dark:bg-zinc-700": node.path === activePath,
+                }
+              )}
+              style={{ paddingLeft: 8 + depth * 12 }}
+              onClick={() =>
+                node.children
+                  ? onToggleFolder(node.path)
+                  : onSelectFile(node.path)
+              }
+            >
+              {node.children ? (
+                <>
+                  {isCollapsed ? (
+                    <ChevronRight className="size-3.5 shrink-0" />
+                  ) : (
+                    <ChevronDown className="size-3.5 shrink-0" />
+                  )}
+                  <Folder className="size-3.5 shrink-0 text-muted-foreground" />
+                </>
+              ) : (
+                <span className="ml-5 shrink-0 text-muted-foreground">
+                  <FileIcon size={14} />
+                </span>
+              )}
+              <span className="truncate">{node.name}</span>
+            </button>
+
+            {node.children && !isCollapsed && (
+              <FileTree
+                nodes={node.children}
+                activePath={activePath}
+                collapsedPaths={collapsedPaths}
+                onSelectFile={onSelectFile}
+                onToggleFolder={onToggleFolder}
+                depth={depth + 1}
+              />
+            )}
+          </div>
+        );
+      })}
+    </>
+  );
+}
+
+type ProjectEditorProps = {
+  content: string;
+  onSaveContent: (updatedContent: string, debounce: boolean) => void;
+  status: "streaming" | "idle";
+  isCurrentVersion: boolean;
+  currentVersionIndex: number;
+  state: ProjectEditorState;
+  onStateChange: (state: ProjectEditorState) => void;
+};
+
+function PureProjectEditor({
+  content,
+  onSaveContent,
+  status,
+  isCurrentVersion,
+  currentVersionIndex,
+  state,
+  onStateChange,
+}: ProjectEditorProps) {
+  const { t } = useTranslation();
+  const [collapsedPaths, setCollapsedPaths] = useState<Set<string>>(
+    () => new Set()
+  );
+
+  const files = useMemo(() => parseProject(content), [content]);
+  const tree = useMemo(() => buildProjectTree(files), [files]);
+
+  // Несохранённые правки нескольких файлов копятся здесь до отложенного сохранения
+  const draftFilesRef = useRef(files);
+  useEffect(() => {
+    draftFilesRef.current = files;
+  }, [files]);
+
+  // Во время генерации открыт файл, который сейчас пишется
+  const activePath =
+    status === "streaming"
+      ? files.at(-1)?.path ?? null
+      : state.activePath && files.some((file) => file.path === state.activePath)
+      ? state.activePath
+      : files[0]?.path ?? null;
+  const activeFile = files.find((file) => file.path === activePath);
+
+  const tabs = state.openPaths.filter((path) =>
+    files.some((file) => file.path === path)
+  );
+  if (activePath && !tabs.includes(activePath)) tabs.push(activePath);
+
+  const selectFile = (path: string) =>
+    onStateChange({
+      openPaths: tabs.includes(path) ? tabs : [...tabs, path],
+      activePath: path,
+    });
+
+  const closeTab = (path: string) => {
+    const openPaths = tabs.filter((current) => current !== path);
+    onStateChange({
+      openPaths,
+      activePath: path === activePath ? openPaths.at(-1) ?? null : activePath,
+    });
+  };
+
+  const toggleFolder = (path: string) =>
+    setCollapsedPaths((current) => {
+      const next = new Set(current);
+      if (next.has(path)) {
+        next.delete(path);
+      } else {
+        next.add(path);
+      }
+      return next;
+    });
+
+  const saveFile = useCallback(
+    (updatedContent: string, debounce: boolean) => {
+      draftFilesRef.current = draftFilesRef.current.map((file) =>
+        file.path === activePath ? { ...file, content: updatedContent } : file
+      );
+      onSaveContent(serializeProject(draftFilesRef.current), debounce);
+    },
+    [activePath, onSaveContent]
+  );
+
+  return (
+    <div className="flex min-h-full flex-row">
+      <div
+        data-testid="project-files"
+        className="sticky top-0 max-h-dvh w-40 shrink-0 self-start overflow-y-auto border-r py-2 text-sm dark:border-zinc-700 md:w-56"
+      >
+        <div className="px-3 pb-2 text-xs font-medium uppercase text-muted-foreground">
+          {t("Files")}
+        </div>
+        <FileTree
+          nodes={tree}
+          activePath={activePath}
+          collapsedPaths={collapsedPaths}
+          onSelectFile={selectFile}
+          onToggleFolder={toggleFolder}
+        />
+      </div>
+
+      <div className="flex min-w-0 flex-1 flex-col">
+        <div className="sticky top-0 z-10 flex overflow-x-auto border-b bg-muted text-sm dark:border-zinc-700">
+          {tabs.map((path) => (
+            <div
+              key={path}
+              className={cn(
+                "flex shrink-0 items-center gap-1 border-r py-1.5 pl-3 pr-1 dark:border-zinc-700",
+                {
+                  "bg-background": path === activePath,
+                  "text-muted-foreground": path !== activePath,
+                }
+              )}
+            >
+              <button type="button" onClick={() => selectFile(path)}>
+                {path.split("/").pop()}
+              </button>
+              <button
+                type="button"
+                className="rounded p-0.5 hover:bg-zinc-200 dark:hover:bg-zinc-700"
+                onClick={() => closeTab(path)}
+              >
+                <X className="size-3" />
+              </button>
+            </div>
+          ))}
+        </div>
+
+        {activeFile ? (
+          <div className="px-1">
+            <CodeEditor
+              key={activeFile.path}
+              content={activeFile.content}
+              language={projectFileLanguage(activeFile.path)}
+              onSaveContent={saveFile}
+              status={status}
+              isCurrentVersion={isCurrentVersion}
+              currentVersionIndex={currentVersionIndex}
+              suggestions={[]}
+            />
+          </div>
+        ) : (
+          <div className="p-4 text-sm text-muted-foreground">
+            {t("No files yet")}
+          </div>
+        )}
+      </div>
+    </div>
+  );
+}
+
+export const ProjectEditor = memo(PureProjectEditor);
+
+const CHANGE_LABELS: Record<
+  ProjectFileChange,
+  { letter: string; className: string }
+> = {
+  added: { letter: "A", className: "text-green-600 dark:text-green-400" },
+  modified: { letter: "M", className: "text-amber-600 dark:text-amber-400" },
+  removed: { letter: "D", className: "text-red-600 dark:text-red-400" },
+};
+
+/**
+ * Изменения версии проекта: список изменённых файлов и построчный diff
+ * выбранного файла.
+ */
+export function ProjectDiffView({
+  oldContent,
+  newContent,
+  state,
+  onStateChange,
+}: {
+  oldContent: string;
+  newContent: string;
+  state: ProjectEditorState;
+  onStateChange: (state: ProjectEditorState) => void;
+}) {
+  const { t } = useTranslation();
+
+  const diffs = useMemo(
+    () => diffProjects(parseProject(oldContent), parseProject(newContent)),
+    [oldContent, newContent]
+  );
+  const selected =
+    diffs.find((diff) => diff.path === state.activePath) ?? diffs[0];
+  const lines = useMemo(
+    () => (selected ? diffLines(selected.oldContent, selected.newContent) : []),
+    [selected]
+  );
+
+  if (!selected) {
+    return (
+      <div className="p-4 text-sm text-muted-foreground">
+        {t("No changes in this version")}
+      </div>
+    );
+  }
+
+  return (
+    <div className="flex min-h-full flex-row">
+      <div
+        data-testid="project-changed-files"
+        className="sticky top-0 max-h-dvh w-40 shrink-0 self-start overflow-y-auto border-r py-2 text-sm dark:border-zinc-700 md:w-56"
+      >
+        <div className="px-3 pb-2 text-xs font-medium uppercase text-muted-foreground">
+          {t("Changed files")}
+        </div>
+        {diffs.map((diff) => (
+          <button
+            key={diff.path}
+            type="button"
+            className={cn(
+              "flex w-full items-center gap-2 py-1 pl-3 pr-2 text-left hover:bg-zinc-200 dark:hover:bg-zinc-700",
+              {
+                "bg-zinc-200 dark:bg-zinc-700": diff.path === selected.path,
+              }
+            )}
+            onClick={() => onStateChange({ ...state, activePath: diff.path })}
+          >
+            <span
+              className={cn(
+                "w-3 shrink-0 font-mono text-xs font-semibold",
+                CHANGE_LABELS[diff.change].className
+              )}
+            >
+              {CHANGE_LABELS[diff.change].letter}
+            </span>
+            <span className="truncate" title={diff.path}>
+              {diff.path}
+            </span>
+          </button>
+        ))}
+      </div>
+
+      <div className="min-w-0 flex-1 overflow-x-auto py-2 font-mono text-sm">
+        {lines.map((line, index) => (
+          <div
+            key={index}
+            className={cn("whitespace-pre px-4", {
+              "bg-green-100 text-green-700 dark:bg-green-500/20 dark:text-green-300":
+                line.type === "added",
+              "bg-red-100 text-red-600 dark:bg-red-500/20 dark:text-red-300":
+                line.type === "removed",
+            })}
+          >
+            {line.type === "added"
+              ? "+ "
+              : line.type === "removed"
+              ? "- "
+              : "  "}
+            {line.value}
+          </div>
+        ))}
+      </div>
+    </div>
+  );
+}
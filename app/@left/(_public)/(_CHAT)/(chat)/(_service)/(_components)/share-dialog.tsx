@@ -0,0 +1,197 @@
+// @/app/@left/(_public)/(_CHAT)/(chat)/(_service)/(_components)/share-dialog.tsx
+
+"use client";
+
+import { useState } from "react";
+import useSWR, { useSWRConfig } from "swr";
+import { unstable_serialize } from "swr/infinite";
+import { useCopyToClipboard } from "usehooks-ts";
+import { toast } from "sonner";
+import type { ChatShare } from "@prisma/client";
+import { Button } from "@/components/ui/button";
+import { Input } from "@/components/ui/input";
+import {
+  Dialog,
+  DialogContent,
+  DialogDescription,
+  DialogHeader,
+  DialogTitle,
+  DialogTrigger,
+} from "@/components/ui/dialog";
+import {
+  CopyIcon,
+  LoaderIcon,
+  ShareIcon,
+  TrashIcon,
+} from "@/components/shared/icons";
+import { cn, fetcher } from "@/lib/utils";
+import { getChatHistoryPaginationKey } from "./sidebar-history";
+import type { VisibilityType } from "./visibility-selector";
+import { useTranslation } from "../(_libs)/translation";
+
+function getShareUrl(token: string) {
+  return `${window.location.origin}/share/${token}`;
+}
+
+/**
+ * Управление ссылками на read-only просмотр чата: создание, копирование, отзыв.
+ * Первая ссылка делает приватный чат unlisted, отзыв последней — снова приватным.
+ */
+export function ShareDialog({
+  chatId,
+  className,
+}: {
+  chatId: string;
+  className?: string;
+}) {
+  const { t } = useTranslation();
+  const [open, setOpen] = useState(false);
+  const [isCreating, setIsCreating] = useState(false);
+  const [_, copyToClipboard] = useCopyToClipboard();
+  const { mutate } = useSWRConfig();
+
+  const sharesKey = `/api/chat/share?chatId=${chatId}`;
+  const { data: shares, mutate: mutateShares } = useSWR<Array<ChatShare>>(
+    open ? sharesKey : null,
+    fetcher
+  );
+
+  // Видимость меняет сервер; обновляем селектор и историю без повторного запроса
+  const syncVisibility = (
+    update: (visibility: VisibilityType) => VisibilityType
+  ) => {
+    mutate<VisibilityType>(
+      `${chatId}-visibility`,
+      (visibility) => (visibility ? update(visibility) : visibility),
+      { revalidate: false }
+    );
+    mutate(unstable_serialize(getChatHistoryPaginationKey));
+  };
+
+  const createLink = async () => {
+    setIsCreating(true);
+    try {
+      const response = await fetch(sharesKey, { method: "POST" });
+      if (!response.ok) throw new Error(await response.text());
+
+      const share: ChatShare = await response.json();
+      mutateShares((current) => [share, ...(current ?? [])], {
+        revalidate: false,
+      });
+      syncVisibility((visibility) =>
+        visibility === "private" ? "unlisted" : visibility
+      );
+
+      await copyToClipboard(getShareUrl(share.token));
+      toast.success(t("Link copied to clipboard!"));
+    } catch (error) {
+      console.error("Failed to create share link:", error);
+      toast.error(t("Failed to create the link"));
+    } finally {
+      setIsCreating(false);
+    }
+  };
+
+  const revokeLink = async (id: string) => {
+    try {
+      const response = await fetch(`/api/chat/share?id=${id}`, {
+        method: "DELETE",
+      });
+      if (!response.ok) throw new Error(await response.text());
+
+      const remaining = (shares ?? []).filter((share) => share.id !== id);
+      mutateShares(remaining, { revalidate: false });
+      if (remaining.length === 0) {
+        syncVisibility((visibility) =>
+          visibility === "unlisted" ? "private" : visibility
+        );
+      }
+
+      toast.success(t("Link revoked"));
+    } catch (error) {
+      console.error("Failed to revoke share link:", error);
+      toast.error(t("Failed to revoke the link"));
+    }
+  };
+
+  return (
+    <Dialog open={open} onOpenChange={setOpen}>
+      <DialogTrigger asChild>
+        <Button
+          data-testid="share-button"
+          variant="outline"
+          className={cn("hidden md:flex md:px-2 md:h-[34px]", className)}
+        >
+          <ShareIcon />
+          {t("Share")}
+        </Button>
+      </DialogTrigger>
+
+      <DialogContent className="sm:max-w-lg">
+        <DialogHeader>
+          <DialogTitle>{t("Share chat")}</DialogTitle>
+          <DialogDescription>
+            {t(
+              "Anyone with a link can read this chat and its artifacts but cannot write to it."
+            )}
+          </DialogDescription>
+        </DialogHeader>
+
+        <div className="flex flex-col gap-2">
+          {shares === undefined ? (
+            <div className="h-9 animate-pulse rounded-md bg-muted" />
+          ) : shares.length === 0 ? (
+            <div className="text-sm text-muted-foreground">
+              {t("No active links")}
+            </div>
+          ) : (
+            shares.map((share) => (
+              <div
+                key={share.id}
+                data-testid="share-link"
+                className="flex items-center gap-2"
+              >
+                <Input readOnly value={getShareUrl(share.token)} />
+                <Button
+                  variant="outline"
+                  size="icon"
+                  className="shrink-0"
+                  aria-label={t("Copy link")}
+                  onClick={async () => {
+                    await copyToClipboard(getShareUrl(share.token));
+                    toast.success(t("Link copied to clipboard!"));
+                  }}
+                >
+                  <CopyIcon />
+                </Button>
+                <Button
+                  data-testid="revoke-share-link"
+                  variant="outline"
+                  size="icon"
+                  className="shrink-0"
+                  aria-label={t("Revoke link")}
+                  onClick={() => revokeLink(share.id)}
+                >
+                  <TrashIcon />
+                </Button>
+              </div>
+            ))
+          )}
+        </div>
+
+        <Button
+          data-testid="create-share-link"
+          disabled={isCreating}
+          onClick={createLink}
+        >
+          {isCreating && (
+            <span className="animate-spin">
+              <LoaderIcon />
+            </span>
+          )}
+          {t("Create link")}
+        </Button>
+      </DialogContent>
+    </Dialog>
+  );
+}
@@ -0,0 +1,148 @@
+// @/app/@left/(_public)/(_CHAT)/(chat)/(_service)/(_components)/shared-chat.tsx
+
+"use client";
+
+import type { Attachment, UIMessage } from "ai";
+import { useChat } from "@ai-sdk/react";
+import { useState } from "react";
+import Link from "next/link";
+import { useRouter } from "next/navigation";
+import { useSWRConfig } from "swr";
+import { unstable_serialize } from "swr/infinite";
+import type { Session } from "next-auth";
+import { Button } from "@/components/ui/button";
+import { LoaderIcon } from "@/components/shared/icons";
+import { Artifact } from "./artifact";
+import { Messages } from "./messages";
+import { SidebarToggle } from "./sidebar-toggle";
+import { getChatHistoryPaginationKey } from "./sidebar-history";
+import { toast } from "./toast";
+import { useArtifactSelector } from "../(_hooks)/use-artifact";
+import { SharedChatProvider } from "../(_hooks)/use-shared-chat";
+import { useTranslation } from "../(_libs)/translation";
+
+/**
+ * Чат, открытый по ссылке: сообщения и артефакты только для чтения,
+ * без поля ввода. Вошедший пользователь может продолжить чат в своей копии.
+ */
+export function SharedChat({
+  id,
+  title,
+  shareToken,
+  initialMessages,
+  session,
+}: {
+  id: string;
+  title: string;
+  shareToken: string;
+  initialMessages: Array<UIMessage>;
+  session: Session | null;
+}) {
+  const { t } = useTranslation();
+  const router = useRouter();
+  const { mutate } = useSWRConfig();
+
+  // useChat хранит сообщения для Messages и Artifact; запросы к /api/chat не уходят
+  const {
+    messages,
+    setMessages,
+    handleSubmit,
+    input,
+    setInput,
+    append,
+    status,
+    stop,
+    reload,
+  } = useChat({ id, initialMessages });
+
+  const [attachments, setAttachments] = useState<Array<Attachment>>([]);
+  const [isForking, setIsForking] = useState(false);
+  const isArtifactVisible = useArtifactSelector((state) => state.isVisible);
+
+  const canContinue = !!session?.user && session.user.type !== "guest";
+
+  const continueChat = async () => {
+    setIsForking(true);
+    try {
+      const response = await fetch(
+        `/api/chat/fork?token=${encodeURIComponent(shareToken)}`,
+        { method: "POST" }
+      );
+      if (!response.ok) throw new Error(await response.text());
+
+      const fork: { id: string } = await response.json();
+      mutate(unstable_serialize(getChatHistoryPaginationKey));
+      router.push(`/chat/${fork.id}`);
+    } catch (error) {
+      console.error("Failed to continue the shared chat:", error);
+      toast({ type: "error", description: t("Failed to copy the chat") });
+      setIsForking(false);
+    }
+  };
+
+  return (
+    <SharedChatProvider shareToken={shareToken}>
+      <div className="flex flex-col min-w-0 h-dvh bg-background">
+        <header className="flex sticky top-0 z-20 bg-background py-1.5 items-center px-2 gap-2">
+          <SidebarToggle />
+
+          <div className="flex min-w-0 flex-1 flex-col">
+            <span className="truncate text-sm font-medium">{title}</span>
+            <span className="text-xs text-muted-foreground">
+              {t("Read-only shared chat")}
+            </span>
+          </div>
+
+          {canContinue ? (
+            <Button
+              data-testid="continue-shared-chat"
+              className="h-[34px]"
+              disabled={isForking}
+              onClick={continueChat}
+            >
+              {isForking && (
+                <span className="animate-spin">
+                  <LoaderIcon />
+                </span>
+              )}
+              {t("Continue this chat")}
+            </Button>
+          ) : (
+            <Button asChild variant="outline" className="h-[34px]">
+              <Link href="/login">{t("Sign in to continue this chat")}</Link>
+            </Button>
+          )}
+        </header>
+
+        <Messages
+          chatId={id}
+          status={status}
+          votes={undefined}
+          messages={messages}
+          setMessages={setMessages}
+          reload={reload}
+          isReadonly={true}
+          isArtifactVisible={isArtifactVisible}
+        />
+      </div>
+
+      <Artifact
+        chatId={id}
+        input={input}
+        setInput={setInput}
+        handleSubmit={handleSubmit}
+        status={status}
+        stop={stop}
+        attachments={attachments}
+        setAttachments={setAttachments}
+        append={append}
+        messages={messages}
+        setMessages={setMessages}
+        reload={reload}
+        votes={undefined}
+        isReadonly={true}
+        selectedVisibilityType="unlisted"
+      />
+    </SharedChatProvider>
+  );
+}
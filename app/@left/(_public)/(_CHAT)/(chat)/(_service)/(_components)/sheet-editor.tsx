@@ -3,10 +3,51 @@
 "use client";
 
 import React, { memo, useEffect, useMemo, useState } from "react";
-import DataGrid, { textEditor } from "react-data-grid";
-import { parse, unparse } from "papaparse";
+import DataGrid, {
+  textEditor,
+  type Column,
+  type RenderHeaderCellProps,
+  type SortColumn,
+} from "react-data-grid";
 import { useTheme } from "next-themes";
+import {
+  ArrowDown,
+  ArrowUp,
+  Calendar,
+  Hash,
+  Search,
+  ToggleLeft,
+  Type,
+} from "lucide-react";
 import { cn } from "@/lib/utils";
+import {
+  DropdownMenu,
+  DropdownMenuContent,
+  DropdownMenuItem,
+  DropdownMenuLabel,
+  DropdownMenuRadioGroup,
+  DropdownMenuRadioItem,
+  DropdownMenuSeparator,
+  DropdownMenuTrigger,
+} from "@/components/ui/dropdown-menu";
+import { useTranslation } from "../(_libs)/translation";
+import {
+  columnLetter,
+  isFormula,
+  isSheetColumnType,
+  isValidCell,
+  parseSheet,
+  serializeSheet,
+  SHEET_COLUMN_TYPES,
+  type SheetColumnType,
+  type SheetData,
+} from "../(_libs)/artifacts/sheet/data";
+import {
+  evaluateSheet,
+  formatCellValue,
+  FormulaError,
+  type CellValue,
+} from "../(_libs)/artifacts/sheet/formulas";
 
 import "react-data-grid/lib/styles.css";
 
@@ -18,8 +59,123 @@ type SheetEditorProps = {
   currentVersionIndex: number;
 };
 
+// Строка таблицы: id 0 — заголовки, id N — строка данных N - 1;
+// ячейки лежат под ключами-индексами столбцов ("0", "1", ...)
+type SheetRow = { id: number; [column: string]: string | number };
+
 const MIN_ROWS = 50;
 const MIN_COLS = 26;
+// Пустые строки под данными, чтобы было куда дописывать
+const EXTRA_ROWS = 10;
+
+const COLUMN_TYPE_ICONS: Record<SheetColumnType, typeof Type> = {
+  text: Type,
+  number: Hash,
+  date: Calendar,
+  boolean: ToggleLeft,
+};
+
+const COLUMN_TYPE_LABELS: Record<SheetColumnType, string> = {
+  text: "Text",
+  number: "Number",
+  date: "Date",
+  boolean: "Boolean",
+};
+
+const INVALID_CELL_MESSAGES: Record<SheetColumnType, string> = {
+  text: "",
+  number: "Expected a number",
+  date: "Expected a date (YYYY-MM-DD)",
+  boolean: "Expected TRUE or FALSE",
+};
+
+function isBlank(value: CellValue): boolean {
+  return value === "" || value instanceof FormulaError;
+}
+
+function compareValues(a: CellValue, b: CellValue): number {
+  if (typeof a === "number" && typeof b === "number") return a - b;
+  if (typeof a === "number") return -1;
+  if (typeof b === "number") return 1;
+  return formatCellValue(a).localeCompare(formatCellValue(b), undefined, {
+    numeric: true,
+    sensitivity: "base",
+  });
+}
+
+function ColumnHeader({
+  column,
+  sortDirection,
+  index,
+  type,
+  onTypeChange,
+  onSort,
+}: RenderHeaderCellProps<SheetRow> & {
+  index: number;
+  type: SheetColumnType;
+  onTypeChange: (type: SheetColumnType) => void;
+  onSort: (direction: "ASC" | "DESC" | null) => void;
+}) {
+  const { t } = useTranslation();
+  const TypeIcon = COLUMN_TYPE_ICONS[type];
+
+  return (
+    <div className="flex items-center justify-between gap-1">
+      <span className="flex items-center gap-1">
+        {column.name}
+        {sortDirection === "ASC" && <ArrowUp className="size-3" />}
+        {sortDirection === "DESC" && <ArrowDown className="size-3" />}
+      </span>
+      <DropdownMenu>
+        <DropdownMenuTrigger
+          data-testid="sheet-column-type"
+          className="rounded p-0.5 text-muted-foreground hover:bg-zinc-200 dark:hover:bg-zinc-700"
+          title={t(COLUMN_TYPE_LABELS[type])}
+          // Клик по меню не должен переключать сортировку столбца
+          onClick={(event) => event.stopPropagation()}
+          onKeyDown={(event) => event.stopPropagation()}
+        >
+          <TypeIcon className="size-3.5" />
+        </DropdownMenuTrigger>
+        <DropdownMenuContent align="end">
+          <DropdownMenuLabel>
+            {t("Column")} {columnLetter(index)}
+          </DropdownMenuLabel>
+          <DropdownMenuRadioGroup
+            value={type}
+            onValueChange={(value) => {
+              if (isSheetColumnType(value)) onTypeChange(value);
+            }}
+          >
+            {SHEET_COLUMN_TYPES.map((columnType) => {
+              const Icon = COLUMN_TYPE_ICONS[columnType];
+              return (
+                <DropdownMenuRadioItem key={columnType} value={columnType}>
+                  <Icon className="mr-2 size-3.5" />
+                  {t(COLUMN_TYPE_LABELS[columnType])}
+                </DropdownMenuRadioItem>
+              );
+            })}
+          </DropdownMenuRadioGroup>
+          <DropdownMenuSeparator />
+          <DropdownMenuItem onSelect={() => onSort("ASC")}>
+            <ArrowUp />
+            {t("Sort ascending")}
+          </DropdownMenuItem>
+          <DropdownMenuItem onSelect={() => onSort("DESC")}>
+            <ArrowDown />
+            {t("Sort descending")}
+          </DropdownMenuItem>
+          {sortDirection && (
+            <DropdownMenuItem onSelect={() => onSort(null)}>
+              {t("Clear sorting")}
+            </DropdownMenuItem>
+          )}
+        </DropdownMenuContent>
+      </DropdownMenu>
+    </div>
+  );
+}
 
 const PureSpreadsheetEditor = ({
   content,
@@ -28,107 +184,245 @@ const PureSpreadsheetEditor = ({
   isCurrentVersion,
 }: SheetEditorProps) => {
   const { theme } = useTheme();
+  const { t } = useTranslation();
 
-  const parseData = useMemo(() => {
-    if (!content) return Array(MIN_ROWS).fill(Array(MIN_COLS).fill(""));
-    const result = parse<string[]>(content, { skipEmptyLines: true });
+  const parsedSheet = useMemo(() => parseSheet(content), [content]);
+  const [sheet, setSheet] = useState<SheetData>(parsedSheet);
 
-    const paddedData = result.data.map((row) => {
-      const paddedRow = [...row];
-      while (paddedRow.length < MIN_COLS) {
-        paddedRow.push("");
-      }
-      return paddedRow;
-    });
+  useEffect(() => {
+    setSheet(parsedSheet);
+  }, [parsedSheet]);
 
-    while (paddedData.length < MIN_ROWS) {
-      paddedData.push(Array(MIN_COLS).fill(""));
-    }
+  const [sortColumns, setSortColumns] = useState<SortColumn[]>([]);
+  const [filter, setFilter] = useState("");
 
-    return paddedData;
-  }, [content]);
+  const values = useMemo(() => evaluateSheet(sheet), [sheet]);
+
+  const updateSheet = (next: SheetData) => {
+    setSheet(next);
+    saveContent(serializeSheet(next), true);
+  };
 
-  const columns = useMemo(() => {
-    const rowNumberColumn = {
+  const columnCount = Math.max(MIN_COLS, sheet.columns.length + 1);
+  const columnType = (index: number): SheetColumnType =>
+    sheet.columns[index]?.type ?? "text";
+
+  const setColumnType = (index: number, type: SheetColumnType) => {
+    const columns = Array.from(
+      { length: Math.max(sheet.columns.length, index + 1) },
+      (_, current) => sheet.columns[current] ?? { name: "", type: "text" }
+    );
+    columns[index] = { ...columns[index], type };
+    updateSheet({ ...sheet, columns });
+  };
+
+  const columns = useMemo((): Column<SheetRow>[] => {
+    const rowNumberColumn: Column<SheetRow> = {
       key: "rowNumber",
       name: "",
       frozen: true,
       width: 50,
-      renderCell: ({ rowIdx }: { rowIdx: number }) => rowIdx + 1,
+      sortable: false,
+      resizable: false,
+      // Номер строки как в Excel: заголовки — строка 1, данные — с 2
+      renderCell: ({ row }) => row.id + 1,
       cellClass: "border-t border-r dark:bg-zinc-950 dark:text-zinc-50",
       headerCellClass: "border-t border-r dark:bg-zinc-900 dark:text-zinc-50",
     };
 
-    const dataColumns = Array.from({ length: MIN_COLS }, (_, i) => ({
-      key: i.toString(),
-      name: String.fromCharCode(65 + i),
-      renderEditCell: textEditor,
-      width: 120,
-      cellClass: cn(`border-t dark:bg-zinc-950 dark:text-zinc-50`, {
-        "border-l": i !== 0,
-      }),
-      headerCellClass: cn(`border-t dark:bg-zinc-900 dark:text-zinc-50`, {
-        "border-l": i !== 0,
-      }),
-    }));
+    const dataColumns = Array.from(
+      { length: columnCount },
+      (_, index): Column<SheetRow> => {
+        const type = columnType(index);
+
+        return {
+          key: index.toString(),
+          name: columnLetter(index),
+          renderEditCell: textEditor,
+          width: 120,
+          renderHeaderCell: (props) => (
+            <ColumnHeader
+              {...props}
+              index={index}
+              type={type}
+              onTypeChange={(nextType) => setColumnType(index, nextType)}
+              onSort={(direction) =>
+                setSortColumns(
+                  direction ? [{ columnKey: index.toString(), direction }] : []
+                )
+              }
+            />
+          ),
+          renderCell: ({ row }) => {
+            const raw = String(row[index] ?? "");
+            if (row.id === 0) return raw;
+            if (!isFormula(raw)) {
+              return isValidCell(raw, type) ? (
+                raw
+              ) : (
+                <span title={t(INVALID_CELL_MESSAGES[type])}>{raw}</span>
+              );
+            }
+
+            const value = values[row.id - 1]?.[index] ?? "";
+            return (
+              <span
+                className={cn({
+                  "text-red-600 dark:text-red-400":
+                    value instanceof FormulaError,
+                })}
+                title={raw}
+              >
+                {formatCellValue(value)}
+              </span>
+            );
+          },
+          cellClass: (row) => {
+            const raw = String(row[index] ?? "");
+            const isInvalid = row.id !== 0 && !isValidCell(raw, type);
+
+            return cn("border-t dark:bg-zinc-950 dark:text-zinc-50", {
+              "border-l": index !== 0,
+              "font-semibold bg-muted": row.id === 0,
+              "text-right":
+                row.id !== 0 && (type === "number" || isFormula(raw)),
+              "!bg-red-100 dark:!bg-red-500/20": isInvalid,
+            });
+          },
+          headerCellClass: cn(`border-t dark:bg-zinc-900 dark:text-zinc-50`, {
+            "border-l": index !== 0,
+          }),
+        };
+      }
+    );
 
     return [rowNumberColumn, ...dataColumns];
-  }, []);
+    // setColumnType меняется с каждой версией таблицы вместе с sheet
+    // eslint-disable-next-line react-hooks/exhaustive-deps
+  }, [sheet, values, columnCount, t]);
 
-  const initialRows = useMemo(() => {
-    return parseData.map((row, rowIndex) => {
-      const rowData: any = {
-        id: rowIndex,
-        rowNumber: rowIndex + 1,
-      };
+  const rows = useMemo((): SheetRow[] => {
+    const toRow = (id: number, cells: string[]): SheetRow => {
+      const row: SheetRow = { id };
+      for (let index = 0; index < columnCount; index++) {
+        row[index] = cells[index] ?? "";
+      }
+      return row;
+    };
 
-      columns.slice(1).forEach((col, colIndex) => {
-        rowData[col.key] = row[colIndex] || "";
+    const header = toRow(
+      0,
+      sheet.columns.map((column) => column.name)
+    );
+    let dataRows = sheet.rows.map((cells, index) => toRow(index + 1, cells));
+
+    const query = filter.trim().toLowerCase();
+    if (query) {
+      dataRows = dataRows.filter((row) =>
+        values[row.id - 1]?.some((value) =>
+          formatCellValue(value).toLowerCase().includes(query)
+        )
+      );
+    }
+
+    const [sortColumn] = sortColumns;
+    if (sortColumn) {
+      const index = Number(sortColumn.columnKey);
+      const direction = sortColumn.direction === "ASC" ? 1 : -1;
+      dataRows = [...dataRows].sort((a, b) => {
+        const left = values[a.id - 1]?.[index] ?? "";
+        const right = values[b.id - 1]?.[index] ?? "";
+        // Пустые ячейки и ошибки внизу при любом направлении
+        if (isBlank(left) || isBlank(right)) {
+          return Number(isBlank(left)) - Number(isBlank(right));
+        }
+        return compareValues(left, right) * direction;
       });
+    }
 
-      return rowData;
-    });
-  }, [parseData, columns]);
+    if (query) return [header, ...dataRows];
 
-  const [localRows, setLocalRows] = useState(initialRows);
+    const emptyRows = Array.from(
+      {
+        length: Math.max(MIN_ROWS - sheet.rows.length, EXTRA_ROWS),
+      },
+      (_, index) => toRow(sheet.rows.length + index + 1, [])
+    );
 
-  useEffect(() => {
-    setLocalRows(initialRows);
-  }, [initialRows]);
+    return [header, ...dataRows, ...emptyRows];
+  }, [sheet, values, columnCount, filter, sortColumns]);
 
-  const generateCsv = (data: any[][]) => {
-    return unparse(data);
-  };
+  const handleRowsChange = (
+    newRows: SheetRow[],
+    { indexes }: { indexes: number[] }
+  ) => {
+    const columns = [...sheet.columns];
+    const sheetRows = [...sheet.rows];
 
-  const handleRowsChange = (newRows: any[]) => {
-    setLocalRows(newRows);
+    for (const rowIndex of indexes) {
+      const row = newRows[rowIndex];
+      const cells = Array.from({ length: columnCount }, (_, index) =>
+        String(row[index] ?? "")
+      );
 
-    const updatedData = newRows.map((row) => {
-      return columns.slice(1).map((col) => row[col.key] || "");
-    });
+      if (row.id === 0) {
+        cells.forEach((name, index) => {
+          if (name || columns[index]) {
+            columns[index] = {
+              name,
+              type: columns[index]?.type ?? "text",
+            };
+          }
+        });
+      } else {
+        sheetRows[row.id - 1] = cells;
+      }
+    }
 
-    const newCsvContent = generateCsv(updatedData);
-    saveContent(newCsvContent, true);
+    updateSheet({
+      columns: Array.from(
+        columns,
+        (column) => column ?? { name: "", type: "text" as const }
+      ),
+      rows: Array.from(sheetRows, (cells) => cells ?? []),
+    });
   };
 
   return (
-    <DataGrid
-      className={theme === "dark" ? "rdg-dark" : "rdg-light"}
-      columns={columns}
-      rows={localRows}
-      enableVirtualization
-      onRowsChange={handleRowsChange}
-      onCellClick={(args) => {
-        if (args.column.key !== "rowNumber") {
-          args.selectCell(true);
+    <div className="flex size-full flex-col">
+      <div className="flex items-center gap-2 border-b px-2 py-1.5 dark:border-zinc-700">
+        <Search className="size-4 shrink-0 text-muted-foreground" />
+        <input
+          data-testid="sheet-filter"
+          className="w-full bg-transparent text-sm outline-none placeholder:text-muted-foreground"
+          placeholder={t("Filter rows")}
+          value={filter}
+          onChange={(event) => setFilter(event.target.value)}
+        />
+      </div>
+      <DataGrid
+        className={cn("flex-1", theme === "dark" ? "rdg-dark" : "rdg-light")}
+        columns={columns}
+        rows={rows}
+        rowKeyGetter={(row) => row.id}
+        enableVirtualization
+        onRowsChange={handleRowsChange}
+        sortColumns={sortColumns}
+        onSortColumnsChange={(nextSortColumns) =>
+          setSortColumns(nextSortColumns.slice(-1))
         }
-      }}
-      style={{ height: "100%" }}
-      defaultColumnOptions={{
-        resizable: true,
-        sortable: true,
-      }}
-    />
+        onCellClick={(args) => {
+          if (args.column.key !== "rowNumber") {
+            args.selectCell(true);
+          }
+        }}
+        style={{ height: "100%" }}
+        defaultColumnOptions={{
+          resizable: true,
+          sortable: true,
+        }}
+      />
+    </div>
   );
 };
 
@@ -0,0 +1,385 @@
+// @/app/@left/(_public)/(_CHAT)/(chat)/(_service)/(_components)/sidebar-folders.tsx
+
+"use client";
+
+import { useState } from "react";
+import { useSWRConfig } from "swr";
+import { toast } from "sonner";
+import { Folder, FolderOpen, FolderPlus, Plus, X } from "lucide-react";
+import {
+  DropdownMenu,
+  DropdownMenuContent,
+  DropdownMenuItem,
+  DropdownMenuTrigger,
+} from "@/components/ui/dropdown-menu";
+import {
+  MoreHorizontalIcon,
+  PencilEditIcon,
+  TrashIcon,
+} from "@/components/shared/icons";
+import { cn } from "@/lib/utils";
+import {
+  SidebarGroup,
+  SidebarGroupAction,
+  SidebarGroupContent,
+  SidebarGroupLabel,
+  SidebarInput,
+  SidebarMenu,
+  SidebarMenuAction,
+  SidebarMenuBadge,
+  SidebarMenuButton,
+  SidebarMenuItem,
+} from "./sidebar";
+import type { ChatHistoryFilter } from "../(_db-queries)/chat/queries";
+import type { ChatFolderWithCount } from "../(_db-queries)/folder/queries";
+import {
+  CHAT_FOLDERS_KEY,
+  CHAT_TAGS_KEY,
+  useChatDropTarget,
+  useChatFolders,
+  useChatTags,
+} from "../(_hooks)/use-chat-organization";
+import { useTranslation } from "../(_libs)/translation";
+
+/**
+ * Поле ввода имени папки или тега: Enter сохраняет, Escape и потеря фокуса — отмена.
+ */
+function NameInput({
+  defaultValue = "",
+  placeholder,
+  maxLength,
+  onSubmit,
+  onCancel,
+  className,
+}: {
+  defaultValue?: string;
+  placeholder: string;
+  maxLength: number;
+  onSubmit: (name: string) => void;
+  onCancel: () => void;
+  className?: string;
+}) {
+  return (
+    <SidebarInput
+      autoFocus
+      defaultValue={defaultValue}
+      placeholder={placeholder}
+      maxLength={maxLength}
+      className={className}
+      onBlur={onCancel}
+      onKeyDown={(event) => {
+        if (event.key === "Escape") onCancel();
+        if (event.key !== "Enter") return;
+        event.preventDefault();
+        const name = event.currentTarget.value.trim();
+        if (name) onSubmit(name);
+        else onCancel();
+      }}
+    />
+  );
+}
+
+function FolderItem({
+  folderId,
+  label,
+  icon,
+  count,
+  isActive,
+  onSelect,
+  onRename,
+  onDelete,
+}: {
+  folderId: string | null;
+  label: string;
+  icon: React.ReactNode;
+  count?: number;
+  isActive: boolean;
+  onSelect: () => void;
+  onRename?: () => void;
+  onDelete?: () => void;
+}) {
+  const { t } = useTranslation();
+  // Чат, отпущенный на папке, переносится в неё; на «Все чаты» — убирается из папки
+  const { isOver, setNodeRef } = useChatDropTarget(
+    `folder:${folderId ?? "none"}`,
+    { folderId }
+  );
+
+  return (
+    <SidebarMenuItem ref={setNodeRef}>
+      <SidebarMenuButton
+        data-testid="chat-folder"
+        isActive={isActive}
+        onClick={onSelect}
+        className={cn(isOver && "ring-2 ring-sidebar-ring")}
+      >
+        {icon}
+        <span>{label}</span>
+      </SidebarMenuButton>
+
+      {onRename && onDelete ? (
+        <DropdownMenu modal={true}>
+          <DropdownMenuTrigger asChild>
+            <SidebarMenuAction
+              className="data-[state=open]:bg-sidebar-accent data-[state=open]:text-sidebar-accent-foreground mr-0.5"
+              showOnHover={true}
+            >
+              <MoreHorizontalIcon />
+              <span className="sr-only">{t("More")}</span>
+            </SidebarMenuAction>
+          </DropdownMenuTrigger>
+
+          <DropdownMenuContent side="bottom" align="end">
+            <DropdownMenuItem className="cursor-pointer" onSelect={onRename}>
+              <PencilEditIcon />
+              <span>{t("Rename")}</span>
+            </DropdownMenuItem>
+            <DropdownMenuItem
+              className="cursor-pointer text-destructive focus:bg-destructive/15 focus:text-destructive dark:text-red-500"
+              onSelect={onDelete}
+            >
+              <TrashIcon />
+              <span>{t("Delete folder")}</span>
+            </DropdownMenuItem>
+          </DropdownMenuContent>
+        </DropdownMenu>
+      ) : (
+        count !== undefined && <SidebarMenuBadge>{count}</SidebarMenuBadge>
+      )}
+    </SidebarMenuItem>
+  );
+}
+
+/**
+ * Папки и теги над историей чатов: выбор фильтра, создание, переименование
+ * и удаление. На папку можно перетащить чат из истории.
+ */
+export function SidebarFolders({
+  filter,
+  onFilterChange,
+  onChange,
+}: {
+  filter: ChatHistoryFilter;
+  onFilterChange: (filter: ChatHistoryFilter) => void;
+  // Папка или тег удалены — у чатов изменились папка и теги
+  onChange: () => void;
+}) {
+  const { t } = useTranslation();
+  const { mutate } = useSWRConfig();
+  const { data: folders = [] } = useChatFolders();
+  const { data: tags = [] } = useChatTags();
+
+  const [isCreatingFolder, setIsCreatingFolder] = useState(false);
+  const [renamingFolderId, setRenamingFolderId] = useState<string | null>(null);
+  const [isCreatingTag, setIsCreatingTag] = useState(false);
+
+  const request = async (
+    url: string,
+    init: RequestInit,
+    messages: { conflict?: string; error: string }
+  ) => {
+    const response = await fetch(url, {
+      ...init,
+      headers: { "Content-Type": "application/json" },
+    });
+    if (response.ok) return true;
+
+    toast.error(
+      t(
+        response.status === 409 && messages.conflict
+          ? messages.conflict
+          : messages.error
+      )
+    );
+    return false;
+  };
+
+  const createFolder = async (name: string) => {
+    setIsCreatingFolder(false);
+    const created = await request(
+      CHAT_FOLDERS_KEY,
+      { method: "POST", body: JSON.stringify({ name }) },
+      {
+        conflict: "A folder with this name already exists",
+        error: "Failed to create the folder",
+      }
+    );
+    if (created) mutate(CHAT_FOLDERS_KEY);
+  };
+
+  const renameFolder = async (id: string, name: string) => {
+    setRenamingFolderId(null);
+    const renamed = await request(
+      `${CHAT_FOLDERS_KEY}?id=${id}`,
+      { method: "PATCH", body: JSON.stringify({ name }) },
+      {
+        conflict: "A folder with this name already exists",
+        error: "Failed to rename the folder",
+      }
+    );
+    if (renamed) mutate(CHAT_FOLDERS_KEY);
+  };
+
+  const deleteFolder = async (folder: ChatFolderWithCount) => {
+    const deleted = await request(
+      `${CHAT_FOLDERS_KEY}?id=${folder.id}`,
+      { method: "DELETE" },
+      { error: "Failed to delete the folder" }
+    );
+    if (!deleted) return;
+
+    mutate(CHAT_FOLDERS_KEY);
+    if (filter.folderId === folder.id) {
+      onFilterChange({ ...filter, folderId: null });
+    }
+    onChange();
+    toast.success(t("Folder deleted, its chats were kept"));
+  };
+
+  const createTag = async (name: string) => {
+    setIsCreatingTag(false);
+    const created = await request(
+      CHAT_TAGS_KEY,
+      { method: "POST", body: JSON.stringify({ name }) },
+      {
+        conflict: "A tag with this name already exists",
+        error: "Failed to create the tag",
+      }
+    );
+    if (created) mutate(CHAT_TAGS_KEY);
+  };
+
+  const deleteTag = async (id: string) => {
+    const deleted = await request(
+      `${CHAT_TAGS_KEY}?id=${id}`,
+      { method: "DELETE" },
+      { error: "Failed to delete the tag" }
+    );
+    if (!deleted) return;
+
+    mutate(CHAT_TAGS_KEY);
+    if (filter.tagId === id) {
+      onFilterChange({ ...filter, tagId: null });
+    }
+    onChange();
+  };
+
+  return (
+    <SidebarGroup>
+      <SidebarGroupLabel>{t("Folders")}</SidebarGroupLabel>
+      <SidebarGroupAction
+        data-testid="create-chat-folder"
+        title={t("New folder")}
+        onClick={() => setIsCreatingFolder(true)}
+      >
+        <FolderPlus />
+        <span className="sr-only">{t("New folder")}</span>
+      </SidebarGroupAction>
+
+      <SidebarGroupContent>
+        <SidebarMenu>
+          <FolderItem
+            folderId={null}
+            label={t("All chats")}
+            icon={<FolderOpen />}
+            isActive={!filter.folderId}
+            onSelect={() => onFilterChange({ ...filter, folderId: null })}
+          />
+
+          {folders.map((folder) =>
+            renamingFolderId === folder.id ? (
+              <SidebarMenuItem key={folder.id}>
+                <NameInput
+                  defaultValue={folder.name}
+                  placeholder={t("Folder name")}
+                  maxLength={64}
+                  onSubmit={(name) => renameFolder(folder.id, name)}
+                  onCancel={() => setRenamingFolderId(null)}
+                />
+              </SidebarMenuItem>
+            ) : (
+              <FolderItem
+                key={folder.id}
+                folderId={folder.id}
+                label={folder.name}
+                icon={<Folder />}
+                count={folder.chatCount}
+                isActive={filter.folderId === folder.id}
+                onSelect={() =>
+                  onFilterChange({ ...filter, folderId: folder.id })
+                }
+                onRename={() => setRenamingFolderId(folder.id)}
+                onDelete={() => deleteFolder(folder)}
+              />
+            )
+          )}
+
+          {isCreatingFolder && (
+            <SidebarMenuItem>
+              <NameInput
+                placeholder={t("Folder name")}
+                maxLength={64}
+                onSubmit={createFolder}
+                onCancel={() => setIsCreatingFolder(false)}
+              />
+            </SidebarMenuItem>
+          )}
+        </SidebarMenu>
+
+        <div className="flex flex-wrap items-center gap-1 px-2 pt-2">
+          {tags.map((tag) => (
+            <span
+              key={tag.id}
+              data-testid="chat-tag-filter"
+              className={cn(
+                "group/tag inline-flex h-6 items-center gap-0.5 rounded-full border border-sidebar-border pl-2 pr-1 text-xs",
+                filter.tagId === tag.id &&
+                  "bg-sidebar-accent text-sidebar-accent-foreground"
+              )}
+            >
+              <button
+                type="button"
+                onClick={() =>
+                  onFilterChange({
+                    ...filter,
+                    tagId: filter.tagId === tag.id ? null : tag.id,
+                  })
+                }
+              >
+                #{tag.name}
+              </button>
+              <button
+                type="button"
+                className="rounded-full opacity-0 group-hover/tag:opacity-100 focus-visible:opacity-100"
+                aria-label={t("Delete tag")}
+                onClick={() => deleteTag(tag.id)}
+              >
+                <X className="size-3" />
+              </button>
+            </span>
+          ))}
+
+          {isCreatingTag ? (
+            <NameInput
+              placeholder={t("Tag name")}
+              maxLength={32}
+              className="h-6 w-28 text-xs"
+              onSubmit={createTag}
+              onCancel={() => setIsCreatingTag(false)}
+            />
+          ) : (
+            <button
+              type="button"
+              data-testid="create-chat-tag"
+              className="inline-flex h-6 items-center gap-0.5 rounded-full border border-dashed border-sidebar-border px-2 text-xs text-sidebar-foreground/70"
+              onClick={() => setIsCreatingTag(true)}
+            >
+              <Plus className="size-3" />
+              {t("Tag")}
+            </button>
+          )}
+        </div>
+      </SidebarGroupContent>
+    </SidebarGroup>
+  );
+}
@@ -1,6 +1,6 @@
 // @/app/@left/(_public)/(_CHAT-FRACTAL)/(chat)/(_service)/(_components)/sidebar-history-item.tsx
 
-import { Visibility, type Chat } from "@prisma/client";
+import { Visibility, type ChatTag } from "@prisma/client";
 import {
   SidebarMenuAction,
   SidebarMenuButton,
@@ -9,6 +9,7 @@ import {
 import Link from "next/link";
 import {
   DropdownMenu,
+  DropdownMenuCheckboxItem,
   DropdownMenuContent,
   DropdownMenuItem,
   DropdownMenuPortal,
@@ -26,26 +27,54 @@ import {
   TrashIcon,
 } from "@/components/shared/icons";
 import { memo } from "react";
+import equal from "fast-deep-equal";
+import { Folder, Pin, PinOff, Tag } from "lucide-react";
 import { useChatVisibility } from "@/app/@left/(_public)/(_CHAT)/(chat)/(_service)/(_hooks)/use-chat-visibility";
+import { useDraggable } from "@dnd-kit/core";
+import type { ChatOrganization } from "@/app/@left/(_public)/(_CHAT)/(chat)/(_service)/(_hooks)/use-chat-organization";
+import type { HistoryChat } from "../(_db-queries)/chat/queries";
+import type { ChatFolderWithCount } from "../(_db-queries)/folder/queries";
+import { useTranslation } from "../(_libs)/translation";
 
 const PureChatItem = ({
   chat,
   isActive,
   onDelete,
+  onOrganize,
+  folders,
+  tags,
   setOpenMobile,
 }: {
-  chat: Chat;
+  chat: HistoryChat;
   isActive: boolean;
   onDelete: (chatId: string) => void;
+  onOrganize: (chatId: string, organization: ChatOrganization) => void;
+  folders: Array<ChatFolderWithCount>;
+  tags: Array<ChatTag>;
   setOpenMobile: (open: boolean) => void;
 }) => {
+  const { t } = useTranslation();
+  // Чат перетаскивается на папки и в «Закреплённые» (DndContext в SidebarHistory)
+  const { setNodeRef, attributes, listeners, transform, isDragging } =
+    useDraggable({ id: chat.id, data: { chat } });
   const { visibilityType, setVisibilityType } = useChatVisibility({
     chatId: chat.id,
     initialVisibilityType: Visibility.private,
   });
 
   return (
-    <SidebarMenuItem>
+    <SidebarMenuItem
+      ref={setNodeRef}
+      style={{
+        transform: transform
+          ? `translate3d(${transform.x}px, ${transform.y}px, 0)`
+          : undefined,
+        opacity: isDragging ? 0.6 : 1,
+        zIndex: isDragging ? 20 : undefined,
+      }}
+      {...attributes}
+      {...listeners}
+    >
       <SidebarMenuButton asChild isActive={isActive}>
         <Link href={`/chat/${chat.id}`} onClick={() => setOpenMobile(false)}>
           <span>{chat.title}</span>
@@ -64,6 +93,79 @@ const PureChatItem = ({
         </DropdownMenuTrigger>
 
         <DropdownMenuContent side="bottom" align="end">
+          <DropdownMenuItem
+            className="cursor-pointer"
+            onSelect={() => onOrganize(chat.id, { pinned: !chat.pinnedAt })}
+          >
+            {chat.pinnedAt ? <PinOff /> : <Pin />}
+            <span>{chat.pinnedAt ? t("Unpin") : t("Pin")}</span>
+          </DropdownMenuItem>
+
+          <DropdownMenuSub>
+            <DropdownMenuSubTrigger className="cursor-pointer">
+              <Folder />
+              <span>{t("Move to folder")}</span>
+            </DropdownMenuSubTrigger>
+            <DropdownMenuPortal>
+              <DropdownMenuSubContent>
+                <DropdownMenuCheckboxItem
+                  className="cursor-pointer"
+                  checked={!chat.folderId}
+                  onSelect={() => onOrganize(chat.id, { folderId: null })}
+                >
+                  {t("No folder")}
+                </DropdownMenuCheckboxItem>
+                {folders.map((folder) => (
+                  <DropdownMenuCheckboxItem
+                    key={folder.id}
+                    className="cursor-pointer"
+                    checked={chat.folderId === folder.id}
+                    onSelect={() =>
+                      onOrganize(chat.id, { folderId: folder.id })
+                    }
+                  >
+                    {folder.name}
+                  </DropdownMenuCheckboxItem>
+                ))}
+              </DropdownMenuSubContent>
+            </DropdownMenuPortal>
+          </DropdownMenuSub>
+
+          <DropdownMenuSub>
+            <DropdownMenuSubTrigger className="cursor-pointer">
+              <Tag />
+              <span>{t("Tags")}</span>
+            </DropdownMenuSubTrigger>
+            <DropdownMenuPortal>
+              <DropdownMenuSubContent>
+                {tags.length === 0 ? (
+                  <DropdownMenuItem disabled>
+                    {t("Create tags above the chat list")}
+                  </DropdownMenuItem>
+                ) : (
+                  tags.map((tag) => (
+                    <DropdownMenuCheckboxItem
+                      key={tag.id}
+                      className="cursor-pointer"
+                      checked={chat.tagIds.includes(tag.id)}
+                      // Меню остаётся открытым, чтобы отметить несколько тегов
+                      onSelect={(event) => event.preventDefault()}
+                      onCheckedChange={(checked) =>
+                        onOrganize(chat.id, {
+                          tagIds: checked
+                            ? [...chat.tagIds, tag.id]
+                            : chat.tagIds.filter((id) => id !== tag.id),
+                        })
+                      }
+                    >
+                      #{tag.name}
+                    </DropdownMenuCheckboxItem>
+                  ))
+                )}
+              </DropdownMenuSubContent>
+            </DropdownMenuPortal>
+          </DropdownMenuSub>
+
           <DropdownMenuSub>
             <DropdownMenuSubTrigger className="cursor-pointer">
               <ShareIcon />
@@ -85,6 +187,20 @@ const PureChatItem = ({
                     <CheckCircleFillIcon />
                   ) : null}
                 </DropdownMenuItem>
+                <DropdownMenuItem
+                  className="cursor-pointer flex-row justify-between"
+                  onClick={() => {
+                    setVisibilityType("unlisted");
+                  }}
+                >
+                  <div className="flex flex-row gap-2 items-center">
+                    <ShareIcon size={12} />
+                    <span>Unlisted</span>
+                  </div>
+                  {visibilityType === "unlisted" ? (
+                    <CheckCircleFillIcon />
+                  ) : null}
+                </DropdownMenuItem>
                 <DropdownMenuItem
                   className="cursor-pointer flex-row justify-between"
                   onClick={() => {
@@ -116,5 +232,9 @@ const PureChatItem = ({
 
 export const ChatItem = memo(PureChatItem, (prevProps, nextProps) => {
   if (prevProps.isActive !== nextProps.isActive) return false;
+  if (!equal(prevProps.chat, nextProps.chat)) return false;
+  if (prevProps.onOrganize !== nextProps.onOrganize) return false;
+  if (!equal(prevProps.folders, nextProps.folders)) return false;
+  if (!equal(prevProps.tags, nextProps.tags)) return false;
   return true;
 });
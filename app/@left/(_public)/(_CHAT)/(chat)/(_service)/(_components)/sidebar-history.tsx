@@ -5,7 +5,15 @@
 import { isToday, isYesterday, subMonths, subWeeks } from "date-fns";
 import { useParams, useRouter } from "next/navigation";
 import type { User } from "next-auth";
-import { useState } from "react";
+import { useCallback, useState } from "react";
+import {
+  DndContext,
+  PointerSensor,
+  pointerWithin,
+  useSensor,
+  useSensors,
+  type DragEndEvent,
+} from "@dnd-kit/core";
 import { toast } from "sonner";
 import { motion } from "framer-motion";
 import {
@@ -24,29 +32,41 @@ import {
   SidebarMenu,
   useSidebar,
 } from "./sidebar";
-import { fetcher } from "@/lib/utils";
+import { cn, fetcher } from "@/lib/utils";
 import { ChatItem } from "./sidebar-history-item";
+import { SidebarFolders } from "./sidebar-folders";
+import useSWR from "swr";
 import useSWRInfinite from "swr/infinite";
 import { LoaderIcon } from "../../../../../../../components/shared/icons";
-import { Chat } from "@prisma/client";
+import type {
+  ChatHistoryFilter,
+  HistoryChat,
+} from "../(_db-queries)/chat/queries";
+import {
+  organizeChat,
+  useChatDropTarget,
+  useChatFolders,
+  useChatTags,
+  type ChatOrganization,
+} from "../(_hooks)/use-chat-organization";
 import { useTranslation } from "../(_libs)/translation";
 
 type GroupedChats = {
-  today: Chat[];
-  yesterday: Chat[];
-  lastWeek: Chat[];
-  lastMonth: Chat[];
-  older: Chat[];
+  today: HistoryChat[];
+  yesterday: HistoryChat[];
+  lastWeek: HistoryChat[];
+  lastMonth: HistoryChat[];
+  older: HistoryChat[];
 };
 
 export interface ChatHistory {
-  chats: Array<Chat>;
+  chats: Array<HistoryChat>;
   hasMore: boolean;
 }
 
 const PAGE_SIZE = 20;
 
-const groupChatsByDate = (chats: Chat[]): GroupedChats => {
+const groupChatsByDate = (chats: HistoryChat[]): GroupedChats => {
   const now = new Date();
   const oneWeekAgo = subWeeks(now, 1);
   const oneMonthAgo = subMonths(now, 1);
@@ -79,36 +99,62 @@ const groupChatsByDate = (chats: Chat[]): GroupedChats => {
   );
 };
 
+// Параметры фильтра по папке и тегу для /api/history
+function getHistoryFilterParams({ folderId, tagId }: ChatHistoryFilter) {
+  return `${folderId ? `&folder_id=${folderId}` : ""}${
+    tagId ? `&tag_id=${tagId}` : ""
+  }`;
+}
+
 export function getChatHistoryPaginationKey(
   pageIndex: number,
-  previousPageData: ChatHistory
+  previousPageData: ChatHistory,
+  filter: ChatHistoryFilter = {}
 ) {
   if (previousPageData && previousPageData.hasMore === false) {
     return null;
   }
 
-  if (pageIndex === 0) return `/api/history?limit=${PAGE_SIZE}`;
+  const filterParams = getHistoryFilterParams(filter);
+
+  if (pageIndex === 0) return `/api/history?limit=${PAGE_SIZE}${filterParams}`;
 
   const firstChatFromPage = previousPageData.chats.at(-1);
 
   if (!firstChatFromPage) return null;
 
-  return `/api/history?ending_before=${firstChatFromPage.id}&limit=${PAGE_SIZE}`;
+  return `/api/history?ending_before=${firstChatFromPage.id}&limit=${PAGE_SIZE}${filterParams}`;
 }
 
 export function SidebarHistory({ user }: { user: User | undefined }) {
   const { setOpenMobile } = useSidebar();
   const { id } = useParams();
   const { t } = useTranslation();
+  const [filter, setFilter] = useState<ChatHistoryFilter>({});
   const {
     data: paginatedChatHistories,
     setSize,
     isValidating,
     isLoading,
     mutate,
-  } = useSWRInfinite<ChatHistory>(getChatHistoryPaginationKey, fetcher, {
-    fallbackData: [],
-  });
+  } = useSWRInfinite<ChatHistory>(
+    user
+      ? (pageIndex, previousPageData) =>
+          getChatHistoryPaginationKey(pageIndex, previousPageData, filter)
+      : () => null,
+    fetcher,
+    {
+      fallbackData: [],
+    }
+  );
+  const { data: pinnedChats = [], mutate: mutatePinned } = useSWR<
+    Array<HistoryChat>
+  >(
+    user ? `/api/history?pinned=true${getHistoryFilterParams(filter)}` : null,
+    fetcher
+  );
+  const { data: folders = [], mutate: mutateFolders } = useChatFolders(!!user);
+  const { data: tags = [] } = useChatTags(!!user);
 
   const router = useRouter();
   const [deleteId, setDeleteId] = useState<string | null>(null);
@@ -118,9 +164,76 @@ export function SidebarHistory({ user }: { user: User | undefined }) {
     ? paginatedChatHistories.some((page) => page.hasMore === false)
     : false;
 
-  const hasEmptyChatHistory = paginatedChatHistories
-    ? paginatedChatHistories.every((page) => page.chats.length === 0)
-    : false;
+  const hasEmptyChatHistory =
+    pinnedChats.length === 0 &&
+    (paginatedChatHistories
+      ? paginatedChatHistories.every((page) => page.chats.length === 0)
+      : false);
+
+  const isFiltered = !!filter.folderId || !!filter.tagId;
+
+  const refreshHistory = useCallback(() => {
+    mutate();
+    mutatePinned();
+  }, [mutate, mutatePinned]);
+
+  const handleOrganize = useCallback(
+    (chatId: string, organization: ChatOrganization) => {
+      toast.promise(organizeChat(chatId, organization), {
+        success: () => {
+          refreshHistory();
+          if (organization.folderId !== undefined) mutateFolders();
+          return t("Chat updated");
+        },
+        error: t("Failed to update the chat"),
+      });
+    },
+    [refreshHistory, mutateFolders, t]
+  );
+
+  // Перетаскивание в «Закреплённые» закрепляет чат, обратно в историю — открепляет
+  const pinnedDropTarget = useChatDropTarget("pinned", { pinned: true });
+  const historyDropTarget = useChatDropTarget("history", { pinned: false });
+
+  // Небольшой порог, чтобы клик по чату не начинал перетаскивание
+  const sensors = useSensors(
+    useSensor(PointerSensor, { activationConstraint: { distance: 8 } })
+  );
+
+  const handleDragEnd = ({ active, over }: DragEndEvent) => {
+    const chat: HistoryChat | undefined = active.data.current?.chat;
+    const organization: ChatOrganization | undefined =
+      over?.data.current?.organization;
+    if (!chat || !organization) return;
+
+    // Отпускание туда, где чат уже находится, ничего не меняет
+    if (
+      (organization.pinned !== undefined &&
+        organization.pinned === !!chat.pinnedAt) ||
+      (organization.folderId !== undefined &&
+        organization.folderId === chat.folderId)
+    ) {
+      return;
+    }
+
+    handleOrganize(chat.id, organization);
+  };
+
+  const renderChatItem = (chat: HistoryChat) => (
+    <ChatItem
+      key={chat.id}
+      chat={chat}
+      isActive={chat.id === id}
+      onDelete={(chatId) => {
+        setDeleteId(chatId);
+        setShowDeleteDialog(true);
+      }}
+      onOrganize={handleOrganize}
+      folders={folders}
+      tags={tags}
+      setOpenMobile={setOpenMobile}
+    />
+  );
 
   const handleDelete = async () => {
     const deletePromise = fetch(`/api/chat?id=${deleteId}`, {
@@ -138,6 +251,10 @@ export function SidebarHistory({ user }: { user: User | undefined }) {
             }));
           }
         });
+        mutatePinned((chats) => chats?.filter((chat) => chat.id !== deleteId), {
+          revalidate: false,
+        });
+        mutateFolders();
 
         return "Chat deleted successfully";
       },
@@ -163,50 +280,98 @@ export function SidebarHistory({ user }: { user: User | undefined }) {
     );
   }
 
+  const folderFilters = (
+    <SidebarFolders
+      filter={filter}
+      onFilterChange={setFilter}
+      onChange={refreshHistory}
+    />
+  );
+
   if (isLoading) {
     return (
-      <SidebarGroup>
-        <div className="px-2 py-1 text-xs text-sidebar-foreground/50">
-          {t("Today")}
-        </div>
-        <SidebarGroupContent>
-          <div className="flex flex-col">
-            {[44, 32, 28, 64, 52].map((item) => (
-              <div
-                key={item}
-                className="rounded-md h-8 flex gap-2 px-2 items-center"
-              >
-                <div
-                  className="h-4 rounded-md flex-1 max-w-[--skeleton-width] bg-sidebar-accent-foreground/10"
-                  style={
-                    {
-                      "--skeleton-width": `${item}%`,
-                    } as React.CSSProperties
-                  }
-                />
-              </div>
-            ))}
+      <>
+        {folderFilters}
+        <SidebarGroup>
+          <div className="px-2 py-1 text-xs text-sidebar-foreground/50">
+            {t("Today")}
           </div>
-        </SidebarGroupContent>
-      </SidebarGroup>
+          <SidebarGroupContent>
+            <div className="flex flex-col">
+              {[44, 32, 28, 64, 52].map((item) => (
+                <div
+                  key={item}
+                  className="rounded-md h-8 flex gap-2 px-2 items-center"
+                >
+                  <div
+                    className="h-4 rounded-md flex-1 max-w-[--skeleton-width] bg-sidebar-accent-foreground/10"
+                    style={
+                      {
+                        "--skeleton-width": `${item}%`,
+                      } as React.CSSProperties
+                    }
+                  />
+                </div>
+              ))}
+            </div>
+          </SidebarGroupContent>
+        </SidebarGroup>
+      </>
     );
   }
 
   if (hasEmptyChatHistory) {
     return (
-      <SidebarGroup>
-        <SidebarGroupContent>
-          <div className="px-2 text-zinc-500 w-full flex flex-row justify-center items-center text-sm gap-2">
-            {t("Your conversations will appear here once you start chatting!")}
-          </div>
-        </SidebarGroupContent>
-      </SidebarGroup>
+      <>
+        {folderFilters}
+        <SidebarGroup>
+          <SidebarGroupContent>
+            <div className="px-2 text-zinc-500 w-full flex flex-row justify-center items-center text-sm gap-2">
+              {isFiltered
+                ? t("No chats match the selected folder or tag")
+                : t(
+                    "Your conversations will appear here once you start chatting!"
+                  )}
+            </div>
+          </SidebarGroupContent>
+        </SidebarGroup>
+      </>
     );
   }
 
   return (
-    <>
-      <SidebarGroup>
+    <DndContext
+      sensors={sensors}
+      collisionDetection={pointerWithin}
+      onDragEnd={handleDragEnd}
+    >
+      {folderFilters}
+
+      {pinnedChats.length > 0 && (
+        <SidebarGroup
+          data-testid="pinned-chats"
+          ref={pinnedDropTarget.setNodeRef}
+          className={cn(
+            pinnedDropTarget.isOver && "rounded-md ring-2 ring-sidebar-ring"
+          )}
+        >
+          <SidebarGroupContent>
+            <SidebarMenu>
+              <div className="px-2 py-1 text-xs text-sidebar-foreground/50">
+                {t("Pinned")}
+              </div>
+              {pinnedChats.map(renderChatItem)}
+            </SidebarMenu>
+          </SidebarGroupContent>
+        </SidebarGroup>
+      )}
+
+      <SidebarGroup
+        ref={historyDropTarget.setNodeRef}
+        className={cn(
+          historyDropTarget.isOver && "rounded-md ring-2 ring-sidebar-ring"
+        )}
+      >
         <SidebarGroupContent>
           <SidebarMenu>
             {paginatedChatHistories &&
@@ -224,18 +389,7 @@ export function SidebarHistory({ user }: { user: User | undefined }) {
                         <div className="px-2 py-1 text-xs text-sidebar-foreground/50">
                           {t("Today")}
                         </div>
-                        {groupedChats.today.map((chat) => (
-                          <ChatItem
-                            key={chat.id}
-                            chat={chat}
-                            isActive={chat.id === id}
-                            onDelete={(chatId) => {
-                              setDeleteId(chatId);
-                              setShowDeleteDialog(true);
-                            }}
-                            setOpenMobile={setOpenMobile}
-                          />
-                        ))}
+                        {groupedChats.today.map(renderChatItem)}
                       </div>
                     )}
 
@@ -244,18 +398,7 @@ export function SidebarHistory({ user }: { user: User | undefined }) {
                         <div className="px-2 py-1 text-xs text-sidebar-foreground/50">
                           {t("Yesterday")}
                         </div>
-                        {groupedChats.yesterday.map((chat) => (
-                          <ChatItem
-                            key={chat.id}
-                            chat={chat}
-                            isActive={chat.id === id}
-                            onDelete={(chatId) => {
-                              setDeleteId(chatId);
-                              setShowDeleteDialog(true);
-                            }}
-                            setOpenMobile={setOpenMobile}
-                          />
-                        ))}
+                        {groupedChats.yesterday.map(renderChatItem)}
                       </div>
                     )}
 
@@ -264,18 +407,7 @@ export function SidebarHistory({ user }: { user: User | undefined }) {
                         <div className="px-2 py-1 text-xs text-sidebar-foreground/50">
                           {t("Last 7 days")}
                         </div>
-                        {groupedChats.lastWeek.map((chat) => (
-                          <ChatItem
-                            key={chat.id}
-                            chat={chat}
-                            isActive={chat.id === id}
-                            onDelete={(chatId) => {
-                              setDeleteId(chatId);
-                              setShowDeleteDialog(true);
-                            }}
-                            setOpenMobile={setOpenMobile}
-                          />
-                        ))}
+                        {groupedChats.lastWeek.map(renderChatItem)}
                       </div>
                     )}
 
@@ -284,18 +416,7 @@ export function SidebarHistory({ user }: { user: User | undefined }) {
                         <div className="px-2 py-1 text-xs text-sidebar-foreground/50">
                           {t("Last 30 days")}
                         </div>
-                        {groupedChats.lastMonth.map((chat) => (
-                          <ChatItem
-                            key={chat.id}
-                            chat={chat}
-                            isActive={chat.id === id}
-                            onDelete={(chatId) => {
-                              setDeleteId(chatId);
-                              setShowDeleteDialog(true);
-                            }}
-                            setOpenMobile={setOpenMobile}
-                          />
-                        ))}
+                        {groupedChats.lastMonth.map(renderChatItem)}
                       </div>
                     )}
 
@@ -304,18 +425,7 @@ export function SidebarHistory({ user }: { user: User | undefined }) {
                         <div className="px-2 py-1 text-xs text-sidebar-foreground/50">
                           {t("Older than last month")}
                         </div>
-                        {groupedChats.older.map((chat) => (
-                          <ChatItem
-                            key={chat.id}
-                            chat={chat}
-                            isActive={chat.id === id}
-                            onDelete={(chatId) => {
-                              setDeleteId(chatId);
-                              setShowDeleteDialog(true);
-                            }}
-                            setOpenMobile={setOpenMobile}
-                          />
-                        ))}
+                        {groupedChats.older.map(renderChatItem)}
                       </div>
                     )}
                   </div>
@@ -364,6 +474,6 @@ export function SidebarHistory({ user }: { user: User | undefined }) {
           </AlertDialogFooter>
         </AlertDialogContent>
       </AlertDialog>
-    </>
+    </DndContext>
   );
 }
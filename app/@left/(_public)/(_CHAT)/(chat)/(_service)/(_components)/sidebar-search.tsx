@@ -0,0 +1,159 @@
+// @/app/@left/(_public)/(_CHAT)/(chat)/(_service)/(_components)/sidebar-search.tsx
+
+"use client";
+
+import type { ReactNode } from "react";
+import { useState } from "react";
+import Link from "next/link";
+import { useParams } from "next/navigation";
+import type { User } from "next-auth";
+import useSWR from "swr";
+import { useDebounceValue } from "usehooks-ts";
+import { fetcher } from "@/lib/utils";
+import {
+  SidebarGroup,
+  SidebarGroupContent,
+  SidebarInput,
+  SidebarMenu,
+  SidebarMenuButton,
+  SidebarMenuItem,
+  useSidebar,
+} from "./sidebar";
+import type { ChatSearchResult } from "../(_db-queries)/chat/queries";
+import {
+  SEARCH_QUERY_MAX_LENGTH,
+  SEARCH_QUERY_MIN_LENGTH,
+  splitSearchSnippet,
+} from "../(_libs)/chat-search";
+import { useTranslation } from "../(_libs)/translation";
+
+const SEARCH_DEBOUNCE_MS = 300;
+
+function HighlightedSnippet({ snippet }: { snippet: string }) {
+  return (
+    <>
+      {splitSearchSnippet(snippet).map((segment, index) =>
+        segment.highlighted ? (
+          <mark
+            key={index}
+            className="rounded-sm bg-yellow-200 text-inherit dark:bg-yellow-500/40"
+          >
+            {segment.text}
+          </mark>
+        ) : (
+          <span key={index}>{segment.text}</span>
+        )
+      )}
+    </>
+  );
+}
+
+function SearchResultItem({
+  result,
+  isActive,
+  setOpenMobile,
+}: {
+  result: ChatSearchResult;
+  isActive: boolean;
+  setOpenMobile: (open: boolean) => void;
+}) {
+  // Чат открывается на найденном сообщении (см. ?message= в chat/[id])
+  const href = result.messageId
+    ? `/chat/${result.id}?message=${result.messageId}`
+    : `/chat/${result.id}`;
+
+  return (
+    <SidebarMenuItem data-testid="chat-search-result">
+      <SidebarMenuButton
+        asChild
+        isActive={isActive}
+        className="h-auto flex-col items-start gap-0.5 py-1.5"
+      >
+        <Link href={href} onClick={() => setOpenMobile(false)}>
+          <span className="w-full truncate">
+            <HighlightedSnippet snippet={result.titleSnippet} />
+          </span>
+          {result.snippet && (
+            <span className="line-clamp-2 text-xs text-sidebar-foreground/60">
+              <HighlightedSnippet snippet={result.snippet} />
+            </span>
+          )}
+        </Link>
+      </SidebarMenuButton>
+    </SidebarMenuItem>
+  );
+}
+
+/**
+ * Поиск по истории чатов: заголовки и текст сообщений (полнотекстовый поиск
+ * Postgres). Пока запрос пуст, показывает обычную историю (children).
+ */
+export function SidebarSearch({
+  user,
+  children,
+}: {
+  user: User | undefined;
+  children: ReactNode;
+}) {
+  const { t } = useTranslation();
+  const { setOpenMobile } = useSidebar();
+  const { id } = useParams();
+  const [input, setInput] = useState("");
+  const [query] = useDebounceValue(input.trim(), SEARCH_DEBOUNCE_MS);
+
+  const isSearching = !!user && query.length >= SEARCH_QUERY_MIN_LENGTH;
+  const { data: results, isLoading } = useSWR<Array<ChatSearchResult>>(
+    isSearching ? `/api/history/search?q=${encodeURIComponent(query)}` : null,
+    fetcher,
+    { keepPreviousData: true }
+  );
+
+  if (!user) return children;
+
+  return (
+    <>
+      <SidebarGroup className="pb-0">
+        <SidebarInput
+          data-testid="chat-search-input"
+          type="search"
+          value={input}
+          maxLength={SEARCH_QUERY_MAX_LENGTH}
+          placeholder={t("Search chats")}
+          onChange={(event) => setInput(event.target.value)}
+          onKeyDown={(event) => {
+            if (event.key === "Escape") setInput("");
+          }}
+        />
+      </SidebarGroup>
+
+      {isSearching ? (
+        <SidebarGroup>
+          <SidebarGroupContent>
+            {isLoading && !results ? (
+              <div className="px-2 text-sm text-zinc-500">
+                {t("Searching...")}
+              </div>
+            ) : results && results.length > 0 ? (
+              <SidebarMenu>
+                {results.map((result) => (
+                  <SearchResultItem
+                    key={result.id}
+                    result={result}
+                    isActive={result.id === id}
+                    setOpenMobile={setOpenMobile}
+                  />
+                ))}
+              </SidebarMenu>
+            ) : (
+              <div className="px-2 text-sm text-zinc-500">
+                {t("No chats found")}
+              </div>
+            )}
+          </SidebarGroupContent>
+        </SidebarGroup>
+      ) : (
+        children
+      )}
+    </>
+  );
+}
@@ -7,6 +7,9 @@ import Image from "next/image";
 import type { User } from "next-auth";
 import { signOut, useSession } from "next-auth/react";
 import { useTheme } from "next-themes";
+import { useRef, useState } from "react";
+import { useSWRConfig } from "swr";
+import { unstable_serialize } from "swr/infinite";
 
 import {
   DropdownMenu,
@@ -18,6 +21,8 @@ import {
 import { SidebarMenu, SidebarMenuButton, SidebarMenuItem } from "./sidebar";
 import { useRouter } from "next/navigation";
 import { toast } from "./toast";
+import { getChatHistoryPaginationKey } from "./sidebar-history";
+import { MemoryDialog } from "./memory-dialog";
 import { LoaderIcon } from "../../../../../../../components/shared/icons";
 import { useTranslation } from "../(_libs)/translation";
 
@@ -26,12 +31,77 @@ export function SidebarUserNav({ user }: { user: User }) {
   const { t } = useTranslation();
   const { data, status } = useSession();
   const { setTheme, theme } = useTheme();
+  const { mutate } = useSWRConfig();
+  const importInputRef = useRef<HTMLInputElement>(null);
+  const [isMemoryOpen, setIsMemoryOpen] = useState(false);
 
   //const isGuest = guestRegex.test(data?.user?.email ?? "");
   const isGuest = data?.user.type === "guest";
+  const isSubscribed =
+    data?.user.type === "subscriber" || data?.user.type === "customer";
+  const canUpgrade = data?.user.type === "authUser";
+
+  // Both billing routes answer with a Stripe-hosted URL
+  const openBilling = async (path: string, body?: object) => {
+    try {
+      const response = await fetch(path, {
+        method: "POST",
+        headers: { "Content-Type": "application/json" },
+        body: body ? JSON.stringify(body) : undefined,
+      });
+      const result = await response.json();
+
+      if (!response.ok || !result.url) {
+        throw new Error(result.error);
+      }
+
+      window.location.href = result.url;
+    } catch {
+      toast({
+        type: "error",
+        description: t("Could not open billing, please try again!"),
+      });
+    }
+  };
+
+  // JSON-выгрузка чата (Export → JSON) импортируется как новый чат
+  const importChat = async (file: File) => {
+    try {
+      const response = await fetch("/api/chat/import", {
+        method: "POST",
+        headers: { "Content-Type": "application/json" },
+        body: await file.text(),
+      });
+      if (!response.ok) throw new Error(await response.text());
+
+      const { id } = await response.json();
+      mutate(unstable_serialize(getChatHistoryPaginationKey));
+      router.push(`/chat/${id}`);
+      toast({ type: "success", description: t("Chat imported") });
+    } catch (error) {
+      console.error("Failed to import chat:", error);
+      toast({
+        type: "error",
+        description: t("Could not import the chat, check the file"),
+      });
+    }
+  };
+
   return (
     <SidebarMenu>
       <SidebarMenuItem>
+        <input
+          ref={importInputRef}
+          data-testid="import-chat-input"
+          type="file"
+          accept="application/json,.json"
+          className="hidden"
+          onChange={(event) => {
+            const file = event.target.files?.[0];
+            event.target.value = "";
+            if (file) importChat(file);
+          }}
+        />
         <DropdownMenu>
           <DropdownMenuTrigger asChild>
             {status === "loading" ? (
@@ -70,6 +140,53 @@ export function SidebarUserNav({ user }: { user: User }) {
             side="top"
             className="w-[--radix-popper-anchor-width]"
           >
+            {isSubscribed && (
+              <DropdownMenuItem
+                data-testid="user-nav-item-billing-portal"
+                className="cursor-pointer"
+                onSelect={() => openBilling("/api/billing/portal")}
+              >
+                {t("Manage subscription")}
+              </DropdownMenuItem>
+            )}
+            {canUpgrade && (
+              <DropdownMenuItem
+                data-testid="user-nav-item-upgrade"
+                className="cursor-pointer"
+                onSelect={() =>
+                  openBilling("/api/billing/checkout", { planId: "pro" })
+                }
+              >
+                {t("Upgrade to Pro")}
+              </DropdownMenuItem>
+            )}
+            {(isSubscribed || canUpgrade) && <DropdownMenuSeparator />}
+            {!isGuest && (
+              <DropdownMenuItem
+                data-testid="user-nav-item-memory"
+                className="cursor-pointer"
+                onSelect={() => setIsMemoryOpen(true)}
+              >
+                {t("Memory")}
+              </DropdownMenuItem>
+            )}
+            <DropdownMenuItem
+              asChild
+              data-testid="user-nav-item-export-all"
+              className="cursor-pointer"
+            >
+              <a href="/api/chat/export/all" download>
+                {t("Export all chats")}
+              </a>
+            </DropdownMenuItem>
+            <DropdownMenuItem
+              data-testid="user-nav-item-import"
+              className="cursor-pointer"
+              onSelect={() => importInputRef.current?.click()}
+            >
+              {t("Import chat")}
+            </DropdownMenuItem>
+            <DropdownMenuSeparator />
             <DropdownMenuItem asChild data-testid="user-nav-item-auth">
               <button
                 type="button"
@@ -102,6 +219,9 @@ export function SidebarUserNav({ user }: { user: User }) {
             </DropdownMenuItem>
           </DropdownMenuContent>
         </DropdownMenu>
+        {!isGuest && (
+          <MemoryDialog open={isMemoryOpen} onOpenChange={setIsMemoryOpen} />
+        )}
       </SidebarMenuItem>
     </SidebarMenu>
   );
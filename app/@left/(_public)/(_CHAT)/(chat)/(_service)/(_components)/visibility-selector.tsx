@@ -15,10 +15,11 @@ import {
   ChevronDownIcon,
   GlobeIcon,
   LockIcon,
+  ShareIcon,
 } from "@/components/shared/icons";
 import { useChatVisibility } from "@/app/@left/(_public)/(_CHAT)/(chat)/(_service)/(_hooks)/use-chat-visibility";
 
-export type VisibilityType = "private" | "public";
+export type VisibilityType = "private" | "unlisted" | "public";
 
 const visibilities: Array<{
   id: VisibilityType;
@@ -32,6 +33,12 @@ const visibilities: Array<{
     description: "Only you can access this chat",
     icon: <LockIcon />,
   },
+  {
+    id: "unlisted",
+    label: "Unlisted",
+    description: "Only people with a share link can view this chat",
+    icon: <ShareIcon />,
+  },
   {
     id: "public",
     label: "Public",
@@ -0,0 +1,129 @@
+// @/app/@left/(_public)/(_CHAT)/(chat)/(_service)/(_db-queries)/assistant/queries.ts
+
+import { prisma } from "@/lib/db";
+import type { Assistant, UserType } from "@prisma/client";
+
+export type AssistantInput = Pick<
+  Assistant,
+  | "slug"
+  | "name"
+  | "icon"
+  | "description"
+  | "systemPrompt"
+  | "tools"
+  | "modelId"
+  | "knowledgePageIds"
+  | "userTypes"
+  | "enabled"
+  | "position"
+>;
+
+/**
+ * Получает ассистентов в порядке position.
+ * @param userType - Только включённые ассистенты, доступные этой роли.
+ * @returns Массив ассистентов.
+ */
+export async function getAssistants({
+  userType,
+}: {
+  userType?: UserType;
+} = {}): Promise<Assistant[]> {
+  console.log("Executing getAssistants query for user type:", userType);
+  try {
+    return await prisma.assistant.findMany({
+      where: userType
+        ? { enabled: true, userTypes: { has: userType } }
+        : undefined,
+      orderBy: [{ position: "asc" }, { createdAt: "asc" }],
+    });
+  } catch (error) {
+    console.error("Failed to get assistants from database", error);
+    throw error;
+  }
+}
+
+/**
+ * Получает ассистента по идентификатору.
+ * @param id - Идентификатор ассистента.
+ * @returns Ассистент или null, если не найден.
+ */
+export async function getAssistantById(id: string): Promise<Assistant | null> {
+  console.log("Executing getAssistantById query for id:", id);
+  try {
+    return await prisma.assistant.findUnique({ where: { id } });
+  } catch (error) {
+    console.error("Failed to get assistant by id from database", error);
+    throw error;
+  }
+}
+
+/**
+ * Получает ассистента по slug.
+ * @param slug - Стабильный идентификатор ассистента.
+ * @returns Ассистент или null, если не найден.
+ */
+export async function getAssistantBySlug(
+  slug: string
+): Promise<Assistant | null> {
+  console.log("Executing getAssistantBySlug query for slug:", slug);
+  try {
+    return await prisma.assistant.findUnique({ where: { slug } });
+  } catch (error) {
+    console.error("Failed to get assistant by slug from database", error);
+    throw error;
+  }
+}
+
+/**
+ * Создаёт ассистента.
+ * @param data - Поля ассистента.
+ * @returns Созданный ассистент.
+ */
+export async function createAssistant(
+  data: AssistantInput
+): Promise<Assistant> {
+  console.log("Executing createAssistant query for slug:", data.slug);
+  try {
+    return await prisma.assistant.create({ data });
+  } catch (error) {
+    console.error("Failed to create assistant in database", error);
+    throw error;
+  }
+}
+
+/**
+ * Изменяет ассистента.
+ * @param id - Идентификатор ассистента.
+ * @param data - Изменяемые поля.
+ * @returns Обновлённый ассистент.
+ */
+export async function updateAssistant({
+  id,
+  data,
+}: {
+  id: string;
+  data: Partial<AssistantInput>;
+}): Promise<Assistant> {
+  console.log("Executing updateAssistant query for id:", id);
+  try {
+    return await prisma.assistant.update({ where: { id }, data });
+  } catch (error) {
+    console.error("Failed to update assistant in database", error);
+    throw error;
+  }
+}
+
+/**
+ * Удаляет ассистента; его чаты остаются с ассистентом по умолчанию.
+ * @param id - Идентификатор ассистента.
+ * @returns Удалённый ассистент.
+ */
+export async function deleteAssistantById(id: string): Promise<Assistant> {
+  console.log("Executing deleteAssistantById query for id:", id);
+  try {
+    return await prisma.assistant.delete({ where: { id } });
+  } catch (error) {
+    console.error("Failed to delete assistant from database", error);
+    throw error;
+  }
+}
@@ -1,8 +1,69 @@
 // @app/@left/(_public)/(_CHAT-FRACTAL)/(chat)/(_service)/(_db-queries)/chat/queries.ts
 
 import { prisma } from "@/lib/db";
+import { Prisma } from "@prisma/client";
 import type { Chat } from "@prisma/client";
 import type { VisibilityType } from "@/app/@left/(_public)/(_CHAT)/(chat)/(_service)/(_components)/visibility-selector";
+import {
+  SEARCH_HIGHLIGHT_START,
+  SEARCH_HIGHLIGHT_STOP,
+} from "@/app/@left/(_public)/(_CHAT)/(chat)/(_service)/(_libs)/chat-search";
+
+// Чат в истории сайдбара вместе с идентификаторами его тегов
+export type HistoryChat = Chat & { tagIds: string[] };
+
+export interface ChatHistoryFilter {
+  folderId?: string | null;
+  tagId?: string | null;
+}
+
+export type ChatSearchResult = Pick<Chat, "id" | "title" | "createdAt"> & {
+  // Лучшее совпадение в сообщениях; null — совпал только заголовок
+  messageId: string | null;
+  titleSnippet: string;
+  snippet: string | null;
+};
+
+// Выражения совпадают с GIN-индексами миграции chat_search — иначе индексы не используются
+const chatTitleVector = Prisma.sql`to_tsvector('simple', c."title")`;
+const messageTextVector = Prisma.sql`to_tsvector('simple', jsonb_path_query_array(m."parts", '$[*] ? (@.type == "text").text'))`;
+
+const TITLE_HEADLINE_OPTIONS = `HighlightAll=true, StartSel=${SEARCH_HIGHLIGHT_START}, StopSel=${SEARCH_HIGHLIGHT_STOP}`;
+const MESSAGE_HEADLINE_OPTIONS = `MaxWords=24, MinWords=10, StartSel=${SEARCH_HIGHLIGHT_START}, StopSel=${SEARCH_HIGHLIGHT_STOP}`;
+
+const historyChatInclude = {
+  ChatTagOnChat: { select: { tagId: true } },
+} satisfies Prisma.ChatInclude;
+
+function toHistoryChat({
+  ChatTagOnChat,
+  ...chat
+}: Prisma.ChatGetPayload<{ include: typeof historyChatInclude }>): HistoryChat {
+  return { ...chat, tagIds: ChatTagOnChat.map(({ tagId }) => tagId) };
+}
+
+// Фильтр истории по папке и тегу
+function toHistoryWhere(
+  userId: string,
+  { folderId, tagId }: ChatHistoryFilter
+): Prisma.ChatWhereInput {
+  return {
+    userId,
+    ...(folderId ? { folderId } : {}),
+    ...(tagId ? { ChatTagOnChat: { some: { tagId } } } : {}),
+  };
+}
+
+/**
+ * Строит tsquery с поиском по префиксу каждого слова ("сер" находит "сервер").
+ * В запрос попадают только буквы и цифры, поэтому синтаксис tsquery не сломать.
+ * @returns Строка для to_tsquery или null, если слов нет.
+ */
+function toPrefixTsQuery(query: string): string | null {
+  const terms = query.toLowerCase().match(/[\p{L}\p{N}]+/gu);
+  if (!terms) return null;
+  return [...new Set(terms)].map((term) => `${term}:*`).join(" & ");
+}
 
 /**
  * Сохраняет новый чат в базе данных.
@@ -59,11 +120,12 @@ export async function deleteChatById(id: string): Promise<Chat | null> {
 }
 
 /**
- * Получает список чатов пользователя с пагинацией.
+ * Получает список незакреплённых чатов пользователя с пагинацией.
  * @param id - Идентификатор пользователя.
  * @param limit - Количество записей на странице.
  * @param startingAfter - ID чата для пагинации "вперед".
  * @param endingBefore - ID чата для пагинации "назад".
+ * @param filter - Фильтр по папке и тегу.
  * @returns Объект с чатами и флагом наличия следующих страниц.
  */
 export async function getChatsByUserId({
@@ -71,17 +133,20 @@ export async function getChatsByUserId({
   limit,
   startingAfter,
   endingBefore,
+  filter = {},
 }: {
   id: string;
   limit: number;
   startingAfter: string | null;
   endingBefore: string | null;
-}): Promise<{ chats: Chat[]; hasMore: boolean }> {
+  filter?: ChatHistoryFilter;
+}): Promise<{ chats: HistoryChat[]; hasMore: boolean }> {
   console.log("Executing getChatsByUserId query for user id:", id);
 
   try {
     const extendedLimit = limit + 1;
-    const whereClause = { userId: id };
+    // Закреплённые чаты отдаёт getPinnedChatsByUserId
+    const whereClause = { ...toHistoryWhere(id, filter), pinnedAt: null };
 
     let orderBy: { createdAt: "asc" | "desc" } = { createdAt: "desc" };
     let cursor: { id: string } | undefined = undefined;
@@ -100,12 +165,13 @@ export async function getChatsByUserId({
       cursor,
       skip: cursor ? 1 : 0,
       take: extendedLimit,
+      include: historyChatInclude,
     });
 
-    let chatsList = chats;
+    let chatsList = chats.map(toHistoryChat);
 
     if (endingBefore) {
-      chatsList = chats.reverse();
+      chatsList = chatsList.reverse();
     }
 
     const hasMore = chatsList.length > limit;
@@ -120,6 +186,33 @@ export async function getChatsByUserId({
   }
 }
 
+/**
+ * Получает закреплённые чаты пользователя, последние закреплённые первыми.
+ * @param id - Идентификатор пользователя.
+ * @param filter - Фильтр по папке и тегу.
+ * @returns Массив чатов.
+ */
+export async function getPinnedChatsByUserId({
+  id,
+  filter = {},
+}: {
+  id: string;
+  filter?: ChatHistoryFilter;
+}): Promise<HistoryChat[]> {
+  console.log("Executing getPinnedChatsByUserId query for user id:", id);
+  try {
+    const chats = await prisma.chat.findMany({
+      where: { ...toHistoryWhere(id, filter), pinnedAt: { not: null } },
+      orderBy: { pinnedAt: "desc" },
+      include: historyChatInclude,
+    });
+    return chats.map(toHistoryChat);
+  } catch (error) {
+    console.error("Failed to get pinned chats by user from database", error);
+    throw error;
+  }
+}
+
 /**
  * Получает один чат по его идентификатору.
  * @param id - Идентификатор чата.
@@ -140,7 +233,7 @@ export async function getChatById(id: string): Promise<Chat | null> {
 /**
  * Обновляет видимость чата по его идентификатору.
  * @param chatId - Идентификатор чата.
- * @param visibility - Новый уровень видимости ('private' или 'public').
+ * @param visibility - Новый уровень видимости ('private', 'unlisted' или 'public').
  * @returns Обновленный объект чата.
  */
 export async function updateChatVisibilityById({
@@ -148,7 +241,7 @@ export async function updateChatVisibilityById({
   visibility,
 }: {
   chatId: string;
-  visibility: "private" | "public";
+  visibility: VisibilityType;
 }): Promise<Chat> {
   console.log("Executing updateChatVisibilityById query for chatId:", chatId);
   try {
@@ -161,3 +254,127 @@ export async function updateChatVisibilityById({
     throw error;
   }
 }
+
+/**
+ * Закрепляет чат, переносит в папку и задаёт теги. Не переданные поля не меняются;
+ * принадлежность папки и тегов владельцу чата проверяет вызывающий код.
+ * @param chatId - Идентификатор чата.
+ * @param pinned - Закрепить или открепить.
+ * @param folderId - Папка; null — убрать из папки.
+ * @param tagIds - Полный список тегов чата.
+ * @returns Обновлённый чат.
+ */
+export async function updateChatOrganization({
+  chatId,
+  pinned,
+  folderId,
+  tagIds,
+}: {
+  chatId: string;
+  pinned?: boolean;
+  folderId?: string | null;
+  tagIds?: string[];
+}): Promise<HistoryChat> {
+  console.log("Executing updateChatOrganization query for chatId:", chatId);
+  try {
+    return await prisma.$transaction(async (tx) => {
+      if (tagIds) {
+        await tx.chatTagOnChat.deleteMany({ where: { chatId } });
+        await tx.chatTagOnChat.createMany({
+          data: tagIds.map((tagId) => ({ chatId, tagId })),
+        });
+      }
+
+      const chat = await tx.chat.update({
+        where: { id: chatId },
+        data: {
+          pinnedAt:
+            pinned === undefined ? undefined : pinned ? new Date() : null,
+          folderId,
+        },
+        include: historyChatInclude,
+      });
+      return toHistoryChat(chat);
+    });
+  } catch (error) {
+    console.error("Failed to update chat organization in database", error);
+    throw error;
+  }
+}
+
+/**
+ * Полнотекстовый поиск по чатам пользователя: заголовки и текстовые части сообщений
+ * (все ветки). Для каждого чата берётся лучшее по рангу сообщение; чаты с совпадением
+ * в заголовке идут первыми. Сниппеты размечены маркерами из chat-search.
+ * @param id - Идентификатор пользователя.
+ * @param query - Поисковая строка.
+ * @param limit - Максимальное количество чатов.
+ * @returns Найденные чаты со сниппетами.
+ */
+export async function searchChatsByUserId({
+  id,
+  query,
+  limit,
+}: {
+  id: string;
+  query: string;
+  limit: number;
+}): Promise<ChatSearchResult[]> {
+  console.log("Executing searchChatsByUserId query for user id:", id);
+
+  const tsQuery = toPrefixTsQuery(query);
+  if (!tsQuery) return [];
+
+  try {
+    return await prisma.$queryRaw<ChatSearchResult[]>`
+      WITH search AS (
+        SELECT to_tsquery('simple', ${tsQuery}) AS q
+      ),
+      title_hits AS (
+        SELECT c."id" AS "chatId", ts_rank(${chatTitleVector}, search.q) AS rank
+        FROM "Chat" c, search
+        WHERE c."userId" = ${id} AND ${chatTitleVector} @@ search.q
+      ),
+      message_hits AS (
+        SELECT DISTINCT ON (m."chatId")
+          m."chatId", m."id" AS "messageId", ts_rank(${messageTextVector}, search.q) AS rank
+        FROM "Message" m
+        JOIN "Chat" c ON c."id" = m."chatId", search
+        WHERE c."userId" = ${id} AND ${messageTextVector} @@ search.q
+        ORDER BY m."chatId", rank DESC, m."createdAt" DESC
+      ),
+      hits AS (
+        SELECT
+          c."id", c."title", c."createdAt", mh."messageId",
+          th."chatId" IS NOT NULL AS "titleMatch",
+          COALESCE(th.rank, 0) + COALESCE(mh.rank, 0) AS rank
+        FROM title_hits th
+        FULL JOIN message_hits mh ON mh."chatId" = th."chatId"
+        JOIN "Chat" c ON c."id" = COALESCE(th."chatId", mh."chatId")
+        ORDER BY "titleMatch" DESC, rank DESC, c."createdAt" DESC
+        LIMIT ${limit}
+      )
+      SELECT
+        h."id", h."title", h."createdAt", h."messageId",
+        ts_headline('simple', h."title", search.q, ${TITLE_HEADLINE_OPTIONS}) AS "titleSnippet",
+        CASE WHEN m."id" IS NULL THEN NULL ELSE ts_headline(
+          'simple',
+          array_to_string(
+            ARRAY(SELECT jsonb_array_elements_text(
+              jsonb_path_query_array(m."parts", '$[*] ? (@.type == "text").text')
+            )),
+            ' '
+          ),
+          search.q,
+          ${MESSAGE_HEADLINE_OPTIONS}
+        ) END AS "snippet"
+      FROM hits h
+      CROSS JOIN search
+      LEFT JOIN "Message" m ON m."id" = h."messageId"
+      ORDER BY h."titleMatch" DESC, h.rank DESC, h."createdAt" DESC
+    `;
+  } catch (error) {
+    console.error("Failed to search chats by user from database", error);
+    throw error;
+  }
+}
@@ -10,6 +10,7 @@ import type { ArtifactKind } from "@/app/@left/(_public)/(_CHAT)/(chat)/(_servic
  * @param title - The title of the document.
  * @param kind - The type of artifact.
  * @param content - The content of the document.
+ * @param language - The code language for code documents.
  * @param userId - The ID of the user creating the document.
  * @returns The created document object.
  */
@@ -18,12 +19,14 @@ export async function saveDocument({
   title,
   kind,
   content,
+  language,
   userId,
 }: {
   id: string;
   title: string;
   kind: ArtifactKind;
   content: string;
+  language?: string | null;
   userId: string;
 }): Promise<Document> {
   console.log("Executing saveDocument query for id:", id);
@@ -34,6 +37,7 @@ export async function saveDocument({
         title,
         kind,
         content,
+        language,
         userId,
         createdAt: new Date(),
       },
@@ -123,3 +127,38 @@ export async function deleteDocumentsByIdAfterTimestamp({
     throw error;
   }
 }
+
+/**
+ * Counts documents first created by a user since the given date.
+ * Later versions of the same document are not counted again.
+ * @param userId - The ID of the user.
+ * @param since - Start of the quota window.
+ * @returns The number of new documents and the earliest creation date in the window.
+ */
+export async function getCreatedDocumentStatsSince({
+  userId,
+  since,
+}: {
+  userId: string;
+  since: Date;
+}): Promise<{ count: number; oldestAt: Date | null }> {
+  try {
+    const [row] = await prisma.$queryRaw<
+      Array<{ count: bigint; oldestAt: Date | null }>
+    >`
+      SELECT COUNT(*) AS "count", MIN("firstCreatedAt") AS "oldestAt"
+      FROM (
+        SELECT "id", MIN("createdAt") AS "firstCreatedAt"
+        FROM "Document"
+        WHERE "userId" = ${userId}
+        GROUP BY "id"
+      ) AS documents
+      WHERE "firstCreatedAt" >= ${since}
+    `;
+
+    return { count: Number(row?.count ?? 0), oldestAt: row?.oldestAt ?? null };
+  } catch (error) {
+    console.error("Failed to get created document stats from database", error);
+    throw error;
+  }
+}
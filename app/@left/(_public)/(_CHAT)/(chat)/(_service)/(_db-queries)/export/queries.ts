@@ -0,0 +1,197 @@
+// @/app/@left/(_public)/(_CHAT)/(chat)/(_service)/(_db-queries)/export/queries.ts
+
+import { prisma } from "@/lib/db";
+import type { Chat, Prisma } from "@prisma/client";
+import { generateCuid } from "@/lib/utils/generateCuid";
+import {
+  CHAT_EXPORT_FORMAT,
+  CHAT_EXPORT_VERSION,
+  type ChatExport,
+} from "../../(_libs)/chat-export";
+import { getDocumentIds, remapJsonIds } from "../../(_libs)/document-links";
+
+/**
+ * Собирает полную выгрузку чата: все ветки сообщений, голоса и все версии
+ * документов владельца чата, на которые ссылаются сообщения.
+ * @param chat - Выгружаемый чат.
+ * @returns Выгрузка в формате импорта.
+ */
+export async function getChatExport(chat: Chat): Promise<ChatExport> {
+  console.log("Executing getChatExport query for chat id:", chat.id);
+  try {
+    const [messages, votes] = await Promise.all([
+      prisma.message.findMany({
+        where: { chatId: chat.id },
+        orderBy: { createdAt: "asc" },
+      }),
+      prisma.vote.findMany({ where: { chatId: chat.id } }),
+    ]);
+
+    const documentIds = [
+      ...new Set(messages.flatMap((message) => getDocumentIds(message.parts))),
+    ];
+    const documents =
+      documentIds.length > 0
+        ? await prisma.document.findMany({
+            where: { id: { in: documentIds }, userId: chat.userId },
+            orderBy: { createdAt: "asc" },
+          })
+        : [];
+
+    return {
+      format: CHAT_EXPORT_FORMAT,
+      version: CHAT_EXPORT_VERSION,
+      exportedAt: new Date().toISOString(),
+      chat: {
+        id: chat.id,
+        title: chat.title,
+        visibility: chat.visibility,
+        activeMessageId: chat.activeMessageId,
+        createdAt: chat.createdAt.toISOString(),
+      },
+      messages: messages.map((message) => ({
+        id: message.id,
+        parentId: message.parentId,
+        role: message.role,
+        content: message.content,
+        parts: message.parts,
+        attachments: message.attachments,
+        annotations: message.annotations,
+        createdAt: message.createdAt.toISOString(),
+      })),
+      votes: votes.map((vote) => ({
+        messageId: vote.messageId,
+        isUpvoted: vote.isUpvoted,
+      })),
+      documents: documents.map((document) => ({
+        id: document.id,
+        createdAt: document.createdAt.toISOString(),
+        title: document.title,
+        content: document.content,
+        kind: document.kind,
+        language: document.language,
+      })),
+    };
+  } catch (error) {
+    console.error("Failed to get chat export from database", error);
+    throw error;
+  }
+}
+
+/**
+ * Получает все чаты пользователя для массовой выгрузки, старые первыми.
+ * @param userId - Идентификатор пользователя.
+ * @returns Массив чатов.
+ */
+export async function getAllChatsByUserId(userId: string): Promise<Chat[]> {
+  console.log("Executing getAllChatsByUserId query for user id:", userId);
+  try {
+    return await prisma.chat.findMany({
+      where: { userId },
+      orderBy: { createdAt: "asc" },
+    });
+  } catch (error) {
+    console.error("Failed to get all chats by user from database", error);
+    throw error;
+  }
+}
+
+/**
+ * Создаёт новый приватный чат из выгрузки. Чат, сообщения и документы получают
+ * новые идентификаторы, ссылки между ними (parentId, activeMessageId, голоса,
+ * документы в частях сообщений) переписываются.
+ * @param userId - Идентификатор пользователя, которому принадлежит чат.
+ * @param data - Выгрузка чата.
+ * @returns Созданный чат.
+ */
+export async function importChat({
+  userId,
+  data,
+}: {
+  userId: string;
+  data: ChatExport;
+}): Promise<Chat> {
+  console.log("Executing importChat query for user id:", userId);
+  try {
+    const messageIdMap = new Map(
+      data.messages.map((message) => [message.id, generateCuid()])
+    );
+    const documentIdMap = new Map(
+      data.documents.map((document) => [document.id, generateCuid()])
+    );
+
+    const toInput = (value: Prisma.JsonValue) =>
+      value === null
+        ? undefined
+        : (remapJsonIds(value, documentIdMap) as Prisma.InputJsonValue);
+
+    return await prisma.$transaction(async (tx) => {
+      const chat = await tx.chat.create({
+        data: {
+          id: generateCuid(),
+          userId,
+          title: data.chat.title,
+          visibility: "private",
+          activeMessageId:
+            (data.chat.activeMessageId &&
+              messageIdMap.get(data.chat.activeMessageId)) ??
+            null,
+          createdAt: new Date(),
+        },
+      });
+
+      if (data.documents.length > 0) {
+        await tx.document.createMany({
+          data: data.documents.map((document) => ({
+            id: documentIdMap.get(document.id) as string,
+            createdAt: new Date(document.createdAt),
+            title: document.title,
+            content: document.content,
+            kind: document.kind,
+            language: document.language,
+            userId,
+          })),
+          // Повтор версии (тот же id и createdAt) в файле не ломает импорт
+          skipDuplicates: true,
+        });
+      }
+
+      if (data.messages.length > 0) {
+        await tx.message.createMany({
+          data: data.messages.map((message) => ({
+            id: messageIdMap.get(message.id) as string,
+            // Родитель вне файла — сообщение становится началом ветки
+            parentId:
+              (message.parentId && messageIdMap.get(message.parentId)) ?? null,
+            chatId: chat.id,
+            role: message.role,
+            content: toInput(message.content),
+            parts: toInput(message.parts),
+            attachments: toInput(message.attachments),
+            annotations: toInput(message.annotations),
+            createdAt: new Date(message.createdAt),
+          })),
+        });
+      }
+
+      const votes = data.votes.filter((vote) =>
+        messageIdMap.has(vote.messageId)
+      );
+      if (votes.length > 0) {
+        await tx.vote.createMany({
+          data: votes.map((vote) => ({
+            chatId: chat.id,
+            messageId: messageIdMap.get(vote.messageId) as string,
+            isUpvoted: vote.isUpvoted,
+          })),
+          skipDuplicates: true,
+        });
+      }
+
+      return chat;
+    });
+  } catch (error) {
+    console.error("Failed to import chat into database", error);
+    throw error;
+  }
+}
@@ -0,0 +1,27 @@
+// @/app/@left/(_public)/(_CHAT)/(chat)/(_service)/(_db-queries)/file/queries.ts
+
+import { prisma } from "@/lib/db";
+import type { File } from "@prisma/client";
+
+/**
+ * Retrieves a user's uploaded file records by their public URLs.
+ * @param userId - Owner of the files.
+ * @param urls - Blob URLs returned by the upload route.
+ * @returns Matching file records (unknown and other users' URLs are skipped).
+ */
+export async function getFilesByUrls({
+  userId,
+  urls,
+}: {
+  userId: string;
+  urls: string[];
+}): Promise<File[]> {
+  if (urls.length === 0) return [];
+
+  try {
+    return await prisma.file.findMany({ where: { userId, url: { in: urls } } });
+  } catch (error) {
+    console.error("Failed to get files by urls from database", error);
+    throw error;
+  }
+}
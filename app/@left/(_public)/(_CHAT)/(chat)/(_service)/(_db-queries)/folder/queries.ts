@@ -0,0 +1,107 @@
+// @/app/@left/(_public)/(_CHAT)/(chat)/(_service)/(_db-queries)/folder/queries.ts
+
+import { prisma } from "@/lib/db";
+import type { ChatFolder } from "@prisma/client";
+
+export type ChatFolderWithCount = ChatFolder & { chatCount: number };
+
+/**
+ * Получает папки пользователя по алфавиту вместе с количеством чатов.
+ * @param userId - Идентификатор пользователя.
+ * @returns Массив папок.
+ */
+export async function getChatFoldersByUserId(
+  userId: string
+): Promise<ChatFolderWithCount[]> {
+  console.log("Executing getChatFoldersByUserId query for user id:", userId);
+  try {
+    const folders = await prisma.chatFolder.findMany({
+      where: { userId },
+      orderBy: { name: "asc" },
+      include: { _count: { select: { Chat: true } } },
+    });
+    return folders.map(({ _count, ...folder }) => ({
+      ...folder,
+      chatCount: _count.Chat,
+    }));
+  } catch (error) {
+    console.error("Failed to get chat folders by user from database", error);
+    throw error;
+  }
+}
+
+/**
+ * Получает папку по идентификатору.
+ * @param id - Идентификатор папки.
+ * @returns Папка или null, если не найдена.
+ */
+export async function getChatFolderById(
+  id: string
+): Promise<ChatFolder | null> {
+  console.log("Executing getChatFolderById query for id:", id);
+  try {
+    return await prisma.chatFolder.findUnique({ where: { id } });
+  } catch (error) {
+    console.error("Failed to get chat folder by id from database", error);
+    throw error;
+  }
+}
+
+/**
+ * Создаёт папку. Имя уникально в пределах пользователя.
+ * @param userId - Идентификатор пользователя.
+ * @param name - Имя папки.
+ * @returns Созданная папка.
+ */
+export async function createChatFolder({
+  userId,
+  name,
+}: {
+  userId: string;
+  name: string;
+}): Promise<ChatFolder> {
+  console.log("Executing createChatFolder query for user id:", userId);
+  try {
+    return await prisma.chatFolder.create({ data: { userId, name } });
+  } catch (error) {
+    console.error("Failed to create chat folder in database", error);
+    throw error;
+  }
+}
+
+/**
+ * Переименовывает папку.
+ * @param id - Идентификатор папки.
+ * @param name - Новое имя.
+ * @returns Обновлённая папка.
+ */
+export async function renameChatFolder({
+  id,
+  name,
+}: {
+  id: string;
+  name: string;
+}): Promise<ChatFolder> {
+  console.log("Executing renameChatFolder query for id:", id);
+  try {
+    return await prisma.chatFolder.update({ where: { id }, data: { name } });
+  } catch (error) {
+    console.error("Failed to rename chat folder in database", error);
+    throw error;
+  }
+}
+
+/**
+ * Удаляет папку. Чаты остаются и оказываются вне папок (onDelete: SetNull).
+ * @param id - Идентификатор папки.
+ * @returns Удалённая папка.
+ */
+export async function deleteChatFolderById(id: string): Promise<ChatFolder> {
+  console.log("Executing deleteChatFolderById query for id:", id);
+  try {
+    return await prisma.chatFolder.delete({ where: { id } });
+  } catch (error) {
+    console.error("Failed to delete chat folder from database", error);
+    throw error;
+  }
+}
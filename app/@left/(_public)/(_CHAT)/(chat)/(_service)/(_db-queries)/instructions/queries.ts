@@ -0,0 +1,72 @@
+// @/app/@left/(_public)/(_CHAT)/(chat)/(_service)/(_db-queries)/instructions/queries.ts
+
+import { prisma } from "@/lib/db";
+
+/**
+ * Получает инструкции профиля пользователя.
+ * @param userId - Идентификатор пользователя.
+ * @returns Текст инструкций или null, если не заданы.
+ */
+export async function getUserInstructions(
+  userId: string
+): Promise<string | null> {
+  console.log("Executing getUserInstructions query for user id:", userId);
+  try {
+    const user = await prisma.user.findUnique({
+      where: { id: userId },
+      select: { customInstructions: true },
+    });
+    return user?.customInstructions ?? null;
+  } catch (error) {
+    console.error("Failed to get user instructions from database", error);
+    throw error;
+  }
+}
+
+/**
+ * Сохраняет инструкции профиля пользователя.
+ * @param userId - Идентификатор пользователя.
+ * @param instructions - Текст инструкций; null — удалить.
+ */
+export async function updateUserInstructions({
+  userId,
+  instructions,
+}: {
+  userId: string;
+  instructions: string | null;
+}): Promise<void> {
+  console.log("Executing updateUserInstructions query for user id:", userId);
+  try {
+    await prisma.user.update({
+      where: { id: userId },
+      data: { customInstructions: instructions },
+    });
+  } catch (error) {
+    console.error("Failed to update user instructions in database", error);
+    throw error;
+  }
+}
+
+/**
+ * Сохраняет инструкции чата.
+ * @param chatId - Идентификатор чата.
+ * @param instructions - Текст инструкций; null — удалить.
+ */
+export async function updateChatInstructions({
+  chatId,
+  instructions,
+}: {
+  chatId: string;
+  instructions: string | null;
+}): Promise<void> {
+  console.log("Executing updateChatInstructions query for chat id:", chatId);
+  try {
+    await prisma.chat.update({
+      where: { id: chatId },
+      data: { instructions },
+    });
+  } catch (error) {
+    console.error("Failed to update chat instructions in database", error);
+    throw error;
+  }
+}
@@ -0,0 +1,178 @@
+// @/app/@left/(_public)/(_CHAT)/(chat)/(_service)/(_db-queries)/memory/queries.ts
+
+import { prisma } from "@/lib/db";
+import type { UserMemory } from "@prisma/client";
+
+/**
+ * Получает воспоминания пользователя, новые первыми.
+ * @param userId - Идентификатор пользователя.
+ * @returns Массив воспоминаний.
+ */
+export async function getUserMemoriesByUserId(
+  userId: string
+): Promise<UserMemory[]> {
+  console.log("Executing getUserMemoriesByUserId query for user id:", userId);
+  try {
+    return await prisma.userMemory.findMany({
+      where: { userId },
+      orderBy: { updatedAt: "desc" },
+    });
+  } catch (error) {
+    console.error("Failed to get user memories from database", error);
+    throw error;
+  }
+}
+
+/**
+ * Получает воспоминание по идентификатору.
+ * @param id - Идентификатор воспоминания.
+ * @returns Воспоминание или null, если не найдено.
+ */
+export async function getUserMemoryById(
+  id: string
+): Promise<UserMemory | null> {
+  console.log("Executing getUserMemoryById query for id:", id);
+  try {
+    return await prisma.userMemory.findUnique({ where: { id } });
+  } catch (error) {
+    console.error("Failed to get user memory by id from database", error);
+    throw error;
+  }
+}
+
+/**
+ * Сохраняет новые воспоминания и удаляет устаревшие одной транзакцией.
+ * @param userId - Идентификатор пользователя.
+ * @param sourceChatId - Чат, из которого извлечены факты.
+ * @param contents - Тексты новых воспоминаний.
+ * @param removeIds - Воспоминания, которые новые факты заменяют.
+ */
+export async function saveExtractedMemories({
+  userId,
+  sourceChatId,
+  contents,
+  removeIds,
+}: {
+  userId: string;
+  sourceChatId: string;
+  contents: string[];
+  removeIds: string[];
+}): Promise<void> {
+  console.log("Executing saveExtractedMemories query for user id:", userId);
+  try {
+    await prisma.$transaction([
+      prisma.userMemory.deleteMany({
+        where: { userId, id: { in: removeIds } },
+      }),
+      prisma.userMemory.createMany({
+        data: contents.map((content) => ({ userId, sourceChatId, content })),
+      }),
+    ]);
+  } catch (error) {
+    console.error("Failed to save extracted memories in database", error);
+    throw error;
+  }
+}
+
+/**
+ * Изменяет текст воспоминания.
+ * @param id - Идентификатор воспоминания.
+ * @param content - Новый текст.
+ * @returns Обновлённое воспоминание.
+ */
+export async function updateUserMemory({
+  id,
+  content,
+}: {
+  id: string;
+  content: string;
+}): Promise<UserMemory> {
+  console.log("Executing updateUserMemory query for id:", id);
+  try {
+    return await prisma.userMemory.update({
+      where: { id },
+      data: { content },
+    });
+  } catch (error) {
+    console.error("Failed to update user memory in database", error);
+    throw error;
+  }
+}
+
+/**
+ * Удаляет воспоминание.
+ * @param id - Идентификатор воспоминания.
+ * @returns Удалённое воспоминание.
+ */
+export async function deleteUserMemoryById(id: string): Promise<UserMemory> {
+  console.log("Executing deleteUserMemoryById query for id:", id);
+  try {
+    return await prisma.userMemory.delete({ where: { id } });
+  } catch (error) {
+    console.error("Failed to delete user memory from database", error);
+    throw error;
+  }
+}
+
+/**
+ * Удаляет всю память пользователя.
+ * @param userId - Идентификатор пользователя.
+ * @returns Количество удалённых воспоминаний.
+ */
+export async function deleteUserMemoriesByUserId(
+  userId: string
+): Promise<number> {
+  console.log(
+    "Executing deleteUserMemoriesByUserId query for user id:",
+    userId
+  );
+  try {
+    const { count } = await prisma.userMemory.deleteMany({ where: { userId } });
+    return count;
+  } catch (error) {
+    console.error("Failed to delete user memories from database", error);
+    throw error;
+  }
+}
+
+/**
+ * Проверяет, включил ли пользователь долговременную память.
+ * @param userId - Идентификатор пользователя.
+ */
+export async function isMemoryEnabledForUser(userId: string): Promise<boolean> {
+  console.log("Executing isMemoryEnabledForUser query for user id:", userId);
+  try {
+    const user = await prisma.user.findUnique({
+      where: { id: userId },
+      select: { memoryEnabled: true },
+    });
+    return user?.memoryEnabled ?? false;
+  } catch (error) {
+    console.error("Failed to get memory setting from database", error);
+    throw error;
+  }
+}
+
+/**
+ * Включает или выключает долговременную память пользователя.
+ * @param userId - Идентификатор пользователя.
+ * @param enabled - Новое значение настройки.
+ */
+export async function setMemoryEnabledForUser({
+  userId,
+  enabled,
+}: {
+  userId: string;
+  enabled: boolean;
+}): Promise<void> {
+  console.log("Executing setMemoryEnabledForUser query for user id:", userId);
+  try {
+    await prisma.user.update({
+      where: { id: userId },
+      data: { memoryEnabled: enabled },
+    });
+  } catch (error) {
+    console.error("Failed to update memory setting in database", error);
+    throw error;
+  }
+}
@@ -1,7 +1,7 @@
 // @/app/@left/(_CHAT-FRACTAL)/(chat)/(_service)/(_db-queries)/message/queries.ts
 
 import { prisma } from "@/lib/db";
-import type { Message } from "@prisma/client";
+import type { Message, Prisma } from "@prisma/client";
 
 // Локальный интерфейс для создания сообщений, используемый функцией saveMessages
 interface DBMessage {
@@ -165,3 +165,221 @@ export async function getMessageCountByUserId({
     throw error;
   }
 }
+
+/**
+ * Подсчитывает сообщения пользователя начиная с указанной даты
+ * и возвращает дату самого раннего из них (для расчета сброса квоты).
+ * @param id - Идентификатор пользователя.
+ * @param since - Начало окна квоты.
+ * @returns Количество сообщений и дата самого раннего сообщения в окне.
+ */
+export async function getUserMessageStatsSince({
+  id,
+  since,
+}: {
+  id: string;
+  since: Date;
+}): Promise<{ count: number; oldestAt: Date | null }> {
+  try {
+    const where = {
+      role: "user",
+      createdAt: { gte: since },
+      Chat: { userId: id },
+    };
+
+    const [count, oldest] = await Promise.all([
+      prisma.message.count({ where }),
+      prisma.message.findFirst({
+        where,
+        orderBy: { createdAt: "asc" },
+        select: { createdAt: true },
+      }),
+    ]);
+
+    return { count, oldestAt: oldest?.createdAt ?? null };
+  } catch (error) {
+    console.error("Failed to get user message stats from database", error);
+    throw error;
+  }
+}
+
+/**
+ * Путь от корня дерева до сообщения leafId (по указателям parentId).
+ */
+function getBranchPath(messages: Message[], leafId: string | null): Message[] {
+  const byId = new Map(messages.map((message) => [message.id, message]));
+  const path: Message[] = [];
+
+  let current = leafId ? byId.get(leafId) : undefined;
+  while (current) {
+    path.unshift(current);
+    current = current.parentId ? byId.get(current.parentId) : undefined;
+  }
+
+  return path;
+}
+
+/**
+ * Последний лист поддерева сообщения: на каждом уровне берется самый новый ответ.
+ */
+function getLatestLeafId(messages: Message[], messageId: string): string {
+  let leafId = messageId;
+
+  for (;;) {
+    // messages отсортированы по дате создания — последний потомок самый новый
+    const child = messages.findLast((message) => message.parentId === leafId);
+    if (!child) return leafId;
+    leafId = child.id;
+  }
+}
+
+/**
+ * Получает сообщения активной ветки чата (от первого сообщения до Chat.activeMessageId;
+ * если он не задан — до последнего по времени сообщения).
+ * @param id - Идентификатор чата.
+ * @returns Массив сообщений ветки в порядке диалога.
+ */
+export async function getActiveBranchByChatId(id: string): Promise<Message[]> {
+  console.log("Executing getActiveBranchByChatId query for chat id:", id);
+  try {
+    const [chat, messages] = await Promise.all([
+      prisma.chat.findUnique({
+        where: { id },
+        select: { activeMessageId: true },
+      }),
+      prisma.message.findMany({
+        where: { chatId: id },
+        orderBy: { createdAt: "asc" },
+      }),
+    ]);
+
+    return getBranchPath(
+      messages,
+      chat?.activeMessageId ?? messages.at(-1)?.id ?? null
+    );
+  } catch (error) {
+    console.error(
+      "Failed to get active branch by chat id from database",
+      error
+    );
+    throw error;
+  }
+}
+
+/**
+ * Получает ветку чата, заканчивающуюся указанным сообщением.
+ * @param chatId - Идентификатор чата.
+ * @param messageId - Последнее сообщение ветки; null — пустая ветка.
+ * @returns Массив сообщений ветки в порядке диалога.
+ */
+export async function getBranchByMessageId({
+  chatId,
+  messageId,
+}: {
+  chatId: string;
+  messageId: string | null;
+}): Promise<Message[]> {
+  console.log("Executing getBranchByMessageId query for chat id:", chatId);
+  try {
+    if (!messageId) return [];
+
+    const messages = await prisma.message.findMany({
+      where: { chatId },
+      orderBy: { createdAt: "asc" },
+    });
+
+    return getBranchPath(messages, messageId);
+  } catch (error) {
+    console.error("Failed to get branch by message id from database", error);
+    throw error;
+  }
+}
+
+/**
+ * Получает структуру дерева сообщений чата (без содержимого) для переключателя веток.
+ * @param chatId - Идентификатор чата.
+ * @returns Идентификаторы сообщений и их родителей в порядке создания.
+ */
+export async function getMessageTreeByChatId(
+  chatId: string
+): Promise<Array<{ id: string; parentId: string | null }>> {
+  console.log("Executing getMessageTreeByChatId query for chat id:", chatId);
+  try {
+    return await prisma.message.findMany({
+      where: { chatId },
+      orderBy: { createdAt: "asc" },
+      select: { id: true, parentId: true },
+    });
+  } catch (error) {
+    console.error("Failed to get message tree by chat id from database", error);
+    throw error;
+  }
+}
+
+/**
+ * Сохраняет сообщение как продолжение ветки и делает эту ветку активной.
+ * @param message - Данные нового сообщения.
+ * @param parentId - Предыдущее сообщение ветки; null — новое начало диалога.
+ * @returns Созданный объект сообщения.
+ */
+export async function appendMessageToBranch({
+  message,
+  parentId,
+}: {
+  message: Omit<Prisma.MessageUncheckedCreateInput, "parentId">;
+  parentId: string | null;
+}): Promise<Message> {
+  console.log("Executing appendMessageToBranch query for id:", message.id);
+  try {
+    const [createdMessage] = await prisma.$transaction([
+      prisma.message.create({
+        data: { ...message, parentId },
+      }),
+      prisma.chat.update({
+        where: { id: message.chatId },
+        data: { activeMessageId: message.id },
+      }),
+    ]);
+
+    return createdMessage;
+  } catch (error) {
+    console.error("Failed to append message to branch in database", error);
+    throw error;
+  }
+}
+
+/**
+ * Переключает активную ветку на сообщение (и самое новое продолжение под ним).
+ * @param chatId - Идентификатор чата.
+ * @param messageId - Сообщение, ветку которого нужно показать.
+ * @returns Сообщения новой активной ветки.
+ */
+export async function setActiveBranch({
+  chatId,
+  messageId,
+}: {
+  chatId: string;
+  messageId: string;
+}): Promise<Message[]> {
+  console.log("Executing setActiveBranch query for chat id:", chatId);
+  try {
+    const messages = await prisma.message.findMany({
+      where: { chatId },
+      orderBy: { createdAt: "asc" },
+    });
+    if (!messages.some((message) => message.id === messageId)) {
+      throw new Error(`Message with id ${messageId} not found in chat`);
+    }
+
+    const leafId = getLatestLeafId(messages, messageId);
+    await prisma.chat.update({
+      where: { id: chatId },
+      data: { activeMessageId: leafId },
+    });
+
+    return getBranchPath(messages, leafId);
+  } catch (error) {
+    console.error("Failed to set active branch in database", error);
+    throw error;
+  }
+}
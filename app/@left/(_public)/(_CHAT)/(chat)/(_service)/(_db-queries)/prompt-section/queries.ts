@@ -0,0 +1,90 @@
+// @/app/@left/(_public)/(_CHAT)/(chat)/(_service)/(_db-queries)/prompt-section/queries.ts
+
+import { prisma } from "@/lib/db";
+import type { SystemPromptSection } from "@prisma/client";
+
+export type SystemPromptSectionInput = Pick<
+  SystemPromptSection,
+  "title" | "content" | "locked" | "enabled" | "position"
+>;
+
+/**
+ * Получает разделы системного промпта в порядке position.
+ * @param enabledOnly - Только включённые разделы (для сборки промпта).
+ * @returns Массив разделов.
+ */
+export async function getSystemPromptSections({
+  enabledOnly = false,
+}: {
+  enabledOnly?: boolean;
+} = {}): Promise<SystemPromptSection[]> {
+  console.log("Executing getSystemPromptSections query");
+  try {
+    return await prisma.systemPromptSection.findMany({
+      where: enabledOnly ? { enabled: true } : undefined,
+      orderBy: [{ position: "asc" }, { createdAt: "asc" }],
+    });
+  } catch (error) {
+    console.error("Failed to get system prompt sections from database", error);
+    throw error;
+  }
+}
+
+/**
+ * Создаёт раздел системного промпта.
+ * @param data - Поля раздела.
+ * @returns Созданный раздел.
+ */
+export async function createSystemPromptSection(
+  data: SystemPromptSectionInput
+): Promise<SystemPromptSection> {
+  console.log("Executing createSystemPromptSection query");
+  try {
+    return await prisma.systemPromptSection.create({ data });
+  } catch (error) {
+    console.error("Failed to create system prompt section in database", error);
+    throw error;
+  }
+}
+
+/**
+ * Изменяет раздел системного промпта.
+ * @param id - Идентификатор раздела.
+ * @param data - Изменяемые поля.
+ * @returns Обновлённый раздел.
+ */
+export async function updateSystemPromptSection({
+  id,
+  data,
+}: {
+  id: string;
+  data: Partial<SystemPromptSectionInput>;
+}): Promise<SystemPromptSection> {
+  console.log("Executing updateSystemPromptSection query for id:", id);
+  try {
+    return await prisma.systemPromptSection.update({ where: { id }, data });
+  } catch (error) {
+    console.error("Failed to update system prompt section in database", error);
+    throw error;
+  }
+}
+
+/**
+ * Удаляет раздел системного промпта.
+ * @param id - Идентификатор раздела.
+ * @returns Удалённый раздел.
+ */
+export async function deleteSystemPromptSectionById(
+  id: string
+): Promise<SystemPromptSection> {
+  console.log("Executing deleteSystemPromptSectionById query for id:", id);
+  try {
+    return await prisma.systemPromptSection.delete({ where: { id } });
+  } catch (error) {
+    console.error(
+      "Failed to delete system prompt section from database",
+      error
+    );
+    throw error;
+  }
+}
@@ -0,0 +1,273 @@
+// @/app/@left/(_public)/(_CHAT)/(chat)/(_service)/(_db-queries)/share/queries.ts
+
+import { prisma } from "@/lib/db";
+import type { Chat, ChatShare, Prisma } from "@prisma/client";
+import { generateCuid } from "@/lib/utils/generateCuid";
+import {
+  getActiveBranchByChatId,
+  getBranchByMessageId,
+} from "../message/queries";
+import { getDocumentIds, remapJsonIds } from "../../(_libs)/document-links";
+
+/**
+ * Создаёт ссылку на read-only просмотр чата.
+ * @param chatId - Идентификатор чата.
+ * @param token - Секретный токен ссылки.
+ * @returns Созданная ссылка.
+ */
+export async function createChatShare({
+  chatId,
+  token,
+}: {
+  chatId: string;
+  token: string;
+}): Promise<ChatShare> {
+  console.log("Executing createChatShare query for chatId:", chatId);
+  try {
+    return await prisma.chatShare.create({
+      data: { chatId, token },
+    });
+  } catch (error) {
+    console.error("Failed to create chat share in database", error);
+    throw error;
+  }
+}
+
+/**
+ * Получает действующие (не отозванные) ссылки чата, новые первыми.
+ * @param chatId - Идентификатор чата.
+ * @returns Массив ссылок.
+ */
+export async function getActiveChatSharesByChatId({
+  chatId,
+}: {
+  chatId: string;
+}): Promise<ChatShare[]> {
+  console.log(
+    "Executing getActiveChatSharesByChatId query for chatId:",
+    chatId
+  );
+  try {
+    return await prisma.chatShare.findMany({
+      where: { chatId, revokedAt: null },
+      orderBy: { createdAt: "desc" },
+    });
+  } catch (error) {
+    console.error("Failed to get chat shares by chat id from database", error);
+    throw error;
+  }
+}
+
+/**
+ * Получает ссылку по идентификатору.
+ * @param id - Идентификатор ссылки.
+ * @returns Ссылка вместе с чатом или null, если не найдена.
+ */
+export async function getChatShareById(
+  id: string
+): Promise<(ChatShare & { Chat: Chat }) | null> {
+  console.log("Executing getChatShareById query for id:", id);
+  try {
+    return await prisma.chatShare.findUnique({
+      where: { id },
+      include: { Chat: true },
+    });
+  } catch (error) {
+    console.error("Failed to get chat share by id from database", error);
+    throw error;
+  }
+}
+
+/**
+ * Получает действующую ссылку по токену. Ссылки приватного чата
+ * не действуют, даже если их не отозвали.
+ * @param token - Токен ссылки.
+ * @returns Ссылка вместе с чатом или null, если ссылки нет, она отозвана
+ * или чат приватный.
+ */
+export async function getActiveChatShareByToken(
+  token: string
+): Promise<(ChatShare & { Chat: Chat }) | null> {
+  console.log("Executing getActiveChatShareByToken query");
+  try {
+    return await prisma.chatShare.findFirst({
+      where: {
+        token,
+        revokedAt: null,
+        Chat: { visibility: { not: "private" } },
+      },
+      include: { Chat: true },
+    });
+  } catch (error) {
+    console.error("Failed to get chat share by token from database", error);
+    throw error;
+  }
+}
+
+/**
+ * Отзывает ссылку. Если это была последняя действующая ссылка чата
+ * с видимостью 'unlisted', чат снова становится приватным.
+ * @param id - Идентификатор ссылки.
+ * @returns Отозванная ссылка.
+ */
+export async function revokeChatShareById(id: string): Promise<ChatShare> {
+  console.log("Executing revokeChatShareById query for id:", id);
+  try {
+    return await prisma.$transaction(async (tx) => {
+      const share = await tx.chatShare.update({
+        where: { id },
+        data: { revokedAt: new Date() },
+      });
+
+      const activeCount = await tx.chatShare.count({
+        where: { chatId: share.chatId, revokedAt: null },
+      });
+      if (activeCount === 0) {
+        await tx.chat.updateMany({
+          where: { id: share.chatId, visibility: "unlisted" },
+          data: { visibility: "private" },
+        });
+      }
+
+      return share;
+    });
+  } catch (error) {
+    console.error("Failed to revoke chat share in database", error);
+    throw error;
+  }
+}
+
+/**
+ * Проверяет, что документ упоминается в сообщениях чата и принадлежит
+ * владельцу чата (доступ к артефактам по ссылке ограничен документами
+ * этого чата; идентификаторам из частей сообщений не доверяем).
+ * @param chat - Чат: идентификатор и владелец.
+ * @param documentId - Идентификатор документа.
+ */
+export async function isDocumentInChat({
+  chat,
+  documentId,
+}: {
+  chat: Pick<Chat, "id" | "userId">;
+  documentId: string;
+}): Promise<boolean> {
+  console.log("Executing isDocumentInChat query for chatId:", chat.id);
+  try {
+    const [messages, ownedCount] = await Promise.all([
+      prisma.message.findMany({
+        where: { chatId: chat.id, role: "assistant" },
+        select: { parts: true },
+      }),
+      prisma.document.count({
+        where: { id: documentId, userId: chat.userId },
+      }),
+    ]);
+    return (
+      ownedCount > 0 &&
+      messages.some((message) =>
+        getDocumentIds(message.parts).includes(documentId)
+      )
+    );
+  } catch (error) {
+    console.error("Failed to check document in chat from database", error);
+    throw error;
+  }
+}
+
+/**
+ * Копирует ветку чата в новый чат ("продолжить этот чат", "форк от сообщения").
+ * Копируется активная ветка или ветка до messageId; сообщения и документы-артефакты
+ * получают новые идентификаторы, ссылки на документы в частях сообщений
+ * переписываются; голоса не копируются. Копируются только документы владельца
+ * исходного чата.
+ * @param chatId - Идентификатор исходного чата.
+ * @param userId - Идентификатор пользователя, которому принадлежит копия.
+ * @param messageId - Последнее копируемое сообщение; не задан — вся активная ветка.
+ * @returns Новый приватный чат.
+ */
+export async function forkChat({
+  chatId,
+  userId,
+  messageId,
+}: {
+  chatId: string;
+  userId: string;
+  messageId?: string;
+}): Promise<Chat> {
+  console.log("Executing forkChat query for chatId:", chatId);
+  try {
+    const messages = messageId
+      ? await getBranchByMessageId({ chatId, messageId })
+      : await getActiveBranchByChatId(chatId);
+    if (messageId && messages.length === 0) {
+      throw new Error(`Message with id ${messageId} not found in chat`);
+    }
+
+    const messageIds = messages.map(() => generateCuid());
+
+    return await prisma.$transaction(async (tx) => {
+      const source = await tx.chat.findUniqueOrThrow({ where: { id: chatId } });
+
+      const documentIds = [
+        ...new Set(
+          messages.flatMap((message) => getDocumentIds(message.parts))
+        ),
+      ];
+      const documentIdMap = new Map(
+        documentIds.map((id) => [id, generateCuid()])
+      );
+
+      const toInput = (value: Prisma.JsonValue) =>
+        value === null
+          ? undefined
+          : (remapJsonIds(value, documentIdMap) as Prisma.InputJsonValue);
+
+      const chat = await tx.chat.create({
+        data: {
+          id: generateCuid(),
+          userId,
+          title: source.title,
+          visibility: "private",
+          activeMessageId: messageIds.at(-1) ?? null,
+          createdAt: new Date(),
+        },
+      });
+
+      if (documentIds.length > 0) {
+        const documents = await tx.document.findMany({
+          where: { id: { in: documentIds }, userId: source.userId },
+        });
+        await tx.document.createMany({
+          data: documents.map((document) => ({
+            id: documentIdMap.get(document.id) as string,
+            createdAt: document.createdAt,
+            title: document.title,
+            content: document.content,
+            kind: document.kind,
+            language: document.language,
+            userId,
+          })),
+        });
+      }
+
+      await tx.message.createMany({
+        data: messages.map((message, index) => ({
+          id: messageIds[index],
+          parentId: index > 0 ? messageIds[index - 1] : null,
+          chatId: chat.id,
+          role: message.role,
+          content: toInput(message.content),
+          parts: toInput(message.parts),
+          attachments: toInput(message.attachments),
+          annotations: toInput(message.annotations),
+          createdAt: message.createdAt,
+        })),
+      });
+
+      return chat;
+    });
+  } catch (error) {
+    console.error("Failed to fork chat in database", error);
+    throw error;
+  }
+}
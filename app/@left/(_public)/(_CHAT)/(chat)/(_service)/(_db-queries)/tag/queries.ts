@@ -0,0 +1,96 @@
+// @/app/@left/(_public)/(_CHAT)/(chat)/(_service)/(_db-queries)/tag/queries.ts
+
+import { prisma } from "@/lib/db";
+import type { ChatTag } from "@prisma/client";
+
+/**
+ * Получает теги пользователя по алфавиту.
+ * @param userId - Идентификатор пользователя.
+ * @returns Массив тегов.
+ */
+export async function getChatTagsByUserId(userId: string): Promise<ChatTag[]> {
+  console.log("Executing getChatTagsByUserId query for user id:", userId);
+  try {
+    return await prisma.chatTag.findMany({
+      where: { userId },
+      orderBy: { name: "asc" },
+    });
+  } catch (error) {
+    console.error("Failed to get chat tags by user from database", error);
+    throw error;
+  }
+}
+
+/**
+ * Получает тег по идентификатору.
+ * @param id - Идентификатор тега.
+ * @returns Тег или null, если не найден.
+ */
+export async function getChatTagById(id: string): Promise<ChatTag | null> {
+  console.log("Executing getChatTagById query for id:", id);
+  try {
+    return await prisma.chatTag.findUnique({ where: { id } });
+  } catch (error) {
+    console.error("Failed to get chat tag by id from database", error);
+    throw error;
+  }
+}
+
+/**
+ * Считает, сколько из переданных тегов принадлежит пользователю.
+ * @param userId - Идентификатор пользователя.
+ * @param ids - Идентификаторы тегов.
+ * @returns Количество найденных тегов.
+ */
+export async function countChatTagsOfUser({
+  userId,
+  ids,
+}: {
+  userId: string;
+  ids: string[];
+}): Promise<number> {
+  console.log("Executing countChatTagsOfUser query for user id:", userId);
+  try {
+    return await prisma.chatTag.count({ where: { userId, id: { in: ids } } });
+  } catch (error) {
+    console.error("Failed to count chat tags from database", error);
+    throw error;
+  }
+}
+
+/**
+ * Создаёт тег. Имя уникально в пределах пользователя.
+ * @param userId - Идентификатор пользователя.
+ * @param name - Имя тега.
+ * @returns Созданный тег.
+ */
+export async function createChatTag({
+  userId,
+  name,
+}: {
+  userId: string;
+  name: string;
+}): Promise<ChatTag> {
+  console.log("Executing createChatTag query for user id:", userId);
+  try {
+    return await prisma.chatTag.create({ data: { userId, name } });
+  } catch (error) {
+    console.error("Failed to create chat tag in database", error);
+    throw error;
+  }
+}
+
+/**
+ * Удаляет тег вместе с его привязками к чатам.
+ * @param id - Идентификатор тега.
+ * @returns Удалённый тег.
+ */
+export async function deleteChatTagById(id: string): Promise<ChatTag> {
+  console.log("Executing deleteChatTagById query for id:", id);
+  try {
+    return await prisma.chatTag.delete({ where: { id } });
+  } catch (error) {
+    console.error("Failed to delete chat tag from database", error);
+    throw error;
+  }
+}
@@ -0,0 +1,174 @@
+// @/app/@left/(_public)/(_CHAT)/(chat)/(_service)/(_db-queries)/usage/queries.ts
+
+import { prisma } from "@/lib/db";
+import {
+  Prisma,
+  type TokenUsage,
+  type TokenUsageSource,
+  type UserType,
+} from "@prisma/client";
+
+export type TokenUsageGroupBy = "day" | "user" | "userType" | "model";
+
+export interface TokenUsageReportRow {
+  key: string;
+  requests: number;
+  promptTokens: number;
+  completionTokens: number;
+  totalTokens: number;
+  cost: number;
+}
+
+/**
+ * Сохраняет запись об использовании токенов.
+ * @param data - Модель, токены, стоимость и контекст вызова.
+ * @returns Созданная запись.
+ */
+export async function saveTokenUsage(data: {
+  userId?: string | null;
+  userType?: UserType | null;
+  chatId?: string | null;
+  modelId: string;
+  providerModelId: string;
+  source: TokenUsageSource;
+  promptTokens: number;
+  completionTokens: number;
+  totalTokens: number;
+  cost: number;
+}): Promise<TokenUsage> {
+  try {
+    return await prisma.tokenUsage.create({ data });
+  } catch (error) {
+    console.error("Failed to save token usage in database", error);
+    throw error;
+  }
+}
+
+/**
+ * Суммирует использование токенов пользователем начиная с указанной даты.
+ * @param userId - Идентификатор пользователя.
+ * @param since - Начало окна квоты.
+ * @param modelId - Ограничить подсчет одной моделью (необязательно).
+ * @param sources - Ограничить подсчет источниками вызовов (необязательно).
+ * @returns Количество запросов, сумма токенов и дата самой ранней записи в окне.
+ */
+export async function getUserTokenUsageSince({
+  userId,
+  since,
+  modelId,
+  sources,
+}: {
+  userId: string;
+  since: Date;
+  modelId?: string;
+  sources?: TokenUsageSource[];
+}): Promise<{ requests: number; totalTokens: number; oldestAt: Date | null }> {
+  try {
+    const result = await prisma.tokenUsage.aggregate({
+      where: {
+        userId,
+        createdAt: { gte: since },
+        ...(modelId ? { modelId } : {}),
+        ...(sources ? { source: { in: sources } } : {}),
+      },
+      _count: { _all: true },
+      _sum: { totalTokens: true },
+      _min: { createdAt: true },
+    });
+
+    return {
+      requests: result._count._all,
+      totalTokens: result._sum.totalTokens ?? 0,
+      oldestAt: result._min.createdAt ?? null,
+    };
+  } catch (error) {
+    console.error("Failed to get user token usage from database", error);
+    throw error;
+  }
+}
+
+/**
+ * Возвращает агрегированное использование токенов за период.
+ * @param groupBy - Поле группировки: день, пользователь, тип пользователя или модель.
+ * @param from - Начало периода (включительно).
+ * @param to - Конец периода (не включительно).
+ * @returns Строки отчета, отсортированные по ключу (дни) или стоимости.
+ */
+export async function getTokenUsageReport({
+  groupBy,
+  from,
+  to,
+}: {
+  groupBy: TokenUsageGroupBy;
+  from: Date;
+  to: Date;
+}): Promise<TokenUsageReportRow[]> {
+  try {
+    if (groupBy === "day") {
+      const rows = await prisma.$queryRaw<
+        Array<{
+          key: Date;
+          requests: bigint;
+          promptTokens: bigint | null;
+          completionTokens: bigint | null;
+          totalTokens: bigint | null;
+          cost: number | null;
+        }>
+      >(Prisma.sql`
+        SELECT date_trunc('day', "createdAt") AS "key",
+               COUNT(*) AS "requests",
+               SUM("promptTokens") AS "promptTokens",
+               SUM("completionTokens") AS "completionTokens",
+               SUM("totalTokens") AS "totalTokens",
+               SUM("cost") AS "cost"
+        FROM "TokenUsage"
+        WHERE "createdAt" >= ${from} AND "createdAt" < ${to}
+        GROUP BY 1
+        ORDER BY 1 ASC
+      `);
+
+      return rows.map((row) => ({
+        key: row.key.toISOString().slice(0, 10),
+        requests: Number(row.requests),
+        promptTokens: Number(row.promptTokens ?? 0),
+        completionTokens: Number(row.completionTokens ?? 0),
+        totalTokens: Number(row.totalTokens ?? 0),
+        cost: row.cost ?? 0,
+      }));
+    }
+
+    const field = (
+      {
+        user: "userId",
+        userType: "userType",
+        model: "modelId",
+      } as const
+    )[groupBy];
+
+    const groups = await prisma.tokenUsage.groupBy({
+      by: [field],
+      where: { createdAt: { gte: from, lt: to } },
+      _count: { _all: true },
+      _sum: {
+        promptTokens: true,
+        completionTokens: true,
+        totalTokens: true,
+        cost: true,
+      },
+    });
+
+    return groups
+      .map((group) => ({
+        key: String(group[field] ?? "unknown"),
+        requests: group._count._all,
+        promptTokens: group._sum.promptTokens ?? 0,
+        completionTokens: group._sum.completionTokens ?? 0,
+        totalTokens: group._sum.totalTokens ?? 0,
+        cost: group._sum.cost ?? 0,
+      }))
+      .sort((a, b) => b.cost - a.cost);
+  } catch (error) {
+    console.error("Failed to get token usage report from database", error);
+    throw error;
+  }
+}
@@ -9,6 +9,7 @@ import { useCallback, useMemo } from "react";
 export const initialArtifactData: UIArtifact = {
   documentId: "init",
   content: "",
+  language: null,
   kind: "text",
   title: "",
   status: "idle",
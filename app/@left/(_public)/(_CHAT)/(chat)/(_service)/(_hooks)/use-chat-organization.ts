@@ -0,0 +1,55 @@
+// @/app/@left/(_public)/(_CHAT)/(chat)/(_service)/(_hooks)/use-chat-organization.ts
+
+"use client";
+
+import useSWR from "swr";
+import { useDroppable } from "@dnd-kit/core";
+import type { ChatTag } from "@prisma/client";
+import { fetcher } from "@/lib/utils";
+import type { HistoryChat } from "../(_db-queries)/chat/queries";
+import type { ChatFolderWithCount } from "../(_db-queries)/folder/queries";
+
+export const CHAT_FOLDERS_KEY = "/api/chat/folders";
+export const CHAT_TAGS_KEY = "/api/chat/tags";
+
+export interface ChatOrganization {
+  pinned?: boolean;
+  folderId?: string | null;
+  tagIds?: string[];
+}
+
+export function useChatFolders(enabled = true) {
+  return useSWR<Array<ChatFolderWithCount>>(
+    enabled ? CHAT_FOLDERS_KEY : null,
+    fetcher
+  );
+}
+
+export function useChatTags(enabled = true) {
+  return useSWR<Array<ChatTag>>(enabled ? CHAT_TAGS_KEY : null, fetcher);
+}
+
+/**
+ * Закрепляет чат, переносит в папку или меняет теги.
+ */
+export async function organizeChat(
+  chatId: string,
+  organization: ChatOrganization
+): Promise<HistoryChat> {
+  const response = await fetch(`/api/chat/organize?id=${chatId}`, {
+    method: "PATCH",
+    headers: { "Content-Type": "application/json" },
+    body: JSON.stringify(organization),
+  });
+  if (!response.ok) throw new Error(await response.text());
+
+  return response.json();
+}
+
+/**
+ * Цель для перетаскивания чата из истории (DndContext в SidebarHistory):
+ * к отпущенному на ней чату применяется organization.
+ */
+export function useChatDropTarget(id: string, organization: ChatOrganization) {
+  return useDroppable({ id, data: { organization } });
+}
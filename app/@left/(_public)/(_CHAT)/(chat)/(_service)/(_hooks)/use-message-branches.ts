@@ -0,0 +1,62 @@
+// @/app/@left/(_public)/(_CHAT)/(chat)/(_service)/(_hooks)/use-message-branches.ts
+
+"use client";
+
+import { useMemo } from "react";
+import useSWR from "swr";
+import { fetcher } from "@/lib/utils";
+
+export interface MessageTreeNode {
+  id: string;
+  parentId: string | null;
+}
+
+export interface MessageBranch {
+  // Номер ветки среди соседей (с нуля) и их число
+  index: number;
+  count: number;
+  previousId: string | null;
+  nextId: string | null;
+}
+
+export function getMessageBranchesKey(chatId: string) {
+  return `/api/chat/branches?chatId=${chatId}`;
+}
+
+/**
+ * Положение сообщения среди соседних веток (других правок или перегенераций
+ * того же места диалога); null, если у сообщения нет соседей.
+ */
+export function useMessageBranch({
+  chatId,
+  messageId,
+  enabled,
+}: {
+  chatId: string;
+  messageId: string;
+  enabled: boolean;
+}): MessageBranch | null {
+  // SWR делит один запрос между всеми сообщениями чата
+  const { data: tree } = useSWR<Array<MessageTreeNode>>(
+    enabled ? getMessageBranchesKey(chatId) : null,
+    fetcher
+  );
+
+  return useMemo(() => {
+    const node = tree?.find((candidate) => candidate.id === messageId);
+    if (!tree || !node) return null;
+
+    const siblings = tree.filter(
+      (candidate) => candidate.parentId === node.parentId
+    );
+    if (siblings.length < 2) return null;
+
+    const index = siblings.indexOf(node);
+    return {
+      index,
+      count: siblings.length,
+      previousId: siblings[index - 1]?.id ?? null,
+      nextId: siblings[index + 1]?.id ?? null,
+    };
+  }, [tree, messageId]);
+}
@@ -4,12 +4,17 @@ import { useState, useEffect } from "react";
 import { useScrollToBottom } from "./use-scroll-to-bottom";
 import type { UseChatHelpers } from "@ai-sdk/react";
 
+// Сколько держится подсветка сообщения, открытого из поиска
+const FOCUS_HIGHLIGHT_MS = 2500;
+
 export function useMessages({
   chatId,
   status,
+  focusMessageId,
 }: {
   chatId: string;
   status: UseChatHelpers["status"];
+  focusMessageId?: string;
 }) {
   const {
     containerRef,
@@ -23,11 +28,27 @@ export function useMessages({
   const [hasSentMessage, setHasSentMessage] = useState(false);
 
   useEffect(() => {
-    if (chatId) {
+    if (!chatId) return;
+    setHasSentMessage(false);
+
+    // Сообщение из поиска по истории показываем по центру с подсветкой
+    const element = focusMessageId
+      ? containerRef.current?.querySelector<HTMLElement>(
+          `[data-message-id="${focusMessageId}"]`
+        )
+      : null;
+    if (!element) {
       scrollToBottom("instant");
-      setHasSentMessage(false);
+      return;
     }
-  }, [chatId, scrollToBottom]);
+
+    element.scrollIntoView({ block: "center" });
+    element.dataset.focused = "true";
+    const timeout = window.setTimeout(() => {
+      delete element.dataset.focused;
+    }, FOCUS_HIGHLIGHT_MS);
+    return () => window.clearTimeout(timeout);
+  }, [chatId, focusMessageId, containerRef, scrollToBottom]);
 
   useEffect(() => {
     if (status === "submitted") {
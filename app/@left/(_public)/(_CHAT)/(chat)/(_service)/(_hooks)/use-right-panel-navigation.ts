@@ -0,0 +1,38 @@
+// @/app/@left/(_public)/(_CHAT)/(chat)/(_service)/(_hooks)/use-right-panel-navigation.ts
+
+"use client";
+
+import { useCallback } from "react";
+import { usePathname, useRouter } from "next/navigation";
+import { useRightSidebar } from "@/contexts/right-sidebar-context";
+import {
+  getSectionHref,
+  highlightSection,
+} from "@/app/@right/(_service)/(_libs)/section-highlight";
+
+/**
+ * Открывает страницу сайта в слоте @right (на мобильных — в выдвижной панели)
+ * и подсвечивает секцию. Состояние чата в @left при этом сохраняется.
+ */
+export function useRightPanelNavigation() {
+  const router = useRouter();
+  const pathname = usePathname();
+  const { openDrawer } = useRightSidebar();
+
+  return useCallback(
+    (href: string, sectionId?: string | null) => {
+      const target = getSectionHref(href, sectionId ?? undefined);
+      openDrawer();
+
+      // Страница уже открыта: меняем только hash, без повторной навигации
+      if (sectionId && pathname === href) {
+        window.history.replaceState(null, "", target);
+        highlightSection(sectionId);
+        return;
+      }
+
+      router.push(target);
+    },
+    [router, pathname, openDrawer]
+  );
+}
@@ -0,0 +1,41 @@
+// @/app/@left/(_public)/(_CHAT)/(chat)/(_service)/(_hooks)/use-shared-chat.tsx
+
+"use client";
+
+import { createContext, useCallback, useContext } from "react";
+
+// Токен ссылки, по которой открыт read-only чат; null в обычном чате
+const SharedChatContext = createContext<string | null>(null);
+
+export function SharedChatProvider({
+  shareToken,
+  children,
+}: {
+  shareToken: string;
+  children: React.ReactNode;
+}) {
+  return (
+    <SharedChatContext.Provider value={shareToken}>
+      {children}
+    </SharedChatContext.Provider>
+  );
+}
+
+/**
+ * URL документа для GET /api/document (или другого маршрута документа,
+ * например /api/document/download): в чате, открытом по ссылке, к нему
+ * добавляется токен, чтобы зритель мог читать артефакты чата.
+ */
+export function useDocumentUrl() {
+  const shareToken = useContext(SharedChatContext);
+
+  return useCallback(
+    (documentId: string, path = "/api/document") =>
+      shareToken
+        ? `${path}?id=${documentId}&shareToken=${encodeURIComponent(
+            shareToken
+          )}`
+        : `${path}?id=${documentId}`,
+    [shareToken]
+  );
+}
@@ -0,0 +1,43 @@
+// @/app/@left/(_public)/(_CHAT)/(chat)/(_service)/(_libs)/ai/assistant.ts
+
+import type { Assistant, Chat, UserType } from "@prisma/client";
+import {
+  getAssistantById,
+  getAssistantBySlug,
+} from "../../(_db-queries)/assistant/queries";
+import { isAssistantAvailable } from "../assistants";
+
+/**
+ * Ассистент запроса к чату. Существующий чат продолжается с ассистентом,
+ * выбранным при его создании, пока тот доступен роли пользователя; иначе
+ * (ассистента нет, он удалён или отключён) — с ассистентом fallbackSlug.
+ * Новый чат — с ассистентом из запроса.
+ * @returns Ассистент, null — ассистент по умолчанию, undefined — запрошенный
+ * ассистент не найден или недоступен роли пользователя.
+ */
+export async function resolveChatAssistant({
+  chat,
+  slug,
+  fallbackSlug,
+  userType,
+}: {
+  chat: Chat | null;
+  slug?: string;
+  fallbackSlug?: string;
+  userType: UserType;
+}): Promise<Assistant | null | undefined> {
+  if (chat) {
+    const current = chat.assistantId
+      ? await getAssistantById(chat.assistantId)
+      : null;
+    if (current && isAssistantAvailable(current, userType)) return current;
+  }
+
+  const requested = chat ? fallbackSlug : slug;
+  if (!requested) return null;
+
+  const assistant = await getAssistantBySlug(requested);
+  return assistant && isAssistantAvailable(assistant, userType)
+    ? assistant
+    : undefined;
+}
@@ -1,9 +1,35 @@
 // @/app/@left/(_public)/(_CHATL)/(chat)/(_service)/(_libs)/ai/entitlements.ts
 import { UserType } from "@prisma/client";
-import type { ChatModel } from "./models";
+import {
+  DEFAULT_CHAT_MODEL,
+  getChatModelIdsForUserType,
+  type ChatModel,
+} from "./models";
 
-interface Entitlements {
+const MB = 1024 * 1024;
+
+/**
+ * "rolling" counts usage over the last 24 hours / 30 days,
+ * "calendar" resets at the start of the UTC day / month.
+ */
+export type QuotaWindow = "rolling" | "calendar";
+
+export interface ModelLimits {
+  maxRequestsPerDay?: number;
+  maxTokensPerMonth?: number;
+}
+
+export interface Entitlements {
   maxMessagesPerDay: number;
+  /** null means unlimited */
+  maxTokensPerMonth: number | null;
+  modelLimits: Partial<Record<ChatModel["id"], ModelLimits>>;
+  maxAttachmentsPerMessage: number;
+  maxAttachmentSizeBytes: number;
+  maxArtifactsPerDay: number;
+  quotaWindow: QuotaWindow;
+  /** Long-term memory across chats (still opt-in per user) */
+  longTermMemory: boolean;
   availableChatModelIds: Array<ChatModel["id"]>;
 }
 
@@ -13,34 +39,112 @@ export const entitlementsByUserType: Record<UserType, Entitlements> = {
    */
   guest: {
     maxMessagesPerDay: 1,
-    availableChatModelIds: ["chat-model", "chat-model-reasoning"],
+    maxTokensPerMonth: 50_000,
+    modelLimits: {
+      "chat-model-reasoning": { maxRequestsPerDay: 1 },
+    },
+    maxAttachmentsPerMessage: 1,
+    maxAttachmentSizeBytes: 2 * MB,
+    maxArtifactsPerDay: 1,
+    quotaWindow: "rolling",
+    longTermMemory: false,
+    availableChatModelIds: getChatModelIdsForUserType("guest"),
   },
   subscriber: {
     maxMessagesPerDay: 100,
-    availableChatModelIds: ["chat-model", "chat-model-reasoning"],
+    maxTokensPerMonth: 5_000_000,
+    modelLimits: {},
+    maxAttachmentsPerMessage: 5,
+    maxAttachmentSizeBytes: 7 * MB,
+    maxArtifactsPerDay: 50,
+    quotaWindow: "calendar",
+    longTermMemory: true,
+    availableChatModelIds: getChatModelIdsForUserType("subscriber"),
   },
   customer: {
     maxMessagesPerDay: 100,
-    availableChatModelIds: ["chat-model", "chat-model-reasoning"],
+    maxTokensPerMonth: 5_000_000,
+    modelLimits: {},
+    maxAttachmentsPerMessage: 5,
+    maxAttachmentSizeBytes: 7 * MB,
+    maxArtifactsPerDay: 50,
+    quotaWindow: "calendar",
+    longTermMemory: true,
+    availableChatModelIds: getChatModelIdsForUserType("customer"),
   },
   architect: {
     maxMessagesPerDay: 100,
-    availableChatModelIds: ["chat-model", "chat-model-reasoning"],
+    maxTokensPerMonth: null,
+    modelLimits: {},
+    maxAttachmentsPerMessage: 10,
+    maxAttachmentSizeBytes: 7 * MB,
+    maxArtifactsPerDay: 100,
+    quotaWindow: "calendar",
+    longTermMemory: true,
+    availableChatModelIds: getChatModelIdsForUserType("architect"),
   },
   admin: {
     maxMessagesPerDay: 100,
-    availableChatModelIds: ["chat-model", "chat-model-reasoning"],
+    maxTokensPerMonth: null,
+    modelLimits: {},
+    maxAttachmentsPerMessage: 10,
+    maxAttachmentSizeBytes: 7 * MB,
+    maxArtifactsPerDay: 100,
+    quotaWindow: "calendar",
+    longTermMemory: true,
+    availableChatModelIds: getChatModelIdsForUserType("admin"),
   },
   editor: {
     maxMessagesPerDay: 100,
-    availableChatModelIds: ["chat-model", "chat-model-reasoning"],
+    maxTokensPerMonth: 5_000_000,
+    modelLimits: {},
+    maxAttachmentsPerMessage: 5,
+    maxAttachmentSizeBytes: 7 * MB,
+    maxArtifactsPerDay: 50,
+    quotaWindow: "calendar",
+    longTermMemory: true,
+    availableChatModelIds: getChatModelIdsForUserType("editor"),
   },
   authUser: {
     maxMessagesPerDay: 3,
-    availableChatModelIds: ["chat-model", "chat-model-reasoning"],
+    maxTokensPerMonth: 200_000,
+    modelLimits: {
+      "chat-model-reasoning": {
+        maxRequestsPerDay: 1,
+        maxTokensPerMonth: 50_000,
+      },
+    },
+    maxAttachmentsPerMessage: 2,
+    maxAttachmentSizeBytes: 5 * MB,
+    maxArtifactsPerDay: 5,
+    quotaWindow: "rolling",
+    longTermMemory: true,
+    availableChatModelIds: getChatModelIdsForUserType("authUser"),
   },
   apiUser: {
     maxMessagesPerDay: 100,
-    availableChatModelIds: ["chat-model"],
+    maxTokensPerMonth: 2_000_000,
+    modelLimits: {},
+    maxAttachmentsPerMessage: 5,
+    maxAttachmentSizeBytes: 7 * MB,
+    maxArtifactsPerDay: 50,
+    quotaWindow: "rolling",
+    longTermMemory: false,
+    availableChatModelIds: getChatModelIdsForUserType("apiUser"),
   },
 };
+
+/**
+ * The default model is picked by the server and is always allowed,
+ * any other model (requested or taken from an assistant) must be listed
+ * in the user type's entitlements.
+ */
+export function isChatModelAvailable(
+  userType: UserType,
+  modelId: ChatModel["id"]
+): boolean {
+  return (
+    modelId === DEFAULT_CHAT_MODEL ||
+    entitlementsByUserType[userType].availableChatModelIds.includes(modelId)
+  );
+}
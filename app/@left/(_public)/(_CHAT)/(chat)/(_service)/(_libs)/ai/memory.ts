@@ -0,0 +1,162 @@
+// @/app/@left/(_public)/(_CHAT)/(chat)/(_service)/(_libs)/ai/memory.ts
+
+import { generateObject } from "ai";
+import { z } from "zod";
+import type { UserMemory, UserType } from "@prisma/client";
+import { myProvider } from "./providers";
+import { recordTokenUsage } from "./usage";
+import { entitlementsByUserType } from "./entitlements";
+import {
+  getUserMemoriesByUserId,
+  isMemoryEnabledForUser,
+  saveExtractedMemories,
+} from "../../(_db-queries)/memory/queries";
+import { MAX_USER_MEMORIES, MEMORY_MAX_LENGTH } from "../user-memory";
+
+// Сколько воспоминаний попадает в системный промпт
+const MAX_PROMPT_MEMORIES = 20;
+
+const extractionSchema = z.object({
+  memories: z
+    .array(z.string().min(1).max(MEMORY_MAX_LENGTH))
+    .max(5)
+    .describe("New durable facts or preferences, one per item"),
+  replacedIds: z
+    .array(z.string())
+    .describe("Ids of known memories that the new facts make outdated"),
+});
+
+/**
+ * Память доступна типу пользователя (гости и apiUser — нет) и включена им самим.
+ */
+export async function isMemoryActive({
+  userId,
+  userType,
+}: {
+  userId: string;
+  userType: UserType;
+}): Promise<boolean> {
+  if (!entitlementsByUserType[userType].longTermMemory) return false;
+  return isMemoryEnabledForUser(userId);
+}
+
+function toWords(text: string): Set<string> {
+  return new Set(
+    (text.toLowerCase().match(/[\p{L}\p{N}]{3,}/gu) ?? []).map((word) =>
+      // Грубое отсечение окончаний: "travel", "travels", "travelling"
+      word.slice(0, 6)
+    )
+  );
+}
+
+/**
+ * Выбирает воспоминания для промпта: сначала совпадающие по словам с сообщением
+ * пользователя, затем самые свежие.
+ */
+export function selectRelevantMemories(
+  memories: UserMemory[],
+  query: string,
+  limit = MAX_PROMPT_MEMORIES
+): UserMemory[] {
+  if (memories.length <= limit) return memories;
+
+  const queryWords = toWords(query);
+  return (
+    memories
+      .map((memory, index) => {
+        let score = 0;
+        for (const word of toWords(memory.content)) {
+          if (queryWords.has(word)) score++;
+        }
+        return { memory, score, index };
+      })
+      // memories отсортированы по свежести — при равном счёте сохраняем порядок
+      .sort((a, b) => b.score - a.score || a.index - b.index)
+      .slice(0, limit)
+      .map(({ memory }) => memory)
+  );
+}
+
+/**
+ * Дополнение системного промпта с тем, что известно о пользователе.
+ */
+export function memoryPrompt(memories: UserMemory[]): string {
+  return `\
+What you remember about the user from previous conversations (the user can view and edit this list). Use it when relevant, do not repeat it back unprompted:
+${memories.map((memory) => `- ${memory.content}`).join("\n")}`;
+}
+
+/**
+ * Извлекает из обмена сообщениями долговременные факты о пользователе и сохраняет их.
+ * Вызывается после ответа (в after), ошибки только логируются.
+ */
+export async function extractMemories({
+  userId,
+  userType,
+  chatId,
+  userText,
+  assistantText,
+}: {
+  userId: string;
+  userType: UserType;
+  chatId: string;
+  userText: string;
+  assistantText: string;
+}): Promise<void> {
+  try {
+    const known = await getUserMemoriesByUserId(userId);
+    if (known.length >= MAX_USER_MEMORIES || !userText.trim()) return;
+
+    const { object, usage } = await generateObject({
+      model: myProvider.languageModel("memory-model"),
+      schema: extractionSchema,
+      system: `\
+You maintain a long-term memory about the user of a chat assistant.
+From the latest exchange, extract only durable facts and preferences stated by the user about themselves: name, role, projects, tools, language, style and format preferences.
+- Do not store one-off requests, questions, the assistant's claims, or sensitive data (health, passwords, payment details) unless the user explicitly asks to remember it.
+- Write each memory as a short third-person statement, e.g. "Prefers answers in German".
+- Skip facts already in the known memories. If a new fact contradicts a known one, add the new fact and return the old id in replacedIds.
+- Return empty arrays when there is nothing worth remembering.`,
+      prompt: `\
+Known memories:
+${
+  known.map((memory) => `[${memory.id}] ${memory.content}`).join("\n") ||
+  "(none)"
+}
+
+User:
+${userText}
+
+Assistant:
+${assistantText}`,
+      temperature: 0,
+    });
+
+    await recordTokenUsage({
+      modelId: "memory-model",
+      usage,
+      source: "memory",
+      chatId,
+      userId,
+      userType,
+    });
+
+    const knownIds = new Set(known.map((memory) => memory.id));
+    const removeIds = object.replacedIds.filter((id) => knownIds.has(id));
+    const contents = object.memories
+      .map((memory) => memory.trim())
+      .filter(Boolean)
+      .slice(0, MAX_USER_MEMORIES - known.length + removeIds.length);
+
+    if (contents.length === 0 && removeIds.length === 0) return;
+
+    await saveExtractedMemories({
+      userId,
+      sourceChatId: chatId,
+      contents,
+      removeIds,
+    });
+  } catch (error) {
+    console.error(`Failed to extract memories for chat ${chatId}:`, error);
+  }
+}
@@ -1,5 +1,9 @@
 // @/app/@left/(_public)/(_CHAT-FRACTAL)/(chat)/(_service)/(_libs)/ai/models.ts
 
+import type { UserType } from "@prisma/client";
+import { aiModelsConfig } from "@/config/ai-models.config";
+import type { AiModelDefinition } from "@/types/ai-models";
+
 export const DEFAULT_CHAT_MODEL: string = "api-chat-support";
 
 export interface ChatModel {
@@ -8,20 +12,41 @@ export interface ChatModel {
   description: string;
 }
 
-export const chatModels: Array<ChatModel> = [
-  {
-    id: "chat-model",
-    name: "Chat model",
-    description: "Primary model for all-purpose chat",
-  },
-  {
-    id: "chat-model-reasoning",
-    name: "Reasoning model",
-    description: "Uses advanced reasoning",
-  },
-  {
-    id: "api-chat-support",
-    name: "Api support model",
-    description: "Support model",
-  },
-];
+/**
+ * All models declared in the registry, indexed by id.
+ */
+export const modelRegistry: ReadonlyMap<string, AiModelDefinition> = new Map(
+  aiModelsConfig.map((model) => [model.id, model])
+);
+
+export function getModelDefinition(
+  modelId: string
+): AiModelDefinition | undefined {
+  return modelRegistry.get(modelId);
+}
+
+export function isChatModelId(modelId: string): boolean {
+  return getModelDefinition(modelId)?.kind === "chat";
+}
+
+export function modelSupportsTools(modelId: string): boolean {
+  return getModelDefinition(modelId)?.capabilities.tools ?? false;
+}
+
+export function isReasoningModel(modelId: string): boolean {
+  return getModelDefinition(modelId)?.capabilities.reasoning ?? false;
+}
+
+export const chatModels: Array<ChatModel> = aiModelsConfig
+  .filter((model) => model.kind === "chat")
+  .map(({ id, name, description }) => ({ id, name, description }));
+
+export function getChatModelIdsForUserType(
+  userType: UserType
+): Array<ChatModel["id"]> {
+  return aiModelsConfig
+    .filter(
+      (model) => model.kind === "chat" && model.userTypes.includes(userType)
+    )
+    .map((model) => model.id);
+}
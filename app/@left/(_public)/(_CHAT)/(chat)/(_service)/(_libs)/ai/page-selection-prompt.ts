@@ -0,0 +1,179 @@
+// @/app/@left/(_public)/(_CHAT)/(chat)/(_service)/(_libs)/ai/page-selection-prompt.ts
+
+import type { UserType } from "@prisma/client";
+import { searchVectorStore } from "@/app/@right/(_service)/(_libs)/vector-store/vector-sync";
+import { loadChatNavigationTargets } from "@/app/@right/(_service)/(_libs)/chat-navigation";
+import { sectionToText } from "@/app/@right/(_service)/(_libs)/vector-store/page-chunks";
+import { isPageLive } from "@/app/@right/(_service)/(_libs)/page-workflow";
+import { getPageById } from "@/app/@right/(_service)/(_db-queries)/content/queries";
+import { PublicPagesConfig } from "@/app/@right/(_service)/(_config)/public-pages-config";
+import {
+  MAX_PAGE_SELECTION_LENGTH,
+  type PageSelectionAnnotation,
+} from "../page-selection";
+
+// Сколько чанков базы знаний искать по выделенному фрагменту
+const RELATED_CHUNKS_LIMIT = 8;
+const RELATED_PAGES_LIMIT = 3;
+
+// Сравнение без пробелов и регистра: innerText и текст из JSON секции
+// расходятся только переносами строк между элементами
+function compact(text: string): string {
+  return text.replace(/\s+/g, "").toLowerCase();
+}
+
+/**
+ * Название, ссылка и текст секции берутся на сервере по pageId/sectionId:
+ * страница из базы (только опубликованная) или из статического конфига.
+ */
+async function loadSelectedSection(
+  pageId: string,
+  sectionId: string
+): Promise<{ pageTitle: string; href: string; text: string } | null> {
+  try {
+    const page = await getPageById({ id: pageId });
+    if (page) {
+      const section = page.sections.find(({ name }) => name === sectionId);
+      if (!isPageLive(page) || !section) return null;
+
+      return {
+        pageTitle: page.title,
+        href: page.href ?? `/${page.slug.join("/")}`,
+        text: sectionToText(section),
+      };
+    }
+  } catch (error) {
+    console.error("Content store unavailable, using static pages", error);
+  }
+
+  const config = PublicPagesConfig.pages.find(
+    ({ metadata }) => metadata.id === pageId
+  );
+  const section = config?.sections.find(({ id }) => id === sectionId);
+  if (!config || !section) return null;
+
+  return {
+    pageTitle: config.metadata.title,
+    href: `/${(config.metadata.slug ?? []).join("/")}`,
+    text: sectionToText(section),
+  };
+}
+
+/**
+ * Проверяет фрагмент из аннотации клиента: страница и секция существуют,
+ * а выделенный текст действительно есть в секции. Название и ссылку
+ * страницы клиенту не доверяем и подставляем серверные.
+ * @returns Проверенный фрагмент или null.
+ */
+export async function resolvePageSelection(
+  selection: PageSelectionAnnotation
+): Promise<PageSelectionAnnotation | null> {
+  const text = selection.text.slice(0, MAX_PAGE_SELECTION_LENGTH).trim();
+  const section = await loadSelectedSection(
+    selection.pageId,
+    selection.sectionId
+  );
+
+  if (!text || !section || !compact(section.text).includes(compact(text))) {
+    console.warn(
+      `Ignored page selection: not found in section ${selection.sectionId} of page ${selection.pageId}`
+    );
+    return null;
+  }
+
+  return {
+    ...selection,
+    pageTitle: section.pageTitle,
+    href: section.href,
+    text,
+  };
+}
+
+/**
+ * Выделенный фрагмент цитатой в начале сообщения пользователя: это текст
+ * пользователя, а не инструкции, поэтому в системный промпт он не попадает.
+ */
+export function pageSelectionQuote(selection: PageSelectionAnnotation): string {
+  return `Selected fragment:
+"""
+${selection.text}
+"""`;
+}
+
+/**
+ * Дополнение системного промпта для сообщения с проверенным фрагментом
+ * страницы: где он выделен, похожие материалы из базы знаний и другие
+ * страницы сайта, которые можно предложить пользователю (только
+ * chat-synchronized и видимые его роли).
+ */
+export async function pageSelectionPrompt({
+  selection,
+  userType,
+}: {
+  selection: PageSelectionAnnotation;
+  userType: UserType;
+}): Promise<string> {
+  const [results, targets] = await Promise.all([
+    searchVectorStore(selection.text, userType, RELATED_CHUNKS_LIMIT).catch(
+      (error) => {
+        console.error("Failed to search related material:", error);
+        return [];
+      }
+    ),
+    loadChatNavigationTargets(userType).catch((error) => {
+      console.error("Failed to load chat navigation targets:", error);
+      return [];
+    }),
+  ]);
+
+  // Сам выделенный фрагмент пользователь уже видит — исключаем его секцию
+  const related = results.filter(
+    (result) =>
+      !(
+        result.pageId === selection.pageId &&
+        result.sectionId === selection.sectionId
+      )
+  );
+
+  const targetsById = new Map(targets.map((target) => [target.id, target]));
+  const relatedPages = [...new Set(related.map((result) => result.pageId))]
+    .filter((pageId) => pageId !== selection.pageId)
+    .flatMap((pageId) => targetsById.get(pageId) ?? [])
+    .slice(0, RELATED_PAGES_LIMIT);
+
+  const material = related
+    .map(
+      (result) =>
+        `From "${result.title ?? result.heading}" — ${result.heading}:\n${
+          result.content
+        }`
+    )
+    .join("\n\n");
+
+  const pages = relatedPages
+    .map((page) => `- ${page.title} (href: ${page.href})`)
+    .join("\n");
+
+  return `\
+The user selected a fragment on the page "${selection.pageTitle}" (href: ${
+    selection.href
+  }, section: ${
+    selection.sectionId
+  }) and is asking about it. The fragment is quoted at the start of their message.
+
+Answer about this fragment first. ${
+    material
+      ? `Use the related material from the knowledge base below and name the page it comes from.
+
+Related material:
+${material}`
+      : "The knowledge base has no related material for it."
+  }
+${
+  pages
+    ? `
+Other pages of this site on the same topic. Suggest the most relevant ones at the end of the answer; the user can open them with the navigateToPage tool (pass the href):
+${pages}`
+    : ""
+}`;
+}
@@ -4,9 +4,13 @@ import {
   customProvider,
   extractReasoningMiddleware,
   wrapLanguageModel,
+  type ImageModel,
+  type LanguageModel,
 } from "ai";
 import { xai } from "@ai-sdk/xai";
-import { openai, OpenAIResponsesProviderOptions } from "@ai-sdk/openai";
+import { createOpenAI, openai } from "@ai-sdk/openai";
+import { aiModelsConfig } from "@/config/ai-models.config";
+import type { AiModelDefinition } from "@/types/ai-models";
 import { isTestEnvironment } from "../../(_constants)/constants";
 import {
   artifactModel,
@@ -15,27 +19,95 @@ import {
   titleModel,
 } from "./models.test";
 
+/**
+ * Builds the language model for a registry entry.
+ * Reasoning models are wrapped so <think> blocks are streamed as reasoning.
+ */
+function createLanguageModel(definition: AiModelDefinition): LanguageModel {
+  let model: LanguageModel;
+
+  switch (definition.provider) {
+    case "openai":
+      model = openai.responses(definition.providerModelId);
+      break;
+    case "xai":
+      model = xai(definition.providerModelId);
+      break;
+    case "openai-compatible": {
+      const env = (name?: string) => (name ? process.env[name] : undefined);
+      const localProvider = createOpenAI({
+        name: definition.id,
+        baseURL: env(definition.baseURLEnv) ?? definition.defaultBaseURL,
+        apiKey: env(definition.apiKeyEnv) ?? "local",
+        compatibility: "compatible",
+      });
+      model = localProvider.chat(
+        env(definition.modelIdEnv) ?? definition.providerModelId
+      );
+      break;
+    }
+  }
+
+  if (definition.capabilities.reasoning) {
+    return wrapLanguageModel({
+      model,
+      middleware: extractReasoningMiddleware({ tagName: "think" }),
+    });
+  }
+
+  return model;
+}
+
+function createImageModel(definition: AiModelDefinition): ImageModel {
+  switch (definition.provider) {
+    case "openai":
+      return openai.image(definition.providerModelId);
+    case "xai":
+      return xai.image(definition.providerModelId);
+    case "openai-compatible":
+      throw new Error(
+        `Image models are not supported for provider "${definition.provider}" (${definition.id})`
+      );
+  }
+}
+
+/**
+ * Mock models used by Playwright. Registry ids are mapped by kind so new
+ * chat models work in tests without extra wiring.
+ */
+function createTestLanguageModel(definition: AiModelDefinition) {
+  if (definition.id === "title-model") return titleModel;
+  if (definition.id === "artifact-model") return artifactModel;
+  return definition.capabilities.reasoning ? reasoningModel : chatModel;
+}
+
+const languageModelDefinitions = aiModelsConfig.filter(
+  (model) => model.kind !== "image"
+);
+const imageModelDefinitions = aiModelsConfig.filter(
+  (model) => model.kind === "image"
+);
+
 export const myProvider = isTestEnvironment
   ? customProvider({
-      languageModels: {
-        "chat-model": chatModel,
-        "chat-model-reasoning": reasoningModel,
-        "title-model": titleModel,
-        "artifact-model": artifactModel,
-      },
+      languageModels: Object.fromEntries(
+        languageModelDefinitions.map((definition) => [
+          definition.id,
+          createTestLanguageModel(definition),
+        ])
+      ),
     })
   : customProvider({
-      languageModels: {
-        "chat-model": openai.responses("gpt-4.1-mini-2025-04-14"),
-        "api-chat-support": openai.responses("gpt-4.1-mini-2025-04-14"),
-        "chat-model-reasoning": wrapLanguageModel({
-          model: openai.responses("o4-mini-2025-04-16"),
-          middleware: extractReasoningMiddleware({ tagName: "think" }),
-        }),
-        "title-model": openai.responses("gpt-4.1-mini-2025-04-14"),
-        "artifact-model": openai.responses("gpt-4.1-mini-2025-04-14"),
-      },
-      imageModels: {
-        "small-model": xai.image("grok-2-image"),
-      },
+      languageModels: Object.fromEntries(
+        languageModelDefinitions.map((definition) => [
+          definition.id,
+          createLanguageModel(definition),
+        ])
+      ),
+      imageModels: Object.fromEntries(
+        imageModelDefinitions.map((definition) => [
+          definition.id,
+          createImageModel(definition),
+        ])
+      ),
     });
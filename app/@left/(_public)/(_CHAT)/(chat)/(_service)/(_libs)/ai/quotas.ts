@@ -0,0 +1,266 @@
+// @/app/@left/(_public)/(_CHAT)/(chat)/(_service)/(_libs)/ai/quotas.ts
+
+import { NextResponse } from "next/server";
+import type { UserType } from "@prisma/client";
+import { entitlementsByUserType, type QuotaWindow } from "./entitlements";
+import { getUserMessageStatsSince } from "../../(_db-queries)/message/queries";
+import { getUserTokenUsageSince } from "../../(_db-queries)/usage/queries";
+import { getCreatedDocumentStatsSince } from "../../(_db-queries)/document/queries";
+import { getFilesByUrls } from "../../(_db-queries)/file/queries";
+
+export type QuotaLimit =
+  | "messagesPerDay"
+  | "tokensPerMonth"
+  | "modelRequestsPerDay"
+  | "modelTokensPerMonth"
+  | "attachmentsPerMessage"
+  | "attachmentSize"
+  | "artifactsPerDay";
+
+export interface QuotaViolation {
+  limit: QuotaLimit;
+  max: number;
+  used: number;
+  /** null for limits that are not time-based (attachments) */
+  resetsAt: Date | null;
+  modelId?: string;
+  message: string;
+}
+
+type Period = "day" | "month";
+
+const DAY_MS = 24 * 60 * 60 * 1000;
+const ROLLING_PERIOD_MS: Record<Period, number> = {
+  day: DAY_MS,
+  month: 30 * DAY_MS,
+};
+
+// Both API routes spend the user's chat quota; titles and artifacts are not counted per model
+const CHAT_SOURCES = ["chat", "api_chat"] as const;
+
+interface QuotaPeriod {
+  since: Date;
+  /** Computes the reset time from the oldest record counted in the window */
+  resetsAt: (oldestAt: Date | null) => Date;
+}
+
+function getQuotaPeriod(
+  window: QuotaWindow,
+  period: Period,
+  now = new Date()
+): QuotaPeriod {
+  if (window === "rolling") {
+    const length = ROLLING_PERIOD_MS[period];
+    return {
+      since: new Date(now.getTime() - length),
+      resetsAt: (oldestAt) => new Date((oldestAt ?? now).getTime() + length),
+    };
+  }
+
+  const since =
+    period === "day"
+      ? new Date(
+          Date.UTC(now.getUTCFullYear(), now.getUTCMonth(), now.getUTCDate())
+        )
+      : new Date(Date.UTC(now.getUTCFullYear(), now.getUTCMonth(), 1));
+  const next =
+    period === "day"
+      ? new Date(since.getTime() + DAY_MS)
+      : new Date(Date.UTC(now.getUTCFullYear(), now.getUTCMonth() + 1, 1));
+
+  return { since, resetsAt: () => next };
+}
+
+/**
+ * Checks every entitlement that applies to a new chat message, cheapest first.
+ * Returns the first violated limit or null when the message may be sent.
+ */
+export async function checkMessageQuotas({
+  userId,
+  userType,
+  modelId,
+  attachments = [],
+}: {
+  userId: string;
+  userType: UserType;
+  modelId: string;
+  attachments?: Array<{ url: string }>;
+}): Promise<QuotaViolation | null> {
+  const entitlements = entitlementsByUserType[userType];
+  const day = getQuotaPeriod(entitlements.quotaWindow, "day");
+  const month = getQuotaPeriod(entitlements.quotaWindow, "month");
+
+  if (attachments.length > entitlements.maxAttachmentsPerMessage) {
+    return {
+      limit: "attachmentsPerMessage",
+      max: entitlements.maxAttachmentsPerMessage,
+      used: attachments.length,
+      resetsAt: null,
+      message: `You can attach up to ${entitlements.maxAttachmentsPerMessage} files per message.`,
+    };
+  }
+
+  if (attachments.length > 0) {
+    const files = await getFilesByUrls({
+      userId,
+      urls: attachments.map((attachment) => attachment.url),
+    });
+    const largest = Math.max(0, ...files.map((file) => file.size));
+
+    if (largest > entitlements.maxAttachmentSizeBytes) {
+      return {
+        limit: "attachmentSize",
+        max: entitlements.maxAttachmentSizeBytes,
+        used: largest,
+        resetsAt: null,
+        message: `Attachments must be smaller than ${Math.floor(
+          entitlements.maxAttachmentSizeBytes / (1024 * 1024)
+        )}MB.`,
+      };
+    }
+  }
+
+  const messages = await getUserMessageStatsSince({
+    id: userId,
+    since: day.since,
+  });
+
+  if (messages.count >= entitlements.maxMessagesPerDay) {
+    return {
+      limit: "messagesPerDay",
+      max: entitlements.maxMessagesPerDay,
+      used: messages.count,
+      resetsAt: day.resetsAt(messages.oldestAt),
+      message: "You've reached your daily limit.",
+    };
+  }
+
+  if (entitlements.maxTokensPerMonth !== null) {
+    const usage = await getUserTokenUsageSince({
+      userId,
+      since: month.since,
+    });
+
+    if (usage.totalTokens >= entitlements.maxTokensPerMonth) {
+      return {
+        limit: "tokensPerMonth",
+        max: entitlements.maxTokensPerMonth,
+        used: usage.totalTokens,
+        resetsAt: month.resetsAt(usage.oldestAt),
+        message: "You've used your monthly token budget.",
+      };
+    }
+  }
+
+  const modelLimits = entitlements.modelLimits[modelId];
+
+  if (modelLimits?.maxRequestsPerDay !== undefined) {
+    const usage = await getUserTokenUsageSince({
+      userId,
+      since: day.since,
+      modelId,
+      sources: [...CHAT_SOURCES],
+    });
+
+    if (usage.requests >= modelLimits.maxRequestsPerDay) {
+      return {
+        limit: "modelRequestsPerDay",
+        max: modelLimits.maxRequestsPerDay,
+        used: usage.requests,
+        resetsAt: day.resetsAt(usage.oldestAt),
+        modelId,
+        message: "You've reached your daily limit for this model.",
+      };
+    }
+  }
+
+  if (modelLimits?.maxTokensPerMonth !== undefined) {
+    const usage = await getUserTokenUsageSince({
+      userId,
+      since: month.since,
+      modelId,
+      sources: [...CHAT_SOURCES],
+    });
+
+    if (usage.totalTokens >= modelLimits.maxTokensPerMonth) {
+      return {
+        limit: "modelTokensPerMonth",
+        max: modelLimits.maxTokensPerMonth,
+        used: usage.totalTokens,
+        resetsAt: month.resetsAt(usage.oldestAt),
+        modelId,
+        message: "You've used your monthly token budget for this model.",
+      };
+    }
+  }
+
+  return null;
+}
+
+/**
+ * Checks the daily artifact limit before a new document is created.
+ */
+export async function checkArtifactQuota({
+  userId,
+  userType,
+}: {
+  userId: string;
+  userType: UserType;
+}): Promise<QuotaViolation | null> {
+  const entitlements = entitlementsByUserType[userType];
+  const day = getQuotaPeriod(entitlements.quotaWindow, "day");
+
+  const documents = await getCreatedDocumentStatsSince({
+    userId,
+    since: day.since,
+  });
+
+  if (documents.count >= entitlements.maxArtifactsPerDay) {
+    return {
+      limit: "artifactsPerDay",
+      max: entitlements.maxArtifactsPerDay,
+      used: documents.count,
+      resetsAt: day.resetsAt(documents.oldestAt),
+      message: "You've reached your daily limit for new documents.",
+    };
+  }
+
+  return null;
+}
+
+/**
+ * Builds the 429 response for a violated quota.
+ * Guests keep the sign-up prompt and redirect handled by the chat client.
+ */
+export function quotaExceededResponse(
+  violation: QuotaViolation,
+  userType: UserType
+) {
+  const headers: Record<string, string> = {};
+  if (violation.resetsAt) {
+    headers["Retry-After"] = String(
+      Math.max(0, Math.ceil((violation.resetsAt.getTime() - Date.now()) / 1000))
+    );
+  }
+
+  const guestPrompt =
+    userType === "guest"
+      ? {
+          error: `${violation.message} Sign up to get 5× more messages per day!`,
+          redirectTo: "/register",
+          delay: 3000,
+        }
+      : { error: violation.message };
+
+  return NextResponse.json(
+    {
+      ...guestPrompt,
+      limit: violation.limit,
+      max: violation.max,
+      used: violation.used,
+      resetsAt: violation.resetsAt?.toISOString() ?? null,
+      modelId: violation.modelId ?? null,
+    },
+    { status: 429, headers }
+  );
+}
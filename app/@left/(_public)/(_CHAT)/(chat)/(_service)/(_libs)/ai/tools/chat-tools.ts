@@ -0,0 +1,44 @@
+// @/app/@left/(_public)/(_CHAT)/(chat)/(_service)/(_libs)/ai/tools/chat-tools.ts
+
+import type { DataStreamWriter } from "ai";
+import type { Session } from "next-auth";
+import type { Assistant } from "@prisma/client";
+import { openai } from "@ai-sdk/openai";
+import type { AssistantTool } from "../../assistants";
+import { createDocument } from "./create-document";
+import { updateDocument } from "./update-document";
+import { requestSuggestions } from "./request-suggestions";
+import { getWeather } from "./get-weather";
+import { fileSearchVectorStore } from "./file-search-vector-store";
+import { navigateToPage } from "./navigate-to-page";
+
+interface ChatToolsProps {
+  session: Session;
+  dataStream: DataStreamWriter;
+  assistant: Pick<Assistant, "knowledgePageIds"> | null;
+}
+
+/**
+ * Все инструменты чата. Какие из них активны, решает getAssistantTools.
+ */
+export const chatTools = ({ session, dataStream, assistant }: ChatToolsProps) =>
+  ({
+    web_search_preview: openai.tools.webSearchPreview({
+      // optional configuration:
+      searchContextSize: "high",
+      userLocation: {
+        type: "approximate",
+        city: "San Francisco",
+        region: "California",
+      },
+    }),
+    fileSearchVectorStore: fileSearchVectorStore({
+      userType: session.user.type,
+      pageIds: assistant?.knowledgePageIds,
+    }),
+    getWeather,
+    createDocument: createDocument({ session, dataStream }),
+    updateDocument: updateDocument({ session, dataStream }),
+    requestSuggestions: requestSuggestions({ session, dataStream }),
+    navigateToPage: navigateToPage({ session, dataStream }),
+  } satisfies Record<AssistantTool, unknown>);
@@ -8,6 +8,11 @@ import {
   artifactKinds,
   documentHandlersByArtifactKind,
 } from "@/app/@left/(_public)/(_CHAT)/(chat)/(_service)/(_libs)/artifacts/server";
+import {
+  CODE_LANGUAGES,
+  DEFAULT_CODE_LANGUAGE,
+} from "@/app/@left/(_public)/(_CHAT)/(chat)/(_service)/(_libs)/artifacts/code/languages";
+import { checkArtifactQuota } from "@/app/@left/(_public)/(_CHAT)/(chat)/(_service)/(_libs)/ai/quotas";
 
 interface CreateDocumentProps {
   session: Session;
@@ -21,15 +26,45 @@ export const createDocument = ({ session, dataStream }: CreateDocumentProps) =>
     parameters: z.object({
       title: z.string(),
       kind: z.enum(artifactKinds),
+      language: z
+        .enum(CODE_LANGUAGES)
+        .optional()
+        .describe("Programming language of a code document"),
+      sheetId: z
+        .string()
+        .optional()
+        .describe("For a chart: id of the sheet document to plot"),
     }),
-    execute: async ({ title, kind }) => {
+    execute: async ({ title, kind, language, sheetId }) => {
+      const quotaViolation = await checkArtifactQuota({
+        userId: session.user.id,
+        userType: session.user.type,
+      });
+
+      if (quotaViolation) {
+        return {
+          error: `${
+            quotaViolation.message
+          } The limit resets at ${quotaViolation.resetsAt?.toISOString()}.`,
+        };
+      }
+
       const id = generateCuid();
+      const codeLanguage =
+        kind === "code" ? language ?? DEFAULT_CODE_LANGUAGE : undefined;
 
       dataStream.writeData({
         type: "kind",
         content: kind,
       });
 
+      if (codeLanguage) {
+        dataStream.writeData({
+          type: "language",
+          content: codeLanguage,
+        });
+      }
+
       dataStream.writeData({
         type: "id",
         content: id,
@@ -57,6 +92,8 @@ export const createDocument = ({ session, dataStream }: CreateDocumentProps) =>
       await documentHandler.onCreateDocument({
         id,
         title,
+        language: codeLanguage,
+        sheetId: kind === "chart" ? sheetId : undefined,
         dataStream,
         session,
       });
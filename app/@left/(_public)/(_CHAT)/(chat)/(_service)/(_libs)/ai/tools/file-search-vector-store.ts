@@ -1,43 +1,62 @@
 // @/app/@left/(_public)/(_CHAT-FRACTAL)/(chat)/(_service)/(_libs)/ai/tools/file-search-vector-store.ts
 
-import { OpenAI } from "openai";
 import { tool } from "ai";
+import type { UserType } from "@prisma/client";
 import { z } from "zod";
+import { searchVectorStore } from "@/app/@right/(_service)/(_libs)/vector-store/vector-sync";
+import { toSnippet } from "../../citations";
 
-const vectorStoreId = process.env.OPENAI_API_VECTOR_STORE_ID!;
+interface FileSearchVectorStoreProps {
+  // Ищем только по опубликованным страницам, видимым этой роли
+  userType: UserType;
+  // База знаний ассистента; не задана или пуста — поиск по всей базе
+  pageIds?: string[];
+}
 
-export const fileSearchVectorStore = tool({
-  description:
-    "Search files in vector store and return actual matched documents.",
-  parameters: z.object({
-    query: z.string().describe("Text query to search in vector store"),
-  }),
-  execute: async ({ query }) => {
-    const openai = new OpenAI();
-    console.log("start call // @/lib/ai/tools/file-search-vector-store.ts ");
-    try {
-      const response = await openai.responses.create({
-        model: "gpt-4.1-mini",
-        input: query,
-        tools: [
-          {
-            type: "file_search",
-            vector_store_ids: [vectorStoreId],
-          },
-        ],
-      });
+export const fileSearchVectorStore = ({
+  userType,
+  pageIds,
+}: FileSearchVectorStoreProps) =>
+  tool({
+    description:
+      "Search the knowledge base and return ranked chunks with their source page (documentId, href, sectionId) and relevance score. Cite a chunk in the answer with its rank in square brackets, e.g. [1].",
+    parameters: z.object({
+      query: z.string().describe("Text query to search in vector store"),
+    }),
+    execute: async ({ query }) => {
+      console.log("start call // @/lib/ai/tools/file-search-vector-store.ts ");
+      try {
+        // Бэкенд (pgvector, локальный индекс или OpenAI) выбирается в vector-sync.ts
+        const results = await searchVectorStore(
+          query,
+          userType,
+          undefined,
+          pageIds
+        );
 
-      console.log(
-        "// @/lib/ai/tools/file-search-vector-store.ts response:",
-        response.output_text ?? ""
-      );
+        console.log(
+          "// @/lib/ai/tools/file-search-vector-store.ts results:",
+          results.length
+        );
 
-      // Возвращаем только текст из output_text
-      return {
-        text: response.output_text ?? "",
-      };
-    } catch (error) {
-      return { error: (error as Error).message };
-    }
-  },
-});
+        // Чанки уже отсортированы по релевантности; rank — номер сноски [n] в ответе,
+        // title/href/snippet показываются в списке источников под сообщением
+        return {
+          results: results.map((result, index) => ({
+            rank: index + 1,
+            id: result.id,
+            documentId: result.pageId || undefined,
+            title: result.title ?? result.heading,
+            href: result.href,
+            sectionId: result.sectionId,
+            heading: result.heading,
+            text: result.content,
+            snippet: toSnippet(result.content),
+            score: Number(result.score.toFixed(4)),
+          })),
+        };
+      } catch (error) {
+        return { error: (error as Error).message };
+      }
+    },
+  });
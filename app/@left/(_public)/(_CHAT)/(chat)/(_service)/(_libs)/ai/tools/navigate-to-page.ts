@@ -0,0 +1,72 @@
+// @/app/@left/(_public)/(_CHAT)/(chat)/(_service)/(_libs)/ai/tools/navigate-to-page.ts
+
+import { z } from "zod";
+import { Session } from "next-auth";
+import { DataStreamWriter, tool } from "ai";
+import {
+  type ChatNavigationEvent,
+  loadChatNavigationTargets,
+  resolveChatNavigationTarget,
+} from "@/app/@right/(_service)/(_libs)/chat-navigation";
+
+interface NavigateToPageProps {
+  session: Session;
+  dataStream: DataStreamWriter;
+}
+
+export const navigateToPage = ({ session, dataStream }: NavigateToPageProps) =>
+  tool({
+    description:
+      "Open a page of this site in the panel next to the chat, optionally scrolled to a section. Use it when the user wants to see, open or go to a page. If no page matches, the result lists the pages that can be opened.",
+    parameters: z.object({
+      query: z
+        .string()
+        .describe("What the user wants to see, in their own words"),
+      href: z
+        .string()
+        .optional()
+        .describe("Exact href of the page, if known from a previous result"),
+      sectionId: z
+        .string()
+        .optional()
+        .describe("Section of the page to scroll to, if known"),
+    }),
+    execute: async ({ query, href, sectionId }) => {
+      const userType = session.user?.type;
+      if (!userType) {
+        return { error: "User not authenticated" };
+      }
+
+      // Только страницы с флагом "Chat synchronized", видимые роли пользователя
+      const targets = await loadChatNavigationTargets(userType);
+      const match = resolveChatNavigationTarget(targets, {
+        query,
+        href,
+        sectionId,
+      });
+
+      if (!match) {
+        return {
+          error: "No matching page",
+          pages: targets.map(({ title, href, category }) => ({
+            title,
+            href,
+            category,
+          })),
+        };
+      }
+
+      const navigation: ChatNavigationEvent = {
+        href: match.target.href,
+        sectionId: match.sectionId ?? null,
+      };
+
+      // Клиент (DataStreamHandler) переводит правую панель на эту страницу
+      dataStream.writeData({ type: "navigate", content: { ...navigation } });
+
+      return {
+        title: match.target.title,
+        ...navigation,
+      };
+    },
+  });
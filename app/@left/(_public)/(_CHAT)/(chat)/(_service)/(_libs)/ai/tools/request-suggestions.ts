@@ -6,6 +6,7 @@ import type { Prisma } from "@prisma/client";
 
 import { generateCuid } from "@/lib/utils/generateCuid";
 import { myProvider } from "../providers";
+import { recordTokenUsage } from "../usage";
 import { getDocumentById } from "@/app/@left/(_public)/(_CHAT)/(chat)/(_service)/(_db-queries)/document/queries";
 import { saveSuggestions } from "@/app/@left/(_public)/(_CHAT)/(chat)/(_service)/(_db-queries)/suggestion/queries";
 
@@ -38,7 +39,7 @@ export const requestSuggestions = ({
 
       const suggestionsToSave: Prisma.SuggestionCreateManyInput[] = [];
 
-      const { elementStream } = streamObject({
+      const { elementStream, usage } = streamObject({
         model: myProvider.languageModel("artifact-model"),
         system:
           "You are a help writing assistant. Given a piece of writing, please offer suggestions to improve the piece of writing and describe the change. It is very important for the edits to contain full sentences instead of just words. Max 5 suggestions.",
@@ -79,6 +80,14 @@ export const requestSuggestions = ({
         suggestionsToSave.push(newSuggestion);
       }
 
+      await recordTokenUsage({
+        modelId: "artifact-model",
+        usage: await usage,
+        source: "suggestions",
+        userId,
+        userType: session.user?.type,
+      });
+
       if (suggestionsToSave.length > 0) {
         await saveSuggestions({
           suggestions: suggestionsToSave,
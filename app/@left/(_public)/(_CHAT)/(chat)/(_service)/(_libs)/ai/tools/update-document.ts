@@ -19,8 +19,18 @@ export const updateDocument = ({ session, dataStream }: UpdateDocumentProps) =>
       description: z
         .string()
         .describe("The description of changes that need to be made"),
+      files: z
+        .array(z.string())
+        .optional()
+        .describe("For a project document: paths of the files to change"),
+      column: z
+        .string()
+        .optional()
+        .describe(
+          "For a sheet document: letter or header of the single column to fill or transform"
+        ),
     }),
-    execute: async ({ id, description }) => {
+    execute: async ({ id, description, files, column }) => {
       const document = await getDocumentById(id);
 
       if (!document) {
@@ -46,6 +56,8 @@ export const updateDocument = ({ session, dataStream }: UpdateDocumentProps) =>
       await documentHandler.onUpdateDocument({
         document,
         description,
+        files,
+        column,
         dataStream,
         session,
       });
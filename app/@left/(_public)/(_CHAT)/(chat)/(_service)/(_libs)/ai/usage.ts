@@ -0,0 +1,81 @@
+// @/app/@left/(_public)/(_CHAT)/(chat)/(_service)/(_libs)/ai/usage.ts
+
+import type { LanguageModelUsage } from "ai";
+import type { TokenUsageSource, UserType } from "@prisma/client";
+import { getModelDefinition } from "./models";
+import { saveTokenUsage } from "../../(_db-queries)/usage/queries";
+
+// Providers report NaN when usage is unavailable (e.g. aborted streams)
+function toTokenCount(value: number): number {
+  return Number.isFinite(value) ? value : 0;
+}
+
+/**
+ * Calculates the USD cost of a call using the pricing declared in the model registry.
+ * Unknown models cost 0 so a missing registry entry never breaks accounting.
+ */
+export function calculateTokenCost(
+  modelId: string,
+  usage: Pick<LanguageModelUsage, "promptTokens" | "completionTokens">
+): number {
+  const pricing = getModelDefinition(modelId)?.pricing;
+  if (!pricing) return 0;
+
+  const promptTokens = toTokenCount(usage.promptTokens);
+  const completionTokens = toTokenCount(usage.completionTokens);
+
+  return (
+    (promptTokens / 1_000_000) * pricing.inputPerMillion +
+    (completionTokens / 1_000_000) * pricing.outputPerMillion
+  );
+}
+
+/**
+ * Writes a usage record to the ledger.
+ * Failures are logged and swallowed: accounting must never break a response.
+ */
+export async function recordTokenUsage({
+  modelId,
+  usage,
+  source,
+  chatId,
+  userId,
+  userType,
+}: {
+  modelId: string;
+  usage: LanguageModelUsage | undefined;
+  source: TokenUsageSource;
+  chatId?: string | null;
+  userId?: string | null;
+  userType?: UserType | null;
+}): Promise<void> {
+  if (!usage) {
+    console.log(`${source} - Token usage data not available`);
+    return;
+  }
+
+  const promptTokens = toTokenCount(usage.promptTokens);
+  const completionTokens = toTokenCount(usage.completionTokens);
+
+  try {
+    await saveTokenUsage({
+      userId: userId || null,
+      userType: userType ?? null,
+      chatId: chatId ?? null,
+      modelId,
+      providerModelId: getModelDefinition(modelId)?.providerModelId ?? modelId,
+      source,
+      promptTokens,
+      completionTokens,
+      totalTokens: promptTokens + completionTokens,
+      cost: calculateTokenCost(modelId, { promptTokens, completionTokens }),
+    });
+  } catch (error) {
+    console.error(
+      `Failed to record token usage (${source}, model: ${modelId}, chat: ${
+        chatId ?? "-"
+      })`,
+      error
+    );
+  }
+}
@@ -0,0 +1,100 @@
+// @/app/@left/(_public)/(_CHAT)/(chat)/(_service)/(_libs)/artifacts/chart/client.tsx
+
+import { Artifact } from "../../../(_components)/create-artifact";
+import {
+  CopyIcon,
+  MessageIcon,
+  RedoIcon,
+  UndoIcon,
+} from "@/components/shared/icons";
+import { ChartEditor } from "@/app/@left/(_public)/(_CHAT)/(chat)/(_service)/(_components)/chart-editor";
+import { toast } from "sonner";
+import { parseChart } from "./spec";
+
+type Metadata = any;
+
+export const chartArtifact = new Artifact<"chart", Metadata>({
+  kind: "chart",
+  description:
+    "Useful for visualizing data from a spreadsheet or inline data as a bar, line, pie or scatter chart",
+  initialize: async () => {},
+  onStreamPart: ({ setArtifact, streamPart }) => {
+    if (streamPart.type === "chart-delta") {
+      setArtifact((draftArtifact) => ({
+        ...draftArtifact,
+        content: streamPart.content as string,
+        isVisible: true,
+        status: "streaming",
+      }));
+    }
+  },
+  content: ({
+    content,
+    currentVersionIndex,
+    isCurrentVersion,
+    onSaveContent,
+    status,
+  }) => {
+    return (
+      <ChartEditor
+        content={content}
+        currentVersionIndex={currentVersionIndex}
+        isCurrentVersion={isCurrentVersion}
+        saveContent={onSaveContent}
+        status={status}
+      />
+    );
+  },
+  actions: [
+    {
+      icon: <UndoIcon size={18} />,
+      description: "View Previous version",
+      onClick: ({ handleVersionChange }) => {
+        handleVersionChange("prev");
+      },
+      isDisabled: ({ currentVersionIndex }) => {
+        if (currentVersionIndex === 0) {
+          return true;
+        }
+
+        return false;
+      },
+    },
+    {
+      icon: <RedoIcon size={18} />,
+      description: "View Next version",
+      onClick: ({ handleVersionChange }) => {
+        handleVersionChange("next");
+      },
+      isDisabled: ({ isCurrentVersion }) => {
+        if (isCurrentVersion) {
+          return true;
+        }
+
+        return false;
+      },
+    },
+    {
+      icon: <CopyIcon size={18} />,
+      description: "Copy chart spec",
+      onClick: ({ content }) => {
+        navigator.clipboard.writeText(
+          JSON.stringify(parseChart(content), null, 2)
+        );
+        toast.success("Copied chart spec to clipboard!");
+      },
+    },
+  ],
+  toolbar: [
+    {
+      icon: <MessageIcon />,
+      description: "Describe the trends",
+      onClick: ({ appendMessage }) => {
+        appendMessage({
+          role: "user",
+          content: "Please describe the main trends shown in this chart",
+        });
+      },
+    },
+  ],
+});
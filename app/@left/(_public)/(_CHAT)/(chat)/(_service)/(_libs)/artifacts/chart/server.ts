@@ -0,0 +1,127 @@
+// @/app/@left/(_public)/(_CHAT)/(chat)/(_service)/(_libs)/artifacts/chart/server.ts
+
+import { z } from "zod";
+import { DataStreamWriter, streamObject } from "ai";
+import type { Session } from "next-auth";
+import { myProvider } from "@/app/@left/(_public)/(_CHAT)/(chat)/(_service)/(_libs)/ai/providers";
+import {
+  chartPrompt,
+  updateChartPrompt,
+} from "@/app/@left/(_public)/(_CHAT)/(chat)/(_service)/(_libs)/ai/prompts";
+import { createDocumentHandler } from "@/app/@left/(_public)/(_CHAT)/(chat)/(_service)/(_libs)/artifacts/server";
+import { recordTokenUsage } from "@/app/@left/(_public)/(_CHAT)/(chat)/(_service)/(_libs)/ai/usage";
+import { getDocumentById } from "../../../(_db-queries)/document/queries";
+import { parseSheet, type SheetData } from "../sheet/data";
+import {
+  CHART_TYPES,
+  parseChart,
+  serializeChart,
+  type ChartSpec,
+} from "./spec";
+
+const chartSchema = z.object({
+  type: z.enum(CHART_TYPES),
+  x: z.string().describe("Header of the label column"),
+  y: z.array(z.string()).describe("Headers of the numeric columns to plot"),
+  data: z
+    .array(z.array(z.string()))
+    .optional()
+    .describe(
+      "Table to plot, the first row holds the headers; omit when plotting a spreadsheet"
+    ),
+});
+
+// Таблица-источник графика: только документ kind = sheet того же пользователя
+async function getSourceSheet(
+  sheetId: string | null | undefined,
+  session: Session
+): Promise<SheetData | null> {
+  if (!sheetId) return null;
+
+  const document = await getDocumentById(sheetId);
+  if (document?.kind !== "sheet" || document.userId !== session.user?.id) {
+    return null;
+  }
+  return parseSheet(document.content);
+}
+
+// Частичный объект из потока → описание графика; данные таблицы-источника
+// не копируются в документ
+function toChartSpec(
+  object: unknown,
+  sheetId: string | null
+): ChartSpec {
+  const spec = parseChart(JSON.stringify(object ?? {}));
+  return sheetId ? { ...spec, sheetId, data: null } : spec;
+}
+
+async function streamChart({
+  system,
+  prompt,
+  sheetId,
+  dataStream,
+  session,
+}: {
+  system: string;
+  prompt: string;
+  sheetId: string | null;
+  dataStream: DataStreamWriter;
+  session: Session;
+}): Promise<string> {
+  let draftContent = serializeChart(toChartSpec(undefined, sheetId));
+
+  const { fullStream, usage } = streamObject({
+    model: myProvider.languageModel("artifact-model"),
+    system,
+    prompt,
+    schema: chartSchema,
+  });
+
+  for await (const delta of fullStream) {
+    if (delta.type === "object") {
+      draftContent = serializeChart(toChartSpec(delta.object, sheetId));
+
+      dataStream.writeData({
+        type: "chart-delta",
+        content: draftContent,
+      });
+    }
+  }
+
+  await recordTokenUsage({
+    modelId: "artifact-model",
+    usage: await usage,
+    source: "artifact",
+    userId: session.user?.id,
+    userType: session.user?.type,
+  });
+
+  return draftContent;
+}
+
+export const chartDocumentHandler = createDocumentHandler<"chart">({
+  kind: "chart",
+  onCreateDocument: async ({ title, sheetId, dataStream, session }) => {
+    const sheet = await getSourceSheet(sheetId, session);
+
+    return streamChart({
+      system: chartPrompt(sheet),
+      prompt: title,
+      sheetId: sheet && sheetId ? sheetId : null,
+      dataStream,
+      session,
+    });
+  },
+  onUpdateDocument: async ({ document, description, dataStream, session }) => {
+    const spec = parseChart(document.content);
+    const sheet = await getSourceSheet(spec.sheetId, session);
+
+    return streamChart({
+      system: updateChartPrompt(spec, sheet),
+      prompt: description,
+      sheetId: sheet ? spec.sheetId : null,
+      dataStream,
+      session,
+    });
+  },
+});
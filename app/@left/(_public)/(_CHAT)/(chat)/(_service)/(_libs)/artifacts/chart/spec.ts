@@ -0,0 +1,122 @@
+// @/app/@left/(_public)/(_CHAT)/(chat)/(_service)/(_libs)/artifacts/chart/spec.ts
+
+import {
+  parseNumber,
+  parseSheet,
+  sheetFromTable,
+  type SheetData,
+} from "../sheet/data";
+import { getSheetDisplayValues } from "../sheet/formulas";
+
+/*
+ * Документ kind = chart хранит в Document.content описание графика:
+ * { "type": "bar", "sheetId": "…", "data": null, "x": "Month", "y": ["Sales"] }.
+ * Данные берутся из документа-таблицы sheetId (всегда её последняя версия)
+ * или, если таблицы нет, из data — таблицы, где первая строка заголовки.
+ */
+
+export const CHART_TYPES = ["bar", "line", "pie", "scatter"] as const;
+
+export type ChartType = (typeof CHART_TYPES)[number];
+
+export interface ChartSpec {
+  type: ChartType;
+  sheetId: string | null;
+  data: string[][] | null;
+  // Заголовок столбца с подписями (для scatter — со значениями по оси X)
+  x: string;
+  // Заголовки столбцов с числовыми рядами; pie использует только первый
+  y: string[];
+}
+
+export interface ChartTable {
+  columns: string[];
+  rows: string[][];
+}
+
+export type ChartPoint = Record<string, string | number | null>;
+
+export function isChartType(value: unknown): value is ChartType {
+  return CHART_TYPES.includes(value as ChartType);
+}
+
+/**
+ * Описание графика из содержимого документа; повреждённый JSON даёт пустой
+ * столбчатый график.
+ */
+export function parseChart(content: string | null | undefined): ChartSpec {
+  let data: Partial<Record<keyof ChartSpec, unknown>> = {};
+  try {
+    data = JSON.parse(content || "{}") ?? {};
+  } catch {
+    // пустой график
+  }
+
+  return {
+    type: isChartType(data.type) ? data.type : "bar",
+    sheetId:
+      typeof data.sheetId === "string" && data.sheetId ? data.sheetId : null,
+    data: Array.isArray(data.data)
+      ? data.data.map((row: unknown) =>
+          Array.isArray(row) ? row.map((cell) => `${cell ?? ""}`) : []
+        )
+      : null,
+    x: typeof data.x === "string" ? data.x : "",
+    y: Array.isArray(data.y)
+      ? data.y.filter((column): column is string => typeof column === "string")
+      : [],
+  };
+}
+
+export function serializeChart(spec: ChartSpec): string {
+  return JSON.stringify(spec);
+}
+
+/**
+ * Таблица с данными графика: значения таблицы-источника (формулы уже
+ * посчитаны) или встроенные данные. sheetContent — содержимое документа
+ * sheetId, если он загружен.
+ */
+export function getChartTable(
+  spec: ChartSpec,
+  sheetContent?: string | null
+): ChartTable {
+  const sheet: SheetData =
+    spec.sheetId && sheetContent != null
+      ? parseSheet(sheetContent)
+      : sheetFromTable(spec.data ?? []);
+
+  return {
+    columns: sheet.columns.map((column) => column.name),
+    rows: getSheetDisplayValues(sheet),
+  };
+}
+
+/**
+ * Точки для построения: подпись из столбца x и числа из столбцов y.
+ * Строки без единого числа пропускаются; для scatter нужна и числовая x.
+ */
+export function getChartPoints(
+  spec: ChartSpec,
+  table: ChartTable
+): ChartPoint[] {
+  const xIndex = table.columns.indexOf(spec.x);
+  const series = spec.y
+    .map((name) => ({ name, index: table.columns.indexOf(name) }))
+    .filter((column) => column.index !== -1);
+
+  return table.rows.flatMap((row, rowIndex) => {
+    const label = xIndex === -1 ? `${rowIndex + 1}` : row[xIndex] ?? "";
+    const x = spec.type === "scatter" ? parseNumber(label) : label;
+    if (x === null) return [];
+
+    const point: ChartPoint = { [spec.x]: x };
+    let hasValue = false;
+    for (const column of series) {
+      const value = parseNumber(row[column.index] ?? "");
+      point[column.name] = value;
+      hasValue ||= value !== null;
+    }
+    return hasValue ? [point] : [];
+  });
+}
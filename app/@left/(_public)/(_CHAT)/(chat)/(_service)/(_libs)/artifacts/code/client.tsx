@@ -18,6 +18,8 @@ import {
   ConsoleOutputContent,
 } from "@/app/@left/(_public)/(_CHAT)/(chat)/(_service)/(_components)/console";
 import { Artifact } from "../../../(_components)/create-artifact";
+import { toCodeLanguage } from "./languages";
+import { runJavaScript } from "./run-javascript";
 
 const OUTPUT_HANDLERS = {
   matplotlib: `
@@ -65,6 +67,44 @@ function detectRequiredHandlers(code: string): string[] {
   return handlers;
 }
 
+async function runPython({
+  code,
+  onOutput,
+  onStatus,
+}: {
+  code: string;
+  onOutput: (output: string) => void;
+  onStatus: (message: string) => void;
+}) {
+  // @ts-expect-error - loadPyodide is not defined
+  const currentPyodideInstance = await globalThis.loadPyodide({
+    indexURL: "https://cdn.jsdelivr.net/pyodide/v0.23.4/full/",
+  });
+
+  currentPyodideInstance.setStdout({ batched: onOutput });
+
+  await currentPyodideInstance.loadPackagesFromImports(code, {
+    messageCallback: onStatus,
+  });
+
+  const requiredHandlers = detectRequiredHandlers(code);
+  for (const handler of requiredHandlers) {
+    if (OUTPUT_HANDLERS[handler as keyof typeof OUTPUT_HANDLERS]) {
+      await currentPyodideInstance.runPythonAsync(
+        OUTPUT_HANDLERS[handler as keyof typeof OUTPUT_HANDLERS]
+      );
+
+      if (handler === "matplotlib") {
+        await currentPyodideInstance.runPythonAsync(
+          "setup_matplotlib_output()"
+        );
+      }
+    }
+  }
+
+  await currentPyodideInstance.runPythonAsync(code);
+}
+
 interface Metadata {
   outputs: Array<ConsoleOutput>;
 }
@@ -72,7 +112,7 @@ interface Metadata {
 export const codeArtifact = new Artifact<"code", Metadata>({
   kind: "code",
   description:
-    "Useful for code generation; Code execution is only available for python code.",
+    "Useful for code generation; Code execution is available for Python, JavaScript and TypeScript code.",
   initialize: async ({ setMetadata }) => {
     setMetadata({
       outputs: [],
@@ -119,7 +159,8 @@ export const codeArtifact = new Artifact<"code", Metadata>({
       icon: <PlayIcon size={18} />,
       label: "Run",
       description: "Execute code",
-      onClick: async ({ content, setMetadata }) => {
+      onClick: async ({ content, language: documentLanguage, setMetadata }) => {
+        const language = toCodeLanguage(documentLanguage);
         const runId = generateCuid();
         const outputContent: Array<ConsoleOutputContent> = [];
 
@@ -135,79 +176,52 @@ export const codeArtifact = new Artifact<"code", Metadata>({
           ],
         }));
 
-        try {
-          // @ts-expect-error - loadPyodide is not defined
-          const currentPyodideInstance = await globalThis.loadPyodide({
-            indexURL: "https://cdn.jsdelivr.net/pyodide/v0.23.4/full/",
-          });
-
-          currentPyodideInstance.setStdout({
-            batched: (output: string) => {
-              outputContent.push({
-                type: output.startsWith("data:image/png;base64")
-                  ? "image"
-                  : "text",
-                value: output,
-              });
-            },
-          });
-
-          await currentPyodideInstance.loadPackagesFromImports(content, {
-            messageCallback: (message: string) => {
-              setMetadata((metadata) => ({
-                ...metadata,
-                outputs: [
-                  ...metadata.outputs.filter((output) => output.id !== runId),
-                  {
-                    id: runId,
-                    contents: [{ type: "text", value: message }],
-                    status: "loading_packages",
-                  },
-                ],
-              }));
-            },
-          });
-
-          const requiredHandlers = detectRequiredHandlers(content);
-          for (const handler of requiredHandlers) {
-            if (OUTPUT_HANDLERS[handler as keyof typeof OUTPUT_HANDLERS]) {
-              await currentPyodideInstance.runPythonAsync(
-                OUTPUT_HANDLERS[handler as keyof typeof OUTPUT_HANDLERS]
-              );
-
-              if (handler === "matplotlib") {
-                await currentPyodideInstance.runPythonAsync(
-                  "setup_matplotlib_output()"
-                );
-              }
-            }
-          }
-
-          await currentPyodideInstance.runPythonAsync(content);
-
+        const setRunStatus = (
+          status: ConsoleOutput["status"],
+          contents: Array<ConsoleOutputContent>
+        ) =>
           setMetadata((metadata) => ({
             ...metadata,
             outputs: [
               ...metadata.outputs.filter((output) => output.id !== runId),
-              {
-                id: runId,
-                contents: outputContent,
-                status: "completed",
-              },
+              { id: runId, contents, status },
             ],
           }));
-        } catch (error: any) {
-          setMetadata((metadata) => ({
-            ...metadata,
-            outputs: [
-              ...metadata.outputs.filter((output) => output.id !== runId),
-              {
-                id: runId,
-                contents: [{ type: "text", value: error.message }],
-                status: "failed",
+
+        const onStatus = (message: string) =>
+          setRunStatus("loading_packages", [{ type: "text", value: message }]);
+
+        try {
+          if (language === "python") {
+            await runPython({
+              code: content,
+              onOutput: (output) => {
+                outputContent.push({
+                  type: output.startsWith("data:image/png;base64")
+                    ? "image"
+                    : "text",
+                  value: output,
+                });
               },
-            ],
-          }));
+              onStatus,
+            });
+          } else {
+            await runJavaScript({
+              code: content,
+              language,
+              onOutput: (output) => {
+                outputContent.push({ type: "text", value: output });
+              },
+              onStatus,
+            });
+          }
+
+          setRunStatus("completed", outputContent);
+        } catch (error: any) {
+          setRunStatus("failed", [
+            ...outputContent,
+            { type: "text", value: error.message },
+          ]);
         }
       },
     },
@@ -0,0 +1,28 @@
+// @/app/@left/(_public)/(_CHAT)/(chat)/(_service)/(_libs)/artifacts/code/languages.ts
+
+export const CODE_LANGUAGES = ["python", "javascript", "typescript"] as const;
+
+export type CodeLanguage = (typeof CODE_LANGUAGES)[number];
+
+export const DEFAULT_CODE_LANGUAGE: CodeLanguage = "python";
+
+export function isCodeLanguage(language: string): language is CodeLanguage {
+  return CODE_LANGUAGES.some((current) => current === language);
+}
+
+/**
+ * Язык кода документа. Документы, созданные до появления поля language,
+ * и неизвестные значения считаются Python.
+ */
+export function toCodeLanguage(language?: string | null): CodeLanguage {
+  return (
+    CODE_LANGUAGES.find((current) => current === language) ??
+    DEFAULT_CODE_LANGUAGE
+  );
+}
+
+export const CODE_LANGUAGE_NAMES: Record<CodeLanguage, string> = {
+  python: "Python",
+  javascript: "JavaScript",
+  typescript: "TypeScript",
+};
@@ -0,0 +1,187 @@
+// @/app/@left/(_public)/(_CHAT)/(chat)/(_service)/(_libs)/artifacts/code/run-javascript.ts
+
+import type { CodeLanguage } from "./languages";
+
+export const JS_RUN_TIMEOUT_MS = 10_000;
+
+// Компилятор TypeScript грузится с CDN и может идти дольше самого выполнения
+const TYPESCRIPT_LOAD_TIMEOUT_MS = 60_000;
+
+const TYPESCRIPT_URL =
+  "https://cdn.jsdelivr.net/npm/typescript@5.8.2/lib/typescript.js";
+
+/*
+ * Код воркера. console перехватывается и отправляется родителю построчно,
+ * import/require недоступны. Выполнение завершено, когда завершился
+ * верхний уровень кода (с учётом top-level await).
+ */
+const WORKER_SOURCE = `
+const post = (message) => self.postMessage(message);
+
+const format = (value) => {
+  if (typeof value === "string") return value;
+  if (value instanceof Error) return value.name + ": " + value.message;
+  if (value === undefined || typeof value === "function" || typeof value === "symbol" || typeof value === "bigint") {
+    return String(value);
+  }
+  try {
+    return JSON.stringify(value, null, 2);
+  } catch {
+    return String(value);
+  }
+};
+
+for (const level of ["log", "info", "warn", "error", "debug", "table", "dir"]) {
+  console[level] = (...args) => post({ type: "output", value: args.map(format).join(" ") });
+}
+
+self.addEventListener("unhandledrejection", (event) => {
+  post({ type: "error", value: format(event.reason) });
+});
+
+const require = (name) => {
+  throw new Error("Modules are not available in the sandbox: " + name);
+};
+
+self.onmessage = async (event) => {
+  const { code, language } = event.data;
+
+  try {
+    let source = code;
+
+    if (language === "typescript") {
+      post({ type: "status", value: "Loading TypeScript compiler..." });
+      importScripts(${JSON.stringify(TYPESCRIPT_URL)});
+      source = ts.transpileModule(code, {
+        compilerOptions: {
+          target: ts.ScriptTarget.ES2022,
+          module: ts.ModuleKind.CommonJS,
+        },
+      }).outputText;
+    }
+
+    const AsyncFunction = Object.getPrototypeOf(async function () {}).constructor;
+    const module = { exports: {} };
+    const run = new AsyncFunction("module", "exports", "require", source);
+
+    post({ type: "start" });
+    await run(module, module.exports, require);
+    post({ type: "done" });
+  } catch (error) {
+    post({ type: "error", value: format(error) });
+  }
+};
+`;
+
+/*
+ * iframe без allow-same-origin получает непрозрачный origin: у кода нет
+ * доступа к DOM, cookie и хранилищам приложения. Код выполняется в воркере,
+ * чтобы бесконечный цикл не блокировал страницу; удаление iframe по таймауту
+ * останавливает и воркер.
+ */
+const SANDBOX_HTML = `<!DOCTYPE html>
+<script>
+const worker = new Worker(
+  URL.createObjectURL(
+    new Blob([${JSON.stringify(WORKER_SOURCE).replace(/<\//g, "<\\/")}], {
+      type: "text/javascript",
+    })
+  )
+);
+worker.onmessage = (event) => parent.postMessage(event.data, "*");
+worker.onerror = (event) => {
+  event.preventDefault();
+  parent.postMessage({ type: "error", value: event.message }, "*");
+};
+window.onmessage = (event) => worker.postMessage(event.data);
+parent.postMessage({ type: "ready" }, "*");
+</script>`;
+
+type SandboxMessage =
+  | { type: "ready" | "start" | "done" }
+  | { type: "status" | "output" | "error"; value: string };
+
+/**
+ * Выполняет JavaScript или TypeScript в песочнице.
+ * @param onOutput - Вызывается для каждой строки вывода console.
+ * @param onStatus - Вызывается при загрузке компилятора TypeScript.
+ * @returns Промис, который отклоняется с ошибкой выполнения или по таймауту.
+ */
+export function runJavaScript({
+  code,
+  language,
+  onOutput,
+  onStatus,
+}: {
+  code: string;
+  language: Exclude<CodeLanguage, "python">;
+  onOutput: (value: string) => void;
+  onStatus: (message: string) => void;
+}): Promise<void> {
+  return new Promise((resolve, reject) => {
+    const iframe = document.createElement("iframe");
+    iframe.setAttribute("sandbox", "allow-scripts");
+    iframe.style.display = "none";
+    iframe.srcdoc = SANDBOX_HTML;
+
+    let timeout: ReturnType<typeof setTimeout> | undefined;
+
+    const cleanup = () => {
+      clearTimeout(timeout);
+      window.removeEventListener("message", handleMessage);
+      iframe.remove();
+    };
+
+    // Загрузка компилятора TypeScript в таймаут выполнения не входит:
+    // у неё свой, более длинный таймаут
+    const startTimeout = (
+      ms = JS_RUN_TIMEOUT_MS,
+      message = `Execution timed out after ${ms / 1000} seconds`
+    ) => {
+      clearTimeout(timeout);
+      timeout = setTimeout(() => {
+        cleanup();
+        reject(new Error(message));
+      }, ms);
+    };
+
+    function handleMessage(event: MessageEvent<SandboxMessage>) {
+      if (event.source !== iframe.contentWindow) return;
+
+      const message = event.data;
+
+      switch (message.type) {
+        case "ready":
+          iframe.contentWindow?.postMessage({ code, language }, "*");
+          break;
+        case "start":
+          startTimeout();
+          break;
+        case "status":
+          startTimeout(
+            TYPESCRIPT_LOAD_TIMEOUT_MS,
+            `TypeScript compiler did not load in ${
+              TYPESCRIPT_LOAD_TIMEOUT_MS / 1000
+            } seconds`
+          );
+          onStatus(message.value);
+          break;
+        case "output":
+          onOutput(message.value);
+          break;
+        case "done":
+          cleanup();
+          resolve();
+          break;
+        case "error":
+          cleanup();
+          reject(new Error(message.value));
+          break;
+      }
+    }
+
+    window.addEventListener("message", handleMessage);
+    startTimeout();
+    document.body.appendChild(iframe);
+  });
+}
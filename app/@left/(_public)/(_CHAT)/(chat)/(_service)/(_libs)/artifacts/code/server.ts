@@ -8,15 +8,17 @@ import {
   updateDocumentPrompt,
 } from "@/app/@left/(_public)/(_CHAT)/(chat)/(_service)/(_libs)/ai/prompts";
 import { createDocumentHandler } from "@/app/@left/(_public)/(_CHAT)/(chat)/(_service)/(_libs)/artifacts/server";
+import { recordTokenUsage } from "@/app/@left/(_public)/(_CHAT)/(chat)/(_service)/(_libs)/ai/usage";
+import { DEFAULT_CODE_LANGUAGE, toCodeLanguage } from "./languages";
 
 export const codeDocumentHandler = createDocumentHandler<"code">({
   kind: "code",
-  onCreateDocument: async ({ title, dataStream }) => {
+  onCreateDocument: async ({ title, language, dataStream, session }) => {
     let draftContent = "";
 
-    const { fullStream } = streamObject({
+    const { fullStream, usage } = streamObject({
       model: myProvider.languageModel("artifact-model"),
-      system: codePrompt,
+      system: codePrompt(language ?? DEFAULT_CODE_LANGUAGE),
       prompt: title,
       schema: z.object({
         code: z.string(),
@@ -41,14 +43,23 @@ export const codeDocumentHandler = createDocumentHandler<"code">({
       }
     }
 
+    await recordTokenUsage({
+      modelId: "artifact-model",
+      usage: await usage,
+      source: "artifact",
+      userId: session.user?.id,
+      userType: session.user?.type,
+    });
+
     return draftContent;
   },
-  onUpdateDocument: async ({ document, description, dataStream }) => {
+  onUpdateDocument: async ({ document, description, dataStream, session }) => {
     let draftContent = "";
 
-    const { fullStream } = streamObject({
+    const { fullStream, usage } = streamObject({
       model: myProvider.languageModel("artifact-model"),
-      system: updateDocumentPrompt(document.content, "code"),
+      system: `${codePrompt(toCodeLanguage(document.language))}
+${updateDocumentPrompt(document.content, "code")}`,
       prompt: description,
       schema: z.object({
         code: z.string(),
@@ -73,6 +84,14 @@ export const codeDocumentHandler = createDocumentHandler<"code">({
       }
     }
 
+    await recordTokenUsage({
+      modelId: "artifact-model",
+      usage: await usage,
+      source: "artifact",
+      userId: session.user?.id,
+      userType: session.user?.type,
+    });
+
     return draftContent;
   },
 });
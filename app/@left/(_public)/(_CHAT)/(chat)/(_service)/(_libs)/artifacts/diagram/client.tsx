@@ -0,0 +1,170 @@
+// @/app/@left/(_public)/(_CHAT)/(chat)/(_service)/(_libs)/artifacts/diagram/client.tsx
+
+import {
+  CopyIcon,
+  DownloadIcon,
+  ImageIcon,
+  MessageIcon,
+  RedoIcon,
+  UndoIcon,
+} from "@/components/shared/icons";
+import { toast } from "sonner";
+import {
+  Console,
+  ConsoleOutput,
+} from "@/app/@left/(_public)/(_CHAT)/(chat)/(_service)/(_components)/console";
+import { DiagramEditor } from "@/app/@left/(_public)/(_CHAT)/(chat)/(_service)/(_components)/diagram-editor";
+import { Artifact } from "../../../(_components)/create-artifact";
+import {
+  diagramToPngBlob,
+  diagramToSvgBlob,
+  downloadBlob,
+  renderDiagram,
+} from "./render";
+
+interface Metadata {
+  outputs: Array<ConsoleOutput>;
+}
+
+// Ошибка отрисовки в консоли одна и заменяется при каждой новой попытке
+const RENDER_OUTPUT_ID = "diagram-render";
+
+export const diagramArtifact = new Artifact<"diagram", Metadata>({
+  kind: "diagram",
+  description:
+    "Useful for architecture, flow, sequence and other diagrams written in Mermaid",
+  initialize: async ({ setMetadata }) => {
+    setMetadata({
+      outputs: [],
+    });
+  },
+  onStreamPart: ({ streamPart, setArtifact }) => {
+    if (streamPart.type === "diagram-delta") {
+      setArtifact((draftArtifact) => ({
+        ...draftArtifact,
+        content: streamPart.content as string,
+        isVisible: true,
+        status: "streaming",
+      }));
+    }
+  },
+  content: ({ metadata, setMetadata, ...props }) => {
+    return (
+      <>
+        <DiagramEditor
+          {...props}
+          onRenderError={(message) =>
+            setMetadata((current) => {
+              const outputs = (current?.outputs ?? []).filter(
+                (output) => output.id !== RENDER_OUTPUT_ID
+              );
+              if (!message) {
+                return outputs.length === current?.outputs?.length
+                  ? current
+                  : { ...current, outputs };
+              }
+              return {
+                ...current,
+                outputs: [
+                  ...outputs,
+                  {
+                    id: RENDER_OUTPUT_ID,
+                    status: "failed",
+                    contents: [{ type: "text", value: message }],
+                  },
+                ],
+              };
+            })
+          }
+        />
+
+        {metadata?.outputs && (
+          <Console
+            consoleOutputs={metadata.outputs}
+            setConsoleOutputs={() => {
+              setMetadata({
+                ...metadata,
+                outputs: [],
+              });
+            }}
+          />
+        )}
+      </>
+    );
+  },
+  actions: [
+    {
+      icon: <UndoIcon size={18} />,
+      description: "View Previous version",
+      onClick: ({ handleVersionChange }) => {
+        handleVersionChange("prev");
+      },
+      isDisabled: ({ currentVersionIndex }) => {
+        if (currentVersionIndex === 0) {
+          return true;
+        }
+
+        return false;
+      },
+    },
+    {
+      icon: <RedoIcon size={18} />,
+      description: "View Next version",
+      onClick: ({ handleVersionChange }) => {
+        handleVersionChange("next");
+      },
+      isDisabled: ({ isCurrentVersion }) => {
+        if (isCurrentVersion) {
+          return true;
+        }
+
+        return false;
+      },
+    },
+    {
+      icon: <CopyIcon size={18} />,
+      description: "Copy Mermaid source",
+      onClick: ({ content }) => {
+        navigator.clipboard.writeText(content);
+        toast.success("Copied to clipboard!");
+      },
+    },
+    {
+      icon: <DownloadIcon size={18} />,
+      description: "Download as .svg",
+      onClick: async ({ content }) => {
+        try {
+          const svg = await renderDiagram(content);
+          downloadBlob(diagramToSvgBlob(svg), "diagram.svg");
+        } catch (_) {
+          toast.error("Fix the diagram errors before exporting it");
+        }
+      },
+    },
+    {
+      icon: <ImageIcon size={18} />,
+      description: "Download as .png",
+      onClick: async ({ content }) => {
+        try {
+          const svg = await renderDiagram(content);
+          downloadBlob(await diagramToPngBlob(svg), "diagram.png");
+        } catch (_) {
+          toast.error("Fix the diagram errors before exporting it");
+        }
+      },
+    },
+  ],
+  toolbar: [
+    {
+      icon: <MessageIcon />,
+      description: "Add more detail",
+      onClick: ({ appendMessage }) => {
+        appendMessage({
+          role: "user",
+          content:
+            "Please add more detail to the diagram: missing steps, components and labels",
+        });
+      },
+    },
+  ],
+});
@@ -0,0 +1,118 @@
+// @/app/@left/(_public)/(_CHAT)/(chat)/(_service)/(_libs)/artifacts/diagram/render.ts
+
+/*
+ * Отрисовка Mermaid в браузере. Библиотека тяжёлая, поэтому загружается
+ * при первой отрисовке. Подписи рисуются SVG-текстом, а не HTML
+ * (htmlLabels: false): SVG с foreignObject нельзя перенести на canvas
+ * для выгрузки в PNG.
+ */
+
+export type DiagramTheme = "default" | "dark";
+
+// Масштаб PNG относительно размера SVG, чтобы картинка была чёткой
+const PNG_SCALE = 2;
+
+let renderCount = 0;
+// mermaid.render использует общее состояние: отрисовки идут по очереди
+let renderQueue: Promise<unknown> = Promise.resolve();
+
+/**
+ * SVG-разметка диаграммы. Ошибку синтаксиса бросает с сообщением Mermaid.
+ */
+export function renderDiagram(
+  source: string,
+  theme: DiagramTheme = "default"
+): Promise<string> {
+  const render = async () => {
+    const { default: mermaid } = await import("mermaid");
+
+    mermaid.initialize({
+      startOnLoad: false,
+      securityLevel: "strict",
+      suppressErrorRendering: true,
+      htmlLabels: false,
+      theme,
+    });
+
+    const { svg } = await mermaid.render(`diagram-${++renderCount}`, source);
+    return svg;
+  };
+
+  const result = renderQueue.then(render, render);
+  renderQueue = result.catch(() => {});
+  return result;
+}
+
+/**
+ * Размеры SVG из viewBox: Mermaid задаёт width="100%", а для canvas нужны
+ * размеры в пикселях.
+ */
+function withPixelSize(svg: string): {
+  svg: string;
+  width: number;
+  height: number;
+} {
+  const root = new DOMParser().parseFromString(
+    svg,
+    "image/svg+xml"
+  ).documentElement;
+  const [, , width = 800, height = 600] = (root.getAttribute("viewBox") ?? "")
+    .split(/[\s,]+/)
+    .map(Number)
+    .filter((value) => !Number.isNaN(value));
+
+  root.setAttribute("width", `${width}`);
+  root.setAttribute("height", `${height}`);
+  root.removeAttribute("style");
+
+  return {
+    svg: new XMLSerializer().serializeToString(root),
+    width,
+    height,
+  };
+}
+
+export function diagramToSvgBlob(svg: string): Blob {
+  return new Blob([withPixelSize(svg).svg], {
+    type: "image/svg+xml;charset=utf-8",
+  });
+}
+
+export async function diagramToPngBlob(svg: string): Promise<Blob> {
+  const { svg: sizedSvg, width, height } = withPixelSize(svg);
+
+  const image = new Image();
+  image.src = `data:image/svg+xml;charset=utf-8,${encodeURIComponent(
+    sizedSvg
+  )}`;
+  await image.decode();
+
+  const canvas = document.createElement("canvas");
+  canvas.width = Math.ceil(width * PNG_SCALE);
+  canvas.height = Math.ceil(height * PNG_SCALE);
+
+  const context = canvas.getContext("2d");
+  if (!context) throw new Error("Canvas is not supported");
+
+  context.fillStyle = "#ffffff";
+  context.fillRect(0, 0, canvas.width, canvas.height);
+  context.drawImage(image, 0, 0, canvas.width, canvas.height);
+
+  return new Promise((resolve, reject) =>
+    canvas.toBlob(
+      (blob) =>
+        blob ? resolve(blob) : reject(new Error("Failed to export PNG")),
+      "image/png"
+    )
+  );
+}
+
+export function downloadBlob(blob: Blob, fileName: string) {
+  const url = URL.createObjectURL(blob);
+  const link = document.createElement("a");
+  link.href = url;
+  link.download = fileName;
+  link.click();
+  // Ссылку освобождаем после того, как браузер начал загрузку
+  setTimeout(() => URL.revokeObjectURL(url), 0);
+}
@@ -0,0 +1,82 @@
+// @/app/@left/(_public)/(_CHAT)/(chat)/(_service)/(_libs)/artifacts/diagram/server.ts
+
+import { z } from "zod";
+import { DataStreamWriter, streamObject } from "ai";
+import type { Session } from "next-auth";
+import { myProvider } from "@/app/@left/(_public)/(_CHAT)/(chat)/(_service)/(_libs)/ai/providers";
+import {
+  diagramPrompt,
+  updateDocumentPrompt,
+} from "@/app/@left/(_public)/(_CHAT)/(chat)/(_service)/(_libs)/ai/prompts";
+import { createDocumentHandler } from "@/app/@left/(_public)/(_CHAT)/(chat)/(_service)/(_libs)/artifacts/server";
+import { recordTokenUsage } from "@/app/@left/(_public)/(_CHAT)/(chat)/(_service)/(_libs)/ai/usage";
+
+// Модель иногда оборачивает исходник в ```mermaid, хотя просили без этого
+function stripFence(source: string): string {
+  return source
+    .replace(/^\s*```(?:mermaid)?\s*\n?/, "")
+    .replace(/\n?```\s*$/, "");
+}
+
+async function streamDiagram({
+  system,
+  prompt,
+  dataStream,
+  session,
+}: {
+  system: string;
+  prompt: string;
+  dataStream: DataStreamWriter;
+  session: Session;
+}): Promise<string> {
+  let draftContent = "";
+
+  const { fullStream, usage } = streamObject({
+    model: myProvider.languageModel("artifact-model"),
+    system,
+    prompt,
+    schema: z.object({
+      source: z.string().describe("Mermaid source of the diagram"),
+    }),
+  });
+
+  for await (const delta of fullStream) {
+    if (delta.type === "object" && delta.object.source) {
+      draftContent = stripFence(delta.object.source);
+
+      dataStream.writeData({
+        type: "diagram-delta",
+        content: draftContent,
+      });
+    }
+  }
+
+  await recordTokenUsage({
+    modelId: "artifact-model",
+    usage: await usage,
+    source: "artifact",
+    userId: session.user?.id,
+    userType: session.user?.type,
+  });
+
+  return draftContent;
+}
+
+export const diagramDocumentHandler = createDocumentHandler<"diagram">({
+  kind: "diagram",
+  onCreateDocument: async ({ title, dataStream, session }) =>
+    streamDiagram({
+      system: diagramPrompt,
+      prompt: title,
+      dataStream,
+      session,
+    }),
+  onUpdateDocument: async ({ document, description, dataStream, session }) =>
+    streamDiagram({
+      system: `${diagramPrompt}
+${updateDocumentPrompt(document.content, "diagram")}`,
+      prompt: description,
+      dataStream,
+      session,
+    }),
+});
@@ -0,0 +1,155 @@
+// @/app/@left/(_public)/(_CHAT)/(chat)/(_service)/(_libs)/artifacts/project/client.tsx
+
+import { Artifact } from "../../../(_components)/create-artifact";
+import { DocumentSkeleton } from "@/app/@left/(_public)/(_CHAT)/(chat)/(_service)/(_components)/document-skeleton";
+import {
+  initialProjectEditorState,
+  ProjectDiffView,
+  ProjectEditor,
+  type ProjectEditorState,
+} from "@/app/@left/(_public)/(_CHAT)/(chat)/(_service)/(_components)/project-editor";
+import {
+  ClockRewind,
+  DownloadIcon,
+  LogsIcon,
+  MessageIcon,
+  RedoIcon,
+  UndoIcon,
+} from "@/components/shared/icons";
+
+export const projectArtifact = new Artifact<"project", ProjectEditorState>({
+  kind: "project",
+  description:
+    "Useful for multi-file code projects, like apps, packages and websites.",
+  initialize: async ({ setMetadata }) => {
+    setMetadata(initialProjectEditorState);
+  },
+  onStreamPart: ({ streamPart, setArtifact }) => {
+    if (streamPart.type === "project-delta") {
+      setArtifact((draftArtifact) => ({
+        ...draftArtifact,
+        content: streamPart.content as string,
+        isVisible: true,
+        status: "streaming",
+      }));
+    }
+  },
+  content: ({
+    mode,
+    status,
+    content,
+    isCurrentVersion,
+    currentVersionIndex,
+    onSaveContent,
+    getDocumentContentById,
+    isLoading,
+    metadata,
+    setMetadata,
+  }) => {
+    if (isLoading) {
+      return <DocumentSkeleton artifactKind="project" />;
+    }
+
+    const state = metadata ?? initialProjectEditorState;
+
+    if (mode === "diff") {
+      return (
+        <ProjectDiffView
+          oldContent={getDocumentContentById(currentVersionIndex - 1)}
+          newContent={getDocumentContentById(currentVersionIndex)}
+          state={state}
+          onStateChange={setMetadata}
+        />
+      );
+    }
+
+    return (
+      <ProjectEditor
+        content={content}
+        onSaveContent={onSaveContent}
+        status={status}
+        isCurrentVersion={isCurrentVersion}
+        currentVersionIndex={currentVersionIndex}
+        state={state}
+        onStateChange={setMetadata}
+      />
+    );
+  },
+  actions: [
+    {
+      icon: <ClockRewind size={18} />,
+      description: "View changes",
+      onClick: ({ handleVersionChange }) => {
+        handleVersionChange("toggle");
+      },
+      isDisabled: ({ currentVersionIndex }) => {
+        if (currentVersionIndex === 0) {
+          return true;
+        }
+
+        return false;
+      },
+    },
+    {
+      icon: <UndoIcon size={18} />,
+      description: "View Previous version",
+      onClick: ({ handleVersionChange }) => {
+        handleVersionChange("prev");
+      },
+      isDisabled: ({ currentVersionIndex }) => {
+        if (currentVersionIndex === 0) {
+          return true;
+        }
+
+        return false;
+      },
+    },
+    {
+      icon: <RedoIcon size={18} />,
+      description: "View Next version",
+      onClick: ({ handleVersionChange }) => {
+        handleVersionChange("next");
+      },
+      isDisabled: ({ isCurrentVersion }) => {
+        if (isCurrentVersion) {
+          return true;
+        }
+
+        return false;
+      },
+    },
+    {
+      icon: <DownloadIcon size={18} />,
+      description: "Download as .zip",
+      onClick: ({ documentId, getDocumentUrl }) => {
+        const link = document.createElement("a");
+        link.href = getDocumentUrl(documentId, "/api/document/download");
+        link.download = "";
+        link.click();
+      },
+    },
+  ],
+  toolbar: [
+    {
+      icon: <MessageIcon />,
+      description: "Add comments",
+      onClick: ({ appendMessage }) => {
+        appendMessage({
+          role: "user",
+          content: "Add comments to the code of the project for understanding",
+        });
+      },
+    },
+    {
+      icon: <LogsIcon />,
+      description: "Add README",
+      onClick: ({ appendMessage }) => {
+        appendMessage({
+          role: "user",
+          content:
+            "Add or update README.md with setup and usage instructions for the project",
+        });
+      },
+    },
+  ],
+});
@@ -0,0 +1,268 @@
+// @/app/@left/(_public)/(_CHAT)/(chat)/(_service)/(_libs)/artifacts/project/files.ts
+
+/*
+ * Документ kind = project хранит в Document.content JSON вида
+ * { "files": [{ "path": "src/index.ts", "content": "..." }] }.
+ */
+
+export interface ProjectFile {
+  path: string;
+  content: string;
+}
+
+export interface ProjectTreeNode {
+  name: string;
+  path: string;
+  children?: ProjectTreeNode[];
+}
+
+export type ProjectFileChange = "added" | "removed" | "modified";
+
+export interface ProjectFileDiff {
+  path: string;
+  change: ProjectFileChange;
+  oldContent: string;
+  newContent: string;
+}
+
+/**
+ * Относительный путь с прямыми слэшами: "." и ".." разрешаются, но не выше
+ * корня проекта — файлы распаковываются из zip и не должны выходить за его
+ * папку.
+ */
+export function normalizeProjectPath(path: string): string {
+  const segments: string[] = [];
+
+  for (const segment of path.replace(/\\/g, "/").split("/")) {
+    if (segment === "..") {
+      segments.pop();
+    } else if (segment && segment !== ".") {
+      segments.push(segment);
+    }
+  }
+
+  return segments.join("/");
+}
+
+/**
+ * Файлы проекта из содержимого документа. Повреждённое содержимое даёт
+ * пустой проект, повтор пути — последняя версия файла.
+ */
+export function parseProject(
+  content: string | null | undefined
+): ProjectFile[] {
+  if (!content) return [];
+
+  try {
+    const data = JSON.parse(content);
+    if (!Array.isArray(data?.files)) return [];
+
+    const files = new Map<string, ProjectFile>();
+    for (const file of data.files) {
+      if (typeof file?.path !== "string") continue;
+
+      const path = normalizeProjectPath(file.path);
+      if (!path) continue;
+
+      files.set(path, {
+        path,
+        content: typeof file.content === "string" ? file.content : "",
+      });
+    }
+
+    return Array.from(files.values());
+  } catch {
+    return [];
+  }
+}
+
+export function serializeProject(files: ProjectFile[]): string {
+  return JSON.stringify({ files });
+}
+
+/**
+ * Применяет точечную правку: изменённые и новые файлы заменяются целиком,
+ * удалённые убираются, остальные остаются как были.
+ */
+export function applyProjectChanges(
+  files: ProjectFile[],
+  changedFiles: ProjectFile[],
+  deletedPaths: string[] = []
+): ProjectFile[] {
+  const deleted = new Set(deletedPaths.map(normalizeProjectPath));
+  const changed = new Map(
+    changedFiles
+      .map((file) => ({ ...file, path: normalizeProjectPath(file.path) }))
+      .filter((file) => file.path)
+      .map((file) => [file.path, file])
+  );
+
+  const result = files
+    .filter((file) => !deleted.has(file.path))
+    .map((file) => changed.get(file.path) ?? file);
+
+  for (const file of changed.values()) {
+    if (!files.some((current) => current.path === file.path)) {
+      result.push(file);
+    }
+  }
+
+  return result;
+}
+
+/**
+ * Язык файла для подсветки в CodeEditor; "text" — без подсветки.
+ */
+export function projectFileLanguage(path: string): string {
+  const extension = path.split(".").pop()?.toLowerCase();
+
+  switch (extension) {
+    case "py":
+      return "python";
+    case "js":
+    case "jsx":
+    case "mjs":
+    case "cjs":
+      return "javascript";
+    case "ts":
+    case "tsx":
+    case "mts":
+    case "cts":
+      return "typescript";
+    default:
+      return "text";
+  }
+}
+
+/**
+ * Дерево файлов для проводника: папки перед файлами, всё по алфавиту.
+ */
+export function buildProjectTree(files: ProjectFile[]): ProjectTreeNode[] {
+  const root: ProjectTreeNode = { name: "", path: "", children: [] };
+
+  for (const file of files) {
+    const segments = file.path.split("/");
+    let node = root;
+
+    segments.forEach((name, index) => {
+      const path = segments.slice(0, index + 1).join("/");
+      const isFile = index === segments.length - 1;
+      let child = node.children?.find(
+        (current) =>
+          current.name === name && (current.children === undefined) === isFile
+      );
+
+      if (!child) {
+        child = isFile ? { name, path } : { name, path, children: [] };
+        node.children?.push(child);
+      }
+
+      node = child;
+    });
+  }
+
+  const sort = (nodes: ProjectTreeNode[]): ProjectTreeNode[] =>
+    nodes
+      .map((node) =>
+        node.children ? { ...node, children: sort(node.children) } : node
+      )
+      .sort(
+        (a, b) =>
+          Number(!a.children) - Number(!b.children) ||
+          a.name.localeCompare(b.name)
+      );
+
+  return sort(root.children ?? []);
+}
+
+/**
+ * Изменённые файлы между двумя версиями проекта в порядке путей.
+ */
+export function diffProjects(
+  oldFiles: ProjectFile[],
+  newFiles: ProjectFile[]
+): ProjectFileDiff[] {
+  const oldByPath = new Map(oldFiles.map((file) => [file.path, file.content]));
+  const newByPath = new Map(newFiles.map((file) => [file.path, file.content]));
+  const paths = Array.from(
+    new Set([...oldByPath.keys(), ...newByPath.keys()])
+  ).sort((a, b) => a.localeCompare(b));
+
+  const diffs: ProjectFileDiff[] = [];
+  for (const path of paths) {
+    const oldContent = oldByPath.get(path);
+    const newContent = newByPath.get(path);
+
+    if (oldContent === newContent) continue;
+
+    diffs.push({
+      path,
+      change:
+        oldContent === undefined
+          ? "added"
+          : newContent === undefined
+          ? "removed"
+          : "modified",
+      oldContent: oldContent ?? "",
+      newContent: newContent ?? "",
+    });
+  }
+
+  return diffs;
+}
+
+export interface DiffLine {
+  type: "equal" | "added" | "removed";
+  value: string;
+}
+
+// Дальше таблица LCS слишком велика: файл показывается заменённым целиком
+const MAX_DIFF_CELLS = 4_000_000;
+
+/**
+ * Построчный diff двух версий файла (наибольшая общая подпоследовательность).
+ */
+export function diffLines(oldContent: string, newContent: string): DiffLine[] {
+  const oldLines = oldContent ? oldContent.split("\n") : [];
+  const newLines = newContent ? newContent.split("\n") : [];
+  const removed = (value: string): DiffLine => ({ type: "removed", value });
+  const added = (value: string): DiffLine => ({ type: "added", value });
+
+  if (oldLines.length * newLines.length > MAX_DIFF_CELLS) {
+    return [...oldLines.map(removed), ...newLines.map(added)];
+  }
+
+  const width = newLines.length + 1;
+  const lcs = new Uint32Array((oldLines.length + 1) * width);
+
+  for (let i = oldLines.length - 1; i >= 0; i--) {
+    for (let j = newLines.length - 1; j >= 0; j--) {
+      lcs[i * width + j] =
+        oldLines[i] === newLines[j]
+          ? lcs[(i + 1) * width + j + 1] + 1
+          : Math.max(lcs[(i + 1) * width + j], lcs[i * width + j + 1]);
+    }
+  }
+
+  const lines: DiffLine[] = [];
+  let i = 0;
+  let j = 0;
+
+  while (i < oldLines.length && j < newLines.length) {
+    if (oldLines[i] === newLines[j]) {
+      lines.push({ type: "equal", value: oldLines[i] });
+      i++;
+      j++;
+    } else if (lcs[(i + 1) * width + j] >= lcs[i * width + j + 1]) {
+      lines.push(removed(oldLines[i++]));
+    } else {
+      lines.push(added(newLines[j++]));
+    }
+  }
+
+  return [
+    ...lines,
+    ...oldLines.slice(i).map(removed),
+    ...newLines.slice(j).map(added),
+  ];
+}
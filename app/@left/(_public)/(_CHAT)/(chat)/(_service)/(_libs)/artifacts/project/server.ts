@@ -0,0 +1,121 @@
+// @/app/@left/(_public)/(_CHAT)/(chat)/(_service)/(_libs)/artifacts/project/server.ts
+
+import { z } from "zod";
+import { streamObject } from "ai";
+import { myProvider } from "@/app/@left/(_public)/(_CHAT)/(chat)/(_service)/(_libs)/ai/providers";
+import {
+  projectPrompt,
+  updateProjectPrompt,
+} from "@/app/@left/(_public)/(_CHAT)/(chat)/(_service)/(_libs)/ai/prompts";
+import { createDocumentHandler } from "@/app/@left/(_public)/(_CHAT)/(chat)/(_service)/(_libs)/artifacts/server";
+import { recordTokenUsage } from "@/app/@left/(_public)/(_CHAT)/(chat)/(_service)/(_libs)/ai/usage";
+import {
+  applyProjectChanges,
+  parseProject,
+  serializeProject,
+  type ProjectFile,
+} from "./files";
+
+const fileSchema = z.object({
+  path: z.string().describe("Path relative to the project root"),
+  content: z.string(),
+});
+
+// Файлы приходят частями: последний файл может быть ещё без пути
+function completeFiles(
+  files: Array<Partial<ProjectFile> | undefined> | undefined
+): ProjectFile[] {
+  return (files ?? []).flatMap((file) =>
+    file?.path ? [{ path: file.path, content: file.content ?? "" }] : []
+  );
+}
+
+export const projectDocumentHandler = createDocumentHandler<"project">({
+  kind: "project",
+  onCreateDocument: async ({ title, dataStream, session }) => {
+    let draftContent = serializeProject([]);
+
+    const { fullStream, usage } = streamObject({
+      model: myProvider.languageModel("artifact-model"),
+      system: projectPrompt,
+      prompt: title,
+      schema: z.object({
+        files: z.array(fileSchema),
+      }),
+    });
+
+    for await (const delta of fullStream) {
+      if (delta.type === "object") {
+        draftContent = serializeProject(
+          applyProjectChanges([], completeFiles(delta.object.files))
+        );
+
+        dataStream.writeData({
+          type: "project-delta",
+          content: draftContent,
+        });
+      }
+    }
+
+    await recordTokenUsage({
+      modelId: "artifact-model",
+      usage: await usage,
+      source: "artifact",
+      userId: session.user?.id,
+      userType: session.user?.type,
+    });
+
+    return draftContent;
+  },
+  onUpdateDocument: async ({
+    document,
+    description,
+    files: paths,
+    dataStream,
+    session,
+  }) => {
+    const files = parseProject(document.content);
+    let draftContent = serializeProject(files);
+
+    const { fullStream, usage } = streamObject({
+      model: myProvider.languageModel("artifact-model"),
+      system: updateProjectPrompt(files, paths),
+      prompt: description,
+      schema: z.object({
+        files: z.array(fileSchema),
+        deletedPaths: z.array(z.string()),
+      }),
+    });
+
+    for await (const delta of fullStream) {
+      if (delta.type === "object") {
+        const { object } = delta;
+
+        draftContent = serializeProject(
+          applyProjectChanges(
+            files,
+            completeFiles(object.files),
+            (object.deletedPaths ?? []).filter(
+              (path): path is string => typeof path === "string"
+            )
+          )
+        );
+
+        dataStream.writeData({
+          type: "project-delta",
+          content: draftContent,
+        });
+      }
+    }
+
+    await recordTokenUsage({
+      modelId: "artifact-model",
+      usage: await usage,
+      source: "artifact",
+      userId: session.user?.id,
+      userType: session.user?.type,
+    });
+
+    return draftContent;
+  },
+});
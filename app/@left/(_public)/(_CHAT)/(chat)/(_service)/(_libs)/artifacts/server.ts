@@ -3,12 +3,16 @@
 import { codeDocumentHandler } from "@/app/@left/(_public)/(_CHAT)/(chat)/(_service)/(_libs)/artifacts/code/server";
 import { imageDocumentHandler } from "@/app/@left/(_public)/(_CHAT)/(chat)/(_service)/(_libs)/artifacts/image/server";
 import { sheetDocumentHandler } from "@/app/@left/(_public)/(_CHAT)/(chat)/(_service)/(_libs)/artifacts/sheet/server";
+import { projectDocumentHandler } from "@/app/@left/(_public)/(_CHAT)/(chat)/(_service)/(_libs)/artifacts/project/server";
+import { chartDocumentHandler } from "@/app/@left/(_public)/(_CHAT)/(chat)/(_service)/(_libs)/artifacts/chart/server";
+import { diagramDocumentHandler } from "@/app/@left/(_public)/(_CHAT)/(chat)/(_service)/(_libs)/artifacts/diagram/server";
 import { textDocumentHandler } from "@/app/@left/(_public)/(_CHAT)/(chat)/(_service)/(_libs)/artifacts/text/server";
 import { ArtifactKind } from "@/app/@left/(_public)/(_CHAT)/(chat)/(_service)/(_components)/artifact";
 import { DataStreamWriter } from "ai";
 import { Document } from "@prisma/client";
 import { Session } from "next-auth";
 import { saveDocument } from "../../(_db-queries)/document/queries";
+import type { CodeLanguage } from "./code/languages";
 
 export interface SaveDocumentProps {
   id: string;
@@ -21,6 +25,9 @@ export interface SaveDocumentProps {
 export interface CreateDocumentCallbackProps {
   id: string;
   title: string;
+  language?: CodeLanguage;
+  // Документ-таблица, по данным которой строится график
+  sheetId?: string;
   dataStream: DataStreamWriter;
   session: Session;
 }
@@ -28,6 +35,10 @@ export interface CreateDocumentCallbackProps {
 export interface UpdateDocumentCallbackProps {
   document: Document;
   description: string;
+  // Пути файлов проекта, которые нужно изменить
+  files?: string[];
+  // Столбец таблицы (буква или заголовок), который нужно заполнить или преобразовать
+  column?: string;
   dataStream: DataStreamWriter;
   session: Session;
 }
@@ -49,6 +60,8 @@ export function createDocumentHandler<T extends ArtifactKind>(config: {
       const draftContent = await config.onCreateDocument({
         id: args.id,
         title: args.title,
+        language: args.language,
+        sheetId: args.sheetId,
         dataStream: args.dataStream,
         session: args.session,
       });
@@ -59,6 +72,7 @@ export function createDocumentHandler<T extends ArtifactKind>(config: {
           title: args.title,
           content: draftContent,
           kind: config.kind,
+          language: args.language,
           userId: args.session.user.id,
         });
       }
@@ -69,6 +83,8 @@ export function createDocumentHandler<T extends ArtifactKind>(config: {
       const draftContent = await config.onUpdateDocument({
         document: args.document,
         description: args.description,
+        files: args.files,
+        column: args.column,
         dataStream: args.dataStream,
         session: args.session,
       });
@@ -79,6 +95,7 @@ export function createDocumentHandler<T extends ArtifactKind>(config: {
           title: args.document.title,
           content: draftContent,
           kind: config.kind,
+          language: args.document.language,
           userId: args.session.user.id,
         });
       }
@@ -96,6 +113,17 @@ export const documentHandlersByArtifactKind: Array<DocumentHandler> = [
   codeDocumentHandler,
   imageDocumentHandler,
   sheetDocumentHandler,
+  projectDocumentHandler,
+  chartDocumentHandler,
+  diagramDocumentHandler,
 ];
 
-export const artifactKinds = ["text", "code", "image", "sheet"] as const;
+export const artifactKinds = [
+  "text",
+  "code",
+  "image",
+  "sheet",
+  "project",
+  "chart",
+  "diagram",
+] as const;
@@ -3,20 +3,23 @@
 import { Artifact } from "../../../(_components)/create-artifact";
 import {
   CopyIcon,
+  DownloadIcon,
   LineChartIcon,
   RedoIcon,
   SparklesIcon,
   UndoIcon,
 } from "@/components/shared/icons";
 import { SpreadsheetEditor } from "@/app/@left/(_public)/(_CHAT)/(chat)/(_service)/(_components)/sheet-editor";
-import { parse, unparse } from "papaparse";
 import { toast } from "sonner";
+import { parseSheet, sheetToCsv } from "./data";
+import { getSheetDisplayValues } from "./formulas";
 
 type Metadata = any;
 
 export const sheetArtifact = new Artifact<"sheet", Metadata>({
   kind: "sheet",
-  description: "Useful for working with spreadsheets",
+  description:
+    "Useful for working with spreadsheets: formulas, typed columns, CSV and XLSX import-export",
   initialize: async () => {},
   onStreamPart: ({ setArtifact, streamPart }) => {
     if (streamPart.type === "sheet-delta") {
@@ -78,18 +81,40 @@ export const sheetArtifact = new Artifact<"sheet", Metadata>({
       icon: <CopyIcon />,
       description: "Copy as .csv",
       onClick: ({ content }) => {
-        const parsed = parse<string[]>(content, { skipEmptyLines: true });
+        const sheet = parseSheet(content);
 
-        const nonEmptyRows = parsed.data.filter((row) =>
-          row.some((cell) => cell.trim() !== "")
+        navigator.clipboard.writeText(
+          sheetToCsv(sheet, getSheetDisplayValues(sheet))
         );
-
-        const cleanedCsv = unparse(nonEmptyRows);
-
-        navigator.clipboard.writeText(cleanedCsv);
         toast.success("Copied csv to clipboard!");
       },
     },
+    {
+      icon: <DownloadIcon size={18} />,
+      description: "Download as .csv",
+      onClick: ({ documentId, getDocumentUrl }) => {
+        const link = document.createElement("a");
+        link.href = `${getDocumentUrl(
+          documentId,
+          "/api/document/download"
+        )}&format=csv`;
+        link.download = "";
+        link.click();
+      },
+    },
+    {
+      icon: <DownloadIcon size={18} />,
+      description: "Download as .xlsx",
+      onClick: ({ documentId, getDocumentUrl }) => {
+        const link = document.createElement("a");
+        link.href = `${getDocumentUrl(
+          documentId,
+          "/api/document/download"
+        )}&format=xlsx`;
+        link.download = "";
+        link.click();
+      },
+    },
   ],
   toolbar: [
     {
@@ -0,0 +1,300 @@
+// @/app/@left/(_public)/(_CHAT)/(chat)/(_service)/(_libs)/artifacts/sheet/data.ts
+
+import { parse, unparse } from "papaparse";
+
+/*
+ * Документ kind = sheet хранит в Document.content JSON вида
+ * { "columns": [{ "name": "Price", "type": "number" }], "rows": [["9.5"]] }.
+ * Первая строка таблицы — заголовки (columns[].name), поэтому данные
+ * начинаются со строки 2, как в Excel: формула "=SUM(B2:B10)" одинаково
+ * работает в редакторе и в выгруженном .xlsx. Старые документы хранят CSV
+ * и читаются так же.
+ */
+
+export const SHEET_COLUMN_TYPES = [
+  "text",
+  "number",
+  "date",
+  "boolean",
+] as const;
+
+export type SheetColumnType = (typeof SHEET_COLUMN_TYPES)[number];
+
+export interface SheetColumn {
+  name: string;
+  type: SheetColumnType;
+}
+
+export interface SheetData {
+  columns: SheetColumn[];
+  rows: string[][];
+}
+
+// Номер строки таблицы, с которой начинаются данные (строка 1 — заголовки)
+export const FIRST_DATA_ROW = 2;
+
+export function isSheetColumnType(value: unknown): value is SheetColumnType {
+  return SHEET_COLUMN_TYPES.includes(value as SheetColumnType);
+}
+
+export function isFormula(value: string): boolean {
+  return value.startsWith("=") && value.length > 1;
+}
+
+/**
+ * Буквенное имя столбца: 0 → A, 25 → Z, 26 → AA.
+ */
+export function columnLetter(index: number): string {
+  let letter = "";
+  for (let current = index + 1; current > 0; ) {
+    const remainder = (current - 1) % 26;
+    letter = String.fromCharCode(65 + remainder) + letter;
+    current = Math.floor((current - 1) / 26);
+  }
+  return letter;
+}
+
+/**
+ * Индекс столбца по буквам: A → 0, AA → 26; -1, если это не буквы.
+ */
+export function columnIndex(letter: string): number {
+  if (!/^[A-Za-z]+$/.test(letter)) return -1;
+
+  let index = 0;
+  for (const char of letter.toUpperCase()) {
+    index = index * 26 + (char.charCodeAt(0) - 64);
+  }
+  return index - 1;
+}
+
+const BOOLEAN_VALUES = ["true", "false", "yes", "no"];
+
+export function parseNumber(value: string): number | null {
+  const normalized = value.trim().replace(/[\s,](?=\d{3}(\D|$))/g, "");
+  if (
+    !normalized ||
+    !/^[-+]?(\d+\.?\d*|\.\d+)(e[-+]?\d+)?%?$/i.test(normalized)
+  )
+    return null;
+
+  const number = Number(normalized.replace(/%$/, ""));
+  return normalized.endsWith("%") ? number / 100 : number;
+}
+
+export function parseDate(value: string): Date | null {
+  const match = value
+    .trim()
+    .match(/^(\d{4})-(\d{2})-(\d{2})(?:[T ](\d{2}):(\d{2})(?::(\d{2}))?)?$/);
+  if (!match) return null;
+
+  const [, year, month, day, hours = "0", minutes = "0", seconds = "0"] = match;
+  const date = new Date(
+    Date.UTC(+year, +month - 1, +day, +hours, +minutes, +seconds)
+  );
+  return date.getUTCMonth() === +month - 1 ? date : null;
+}
+
+export function parseBoolean(value: string): boolean | null {
+  const normalized = value.trim().toLowerCase();
+  if (!BOOLEAN_VALUES.includes(normalized)) return null;
+  return normalized === "true" || normalized === "yes";
+}
+
+/**
+ * Подходит ли значение ячейки типу столбца. Пустые ячейки и формулы
+ * подходят любому типу.
+ */
+export function isValidCell(value: string, type: SheetColumnType): boolean {
+  if (!value.trim() || isFormula(value)) return true;
+
+  switch (type) {
+    case "number":
+      return parseNumber(value) !== null;
+    case "date":
+      return parseDate(value) !== null;
+    case "boolean":
+      return parseBoolean(value) !== null;
+    default:
+      return true;
+  }
+}
+
+/**
+ * Тип столбца по его значениям: все непустые значения-не-формулы одного
+ * типа — этот тип, иначе text.
+ */
+export function inferColumnType(values: string[]): SheetColumnType {
+  const filled = values.filter((value) => value.trim() && !isFormula(value));
+  if (filled.length === 0) return "text";
+
+  for (const type of ["number", "date", "boolean"] as const) {
+    if (filled.every((value) => isValidCell(value, type))) return type;
+  }
+  return "text";
+}
+
+/**
+ * Выравнивает строки по числу столбцов и убирает пустые строки и столбцы
+ * без заголовка в конце (старый редактор дополнял CSV до 50×26).
+ */
+export function normalizeSheet(sheet: SheetData): SheetData {
+  let width = sheet.rows.reduce(
+    (max, row) => Math.max(max, row.length),
+    sheet.columns.length
+  );
+  while (
+    width > 0 &&
+    !sheet.columns[width - 1]?.name.trim() &&
+    sheet.rows.every((row) => !row[width - 1]?.trim())
+  ) {
+    width--;
+  }
+
+  const columns = Array.from(
+    { length: width },
+    (_, index) => sheet.columns[index] ?? { name: "", type: "text" as const }
+  );
+  const rows = sheet.rows.map((row) =>
+    Array.from({ length: width }, (_, index) => row[index] ?? "")
+  );
+
+  while (rows.length > 0 && rows.at(-1)?.every((cell) => !cell.trim())) {
+    rows.pop();
+  }
+
+  return { columns, rows };
+}
+
+/**
+ * Таблица из строк: первая — заголовки. Типы столбцов берутся из
+ * columnTypes, а если не заданы — определяются по значениям.
+ */
+export function sheetFromTable(
+  table: string[][],
+  columnTypes: unknown[] = []
+): SheetData {
+  const [header = [], ...rows] = table;
+
+  const width = rows.reduce(
+    (max, row) => Math.max(max, row.length),
+    header.length
+  );
+  const columns = Array.from({ length: width }, (_, index) => {
+    const type = columnTypes[index];
+    return {
+      name: (header[index] ?? "").trim(),
+      type: isSheetColumnType(type)
+        ? type
+        : inferColumnType(rows.map((row) => row[index] ?? "")),
+    };
+  });
+
+  return normalizeSheet({ columns, rows });
+}
+
+export function sheetFromCsv(csv: string, columnTypes?: unknown[]): SheetData {
+  return sheetFromTable(
+    parse<string[]>(csv.trim(), { skipEmptyLines: true }).data,
+    columnTypes
+  );
+}
+
+/**
+ * Таблица из содержимого документа: JSON или CSV старых версий.
+ * Повреждённый JSON даёт пустую таблицу.
+ */
+export function parseSheet(content: string | null | undefined): SheetData {
+  if (!content?.trim()) return { columns: [], rows: [] };
+
+  if (!content.trimStart().startsWith("{")) {
+    return sheetFromCsv(content);
+  }
+
+  try {
+    const data = JSON.parse(content);
+    const columns: SheetColumn[] = Array.isArray(data?.columns)
+      ? data.columns.map((column: Partial<SheetColumn> | null) => ({
+          name: typeof column?.name === "string" ? column.name : "",
+          type: isSheetColumnType(column?.type) ? column.type : "text",
+        }))
+      : [];
+    const rows: string[][] = Array.isArray(data?.rows)
+      ? data.rows.map((row: unknown) =>
+          Array.isArray(row)
+            ? row.map((cell) =>
+                typeof cell === "string" ? cell : cell == null ? "" : `${cell}`
+              )
+            : []
+        )
+      : [];
+
+    return normalizeSheet({ columns, rows });
+  } catch {
+    return { columns: [], rows: [] };
+  }
+}
+
+export function serializeSheet(sheet: SheetData): string {
+  return JSON.stringify(normalizeSheet(sheet));
+}
+
+/**
+ * CSV с заголовками. values — значения для показа (getSheetDisplayValues),
+ * без них выгружаются сами формулы.
+ */
+export function sheetToCsv(sheet: SheetData, values?: string[][]): string {
+  return unparse([
+    sheet.columns.map((column) => column.name),
+    ...(values ?? sheet.rows),
+  ]);
+}
+
+/**
+ * Заменяет значения столбца сверху вниз; лишние значения добавляют строки.
+ * Столбец без данных получает тип по новым значениям.
+ */
+export function setSheetColumn(
+  sheet: SheetData,
+  index: number,
+  values: string[],
+  name?: string
+): SheetData {
+  const wasEmpty = sheet.rows.every((row) => !row[index]?.trim());
+  const rows = Array.from(
+    { length: Math.max(sheet.rows.length, values.length) },
+    (_, rowIndex) => {
+      const row = [...(sheet.rows[rowIndex] ?? [])];
+      if (rowIndex < values.length) row[index] = values[rowIndex];
+      return Array.from(row, (cell) => cell ?? "");
+    }
+  );
+
+  const columns = [...sheet.columns];
+  const column = columns[index] ?? { name: "", type: "text" as const };
+  columns[index] = {
+    name: name ?? column.name,
+    type: wasEmpty ? inferColumnType(values) : column.type,
+  };
+
+  return normalizeSheet({
+    columns: Array.from(
+      columns,
+      (current) => current ?? { name: "", type: "text" as const }
+    ),
+    rows,
+  });
+}
+
+/**
+ * Столбец по букве ("C") или заголовку (без учёта регистра); -1, если нет.
+ */
+export function findSheetColumn(sheet: SheetData, reference: string): number {
+  const trimmed = reference.trim();
+  const byName = sheet.columns.findIndex(
+    (column) => column.name.toLowerCase() === trimmed.toLowerCase()
+  );
+  if (byName !== -1) return byName;
+
+  const byLetter = columnIndex(trimmed);
+  return byLetter >= 0 && byLetter < sheet.columns.length ? byLetter : -1;
+}
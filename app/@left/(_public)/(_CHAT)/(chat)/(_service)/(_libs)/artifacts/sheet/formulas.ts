@@ -0,0 +1,515 @@
+// @/app/@left/(_public)/(_CHAT)/(chat)/(_service)/(_libs)/artifacts/sheet/formulas.ts
+
+import {
+  columnIndex,
+  FIRST_DATA_ROW,
+  isFormula,
+  parseBoolean,
+  parseNumber,
+  type SheetData,
+} from "./data";
+
+/*
+ * Вычисление формул таблицы. Поддерживается подмножество Excel: числа,
+ * строки, TRUE/FALSE, ссылки (A1, $B$2), диапазоны (A2:C10), операторы
+ * + - * / ^ & % = <> < > <= >= и функции из FUNCTIONS.
+ */
+
+export type FormulaErrorCode =
+  | "#ERROR!"
+  | "#VALUE!"
+  | "#REF!"
+  | "#NAME?"
+  | "#DIV/0!"
+  | "#CYCLE!";
+
+export class FormulaError {
+  constructor(readonly code: FormulaErrorCode) {}
+}
+
+// Пустая ячейка — пустая строка: в арифметике 0, в SUM не учитывается
+export type CellValue = number | string | boolean | FormulaError;
+
+interface CellAddress {
+  column: number;
+  row: number;
+}
+
+type FormulaNode =
+  | { type: "number"; value: number }
+  | { type: "string"; value: string }
+  | { type: "boolean"; value: boolean }
+  | { type: "ref"; address: CellAddress }
+  | { type: "range"; from: CellAddress; to: CellAddress }
+  | { type: "unary"; operator: "-" | "+" | "%"; operand: FormulaNode }
+  | {
+      type: "binary";
+      operator: string;
+      left: FormulaNode;
+      right: FormulaNode;
+    }
+  | { type: "call"; name: string; args: FormulaNode[] };
+
+type Token =
+  | { type: "number"; value: number }
+  | { type: "string"; value: string }
+  | { type: "ref"; address: CellAddress }
+  | { type: "name"; value: string }
+  | { type: "operator"; value: string };
+
+const TOKEN_PATTERN =
+  /\s*(?:(\d+\.?\d*(?:e[-+]?\d+)?|\.\d+(?:e[-+]?\d+)?)|"((?:[^"]|"")*)"|\$?([A-Za-z]+)\$?(\d+)(?![\w(])|([A-Za-z_][\w.]*)|(<>|<=|>=|[-+*/^&%=<>(),:]))/iy;
+
+function tokenize(formula: string): Token[] {
+  const tokens: Token[] = [];
+  TOKEN_PATTERN.lastIndex = 0;
+
+  while (TOKEN_PATTERN.lastIndex < formula.length) {
+    if (!formula.slice(TOKEN_PATTERN.lastIndex).trim()) break;
+
+    const match = TOKEN_PATTERN.exec(formula);
+    if (!match) throw new FormulaError("#ERROR!");
+
+    const [, number, string, letters, row, name, operator] = match;
+    if (number !== undefined) {
+      tokens.push({ type: "number", value: Number(number) });
+    } else if (string !== undefined) {
+      tokens.push({ type: "string", value: string.replace(/""/g, '"') });
+    } else if (letters !== undefined) {
+      tokens.push({
+        type: "ref",
+        address: { column: columnIndex(letters), row: Number(row) },
+      });
+    } else if (name !== undefined) {
+      tokens.push({ type: "name", value: name.toUpperCase() });
+    } else {
+      tokens.push({ type: "operator", value: operator });
+    }
+  }
+
+  return tokens;
+}
+
+// Приоритет бинарных операторов, от слабого к сильному
+const PRECEDENCE: string[][] = [
+  ["=", "<>", "<", ">", "<=", ">="],
+  ["&"],
+  ["+", "-"],
+  ["*", "/"],
+  ["^"],
+];
+
+function parseFormula(formula: string): FormulaNode {
+  const tokens = tokenize(formula);
+  let position = 0;
+
+  const peek = () => tokens[position];
+  const isOperator = (value: string) =>
+    peek()?.type === "operator" &&
+    (peek() as { value: string }).value === value;
+  const expect = (value: string) => {
+    if (!isOperator(value)) throw new FormulaError("#ERROR!");
+    position++;
+  };
+
+  const parseBinary = (level: number): FormulaNode => {
+    if (level === PRECEDENCE.length) return parseUnary();
+
+    let left = parseBinary(level + 1);
+    for (;;) {
+      const token = peek();
+      if (
+        token?.type !== "operator" ||
+        !PRECEDENCE[level].includes(token.value)
+      ) {
+        return left;
+      }
+      position++;
+      left = {
+        type: "binary",
+        operator: token.value,
+        left,
+        right: parseBinary(level + 1),
+      };
+    }
+  };
+
+  const parseUnary = (): FormulaNode => {
+    if (isOperator("-") || isOperator("+")) {
+      const operator = (tokens[position++] as { value: "-" | "+" }).value;
+      return { type: "unary", operator, operand: parseUnary() };
+    }
+
+    let node = parsePrimary();
+    while (isOperator("%")) {
+      position++;
+      node = { type: "unary", operator: "%", operand: node };
+    }
+    return node;
+  };
+
+  const parsePrimary = (): FormulaNode => {
+    const token = tokens[position++];
+
+    switch (token?.type) {
+      case "number":
+        return { type: "number", value: token.value };
+      case "string":
+        return { type: "string", value: token.value };
+      case "ref": {
+        if (!isOperator(":")) return { type: "ref", address: token.address };
+        position++;
+        const end = tokens[position++];
+        if (end?.type !== "ref") throw new FormulaError("#ERROR!");
+        return { type: "range", from: token.address, to: end.address };
+      }
+      case "name": {
+        if (!isOperator("(")) {
+          if (token.value === "TRUE" || token.value === "FALSE") {
+            return { type: "boolean", value: token.value === "TRUE" };
+          }
+          throw new FormulaError("#NAME?");
+        }
+        position++;
+
+        const args: FormulaNode[] = [];
+        if (!isOperator(")")) {
+          args.push(parseBinary(0));
+          while (isOperator(",")) {
+            position++;
+            args.push(parseBinary(0));
+          }
+        }
+        expect(")");
+        return { type: "call", name: token.value, args };
+      }
+      case "operator":
+        if (token.value === "(") {
+          const node = parseBinary(0);
+          expect(")");
+          return node;
+        }
+        throw new FormulaError("#ERROR!");
+      default:
+        throw new FormulaError("#ERROR!");
+    }
+  };
+
+  const node = parseBinary(0);
+  if (position !== tokens.length) throw new FormulaError("#ERROR!");
+  return node;
+}
+
+function toNumber(value: CellValue): number {
+  if (value instanceof FormulaError) throw value;
+  if (typeof value === "number") return value;
+  if (typeof value === "boolean") return Number(value);
+  if (!value.trim()) return 0;
+
+  const number = parseNumber(value);
+  if (number === null) throw new FormulaError("#VALUE!");
+  return number;
+}
+
+function toText(value: CellValue): string {
+  if (value instanceof FormulaError) throw value;
+  if (typeof value === "boolean") return value ? "TRUE" : "FALSE";
+  if (typeof value === "number") return formatNumber(value);
+  return value;
+}
+
+function toBoolean(value: CellValue): boolean {
+  if (value instanceof FormulaError) throw value;
+  if (typeof value === "boolean") return value;
+  if (typeof value === "number") return value !== 0;
+
+  const boolean = parseBoolean(value);
+  if (boolean === null) return toNumber(value) !== 0;
+  return boolean;
+}
+
+function formatNumber(value: number): string {
+  // 12 значащих цифр убирают хвосты вроде 0.30000000000000004
+  return String(Number(value.toPrecision(12)));
+}
+
+function compare(left: CellValue, right: CellValue): number {
+  if (typeof left === "string" && typeof right === "string") {
+    const leftNumber = parseNumber(left);
+    const rightNumber = parseNumber(right);
+    if (leftNumber === null || rightNumber === null) {
+      return left.localeCompare(right, undefined, { sensitivity: "base" });
+    }
+    return leftNumber - rightNumber;
+  }
+  if (typeof left === "string" && parseNumber(left) === null) return 1;
+  if (typeof right === "string" && parseNumber(right) === null) return -1;
+  return toNumber(left) - toNumber(right);
+}
+
+type Argument = { values: CellValue[]; isRange: boolean };
+
+// Числа для агрегатов: в диапазонах текст и пустые ячейки пропускаются
+function numbers(args: Argument[]): number[] {
+  return args.flatMap(({ values, isRange }) =>
+    values.flatMap((value) => {
+      if (value instanceof FormulaError) throw value;
+      if (isRange) {
+        if (typeof value === "number") return [value];
+        const number = typeof value === "string" ? parseNumber(value) : null;
+        return number === null ? [] : [number];
+      }
+      return [toNumber(value)];
+    })
+  );
+}
+
+function single(args: Argument[], index: number): CellValue {
+  const argument = args[index];
+  if (!argument) throw new FormulaError("#VALUE!");
+  if (argument.values.length !== 1) throw new FormulaError("#VALUE!");
+  return argument.values[0];
+}
+
+const FUNCTIONS: Record<string, (args: Argument[]) => CellValue> = {
+  SUM: (args) => numbers(args).reduce((sum, value) => sum + value, 0),
+  AVERAGE: (args) => {
+    const values = numbers(args);
+    if (values.length === 0) throw new FormulaError("#DIV/0!");
+    return values.reduce((sum, value) => sum + value, 0) / values.length;
+  },
+  MIN: (args) => {
+    const values = numbers(args);
+    return values.length ? Math.min(...values) : 0;
+  },
+  MAX: (args) => {
+    const values = numbers(args);
+    return values.length ? Math.max(...values) : 0;
+  },
+  COUNT: (args) => numbers(args).length,
+  COUNTA: (args) =>
+    args.flatMap(({ values }) => values).filter((value) => value !== "").length,
+  ROUND: (args) => {
+    const factor = 10 ** toNumber(args[1] ? single(args, 1) : 0);
+    return Math.round(toNumber(single(args, 0)) * factor) / factor;
+  },
+  ABS: (args) => Math.abs(toNumber(single(args, 0))),
+  SQRT: (args) => {
+    const value = toNumber(single(args, 0));
+    if (value < 0) throw new FormulaError("#VALUE!");
+    return Math.sqrt(value);
+  },
+  AND: (args) =>
+    args.flatMap(({ values }) => values).every((value) => toBoolean(value)),
+  OR: (args) =>
+    args.flatMap(({ values }) => values).some((value) => toBoolean(value)),
+  NOT: (args) => !toBoolean(single(args, 0)),
+  CONCAT: (args) =>
+    args
+      .flatMap(({ values }) => values)
+      .map(toText)
+      .join(""),
+  LEN: (args) => toText(single(args, 0)).length,
+  UPPER: (args) => toText(single(args, 0)).toUpperCase(),
+  LOWER: (args) => toText(single(args, 0)).toLowerCase(),
+  TRIM: (args) => toText(single(args, 0)).trim().replace(/\s+/g, " "),
+};
+FUNCTIONS.CONCATENATE = FUNCTIONS.CONCAT;
+
+/**
+ * Вычисляет все ячейки таблицы. Обычные ячейки дают число (если похожи
+ * на число), TRUE/FALSE в столбцах boolean или строку; формулы — результат
+ * или FormulaError. Строка 1 — заголовки столбцов.
+ */
+export function evaluateSheet(sheet: SheetData): CellValue[][] {
+  const results = new Map<string, CellValue>();
+  const evaluating = new Set<string>();
+  const parsed = new Map<string, FormulaNode | FormulaError>();
+
+  const cellValue = ({ column, row }: CellAddress): CellValue => {
+    if (column < 0 || row < 1) throw new FormulaError("#REF!");
+    if (row < FIRST_DATA_ROW) return sheet.columns[column]?.name ?? "";
+
+    const raw = sheet.rows[row - FIRST_DATA_ROW]?.[column] ?? "";
+    if (!isFormula(raw)) {
+      if (sheet.columns[column]?.type === "boolean") {
+        const boolean = parseBoolean(raw);
+        if (boolean !== null) return boolean;
+      }
+      return parseNumber(raw) ?? raw;
+    }
+
+    const key = `${column}:${row}`;
+    const cached = results.get(key);
+    if (cached !== undefined) return cached;
+    if (evaluating.has(key)) return new FormulaError("#CYCLE!");
+
+    evaluating.add(key);
+    let value: CellValue;
+    try {
+      let node = parsed.get(raw);
+      if (!node) {
+        try {
+          node = parseFormula(raw.slice(1));
+        } catch (error) {
+          node =
+            error instanceof FormulaError ? error : new FormulaError("#ERROR!");
+        }
+        parsed.set(raw, node);
+      }
+      if (node instanceof FormulaError) throw node;
+
+      value = evaluate(node);
+      if (typeof value === "number" && !Number.isFinite(value)) {
+        value = new FormulaError("#VALUE!");
+      }
+    } catch (error) {
+      value =
+        error instanceof FormulaError ? error : new FormulaError("#ERROR!");
+    } finally {
+      evaluating.delete(key);
+    }
+
+    results.set(key, value);
+    return value;
+  };
+
+  const rangeValues = (from: CellAddress, to: CellAddress): CellValue[] => {
+    const values: CellValue[] = [];
+    const lastRow = Math.min(
+      Math.max(from.row, to.row),
+      sheet.rows.length + FIRST_DATA_ROW - 1
+    );
+    for (let row = Math.min(from.row, to.row); row <= lastRow; row++) {
+      for (
+        let column = Math.min(from.column, to.column);
+        column <= Math.max(from.column, to.column);
+        column++
+      ) {
+        values.push(cellValue({ column, row }));
+      }
+    }
+    return values;
+  };
+
+  const evaluate = (node: FormulaNode): CellValue => {
+    switch (node.type) {
+      case "number":
+      case "string":
+      case "boolean":
+        return node.value;
+      case "ref": {
+        const value = cellValue(node.address);
+        if (value instanceof FormulaError) throw value;
+        return value;
+      }
+      case "range":
+        // Диапазон вне функции — как в Excel без динамических массивов
+        throw new FormulaError("#VALUE!");
+      case "unary": {
+        const value = toNumber(evaluate(node.operand));
+        if (node.operator === "%") return value / 100;
+        return node.operator === "-" ? -value : value;
+      }
+      case "binary": {
+        const left = evaluate(node.left);
+        const right = evaluate(node.right);
+        switch (node.operator) {
+          case "+":
+            return toNumber(left) + toNumber(right);
+          case "-":
+            return toNumber(left) - toNumber(right);
+          case "*":
+            return toNumber(left) * toNumber(right);
+          case "/": {
+            const divisor = toNumber(right);
+            if (divisor === 0) throw new FormulaError("#DIV/0!");
+            return toNumber(left) / divisor;
+          }
+          case "^":
+            return toNumber(left) ** toNumber(right);
+          case "&":
+            return toText(left) + toText(right);
+          case "=":
+            return compare(left, right) === 0;
+          case "<>":
+            return compare(left, right) !== 0;
+          case "<":
+            return compare(left, right) < 0;
+          case ">":
+            return compare(left, right) > 0;
+          case "<=":
+            return compare(left, right) <= 0;
+          default:
+            return compare(left, right) >= 0;
+        }
+      }
+      case "call": {
+        // IF и IFERROR вычисляют только нужную ветку: =IF(B2=0, 0, A2/B2)
+        if (node.name === "IF") {
+          const [condition, then, otherwise] = node.args;
+          if (!condition) throw new FormulaError("#VALUE!");
+          if (toBoolean(evaluate(condition))) {
+            return then ? evaluate(then) : true;
+          }
+          return otherwise ? evaluate(otherwise) : false;
+        }
+        if (node.name === "IFERROR") {
+          const [value, fallback] = node.args;
+          if (!value || !fallback) throw new FormulaError("#VALUE!");
+          try {
+            return evaluate(value);
+          } catch (error) {
+            if (error instanceof FormulaError) return evaluate(fallback);
+            throw error;
+          }
+        }
+
+        const fn = FUNCTIONS[node.name];
+        if (!fn) throw new FormulaError("#NAME?");
+
+        return fn(
+          node.args.map((arg) =>
+            arg.type === "range"
+              ? { values: rangeValues(arg.from, arg.to), isRange: true }
+              : { values: [evaluate(arg)], isRange: false }
+          )
+        );
+      }
+    }
+  };
+
+  // Строки по порядку: ссылки обычно ведут вверх и уже вычислены,
+  // поэтому цепочки вроде накопительного итога не углубляют рекурсию
+  return sheet.rows.map((row, rowIndex) =>
+    row.map((_, column) => {
+      try {
+        return cellValue({ column, row: rowIndex + FIRST_DATA_ROW });
+      } catch {
+        return new FormulaError("#ERROR!");
+      }
+    })
+  );
+}
+
+export function formatCellValue(value: CellValue): string {
+  if (value instanceof FormulaError) return value.code;
+  if (typeof value === "boolean") return value ? "TRUE" : "FALSE";
+  if (typeof value === "number") return formatNumber(value);
+  return value;
+}
+
+/**
+ * Значения для показа и выгрузки: формулы заменяются результатом,
+ * остальные ячейки остаются как введены.
+ */
+export function getSheetDisplayValues(
+  sheet: SheetData,
+  values: CellValue[][] = evaluateSheet(sheet)
+): string[][] {
+  return sheet.rows.map((row, rowIndex) =>
+    row.map((cell, column) =>
+      isFormula(cell) ? formatCellValue(values[rowIndex][column]) : cell
+    )
+  );
+}
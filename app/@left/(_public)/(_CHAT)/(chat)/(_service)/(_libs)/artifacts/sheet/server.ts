@@ -3,24 +3,40 @@
 import { myProvider } from "@/app/@left/(_public)/(_CHAT)/(chat)/(_service)/(_libs)/ai/providers";
 import {
   sheetPrompt,
-  updateDocumentPrompt,
+  updateSheetColumnPrompt,
+  updateSheetPrompt,
 } from "@/app/@left/(_public)/(_CHAT)/(chat)/(_service)/(_libs)/ai/prompts";
 import { createDocumentHandler } from "@/app/@left/(_public)/(_CHAT)/(chat)/(_service)/(_libs)/artifacts/server";
+import { recordTokenUsage } from "@/app/@left/(_public)/(_CHAT)/(chat)/(_service)/(_libs)/ai/usage";
 import { streamObject } from "ai";
 import { z } from "zod";
+import {
+  columnIndex,
+  findSheetColumn,
+  parseSheet,
+  serializeSheet,
+  setSheetColumn,
+  SHEET_COLUMN_TYPES,
+  sheetFromCsv,
+} from "./data";
+
+const sheetSchema = z.object({
+  csv: z.string().describe("CSV data"),
+  columnTypes: z
+    .array(z.enum(SHEET_COLUMN_TYPES))
+    .describe("Type of every column, in order"),
+});
 
 export const sheetDocumentHandler = createDocumentHandler<"sheet">({
   kind: "sheet",
-  onCreateDocument: async ({ title, dataStream }) => {
+  onCreateDocument: async ({ title, dataStream, session }) => {
     let draftContent = "";
 
-    const { fullStream } = streamObject({
+    const { fullStream, usage } = streamObject({
       model: myProvider.languageModel("artifact-model"),
       system: sheetPrompt,
       prompt: title,
-      schema: z.object({
-        csv: z.string().describe("CSV data"),
-      }),
+      schema: sheetSchema,
     });
 
     for await (const delta of fullStream) {
@@ -28,15 +44,15 @@ export const sheetDocumentHandler = createDocumentHandler<"sheet">({
 
       if (type === "object") {
         const { object } = delta;
-        const { csv } = object;
+        const { csv, columnTypes } = object;
 
         if (csv) {
+          draftContent = serializeSheet(sheetFromCsv(csv, columnTypes));
+
           dataStream.writeData({
             type: "sheet-delta",
-            content: csv,
+            content: draftContent,
           });
-
-          draftContent = csv;
         }
       }
     }
@@ -46,18 +62,82 @@ export const sheetDocumentHandler = createDocumentHandler<"sheet">({
       content: draftContent,
     });
 
+    await recordTokenUsage({
+      modelId: "artifact-model",
+      usage: await usage,
+      source: "artifact",
+      userId: session.user?.id,
+      userType: session.user?.type,
+    });
+
     return draftContent;
   },
-  onUpdateDocument: async ({ document, description, dataStream }) => {
-    let draftContent = "";
+  onUpdateDocument: async ({
+    document,
+    description,
+    column,
+    dataStream,
+    session,
+  }) => {
+    const sheet = parseSheet(document.content);
+    let draftContent = serializeSheet(sheet);
+
+    if (column?.trim()) {
+      // Неизвестный столбец создаётся: по букве — на её месте, иначе
+      // новым столбцом с таким заголовком
+      const existing = findSheetColumn(sheet, column);
+      const letterIndex = columnIndex(column.trim());
+      const index =
+        existing !== -1
+          ? existing
+          : letterIndex >= sheet.columns.length
+          ? letterIndex
+          : sheet.columns.length;
+      const name =
+        existing === -1 && letterIndex === -1 ? column.trim() : undefined;
+      const target = setSheetColumn(sheet, index, [], name);
+
+      const { fullStream, usage } = streamObject({
+        model: myProvider.languageModel("artifact-model"),
+        system: updateSheetColumnPrompt(target, index),
+        prompt: description,
+        schema: z.object({
+          values: z
+            .array(z.string())
+            .describe("One value or formula per data row, in order"),
+        }),
+      });
+
+      for await (const delta of fullStream) {
+        if (delta.type === "object" && delta.object.values) {
+          const values = delta.object.values.map((value) => value ?? "");
+          draftContent = serializeSheet(
+            setSheetColumn(target, index, values, name)
+          );
+
+          dataStream.writeData({
+            type: "sheet-delta",
+            content: draftContent,
+          });
+        }
+      }
+
+      await recordTokenUsage({
+        modelId: "artifact-model",
+        usage: await usage,
+        source: "artifact",
+        userId: session.user?.id,
+        userType: session.user?.type,
+      });
 
-    const { fullStream } = streamObject({
+      return draftContent;
+    }
+
+    const { fullStream, usage } = streamObject({
       model: myProvider.languageModel("artifact-model"),
-      system: updateDocumentPrompt(document.content, "sheet"),
+      system: updateSheetPrompt(sheet),
       prompt: description,
-      schema: z.object({
-        csv: z.string(),
-      }),
+      schema: sheetSchema,
     });
 
     for await (const delta of fullStream) {
@@ -65,19 +145,27 @@ export const sheetDocumentHandler = createDocumentHandler<"sheet">({
 
       if (type === "object") {
         const { object } = delta;
-        const { csv } = object;
+        const { csv, columnTypes } = object;
 
         if (csv) {
+          draftContent = serializeSheet(sheetFromCsv(csv, columnTypes));
+
           dataStream.writeData({
             type: "sheet-delta",
-            content: csv,
+            content: draftContent,
           });
-
-          draftContent = csv;
         }
       }
     }
 
+    await recordTokenUsage({
+      modelId: "artifact-model",
+      usage: await usage,
+      source: "artifact",
+      userId: session.user?.id,
+      userType: session.user?.type,
+    });
+
     return draftContent;
   },
 });
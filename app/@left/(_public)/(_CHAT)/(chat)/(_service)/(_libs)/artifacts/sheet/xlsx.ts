@@ -0,0 +1,363 @@
+// @/app/@left/(_public)/(_CHAT)/(chat)/(_service)/(_libs)/artifacts/sheet/xlsx.ts
+
+import { createZip, readZip } from "../../zip";
+import {
+  columnIndex,
+  columnLetter,
+  FIRST_DATA_ROW,
+  isFormula,
+  parseBoolean,
+  parseDate,
+  parseNumber,
+  sheetFromTable,
+  type SheetData,
+} from "./data";
+import { evaluateSheet, FormulaError, type CellValue } from "./formulas";
+
+/*
+ * Минимальный SpreadsheetML: одна страница, строки встроены в ячейки
+ * (inlineStr), формулы выгружаются вместе с вычисленным значением.
+ */
+
+const MAIN_NS = "http://schemas.openxmlformats.org/spreadsheetml/2006/main";
+const RELATIONSHIP_NS =
+  "http://schemas.openxmlformats.org/officeDocument/2006/relationships";
+const PACKAGE_RELATIONSHIP_NS =
+  "http://schemas.openxmlformats.org/package/2006/relationships";
+const XML_HEADER = '<?xml version="1.0" encoding="UTF-8" standalone="yes"?>\n';
+
+// Индексы cellXfs в STYLES
+const DATE_STYLE = 1;
+const DATE_TIME_STYLE = 2;
+const HEADER_STYLE = 3;
+
+const STYLES = `${XML_HEADER}<styleSheet xmlns="${MAIN_NS}"><fonts count="2"><font><sz val="11"/><name val="Calibri"/></font><font><b/><sz val="11"/><name val="Calibri"/></font></fonts><fills count="2"><fill><patternFill patternType="none"/></fill><fill><patternFill patternType="gray125"/></fill></fills><borders count="1"><border><left/><right/><top/><bottom/><diagonal/></border></borders><cellStyleXfs count="1"><xf numFmtId="0" fontId="0" fillId="0" borderId="0"/></cellStyleXfs><cellXfs count="4"><xf numFmtId="0" fontId="0" fillId="0" borderId="0" xfId="0"/><xf numFmtId="14" fontId="0" fillId="0" borderId="0" xfId="0" applyNumberFormat="1"/><xf numFmtId="22" fontId="0" fillId="0" borderId="0" xfId="0" applyNumberFormat="1"/><xf numFmtId="0" fontId="1" fillId="0" borderId="0" xfId="0" applyFont="1"/></cellXfs></styleSheet>`;
+
+// Excel считает дни от 1899-12-30
+const EXCEL_EPOCH_DAYS = 25569;
+const DAY_MS = 24 * 60 * 60 * 1000;
+
+function escapeXml(value: string): string {
+  return (
+    value
+      // Управляющие символы недопустимы в XML 1.0
+      // eslint-disable-next-line no-control-regex
+      .replace(/[\u0000-\u0008\u000B\u000C\u000E-\u001F]/g, "")
+      .replace(/&/g, "&amp;")
+      .replace(/</g, "&lt;")
+      .replace(/>/g, "&gt;")
+      .replace(/"/g, "&quot;")
+  );
+}
+
+function decodeXml(value: string): string {
+  return value
+    .replace(/_x([0-9A-Fa-f]{4})_/g, (_, code) =>
+      String.fromCharCode(parseInt(code, 16))
+    )
+    .replace(/&(#x[0-9A-Fa-f]+|#\d+|lt|gt|quot|apos|amp);/g, (_, entity) => {
+      switch (entity) {
+        case "lt":
+          return "<";
+        case "gt":
+          return ">";
+        case "quot":
+          return '"';
+        case "apos":
+          return "'";
+        case "amp":
+          return "&";
+        default:
+          return String.fromCodePoint(
+            entity[1] === "x"
+              ? parseInt(entity.slice(2), 16)
+              : parseInt(entity.slice(1), 10)
+          );
+      }
+    });
+}
+
+function inlineString(reference: string, value: string, style = 0): string {
+  return `<c r="${reference}"${
+    style ? ` s="${style}"` : ""
+  } t="inlineStr"><is><t xml:space="preserve">${escapeXml(value)}</t></is></c>`;
+}
+
+function formulaCell(
+  reference: string,
+  formula: string,
+  value: CellValue
+): string {
+  const f = `<f>${escapeXml(formula.slice(1))}</f>`;
+
+  // Ошибки и пустой результат Excel пересчитает при открытии (fullCalcOnLoad)
+  if (value instanceof FormulaError || value === "") {
+    return `<c r="${reference}">${f}</c>`;
+  }
+  if (typeof value === "number") {
+    return `<c r="${reference}">${f}<v>${value}</v></c>`;
+  }
+  if (typeof value === "boolean") {
+    return `<c r="${reference}" t="b">${f}<v>${Number(value)}</v></c>`;
+  }
+  return `<c r="${reference}" t="str">${f}<v>${escapeXml(value)}</v></c>`;
+}
+
+function valueCell(
+  reference: string,
+  value: string,
+  type: SheetData["columns"][number]["type"]
+): string {
+  if (type === "number") {
+    const number = parseNumber(value);
+    if (number !== null) return `<c r="${reference}"><v>${number}</v></c>`;
+  }
+  if (type === "boolean") {
+    const boolean = parseBoolean(value);
+    if (boolean !== null) {
+      return `<c r="${reference}" t="b"><v>${Number(boolean)}</v></c>`;
+    }
+  }
+  if (type === "date") {
+    const date = parseDate(value);
+    if (date) {
+      const serial = date.getTime() / DAY_MS + EXCEL_EPOCH_DAYS;
+      const style = Number.isInteger(serial) ? DATE_STYLE : DATE_TIME_STYLE;
+      return `<c r="${reference}" s="${style}"><v>${serial}</v></c>`;
+    }
+  }
+  return inlineString(reference, value);
+}
+
+/**
+ * Книга .xlsx с одной страницей: заголовки жирным, числа, даты и
+ * логические значения — по типам столбцов, формулы с результатами.
+ */
+export function createXlsx(
+  sheet: SheetData,
+  sheetName: string,
+  modifiedAt = new Date()
+): Buffer {
+  const values = evaluateSheet(sheet);
+
+  const header = `<row r="1">${sheet.columns
+    .map((column, index) =>
+      inlineString(`${columnLetter(index)}1`, column.name, HEADER_STYLE)
+    )
+    .join("")}</row>`;
+  const rows = sheet.rows.map((row, rowIndex) => {
+    const rowNumber = rowIndex + FIRST_DATA_ROW;
+    const cells = row
+      .map((cell, column) => {
+        if (!cell) return "";
+        const reference = `${columnLetter(column)}${rowNumber}`;
+        return isFormula(cell)
+          ? formulaCell(reference, cell, values[rowIndex][column])
+          : valueCell(reference, cell, sheet.columns[column].type);
+      })
+      .join("");
+    return `<row r="${rowNumber}">${cells}</row>`;
+  });
+
+  // Имя листа: до 31 символа, без []:*?/\
+  const name =
+    sheetName
+      .replace(/[[\]:*?/\\]/g, " ")
+      .trim()
+      .slice(0, 31) || "Sheet1";
+
+  return createZip(
+    [
+      {
+        name: "[Content_Types].xml",
+        data: `${XML_HEADER}<Types xmlns="http://schemas.openxmlformats.org/package/2006/content-types"><Default Extension="rels" ContentType="application/vnd.openxmlformats-package.relationships+xml"/><Default Extension="xml" ContentType="application/xml"/><Override PartName="/xl/workbook.xml" ContentType="application/vnd.openxmlformats-officedocument.spreadsheetml.sheet.main+xml"/><Override PartName="/xl/worksheets/sheet1.xml" ContentType="application/vnd.openxmlformats-officedocument.spreadsheetml.worksheet+xml"/><Override PartName="/xl/styles.xml" ContentType="application/vnd.openxmlformats-officedocument.spreadsheetml.styles+xml"/></Types>`,
+      },
+      {
+        name: "_rels/.rels",
+        data: `${XML_HEADER}<Relationships xmlns="${PACKAGE_RELATIONSHIP_NS}"><Relationship Id="rId1" Type="${RELATIONSHIP_NS}/officeDocument" Target="xl/workbook.xml"/></Relationships>`,
+      },
+      {
+        name: "xl/workbook.xml",
+        data: `${XML_HEADER}<workbook xmlns="${MAIN_NS}" xmlns:r="${RELATIONSHIP_NS}"><sheets><sheet name="${escapeXml(
+          name
+        )}" sheetId="1" r:id="rId1"/></sheets><calcPr fullCalcOnLoad="1"/></workbook>`,
+      },
+      {
+        name: "xl/_rels/workbook.xml.rels",
+        data: `${XML_HEADER}<Relationships xmlns="${PACKAGE_RELATIONSHIP_NS}"><Relationship Id="rId1" Type="${RELATIONSHIP_NS}/worksheet" Target="worksheets/sheet1.xml"/><Relationship Id="rId2" Type="${RELATIONSHIP_NS}/styles" Target="styles.xml"/></Relationships>`,
+      },
+      { name: "xl/styles.xml", data: STYLES },
+      {
+        name: "xl/worksheets/sheet1.xml",
+        data: `${XML_HEADER}<worksheet xmlns="${MAIN_NS}"><sheetViews><sheetView workbookViewId="0"><pane ySplit="1" topLeftCell="A2" activePane="bottomLeft" state="frozen"/></sheetView></sheetViews><sheetData>${header}${rows.join(
+          ""
+        )}</sheetData></worksheet>`,
+      },
+    ],
+    modifiedAt
+  );
+}
+
+function attribute(attributes: string, name: string): string | undefined {
+  const match = attributes.match(new RegExp(`\\b${name}="([^"]*)"`));
+  return match ? decodeXml(match[1]) : undefined;
+}
+
+// Текст узла: все <t> внутри, кроме фонетических подсказок <rPh>
+function textContent(xml: string): string {
+  return Array.from(
+    xml
+      .replace(/<rPh\b[\s\S]*?<\/rPh>/g, "")
+      .matchAll(/<t\b[^>]*>([\s\S]*?)<\/t>/g),
+    (match) => decodeXml(match[1])
+  ).join("");
+}
+
+// Встроенные форматы дат Excel
+const DATE_FORMAT_IDS = new Set([
+  14, 15, 16, 17, 18, 19, 20, 21, 22, 27, 30, 36, 45, 46, 47, 50, 57,
+]);
+
+function isDateFormatCode(code: string): boolean {
+  const cleaned = code.replace(/"[^"]*"|\[[^\]]*\]|\\./g, "");
+  return /[dmyhs]/i.test(cleaned) && !/general/i.test(cleaned);
+}
+
+// Стили ячеек (индекс s) с форматом даты
+function readDateStyles(stylesXml: string | undefined): Set<number> {
+  const dateStyles = new Set<number>();
+  if (!stylesXml) return dateStyles;
+
+  const customDateFormats = new Set(
+    Array.from(stylesXml.matchAll(/<numFmt\b([^>]*)\/?>/g))
+      .filter((match) =>
+        isDateFormatCode(attribute(match[1], "formatCode") ?? "")
+      )
+      .map((match) => Number(attribute(match[1], "numFmtId")))
+  );
+
+  const cellXfs = stylesXml.match(/<cellXfs\b[^>]*>([\s\S]*?)<\/cellXfs>/)?.[1];
+  Array.from(cellXfs?.matchAll(/<xf\b([^>]*)>/g) ?? []).forEach(
+    (match, index) => {
+      const formatId = Number(attribute(match[1], "numFmtId") ?? 0);
+      if (DATE_FORMAT_IDS.has(formatId) || customDateFormats.has(formatId)) {
+        dateStyles.add(index);
+      }
+    }
+  );
+
+  return dateStyles;
+}
+
+function serialToDate(serial: number): string {
+  const date = new Date(Math.round((serial - EXCEL_EPOCH_DAYS) * DAY_MS));
+  const iso = date.toISOString();
+  return Number.isInteger(serial)
+    ? iso.slice(0, 10)
+    : `${iso.slice(0, 10)} ${iso.slice(11, 19)}`;
+}
+
+// Путь части пакета относительно папки, где лежит ссылающаяся часть
+function resolvePartPath(base: string, target: string): string {
+  if (target.startsWith("/")) return target.slice(1);
+
+  const segments = base.split("/").slice(0, -1);
+  for (const segment of target.split("/")) {
+    if (segment === "..") {
+      segments.pop();
+    } else if (segment !== ".") {
+      segments.push(segment);
+    }
+  }
+  return segments.join("/");
+}
+
+/**
+ * Первая страница книги .xlsx как таблица: строка 1 — заголовки,
+ * формулы сохраняются, даты переводятся в YYYY-MM-DD.
+ * @throws Error, если файл не является книгой Excel.
+ */
+export function readXlsx(file: Buffer): SheetData {
+  const parts = new Map(
+    readZip(file).map((entry) => [entry.name, entry.data.toString()])
+  );
+
+  const workbook = parts.get("xl/workbook.xml");
+  if (!workbook) throw new Error("Not an Excel workbook");
+
+  const sheetId = attribute(
+    workbook.match(/<sheet\b([^>]*)\/?>/)?.[1] ?? "",
+    "r:id"
+  );
+  const relationships = parts.get("xl/_rels/workbook.xml.rels") ?? "";
+  const target = Array.from(
+    relationships.matchAll(/<Relationship\b([^>]*)\/?>/g)
+  )
+    .map((match) => match[1])
+    .find((attributes) => attribute(attributes, "Id") === sheetId);
+  const sheetPath = target
+    ? resolvePartPath("xl/workbook.xml", attribute(target, "Target") ?? "")
+    : "xl/worksheets/sheet1.xml";
+
+  const worksheet = parts.get(sheetPath);
+  if (!worksheet) throw new Error("Workbook has no worksheets");
+
+  const sharedStrings = Array.from(
+    (parts.get("xl/sharedStrings.xml") ?? "").matchAll(
+      /<si\b[^>]*>([\s\S]*?)<\/si>/g
+    ),
+    (match) => textContent(match[1])
+  );
+  const dateStyles = readDateStyles(parts.get("xl/styles.xml"));
+
+  const grid: string[][] = [];
+  let rowNumber = 0;
+
+  for (const rowMatch of worksheet.matchAll(
+    /<row\b([^>]*?)(?:\/>|>([\s\S]*?)<\/row>)/g
+  )) {
+    rowNumber = Number(attribute(rowMatch[1], "r") ?? rowNumber + 1);
+    const row: string[] = [];
+    let column = -1;
+
+    for (const cellMatch of (rowMatch[2] ?? "").matchAll(
+      /<c\b([^>]*?)(?:\/>|>([\s\S]*?)<\/c>)/g
+    )) {
+      const [, attributes, body = ""] = cellMatch;
+      const reference = attribute(attributes, "r")?.match(/^([A-Z]+)\d+$/);
+      column = reference ? columnIndex(reference[1]) : column + 1;
+
+      const type = attribute(attributes, "t");
+      const style = Number(attribute(attributes, "s") ?? 0);
+      const formula = body.match(/<f\b[^>]*>([\s\S]*?)<\/f>/)?.[1];
+      const raw = body.match(/<v\b[^>]*>([\s\S]*?)<\/v>/)?.[1];
+
+      let value = "";
+      if (formula) {
+        value = `=${decodeXml(formula)}`;
+      } else if (type === "inlineStr") {
+        value = textContent(body);
+      } else if (raw !== undefined) {
+        const decoded = decodeXml(raw);
+        if (type === "s") {
+          value = sharedStrings[Number(decoded)] ?? "";
+        } else if (type === "b") {
+          value = decoded === "1" ? "TRUE" : "FALSE";
+        } else if (type === "str" || type === "e") {
+          value = decoded;
+        } else if (dateStyles.has(style)) {
+          value = serialToDate(Number(decoded));
+        } else {
+          value = decoded;
+        }
+      }
+
+      row[column] = value;
+    }
+
+    grid[rowNumber - 1] = Array.from(row, (cell) => cell ?? "");
+  }
+
+  // Типы определяются по значениям так же, как при импорте CSV
+  return sheetFromTable(Array.from(grid, (row) => row ?? []));
+}
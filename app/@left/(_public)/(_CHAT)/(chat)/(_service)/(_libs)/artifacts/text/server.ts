@@ -3,14 +3,15 @@
 import { smoothStream, streamText } from "ai";
 import { myProvider } from "@/app/@left/(_public)/(_CHAT)/(chat)/(_service)/(_libs)/ai/providers";
 import { createDocumentHandler } from "@/app/@left/(_public)/(_CHAT)/(chat)/(_service)/(_libs)/artifacts/server";
+import { recordTokenUsage } from "@/app/@left/(_public)/(_CHAT)/(chat)/(_service)/(_libs)/ai/usage";
 import { updateDocumentPrompt } from "@/app/@left/(_public)/(_CHAT)/(chat)/(_service)/(_libs)/ai/prompts";
 
 export const textDocumentHandler = createDocumentHandler<"text">({
   kind: "text",
-  onCreateDocument: async ({ title, dataStream }) => {
+  onCreateDocument: async ({ title, dataStream, session }) => {
     let draftContent = "";
 
-    const { fullStream } = streamText({
+    const { fullStream, usage } = streamText({
       model: myProvider.languageModel("artifact-model"),
       system:
         "Write about the given topic. Markdown is supported. Use headings wherever appropriate.",
@@ -33,12 +34,20 @@ export const textDocumentHandler = createDocumentHandler<"text">({
       }
     }
 
+    await recordTokenUsage({
+      modelId: "artifact-model",
+      usage: await usage,
+      source: "artifact",
+      userId: session.user?.id,
+      userType: session.user?.type,
+    });
+
     return draftContent;
   },
-  onUpdateDocument: async ({ document, description, dataStream }) => {
+  onUpdateDocument: async ({ document, description, dataStream, session }) => {
     let draftContent = "";
 
-    const { fullStream } = streamText({
+    const { fullStream, usage } = streamText({
       model: myProvider.languageModel("artifact-model"),
       system: updateDocumentPrompt(document.content, "text"),
       experimental_transform: smoothStream({ chunking: "word" }),
@@ -67,6 +76,14 @@ export const textDocumentHandler = createDocumentHandler<"text">({
       }
     }
 
+    await recordTokenUsage({
+      modelId: "artifact-model",
+      usage: await usage,
+      source: "artifact",
+      userId: session.user?.id,
+      userType: session.user?.type,
+    });
+
     return draftContent;
   },
 });
@@ -0,0 +1,49 @@
+// @/app/@left/(_public)/(_CHAT)/(chat)/(_service)/(_libs)/assistants.ts
+
+import type { Assistant, UserType } from "@prisma/client";
+
+/**
+ * Инструменты чата, которые администратор может разрешить ассистенту.
+ * Чат без ассистента получает их все.
+ */
+export const ASSISTANT_TOOLS = [
+  "web_search_preview",
+  "getWeather",
+  "createDocument",
+  "updateDocument",
+  "requestSuggestions",
+  "fileSearchVectorStore",
+  "navigateToPage",
+] as const;
+
+export type AssistantTool = (typeof ASSISTANT_TOOLS)[number];
+
+// Ассистент внешних интеграций (app/integrations/api/external-ai-assiatant)
+export const API_SUPPORT_ASSISTANT = "api-chat-support";
+
+/**
+ * Ассистент в ответе GET /api/assistants — без промпта и настроек инструментов.
+ */
+export type AssistantOption = Pick<
+  Assistant,
+  "slug" | "name" | "icon" | "description" | "modelId"
+>;
+
+export function isAssistantAvailable(
+  assistant: Pick<Assistant, "enabled" | "userTypes">,
+  userType: UserType
+): boolean {
+  return assistant.enabled && assistant.userTypes.includes(userType);
+}
+
+/**
+ * Инструменты, разрешённые ассистенту, в порядке ASSISTANT_TOOLS.
+ * Без ассистента — все инструменты.
+ */
+export function getAssistantTools(
+  assistant: Pick<Assistant, "tools"> | null
+): AssistantTool[] {
+  return ASSISTANT_TOOLS.filter(
+    (tool) => !assistant || assistant.tools.includes(tool)
+  );
+}
@@ -0,0 +1,420 @@
+// @/app/@left/(_public)/(_CHAT)/(chat)/(_service)/(_libs)/chat-export.ts
+
+import type { ArtifactKind, Prisma, Visibility } from "@prisma/client";
+import { getPageSelection } from "./page-selection";
+import { toCodeLanguage } from "./artifacts/code/languages";
+import { parseProject } from "./artifacts/project/files";
+import { parseSheet, sheetToCsv } from "./artifacts/sheet/data";
+import { getSheetDisplayValues } from "./artifacts/sheet/formulas";
+import { parseChart } from "./artifacts/chart/spec";
+
+export const CHAT_EXPORT_FORMAT = "aifa-chat";
+export const CHAT_EXPORT_VERSION = 1;
+
+export type ChatExportFormat = "markdown" | "json" | "pdf";
+
+export interface ExportedMessage {
+  id: string;
+  parentId: string | null;
+  role: string;
+  content: Prisma.JsonValue;
+  parts: Prisma.JsonValue;
+  attachments: Prisma.JsonValue;
+  annotations: Prisma.JsonValue;
+  createdAt: string;
+}
+
+export interface ExportedDocument {
+  id: string;
+  createdAt: string;
+  title: string;
+  content: string | null;
+  kind: ArtifactKind;
+  // Нет в выгрузках, сделанных до появления языка кода
+  language?: string | null;
+}
+
+/**
+ * Полная (без потерь) выгрузка чата: всё дерево сообщений со всеми ветками,
+ * голоса и все версии документов-артефактов, на которые ссылаются сообщения.
+ * Этот же формат принимает импорт.
+ */
+export interface ChatExport {
+  format: typeof CHAT_EXPORT_FORMAT;
+  version: typeof CHAT_EXPORT_VERSION;
+  exportedAt: string;
+  chat: {
+    id: string;
+    title: string;
+    visibility: Visibility;
+    activeMessageId: string | null;
+    createdAt: string;
+  };
+  messages: ExportedMessage[];
+  votes: Array<{ messageId: string; isUpvoted: boolean }>;
+  documents: ExportedDocument[];
+}
+
+interface TranscriptEntry {
+  role: string;
+  texts: string[];
+  tools: string[];
+  attachments: Array<{ name: string; url: string; contentType?: string }>;
+  selection: { title: string; text: string } | null;
+  vote: boolean | null;
+}
+
+interface Transcript {
+  title: string;
+  createdAt: string;
+  entries: TranscriptEntry[];
+  // Последние версии документов
+  documents: ExportedDocument[];
+}
+
+/**
+ * Сообщения активной ветки (как в getActiveBranchByChatId).
+ */
+export function getExportBranch(data: ChatExport): ExportedMessage[] {
+  const byId = new Map(data.messages.map((message) => [message.id, message]));
+  const leafId = data.chat.activeMessageId ?? data.messages.at(-1)?.id;
+  const path: ExportedMessage[] = [];
+
+  let current = leafId ? byId.get(leafId) : undefined;
+  while (current) {
+    path.unshift(current);
+    current = current.parentId ? byId.get(current.parentId) : undefined;
+  }
+
+  return path;
+}
+
+function describeTool(invocation: {
+  toolName?: string;
+  args?: { title?: unknown; kind?: unknown };
+  result?: { title?: unknown };
+}): string {
+  const title = invocation.result?.title ?? invocation.args?.title;
+  return typeof title === "string"
+    ? `${invocation.toolName}: ${title}`
+    : `${invocation.toolName}`;
+}
+
+function toTranscript(data: ChatExport): Transcript {
+  const votes = new Map(
+    data.votes.map((vote) => [vote.messageId, vote.isUpvoted])
+  );
+
+  const entries = getExportBranch(data).map((message): TranscriptEntry => {
+    const parts = Array.isArray(message.parts)
+      ? (message.parts as Array<{
+          type?: string;
+          text?: string;
+          toolInvocation?: Parameters<typeof describeTool>[0];
+        }>)
+      : [];
+    const selection = getPageSelection(message);
+
+    return {
+      role: message.role,
+      texts: parts
+        .filter((part) => part?.type === "text" && part.text)
+        .map((part) => part.text as string),
+      tools: parts
+        .filter(
+          (part) => part?.type === "tool-invocation" && part.toolInvocation
+        )
+        .map((part) => describeTool(part.toolInvocation ?? {})),
+      attachments: Array.isArray(message.attachments)
+        ? (
+            message.attachments as Array<{
+              name?: string;
+              url?: string;
+              contentType?: string;
+            }>
+          )
+            .filter((attachment) => attachment?.url)
+            .map((attachment) => ({
+              name: attachment.name ?? (attachment.url as string),
+              url: attachment.url as string,
+              contentType: attachment.contentType,
+            }))
+        : [],
+      selection: selection
+        ? { title: selection.pageTitle, text: selection.text }
+        : null,
+      vote: votes.get(message.id) ?? null,
+    };
+  });
+
+  const latest = new Map<string, ExportedDocument>();
+  for (const document of data.documents) {
+    const current = latest.get(document.id);
+    if (!current || current.createdAt < document.createdAt) {
+      latest.set(document.id, document);
+    }
+  }
+
+  return {
+    title: data.chat.title,
+    createdAt: data.chat.createdAt,
+    entries,
+    documents: [...latest.values()],
+  };
+}
+
+const ROLE_LABELS: Record<string, string> = {
+  user: "User",
+  assistant: "Assistant",
+  system: "System",
+};
+
+function roleLabel(role: string): string {
+  return ROLE_LABELS[role] ?? role;
+}
+
+function toFence(content: string, language = ""): string {
+  // Ограда длиннее любой последовательности ``` внутри содержимого
+  const longest = Math.max(
+    2,
+    ...(content.match(/`+/g) ?? []).map((ticks) => ticks.length)
+  );
+  const fence = "`".repeat(longest + 1);
+  return `${fence}${language}\n${content}\n${fence}`;
+}
+
+function documentToMarkdown(document: ExportedDocument): string {
+  const content = document.content ?? "";
+  switch (document.kind) {
+    case "image":
+      return `![${document.title}](data:image/png;base64,${content})`;
+    case "code":
+      return toFence(content, toCodeLanguage(document.language));
+    case "sheet": {
+      const sheet = parseSheet(content);
+      return toFence(sheetToCsv(sheet, getSheetDisplayValues(sheet)), "csv");
+    }
+    case "diagram":
+      return toFence(content, "mermaid");
+    case "chart":
+      return toFence(JSON.stringify(parseChart(content), null, 2), "json");
+    case "project":
+      return parseProject(content)
+        .map((file) => `#### ${file.path}\n\n${toFence(file.content)}`)
+        .join("\n\n");
+    default:
+      return content;
+  }
+}
+
+/**
+ * Активная ветка чата в Markdown: реплики, вызовы инструментов, вложения
+ * и последние версии документов.
+ */
+export function chatToMarkdown(data: ChatExport): string {
+  const transcript = toTranscript(data);
+  const blocks: string[] = [
+    `# ${transcript.title}`,
+    `_${new Date(transcript.createdAt).toISOString().slice(0, 10)}_`,
+  ];
+
+  for (const entry of transcript.entries) {
+    blocks.push(`### ${roleLabel(entry.role)}`);
+    if (entry.selection) {
+      const quote = entry.selection.text
+        .split("\n")
+        .map((line) => `> ${line}`)
+        .join("\n");
+      blocks.push(`> _${entry.selection.title}_\n>\n${quote}`);
+    }
+    blocks.push(...entry.texts);
+    if (entry.tools.length > 0) {
+      blocks.push(entry.tools.map((tool) => `- _${tool}_`).join("\n"));
+    }
+    if (entry.attachments.length > 0) {
+      blocks.push(
+        entry.attachments
+          .map((attachment) => `- [${attachment.name}](${attachment.url})`)
+          .join("\n")
+      );
+    }
+    if (entry.vote !== null) {
+      blocks.push(entry.vote ? "👍" : "👎");
+    }
+  }
+
+  if (transcript.documents.length > 0) {
+    blocks.push("## Documents");
+    for (const document of transcript.documents) {
+      blocks.push(`### ${document.title}`, documentToMarkdown(document));
+    }
+  }
+
+  return `${blocks.join("\n\n")}\n`;
+}
+
+function escapeHtml(value: string): string {
+  return value
+    .replace(/&/g, "&amp;")
+    .replace(/</g, "&lt;")
+    .replace(/>/g, "&gt;")
+    .replace(/"/g, "&quot;")
+    .replace(/'/g, "&#39;");
+}
+
+function isSafeUrl(url: string): boolean {
+  return /^(https?:|data:image\/)/i.test(url);
+}
+
+function documentToHtml(document: ExportedDocument): string {
+  const content = document.content ?? "";
+  if (document.kind === "image") {
+    return `<img alt="${escapeHtml(
+      document.title
+    )}" src="data:image/png;base64,${escapeHtml(content)}" />`;
+  }
+  if (document.kind === "project") {
+    return parseProject(content)
+      .map(
+        (file) =>
+          `<div class="meta">${escapeHtml(file.path)}</div><pre>${escapeHtml(
+            file.content
+          )}</pre>`
+      )
+      .join("");
+  }
+  if (document.kind === "sheet") {
+    const sheet = parseSheet(content);
+    const toRow = (cells: string[], tag: "th" | "td") =>
+      `<tr>${cells
+        .map((cell) => `<${tag}>${escapeHtml(cell)}</${tag}>`)
+        .join("")}</tr>`;
+    return `<table>${toRow(
+      sheet.columns.map((column) => column.name),
+      "th"
+    )}${getSheetDisplayValues(sheet)
+      .map((row) => toRow(row, "td"))
+      .join("")}</table>`;
+  }
+  return `<pre>${escapeHtml(content)}</pre>`;
+}
+
+const PRINT_STYLES = `
+  body { font-family: system-ui, sans-serif; max-width: 48rem; margin: 2rem auto; padding: 0 1rem; color: #111; }
+  h1 { font-size: 1.5rem; margin-bottom: 0.25rem; }
+  .date { color: #666; margin-bottom: 2rem; }
+  .message { margin-bottom: 1.5rem; break-inside: avoid-page; }
+  .role { font-weight: 600; margin-bottom: 0.25rem; }
+  .text, pre { white-space: pre-wrap; word-break: break-word; }
+  pre { font-family: ui-monospace, monospace; font-size: 0.85rem; background: #f4f4f5; padding: 0.75rem; border-radius: 0.5rem; }
+  blockquote { margin: 0 0 0.5rem; padding-left: 0.75rem; border-left: 3px solid #ddd; color: #444; }
+  .meta { color: #666; font-size: 0.85rem; }
+  img { max-width: 100%; }
+  table { border-collapse: collapse; font-size: 0.85rem; }
+  th, td { border: 1px solid #ddd; padding: 0.25rem 0.5rem; text-align: left; }
+  @media print { body { margin: 0; } a { color: inherit; } }
+`;
+
+/**
+ * Активная ветка чата как HTML-страница для печати. PDF получается через
+ * «Печать → Сохранить как PDF» браузера: диалог печати открывается сразу
+ * после загрузки, шрифты и письменности любые.
+ */
+export function chatToPrintableHtml(data: ChatExport): string {
+  const transcript = toTranscript(data);
+
+  const messages = transcript.entries.map((entry) => {
+    const blocks = [
+      `<div class="role">${escapeHtml(roleLabel(entry.role))}</div>`,
+    ];
+    if (entry.selection) {
+      blocks.push(
+        `<blockquote><div class="meta">${escapeHtml(
+          entry.selection.title
+        )}</div><div class="text">${escapeHtml(
+          entry.selection.text
+        )}</div></blockquote>`
+      );
+    }
+    blocks.push(
+      ...entry.texts.map(
+        (text) => `<div class="text">${escapeHtml(text)}</div>`
+      )
+    );
+    blocks.push(
+      ...entry.tools.map(
+        (tool) => `<div class="meta">${escapeHtml(tool)}</div>`
+      )
+    );
+    blocks.push(
+      ...entry.attachments
+        .filter((attachment) => isSafeUrl(attachment.url))
+        .map((attachment) =>
+          attachment.contentType?.startsWith("image/")
+            ? `<img alt="${escapeHtml(attachment.name)}" src="${escapeHtml(
+                attachment.url
+              )}" />`
+            : `<div class="meta"><a href="${escapeHtml(
+                attachment.url
+              )}">${escapeHtml(attachment.name)}</a></div>`
+        )
+    );
+    return `<section class="message">${blocks.join("")}</section>`;
+  });
+
+  const documents =
+    transcript.documents.length > 0
+      ? `<h2>Documents</h2>${transcript.documents
+          .map(
+            (document) =>
+              `<section class="message"><div class="role">${escapeHtml(
+                document.title
+              )}</div>${documentToHtml(document)}</section>`
+          )
+          .join("")}`
+      : "";
+
+  return `<!DOCTYPE html>
+<html>
+<head>
+<meta charset="utf-8" />
+<title>${escapeHtml(transcript.title)}</title>
+<style>${PRINT_STYLES}</style>
+</head>
+<body>
+<h1>${escapeHtml(transcript.title)}</h1>
+<div class="date">${new Date(transcript.createdAt)
+    .toISOString()
+    .slice(0, 10)}</div>
+${messages.join("\n")}
+${documents}
+<script>window.addEventListener("load", () => window.print());</script>
+</body>
+</html>
+`;
+}
+
+/**
+ * Имя файла выгрузки: заголовок чата (буквы любых алфавитов) и id —
+ * в массовой выгрузке заголовки повторяются.
+ */
+export function getExportFileName(
+  chat: { id: string; title: string },
+  extension: string
+): string {
+  const slug = chat.title
+    .replace(/[^\p{L}\p{N}]+/gu, "-")
+    .replace(/^-+|-+$/g, "")
+    .slice(0, 60);
+  return `${slug || "chat"}-${chat.id}.${extension}`;
+}
+
+/**
+ * Заголовок Content-Disposition для скачивания файла с не-ASCII именем.
+ */
+export function getAttachmentDisposition(fileName: string): string {
+  const fallback = fileName.replace(/[^\x20-\x7e]/g, "_").replace(/"/g, "");
+  return `attachment; filename="${fallback}"; filename*=UTF-8''${encodeURIComponent(
+    fileName
+  )}`;
+}
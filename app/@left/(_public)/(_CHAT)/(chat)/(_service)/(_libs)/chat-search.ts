@@ -0,0 +1,36 @@
+// @/app/@left/(_public)/(_CHAT)/(chat)/(_service)/(_libs)/chat-search.ts
+
+// Маркеры подсветки совпадений в сниппетах ts_headline. Сниппет остаётся
+// обычным текстом (без HTML), клиент сам превращает маркеры в <mark>
+export const SEARCH_HIGHLIGHT_START = "⟦";
+export const SEARCH_HIGHLIGHT_STOP = "⟧";
+
+export const SEARCH_QUERY_MIN_LENGTH = 2;
+export const SEARCH_QUERY_MAX_LENGTH = 200;
+
+export interface SearchSnippetSegment {
+  text: string;
+  highlighted: boolean;
+}
+
+/**
+ * Разбивает сниппет с маркерами на куски текста для рендера с подсветкой.
+ */
+export function splitSearchSnippet(snippet: string): SearchSnippetSegment[] {
+  const segments: SearchSnippetSegment[] = [];
+
+  for (const chunk of snippet.split(SEARCH_HIGHLIGHT_START)) {
+    const stop = chunk.indexOf(SEARCH_HIGHLIGHT_STOP);
+    if (stop === -1) {
+      if (chunk) segments.push({ text: chunk, highlighted: false });
+      continue;
+    }
+
+    const highlighted = chunk.slice(0, stop);
+    const rest = chunk.slice(stop + SEARCH_HIGHLIGHT_STOP.length);
+    if (highlighted) segments.push({ text: highlighted, highlighted: true });
+    if (rest) segments.push({ text: rest, highlighted: false });
+  }
+
+  return segments;
+}
@@ -0,0 +1,107 @@
+// @/app/@left/(_public)/(_CHAT)/(chat)/(_service)/(_libs)/citations.ts
+
+import type { UIMessage } from "ai";
+
+// Инструмент поиска, результаты которого цитируются в ответе
+export const CITATION_TOOL_NAME = "fileSearchVectorStore";
+
+const SNIPPET_LENGTH = 200;
+const CITATION_HREF_PREFIX = "#citation-";
+
+/**
+ * Источник ответа: номер [n] в тексте совпадает с rank результата поиска.
+ */
+export interface Citation {
+  rank: number;
+  title: string;
+  href?: string;
+  sectionId?: string;
+  heading: string;
+  snippet: string;
+}
+
+/**
+ * Короткий фрагмент чанка для списка источников.
+ */
+export function toSnippet(text: string): string {
+  const normalized = text.replace(/\s+/g, " ").trim();
+  return normalized.length > SNIPPET_LENGTH
+    ? `${normalized.slice(0, SNIPPET_LENGTH).trimEnd()}…`
+    : normalized;
+}
+
+/**
+ * Достаёт цитаты из результата fileSearchVectorStore.
+ * Старые сообщения (без snippet) и ошибки поиска дают пустой список.
+ */
+export function getToolCitations(result: unknown): Citation[] {
+  const results = (result as { results?: unknown } | undefined)?.results;
+  if (!Array.isArray(results)) return [];
+
+  return results
+    .filter(
+      (item): item is Record<string, unknown> =>
+        typeof item?.rank === "number" && typeof item?.title === "string"
+    )
+    .map((item) => ({
+      rank: item.rank as number,
+      title: item.title as string,
+      href: typeof item.href === "string" ? item.href : undefined,
+      sectionId:
+        typeof item.sectionId === "string" ? item.sectionId : undefined,
+      heading: typeof item.heading === "string" ? item.heading : "",
+      snippet:
+        typeof item.snippet === "string"
+          ? item.snippet
+          : toSnippet(typeof item.text === "string" ? item.text : ""),
+    }));
+}
+
+/**
+ * Цитаты последнего поиска перед частью сообщения с индексом partIndex
+ * (по умолчанию — последнего поиска во всём сообщении).
+ */
+export function getCitationsBefore(
+  parts: UIMessage["parts"],
+  partIndex: number = parts.length
+): Citation[] {
+  for (let i = Math.min(partIndex, parts.length) - 1; i >= 0; i--) {
+    const part = parts[i];
+    if (
+      part.type === "tool-invocation" &&
+      part.toolInvocation.toolName === CITATION_TOOL_NAME &&
+      part.toolInvocation.state === "result"
+    ) {
+      return getToolCitations(part.toolInvocation.result);
+    }
+  }
+  return [];
+}
+
+/**
+ * Превращает маркеры [n] в markdown-ссылки "#citation-n",
+ * если среди цитат есть источник с таким номером.
+ * Обычные ссылки [text](url) и сноски [n]: url не затрагиваются.
+ */
+export function linkCitationMarkers(
+  text: string,
+  citations: Citation[]
+): string {
+  if (citations.length === 0) return text;
+  const ranks = new Set(citations.map((citation) => citation.rank));
+
+  return text.replace(/\[(\d+)\](?![(:])/g, (marker, rank: string) =>
+    ranks.has(Number(rank))
+      ? `[${rank}](${CITATION_HREF_PREFIX}${rank})`
+      : marker
+  );
+}
+
+/**
+ * Номер источника из href, созданного linkCitationMarkers.
+ */
+export function parseCitationHref(href?: string): number | null {
+  if (!href?.startsWith(CITATION_HREF_PREFIX)) return null;
+  const rank = Number(href.slice(CITATION_HREF_PREFIX.length));
+  return Number.isInteger(rank) ? rank : null;
+}
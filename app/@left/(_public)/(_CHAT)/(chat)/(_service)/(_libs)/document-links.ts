@@ -0,0 +1,57 @@
+// @/app/@left/(_public)/(_CHAT)/(chat)/(_service)/(_libs)/document-links.ts
+
+import type { Prisma } from "@prisma/client";
+
+// Инструменты, чьи вызовы и результаты ссылаются на документ (артефакт)
+const DOCUMENT_TOOL_NAMES = [
+  "createDocument",
+  "updateDocument",
+  "requestSuggestions",
+];
+
+/**
+ * Идентификаторы документов, на которые ссылаются части сообщений.
+ */
+export function getDocumentIds(parts: Prisma.JsonValue): string[] {
+  if (!Array.isArray(parts)) return [];
+
+  return parts.flatMap((part) => {
+    const invocation = (
+      part as {
+        toolInvocation?: {
+          toolName?: string;
+          args?: { id?: unknown; documentId?: unknown };
+          result?: { id?: unknown };
+        };
+      } | null
+    )?.toolInvocation;
+    if (
+      !invocation ||
+      !DOCUMENT_TOOL_NAMES.includes(invocation.toolName ?? "")
+    ) {
+      return [];
+    }
+
+    return [
+      invocation.args?.id,
+      invocation.args?.documentId,
+      invocation.result?.id,
+    ].filter((id): id is string => typeof id === "string");
+  });
+}
+
+/**
+ * Заменяет идентификаторы в JSON (части сообщений при копировании чата).
+ * Идентификаторы — cuid, поэтому замена строки в JSON однозначна.
+ */
+export function remapJsonIds(
+  value: Prisma.JsonValue,
+  idMap: Map<string, string>
+): Prisma.JsonValue {
+  if (value === null || idMap.size === 0) return value;
+  let json = JSON.stringify(value);
+  for (const [oldId, newId] of idMap) {
+    json = json.split(`"${oldId}"`).join(`"${newId}"`);
+  }
+  return JSON.parse(json) as Prisma.JsonValue;
+}
@@ -0,0 +1,13 @@
+// @/app/@left/(_public)/(_CHAT)/(chat)/(_service)/(_libs)/instructions.ts
+
+export const INSTRUCTIONS_MAX_LENGTH = 4000;
+
+/**
+ * Ответ GET /api/instructions: инструкции профиля и чата.
+ * chatExists: false — чат ещё не сохранён (нет сообщений), его инструкции задать нельзя.
+ */
+export interface InstructionsState {
+  profile: string | null;
+  chat: string | null;
+  chatExists: boolean;
+}
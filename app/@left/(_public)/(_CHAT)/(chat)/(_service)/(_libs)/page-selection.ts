@@ -0,0 +1,40 @@
+// @/app/@left/(_public)/(_CHAT)/(chat)/(_service)/(_libs)/page-selection.ts
+
+import type { PageSelection } from "@/contexts/app-context";
+
+export const PAGE_SELECTION_ANNOTATION = "page-selection";
+
+// Длинные выделения обрезаются: в промпт попадает только начало
+export const MAX_PAGE_SELECTION_LENGTH = 4000;
+
+/**
+ * Аннотация сообщения пользователя с фрагментом страницы из правого слота.
+ */
+export type PageSelectionAnnotation = PageSelection & {
+  type: typeof PAGE_SELECTION_ANNOTATION;
+};
+
+export function toPageSelectionAnnotation(
+  selection: PageSelection
+): PageSelectionAnnotation {
+  return {
+    type: PAGE_SELECTION_ANNOTATION,
+    ...selection,
+    text: selection.text.slice(0, MAX_PAGE_SELECTION_LENGTH),
+  };
+}
+
+/**
+ * Фрагмент страницы, приложенный к сообщению, или null.
+ */
+export function getPageSelection(message: {
+  annotations?: unknown;
+}): PageSelectionAnnotation | null {
+  if (!Array.isArray(message.annotations)) return null;
+
+  return (
+    (message.annotations as PageSelectionAnnotation[]).find(
+      (annotation) => annotation?.type === PAGE_SELECTION_ANNOTATION
+    ) ?? null
+  );
+}
@@ -0,0 +1,38 @@
+// @/app/@left/(_public)/(_CHAT)/(chat)/(_service)/(_libs)/ui-messages.ts
+
+import type { Attachment, UIMessage } from "ai";
+import type { Message } from "@prisma/client";
+
+function isAttachmentArray(data: unknown): data is Attachment[] {
+  return (
+    Array.isArray(data) &&
+    data.every(
+      (item) =>
+        typeof item === "object" &&
+        item !== null &&
+        "url" in item &&
+        typeof (item as any).url === "string"
+    )
+  );
+}
+
+/**
+ * Сообщения из базы в формате useChat (страница чата и чат по ссылке).
+ */
+export function convertToUIMessages(
+  messages: Array<Message>
+): Array<UIMessage> {
+  return messages.map((message) => ({
+    id: message.id,
+    parts: message.parts as UIMessage["parts"],
+    role: message.role as UIMessage["role"],
+    content: "",
+    createdAt: message.createdAt,
+    experimental_attachments: isAttachmentArray(message.attachments as unknown)
+      ? (message.attachments as unknown as Attachment[])
+      : [],
+    annotations: Array.isArray(message.annotations)
+      ? (message.annotations as UIMessage["annotations"])
+      : undefined,
+  }));
+}
@@ -0,0 +1,15 @@
+// @/app/@left/(_public)/(_CHAT)/(chat)/(_service)/(_libs)/user-memory.ts
+
+import type { UserMemory } from "@prisma/client";
+
+export const MEMORY_MAX_LENGTH = 500;
+// Старые воспоминания не вытесняются автоматически: при лимите новые не сохраняются
+export const MAX_USER_MEMORIES = 200;
+
+/**
+ * Ответ GET /api/memory: настройка и всё, что сохранено о пользователе.
+ */
+export interface UserMemoryState {
+  enabled: boolean;
+  memories: UserMemory[];
+}
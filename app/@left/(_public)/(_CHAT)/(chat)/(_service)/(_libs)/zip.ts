@@ -0,0 +1,161 @@
+// @/app/@left/(_public)/(_CHAT)/(chat)/(_service)/(_libs)/zip.ts
+
+import { crc32, deflateRawSync, inflateRawSync } from "node:zlib";
+
+export interface ZipEntry {
+  name: string;
+  data: Buffer | string;
+}
+
+// Флаг 11 — имена файлов в UTF-8 (заголовки чатов бывают не латиницей)
+const UTF8_FLAG = 0x0800;
+const STORE = 0;
+const DEFLATE = 8;
+
+function toDosDateTime(date: Date): { time: number; date: number } {
+  return {
+    time:
+      (date.getHours() << 11) |
+      (date.getMinutes() << 5) |
+      Math.floor(date.getSeconds() / 2),
+    date:
+      ((Math.max(date.getFullYear(), 1980) - 1980) << 9) |
+      ((date.getMonth() + 1) << 5) |
+      date.getDate(),
+  };
+}
+
+/**
+ * Собирает zip-архив (deflate, без ZIP64: до 65535 файлов и 4 ГБ).
+ * Выгрузки чатов небольшие, поэтому архив собирается целиком в памяти.
+ */
+export function createZip(
+  entries: ZipEntry[],
+  modifiedAt = new Date()
+): Buffer {
+  const { time, date } = toDosDateTime(modifiedAt);
+  const localParts: Buffer[] = [];
+  const centralParts: Buffer[] = [];
+  let offset = 0;
+
+  for (const entry of entries) {
+    const name = Buffer.from(entry.name, "utf8");
+    const data = Buffer.isBuffer(entry.data)
+      ? entry.data
+      : Buffer.from(entry.data, "utf8");
+    const compressed = deflateRawSync(data);
+    const checksum = crc32(data);
+
+    const local = Buffer.alloc(30);
+    local.writeUInt32LE(0x04034b50, 0);
+    local.writeUInt16LE(20, 4);
+    local.writeUInt16LE(UTF8_FLAG, 6);
+    local.writeUInt16LE(DEFLATE, 8);
+    local.writeUInt16LE(time, 10);
+    local.writeUInt16LE(date, 12);
+    local.writeUInt32LE(checksum, 14);
+    local.writeUInt32LE(compressed.length, 18);
+    local.writeUInt32LE(data.length, 22);
+    local.writeUInt16LE(name.length, 26);
+    local.writeUInt16LE(0, 28);
+
+    const central = Buffer.alloc(46);
+    central.writeUInt32LE(0x02014b50, 0);
+    central.writeUInt16LE(20, 4);
+    central.writeUInt16LE(20, 6);
+    central.writeUInt16LE(UTF8_FLAG, 8);
+    central.writeUInt16LE(DEFLATE, 10);
+    central.writeUInt16LE(time, 12);
+    central.writeUInt16LE(date, 14);
+    central.writeUInt32LE(checksum, 16);
+    central.writeUInt32LE(compressed.length, 20);
+    central.writeUInt32LE(data.length, 24);
+    central.writeUInt16LE(name.length, 28);
+    central.writeUInt32LE(offset, 42);
+
+    localParts.push(local, name, compressed);
+    centralParts.push(central, name);
+    offset += local.length + name.length + compressed.length;
+  }
+
+  const centralDirectory = Buffer.concat(centralParts);
+  const end = Buffer.alloc(22);
+  end.writeUInt32LE(0x06054b50, 0);
+  end.writeUInt16LE(entries.length, 8);
+  end.writeUInt16LE(entries.length, 10);
+  end.writeUInt32LE(centralDirectory.length, 12);
+  end.writeUInt32LE(offset, 16);
+
+  return Buffer.concat([...localParts, centralDirectory, end]);
+}
+
+/**
+ * Читает zip-архив целиком в память (store и deflate, без ZIP64 и
+ * шифрования). maxSize ограничивает суммарный распакованный размер —
+ * защита от zip-бомб в загруженных файлах.
+ * @throws Error, если архив повреждён или превышает maxSize.
+ */
+export function readZip(
+  archive: Buffer,
+  maxSize = 50 * 1024 * 1024
+): ZipEntry[] {
+  // Конец центрального каталога: 22 байта плюс комментарий до 64 КБ
+  let end = archive.length - 22;
+  const minEnd = Math.max(0, end - 0xffff);
+  while (end >= minEnd && archive.readUInt32LE(end) !== 0x06054b50) {
+    end--;
+  }
+  if (end < minEnd) {
+    throw new Error("Not a zip archive");
+  }
+
+  const count = archive.readUInt16LE(end + 10);
+  let offset = archive.readUInt32LE(end + 16);
+  let totalSize = 0;
+  const entries: ZipEntry[] = [];
+
+  for (let index = 0; index < count; index++) {
+    if (archive.readUInt32LE(offset) !== 0x02014b50) {
+      throw new Error("Corrupted zip archive");
+    }
+
+    const method = archive.readUInt16LE(offset + 10);
+    const compressedSize = archive.readUInt32LE(offset + 20);
+    const size = archive.readUInt32LE(offset + 24);
+    const nameLength = archive.readUInt16LE(offset + 28);
+    const extraLength = archive.readUInt16LE(offset + 30);
+    const commentLength = archive.readUInt16LE(offset + 32);
+    const localOffset = archive.readUInt32LE(offset + 42);
+    const name = archive.toString(
+      "utf8",
+      offset + 46,
+      offset + 46 + nameLength
+    );
+    offset += 46 + nameLength + extraLength + commentLength;
+
+    totalSize += size;
+    if (totalSize > maxSize) {
+      throw new Error("Zip archive is too large");
+    }
+
+    const dataStart =
+      localOffset +
+      30 +
+      archive.readUInt16LE(localOffset + 26) +
+      archive.readUInt16LE(localOffset + 28);
+    const compressed = archive.subarray(dataStart, dataStart + compressedSize);
+
+    if (method === STORE) {
+      entries.push({ name, data: Buffer.from(compressed) });
+    } else if (method === DEFLATE) {
+      entries.push({
+        name,
+        data: inflateRawSync(compressed, { maxOutputLength: size || 1 }),
+      });
+    } else {
+      throw new Error(`Unsupported zip compression method ${method}`);
+    }
+  }
+
+  return entries;
+}
@@ -6,15 +6,23 @@ import { notFound, redirect } from "next/navigation";
 import { Chat } from "@/app/@left/(_public)/(_CHAT)/(chat)/(_service)/(_components)/chat";
 import { DataStreamHandler } from "@/app/@left/(_public)/(_CHAT)/(chat)/(_service)/(_components)/data-stream-handler";
 import { DEFAULT_CHAT_MODEL } from "@/app/@left/(_public)/(_CHAT)/(chat)/(_service)/(_libs)/ai/models";
-import type { Attachment, UIMessage } from "ai";
 import { VisibilityType } from "@/app/@left/(_public)/(_CHAT)/(chat)/(_service)/(_components)/visibility-selector";
 import { Message, Visibility } from "@prisma/client";
 import { getChatById } from "../../../(_service)/(_db-queries)/chat/queries";
-import { getMessagesByChatId } from "../../../(_service)/(_db-queries)/message/queries";
+import {
+  getActiveBranchByChatId,
+  setActiveBranch,
+} from "../../../(_service)/(_db-queries)/message/queries";
+import { convertToUIMessages } from "../../../(_service)/(_libs)/ui-messages";
+import { getAssistantById } from "../../../(_service)/(_db-queries)/assistant/queries";
 import { auth } from "@/app/@left/(_public)/(_AUTH)/(_service)/(_actions)/auth";
 
-export default async function Page(props: { params: Promise<{ id: string }> }) {
+export default async function Page(props: {
+  params: Promise<{ id: string }>;
+  searchParams: Promise<{ message?: string | string[] }>;
+}) {
   let chat;
+  let focusMessageId: string | undefined;
   let messagesFromDb: Message[] = [];
   let session;
 
@@ -38,15 +46,30 @@ export default async function Page(props: { params: Promise<{ id: string }> }) {
       redirect("/login");
     }
 
-    // Проверяем приватность чата
-    if (chat.visibility === Visibility.private) {
+    // Проверяем приватность чата; unlisted-чат чужим открывается только по ссылке /share/[token]
+    if (chat.visibility !== Visibility.public) {
       if (!session.user || session.user.id !== chat.userId) {
         notFound();
       }
     }
 
     // Получаем сообщения
-    messagesFromDb = await getMessagesByChatId(id);
+    messagesFromDb = await getActiveBranchByChatId(id);
+
+    // ?message= из поиска по истории: совпадение может быть в другой ветке —
+    // владельцу переключаем активную ветку на неё
+    const { message } = await props.searchParams;
+    focusMessageId = typeof message === "string" ? message : undefined;
+    if (
+      focusMessageId &&
+      session.user?.id === chat.userId &&
+      !messagesFromDb.some(({ id }) => id === focusMessageId)
+    ) {
+      messagesFromDb = await setActiveBranch({
+        chatId: id,
+        messageId: focusMessageId,
+      }).catch(() => messagesFromDb);
+    }
   } catch (error) {
     // Логируем ошибку для отладки (можно убрать на проде)
     console.error("Error in chat page:", error);
@@ -54,36 +77,11 @@ export default async function Page(props: { params: Promise<{ id: string }> }) {
     notFound(); // или redirect("/error") если есть кастомная страница
   }
 
-  function convertToUIMessages(messages: Array<Message>): Array<UIMessage> {
-    function isAttachmentArray(data: unknown): data is Attachment[] {
-      return (
-        Array.isArray(data) &&
-        data.every(
-          (item) =>
-            typeof item === "object" &&
-            item !== null &&
-            "url" in item &&
-            typeof (item as any).url === "string"
-        )
-      );
-    }
-
-    return messages.map((message) => ({
-      id: message.id,
-      parts: message.parts as UIMessage["parts"],
-      role: message.role as UIMessage["role"],
-      content: "",
-      createdAt: message.createdAt,
-      experimental_attachments: isAttachmentArray(
-        message.attachments as unknown
-      )
-        ? (message.attachments as unknown as Attachment[])
-        : [],
-    }));
-  }
-
   const cookieStore = await cookies();
   const chatModelFromCookie = cookieStore.get("chat-model");
+  const assistant = chat.assistantId
+    ? await getAssistantById(chat.assistantId)
+    : null;
 
   return (
     <>
@@ -95,6 +93,8 @@ export default async function Page(props: { params: Promise<{ id: string }> }) {
         isReadonly={session?.user?.id !== chat.userId}
         session={session}
         autoResume={true}
+        focusMessageId={focusMessageId}
+        initialAssistant={assistant?.slug}
       />
 
       <DataStreamHandler id={chat.id} />
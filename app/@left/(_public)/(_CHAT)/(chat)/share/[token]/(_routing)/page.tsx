@@ -0,0 +1,43 @@
+// @/app/@left/(_public)/(_CHAT)/(chat)/share/[token]/(_routing)/page.tsx
+
+import type { Metadata } from "next";
+import { notFound } from "next/navigation";
+
+import { SharedChat } from "@/app/@left/(_public)/(_CHAT)/(chat)/(_service)/(_components)/shared-chat";
+import { auth } from "@/app/@left/(_public)/(_AUTH)/(_service)/(_actions)/auth";
+import { getActiveChatShareByToken } from "../../../(_service)/(_db-queries)/share/queries";
+import { getActiveBranchByChatId } from "../../../(_service)/(_db-queries)/message/queries";
+import { convertToUIMessages } from "../../../(_service)/(_libs)/ui-messages";
+
+// Ссылки на чаты не должны попадать в поисковую выдачу
+export const metadata: Metadata = {
+  robots: { index: false, follow: false },
+};
+
+export default async function Page(props: {
+  params: Promise<{ token: string }>;
+}) {
+  const { token } = await props.params;
+
+  // Отозванная или несуществующая ссылка — 404; сессия не обязательна
+  const share = await getActiveChatShareByToken(token);
+
+  if (!share) {
+    notFound();
+  }
+
+  const [messagesFromDb, session] = await Promise.all([
+    getActiveBranchByChatId(share.chatId),
+    auth(),
+  ]);
+
+  return (
+    <SharedChat
+      id={share.chatId}
+      title={share.Chat.title}
+      shareToken={token}
+      initialMessages={convertToUIMessages(messagesFromDb)}
+      session={session}
+    />
+  );
+}
@@ -0,0 +1,11 @@
+// @/app/@right/(_PRIVAT_ROUTES)/admin/(_routing)/assistants/page.tsx
+
+import AssistantsEditor from "../../(_service)/(_components)/assistants-editor";
+
+export default function AdminAssistantsPage() {
+  return (
+    <div className="container mx-auto max-w-4xl p-6">
+      <AssistantsEditor />
+    </div>
+  );
+}
@@ -4,6 +4,7 @@
 
 import { useAdminPagesNav } from "../(_context)/admin-pages-nav-context";
 import { AdminPageDeploy } from "./admin-pages/admin-page-deploy";
+import { AdminPageHistory } from "./admin-pages/admin-page-history/(_service)/(_components)/admin-page-history";
 import { AdminPageInfo } from "./admin-pages/admin-page-info/(_service)/(_components)/admin-page-info";
 import { AdminPagePreview } from "./admin-pages/admin-page-preview";
 import { AdminPageStep1 } from "./admin-pages/steps/step1/step1";
@@ -50,6 +51,8 @@ export function AdminPageContent() {
       return <AdminPagePreview slug={slug} />;
     case "deploy":
       return <AdminPageDeploy slug={slug} />;
+    case "history":
+      return <AdminPageHistory slug={slug} />;
     default:
       return <AdminPageInfo slug={slug} />;
   }
@@ -1,10 +1,7 @@
 "use client";
 
 import { Button } from "@/components/ui/button";
-import {
-  AdminPageTab,
-  useAdminPagesNav,
-} from "../(_context)/admin-pages-nav-context";
+import { useAdminPagesNav } from "../(_context)/admin-pages-nav-context";
 import {
   ADMIN_PAGES_TABS,
   IndicatorStatus,
@@ -30,9 +27,9 @@ export default function AdminPagesNavBar() {
   // Фильтрация табов в зависимости от режима отображения
   const getFilteredTabs = () => {
     if (displayMode === "required") {
-      // Показать только Required шаги + Info
+      // Показать только Required шаги + табы без индикатора (Info, History)
       return ADMIN_PAGES_TABS.filter(
-        (tab) => tab.stepType === "required" || tab.key === "info"
+        (tab) => tab.stepType === "required" || !tab.hasIndicator
       );
     }
     // Показать все табы
@@ -47,20 +44,20 @@ export default function AdminPagesNavBar() {
     return tab.label;
   };
 
-  const handleTabClick = (tabKey: AdminPageTab) => {
-    const indicatorStatus = getIndicatorStatus(tabKey);
+  const handleTabClick = (tab: (typeof ADMIN_PAGES_TABS)[0]) => {
+    const indicatorStatus = getIndicatorStatus(tab.key);
 
     // Allow click only if:
-    // 1. Tab is "info" (always accessible)
+    // 1. Tab has no indicator, e.g. "info" or "history" (always accessible)
     // 2. Tab has green indicator (completed)
     // 3. Tab has orange indicator (ready to activate)
     // Prevent click if tab has gray indicator (not ready)
     if (
-      tabKey === "info" ||
+      !tab.hasIndicator ||
       indicatorStatus === "green" ||
       indicatorStatus === "orange"
     ) {
-      setActiveTab(tabKey);
+      setActiveTab(tab.key);
     }
   };
 
@@ -73,7 +70,7 @@ export default function AdminPagesNavBar() {
           {filteredTabs.map((tab) => {
             const indicatorStatus = getIndicatorStatus(tab.key);
             const isClickable =
-              tab.key === "info" ||
+              !tab.hasIndicator ||
               indicatorStatus === "green" ||
               indicatorStatus === "orange";
 
@@ -83,7 +80,7 @@ export default function AdminPagesNavBar() {
               <Button
                 key={tab.key}
                 variant={activeTab === tab.key ? "default" : "outline"}
-                onClick={() => handleTabClick(tab.key)}
+                onClick={() => handleTabClick(tab)}
                 disabled={!isClickable}
                 title={
                   !isClickable
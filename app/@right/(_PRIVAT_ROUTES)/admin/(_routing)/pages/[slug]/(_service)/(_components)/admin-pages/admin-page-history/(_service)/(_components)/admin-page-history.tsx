@@ -0,0 +1,271 @@
+// @/app/@right/(_PRIVAT_ROUTES)/admin/(_routing)/pages/[slug]/(_service)/(_components)/admin-pages/admin-page-history/(_service)/(_components)/admin-page-history.tsx
+
+"use client";
+
+import { useCallback, useEffect, useState } from "react";
+import { toast } from "sonner";
+import { ChevronLeft, ChevronRight, Loader2 } from "lucide-react";
+import { PageRevisionSource } from "@prisma/client";
+import { Badge } from "@/components/ui/badge";
+import { Button } from "@/components/ui/button";
+import {
+  Card,
+  CardContent,
+  CardDescription,
+  CardHeader,
+  CardTitle,
+} from "@/components/ui/card";
+import { LoadingSpinner } from "@/components/ui/loading-spinner";
+import { cn } from "@/lib/utils";
+import { DiffView } from "@/app/@left/(_public)/(_CHAT)/(chat)/(_service)/(_components)/diffview";
+import { useNavigationMenu } from "@/app/@right/(_service)/(_context)/nav-bar-provider";
+import { PageNotFound } from "../../../../page-not-found";
+import { AdminPageInfoProps } from "../../../../../(_types)/admin-page-sections-types";
+import { useAdminPageData } from "../../../../../(_hooks)/use-admin-page-data";
+import {
+  RevisionChange,
+  RevisionDetail,
+  RevisionSummary,
+} from "../(_types)/revision-types";
+import { revisionToMarkdown } from "../(_utils)/revision-markdown";
+import { RevisionFooter } from "./revision-footer";
+
+const SOURCE_LABELS: Record<PageRevisionSource, string> = {
+  menu: "Menu",
+  page: "Page",
+  section: "Section",
+  upload: "Upload",
+  rollback: "Rollback",
+  schedule: "Schedule",
+};
+
+interface RevisionComparison {
+  revision: RevisionDetail;
+  previous: RevisionDetail | null;
+}
+
+const formatAuthor = (revision: RevisionSummary): string =>
+  revision.author?.name || revision.author?.email || "Unknown author";
+
+/**
+ * Revision history of a page: every save of the page and its sections,
+ * a diff against the previous version and one-click rollback
+ */
+export function AdminPageHistory({ slug }: AdminPageInfoProps) {
+  const { page, loading, initialized } = useAdminPageData(slug);
+  const { refreshCategories } = useNavigationMenu();
+
+  const [revisions, setRevisions] = useState<RevisionSummary[] | null>(null);
+  const [selectedIndex, setSelectedIndex] = useState(0);
+  const [comparison, setComparison] = useState<RevisionComparison | null>(null);
+  const [error, setError] = useState<string | null>(null);
+  const [isRestoring, setIsRestoring] = useState(false);
+
+  const pageId = page?.id;
+  const selected = revisions?.[selectedIndex] ?? null;
+  const selectedId = selected?.id;
+
+  const loadRevisions = useCallback(async () => {
+    if (!pageId) return;
+
+    setError(null);
+    try {
+      const res = await fetch(
+        `/api/content/revisions?pageId=${encodeURIComponent(pageId)}`
+      );
+      if (!res.ok) {
+        throw new Error(`Failed to load revisions (${res.status})`);
+      }
+      const data = await res.json();
+      setRevisions(data.revisions);
+    } catch (err) {
+      setError(err instanceof Error ? err.message : "Failed to load revisions");
+    }
+  }, [pageId]);
+
+  useEffect(() => {
+    loadRevisions();
+  }, [loadRevisions]);
+
+  useEffect(() => {
+    if (!selectedId) {
+      setComparison(null);
+      return;
+    }
+
+    fetch(`/api/content/revisions?id=${selectedId}`)
+      .then(async (res) => {
+        if (!res.ok) {
+          throw new Error(`Failed to load revision (${res.status})`);
+        }
+        setComparison(await res.json());
+      })
+      .catch((err: Error) => setError(err.message));
+  }, [selectedId]);
+
+  const handleRevisionChange = (type: RevisionChange) => {
+    if (!revisions) return;
+
+    // Revisions are sorted newest first
+    if (type === "latest") setSelectedIndex(0);
+    if (type === "prev") {
+      setSelectedIndex((index) => Math.min(index + 1, revisions.length - 1));
+    }
+    if (type === "next") setSelectedIndex((index) => Math.max(index - 1, 0));
+  };
+
+  const handleRestore = async () => {
+    if (!selected) return;
+
+    setIsRestoring(true);
+    try {
+      const res = await fetch(`/api/content/revisions?id=${selected.id}`, {
+        method: "POST",
+        headers: { "Content-Type": "application/json" },
+        body: JSON.stringify({}),
+      });
+      if (!res.ok) {
+        const data = await res.json().catch(() => ({}));
+        throw new Error(data.error || `Restore failed (${res.status})`);
+      }
+
+      toast.success(`Version ${selected.version} restored`);
+      setSelectedIndex(0);
+      // The admin menu holds its own copy of the page; reload it from the database
+      await Promise.all([loadRevisions(), refreshCategories()]);
+    } catch (err) {
+      toast.error(err instanceof Error ? err.message : "Restore failed");
+    } finally {
+      setIsRestoring(false);
+    }
+  };
+
+  if (loading || !initialized) {
+    return (
+      <div className="flex items-center justify-center py-12">
+        <LoadingSpinner />
+        <span className="ml-3 text-muted-foreground">Loading page data...</span>
+      </div>
+    );
+  }
+
+  if (!page) {
+    return <PageNotFound slug={slug} />;
+  }
+
+  const isLatest = selectedIndex === 0;
+  const isComparisonReady = comparison?.revision.id === selectedId;
+
+  return (
+    <div className="max-w-6xl mx-auto p-6">
+      <Card className="w-full">
+        <CardHeader className="flex flex-row flex-wrap items-start justify-between gap-4">
+          <div>
+            <CardTitle>Revision history</CardTitle>
+            <CardDescription>
+              Each save of the menu, page or sections creates a version. Changes
+              are shown against the version before.
+            </CardDescription>
+          </div>
+          {selected && revisions && (
+            <div className="flex items-center gap-2">
+              <Button
+                variant="outline"
+                size="icon"
+                disabled={selectedIndex >= revisions.length - 1}
+                onClick={() => handleRevisionChange("prev")}
+                title="Previous version"
+              >
+                <ChevronLeft className="size-4" />
+              </Button>
+              <span className="text-sm text-muted-foreground">
+                v{selected.version} of {revisions[0].version}
+              </span>
+              <Button
+                variant="outline"
+                size="icon"
+                disabled={isLatest}
+                onClick={() => handleRevisionChange("next")}
+                title="Next version"
+              >
+                <ChevronRight className="size-4" />
+              </Button>
+            </div>
+          )}
+        </CardHeader>
+        <CardContent>
+          {error && <p className="text-sm text-destructive">{error}</p>}
+          {!revisions && !error && (
+            <div className="flex justify-center py-8">
+              <Loader2 className="size-6 animate-spin text-muted-foreground" />
+            </div>
+          )}
+          {revisions?.length === 0 && (
+            <p className="py-8 text-center text-sm text-muted-foreground">
+              No versions yet. A version is recorded the next time this page is
+              saved to the database.
+            </p>
+          )}
+          {revisions && revisions.length > 0 && (
+            <div className="grid gap-6 lg:grid-cols-[260px_1fr]">
+              <ul className="flex max-h-[600px] flex-col gap-1 overflow-y-auto">
+                {revisions.map((revision, index) => (
+                  <li key={revision.id}>
+                    <button
+                      type="button"
+                      onClick={() => setSelectedIndex(index)}
+                      className={cn(
+                        "w-full rounded-md border px-3 py-2 text-left text-sm hover:bg-muted",
+                        index === selectedIndex && "border-primary bg-muted"
+                      )}
+                    >
+                      <div className="flex items-center justify-between gap-2">
+                        <span className="font-medium">v{revision.version}</span>
+                        <Badge variant="secondary">
+                          {SOURCE_LABELS[revision.source]}
+                        </Badge>
+                      </div>
+                      <div className="text-xs text-muted-foreground">
+                        {new Date(revision.createdAt).toLocaleString()} ·{" "}
+                        {formatAuthor(revision)}
+                      </div>
+                      {revision.note && (
+                        <div className="mt-1 line-clamp-2 text-xs">
+                          {revision.note}
+                        </div>
+                      )}
+                    </button>
+                  </li>
+                ))}
+              </ul>
+
+              <div className="min-w-0">
+                {isComparisonReady && comparison ? (
+                  <div className="prose max-w-none dark:prose-invert">
+                    <DiffView
+                      key={comparison.revision.id}
+                      oldContent={revisionToMarkdown(comparison.previous)}
+                      newContent={revisionToMarkdown(comparison.revision)}
+                    />
+                  </div>
+                ) : (
+                  <div className="flex justify-center py-8">
+                    <Loader2 className="size-6 animate-spin text-muted-foreground" />
+                  </div>
+                )}
+              </div>
+            </div>
+          )}
+        </CardContent>
+        {selected && !isLatest && (
+          <RevisionFooter
+            revision={selected}
+            isRestoring={isRestoring}
+            onRestore={handleRestore}
+            handleRevisionChange={handleRevisionChange}
+          />
+        )}
+      </Card>
+    </div>
+  );
+}
@@ -0,0 +1,49 @@
+// @/app/@right/(_PRIVAT_ROUTES)/admin/(_routing)/pages/[slug]/(_service)/(_components)/admin-pages/admin-page-history/(_service)/(_components)/revision-footer.tsx
+
+"use client";
+
+import { Loader2 } from "lucide-react";
+import { Button } from "@/components/ui/button";
+import { RevisionChange, RevisionSummary } from "../(_types)/revision-types";
+
+interface RevisionFooterProps {
+  revision: RevisionSummary;
+  isRestoring: boolean;
+  onRestore: () => void;
+  handleRevisionChange: (type: RevisionChange) => void;
+}
+
+/**
+ * Shown while an older revision is selected, like VersionFooter for chat documents
+ */
+export function RevisionFooter({
+  revision,
+  isRestoring,
+  onRestore,
+  handleRevisionChange,
+}: RevisionFooterProps) {
+  return (
+    <div className="sticky bottom-0 z-10 flex w-full flex-col justify-between gap-4 border-t bg-background p-4 lg:flex-row">
+      <div>
+        <div>You are viewing version {revision.version}</div>
+        <div className="text-sm text-muted-foreground">
+          Restoring saves it as a new version; nothing is lost
+        </div>
+      </div>
+
+      <div className="flex flex-row gap-4">
+        <Button disabled={isRestoring} onClick={onRestore}>
+          Restore this version
+          {isRestoring && <Loader2 className="ml-2 size-4 animate-spin" />}
+        </Button>
+        <Button
+          variant="outline"
+          disabled={isRestoring}
+          onClick={() => handleRevisionChange("latest")}
+        >
+          Back to latest version
+        </Button>
+      </div>
+    </div>
+  );
+}
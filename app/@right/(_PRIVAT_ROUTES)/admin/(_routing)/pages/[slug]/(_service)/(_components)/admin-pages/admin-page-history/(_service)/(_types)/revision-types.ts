@@ -0,0 +1,29 @@
+// @/app/@right/(_PRIVAT_ROUTES)/admin/(_routing)/pages/[slug]/(_service)/(_components)/admin-pages/admin-page-history/(_service)/(_types)/revision-types.ts
+
+import { PageRevisionSource } from "@prisma/client";
+import { PageData } from "@/app/@right/(_service)/(_types)/page-types";
+import { ExtendedSection } from "@/app/@right/(_service)/(_types)/section-types";
+
+/**
+ * Revision list item as returned by GET /api/content/revisions?pageId=
+ */
+export interface RevisionSummary {
+  id: string;
+  pageId: string;
+  version: number;
+  categoryId: string | null;
+  source: PageRevisionSource;
+  note: string | null;
+  createdAt: string;
+  author: { id: string; name: string | null; email: string | null } | null;
+}
+
+/**
+ * Revision with its snapshot, as returned by GET /api/content/revisions?id=
+ */
+export interface RevisionDetail extends RevisionSummary {
+  pageData: PageData;
+  sections: ExtendedSection[];
+}
+
+export type RevisionChange = "next" | "prev" | "latest";
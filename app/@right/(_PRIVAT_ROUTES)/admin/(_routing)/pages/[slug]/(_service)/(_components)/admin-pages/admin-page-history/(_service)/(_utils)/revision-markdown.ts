@@ -0,0 +1,39 @@
+// @/app/@right/(_PRIVAT_ROUTES)/admin/(_routing)/pages/[slug]/(_service)/(_components)/admin-pages/admin-page-history/(_service)/(_utils)/revision-markdown.ts
+
+import { RevisionDetail } from "../(_types)/revision-types";
+
+const MARKDOWN_SPECIAL_CHARS = /([\\`*_{}[\]()#+\-.!<>|~])/g;
+
+const formatValue = (value: unknown): string => {
+  const text = typeof value === "string" ? value : JSON.stringify(value);
+  return text.replace(MARKDOWN_SPECIAL_CHARS, "\\$1");
+};
+
+const fieldLines = (fields: object): string[] =>
+  Object.entries(fields)
+    .filter(([, value]) => value !== undefined && value !== null)
+    .map(([key, value]) => `- **${key}**: ${formatValue(value)}`);
+
+/**
+ * Renders a revision snapshot as markdown for DiffView:
+ * one list item per field, so the diff highlights exactly what changed.
+ */
+export const revisionToMarkdown = (revision: RevisionDetail | null): string => {
+  if (!revision) return "";
+
+  const { sections: menuSections = [], ...page } = revision.pageData;
+  const lines = ["## Page", "", ...fieldLines(page)];
+
+  if (menuSections.length > 0) {
+    lines.push("", "## Menu sections", "");
+    for (const { id, ...info } of menuSections) {
+      lines.push(`- **${formatValue(id)}**: ${formatValue(info)}`);
+    }
+  }
+
+  for (const { id, ...section } of revision.sections) {
+    lines.push("", `## Section ${formatValue(id)}`, "", ...fieldLines(section));
+  }
+
+  return lines.join("\n");
+};
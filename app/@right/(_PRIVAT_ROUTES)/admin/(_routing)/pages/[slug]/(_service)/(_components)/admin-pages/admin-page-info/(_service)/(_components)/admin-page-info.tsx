@@ -17,6 +17,10 @@ import {
   Target,
 } from "lucide-react";
 import { UserType } from "@prisma/client";
+import {
+  getPageStatus,
+  PAGE_STATUS_LABELS,
+} from "@/app/@right/(_service)/(_libs)/page-workflow";
 
 import { PageNotFound } from "../../../../page-not-found";
 import { AdminPageInfoProps } from "../(_types)/admin-page-types";
@@ -170,15 +174,15 @@ export function AdminPageInfo({ slug }: AdminPageInfoProps) {
         </div>
 
         <div className="flex items-center gap-2 shrink-0">
-          {page.isPublished ? (
+          {getPageStatus(page) === "published" ? (
             <Badge variant="default" className="flex items-center gap-1">
               <Eye className="size-3" />
-              Published
+              {PAGE_STATUS_LABELS.published}
             </Badge>
           ) : (
             <Badge variant="outline" className="flex items-center gap-1">
               <EyeOff className="size-3" />
-              Draft
+              {PAGE_STATUS_LABELS[getPageStatus(page)]}
             </Badge>
           )}
         </div>
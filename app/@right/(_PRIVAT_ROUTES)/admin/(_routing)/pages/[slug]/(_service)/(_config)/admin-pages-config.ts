@@ -180,6 +180,15 @@ export const ADMIN_PAGES_TABS: AdminPageTabConfig[] = [
     dependencies: ["step6"],
     titleForRequired: "Deploy", // Остается Deploy в обоих режимах
   },
+  {
+    key: "history",
+    label: "History",
+    title: "Revision History",
+    description:
+      "Every saved version of the page and its sections, with diff and rollback",
+    hasIndicator: false,
+    stepType: "optional",
+  },
 ];
 
 export const ADMIN_PAGES_CONFIG = {
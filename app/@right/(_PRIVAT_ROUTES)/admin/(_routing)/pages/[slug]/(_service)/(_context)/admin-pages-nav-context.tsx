@@ -28,7 +28,8 @@ export type AdminPageTab =
   | "step10"
   | "step11"
   | "preview"
-  | "deploy";
+  | "deploy"
+  | "history";
 
 export type DisplayMode = "all" | "required";
 
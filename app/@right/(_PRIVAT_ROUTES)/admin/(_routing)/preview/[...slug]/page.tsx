@@ -0,0 +1,48 @@
+// @/app/@right/(_PRIVAT_ROUTES)/admin/(_routing)/preview/[...slug]/page.tsx
+
+import { notFound } from "next/navigation";
+import { Badge } from "@/components/ui/badge";
+import { PageHtmlTransformer } from "@/app/@right/(_service)/(_components)/page-transformer-components/page-html-transformer";
+import { pageRowToPageConfig } from "@/app/@right/(_service)/(_libs)/content-mappers";
+import { PAGE_STATUS_LABELS } from "@/app/@right/(_service)/(_libs)/page-workflow";
+import { getStoredPageBySlug } from "@/app/@right/(_service)/(_db-queries)/content/queries";
+
+interface AdminPreviewPageProps {
+  params: Promise<{ slug: string[] }>;
+}
+
+export const metadata = {
+  robots: { index: false, follow: false },
+};
+
+/**
+ * Preview of a content store page in any workflow status.
+ * Access is limited to admins by the admin layout; the public [...slug] route
+ * only serves live pages.
+ */
+export default async function AdminPreviewPage({
+  params,
+}: AdminPreviewPageProps) {
+  const { slug } = await params;
+  const page = await getStoredPageBySlug({ slug });
+
+  if (!page) {
+    notFound();
+  }
+
+  return (
+    <>
+      <div className="flex items-center justify-center gap-2 border-b bg-secondary px-4 py-2 text-sm">
+        <span>Preview</span>
+        <Badge variant="outline">{PAGE_STATUS_LABELS[page.status]}</Badge>
+        {page.status === "scheduled" && page.publishAt && (
+          <span className="text-muted-foreground">
+            goes live{" "}
+            {page.publishAt.toISOString().replace("T", " ").slice(0, 16)} UTC
+          </span>
+        )}
+      </div>
+      <PageHtmlTransformer data={pageRowToPageConfig(page)} />
+    </>
+  );
+}
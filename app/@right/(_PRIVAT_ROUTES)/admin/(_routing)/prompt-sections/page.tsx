@@ -0,0 +1,11 @@
+// @/app/@right/(_PRIVAT_ROUTES)/admin/(_routing)/prompt-sections/page.tsx
+
+import PromptSectionsEditor from "../../(_service)/(_components)/prompt-sections-editor";
+
+export default function AdminPromptSectionsPage() {
+  return (
+    <div className="container mx-auto max-w-4xl p-6">
+      <PromptSectionsEditor />
+    </div>
+  );
+}
@@ -0,0 +1,11 @@
+// @/app/@right/(_PRIVAT_ROUTES)/admin/(_routing)/usage/page.tsx
+
+import TokenUsageReport from "../../(_service)/(_components)/token-usage-report";
+
+export default function AdminUsagePage() {
+  return (
+    <div className="container mx-auto max-w-6xl p-6">
+      <TokenUsageReport />
+    </div>
+  );
+}
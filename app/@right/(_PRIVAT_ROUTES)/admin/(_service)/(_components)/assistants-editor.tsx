@@ -0,0 +1,372 @@
+// @/app/@right/(_PRIVAT_ROUTES)/admin/(_service)/(_components)/assistants-editor.tsx
+
+"use client";
+
+import { useEffect, useState } from "react";
+import { Loader2, Plus, Trash2 } from "lucide-react";
+import { UserType } from "@prisma/client";
+import { Badge } from "@/components/ui/badge";
+import { Button } from "@/components/ui/button";
+import {
+  Card,
+  CardContent,
+  CardDescription,
+  CardHeader,
+  CardTitle,
+} from "@/components/ui/card";
+import { Input } from "@/components/ui/input";
+import { Label } from "@/components/ui/label";
+import {
+  Select,
+  SelectContent,
+  SelectItem,
+  SelectTrigger,
+  SelectValue,
+} from "@/components/ui/select";
+import { Textarea } from "@/components/ui/textarea";
+import { chatModels } from "@/app/@left/(_public)/(_CHAT)/(chat)/(_service)/(_libs)/ai/models";
+import { ASSISTANT_TOOLS } from "@/app/@left/(_public)/(_CHAT)/(chat)/(_service)/(_libs)/assistants";
+
+interface Assistant {
+  id: string;
+  slug: string;
+  name: string;
+  icon: string | null;
+  description: string;
+  systemPrompt: string;
+  tools: string[];
+  modelId: string;
+  knowledgePageIds: string[];
+  userTypes: UserType[];
+  enabled: boolean;
+  position: number;
+}
+
+interface KnowledgePage {
+  id: string;
+  linkName: string;
+  title?: string;
+  isVectorConnected: boolean;
+}
+
+type AssistantDraft = Omit<Assistant, "id">;
+
+const API_URL = "/api/admin/assistants";
+
+const USER_TYPES = Object.values(UserType);
+
+const EMPTY_DRAFT: AssistantDraft = {
+  slug: "",
+  name: "",
+  icon: "",
+  description: "",
+  systemPrompt: "",
+  tools: [...ASSISTANT_TOOLS],
+  modelId: chatModels[0]?.id ?? "",
+  knowledgePageIds: [],
+  userTypes: [],
+  enabled: true,
+  position: 0,
+};
+
+function toggle<T>(values: T[], value: T, checked: boolean): T[] {
+  return checked
+    ? [...values, value]
+    : values.filter((current) => current !== value);
+}
+
+function CheckboxList<T extends string>({
+  label,
+  options,
+  values,
+  onChange,
+}: {
+  label: string;
+  options: Array<{ value: T; label: string }>;
+  values: T[];
+  onChange: (values: T[]) => void;
+}) {
+  return (
+    <div className="flex flex-col gap-1.5">
+      <Label>{label}</Label>
+      <div className="flex flex-wrap gap-x-4 gap-y-1">
+        {options.map((option) => (
+          <label key={option.value} className="flex items-center gap-2 text-sm">
+            <input
+              type="checkbox"
+              className="size-4 accent-primary"
+              checked={values.includes(option.value)}
+              onChange={(event) =>
+                onChange(toggle(values, option.value, event.target.checked))
+              }
+            />
+            {option.label}
+          </label>
+        ))}
+      </div>
+    </div>
+  );
+}
+
+function AssistantForm({
+  initial,
+  pages,
+  submitLabel,
+  onSubmit,
+  onDelete,
+}: {
+  initial: AssistantDraft;
+  pages: KnowledgePage[];
+  submitLabel: string;
+  onSubmit: (draft: AssistantDraft) => Promise<boolean>;
+  onDelete?: () => Promise<void>;
+}) {
+  const [draft, setDraft] = useState(initial);
+  const [isSaving, setIsSaving] = useState(false);
+
+  const update = (patch: Partial<AssistantDraft>) =>
+    setDraft((current) => ({ ...current, ...patch }));
+
+  const submit = async () => {
+    setIsSaving(true);
+    const saved = await onSubmit(draft);
+    setIsSaving(false);
+    if (saved && !onDelete) setDraft(EMPTY_DRAFT);
+  };
+
+  return (
+    <div className="flex flex-col gap-3 rounded-md border p-4">
+      <div className="flex flex-wrap items-end gap-3">
+        <div className="flex w-16 flex-col gap-1.5">
+          <Label>Icon</Label>
+          <Input
+            value={draft.icon ?? ""}
+            maxLength={16}
+            onChange={(event) => update({ icon: event.target.value })}
+          />
+        </div>
+        <div className="flex flex-1 flex-col gap-1.5">
+          <Label>Name</Label>
+          <Input
+            value={draft.name}
+            onChange={(event) => update({ name: event.target.value })}
+          />
+        </div>
+        <div className="flex flex-1 flex-col gap-1.5">
+          <Label>Slug</Label>
+          <Input
+            value={draft.slug}
+            placeholder="support-bot"
+            onChange={(event) => update({ slug: event.target.value })}
+          />
+        </div>
+        <div className="flex w-24 flex-col gap-1.5">
+          <Label>Position</Label>
+          <Input
+            type="number"
+            value={draft.position}
+            onChange={(event) =>
+              update({ position: Number(event.target.value) || 0 })
+            }
+          />
+        </div>
+        <label className="flex h-9 items-center gap-2 text-sm">
+          <input
+            type="checkbox"
+            className="size-4 accent-primary"
+            checked={draft.enabled}
+            onChange={(event) => update({ enabled: event.target.checked })}
+          />
+          Enabled
+        </label>
+      </div>
+
+      <div className="flex flex-wrap items-end gap-3">
+        <div className="flex flex-1 flex-col gap-1.5">
+          <Label>Description</Label>
+          <Input
+            value={draft.description}
+            onChange={(event) => update({ description: event.target.value })}
+          />
+        </div>
+        <div className="flex flex-col gap-1.5">
+          <Label>Default model</Label>
+          <Select
+            value={draft.modelId}
+            onValueChange={(modelId) => update({ modelId })}
+          >
+            <SelectTrigger className="w-[200px]">
+              <SelectValue />
+            </SelectTrigger>
+            <SelectContent>
+              {chatModels.map((model) => (
+                <SelectItem key={model.id} value={model.id}>
+                  {model.name}
+                </SelectItem>
+              ))}
+            </SelectContent>
+          </Select>
+        </div>
+      </div>
+
+      <div className="flex flex-col gap-1.5">
+        <Label>System prompt</Label>
+        <Textarea
+          value={draft.systemPrompt}
+          className="min-h-28 font-mono text-sm"
+          onChange={(event) => update({ systemPrompt: event.target.value })}
+        />
+      </div>
+
+      <CheckboxList
+        label="Tools"
+        options={ASSISTANT_TOOLS.map((tool) => ({ value: tool, label: tool }))}
+        values={draft.tools}
+        onChange={(tools) => update({ tools })}
+      />
+
+      <CheckboxList
+        label="Visible to"
+        options={USER_TYPES.map((type) => ({ value: type, label: type }))}
+        values={draft.userTypes}
+        onChange={(userTypes) => update({ userTypes })}
+      />
+
+      <CheckboxList
+        label="Knowledge pages (none selected: whole knowledge base)"
+        options={pages
+          .filter((page) => page.isVectorConnected)
+          .map((page) => ({
+            value: page.id,
+            label: page.title || page.linkName,
+          }))}
+        values={draft.knowledgePageIds}
+        onChange={(knowledgePageIds) => update({ knowledgePageIds })}
+      />
+
+      <div className="flex justify-end gap-2">
+        {onDelete && (
+          <Button
+            variant="outline"
+            className="text-destructive"
+            onClick={onDelete}
+          >
+            <Trash2 />
+            Delete
+          </Button>
+        )}
+        <Button
+          disabled={isSaving || !draft.name.trim() || !draft.slug.trim()}
+          onClick={submit}
+        >
+          {isSaving ? (
+            <Loader2 className="animate-spin" />
+          ) : (
+            !onDelete && <Plus />
+          )}
+          {submitLabel}
+        </Button>
+      </div>
+    </div>
+  );
+}
+
+export default function AssistantsEditor() {
+  const [assistants, setAssistants] = useState<Assistant[] | null>(null);
+  const [pages, setPages] = useState<KnowledgePage[]>([]);
+  const [error, setError] = useState<string | null>(null);
+
+  const load = () =>
+    fetch(API_URL)
+      .then(async (res) => {
+        if (!res.ok) {
+          throw new Error(`Failed to load assistants (${res.status})`);
+        }
+        setAssistants(await res.json());
+        setError(null);
+      })
+      .catch((err: Error) => setError(err.message));
+
+  useEffect(() => {
+    load();
+    // Without content access the list stays empty and assistants search the whole base
+    fetch("/api/content/pages")
+      .then((res) => (res.ok ? res.json() : { pages: [] }))
+      .then((data: { pages: KnowledgePage[] }) => setPages(data.pages))
+      .catch(() => setPages([]));
+  }, []);
+
+  const request = async (url: string, init: RequestInit) => {
+    const res = await fetch(url, {
+      ...init,
+      headers: { "Content-Type": "application/json" },
+    });
+    if (!res.ok) {
+      const data = await res.json().catch(() => null);
+      setError(data?.error ?? `Request failed (${res.status})`);
+      return false;
+    }
+    await load();
+    return true;
+  };
+
+  return (
+    <Card className="w-full">
+      <CardHeader>
+        <CardTitle>Assistants</CardTitle>
+        <CardDescription>
+          Users pick an assistant when they start a chat. The assistant adds its
+          prompt, limits the tools and knowledge base search, and selects its
+          default model. Integrations use the api-chat-support assistant.
+        </CardDescription>
+      </CardHeader>
+      <CardContent className="flex flex-col gap-4">
+        {error && <div className="text-sm text-destructive">{error}</div>}
+
+        {assistants === null
+          ? !error && (
+              <div className="flex justify-center py-8">
+                <Loader2 className="size-6 animate-spin text-muted-foreground" />
+              </div>
+            )
+          : assistants.map((assistant) => (
+              <div key={assistant.id} className="flex flex-col gap-1">
+                <div className="flex gap-2">
+                  {!assistant.enabled && (
+                    <Badge variant="outline">Disabled</Badge>
+                  )}
+                  {assistant.userTypes.length === 0 && (
+                    <Badge variant="outline">Hidden from everyone</Badge>
+                  )}
+                </div>
+                <AssistantForm
+                  initial={assistant}
+                  pages={pages}
+                  submitLabel="Save"
+                  onSubmit={(draft) =>
+                    request(`${API_URL}?id=${assistant.id}`, {
+                      method: "PATCH",
+                      body: JSON.stringify(draft),
+                    })
+                  }
+                  onDelete={async () => {
+                    await request(`${API_URL}?id=${assistant.id}`, {
+                      method: "DELETE",
+                    });
+                  }}
+                />
+              </div>
+            ))}
+
+        <AssistantForm
+          initial={EMPTY_DRAFT}
+          pages={pages}
+          submitLabel="Add assistant"
+          onSubmit={(draft) =>
+            request(API_URL, { method: "POST", body: JSON.stringify(draft) })
+          }
+        />
+      </CardContent>
+    </Card>
+  );
+}
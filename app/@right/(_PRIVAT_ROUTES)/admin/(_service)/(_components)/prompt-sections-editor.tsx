@@ -0,0 +1,229 @@
+// @/app/@right/(_PRIVAT_ROUTES)/admin/(_service)/(_components)/prompt-sections-editor.tsx
+
+"use client";
+
+import { useEffect, useState } from "react";
+import { Loader2, Lock, Plus, Trash2 } from "lucide-react";
+import { Badge } from "@/components/ui/badge";
+import { Button } from "@/components/ui/button";
+import {
+  Card,
+  CardContent,
+  CardDescription,
+  CardHeader,
+  CardTitle,
+} from "@/components/ui/card";
+import { Input } from "@/components/ui/input";
+import { Label } from "@/components/ui/label";
+import { Textarea } from "@/components/ui/textarea";
+
+interface PromptSection {
+  id: string;
+  title: string;
+  content: string;
+  locked: boolean;
+  enabled: boolean;
+  position: number;
+}
+
+type PromptSectionDraft = Omit<PromptSection, "id">;
+
+const API_URL = "/api/admin/prompt-sections";
+
+const EMPTY_DRAFT: PromptSectionDraft = {
+  title: "",
+  content: "",
+  locked: false,
+  enabled: true,
+  position: 0,
+};
+
+function SectionForm({
+  initial,
+  submitLabel,
+  onSubmit,
+  onDelete,
+}: {
+  initial: PromptSectionDraft;
+  submitLabel: string;
+  onSubmit: (draft: PromptSectionDraft) => Promise<boolean>;
+  onDelete?: () => Promise<void>;
+}) {
+  const [draft, setDraft] = useState(initial);
+  const [isSaving, setIsSaving] = useState(false);
+
+  const update = (patch: Partial<PromptSectionDraft>) =>
+    setDraft((current) => ({ ...current, ...patch }));
+
+  const submit = async () => {
+    setIsSaving(true);
+    const saved = await onSubmit(draft);
+    setIsSaving(false);
+    if (saved && !onDelete) setDraft(EMPTY_DRAFT);
+  };
+
+  return (
+    <div className="flex flex-col gap-3 rounded-md border p-4">
+      <div className="flex flex-wrap items-end gap-3">
+        <div className="flex flex-1 flex-col gap-1.5">
+          <Label>Title</Label>
+          <Input
+            value={draft.title}
+            onChange={(event) => update({ title: event.target.value })}
+          />
+        </div>
+        <div className="flex w-24 flex-col gap-1.5">
+          <Label>Position</Label>
+          <Input
+            type="number"
+            value={draft.position}
+            onChange={(event) =>
+              update({ position: Number(event.target.value) || 0 })
+            }
+          />
+        </div>
+        <label className="flex h-9 items-center gap-2 text-sm">
+          <input
+            type="checkbox"
+            className="size-4 accent-primary"
+            checked={draft.enabled}
+            onChange={(event) => update({ enabled: event.target.checked })}
+          />
+          Enabled
+        </label>
+        <label className="flex h-9 items-center gap-2 text-sm">
+          <input
+            type="checkbox"
+            className="size-4 accent-primary"
+            checked={draft.locked}
+            onChange={(event) => update({ locked: event.target.checked })}
+          />
+          Locked
+        </label>
+      </div>
+
+      <Textarea
+        value={draft.content}
+        className="min-h-28 font-mono text-sm"
+        onChange={(event) => update({ content: event.target.value })}
+      />
+
+      <div className="flex justify-end gap-2">
+        {onDelete && (
+          <Button
+            variant="outline"
+            className="text-destructive"
+            onClick={onDelete}
+          >
+            <Trash2 />
+            Delete
+          </Button>
+        )}
+        <Button
+          disabled={isSaving || !draft.title.trim() || !draft.content.trim()}
+          onClick={submit}
+        >
+          {isSaving ? (
+            <Loader2 className="animate-spin" />
+          ) : (
+            !onDelete && <Plus />
+          )}
+          {submitLabel}
+        </Button>
+      </div>
+    </div>
+  );
+}
+
+export default function PromptSectionsEditor() {
+  const [sections, setSections] = useState<PromptSection[] | null>(null);
+  const [error, setError] = useState<string | null>(null);
+
+  const load = () =>
+    fetch(API_URL)
+      .then(async (res) => {
+        if (!res.ok) {
+          throw new Error(`Failed to load prompt sections (${res.status})`);
+        }
+        setSections(await res.json());
+        setError(null);
+      })
+      .catch((err: Error) => setError(err.message));
+
+  useEffect(() => {
+    load();
+  }, []);
+
+  const request = async (url: string, init: RequestInit) => {
+    const res = await fetch(url, {
+      ...init,
+      headers: { "Content-Type": "application/json" },
+    });
+    if (!res.ok) {
+      setError(`Request failed (${res.status})`);
+      return false;
+    }
+    await load();
+    return true;
+  };
+
+  return (
+    <Card className="w-full">
+      <CardHeader>
+        <CardTitle>System prompt sections</CardTitle>
+        <CardDescription>
+          Enabled sections are added to every chat in position order. Locked
+          sections go after user instructions and take precedence over them.
+        </CardDescription>
+      </CardHeader>
+      <CardContent className="flex flex-col gap-4">
+        {error && <div className="text-sm text-destructive">{error}</div>}
+
+        {sections === null
+          ? !error && (
+              <div className="flex justify-center py-8">
+                <Loader2 className="size-6 animate-spin text-muted-foreground" />
+              </div>
+            )
+          : sections.map((section) => (
+              <div key={section.id} className="flex flex-col gap-1">
+                <div className="flex gap-2">
+                  {section.locked && (
+                    <Badge variant="secondary">
+                      <Lock className="mr-1 size-3" />
+                      Locked
+                    </Badge>
+                  )}
+                  {!section.enabled && (
+                    <Badge variant="outline">Disabled</Badge>
+                  )}
+                </div>
+                <SectionForm
+                  initial={section}
+                  submitLabel="Save"
+                  onSubmit={(draft) =>
+                    request(`${API_URL}?id=${section.id}`, {
+                      method: "PATCH",
+                      body: JSON.stringify(draft),
+                    })
+                  }
+                  onDelete={async () => {
+                    await request(`${API_URL}?id=${section.id}`, {
+                      method: "DELETE",
+                    });
+                  }}
+                />
+              </div>
+            ))}
+
+        <SectionForm
+          initial={EMPTY_DRAFT}
+          submitLabel="Add section"
+          onSubmit={(draft) =>
+            request(API_URL, { method: "POST", body: JSON.stringify(draft) })
+          }
+        />
+      </CardContent>
+    </Card>
+  );
+}
@@ -0,0 +1,210 @@
+// @/app/@right/(_PRIVAT_ROUTES)/admin/(_service)/(_components)/token-usage-report.tsx
+
+"use client";
+
+import { useEffect, useState } from "react";
+import { Loader2 } from "lucide-react";
+import {
+  Card,
+  CardContent,
+  CardDescription,
+  CardHeader,
+  CardTitle,
+} from "@/components/ui/card";
+import {
+  Select,
+  SelectContent,
+  SelectItem,
+  SelectTrigger,
+  SelectValue,
+} from "@/components/ui/select";
+import {
+  Table,
+  TableBody,
+  TableCell,
+  TableFooter,
+  TableHead,
+  TableHeader,
+  TableRow,
+} from "@/components/ui/table";
+
+type GroupBy = "day" | "user" | "userType" | "model";
+
+interface UsageRow {
+  key: string;
+  requests: number;
+  promptTokens: number;
+  completionTokens: number;
+  totalTokens: number;
+  cost: number;
+}
+
+interface UsageReport {
+  groupBy: GroupBy;
+  from: string;
+  to: string;
+  rows: UsageRow[];
+  totals: { requests: number; totalTokens: number; cost: number };
+}
+
+const GROUP_BY_LABELS: Record<GroupBy, string> = {
+  day: "Day",
+  user: "User",
+  userType: "User type",
+  model: "Model",
+};
+
+const PERIODS = [
+  { days: 7, label: "Last 7 days" },
+  { days: 30, label: "Last 30 days" },
+  { days: 90, label: "Last 90 days" },
+];
+
+const numberFormat = new Intl.NumberFormat("en-US");
+
+function formatCost(cost: number): string {
+  return `$${cost.toFixed(cost < 1 ? 4 : 2)}`;
+}
+
+export default function TokenUsageReport() {
+  const [groupBy, setGroupBy] = useState<GroupBy>("day");
+  const [periodDays, setPeriodDays] = useState(30);
+  const [report, setReport] = useState<UsageReport | null>(null);
+  const [isLoading, setIsLoading] = useState(false);
+  const [error, setError] = useState<string | null>(null);
+
+  useEffect(() => {
+    const to = new Date();
+    const from = new Date(to.getTime() - periodDays * 24 * 60 * 60 * 1000);
+    const params = new URLSearchParams({
+      groupBy,
+      from: from.toISOString(),
+      to: to.toISOString(),
+    });
+
+    setIsLoading(true);
+    setError(null);
+
+    fetch(`/api/admin/usage?${params}`)
+      .then(async (res) => {
+        if (!res.ok) {
+          throw new Error(`Failed to load usage report (${res.status})`);
+        }
+        setReport(await res.json());
+      })
+      .catch((err: Error) => setError(err.message))
+      .finally(() => setIsLoading(false));
+  }, [groupBy, periodDays]);
+
+  return (
+    <Card className="w-full">
+      <CardHeader className="flex flex-row flex-wrap items-start justify-between gap-4">
+        <div>
+          <CardTitle>Token usage</CardTitle>
+          <CardDescription>
+            Tokens and estimated cost recorded for every model call.
+          </CardDescription>
+        </div>
+        <div className="flex gap-2">
+          <Select
+            value={String(periodDays)}
+            onValueChange={(value) => setPeriodDays(Number(value))}
+          >
+            <SelectTrigger className="w-[150px]">
+              <SelectValue />
+            </SelectTrigger>
+            <SelectContent>
+              {PERIODS.map((period) => (
+                <SelectItem key={period.days} value={String(period.days)}>
+                  {period.label}
+                </SelectItem>
+              ))}
+            </SelectContent>
+          </Select>
+          <Select
+            value={groupBy}
+            onValueChange={(value) => setGroupBy(value as GroupBy)}
+          >
+            <SelectTrigger className="w-[150px]">
+              <SelectValue />
+            </SelectTrigger>
+            <SelectContent>
+              {(Object.keys(GROUP_BY_LABELS) as GroupBy[]).map((key) => (
+                <SelectItem key={key} value={key}>
+                  By {GROUP_BY_LABELS[key].toLowerCase()}
+                </SelectItem>
+              ))}
+            </SelectContent>
+          </Select>
+        </div>
+      </CardHeader>
+      <CardContent>
+        {error && <p className="text-sm text-destructive">{error}</p>}
+        {isLoading && !report && (
+          <div className="flex justify-center py-8">
+            <Loader2 className="size-6 animate-spin text-muted-foreground" />
+          </div>
+        )}
+        {report && (
+          <Table>
+            <TableHeader>
+              <TableRow>
+                <TableHead>{GROUP_BY_LABELS[report.groupBy]}</TableHead>
+                <TableHead className="text-right">Requests</TableHead>
+                <TableHead className="text-right">Prompt tokens</TableHead>
+                <TableHead className="text-right">Completion tokens</TableHead>
+                <TableHead className="text-right">Total tokens</TableHead>
+                <TableHead className="text-right">Cost</TableHead>
+              </TableRow>
+            </TableHeader>
+            <TableBody>
+              {report.rows.length === 0 ? (
+                <TableRow>
+                  <TableCell colSpan={6} className="text-center">
+                    No usage recorded for this period.
+                  </TableCell>
+                </TableRow>
+              ) : (
+                report.rows.map((row) => (
+                  <TableRow key={row.key}>
+                    <TableCell className="font-medium">{row.key}</TableCell>
+                    <TableCell className="text-right">
+                      {numberFormat.format(row.requests)}
+                    </TableCell>
+                    <TableCell className="text-right">
+                      {numberFormat.format(row.promptTokens)}
+                    </TableCell>
+                    <TableCell className="text-right">
+                      {numberFormat.format(row.completionTokens)}
+                    </TableCell>
+                    <TableCell className="text-right">
+                      {numberFormat.format(row.totalTokens)}
+                    </TableCell>
+                    <TableCell className="text-right">
+                      {formatCost(row.cost)}
+                    </TableCell>
+                  </TableRow>
+                ))
+              )}
+            </TableBody>
+            <TableFooter>
+              <TableRow>
+                <TableCell>Total</TableCell>
+                <TableCell className="text-right">
+                  {numberFormat.format(report.totals.requests)}
+                </TableCell>
+                <TableCell colSpan={2} />
+                <TableCell className="text-right">
+                  {numberFormat.format(report.totals.totalTokens)}
+                </TableCell>
+                <TableCell className="text-right">
+                  {formatCost(report.totals.cost)}
+                </TableCell>
+              </TableRow>
+            </TableFooter>
+          </Table>
+        )}
+      </CardContent>
+    </Card>
+  );
+}
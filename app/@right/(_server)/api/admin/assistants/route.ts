@@ -0,0 +1,181 @@
+// @/app/@right/(_server)/api/admin/assistants/route.ts
+
+import { NextRequest, NextResponse } from "next/server";
+import { Prisma, UserType } from "@prisma/client";
+import { z } from "zod";
+import { auth } from "@/app/@left/(_public)/(_AUTH)/(_service)/(_actions)/auth";
+import { isChatModelId } from "@/app/@left/(_public)/(_CHAT)/(chat)/(_service)/(_libs)/ai/models";
+import { ASSISTANT_TOOLS } from "@/app/@left/(_public)/(_CHAT)/(chat)/(_service)/(_libs)/assistants";
+import {
+  createAssistant,
+  deleteAssistantById,
+  getAssistants,
+  updateAssistant,
+} from "@/app/@left/(_public)/(_CHAT)/(chat)/(_service)/(_db-queries)/assistant/queries";
+
+const assistantSchema = z.object({
+  slug: z
+    .string()
+    .trim()
+    .regex(
+      /^[a-z0-9]+(?:-[a-z0-9]+)*$/,
+      "Use lowercase letters, digits and dashes"
+    )
+    .max(100),
+  name: z.string().trim().min(1).max(100),
+  icon: z
+    .string()
+    .trim()
+    .max(16)
+    .transform((value) => value || null)
+    .nullable()
+    .default(null),
+  description: z.string().trim().max(500).default(""),
+  systemPrompt: z.string().trim().max(20000).default(""),
+  tools: z.array(z.enum(ASSISTANT_TOOLS)).default([]),
+  modelId: z.string().refine(isChatModelId, { message: "Unknown chat model" }),
+  knowledgePageIds: z.array(z.string().min(1)).max(200).default([]),
+  userTypes: z.array(z.nativeEnum(UserType)).default([]),
+  enabled: z.boolean().default(true),
+  position: z.number().int().default(0),
+});
+
+// Omitted fields stay unchanged: partial() skips the defaults above
+const assistantPatchSchema = assistantSchema.partial();
+
+async function isAllowed() {
+  const session = await auth();
+  const allowed: UserType[] = [UserType.admin, UserType.architect];
+  return !!session?.user && allowed.includes(session.user.type);
+}
+
+function prismaErrorResponse(error: unknown) {
+  if (error instanceof Prisma.PrismaClientKnownRequestError) {
+    if (error.code === "P2025") {
+      return NextResponse.json({ error: "Not Found" }, { status: 404 });
+    }
+    if (error.code === "P2002") {
+      return NextResponse.json(
+        { error: "An assistant with this slug already exists" },
+        { status: 409 }
+      );
+    }
+  }
+  return null;
+}
+
+/**
+ * GET /api/admin/assistants
+ * All assistants, enabled or not, in selector order.
+ */
+export async function GET() {
+  if (!(await isAllowed())) {
+    return NextResponse.json({ error: "Forbidden" }, { status: 403 });
+  }
+
+  try {
+    return NextResponse.json(await getAssistants());
+  } catch (error) {
+    console.error("GET /api/admin/assistants error:", error);
+    return NextResponse.json(
+      { error: "Failed to load assistants" },
+      { status: 500 }
+    );
+  }
+}
+
+/**
+ * POST /api/admin/assistants
+ * Body: { slug, name, modelId, icon?, description?, systemPrompt?, tools?,
+ * knowledgePageIds?, userTypes?, enabled?, position? }.
+ */
+export async function POST(request: NextRequest) {
+  if (!(await isAllowed())) {
+    return NextResponse.json({ error: "Forbidden" }, { status: 403 });
+  }
+
+  const parsed = assistantSchema.safeParse(
+    await request.json().catch(() => null)
+  );
+  if (!parsed.success) {
+    return NextResponse.json(
+      { error: "Invalid request body", details: parsed.error.issues },
+      { status: 400 }
+    );
+  }
+
+  try {
+    const assistant = await createAssistant(parsed.data);
+    return NextResponse.json(assistant, { status: 201 });
+  } catch (error) {
+    const response = prismaErrorResponse(error);
+    if (response) return response;
+    console.error("POST /api/admin/assistants error:", error);
+    return NextResponse.json(
+      { error: "Failed to create assistant" },
+      { status: 500 }
+    );
+  }
+}
+
+/**
+ * PATCH /api/admin/assistants?id=...
+ * Body: any subset of the POST fields.
+ */
+export async function PATCH(request: NextRequest) {
+  if (!(await isAllowed())) {
+    return NextResponse.json({ error: "Forbidden" }, { status: 403 });
+  }
+
+  const id = request.nextUrl.searchParams.get("id");
+  const parsed = assistantPatchSchema.safeParse(
+    await request.json().catch(() => null)
+  );
+  if (!id || !parsed.success) {
+    return NextResponse.json(
+      { error: "Invalid request", details: parsed.error?.issues },
+      { status: 400 }
+    );
+  }
+
+  try {
+    const assistant = await updateAssistant({ id, data: parsed.data });
+    return NextResponse.json(assistant);
+  } catch (error) {
+    const response = prismaErrorResponse(error);
+    if (response) return response;
+    console.error("PATCH /api/admin/assistants error:", error);
+    return NextResponse.json(
+      { error: "Failed to update assistant" },
+      { status: 500 }
+    );
+  }
+}
+
+/**
+ * DELETE /api/admin/assistants?id=...
+ * Chats of the assistant continue with the default assistant.
+ */
+export async function DELETE(request: NextRequest) {
+  if (!(await isAllowed())) {
+    return NextResponse.json({ error: "Forbidden" }, { status: 403 });
+  }
+
+  const id = request.nextUrl.searchParams.get("id");
+  if (!id) {
+    return NextResponse.json({ error: "Missing id" }, { status: 400 });
+  }
+
+  try {
+    const assistant = await deleteAssistantById(id);
+    return NextResponse.json(assistant);
+  } catch (error) {
+    const response = prismaErrorResponse(error);
+    if (response) return response;
+    console.error("DELETE /api/admin/assistants error:", error);
+    return NextResponse.json(
+      { error: "Failed to delete assistant" },
+      { status: 500 }
+    );
+  }
+}
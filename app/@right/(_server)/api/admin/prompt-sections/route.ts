@@ -0,0 +1,151 @@
+// @/app/@right/(_server)/api/admin/prompt-sections/route.ts
+
+import { NextRequest, NextResponse } from "next/server";
+import { Prisma, UserType } from "@prisma/client";
+import { z } from "zod";
+import { auth } from "@/app/@left/(_public)/(_AUTH)/(_service)/(_actions)/auth";
+import {
+  createSystemPromptSection,
+  deleteSystemPromptSectionById,
+  getSystemPromptSections,
+  updateSystemPromptSection,
+} from "@/app/@left/(_public)/(_CHAT)/(chat)/(_service)/(_db-queries)/prompt-section/queries";
+
+const sectionSchema = z.object({
+  title: z.string().trim().min(1).max(200),
+  content: z.string().trim().min(1).max(20000),
+  locked: z.boolean().default(false),
+  enabled: z.boolean().default(true),
+  position: z.number().int().default(0),
+});
+
+// Omitted fields stay unchanged: partial() skips the defaults above
+const sectionPatchSchema = sectionSchema.partial();
+
+async function isAllowed() {
+  const session = await auth();
+  const allowed: UserType[] = [UserType.admin, UserType.architect];
+  return !!session?.user && allowed.includes(session.user.type);
+}
+
+function isNotFound(error: unknown) {
+  return (
+    error instanceof Prisma.PrismaClientKnownRequestError &&
+    error.code === "P2025"
+  );
+}
+
+/**
+ * GET /api/admin/prompt-sections
+ * All system prompt sections, enabled or not, in prompt order.
+ */
+export async function GET() {
+  if (!(await isAllowed())) {
+    return NextResponse.json({ error: "Forbidden" }, { status: 403 });
+  }
+
+  try {
+    return NextResponse.json(await getSystemPromptSections());
+  } catch (error) {
+    console.error("GET /api/admin/prompt-sections error:", error);
+    return NextResponse.json(
+      { error: "Failed to load prompt sections" },
+      { status: 500 }
+    );
+  }
+}
+
+/**
+ * POST /api/admin/prompt-sections
+ * Body: { title, content, locked?, enabled?, position? }.
+ * Locked sections go after user instructions and override them.
+ */
+export async function POST(request: NextRequest) {
+  if (!(await isAllowed())) {
+    return NextResponse.json({ error: "Forbidden" }, { status: 403 });
+  }
+
+  const parsed = sectionSchema.safeParse(
+    await request.json().catch(() => null)
+  );
+  if (!parsed.success) {
+    return NextResponse.json(
+      { error: "Invalid request body", details: parsed.error.issues },
+      { status: 400 }
+    );
+  }
+
+  try {
+    const section = await createSystemPromptSection(parsed.data);
+    return NextResponse.json(section, { status: 201 });
+  } catch (error) {
+    console.error("POST /api/admin/prompt-sections error:", error);
+    return NextResponse.json(
+      { error: "Failed to create prompt section" },
+      { status: 500 }
+    );
+  }
+}
+
+/**
+ * PATCH /api/admin/prompt-sections?id=...
+ * Body: any subset of { title, content, locked, enabled, position }.
+ */
+export async function PATCH(request: NextRequest) {
+  if (!(await isAllowed())) {
+    return NextResponse.json({ error: "Forbidden" }, { status: 403 });
+  }
+
+  const id = request.nextUrl.searchParams.get("id");
+  const parsed = sectionPatchSchema.safeParse(
+    await request.json().catch(() => null)
+  );
+  if (!id || !parsed.success) {
+    return NextResponse.json(
+      { error: "Invalid request", details: parsed.error?.issues },
+      { status: 400 }
+    );
+  }
+
+  try {
+    const section = await updateSystemPromptSection({ id, data: parsed.data });
+    return NextResponse.json(section);
+  } catch (error) {
+    if (isNotFound(error)) {
+      return NextResponse.json({ error: "Not Found" }, { status: 404 });
+    }
+    console.error("PATCH /api/admin/prompt-sections error:", error);
+    return NextResponse.json(
+      { error: "Failed to update prompt section" },
+      { status: 500 }
+    );
+  }
+}
+
+/**
+ * DELETE /api/admin/prompt-sections?id=...
+ */
+export async function DELETE(request: NextRequest) {
+  if (!(await isAllowed())) {
+    return NextResponse.json({ error: "Forbidden" }, { status: 403 });
+  }
+
+  const id = request.nextUrl.searchParams.get("id");
+  if (!id) {
+    return NextResponse.json({ error: "Missing id" }, { status: 400 });
+  }
+
+  try {
+    const section = await deleteSystemPromptSectionById(id);
+    return NextResponse.json(section);
+  } catch (error) {
+    if (isNotFound(error)) {
+      return NextResponse.json({ error: "Not Found" }, { status: 404 });
+    }
+    console.error("DELETE /api/admin/prompt-sections error:", error);
+    return NextResponse.json(
+      { error: "Failed to delete prompt section" },
+      { status: 500 }
+    );
+  }
+}
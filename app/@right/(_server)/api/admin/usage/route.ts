@@ -0,0 +1,74 @@
+// @/app/@right/(_server)/api/admin/usage/route.ts
+
+import { NextRequest, NextResponse } from "next/server";
+import { UserType } from "@prisma/client";
+import { z } from "zod";
+import { auth } from "@/app/@left/(_public)/(_AUTH)/(_service)/(_actions)/auth";
+import { getTokenUsageReport } from "@/app/@left/(_public)/(_CHAT)/(chat)/(_service)/(_db-queries)/usage/queries";
+
+const DEFAULT_PERIOD_DAYS = 30;
+
+const querySchema = z.object({
+  groupBy: z.enum(["day", "user", "userType", "model"]).default("day"),
+  from: z.coerce.date().optional(),
+  to: z.coerce.date().optional(),
+});
+
+/**
+ * GET /api/admin/usage?groupBy=day|user|userType|model&from=ISO&to=ISO
+ * Aggregated token usage and cost. Admins and architects only.
+ */
+export async function GET(request: NextRequest) {
+  const session = await auth();
+  const allowed: UserType[] = [UserType.admin, UserType.architect];
+
+  if (!session?.user || !allowed.includes(session.user.type)) {
+    return NextResponse.json({ error: "Forbidden" }, { status: 403 });
+  }
+
+  const parsed = querySchema.safeParse(
+    Object.fromEntries(request.nextUrl.searchParams)
+  );
+  if (!parsed.success) {
+    return NextResponse.json(
+      { error: "Invalid query parameters", details: parsed.error.issues },
+      { status: 400 }
+    );
+  }
+
+  const to = parsed.data.to ?? new Date();
+  const from =
+    parsed.data.from ??
+    new Date(to.getTime() - DEFAULT_PERIOD_DAYS * 24 * 60 * 60 * 1000);
+
+  try {
+    const rows = await getTokenUsageReport({
+      groupBy: parsed.data.groupBy,
+      from,
+      to,
+    });
+
+    const totals = rows.reduce(
+      (acc, row) => ({
+        requests: acc.requests + row.requests,
+        totalTokens: acc.totalTokens + row.totalTokens,
+        cost: acc.cost + row.cost,
+      }),
+      { requests: 0, totalTokens: 0, cost: 0 }
+    );
+
+    return NextResponse.json({
+      groupBy: parsed.data.groupBy,
+      from: from.toISOString(),
+      to: to.toISOString(),
+      rows,
+      totals,
+    });
+  } catch (error) {
+    console.error("GET /api/admin/usage error:", error);
+    return NextResponse.json(
+      { error: "Failed to build usage report" },
+      { status: 500 }
+    );
+  }
+}
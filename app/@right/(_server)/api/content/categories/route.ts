@@ -0,0 +1,131 @@
+// @/app/@right/(_server)/api/content/categories/route.ts
+
+import { NextRequest, NextResponse } from "next/server";
+import {
+  findLivePageError,
+  getContentEditorSession,
+} from "@/app/@right/(_service)/(_libs)/content-permissions";
+import { categorySchema } from "@/app/@right/(_service)/(_libs)/content-schemas";
+import { revalidateContent } from "@/app/@right/(_service)/(_libs)/revalidate-content";
+import {
+  createCategory,
+  deleteCategory,
+  getCategories,
+  updateCategory,
+} from "@/app/@right/(_service)/(_db-queries)/content/queries";
+
+/**
+ * GET /api/content/categories — list categories
+ */
+export async function GET() {
+  if (!(await getContentEditorSession())) {
+    return NextResponse.json({ error: "Forbidden" }, { status: 403 });
+  }
+
+  try {
+    return NextResponse.json({ categories: await getCategories() });
+  } catch (error) {
+    return NextResponse.json(
+      { error: "Failed to load categories" },
+      { status: 500 }
+    );
+  }
+}
+
+/**
+ * POST /api/content/categories — create a category { title, order }
+ */
+export async function POST(request: NextRequest) {
+  if (!(await getContentEditorSession())) {
+    return NextResponse.json({ error: "Forbidden" }, { status: 403 });
+  }
+
+  const parsed = categorySchema.safeParse(
+    await request.json().catch(() => null)
+  );
+  if (!parsed.success) {
+    return NextResponse.json(
+      { error: "Invalid request body", details: parsed.error.issues },
+      { status: 400 }
+    );
+  }
+
+  try {
+    const category = await createCategory(parsed.data);
+    revalidateContent();
+    return NextResponse.json({ category }, { status: 201 });
+  } catch (error) {
+    return NextResponse.json(
+      { error: "Failed to create category" },
+      { status: 500 }
+    );
+  }
+}
+
+/**
+ * PATCH /api/content/categories?id= — rename or reorder a category
+ */
+export async function PATCH(request: NextRequest) {
+  if (!(await getContentEditorSession())) {
+    return NextResponse.json({ error: "Forbidden" }, { status: 403 });
+  }
+
+  const id = request.nextUrl.searchParams.get("id");
+  if (!id) {
+    return NextResponse.json({ error: "Missing id" }, { status: 400 });
+  }
+
+  const parsed = categorySchema
+    .partial()
+    .safeParse(await request.json().catch(() => null));
+  if (!parsed.success) {
+    return NextResponse.json(
+      { error: "Invalid request body", details: parsed.error.issues },
+      { status: 400 }
+    );
+  }
+
+  try {
+    const category = await updateCategory({ id, data: parsed.data });
+    revalidateContent();
+    return NextResponse.json({ category });
+  } catch (error) {
+    return NextResponse.json(
+      { error: "Failed to update category" },
+      { status: 500 }
+    );
+  }
+}
+
+/**
+ * DELETE /api/content/categories?id= — delete a category with its pages
+ */
+export async function DELETE(request: NextRequest) {
+  const session = await getContentEditorSession();
+  if (!session) {
+    return NextResponse.json({ error: "Forbidden" }, { status: 403 });
+  }
+
+  const id = request.nextUrl.searchParams.get("id");
+  if (!id) {
+    return NextResponse.json({ error: "Missing id" }, { status: 400 });
+  }
+
+  try {
+    const liveError = await findLivePageError(session.user.type, {
+      categoryId: id,
+    });
+    if (liveError) {
+      return NextResponse.json({ error: liveError }, { status: 403 });
+    }
+
+    const category = await deleteCategory({ id });
+    revalidateContent();
+    return NextResponse.json({ category });
+  } catch (error) {
+    return NextResponse.json(
+      { error: "Failed to delete category" },
+      { status: 500 }
+    );
+  }
+}
@@ -0,0 +1,32 @@
+// @/app/@right/(_server)/api/content/export/route.ts
+
+import { NextResponse } from "next/server";
+import { OperationStatus } from "@/app/@right/(_service)/(_types)/api-response-types";
+import { getContentEditorSession } from "@/app/@right/(_service)/(_libs)/content-permissions";
+import { writeContentDataFile } from "@/app/@right/(_service)/(_libs)/content-data-file";
+import { getMenuCategories } from "@/app/@right/(_service)/(_db-queries)/content/queries";
+
+/**
+ * POST /api/content/export — writes the database menu back to content-data.ts
+ * (local file, plus a GitHub commit in production) for git-based deploys.
+ */
+export async function POST() {
+  if (!(await getContentEditorSession())) {
+    return NextResponse.json({ error: "Forbidden" }, { status: 403 });
+  }
+
+  try {
+    const result = await writeContentDataFile(await getMenuCategories());
+    const httpStatus = result.status === OperationStatus.SUCCESS ? 200 : 500;
+    return NextResponse.json(result, { status: httpStatus });
+  } catch (error: any) {
+    return NextResponse.json(
+      {
+        status: OperationStatus.UNKNOWN_ERROR,
+        message: "An unexpected error occurred",
+        error: error.message || "Unknown error",
+      },
+      { status: 500 }
+    );
+  }
+}
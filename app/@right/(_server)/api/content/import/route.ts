@@ -0,0 +1,69 @@
+// @/app/@right/(_server)/api/content/import/route.ts
+
+import { NextRequest, NextResponse } from "next/server";
+import { contentData } from "@/config/content/content-data";
+import {
+  findPageStatusError,
+  getContentEditorSession,
+} from "@/app/@right/(_service)/(_libs)/content-permissions";
+import { revalidateContent } from "@/app/@right/(_service)/(_libs)/revalidate-content";
+import {
+  hasMenuContent,
+  replaceMenuCategories,
+} from "@/app/@right/(_service)/(_db-queries)/content/queries";
+
+/**
+ * POST /api/content/import — one-shot import of config/content/content-data.ts
+ * into the database. Refuses to overwrite existing content unless ?force=true.
+ * Page statuses are checked like a menu save, so editors cannot publish through it.
+ */
+export async function POST(request: NextRequest) {
+  const session = await getContentEditorSession();
+  if (!session) {
+    return NextResponse.json({ error: "Forbidden" }, { status: 403 });
+  }
+
+  const force = request.nextUrl.searchParams.get("force") === "true";
+
+  try {
+    if (!force && (await hasMenuContent())) {
+      return NextResponse.json(
+        {
+          error:
+            "The database already contains menu content. Use ?force=true to replace it.",
+        },
+        { status: 409 }
+      );
+    }
+
+    const statusError = await findPageStatusError(
+      session.user.type,
+      contentData.categories.flatMap((category) => category.pages)
+    );
+    if (statusError) {
+      return NextResponse.json({ error: statusError }, { status: 403 });
+    }
+
+    await replaceMenuCategories(contentData.categories, {
+      authorId: session.user.id,
+      note: "Imported from content-data.ts",
+    });
+    revalidateContent();
+
+    return NextResponse.json({
+      imported: {
+        categories: contentData.categories.length,
+        pages: contentData.categories.reduce(
+          (count, category) => count + category.pages.length,
+          0
+        ),
+      },
+    });
+  } catch (error: any) {
+    console.error("Failed to import content-data.ts:", error);
+    return NextResponse.json(
+      { error: "Failed to import content", details: error.message },
+      { status: 500 }
+    );
+  }
+}
@@ -0,0 +1,140 @@
+// @/app/@right/(_server)/api/content/pages/route.ts
+
+import { NextRequest, NextResponse } from "next/server";
+import type { PageData } from "@/app/@right/(_service)/(_types)/page-types";
+import {
+  findLivePageError,
+  findPageStatusError,
+  getContentEditorSession,
+} from "@/app/@right/(_service)/(_libs)/content-permissions";
+import { savePageSchema } from "@/app/@right/(_service)/(_libs)/content-schemas";
+import { pageRowToPageData } from "@/app/@right/(_service)/(_libs)/content-mappers";
+import { revalidateContent } from "@/app/@right/(_service)/(_libs)/revalidate-content";
+import { reconcileVectorIndex } from "@/app/@right/(_service)/(_libs)/vector-store/vector-sync";
+import {
+  deletePage,
+  getPageById,
+  getPages,
+  savePage,
+} from "@/app/@right/(_service)/(_db-queries)/content/queries";
+
+/**
+ * GET /api/content/pages?id= — one page with its sections
+ * GET /api/content/pages?categoryId= — pages of a category (all pages without filter)
+ */
+export async function GET(request: NextRequest) {
+  if (!(await getContentEditorSession())) {
+    return NextResponse.json({ error: "Forbidden" }, { status: 403 });
+  }
+
+  const id = request.nextUrl.searchParams.get("id");
+  const categoryId = request.nextUrl.searchParams.get("categoryId");
+
+  try {
+    if (id) {
+      const page = await getPageById({ id });
+      if (!page) {
+        return NextResponse.json({ error: "Not found" }, { status: 404 });
+      }
+      return NextResponse.json({
+        page: pageRowToPageData(page),
+        sections: page.sections,
+      });
+    }
+
+    return NextResponse.json({
+      pages: await getPages({ categoryId: categoryId ?? undefined }),
+    });
+  } catch (error) {
+    return NextResponse.json(
+      { error: "Failed to load pages" },
+      { status: 500 }
+    );
+  }
+}
+
+/**
+ * PUT /api/content/pages — create or overwrite a page { categoryId, page }
+ * A changed "Vector store" flag indexes or removes the page.
+ */
+export async function PUT(request: NextRequest) {
+  const session = await getContentEditorSession();
+  if (!session) {
+    return NextResponse.json({ error: "Forbidden" }, { status: 403 });
+  }
+
+  const parsed = savePageSchema.safeParse(
+    await request.json().catch(() => null)
+  );
+  if (!parsed.success) {
+    return NextResponse.json(
+      { error: "Invalid request body", details: parsed.error.issues },
+      { status: 400 }
+    );
+  }
+
+  try {
+    const statusError = await findPageStatusError(session.user.type, [
+      parsed.data.page as PageData,
+    ]);
+    if (statusError) {
+      return NextResponse.json({ error: statusError }, { status: 403 });
+    }
+    const liveError = await findLivePageError(session.user.type, {
+      ids: [parsed.data.page.id],
+    });
+    if (liveError) {
+      return NextResponse.json({ error: liveError }, { status: 403 });
+    }
+
+    const page = await savePage({
+      categoryId: parsed.data.categoryId,
+      page: parsed.data.page as PageData,
+      revision: { authorId: session.user.id, note: parsed.data.note },
+    });
+    revalidateContent();
+    await reconcileVectorIndex().catch((error) =>
+      console.error("Failed to sync vector store:", error)
+    );
+    return NextResponse.json({
+      page: pageRowToPageData(page),
+      sections: page.sections,
+    });
+  } catch (error) {
+    return NextResponse.json({ error: "Failed to save page" }, { status: 500 });
+  }
+}
+
+/**
+ * DELETE /api/content/pages?id= — delete a page with its sections
+ */
+export async function DELETE(request: NextRequest) {
+  const session = await getContentEditorSession();
+  if (!session) {
+    return NextResponse.json({ error: "Forbidden" }, { status: 403 });
+  }
+
+  const id = request.nextUrl.searchParams.get("id");
+  if (!id) {
+    return NextResponse.json({ error: "Missing id" }, { status: 400 });
+  }
+
+  try {
+    const liveError = await findLivePageError(session.user.type, { ids: [id] });
+    if (liveError) {
+      return NextResponse.json({ error: liveError }, { status: 403 });
+    }
+
+    await deletePage({ id });
+    revalidateContent();
+    await reconcileVectorIndex().catch((error) =>
+      console.error("Failed to sync vector store:", error)
+    );
+    return NextResponse.json({ deleted: id });
+  } catch (error) {
+    return NextResponse.json(
+      { error: "Failed to delete page" },
+      { status: 500 }
+    );
+  }
+}
@@ -0,0 +1,39 @@
+// @/app/@right/(_server)/api/content/publish-scheduled/route.ts
+
+import { NextRequest, NextResponse } from "next/server";
+import { auth } from "@/app/@left/(_public)/(_AUTH)/(_service)/(_actions)/auth";
+import { canPublishPages } from "@/app/@right/(_service)/(_libs)/page-workflow";
+import { revalidateContent } from "@/app/@right/(_service)/(_libs)/revalidate-content";
+import { publishDueScheduledPages } from "@/app/@right/(_service)/(_db-queries)/content/queries";
+
+/**
+ * GET /api/content/publish-scheduled — publishes scheduled pages that are due.
+ * Meant for a cron job sending `Authorization: Bearer $CRON_SECRET`;
+ * admins can also call it from the browser.
+ */
+export async function GET(request: NextRequest) {
+  const cronSecret = process.env.CRON_SECRET;
+  const isCron =
+    !!cronSecret &&
+    request.headers.get("authorization") === `Bearer ${cronSecret}`;
+
+  if (!isCron) {
+    const session = await auth();
+    if (!canPublishPages(session?.user?.type)) {
+      return NextResponse.json({ error: "Forbidden" }, { status: 403 });
+    }
+  }
+
+  try {
+    const published = await publishDueScheduledPages();
+    if (published.length > 0) {
+      revalidateContent();
+    }
+    return NextResponse.json({ published });
+  } catch (error) {
+    return NextResponse.json(
+      { error: "Failed to publish scheduled pages" },
+      { status: 500 }
+    );
+  }
+}
@@ -0,0 +1,112 @@
+// @/app/@right/(_server)/api/content/revisions/route.ts
+
+import { NextRequest, NextResponse } from "next/server";
+import {
+  findLivePageError,
+  getContentEditorSession,
+} from "@/app/@right/(_service)/(_libs)/content-permissions";
+import { revisionNoteSchema } from "@/app/@right/(_service)/(_libs)/content-schemas";
+import { pageRowToPageData } from "@/app/@right/(_service)/(_libs)/content-mappers";
+import { revalidateContent } from "@/app/@right/(_service)/(_libs)/revalidate-content";
+import { reconcileVectorIndex } from "@/app/@right/(_service)/(_libs)/vector-store/vector-sync";
+import { restorePageRevision } from "@/app/@right/(_service)/(_db-queries)/content/queries";
+import {
+  getPageRevisions,
+  getPageRevisionWithPrevious,
+} from "@/app/@right/(_service)/(_db-queries)/revision/queries";
+
+/**
+ * GET /api/content/revisions?pageId= — revision list of a page, newest first
+ * GET /api/content/revisions?id= — one revision with snapshot and its predecessor
+ */
+export async function GET(request: NextRequest) {
+  if (!(await getContentEditorSession())) {
+    return NextResponse.json({ error: "Forbidden" }, { status: 403 });
+  }
+
+  const id = request.nextUrl.searchParams.get("id");
+  const pageId = request.nextUrl.searchParams.get("pageId");
+
+  try {
+    if (id) {
+      const result = await getPageRevisionWithPrevious({ id });
+      if (!result) {
+        return NextResponse.json({ error: "Not found" }, { status: 404 });
+      }
+      return NextResponse.json(result);
+    }
+
+    if (pageId) {
+      return NextResponse.json({
+        revisions: await getPageRevisions({ pageId }),
+      });
+    }
+
+    return NextResponse.json({ error: "Missing pageId" }, { status: 400 });
+  } catch (error) {
+    return NextResponse.json(
+      { error: "Failed to load revisions" },
+      { status: 500 }
+    );
+  }
+}
+
+/**
+ * POST /api/content/revisions?id= — roll the page back to this revision { note? }
+ */
+export async function POST(request: NextRequest) {
+  const session = await getContentEditorSession();
+  if (!session) {
+    return NextResponse.json({ error: "Forbidden" }, { status: 403 });
+  }
+
+  const id = request.nextUrl.searchParams.get("id");
+  if (!id) {
+    return NextResponse.json({ error: "Missing id" }, { status: 400 });
+  }
+
+  const body = await request.json().catch(() => ({}));
+  const note = revisionNoteSchema.safeParse(body?.note);
+  if (!note.success) {
+    return NextResponse.json(
+      { error: "Invalid note", details: note.error.issues },
+      { status: 400 }
+    );
+  }
+
+  try {
+    const target = await getPageRevisionWithPrevious({ id });
+    if (!target) {
+      return NextResponse.json({ error: "Not found" }, { status: 404 });
+    }
+    const liveError = await findLivePageError(session.user.type, {
+      ids: [target.revision.pageId],
+    });
+    if (liveError) {
+      return NextResponse.json({ error: liveError }, { status: 403 });
+    }
+
+    const result = await restorePageRevision({
+      id,
+      revision: { authorId: session.user.id, note: note.data },
+    });
+    if (!result) {
+      return NextResponse.json({ error: "Not found" }, { status: 404 });
+    }
+
+    revalidateContent();
+    await reconcileVectorIndex().catch((error) =>
+      console.error("Failed to sync vector store:", error)
+    );
+    return NextResponse.json({
+      page: pageRowToPageData(result.page),
+      sections: result.page.sections,
+      revision: result.revision,
+    });
+  } catch (error) {
+    return NextResponse.json(
+      { error: "Failed to restore revision" },
+      { status: 500 }
+    );
+  }
+}
@@ -0,0 +1,191 @@
+// @/app/@right/(_server)/api/content/sections/route.ts
+
+import { NextRequest, NextResponse } from "next/server";
+import {
+  findLivePageError,
+  getContentEditorSession,
+} from "@/app/@right/(_service)/(_libs)/content-permissions";
+import {
+  sectionSchema,
+  splitRevisionNote,
+  toSectionData,
+} from "@/app/@right/(_service)/(_libs)/content-schemas";
+import { revalidateContent } from "@/app/@right/(_service)/(_libs)/revalidate-content";
+import {
+  createSection,
+  deleteSection,
+  getPageById,
+  getSectionById,
+  updateSection,
+} from "@/app/@right/(_service)/(_db-queries)/content/queries";
+
+/**
+ * GET /api/content/sections?pageId= — sections of a page in display order
+ */
+export async function GET(request: NextRequest) {
+  if (!(await getContentEditorSession())) {
+    return NextResponse.json({ error: "Forbidden" }, { status: 403 });
+  }
+
+  const pageId = request.nextUrl.searchParams.get("pageId");
+  if (!pageId) {
+    return NextResponse.json({ error: "Missing pageId" }, { status: 400 });
+  }
+
+  try {
+    const page = await getPageById({ id: pageId });
+    if (!page) {
+      return NextResponse.json({ error: "Not found" }, { status: 404 });
+    }
+    return NextResponse.json({ sections: page.sections });
+  } catch (error) {
+    return NextResponse.json(
+      { error: "Failed to load sections" },
+      { status: 500 }
+    );
+  }
+}
+
+/**
+ * POST /api/content/sections?pageId= — add a section to a page; an optional
+ * `note` in the body is stored with the page revision
+ */
+export async function POST(request: NextRequest) {
+  const session = await getContentEditorSession();
+  if (!session) {
+    return NextResponse.json({ error: "Forbidden" }, { status: 403 });
+  }
+
+  const pageId = request.nextUrl.searchParams.get("pageId");
+  if (!pageId) {
+    return NextResponse.json({ error: "Missing pageId" }, { status: 400 });
+  }
+
+  const { note, body } = splitRevisionNote(
+    await request.json().catch(() => null)
+  );
+  const parsed = sectionSchema.safeParse(body);
+  if (!parsed.success) {
+    return NextResponse.json(
+      { error: "Invalid request body", details: parsed.error.issues },
+      { status: 400 }
+    );
+  }
+
+  try {
+    const liveError = await findLivePageError(session.user.type, {
+      ids: [pageId],
+    });
+    if (liveError) {
+      return NextResponse.json({ error: liveError }, { status: 403 });
+    }
+
+    const section = await createSection({
+      pageId,
+      data: toSectionData(parsed.data),
+      revision: { authorId: session.user.id, note },
+    });
+    revalidateContent();
+    return NextResponse.json({ section }, { status: 201 });
+  } catch (error) {
+    return NextResponse.json(
+      { error: "Failed to create section" },
+      { status: 500 }
+    );
+  }
+}
+
+/**
+ * PATCH /api/content/sections?id= — update section content or position
+ */
+export async function PATCH(request: NextRequest) {
+  const session = await getContentEditorSession();
+  if (!session) {
+    return NextResponse.json({ error: "Forbidden" }, { status: 403 });
+  }
+
+  const id = request.nextUrl.searchParams.get("id");
+  if (!id) {
+    return NextResponse.json({ error: "Missing id" }, { status: 400 });
+  }
+
+  const { note, body } = splitRevisionNote(
+    await request.json().catch(() => null)
+  );
+  const parsed = sectionSchema.partial().safeParse(body);
+  if (!parsed.success) {
+    return NextResponse.json(
+      { error: "Invalid request body", details: parsed.error.issues },
+      { status: 400 }
+    );
+  }
+
+  try {
+    const current = await getSectionById({ id });
+    if (!current) {
+      return NextResponse.json({ error: "Not found" }, { status: 404 });
+    }
+    const liveError = await findLivePageError(session.user.type, {
+      ids: [current.pageId],
+    });
+    if (liveError) {
+      return NextResponse.json({ error: liveError }, { status: 403 });
+    }
+
+    const section = await updateSection({
+      id,
+      data: toSectionData(parsed.data),
+      revision: { authorId: session.user.id, note },
+    });
+    revalidateContent();
+    return NextResponse.json({ section });
+  } catch (error) {
+    return NextResponse.json(
+      { error: "Failed to update section" },
+      { status: 500 }
+    );
+  }
+}
+
+/**
+ * DELETE /api/content/sections?id=&note= — delete a section
+ */
+export async function DELETE(request: NextRequest) {
+  const session = await getContentEditorSession();
+  if (!session) {
+    return NextResponse.json({ error: "Forbidden" }, { status: 403 });
+  }
+
+  const id = request.nextUrl.searchParams.get("id");
+  if (!id) {
+    return NextResponse.json({ error: "Missing id" }, { status: 400 });
+  }
+
+  try {
+    const current = await getSectionById({ id });
+    if (!current) {
+      return NextResponse.json({ error: "Not found" }, { status: 404 });
+    }
+    const liveError = await findLivePageError(session.user.type, {
+      ids: [current.pageId],
+    });
+    if (liveError) {
+      return NextResponse.json({ error: liveError }, { status: 403 });
+    }
+
+    const section = await deleteSection({
+      id,
+      revision: {
+        authorId: session.user.id,
+        note: request.nextUrl.searchParams.get("note"),
+      },
+    });
+    revalidateContent();
+    return NextResponse.json({ section });
+  } catch (error) {
+    return NextResponse.json(
+      { error: "Failed to delete section" },
+      { status: 500 }
+    );
+  }
+}
@@ -0,0 +1,98 @@
+// @/app/@right/(_server)/api/content/vector/route.ts
+
+import { NextRequest, NextResponse } from "next/server";
+import { z } from "zod";
+import { getContentEditorSession } from "@/app/@right/(_service)/(_libs)/content-permissions";
+import {
+  getVectorStoreProvider,
+  syncPageVectorIndex,
+} from "@/app/@right/(_service)/(_libs)/vector-store/vector-sync";
+import { setPageVectorConnected } from "@/app/@right/(_service)/(_db-queries)/content/queries";
+import { getPageVectorIndex } from "@/app/@right/(_service)/(_db-queries)/vector/queries";
+
+const vectorActionSchema = z.object({
+  action: z.enum(["connect", "disconnect", "reindex"]),
+});
+
+/**
+ * GET /api/content/vector?pageId= — vector store sync state of a page
+ */
+export async function GET(request: NextRequest) {
+  if (!(await getContentEditorSession())) {
+    return NextResponse.json({ error: "Forbidden" }, { status: 403 });
+  }
+
+  const pageId = request.nextUrl.searchParams.get("pageId");
+  if (!pageId) {
+    return NextResponse.json({ error: "Missing pageId" }, { status: 400 });
+  }
+
+  try {
+    return NextResponse.json({
+      provider: getVectorStoreProvider(),
+      index: await getPageVectorIndex({ pageId }),
+    });
+  } catch (error) {
+    return NextResponse.json(
+      { error: "Failed to load vector store state" },
+      { status: 500 }
+    );
+  }
+}
+
+/**
+ * POST /api/content/vector?pageId= — { action: "connect" | "disconnect" | "reindex" }
+ * Connecting indexes the page content, disconnecting removes it, re-index
+ * replaces the indexed copy with the current content.
+ */
+export async function POST(request: NextRequest) {
+  const session = await getContentEditorSession();
+  if (!session) {
+    return NextResponse.json({ error: "Forbidden" }, { status: 403 });
+  }
+
+  const pageId = request.nextUrl.searchParams.get("pageId");
+  if (!pageId) {
+    return NextResponse.json({ error: "Missing pageId" }, { status: 400 });
+  }
+
+  const parsed = vectorActionSchema.safeParse(
+    await request.json().catch(() => null)
+  );
+  if (!parsed.success) {
+    return NextResponse.json(
+      { error: "Invalid request body", details: parsed.error.issues },
+      { status: 400 }
+    );
+  }
+
+  try {
+    const { action } = parsed.data;
+
+    if (action !== "reindex") {
+      const page = await setPageVectorConnected({
+        id: pageId,
+        isVectorConnected: action === "connect",
+        revision: { authorId: session.user.id },
+      });
+      if (!page) {
+        return NextResponse.json(
+          { error: "Save the menu before connecting this page" },
+          { status: 404 }
+        );
+      }
+    }
+
+    const index = await syncPageVectorIndex(pageId);
+    return NextResponse.json({
+      provider: getVectorStoreProvider(),
+      isVectorConnected: index !== null,
+      index,
+    });
+  } catch (error) {
+    return NextResponse.json(
+      { error: "Failed to sync vector store" },
+      { status: 500 }
+    );
+  }
+}
@@ -1,237 +1,35 @@
 import { NextRequest, NextResponse } from "next/server";
-import fs from "fs";
-import path from "path";
 import {
   ErrorCode,
   MenuPersistResponse,
   OperationStatus,
 } from "@/app/@right/(_service)/(_types)/api-response-types";
-
-const DEFAULT_RELATIVE_PATH = "config/content/content-data.ts";
-
-function getFilePaths() {
-  const customPath = process.env.GITHUB_FILE_PATH;
-  const relativePath = customPath || DEFAULT_RELATIVE_PATH;
-  const localPath = path.resolve(process.cwd(), relativePath);
-
-  return {
-    localPath,
-    relativePath,
-    isCustomPath: !!customPath,
-  };
-}
-
-const { localPath: DATA_PATH, relativePath: GITHUB_RELATIVE_PATH } =
-  getFilePaths();
-
-function isProduction() {
-  return process.env.NODE_ENV === "production";
-}
-
-function validateGitHubConfig(): { isValid: boolean; missingVars: string[] } {
-  const requiredVars = [
-    { key: "GITHUB_TOKEN", value: process.env.GITHUB_TOKEN },
-    { key: "GITHUB_REPO", value: process.env.GITHUB_REPO },
-  ];
-
-  const missingVars = requiredVars
-    .filter(({ value }) => !value)
-    .map(({ key }) => key);
-
-  return {
-    isValid: missingVars.length === 0,
-    missingVars,
-  };
-}
-
-async function getCurrentFileFromGitHub(): Promise<{
-  content: string;
-  sha: string;
-} | null> {
-  try {
-    const { GITHUB_TOKEN, GITHUB_REPO } = process.env;
-
-    const response = await fetch(
-      `https://api.github.com/repos/${GITHUB_REPO}/contents/${GITHUB_RELATIVE_PATH}`,
-      {
-        headers: {
-          Authorization: `Bearer ${GITHUB_TOKEN}`,
-          Accept: "application/vnd.github.v3+json",
-          "User-Agent": "NextJS-App",
-        },
-      }
-    );
-
-    if (response.status === 404) {
-      return null;
-    }
-
-    if (!response.ok) {
-      throw new Error(
-        `GitHub API error: ${response.status} ${response.statusText}`
-      );
-    }
-
-    const data = await response.json();
-
-    if (data.type !== "file") {
-      throw new Error("GitHub path is not a file");
-    }
-
-    const content = Buffer.from(data.content, "base64").toString("utf-8");
-
-    return {
-      content,
-      sha: data.sha,
-    };
-  } catch (error) {
-    throw error;
-  }
-}
-
-function generateFileContent(categories: any[]): string {
-  const timestamp = new Date().toISOString();
-  return `import { MenuCategory } from "@/app/@right/(_service)/(_types)/menu-types";
-
-export const contentData = {
-  categories: ${JSON.stringify(categories, null, 2)}
-} as { categories: MenuCategory[] };
-
-export type contentData = typeof contentData;
-
-export const lastUpdated = "${timestamp}";
-export const generatedBy = "menu-persist-api";
-`;
-}
-
-async function saveToGitHub(categories: any[]): Promise<MenuPersistResponse> {
-  try {
-    const { isValid, missingVars } = validateGitHubConfig();
-    if (!isValid) {
-      return {
-        status: OperationStatus.GITHUB_API_ERROR,
-        message: `Missing GitHub configuration: ${missingVars.join(", ")}`,
-        error: `Missing environment variables: ${missingVars.join(", ")}`,
-        errorCode: ErrorCode.GITHUB_TOKEN_INVALID,
-        environment: "production",
-      };
-    }
-
-    const { GITHUB_TOKEN, GITHUB_REPO } = process.env;
-    const fileContent = generateFileContent(categories);
-
-    let currentFile: { content: string; sha: string } | null = null;
-
-    try {
-      currentFile = await getCurrentFileFromGitHub();
-    } catch (error) {
-      // File doesn't exist, will create new
-    }
-
-    if (currentFile && currentFile.content === fileContent) {
-      return {
-        status: OperationStatus.SUCCESS,
-        message: "GitHub file is already up to date",
-        environment: "production",
-      };
-    }
-
-    const apiPayload = {
-      message: `Update menu configuration - ${new Date().toISOString()}`,
-      content: Buffer.from(fileContent, "utf-8").toString("base64"),
-      branch: process.env.GITHUB_BRANCH || "main",
-      ...(currentFile && { sha: currentFile.sha }),
-    };
-
-    const response = await fetch(
-      `https://api.github.com/repos/${GITHUB_REPO}/contents/${GITHUB_RELATIVE_PATH}`,
-      {
-        method: "PUT",
-        headers: {
-          Authorization: `Bearer ${GITHUB_TOKEN}`,
-          Accept: "application/vnd.github.v3+json",
-          "Content-Type": "application/json",
-          "User-Agent": "NextJS-App",
-        },
-        body: JSON.stringify(apiPayload),
-      }
-    );
-
-    if (!response.ok) {
-      const errorData = await response.json().catch(() => ({}));
-      return {
-        status: OperationStatus.GITHUB_API_ERROR,
-        message: "Failed to update file on GitHub",
-        error: `GitHub API returned ${response.status}: ${errorData.message || "Unknown error"}`,
-        errorCode:
-          response.status === 401
-            ? ErrorCode.GITHUB_TOKEN_INVALID
-            : ErrorCode.GITHUB_API_UNAVAILABLE,
-        environment: "production",
-      };
-    }
-
-    return {
-      status: OperationStatus.SUCCESS,
-      message: "Successfully updated data on GitHub",
-      environment: "production",
-    };
-  } catch (error: any) {
-    return {
-      status: OperationStatus.GITHUB_API_ERROR,
-      message: "Network error while connecting to GitHub",
-      error: error.message || "Unknown network error",
-      errorCode: ErrorCode.NETWORK_ERROR,
-      environment: "production",
-    };
-  }
-}
-
-function saveToFileSystem(categories: any[]): MenuPersistResponse {
-  try {
-    const fileContent = generateFileContent(categories);
-
-    const dir = path.dirname(DATA_PATH);
-    if (!fs.existsSync(dir)) {
-      fs.mkdirSync(dir, { recursive: true });
-    }
-
-    let hasChanged = true;
-    if (fs.existsSync(DATA_PATH)) {
-      const currentContent = fs.readFileSync(DATA_PATH, "utf-8");
-      hasChanged = currentContent !== fileContent;
-    }
-
-    if (!hasChanged) {
-      return {
-        status: OperationStatus.SUCCESS,
-        message: "Local file is already up to date",
-        environment: "development",
-      };
-    }
-
-    fs.writeFileSync(DATA_PATH, fileContent, "utf-8");
-
-    return {
-      status: OperationStatus.SUCCESS,
-      message: "Successfully saved to filesystem",
-      environment: "development",
-    };
-  } catch (error: any) {
-    return {
-      status: OperationStatus.FILESYSTEM_ERROR,
-      message: "Failed to save file to local filesystem",
-      error: error.message || "Unknown filesystem error",
-      errorCode: ErrorCode.FILE_WRITE_FAILED,
-      environment: "development",
-    };
+import type { MenuCategory } from "@/app/@right/(_service)/(_types)/menu-types";
+import { isProduction } from "@/app/@right/(_service)/(_libs)/content-data-file";
+import {
+  findPageStatusError,
+  getContentEditorSession,
+} from "@/app/@right/(_service)/(_libs)/content-permissions";
+import { revalidateContent } from "@/app/@right/(_service)/(_libs)/revalidate-content";
+import { reconcileVectorIndex } from "@/app/@right/(_service)/(_libs)/vector-store/vector-sync";
+import { replaceMenuCategories } from "@/app/@right/(_service)/(_db-queries)/content/queries";
+
+/**
+ * Saves the admin menu to the database content store.
+ * content-data.ts is no longer rewritten here; use /api/content/export for git-based deploys.
+ * Every changed page gets a revision; an optional `note` describes the change.
+ * Page status changes are checked against the workflow (editors submit, admins publish).
+ * Pages whose "Vector store" flag changed are indexed or removed afterwards.
+ */
+export async function POST(req: NextRequest) {
+  const session = await getContentEditorSession();
+  if (!session) {
+    return NextResponse.json({ error: "Forbidden" }, { status: 403 });
   }
-}
 
-export async function POST(req: NextRequest) {
   try {
     const body = await req.json();
-    const { categories } = body;
+    const { categories, note } = body;
 
     if (!Array.isArray(categories)) {
       const validationResponse: MenuPersistResponse = {
@@ -244,31 +42,48 @@ export async function POST(req: NextRequest) {
       return NextResponse.json(validationResponse, { status: 400 });
     }
 
-    const localResult = saveToFileSystem(categories);
-
-    if (isProduction()) {
-      const githubResult = await saveToGitHub(categories);
-
-      if (
-        localResult.status === OperationStatus.SUCCESS &&
-        githubResult.status !== OperationStatus.SUCCESS
-      ) {
-        return NextResponse.json({
-          status: OperationStatus.SUCCESS,
-          message: "Saved locally but GitHub sync failed",
-          error: githubResult.error,
-          environment: "production",
-        });
-      }
+    const statusError = await findPageStatusError(
+      session.user.type,
+      categories.flatMap((category: MenuCategory) => category.pages)
+    );
+    if (statusError) {
+      const forbiddenResponse: MenuPersistResponse = {
+        status: OperationStatus.VALIDATION_ERROR,
+        message: "Page status change not allowed",
+        error: statusError,
+        errorCode: ErrorCode.STATUS_CHANGE_FORBIDDEN,
+        environment: isProduction() ? "production" : "development",
+      };
+      return NextResponse.json(forbiddenResponse, { status: 403 });
+    }
 
-      const httpStatus =
-        githubResult.status === OperationStatus.SUCCESS ? 200 : 500;
-      return NextResponse.json(githubResult, { status: httpStatus });
+    try {
+      await replaceMenuCategories(categories, {
+        authorId: session.user.id,
+        note: typeof note === "string" ? note : null,
+      });
+      revalidateContent();
+    } catch (error: any) {
+      const databaseResponse: MenuPersistResponse = {
+        status: OperationStatus.DATABASE_ERROR,
+        message: "Failed to save menu to the database",
+        error: error.message || "Unknown database error",
+        errorCode: ErrorCode.DATABASE_WRITE_FAILED,
+        environment: isProduction() ? "production" : "development",
+      };
+      return NextResponse.json(databaseResponse, { status: 500 });
     }
 
-    const httpStatus =
-      localResult.status === OperationStatus.SUCCESS ? 200 : 500;
-    return NextResponse.json(localResult, { status: httpStatus });
+    await reconcileVectorIndex().catch((error) =>
+      console.error("Failed to sync vector store:", error)
+    );
+
+    const successResponse: MenuPersistResponse = {
+      status: OperationStatus.SUCCESS,
+      message: "Successfully saved to database",
+      environment: isProduction() ? "production" : "development",
+    };
+    return NextResponse.json(successResponse);
   } catch (error: any) {
     const errorResponse: MenuPersistResponse = {
       status: OperationStatus.UNKNOWN_ERROR,
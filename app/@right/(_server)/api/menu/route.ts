@@ -2,12 +2,41 @@
 
 import { contentData } from "@/config/content/content-data";
 import { NextResponse } from "next/server";
+import { revalidateContent } from "@/app/@right/(_service)/(_libs)/revalidate-content";
+import {
+  getMenuCategories,
+  hasMenuContent,
+  publishDueScheduledPages,
+} from "@/app/@right/(_service)/(_db-queries)/content/queries";
 
+/**
+ * Menu from the database content store. Until content-data.ts has been
+ * imported (POST /api/content/import) the file is served as a fallback.
+ * Scheduled pages that are due are published first, so the menu never
+ * waits for the cron job.
+ */
 export async function GET() {
   try {
+    if (!(await hasMenuContent())) {
+      return NextResponse.json({
+        status: "ok",
+        source: "file",
+        categories: contentData.categories,
+      });
+    }
+
+    try {
+      if ((await publishDueScheduledPages()).length > 0) {
+        revalidateContent();
+      }
+    } catch (error) {
+      console.error("Failed to publish scheduled pages:", error);
+    }
+
     return NextResponse.json({
       status: "ok",
-      categories: contentData.categories,
+      source: "database",
+      categories: await getMenuCategories(),
     });
   } catch (e: any) {
     console.error("Error fetching menu categories:", e);
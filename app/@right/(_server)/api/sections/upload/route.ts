@@ -5,10 +5,20 @@ import { writeFile, mkdir } from "fs/promises";
 import { join } from "path";
 import { existsSync } from "fs";
 import { ExtendedSection } from "@/app/@right/(_service)/(_types)/section-types";
+import {
+  findLivePageError,
+  getContentEditorSession,
+} from "@/app/@right/(_service)/(_libs)/content-permissions";
+import { revalidateContent } from "@/app/@right/(_service)/(_libs)/revalidate-content";
+import {
+  getPageByHref,
+  saveSectionContent,
+} from "@/app/@right/(_service)/(_db-queries)/content/queries";
 
 interface UploadRequestBody {
   href: string;
   sections: ExtendedSection[];
+  note?: string;
 }
 
 interface SectionUploadResponse {
@@ -36,8 +46,10 @@ enum ErrorCode {
   NETWORK_ERROR = "network_error",
   FILE_WRITE_FAILED = "file_write_failed",
   INVALID_DATA_FORMAT = "invalid_data_format",
+  DATABASE_WRITE_FAILED = "database_write_failed",
   DIRECTORY_CREATION_FAILED = "directory_creation_failed",
   VALIDATION_ERROR = "validation_error",
+  STATUS_CHANGE_FORBIDDEN = "status_change_forbidden",
   UNKNOWN_ERROR = "unknown_error",
 }
 
@@ -295,6 +307,18 @@ async function saveToFileSystem(
 export async function POST(
   request: NextRequest
 ): Promise<NextResponse<SectionUploadResponse>> {
+  const session = await getContentEditorSession();
+  if (!session) {
+    return NextResponse.json(
+      {
+        success: false,
+        message: "Forbidden",
+        environment: isProduction() ? "production" : "development",
+      },
+      { status: 403 }
+    );
+  }
+
   try {
     let body;
     let rawBody: string;
@@ -330,7 +354,7 @@ export async function POST(
       );
     }
 
-    const { href, sections } = body as UploadRequestBody;
+    const { href, sections, note } = body as UploadRequestBody;
 
     let firstPartHref: string;
     let secondPartHref: string;
@@ -368,6 +392,47 @@ export async function POST(
       );
     }
 
+    // Pages already in the content store get the sections and a new revision
+    try {
+      const page = await getPageByHref({ href });
+      const liveError = page
+        ? await findLivePageError(session.user.type, { ids: [page.id] })
+        : null;
+      if (liveError) {
+        return NextResponse.json(
+          {
+            success: false,
+            message: liveError,
+            errorCode: ErrorCode.STATUS_CHANGE_FORBIDDEN,
+            environment: isProduction() ? "production" : "development",
+          },
+          { status: 403 }
+        );
+      }
+      if (page) {
+        await saveSectionContent({
+          pageId: page.id,
+          sections,
+          revision: {
+            authorId: session.user.id,
+            note: typeof note === "string" ? note : null,
+          },
+        });
+        revalidateContent();
+      }
+    } catch (error) {
+      return NextResponse.json(
+        {
+          success: false,
+          message: "Failed to save sections to the database",
+          error: error instanceof Error ? error.message : "Unknown error",
+          errorCode: ErrorCode.DATABASE_WRITE_FAILED,
+          environment: isProduction() ? "production" : "development",
+        },
+        { status: 500 }
+      );
+    }
+
     const result: SectionUploadResponse = isProduction()
       ? await saveToGitHub(firstPartHref, secondPartHref, sections)
       : await saveToFileSystem(firstPartHref, secondPartHref, sections);
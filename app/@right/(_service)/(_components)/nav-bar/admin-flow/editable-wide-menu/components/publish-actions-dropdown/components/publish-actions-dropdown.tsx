@@ -22,12 +22,18 @@ export function PublishActionsDropdown({
   categoryTitle,
   setCategories,
 }: PublishActionsDropdownProps) {
-  const { publishState, publishMode, isInteractive, handlePublishMode } =
-    usePublishLogic({
-      singlePage,
-      categoryTitle,
-      setCategories,
-    });
+  const {
+    publishState,
+    publishMode,
+    availableModes,
+    previewHref,
+    isInteractive,
+    handlePublishMode,
+  } = usePublishLogic({
+    singlePage,
+    categoryTitle,
+    setCategories,
+  });
 
   // If not interactive, render just the trigger button without dropdown functionality
   if (!isInteractive) {
@@ -42,6 +48,9 @@ export function PublishActionsDropdown({
 
       <PublishDropdownContent
         currentMode={publishMode}
+        availableModes={availableModes}
+        publishAt={singlePage.publishAt}
+        previewHref={previewHref}
         onModeChange={handlePublishMode}
       />
     </DropdownMenu>
@@ -2,44 +2,105 @@
 
 "use client";
 
-import React from "react";
+import React, { useState } from "react";
+import { ExternalLink } from "lucide-react";
 
 import { PublishDropdownContentProps } from "../types";
 import { PublishStatusIndicator } from "./publish-status-indicator";
 import {
   DropdownMenuContent,
   DropdownMenuItem,
+  DropdownMenuSeparator,
+  DropdownMenuSub,
+  DropdownMenuSubContent,
+  DropdownMenuSubTrigger,
 } from "@/components/ui/dropdown-menu";
+import { Button } from "@/components/ui/button";
+import { Input } from "@/components/ui/input";
+import { PAGE_STATUS_LABELS } from "@/app/@right/(_service)/(_libs)/page-workflow";
+
+// datetime-local inputs work with local time without a timezone suffix
+function toDateTimeLocal(value?: string): string {
+  const date = value ? new Date(value) : new Date(Date.now() + 60 * 60 * 1000);
+  const offset = date.getTimezoneOffset() * 60 * 1000;
+  return new Date(date.getTime() - offset).toISOString().slice(0, 16);
+}
 
 /**
- * Dropdown menu content with publish/draft options
+ * Dropdown menu content with the workflow statuses available to the user
  */
 
 export function PublishDropdownContent({
   currentMode,
+  availableModes,
+  publishAt,
+  previewHref,
   onModeChange,
 }: PublishDropdownContentProps) {
+  const [scheduledAt, setScheduledAt] = useState(() =>
+    toDateTimeLocal(publishAt)
+  );
+
+  const handleSchedule = () => {
+    const date = new Date(scheduledAt);
+    if (Number.isNaN(date.getTime())) return;
+    onModeChange("scheduled", date.toISOString());
+  };
+
   return (
     <DropdownMenuContent align="end" className="min-w-[190px]">
-      <DropdownMenuItem onClick={() => onModeChange("published")}>
-        <span className="flex items-center">
-          <PublishStatusIndicator
-            mode="published"
-            isActive={currentMode === "published"}
-          />
-          Publish
-        </span>
-      </DropdownMenuItem>
-
-      <DropdownMenuItem onClick={() => onModeChange("draft")}>
-        <span className="flex items-center">
-          <PublishStatusIndicator
-            mode="draft"
-            isActive={currentMode === "draft"}
-          />
-          Draft
-        </span>
-      </DropdownMenuItem>
+      {availableModes.map((mode) =>
+        mode === "scheduled" ? (
+          <DropdownMenuSub key={mode}>
+            <DropdownMenuSubTrigger>
+              <span className="flex items-center">
+                <PublishStatusIndicator
+                  mode={mode}
+                  isActive={currentMode === mode}
+                />
+                {PAGE_STATUS_LABELS[mode]}
+              </span>
+            </DropdownMenuSubTrigger>
+            <DropdownMenuSubContent className="flex flex-col gap-2 p-2">
+              <Input
+                type="datetime-local"
+                value={scheduledAt}
+                onChange={(e) => setScheduledAt(e.target.value)}
+                onKeyDown={(e) => e.stopPropagation()}
+              />
+              <Button
+                size="sm"
+                disabled={!scheduledAt}
+                onClick={handleSchedule}
+              >
+                Schedule
+              </Button>
+            </DropdownMenuSubContent>
+          </DropdownMenuSub>
+        ) : (
+          <DropdownMenuItem key={mode} onClick={() => onModeChange(mode)}>
+            <span className="flex items-center">
+              <PublishStatusIndicator
+                mode={mode}
+                isActive={currentMode === mode}
+              />
+              {PAGE_STATUS_LABELS[mode]}
+            </span>
+          </DropdownMenuItem>
+        )
+      )}
+
+      {previewHref && (
+        <>
+          <DropdownMenuSeparator />
+          <DropdownMenuItem
+            onClick={() => window.open(previewHref, "_blank", "noopener")}
+          >
+            <ExternalLink className="mr-2 size-3" />
+            Open preview
+          </DropdownMenuItem>
+        </>
+      )}
     </DropdownMenuContent>
   );
 }
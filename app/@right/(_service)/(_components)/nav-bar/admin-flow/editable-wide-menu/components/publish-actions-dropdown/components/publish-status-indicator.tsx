@@ -19,6 +19,10 @@ export function PublishStatusIndicator({
     switch (mode) {
       case "published":
         return "bg-green-500";
+      case "scheduled":
+        return "bg-blue-500";
+      case "in_review":
+        return "bg-yellow-500";
       case "draft":
         return "bg-orange-500";
       default:
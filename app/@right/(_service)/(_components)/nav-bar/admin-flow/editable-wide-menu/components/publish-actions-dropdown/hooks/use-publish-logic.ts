@@ -1,15 +1,21 @@
 // @/app/(_service)/components/nav-bar/admin-flow/editable-wide-menu/page-section/publish-actions-dropdown/hooks/use-publish-logic.ts
 
 import { useCallback, useEffect } from "react";
+import { useSession } from "next-auth/react";
 import { PublishMode, PublishState } from "../types";
 import {
   getPublishState,
   getPublishMode,
+  getStatusFields,
   isDropdownInteractive,
   shouldAutoUnpublish,
 } from "../publish-utils";
 import { PageData } from "@/app/@right/(_service)/(_types)/page-types";
 import { MenuCategory } from "@/app/@right/(_service)/(_types)/menu-types";
+import {
+  canPublishPages,
+  getAvailablePageStatuses,
+} from "@/app/@right/(_service)/(_libs)/page-workflow";
 
 interface UsePublishLogicProps {
   singlePage: PageData;
@@ -20,8 +26,10 @@ interface UsePublishLogicProps {
 interface UsePublishLogicReturn {
   publishState: PublishState;
   publishMode: PublishMode;
+  availableModes: PublishMode[];
+  previewHref?: string;
   isInteractive: boolean;
-  handlePublishMode: (mode: PublishMode) => void;
+  handlePublishMode: (mode: PublishMode, publishAt?: string) => void;
 }
 
 /**
@@ -32,10 +40,22 @@ export function usePublishLogic({
   categoryTitle,
   setCategories,
 }: UsePublishLogicProps): UsePublishLogicReturn {
+  const { data: session } = useSession();
+  const userType = session?.user?.type;
+
   const publishState = getPublishState(singlePage);
-  const publishMode = getPublishMode(singlePage.isPublished);
+  const publishMode = getPublishMode(singlePage);
   const isInteractive = isDropdownInteractive(publishState);
 
+  // Editors submit for review; only publishers see every transition
+  const availableModes = getAvailablePageStatuses(userType, publishMode);
+
+  // Drafts are not served by the public route; publishers open them via the admin preview
+  const previewHref =
+    canPublishPages(userType) && singlePage.href
+      ? `/admin/preview${singlePage.href}`
+      : undefined;
+
   // Auto-unpublish if content becomes incomplete
   useEffect(() => {
     if (shouldAutoUnpublish(singlePage)) {
@@ -55,7 +75,7 @@ export function usePublishLogic({
                     ? page
                     : {
                         ...page,
-                        isPublished: false,
+                        ...getStatusFields("draft"),
                       }
                 ),
               }
@@ -65,7 +85,7 @@ export function usePublishLogic({
   }, [singlePage, categoryTitle, setCategories]);
 
   const handlePublishMode = useCallback(
-    (mode: PublishMode) => {
+    (mode: PublishMode, publishAt?: string) => {
       // Only allow mode change if dropdown is interactive
       if (!isInteractive) {
         console.warn("Cannot change publish mode: content not ready");
@@ -83,7 +103,7 @@ export function usePublishLogic({
                     ? page
                     : {
                         ...page,
-                        isPublished: mode === "published",
+                        ...getStatusFields(mode, publishAt),
                       }
                 ),
               }
@@ -98,6 +118,8 @@ export function usePublishLogic({
   return {
     publishState,
     publishMode,
+    availableModes,
+    previewHref,
     isInteractive,
     handlePublishMode,
   };
@@ -1,12 +1,16 @@
 // @/app/(_service)/components/nav-bar/admin-flow/editable-wide-menu/page-section/publish-actions-dropdown/publish-utils.ts
 
 import { PageData } from "@/app/@right/(_service)/(_types)/page-types";
+import { getPageStatus } from "@/app/@right/(_service)/(_libs)/page-workflow";
 import { PublishState, PublishMode } from "./types";
 
 export const globeColors: Record<PublishState, string> = {
   inactive: "text-muted-foreground", // Gray - content not ready
   pending: "text-orange-400", // Orange - ready draft
+  review: "text-yellow-500", // Yellow - waiting for approval
+  scheduled: "text-blue-500", // Blue - goes live at publishAt
   active: "text-green-500", // Green - published
+  archived: "text-muted-foreground/50", // Faded - archived
 };
 
 /**
@@ -33,39 +37,65 @@ export function hasPageContent(page: PageData): boolean {
  * Determine publish state based on page data and content availability
  */
 export function getPublishState(page: PageData): PublishState {
-  const hasContent = hasPageContent(page);
+  const status = getPageStatus(page);
 
-  // If no content, always inactive regardless of isPublished flag
-  if (!hasContent) {
-    return "inactive";
+  // Archived pages can always be restored to draft
+  if (status === "archived") {
+    return "archived";
   }
 
-  // If has content and published, show as active
-  if (page.isPublished) {
-    return "active";
+  // If no content, always inactive regardless of status
+  if (!hasPageContent(page)) {
+    return "inactive";
   }
 
-  // If has content but not published, show as pending (draft ready)
-  return "pending";
+  switch (status) {
+    case "published":
+      return "active";
+    case "scheduled":
+      return "scheduled";
+    case "in_review":
+      return "review";
+    default:
+      // Has content but not submitted yet, show as pending (draft ready)
+      return "pending";
+  }
 }
 
 /**
  * Check if dropdown should be interactive based on publish state
  */
 export function isDropdownInteractive(publishState: PublishState): boolean {
-  return publishState === "pending" || publishState === "active";
+  return publishState !== "inactive";
 }
 
 /**
- * Get publish mode from boolean state
+ * Get publish mode (workflow status) of a page
  */
-export function getPublishMode(isPublished: boolean): PublishMode {
-  return isPublished ? "published" : "draft";
+export function getPublishMode(page: PageData): PublishMode {
+  return getPageStatus(page);
 }
 
 /**
  * Determine if page should be automatically unpublished due to missing content
  */
 export function shouldAutoUnpublish(page: PageData): boolean {
-  return page.isPublished && !hasPageContent(page);
+  const status = getPageStatus(page);
+  return (
+    (status === "published" || status === "scheduled") && !hasPageContent(page)
+  );
+}
+
+/**
+ * Page fields to set for a new workflow status
+ */
+export function getStatusFields(
+  mode: PublishMode,
+  publishAt?: string
+): Pick<PageData, "status" | "isPublished" | "publishAt"> {
+  return {
+    status: mode,
+    isPublished: mode === "published",
+    publishAt: mode === "scheduled" ? publishAt : undefined,
+  };
 }
@@ -1,10 +1,17 @@
 // @/app/(_service)/components/nav-bar/admin-flow/editable-wide-menu/page-section/publish-actions-dropdown/types.ts
 
+import { PageStatus } from "@prisma/client";
 import { MenuCategory } from "@/app/@right/(_service)/(_types)/menu-types";
 import { PageData } from "@/app/@right/(_service)/(_types)/page-types";
 
-export type PublishState = "inactive" | "pending" | "active";
-export type PublishMode = "draft" | "published";
+export type PublishState =
+  | "inactive"
+  | "pending"
+  | "review"
+  | "scheduled"
+  | "active"
+  | "archived";
+export type PublishMode = PageStatus;
 
 export interface PublishActionsDropdownProps {
   singlePage: PageData;
@@ -19,7 +26,10 @@ export interface PublishTriggerButtonProps {
 
 export interface PublishDropdownContentProps {
   currentMode: PublishMode;
-  onModeChange: (mode: PublishMode) => void;
+  availableModes: PublishMode[];
+  publishAt?: string;
+  previewHref?: string;
+  onModeChange: (mode: PublishMode, publishAt?: string) => void;
 }
 
 export interface PublishStatusIndicatorProps {
@@ -15,7 +15,8 @@ import {
 
 /**
  * Main vector store actions dropdown component with conditional interaction
- * Only opens dropdown when content is ready for vector store connection
+ * Only opens dropdown when content is ready for vector store connection;
+ * the sync status is loaded each time it opens
  */
 export function VectorStoreActionsDropdown({
   singlePage,
@@ -25,8 +26,12 @@ export function VectorStoreActionsDropdown({
   const {
     vectorStoreState,
     vectorStoreMode,
+    syncState,
+    isSyncing,
     isInteractive,
+    loadSyncState,
     handleVectorStoreMode,
+    handleReindex,
   } = useVectorLogic({
     singlePage,
     categoryTitle,
@@ -39,14 +44,17 @@ export function VectorStoreActionsDropdown({
   }
 
   return (
-    <DropdownMenu>
+    <DropdownMenu onOpenChange={(open) => open && loadSyncState()}>
       <DropdownMenuTrigger asChild>
         <VectorStoreTriggerButton vectorStoreState={vectorStoreState} />
       </DropdownMenuTrigger>
 
       <VectorStoreDropdownContent
         currentMode={vectorStoreMode}
+        syncState={syncState}
+        isSyncing={isSyncing}
         onModeChange={handleVectorStoreMode}
+        onReindex={handleReindex}
       />
     </DropdownMenu>
   );
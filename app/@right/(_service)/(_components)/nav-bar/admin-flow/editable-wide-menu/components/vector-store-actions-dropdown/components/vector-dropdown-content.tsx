@@ -3,19 +3,26 @@
 "use client";
 
 import React from "react";
+import { RefreshCw } from "lucide-react";
 import { VectorStoreDropdownContentProps } from "../types";
+import { formatVectorSyncStatus } from "../vector-utils";
 import { VectorStoreStatusIndicator } from "./vector-status-indicator";
 import {
   DropdownMenuContent,
   DropdownMenuItem,
+  DropdownMenuLabel,
+  DropdownMenuSeparator,
 } from "@/components/ui/dropdown-menu";
 
 /**
- * Dropdown menu content with vector store on/off options
+ * Dropdown menu content with vector store on/off options, sync status and re-index
  */
 export function VectorStoreDropdownContent({
   currentMode,
+  syncState,
+  isSyncing,
   onModeChange,
+  onReindex,
 }: VectorStoreDropdownContentProps) {
   return (
     <DropdownMenuContent align="end" className="min-w-[190px]">
@@ -38,6 +45,23 @@ export function VectorStoreDropdownContent({
           Disconnect
         </span>
       </DropdownMenuItem>
+
+      <DropdownMenuSeparator />
+      <DropdownMenuLabel className="max-w-[260px] text-xs font-normal text-muted-foreground">
+        {syncState?.provider && (
+          <span className="block font-medium">
+            Backend: {syncState.provider}
+          </span>
+        )}
+        {formatVectorSyncStatus(syncState)}
+      </DropdownMenuLabel>
+      <DropdownMenuItem
+        disabled={currentMode !== "VectorStoreOn" || isSyncing}
+        onClick={onReindex}
+      >
+        <RefreshCw className="mr-2 size-3" />
+        Re-index
+      </DropdownMenuItem>
     </DropdownMenuContent>
   );
 }
@@ -30,11 +30,15 @@ export const VectorStoreTriggerButton = forwardRef<
       aria-label={
         interactive
           ? "Toggle vector store options"
+          : vectorStoreState === "syncing"
+          ? "Syncing with vector store"
           : "Content not ready for vector store connection"
       }
       title={
         interactive
           ? "Click to toggle vector store options"
+          : vectorStoreState === "syncing"
+          ? "Syncing with vector store..."
           : "Content not ready for vector store connection"
       }
       disabled={!interactive}
@@ -1,7 +1,8 @@
 // @/app/(_service)/components/nav-bar/admin-flow/editable-wide-menu/page-section/vector-store-actions-dropdown/hooks/use-vector-logic.ts
 
-import { useCallback, useEffect } from "react";
-import { VectorStoreMode, VectorStoreState } from "../types";
+import { useCallback, useEffect, useState } from "react";
+import { toast } from "sonner";
+import { VectorStoreMode, VectorStoreState, VectorSyncState } from "../types";
 import {
   getVectorStoreState,
   getVectorStoreMode,
@@ -20,30 +21,37 @@ interface UseVectorLogicProps {
 interface UseVectorLogicReturn {
   vectorStoreState: VectorStoreState;
   vectorStoreMode: VectorStoreMode;
+  syncState: VectorSyncState | null;
+  isSyncing: boolean;
   isInteractive: boolean;
+  loadSyncState: () => Promise<void>;
   handleVectorStoreMode: (mode: VectorStoreMode) => void;
+  handleReindex: () => void;
 }
 
 /**
- * Custom hook to handle vector store logic and automatic state management
+ * Custom hook to handle vector store logic and automatic state management.
+ * Connecting and disconnecting index or remove the page right away;
+ * auto-disconnect only changes the menu and is synced when the menu is saved.
  */
 export function useVectorLogic({
   singlePage,
   categoryTitle,
   setCategories,
 }: UseVectorLogicProps): UseVectorLogicReturn {
-  const vectorStoreState = getVectorStoreState(singlePage);
+  const [syncState, setSyncState] = useState<VectorSyncState | null>(null);
+  const [isSyncing, setIsSyncing] = useState(false);
+
+  const vectorStoreState = getVectorStoreState(
+    singlePage,
+    syncState,
+    isSyncing
+  );
   const vectorStoreMode = getVectorStoreMode(singlePage.isVectorConnected);
   const isInteractive = isDropdownInteractive(vectorStoreState);
 
-  // Auto-disconnect if content becomes incomplete
-  useEffect(() => {
-    if (shouldAutoDisconnect(singlePage)) {
-      console.log(
-        "Auto-disconnecting vector store due to missing content:",
-        singlePage.id
-      );
-
+  const setVectorConnected = useCallback(
+    (isVectorConnected: boolean) => {
       setCategories((prev) =>
         prev.map((cat) =>
           cat.title !== categoryTitle
@@ -55,14 +63,80 @@ export function useVectorLogic({
                     ? page
                     : {
                         ...page,
-                        isVectorConnected: false,
+                        isVectorConnected,
                       }
                 ),
               }
         )
       );
+    },
+    [singlePage.id, categoryTitle, setCategories]
+  );
+
+  // Auto-disconnect if content becomes incomplete
+  useEffect(() => {
+    if (shouldAutoDisconnect(singlePage)) {
+      console.log(
+        "Auto-disconnecting vector store due to missing content:",
+        singlePage.id
+      );
+
+      setVectorConnected(false);
+    }
+  }, [singlePage, setVectorConnected]);
+
+  const loadSyncState = useCallback(async () => {
+    try {
+      const res = await fetch(
+        `/api/content/vector?pageId=${encodeURIComponent(singlePage.id)}`
+      );
+      if (res.ok) {
+        setSyncState(await res.json());
+      }
+    } catch (error) {
+      console.error("Failed to load vector store state:", error);
     }
-  }, [singlePage, categoryTitle, setCategories]);
+  }, [singlePage.id]);
+
+  const runVectorAction = useCallback(
+    async (action: "connect" | "disconnect" | "reindex") => {
+      setIsSyncing(true);
+      try {
+        const res = await fetch(
+          `/api/content/vector?pageId=${encodeURIComponent(singlePage.id)}`,
+          {
+            method: "POST",
+            headers: { "Content-Type": "application/json" },
+            body: JSON.stringify({ action }),
+          }
+        );
+        const data = await res.json().catch(() => ({}));
+        if (!res.ok) {
+          throw new Error(
+            data.error || `Vector store sync failed (${res.status})`
+          );
+        }
+
+        setSyncState({ provider: data.provider, index: data.index });
+        setVectorConnected(data.isVectorConnected);
+
+        if (data.index?.status === "failed") {
+          toast.error(`Indexing failed: ${data.index.error}`);
+        } else if (action === "disconnect") {
+          toast.success("Page removed from the vector store");
+        } else {
+          toast.success(`Page indexed (${data.index?.chunkCount ?? 0} chunks)`);
+        }
+      } catch (error) {
+        toast.error(
+          error instanceof Error ? error.message : "Vector store sync failed"
+        );
+      } finally {
+        setIsSyncing(false);
+      }
+    },
+    [singlePage.id, setVectorConnected]
+  );
 
   const handleVectorStoreMode = useCallback(
     (mode: VectorStoreMode) => {
@@ -72,33 +146,23 @@ export function useVectorLogic({
         return;
       }
 
-      setCategories((prev) =>
-        prev.map((cat) =>
-          cat.title !== categoryTitle
-            ? cat
-            : {
-                ...cat,
-                pages: cat.pages.map((page) =>
-                  page.id !== singlePage.id
-                    ? page
-                    : {
-                        ...page,
-                        isVectorConnected: mode === "VectorStoreOn",
-                      }
-                ),
-              }
-        )
-      );
-
-      console.log("VECTOR STORE MODE CHANGED", singlePage.id, mode);
+      runVectorAction(mode === "VectorStoreOn" ? "connect" : "disconnect");
     },
-    [singlePage.id, categoryTitle, setCategories, isInteractive]
+    [isInteractive, runVectorAction]
   );
 
+  const handleReindex = useCallback(() => {
+    runVectorAction("reindex");
+  }, [runVectorAction]);
+
   return {
     vectorStoreState,
     vectorStoreMode,
+    syncState,
+    isSyncing,
     isInteractive,
+    loadSyncState,
     handleVectorStoreMode,
+    handleReindex,
   };
 }
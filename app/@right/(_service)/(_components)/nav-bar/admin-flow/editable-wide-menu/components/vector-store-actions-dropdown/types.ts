@@ -1,11 +1,33 @@
 // @/app/(_service)/components/nav-bar/admin-flow/editable-wide-menu/page-section/vector-store-actions-dropdown/types.ts
 
+import type { VectorSyncStatus } from "@prisma/client";
 import { MenuCategory } from "@/app/@right/(_service)/(_types)/menu-types";
 import { PageData } from "@/app/@right/(_service)/(_types)/page-types";
 
-export type VectorStoreState = "inactive" | "pending" | "active";
+export type VectorStoreState =
+  | "inactive"
+  | "pending"
+  | "active"
+  | "syncing"
+  | "failed";
 export type VectorStoreMode = "VectorStoreOff" | "VectorStoreOn";
 
+/**
+ * Vector store entry of a page as returned by /api/content/vector
+ */
+export interface VectorSyncInfo {
+  backend: string;
+  status: VectorSyncStatus;
+  chunkCount: number;
+  error: string | null;
+  syncedAt: string | null;
+}
+
+export interface VectorSyncState {
+  provider: string;
+  index: VectorSyncInfo | null;
+}
+
 export interface VectorStoreActionsDropdownProps {
   singlePage: PageData;
   categoryTitle: string;
@@ -18,7 +40,10 @@ export interface VectorStoreTriggerButtonProps {
 
 export interface VectorStoreDropdownContentProps {
   currentMode: VectorStoreMode;
+  syncState: VectorSyncState | null;
+  isSyncing: boolean;
   onModeChange: (mode: VectorStoreMode) => void;
+  onReindex: () => void;
 }
 
 export interface VectorStoreStatusIndicatorProps {
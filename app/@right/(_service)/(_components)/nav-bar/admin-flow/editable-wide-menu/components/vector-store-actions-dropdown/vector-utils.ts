@@ -1,12 +1,14 @@
 // @/app/(_service)/components/nav-bar/admin-flow/editable-wide-menu/page-section/vector-store-actions-dropdown/vector-utils.ts
 
 import { PageData } from "@/app/@right/(_service)/(_types)/page-types";
-import { VectorStoreState, VectorStoreMode } from "./types";
+import { VectorStoreState, VectorStoreMode, VectorSyncState } from "./types";
 
 export const vectorStoreColors: Record<VectorStoreState, string> = {
   inactive: "text-muted-foreground", // Gray - content not ready
   pending: "text-orange-400", // Orange - ready but not connected
   active: "text-green-500", // Green - connected to vector store
+  syncing: "text-blue-500 animate-pulse", // Blue - indexing or removing
+  failed: "text-red-500", // Red - last sync failed
 };
 
 /**
@@ -50,11 +52,24 @@ export function hasPageContent(page: PageData): boolean {
 }
 
 /**
- * Determine vector store state based on page data and content availability
+ * Determine vector store state based on page data, content availability
+ * and the last sync result
  */
-export function getVectorStoreState(page: PageData): VectorStoreState {
+export function getVectorStoreState(
+  page: PageData,
+  syncState: VectorSyncState | null = null,
+  isSyncing = false
+): VectorStoreState {
   const hasContent = hasPageContent(page);
 
+  if (isSyncing) {
+    return "syncing";
+  }
+
+  if (page.isVectorConnected && syncState?.index?.status === "failed") {
+    return "failed";
+  }
+
   // If no content, always inactive regardless of isVectorConnected flag
   if (!hasContent) {
     return "inactive";
@@ -71,12 +86,16 @@ export function getVectorStoreState(page: PageData): VectorStoreState {
 
 /**
  * Check if dropdown should be interactive based on vector store state
- * Only pending and active states allow interaction
+ * Pending, active and failed states allow interaction
  */
 export function isDropdownInteractive(
   vectorStoreState: VectorStoreState
 ): boolean {
-  return vectorStoreState === "pending" || vectorStoreState === "active";
+  return (
+    vectorStoreState === "pending" ||
+    vectorStoreState === "active" ||
+    vectorStoreState === "failed"
+  );
 }
 
 /**
@@ -86,6 +105,27 @@ export function getVectorStoreMode(isConnected: boolean): VectorStoreMode {
   return isConnected ? "VectorStoreOn" : "VectorStoreOff";
 }
 
+/**
+ * Short human-readable sync status for the dropdown
+ */
+export function formatVectorSyncStatus(
+  syncState: VectorSyncState | null
+): string {
+  const index = syncState?.index;
+  if (!index) return "Not indexed";
+
+  switch (index.status) {
+    case "syncing":
+      return "Indexing...";
+    case "failed":
+      return `Failed: ${index.error ?? "unknown error"}`;
+    case "synced":
+      return `${index.chunkCount} chunks · ${
+        index.syncedAt ? new Date(index.syncedAt).toLocaleString() : "never"
+      }`;
+  }
+}
+
 /**
  * Determine if page should be automatically disconnected due to missing content
  */
@@ -115,6 +115,7 @@ export function useMenuOperations(
                       roles: ["guest"],
                       hasBadge: false,
                       type: "blog" as PageType,
+                      status: "draft",
                       isPublished: false,
                       isAddedToPrompt: false,
                       isVectorConnected: false,
@@ -0,0 +1,103 @@
+// @/app/@right/(_service)/(_components)/page-transformer-components/ask-ai-selection-button.tsx
+
+"use client";
+
+import { useEffect, useState } from "react";
+import { MessageCircleQuestion } from "lucide-react";
+import { Button } from "@/components/ui/button";
+import { useTranslation } from "../../(_libs)/translation";
+
+// Shorter selections are usually accidental clicks
+const MIN_SELECTION_LENGTH = 3;
+
+interface SelectedFragment {
+  sectionId: string;
+  text: string;
+  top: number;
+  left: number;
+}
+
+/**
+ * Floating "Ask AI about this" button shown under text selected inside an
+ * interactive page section.
+ */
+export function AskAiSelectionButton({
+  onAsk,
+}: {
+  onAsk: (sectionId: string, text: string) => void;
+}) {
+  const { t } = useTranslation();
+  const [fragment, setFragment] = useState<SelectedFragment | null>(null);
+
+  useEffect(() => {
+    const readSelection = () => {
+      const selection = window.getSelection();
+      const text = selection?.toString().trim() ?? "";
+
+      if (
+        !selection ||
+        selection.isCollapsed ||
+        text.length < MIN_SELECTION_LENGTH
+      ) {
+        setFragment(null);
+        return;
+      }
+
+      const node = selection.anchorNode;
+      const element = node instanceof Element ? node : node?.parentElement;
+      const section = element?.closest<HTMLElement>("[data-interactive-id]");
+      const sectionId = section?.dataset.interactiveId;
+
+      if (!sectionId) {
+        setFragment(null);
+        return;
+      }
+
+      const rect = selection.getRangeAt(0).getBoundingClientRect();
+      setFragment({
+        sectionId,
+        text,
+        top: rect.bottom + 8,
+        left: rect.left + rect.width / 2,
+      });
+    };
+
+    // The selection is final only after the pointer is released
+    const handlePointerUp = () => window.setTimeout(readSelection, 0);
+    const handleSelectionChange = () => {
+      if (window.getSelection()?.isCollapsed) setFragment(null);
+    };
+    const handleScroll = () => setFragment(null);
+
+    document.addEventListener("mouseup", handlePointerUp);
+    document.addEventListener("touchend", handlePointerUp);
+    document.addEventListener("selectionchange", handleSelectionChange);
+    window.addEventListener("scroll", handleScroll, true);
+    return () => {
+      document.removeEventListener("mouseup", handlePointerUp);
+      document.removeEventListener("touchend", handlePointerUp);
+      document.removeEventListener("selectionchange", handleSelectionChange);
+      window.removeEventListener("scroll", handleScroll, true);
+    };
+  }, []);
+
+  if (!fragment) return null;
+
+  return (
+    <Button
+      size="sm"
+      className="fixed z-50 -translate-x-1/2 gap-1 shadow-lg"
+      style={{ top: fragment.top, left: fragment.left }}
+      // Keep the selection alive until the click lands
+      onMouseDown={(event) => event.preventDefault()}
+      onClick={() => {
+        onAsk(fragment.sectionId, fragment.text);
+        window.getSelection()?.removeAllRanges();
+        setFragment(null);
+      }}
+    >
+      <MessageCircleQuestion className="size-4" />
+      {t("Ask AI about this")}
+    </Button>
+  );
+}
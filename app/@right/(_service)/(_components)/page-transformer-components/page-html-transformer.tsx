@@ -2,6 +2,8 @@
 
 "use client";
 
+import { useEffect } from "react";
+import { usePathname } from "next/navigation";
 import {
   PageConfig,
   Section,
@@ -14,6 +16,12 @@ import { useTheme } from "next-themes";
 import { FullScreenWrapper } from "./wrappers/full-screen-wrapper";
 import { Wrapper } from "./wrappers/wrapper";
 import DoublePresentation from "./custom-sections/custom-double-prsentation";
+import { highlightSectionFromHash } from "../../(_libs)/section-highlight";
+import { InteractiveSection } from "@/components/shared/interactive-section";
+import { useInteractiveSections } from "@/hooks/useInteractiveSections";
+import { useAppContext } from "@/contexts/app-context";
+import { useRightSidebar } from "@/contexts/right-sidebar-context";
+import { AskAiSelectionButton } from "./ask-ai-selection-button";
 
 interface PageHtmlTransformerProps {
   data: PageConfig;
@@ -37,50 +45,105 @@ function renderSectionContent(config: any) {
   );
 }
 
+function renderSection(section: Section) {
+  switch (section.type) {
+    case "hero-section": {
+      const config = section as SectionConfig;
+      return (
+        <FullScreenWrapper
+          id={config.id}
+          videoUrl={config.videoUrl}
+          imageUrl={config.imageUrl}
+          className={config.sectionClassName}
+        >
+          {renderSectionContent(config)}
+        </FullScreenWrapper>
+      );
+    }
+    case "double-presentation-section":
+      return (
+        <div id={section.id}>
+          <DoublePresentation
+            metaData={section.customComponentsAnyTypeData.metaData}
+            leftItem={section.customComponentsAnyTypeData.leftItem}
+            rightItem={section.customComponentsAnyTypeData.rightItem}
+          />
+        </div>
+      );
+    // ...другие case без изменений
+    default: {
+      const config = section as any;
+      return (
+        <Wrapper id={config.id} className={config.sectionClassName}>
+          {renderSectionContent(config)}
+        </Wrapper>
+      );
+    }
+  }
+}
+
 export function PageHtmlTransformer({ data }: PageHtmlTransformerProps) {
   const { theme } = useTheme();
+  const pathname = usePathname();
+  const pageId = data?.metadata?.id;
+  const { setPageSelection } = useAppContext();
+  const { isOpen, closeDrawer } = useRightSidebar();
+  const {
+    sendModeSectionId,
+    setSendModeSectionId,
+    hoveredSectionId,
+    setHoveredSectionId,
+    isMobile,
+  } = useInteractiveSections();
+
+  // Citations from the chat link to "<href>#<sectionId>"
+  useEffect(() => {
+    highlightSectionFromHash();
+    window.addEventListener("hashchange", highlightSectionFromHash);
+    return () =>
+      window.removeEventListener("hashchange", highlightSectionFromHash);
+  }, [pageId]);
+
+  // "Ask AI about this": the fragment is attached to the next chat message
+  const askAi = (sectionId: string, text: string) => {
+    if (!pageId) return;
+    setPageSelection({
+      pageId,
+      sectionId,
+      href: pathname,
+      pageTitle: data.metadata.title,
+      text,
+    });
+    setSendModeSectionId(null);
+    if (isMobile && isOpen) {
+      closeDrawer();
+    }
+  };
+
+  const askAiAboutSection = (sectionId: string) => {
+    const text = document.getElementById(sectionId)?.innerText.trim();
+    if (text) askAi(sectionId, text);
+  };
+
   if (!data?.sections?.length) return null;
 
   return (
     <>
-      {data.sections.map((section: Section, idx: number) => {
-        switch (section.type) {
-          case "hero-section": {
-            const config = section as SectionConfig;
-            return (
-              <FullScreenWrapper
-                key={config.id || idx}
-                videoUrl={config.videoUrl}
-                imageUrl={config.imageUrl}
-                className={config.sectionClassName}
-              >
-                {renderSectionContent(config)}
-              </FullScreenWrapper>
-            );
-          }
-          case "double-presentation-section":
-            return (
-              <DoublePresentation
-                key={section.id}
-                metaData={section.customComponentsAnyTypeData.metaData}
-                leftItem={section.customComponentsAnyTypeData.leftItem}
-                rightItem={section.customComponentsAnyTypeData.rightItem}
-              />
-            );
-          // ...другие case без изменений
-          default: {
-            const config = section as any;
-            return (
-              <Wrapper
-                key={config.id || idx}
-                className={config.sectionClassName}
-              >
-                {renderSectionContent(config)}
-              </Wrapper>
-            );
-          }
-        }
-      })}
+      {data.sections.map((section: Section, idx: number) => (
+        <InteractiveSection
+          key={section.id || idx}
+          id={section.id}
+          isSendMode={sendModeSectionId === section.id}
+          isHovered={hoveredSectionId === section.id}
+          isMobile={isMobile}
+          onHover={setHoveredSectionId}
+          onActivate={setSendModeSectionId}
+          onSend={askAiAboutSection}
+        >
+          {renderSection(section)}
+        </InteractiveSection>
+      ))}
+      <AskAiSelectionButton onAsk={askAi} />
     </>
   );
 }
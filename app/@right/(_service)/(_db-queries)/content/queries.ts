@@ -0,0 +1,804 @@
+// @/app/@right/(_service)/(_db-queries)/content/queries.ts
+
+import { prisma } from "@/lib/db";
+import type {
+  Page,
+  PageCategory,
+  PageRevision,
+  PageSection,
+  PageStatus,
+  Prisma,
+} from "@prisma/client";
+import type { MenuCategory } from "../../(_types)/menu-types";
+import type { PageData, SectionInfo } from "../../(_types)/page-types";
+import type { ExtendedSection } from "../../(_types)/section-types";
+import {
+  categoryRowToMenuCategory,
+  extendedSectionToSectionContent,
+  hrefToSlug,
+  pageDataToPageRow,
+  pageRowToPageData,
+  type PageWithSections,
+} from "../../(_libs)/content-mappers";
+import { recordPageRevision, type RevisionContext } from "../revision/queries";
+
+type TransactionClient = Prisma.TransactionClient;
+
+// Replacing the whole menu touches every page; the default 5s is too short
+const MENU_TRANSACTION_OPTIONS = { timeout: 30_000, maxWait: 10_000 };
+
+const pageInclude = {
+  sections: { orderBy: { order: "asc" } },
+} satisfies Prisma.PageInclude;
+
+export type SectionInput = Omit<
+  Prisma.PageSectionUncheckedCreateInput,
+  "id" | "pageId"
+>;
+
+/**
+ * Syncs the menu-side section list of a page: removes sections that are no longer
+ * listed and upserts the rest by name. Rendered content columns are left untouched.
+ */
+async function syncPageSections(
+  tx: TransactionClient,
+  pageId: string,
+  slug: string[],
+  sections: SectionInfo[]
+) {
+  const names = sections.map((section) => section.id);
+
+  await tx.pageSection.deleteMany({
+    where: { pageId, name: { notIn: names } },
+  });
+
+  for (const [order, { id: name, ...info }] of sections.entries()) {
+    const infoJson = info as Prisma.InputJsonObject;
+    await tx.pageSection.upsert({
+      where: { pageId_name: { pageId, name } },
+      create: {
+        pageId,
+        name,
+        order,
+        sectionPath: [...slug, name],
+        info: infoJson,
+      },
+      update: { order, sectionPath: [...slug, name], info: infoJson },
+    });
+  }
+}
+
+async function savePageData(
+  tx: TransactionClient,
+  page: PageData,
+  categoryId: string | null
+) {
+  const row = pageDataToPageRow(page, categoryId);
+  const { id, ...data } = row;
+
+  await tx.page.upsert({
+    where: { id: page.id },
+    create: row,
+    update: data,
+  });
+
+  if (page.sections) {
+    await syncPageSections(tx, page.id, hrefToSlug(page.href), page.sections);
+  }
+}
+
+/**
+ * Writes rendered content into the sections of a page, creating missing ones by name.
+ * Sections left out keep their menu info but lose their content.
+ */
+async function replaceSectionContent(
+  tx: TransactionClient,
+  pageId: string,
+  slug: string[],
+  sections: ExtendedSection[]
+) {
+  await tx.pageSection.updateMany({
+    where: { pageId, name: { notIn: sections.map((section) => section.id) } },
+    data: extendedSectionToSectionContent({ id: "" }),
+  });
+
+  for (const [index, section] of sections.entries()) {
+    const content = extendedSectionToSectionContent(section);
+    await tx.pageSection.upsert({
+      where: { pageId_name: { pageId, name: section.id } },
+      create: {
+        ...content,
+        pageId,
+        name: section.id,
+        order: section.order ?? index,
+        sectionPath: [...slug, section.id],
+      },
+      update: {
+        ...content,
+        ...(section.order !== undefined ? { order: section.order } : {}),
+      },
+    });
+  }
+}
+
+/**
+ * Retrieves the menu categories with their pages and section lists.
+ * @returns Categories sorted by order, in the shape used by the admin menu.
+ */
+export async function getMenuCategories(): Promise<MenuCategory[]> {
+  try {
+    const categories = await prisma.pageCategory.findMany({
+      orderBy: [{ order: "asc" }, { title: "asc" }],
+      include: { pages: { include: pageInclude } },
+    });
+
+    return categories.map(categoryRowToMenuCategory);
+  } catch (error) {
+    console.error("Failed to get menu categories from database", error);
+    throw error;
+  }
+}
+
+/**
+ * Checks whether any menu content has been stored in the database yet.
+ * @returns True when at least one category exists.
+ */
+export async function hasMenuContent(): Promise<boolean> {
+  try {
+    return (await prisma.pageCategory.count()) > 0;
+  } catch (error) {
+    console.error("Failed to count menu categories in database", error);
+    throw error;
+  }
+}
+
+/**
+ * Replaces the stored menu with the given categories in one transaction.
+ * Categories are matched by title and pages by id; anything missing is deleted.
+ * A revision is recorded for every page that changed.
+ * @param categories - The full menu as edited in the admin panel.
+ * @param revision - Author and change note for the recorded revisions.
+ */
+export async function replaceMenuCategories(
+  categories: MenuCategory[],
+  revision?: RevisionContext
+): Promise<void> {
+  try {
+    await prisma.$transaction(async (tx) => {
+      const titles = categories.map((category) => category.title);
+      const pageIds = categories.flatMap((category) =>
+        category.pages.map((page) => page.id)
+      );
+
+      // Save first, delete last: a page moved out of a removed category keeps its sections
+      for (const category of categories) {
+        const { id: categoryId } = await tx.pageCategory.upsert({
+          where: { title: category.title },
+          create: { title: category.title, order: category.order ?? null },
+          update: { order: category.order ?? null },
+        });
+
+        for (const page of category.pages) {
+          await savePageData(tx, page, categoryId);
+        }
+      }
+
+      await tx.page.deleteMany({
+        where: { categoryId: { not: null }, id: { notIn: pageIds } },
+      });
+      await tx.pageCategory.deleteMany({ where: { title: { notIn: titles } } });
+
+      for (const pageId of pageIds) {
+        await recordPageRevision(tx, { pageId, source: "menu", revision });
+      }
+    }, MENU_TRANSACTION_OPTIONS);
+  } catch (error) {
+    console.error("Failed to replace menu categories in database", error);
+    throw error;
+  }
+}
+
+/**
+ * Retrieves all categories without their pages.
+ * @returns Categories sorted by order.
+ */
+export async function getCategories(): Promise<PageCategory[]> {
+  try {
+    return await prisma.pageCategory.findMany({
+      orderBy: [{ order: "asc" }, { title: "asc" }],
+    });
+  } catch (error) {
+    console.error("Failed to get categories from database", error);
+    throw error;
+  }
+}
+
+/**
+ * Creates a menu category.
+ * @param title - Unique category title (also the first href segment).
+ * @param order - Position in the menu.
+ * @returns The created category.
+ */
+export async function createCategory({
+  title,
+  order,
+}: {
+  title: string;
+  order?: number | null;
+}): Promise<PageCategory> {
+  try {
+    return await prisma.pageCategory.create({
+      data: { title, order: order ?? null },
+    });
+  } catch (error) {
+    console.error("Failed to create category in database", error);
+    throw error;
+  }
+}
+
+/**
+ * Updates a menu category.
+ * @param id - The ID of the category.
+ * @param data - Fields to change.
+ * @returns The updated category.
+ */
+export async function updateCategory({
+  id,
+  data,
+}: {
+  id: string;
+  data: { title?: string; order?: number | null };
+}): Promise<PageCategory> {
+  try {
+    return await prisma.pageCategory.update({ where: { id }, data });
+  } catch (error) {
+    console.error("Failed to update category in database", error);
+    throw error;
+  }
+}
+
+/**
+ * Deletes a category together with its pages and sections.
+ * @param id - The ID of the category.
+ * @returns The deleted category.
+ */
+export async function deleteCategory({
+  id,
+}: {
+  id: string;
+}): Promise<PageCategory> {
+  try {
+    return await prisma.pageCategory.delete({ where: { id } });
+  } catch (error) {
+    console.error("Failed to delete category from database", error);
+    throw error;
+  }
+}
+
+/**
+ * Retrieves a page with its sections.
+ * @param id - The ID of the page.
+ * @returns The page or null if not found.
+ */
+export async function getPageById({
+  id,
+}: {
+  id: string;
+}): Promise<PageWithSections | null> {
+  try {
+    return await prisma.page.findUnique({
+      where: { id },
+      include: pageInclude,
+    });
+  } catch (error) {
+    console.error("Failed to get page by id from database", error);
+    throw error;
+  }
+}
+
+/**
+ * Finds a page by its menu href (case-insensitive).
+ * @param href - Menu href, e.g. "/docs/intro".
+ * @returns The page with sections or null if not found.
+ */
+export async function getPageByHref({
+  href,
+}: {
+  href: string;
+}): Promise<PageWithSections | null> {
+  try {
+    return await prisma.page.findFirst({
+      where: { slug: { equals: hrefToSlug(href) } },
+      include: pageInclude,
+    });
+  } catch (error) {
+    console.error("Failed to get page by href from database", error);
+    throw error;
+  }
+}
+
+/**
+ * Retrieves the pages of a category (or all pages) as menu PageData.
+ * @param categoryId - Optional category filter.
+ * @returns Pages sorted by order.
+ */
+export async function getPages({
+  categoryId,
+}: {
+  categoryId?: string;
+} = {}): Promise<PageData[]> {
+  try {
+    const pages = await prisma.page.findMany({
+      where: categoryId ? { categoryId } : undefined,
+      orderBy: [{ order: "asc" }, { createdAt: "asc" }],
+      include: pageInclude,
+    });
+
+    return pages.map(pageRowToPageData);
+  } catch (error) {
+    console.error("Failed to get pages from database", error);
+    throw error;
+  }
+}
+
+/**
+ * Creates or overwrites a page from menu PageData.
+ * @param page - The page as edited in the admin menu.
+ * @param categoryId - The owning category.
+ * @param revision - Author and change note.
+ * @returns The saved page with sections.
+ */
+export async function savePage({
+  page,
+  categoryId,
+  revision,
+}: {
+  page: PageData;
+  categoryId: string | null;
+  revision?: RevisionContext;
+}): Promise<PageWithSections> {
+  try {
+    return await prisma.$transaction(async (tx) => {
+      await savePageData(tx, page, categoryId);
+      await recordPageRevision(tx, {
+        pageId: page.id,
+        source: "page",
+        revision,
+      });
+      return tx.page.findUniqueOrThrow({
+        where: { id: page.id },
+        include: pageInclude,
+      });
+    });
+  } catch (error) {
+    console.error("Failed to save page in database", error);
+    throw error;
+  }
+}
+
+/**
+ * Replaces the rendered sections of a page, as uploaded by the section generator.
+ * @param pageId - The ID of the page.
+ * @param sections - The full section list of the page.
+ * @param revision - Author and change note.
+ * @returns The saved page with sections.
+ */
+export async function saveSectionContent({
+  pageId,
+  sections,
+  revision,
+}: {
+  pageId: string;
+  sections: ExtendedSection[];
+  revision?: RevisionContext;
+}): Promise<PageWithSections> {
+  try {
+    return await prisma.$transaction(async (tx) => {
+      const page = await tx.page.findUniqueOrThrow({ where: { id: pageId } });
+      await replaceSectionContent(tx, pageId, page.slug, sections);
+      await recordPageRevision(tx, { pageId, source: "upload", revision });
+      return tx.page.findUniqueOrThrow({
+        where: { id: pageId },
+        include: pageInclude,
+      });
+    });
+  } catch (error) {
+    console.error("Failed to save section content in database", error);
+    throw error;
+  }
+}
+
+/**
+ * Restores a page and its sections from a revision and records the result
+ * as a new revision, so a rollback can itself be rolled back.
+ * @param id - The ID of the revision to restore.
+ * @param revision - Author and change note; the note defaults to the restored version.
+ * @returns The restored page and the new revision, or null if the revision was not found.
+ */
+export async function restorePageRevision({
+  id,
+  revision,
+}: {
+  id: string;
+  revision?: RevisionContext;
+}): Promise<{
+  page: PageWithSections;
+  revision: PageRevision | null;
+} | null> {
+  try {
+    return await prisma.$transaction(async (tx) => {
+      const target = await tx.pageRevision.findUnique({ where: { id } });
+      if (!target) return null;
+
+      const sections = target.sections as unknown as ExtendedSection[];
+
+      // The page may have moved since; a deleted category falls back to the current one
+      const [targetCategory, current] = await Promise.all([
+        target.categoryId
+          ? tx.pageCategory.findUnique({ where: { id: target.categoryId } })
+          : null,
+        tx.page.findUnique({ where: { id: target.pageId } }),
+      ]);
+
+      // Rollback restores content only: the workflow status stays as it is now,
+      // and a deleted page comes back as a draft
+      const pageData: PageData = {
+        ...(target.pageData as unknown as PageData),
+        status: current?.status ?? "draft",
+        publishAt: current?.publishAt?.toISOString(),
+        isPublished: current?.isPublished ?? false,
+      };
+
+      await savePageData(
+        tx,
+        pageData,
+        targetCategory?.id ?? current?.categoryId ?? null
+      );
+      await replaceSectionContent(
+        tx,
+        target.pageId,
+        hrefToSlug(pageData.href),
+        sections
+      );
+
+      const names = [
+        ...(pageData.sections ?? []).map((section) => section.id),
+        ...sections.map((section) => section.id),
+      ];
+      await tx.pageSection.deleteMany({
+        where: { pageId: target.pageId, name: { notIn: names } },
+      });
+
+      const restored = await recordPageRevision(tx, {
+        pageId: target.pageId,
+        source: "rollback",
+        revision: {
+          authorId: revision?.authorId,
+          note: revision?.note || `Restored version ${target.version}`,
+        },
+      });
+
+      return {
+        page: await tx.page.findUniqueOrThrow({
+          where: { id: target.pageId },
+          include: pageInclude,
+        }),
+        revision: restored,
+      };
+    }, MENU_TRANSACTION_OPTIONS);
+  } catch (error) {
+    console.error("Failed to restore page revision in database", error);
+    throw error;
+  }
+}
+
+/**
+ * Deletes a page and its sections.
+ * @param id - The ID of the page.
+ */
+export async function deletePage({ id }: { id: string }): Promise<void> {
+  try {
+    await prisma.page.delete({ where: { id } });
+  } catch (error) {
+    console.error("Failed to delete page from database", error);
+    throw error;
+  }
+}
+
+/**
+ * Finds a page by its slug (case-insensitive) in any workflow status.
+ * Callers decide whether it may be shown (see isPageLive).
+ * @param slug - URL segments of the page.
+ * @returns The page with sections or null if not found.
+ */
+export async function getStoredPageBySlug({
+  slug,
+}: {
+  slug: string[];
+}): Promise<PageWithSections | null> {
+  try {
+    return await prisma.page.findFirst({
+      where: {
+        slug: { equals: slug.map((segment) => segment.toLowerCase()) },
+      },
+      include: pageInclude,
+    });
+  } catch (error) {
+    console.error("Failed to get page by slug from database", error);
+    throw error;
+  }
+}
+
+/**
+ * Retrieves the slugs of all live pages for static generation:
+ * published ones and scheduled ones whose publish time has passed.
+ * @returns A list of slugs.
+ */
+export async function getPublishedPageSlugs(): Promise<string[][]> {
+  try {
+    const pages = await prisma.page.findMany({
+      where: {
+        OR: [
+          { status: "published" },
+          { status: "scheduled", publishAt: { lte: new Date() } },
+        ],
+      },
+      select: { slug: true },
+    });
+
+    return pages.map((page) => page.slug).filter((slug) => slug.length > 0);
+  } catch (error) {
+    console.error("Failed to get page slugs from database", error);
+    throw error;
+  }
+}
+
+/**
+ * Retrieves the stored workflow status of pages.
+ * @param ids - Page IDs; unknown ones are left out of the result.
+ * @returns Status by page ID.
+ */
+export async function getPageStatuses({
+  ids,
+}: {
+  ids: string[];
+}): Promise<Map<string, PageStatus>> {
+  try {
+    const pages = await prisma.page.findMany({
+      where: { id: { in: ids } },
+      select: { id: true, status: true },
+    });
+
+    return new Map(pages.map((page) => [page.id, page.status]));
+  } catch (error) {
+    console.error("Failed to get page statuses from database", error);
+    throw error;
+  }
+}
+
+/**
+ * Retrieves the workflow state of pages, by ID or by category.
+ * @param ids - Page IDs; unknown ones are left out of the result.
+ * @param categoryId - Pages of this category.
+ * @returns Title, status and publish time of the pages.
+ */
+export async function getPageWorkflowStates({
+  ids,
+  categoryId,
+}: {
+  ids?: string[];
+  categoryId?: string;
+}): Promise<Pick<Page, "id" | "title" | "status" | "publishAt">[]> {
+  try {
+    return await prisma.page.findMany({
+      where: categoryId ? { categoryId } : { id: { in: ids ?? [] } },
+      select: { id: true, title: true, status: true, publishAt: true },
+    });
+  } catch (error) {
+    console.error("Failed to get page workflow states from database", error);
+    throw error;
+  }
+}
+
+/**
+ * Retrieves the title and href of pages, e.g. to link search results.
+ * @param ids - Page IDs; unknown ones are left out of the result.
+ * @returns Title and href by page ID.
+ */
+export async function getPageLinks({
+  ids,
+}: {
+  ids: string[];
+}): Promise<Map<string, { title: string; href: string | null }>> {
+  try {
+    const pages = await prisma.page.findMany({
+      where: { id: { in: ids } },
+      select: { id: true, title: true, href: true },
+    });
+
+    return new Map(pages.map(({ id, title, href }) => [id, { title, href }]));
+  } catch (error) {
+    console.error("Failed to get page links from database", error);
+    throw error;
+  }
+}
+
+/**
+ * Turns the "Vector store" flag of a page on or off and records a revision.
+ * @param id - The ID of the page.
+ * @param isVectorConnected - New flag value.
+ * @param revision - Author and change note.
+ * @returns The updated page with sections, or null if not found.
+ */
+export async function setPageVectorConnected({
+  id,
+  isVectorConnected,
+  revision,
+}: {
+  id: string;
+  isVectorConnected: boolean;
+  revision?: RevisionContext;
+}): Promise<PageWithSections | null> {
+  try {
+    return await prisma.$transaction(async (tx) => {
+      const { count } = await tx.page.updateMany({
+        where: { id },
+        data: { isVectorConnected },
+      });
+      if (count === 0) return null;
+
+      await recordPageRevision(tx, { pageId: id, source: "page", revision });
+      return tx.page.findUnique({ where: { id }, include: pageInclude });
+    });
+  } catch (error) {
+    console.error("Failed to update page vector flag in database", error);
+    throw error;
+  }
+}
+
+/**
+ * Publishes scheduled pages whose publish time has passed and records a revision for each.
+ * @param now - Reference time, defaults to the current time.
+ * @returns The IDs of the published pages.
+ */
+export async function publishDueScheduledPages(
+  now = new Date()
+): Promise<string[]> {
+  try {
+    return await prisma.$transaction(async (tx) => {
+      const due = await tx.page.findMany({
+        where: { status: "scheduled", publishAt: { lte: now } },
+        select: { id: true },
+      });
+      const ids = due.map((page) => page.id);
+      if (ids.length === 0) return ids;
+
+      await tx.page.updateMany({
+        where: { id: { in: ids } },
+        data: { status: "published", isPublished: true, publishAt: null },
+      });
+
+      for (const pageId of ids) {
+        await recordPageRevision(tx, {
+          pageId,
+          source: "schedule",
+          revision: { note: "Published on schedule" },
+        });
+      }
+
+      return ids;
+    }, MENU_TRANSACTION_OPTIONS);
+  } catch (error) {
+    console.error("Failed to publish scheduled pages in database", error);
+    throw error;
+  }
+}
+
+/**
+ * Retrieves a section by its ID.
+ * @param id - The ID of the section.
+ * @returns The section or null if not found.
+ */
+export async function getSectionById({
+  id,
+}: {
+  id: string;
+}): Promise<PageSection | null> {
+  try {
+    return await prisma.pageSection.findUnique({ where: { id } });
+  } catch (error) {
+    console.error("Failed to get section by id from database", error);
+    throw error;
+  }
+}
+
+/**
+ * Creates a section on a page.
+ * @param pageId - The ID of the page.
+ * @param data - Section content and position.
+ * @param revision - Author and change note.
+ * @returns The created section.
+ */
+export async function createSection({
+  pageId,
+  data,
+  revision,
+}: {
+  pageId: string;
+  data: SectionInput;
+  revision?: RevisionContext;
+}): Promise<PageSection> {
+  try {
+    return await prisma.$transaction(async (tx) => {
+      const section = await tx.pageSection.create({
+        data: { ...data, pageId },
+      });
+      await recordPageRevision(tx, { pageId, source: "section", revision });
+      return section;
+    });
+  } catch (error) {
+    console.error("Failed to create section in database", error);
+    throw error;
+  }
+}
+
+/**
+ * Updates a section.
+ * @param id - The ID of the section.
+ * @param data - Fields to change.
+ * @param revision - Author and change note.
+ * @returns The updated section.
+ */
+export async function updateSection({
+  id,
+  data,
+  revision,
+}: {
+  id: string;
+  data: Partial<SectionInput>;
+  revision?: RevisionContext;
+}): Promise<PageSection> {
+  try {
+    return await prisma.$transaction(async (tx) => {
+      const section = await tx.pageSection.update({ where: { id }, data });
+      await recordPageRevision(tx, {
+        pageId: section.pageId,
+        source: "section",
+        revision,
+      });
+      return section;
+    });
+  } catch (error) {
+    console.error("Failed to update section in database", error);
+    throw error;
+  }
+}
+
+/**
+ * Deletes a section.
+ * @param id - The ID of the section.
+ * @param revision - Author and change note.
+ * @returns The deleted section.
+ */
+export async function deleteSection({
+  id,
+  revision,
+}: {
+  id: string;
+  revision?: RevisionContext;
+}): Promise<PageSection> {
+  try {
+    return await prisma.$transaction(async (tx) => {
+      const section = await tx.pageSection.delete({ where: { id } });
+      await recordPageRevision(tx, {
+        pageId: section.pageId,
+        source: "section",
+        revision,
+      });
+      return section;
+    });
+  } catch (error) {
+    console.error("Failed to delete section from database", error);
+    throw error;
+  }
+}
@@ -0,0 +1,176 @@
+// @/app/@right/(_service)/(_db-queries)/revision/queries.ts
+
+import { prisma } from "@/lib/db";
+import type {
+  PageRevision,
+  PageRevisionSource,
+  Prisma,
+  User,
+} from "@prisma/client";
+import {
+  pageRowToPageData,
+  sectionRowToExtendedSection,
+} from "../../(_libs)/content-mappers";
+
+type TransactionClient = Prisma.TransactionClient;
+
+/**
+ * Who saved a page and why; passed through every content write.
+ */
+export interface RevisionContext {
+  authorId?: string | null;
+  note?: string | null;
+}
+
+export type RevisionAuthor = Pick<User, "id" | "name" | "email">;
+
+export type PageRevisionWithAuthor = PageRevision & {
+  author: RevisionAuthor | null;
+};
+
+export type PageRevisionSummary = Omit<
+  PageRevisionWithAuthor,
+  "pageData" | "sections"
+>;
+
+const authorSelect = {
+  select: { id: true, name: true, email: true },
+} satisfies Prisma.PageRevision$authorArgs;
+
+// Drops undefined values the same way the JSONB column does
+function toJson(value: unknown): Prisma.InputJsonValue {
+  return JSON.parse(JSON.stringify(value));
+}
+
+// JSONB does not keep key order, so snapshots are compared with sorted keys
+function stableStringify(value: unknown): string {
+  if (Array.isArray(value)) {
+    return `[${value.map(stableStringify).join(",")}]`;
+  }
+  if (value && typeof value === "object") {
+    return `{${Object.keys(value)
+      .sort()
+      .map(
+        (key) =>
+          `${JSON.stringify(key)}:${stableStringify(
+            (value as Record<string, unknown>)[key]
+          )}`
+      )
+      .join(",")}}`;
+  }
+  return JSON.stringify(value);
+}
+
+/**
+ * Stores the current state of a page as its next revision.
+ * Nothing is written when the page did not change since the last revision.
+ * @param tx - Transaction of the save that produced this state.
+ * @param pageId - The ID of the page.
+ * @param source - Which editor saved the page.
+ * @param revision - Author and change note.
+ * @returns The created revision or null when skipped.
+ */
+export async function recordPageRevision(
+  tx: TransactionClient,
+  {
+    pageId,
+    source,
+    revision = {},
+  }: {
+    pageId: string;
+    source: PageRevisionSource;
+    revision?: RevisionContext;
+  }
+): Promise<PageRevision | null> {
+  const page = await tx.page.findUnique({
+    where: { id: pageId },
+    include: { sections: { orderBy: { order: "asc" } } },
+  });
+  if (!page) return null;
+
+  const pageData = toJson(pageRowToPageData(page));
+  const sections = toJson(page.sections.map(sectionRowToExtendedSection));
+
+  const latest = await tx.pageRevision.findFirst({
+    where: { pageId },
+    orderBy: { version: "desc" },
+  });
+
+  if (
+    latest &&
+    latest.categoryId === page.categoryId &&
+    stableStringify(latest.pageData) === stableStringify(pageData) &&
+    stableStringify(latest.sections) === stableStringify(sections)
+  ) {
+    return null;
+  }
+
+  return tx.pageRevision.create({
+    data: {
+      pageId,
+      version: (latest?.version ?? 0) + 1,
+      categoryId: page.categoryId,
+      pageData,
+      sections,
+      source,
+      note: revision.note?.trim() || null,
+      authorId: revision.authorId ?? null,
+    },
+  });
+}
+
+/**
+ * Retrieves the revision list of a page without snapshots.
+ * @param pageId - The ID of the page.
+ * @returns Revisions, newest first.
+ */
+export async function getPageRevisions({
+  pageId,
+}: {
+  pageId: string;
+}): Promise<PageRevisionSummary[]> {
+  try {
+    return await prisma.pageRevision.findMany({
+      where: { pageId },
+      orderBy: { version: "desc" },
+      omit: { pageData: true, sections: true },
+      include: { author: authorSelect },
+    });
+  } catch (error) {
+    console.error("Failed to get page revisions from database", error);
+    throw error;
+  }
+}
+
+/**
+ * Retrieves a revision with its snapshot and the revision it replaced.
+ * @param id - The ID of the revision.
+ * @returns The revision and its predecessor (null for the first version), or null if not found.
+ */
+export async function getPageRevisionWithPrevious({
+  id,
+}: {
+  id: string;
+}): Promise<{
+  revision: PageRevisionWithAuthor;
+  previous: PageRevisionWithAuthor | null;
+} | null> {
+  try {
+    const revision = await prisma.pageRevision.findUnique({
+      where: { id },
+      include: { author: authorSelect },
+    });
+    if (!revision) return null;
+
+    const previous = await prisma.pageRevision.findFirst({
+      where: { pageId: revision.pageId, version: { lt: revision.version } },
+      orderBy: { version: "desc" },
+      include: { author: authorSelect },
+    });
+
+    return { revision, previous };
+  } catch (error) {
+    console.error("Failed to get page revision from database", error);
+    throw error;
+  }
+}
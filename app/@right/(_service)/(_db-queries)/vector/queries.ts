@@ -0,0 +1,366 @@
+// @/app/@right/(_service)/(_db-queries)/vector/queries.ts
+
+import { prisma } from "@/lib/db";
+import {
+  Prisma,
+  type PageChunk,
+  type PageVectorIndex,
+  type UserType,
+} from "@prisma/client";
+import type { PageWithSections } from "../../(_libs)/content-mappers";
+import type { PageChunkInput } from "../../(_libs)/vector-store/types";
+
+export type PageVectorIndexData = Omit<
+  Prisma.PageVectorIndexUncheckedCreateInput,
+  "pageId" | "updatedAt"
+>;
+
+export type EmbeddedChunk = PageChunkInput & {
+  embedding: number[];
+  terms: string[];
+};
+
+export type ChunkCandidate = Pick<
+  PageChunk,
+  "id" | "pageId" | "sectionId" | "heading" | "content" | "terms" | "tokenCount"
+> & { similarity: number };
+
+/**
+ * Corpus statistics BM25 needs for the query terms.
+ */
+export interface ChunkCorpusStats {
+  documentCount: number;
+  averageLength: number;
+  documentFrequency: Map<string, number>;
+}
+
+// pgvector accepts the text form "[1,2,3]"
+const toVectorLiteral = (embedding: number[]) => `[${embedding.join(",")}]`;
+
+/**
+ * Retrieves the vector store entry of a page.
+ * @param pageId - The ID of the page.
+ * @returns The entry or null if the page was never synced.
+ */
+export async function getPageVectorIndex({
+  pageId,
+}: {
+  pageId: string;
+}): Promise<PageVectorIndex | null> {
+  try {
+    return await prisma.pageVectorIndex.findUnique({ where: { pageId } });
+  } catch (error) {
+    console.error("Failed to get page vector index from database", error);
+    throw error;
+  }
+}
+
+/**
+ * Creates or replaces the vector store entry of a page.
+ * @param pageId - The ID of the page.
+ * @param data - Backend, sync status and counters.
+ * @returns The saved entry.
+ */
+export async function savePageVectorIndex({
+  pageId,
+  data,
+}: {
+  pageId: string;
+  data: PageVectorIndexData;
+}): Promise<PageVectorIndex> {
+  try {
+    return await prisma.pageVectorIndex.upsert({
+      where: { pageId },
+      create: { pageId, ...data },
+      update: data,
+    });
+  } catch (error) {
+    console.error("Failed to save page vector index in database", error);
+    throw error;
+  }
+}
+
+/**
+ * Removes the vector store entry of a page.
+ * @param pageId - The ID of the page.
+ */
+export async function deletePageVectorIndex({
+  pageId,
+}: {
+  pageId: string;
+}): Promise<void> {
+  try {
+    await prisma.pageVectorIndex.deleteMany({ where: { pageId } });
+  } catch (error) {
+    console.error("Failed to delete page vector index from database", error);
+    throw error;
+  }
+}
+
+/**
+ * Replaces the indexed chunks of a page (local and pgvector backends).
+ * @param pageId - The ID of the page.
+ * @param embeddingModel - Model that produced the embeddings.
+ * @param chunks - Chunks with their embeddings.
+ */
+export async function replacePageChunks({
+  pageId,
+  embeddingModel,
+  chunks,
+}: {
+  pageId: string;
+  embeddingModel: string;
+  chunks: EmbeddedChunk[];
+}): Promise<void> {
+  try {
+    await prisma.$transaction([
+      prisma.pageChunk.deleteMany({ where: { pageId } }),
+      prisma.pageChunk.createMany({
+        data: chunks.map((chunk) => ({
+          pageId,
+          index: chunk.index,
+          sectionId: chunk.sectionId ?? null,
+          heading: chunk.heading,
+          content: chunk.content,
+          embeddingModel,
+          embedding: chunk.embedding,
+          terms: chunk.terms,
+          tokenCount: chunk.terms.length,
+        })),
+      }),
+    ]);
+  } catch (error) {
+    console.error("Failed to replace page chunks in database", error);
+    throw error;
+  }
+}
+
+/**
+ * Copies the embeddings of a page's chunks into the pgvector column.
+ * @param pageId - The ID of the page.
+ */
+export async function setPageChunkVectors({
+  pageId,
+}: {
+  pageId: string;
+}): Promise<void> {
+  try {
+    await prisma.$executeRaw`
+      UPDATE "PageChunk"
+      SET "embeddingVector" = "embedding"::vector
+      WHERE "pageId" = ${pageId}`;
+  } catch (error) {
+    console.error("Failed to set page chunk vectors in database", error);
+    throw error;
+  }
+}
+
+/**
+ * Collects hybrid search candidates: the nearest chunks by vector distance
+ * plus the chunks sharing the most terms with the query.
+ * @param embeddingModel - Only chunks comparable with the query embedding.
+ * @param embedding - Query embedding.
+ * @param terms - Query terms.
+ * @param limit - Candidates taken from each side.
+ * @param pageIds - Only chunks of these pages; omitted — all pages.
+ * @returns Candidates with their cosine similarity to the query.
+ */
+export async function getPageChunkCandidates({
+  embeddingModel,
+  embedding,
+  terms,
+  limit,
+  pageIds,
+}: {
+  embeddingModel: string;
+  embedding: number[];
+  terms: string[];
+  limit: number;
+  pageIds?: string[];
+}): Promise<ChunkCandidate[]> {
+  const vector = toVectorLiteral(embedding);
+  const pageFilter = pageIds
+    ? Prisma.sql`AND "pageId" = ANY(${pageIds}::text[])`
+    : Prisma.empty;
+
+  try {
+    return await prisma.$queryRaw<ChunkCandidate[]>`
+      WITH vector_hits AS (
+        SELECT "id" FROM "PageChunk"
+        WHERE "embeddingModel" = ${embeddingModel}
+          AND "embeddingVector" IS NOT NULL
+          ${pageFilter}
+        ORDER BY "embeddingVector" <=> ${vector}::vector
+        LIMIT ${limit}
+      ),
+      keyword_hits AS (
+        SELECT "id" FROM "PageChunk"
+        WHERE "embeddingModel" = ${embeddingModel}
+          AND "terms" && ${terms}::text[]
+          ${pageFilter}
+        ORDER BY cardinality(ARRAY(
+          SELECT unnest("terms") INTERSECT SELECT unnest(${terms}::text[])
+        )) DESC
+        LIMIT ${limit}
+      )
+      SELECT c."id", c."pageId", c."sectionId", c."heading", c."content",
+        c."terms", c."tokenCount",
+        COALESCE(1 - (c."embeddingVector" <=> ${vector}::vector), 0)::float
+          AS "similarity"
+      FROM "PageChunk" c
+      WHERE c."id" IN (
+        SELECT "id" FROM vector_hits UNION SELECT "id" FROM keyword_hits
+      )`;
+  } catch (error) {
+    console.error("Failed to get page chunk candidates from database", error);
+    throw error;
+  }
+}
+
+/**
+ * Counts the chunks, their average length and how many contain each term.
+ * @param embeddingModel - Corpus of chunks embedded with this model.
+ * @param terms - Query terms.
+ * @returns Corpus statistics for BM25.
+ */
+export async function getChunkCorpusStats({
+  embeddingModel,
+  terms,
+}: {
+  embeddingModel: string;
+  terms: string[];
+}): Promise<ChunkCorpusStats> {
+  try {
+    const [[totals], frequencies] = await Promise.all([
+      prisma.$queryRaw<{ documentCount: number; averageLength: number }[]>`
+        SELECT count(*)::int AS "documentCount",
+          COALESCE(avg("tokenCount"), 0)::float AS "averageLength"
+        FROM "PageChunk"
+        WHERE "embeddingModel" = ${embeddingModel}`,
+      terms.length === 0
+        ? Promise.resolve([])
+        : prisma.$queryRaw<{ term: string; frequency: number }[]>`
+            SELECT t.term, count(c."id")::int AS "frequency"
+            FROM unnest(${terms}::text[]) AS t(term)
+            LEFT JOIN "PageChunk" c
+              ON c."embeddingModel" = ${embeddingModel}
+              AND c."terms" @> ARRAY[t.term]
+            GROUP BY t.term`,
+    ]);
+
+    return {
+      documentCount: totals?.documentCount ?? 0,
+      averageLength: totals?.averageLength ?? 0,
+      documentFrequency: new Map(
+        frequencies.map(({ term, frequency }) => [term, frequency])
+      ),
+    };
+  } catch (error) {
+    console.error("Failed to get chunk corpus stats from database", error);
+    throw error;
+  }
+}
+
+/**
+ * Removes the indexed chunks of a page.
+ * @param pageId - The ID of the page.
+ */
+export async function deletePageChunks({
+  pageId,
+}: {
+  pageId: string;
+}): Promise<void> {
+  try {
+    await prisma.pageChunk.deleteMany({ where: { pageId } });
+  } catch (error) {
+    console.error("Failed to delete page chunks from database", error);
+    throw error;
+  }
+}
+
+/**
+ * Retrieves every indexed chunk embedded with a model.
+ * @param embeddingModel - Only chunks comparable with this model's vectors.
+ * @returns The chunks.
+ */
+export async function getPageChunks({
+  embeddingModel,
+}: {
+  embeddingModel: string;
+}): Promise<PageChunk[]> {
+  try {
+    return await prisma.pageChunk.findMany({ where: { embeddingModel } });
+  } catch (error) {
+    console.error("Failed to get page chunks from database", error);
+    throw error;
+  }
+}
+
+/**
+ * Compares the "Vector store" flags of pages with the vector store entries.
+ * @returns Connected pages with their entry (null when never synced), and
+ * entries of pages that were disconnected or deleted.
+ */
+export async function getVectorIndexDrift(): Promise<{
+  connectedPages: { page: PageWithSections; entry: PageVectorIndex | null }[];
+  entriesToRemove: PageVectorIndex[];
+}> {
+  try {
+    const [pages, entries] = await Promise.all([
+      prisma.page.findMany({
+        where: { isVectorConnected: true },
+        include: { sections: { orderBy: { order: "asc" } } },
+      }),
+      prisma.pageVectorIndex.findMany(),
+    ]);
+
+    const connectedIds = new Set(pages.map((page) => page.id));
+    const entriesByPageId = new Map(
+      entries.map((entry) => [entry.pageId, entry])
+    );
+
+    return {
+      connectedPages: pages.map((page) => ({
+        page,
+        entry: entriesByPageId.get(page.id) ?? null,
+      })),
+      entriesToRemove: entries.filter(
+        (entry) => !connectedIds.has(entry.pageId)
+      ),
+    };
+  } catch (error) {
+    console.error("Failed to compare vector index with pages", error);
+    throw error;
+  }
+}
+
+/**
+ * Retrieves the IDs of connected pages a role may find in vector search:
+ * live ones (published, or scheduled and due) that list the role.
+ * @param userType - The role of the searching user.
+ * @returns A list of page IDs.
+ */
+export async function getSearchablePageIds({
+  userType,
+}: {
+  userType: UserType;
+}): Promise<string[]> {
+  try {
+    const pages = await prisma.page.findMany({
+      where: {
+        isVectorConnected: true,
+        roles: { has: userType },
+        OR: [
+          { status: "published" },
+          { status: "scheduled", publishAt: { lte: new Date() } },
+        ],
+      },
+      select: { id: true },
+    });
+
+    return pages.map((page) => page.id);
+  } catch (error) {
+    console.error("Failed to get searchable page ids from database", error);
+    throw error;
+  }
+}
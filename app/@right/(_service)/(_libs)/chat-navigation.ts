@@ -0,0 +1,147 @@
+// @/app/@right/(_service)/(_libs)/chat-navigation.ts
+
+import type { UserType } from "@prisma/client";
+import { contentData } from "@/config/content/content-data";
+import type { MenuCategory } from "../(_types)/menu-types";
+import type { PageData } from "../(_types)/page-types";
+import {
+  getMenuCategories,
+  hasMenuContent,
+} from "../(_db-queries)/content/queries";
+import { tokenize } from "./vector-store/embeddings";
+
+/**
+ * A page the chat may open in the right-hand panel.
+ */
+export interface ChatNavigationTarget {
+  id: string;
+  title: string;
+  href: string;
+  category: string;
+  description?: string;
+  keywords: string[];
+  sections: { id: string; summary?: string }[];
+}
+
+/**
+ * Payload of the "navigate" data-stream event.
+ */
+export interface ChatNavigationEvent {
+  href: string;
+  sectionId: string | null;
+}
+
+/**
+ * Whether the chat may offer a page: it must be marked "Chat synchronized",
+ * be visible in the public menu for the user's role and have an href.
+ */
+export function isChatNavigable(page: PageData, userType: UserType): boolean {
+  return (
+    page.isChatSynchronized &&
+    page.isPublished &&
+    page.roles.includes(userType) &&
+    !!page.href
+  );
+}
+
+/**
+ * Chat-synchronized pages of the menu visible to a role.
+ */
+export function getChatNavigationTargets(
+  categories: MenuCategory[],
+  userType: UserType
+): ChatNavigationTarget[] {
+  return categories.flatMap((category) =>
+    category.pages
+      .filter((page) => isChatNavigable(page, userType))
+      .map((page) => ({
+        id: page.id,
+        title: page.title || page.linkName,
+        href: page.href as string,
+        category: category.title,
+        description: page.description,
+        keywords: page.keywords ?? [],
+        sections: (page.sections ?? []).map((section) => ({
+          id: section.id,
+          summary: section.summary?.selfSummary,
+        })),
+      }))
+  );
+}
+
+/**
+ * Loads the menu the same way GET /api/menu does (database, or content-data.ts
+ * until it is imported) and keeps the pages the chat may open for the role.
+ */
+export async function loadChatNavigationTargets(
+  userType: UserType
+): Promise<ChatNavigationTarget[]> {
+  const categories = (await hasMenuContent())
+    ? await getMenuCategories()
+    : contentData.categories;
+
+  return getChatNavigationTargets(categories, userType);
+}
+
+function overlap(queryTerms: Set<string>, text: string): number {
+  return tokenize(text).filter((term) => queryTerms.has(term)).length;
+}
+
+/**
+ * Picks the page (and section) that best matches the user's intent.
+ * An exact href wins; otherwise pages are ranked by shared words with their
+ * title, keywords, href and description. The section is picked the same way
+ * from section ids and summaries.
+ * @returns The target or null when nothing matches.
+ */
+export function resolveChatNavigationTarget(
+  targets: ChatNavigationTarget[],
+  {
+    query,
+    href,
+    sectionId,
+  }: { query: string; href?: string; sectionId?: string }
+): { target: ChatNavigationTarget; sectionId?: string } | null {
+  const queryTerms = new Set(tokenize(query));
+
+  const pickSection = (target: ChatNavigationTarget) => {
+    if (sectionId && target.sections.some((s) => s.id === sectionId)) {
+      return sectionId;
+    }
+
+    let best: { id: string; score: number } | undefined;
+    for (const section of target.sections) {
+      const score = overlap(
+        queryTerms,
+        `${section.id.replace(/[-_]/g, " ")} ${section.summary ?? ""}`
+      );
+      if (score > 0 && score > (best?.score ?? 0)) {
+        best = { id: section.id, score };
+      }
+    }
+    return best?.id;
+  };
+
+  const exact = href
+    ? targets.find((target) => target.href.toLowerCase() === href.toLowerCase())
+    : undefined;
+  if (exact) return { target: exact, sectionId: pickSection(exact) };
+
+  let best: { target: ChatNavigationTarget; score: number } | undefined;
+  for (const target of targets) {
+    // Title and keywords weigh more than the description
+    const score =
+      2 * overlap(queryTerms, `${target.title} ${target.keywords.join(" ")}`) +
+      overlap(
+        queryTerms,
+        `${target.href.replace(/[/-]/g, " ")} ${target.description ?? ""}`
+      );
+    if (score > 0 && score > (best?.score ?? 0)) {
+      best = { target, score };
+    }
+  }
+
+  return best
+    ? { target: best.target, sectionId: pickSection(best.target) }
+    : null;
+}
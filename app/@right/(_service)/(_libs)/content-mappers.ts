@@ -0,0 +1,249 @@
+// @/app/@right/(_service)/(_libs)/content-mappers.ts
+
+import {
+  Prisma,
+  type Page,
+  type PageCategory,
+  type PageSection,
+} from "@prisma/client";
+import type { MenuCategory } from "../(_types)/menu-types";
+import type { PageData, PageType, SectionInfo } from "../(_types)/page-types";
+import type {
+  PageConfig,
+  SectionConfig,
+  SectionType,
+} from "../(_types)/page-wrapper-types";
+import type { ExtendedSection } from "../(_types)/section-types";
+import type { BadgeName } from "../(_config)/badge-config";
+import { getPageStatus } from "./page-workflow";
+
+export type PageWithSections = Page & { sections: PageSection[] };
+export type CategoryWithPages = PageCategory & { pages: PageWithSections[] };
+
+// PageData fields stored in dedicated columns; everything else goes to Page.menuData
+const PAGE_COLUMN_FIELDS = [
+  "id",
+  "linkName",
+  "title",
+  "description",
+  "href",
+  "roles",
+  "order",
+  "status",
+  "publishAt",
+  "isPublished",
+  "isVectorConnected",
+  "isAddedToPrompt",
+  "isChatSynchronized",
+  "hasBadge",
+  "badgeName",
+  "badgeLink",
+  "type",
+  "design",
+  "sections",
+] as const;
+
+// PageSection columns holding rendered content (everything PageHtmlTransformer reads)
+const SECTION_CONTENT_FIELDS = [
+  "type",
+  "className",
+  "summary",
+  "headerContent",
+  "bodyContent",
+  "footerContent",
+  "videoUrl",
+  "imageUrl",
+  "sectionClassName",
+  "contentWrapperClassName",
+  "customComponentsAnyTypeData",
+] as const;
+
+const SECTION_JSON_FIELDS = [
+  "headerContent",
+  "bodyContent",
+  "footerContent",
+  "customComponentsAnyTypeData",
+] as const;
+
+// Same as the PageSection.type column default
+const DEFAULT_SECTION_TYPE = "text-block-section";
+
+export type SectionContentData = Pick<
+  Prisma.PageSectionUncheckedCreateInput,
+  (typeof SECTION_CONTENT_FIELDS)[number]
+>;
+
+export function hrefToSlug(href: string | null | undefined): string[] {
+  return (href ?? "")
+    .split("/")
+    .filter(Boolean)
+    .map((segment) => segment.toLowerCase());
+}
+
+// null columns must not appear as keys in PageData, the exporter writes what it gets
+function withoutNulls<T extends Record<string, unknown>>(value: T): T {
+  return Object.fromEntries(
+    Object.entries(value).filter(([, v]) => v !== null && v !== undefined)
+  ) as T;
+}
+
+export function pageDataToPageRow(
+  page: PageData,
+  categoryId: string | null
+): Prisma.PageUncheckedCreateInput {
+  const menuData = Object.fromEntries(
+    Object.entries(page).filter(
+      ([key]) => !(PAGE_COLUMN_FIELDS as readonly string[]).includes(key)
+    )
+  );
+  const status = getPageStatus(page);
+
+  return {
+    id: page.id,
+    categoryId,
+    slug: hrefToSlug(page.href),
+    title: page.title ?? page.linkName,
+    description: page.description ?? "",
+    type: page.type,
+    image: page.images?.[0]?.href ?? null,
+    design: page.design ?? null,
+    linkName: page.linkName,
+    href: page.href ?? null,
+    order: page.order ?? null,
+    roles: page.roles ?? [],
+    status,
+    publishAt:
+      status === "scheduled" && page.publishAt
+        ? new Date(page.publishAt)
+        : null,
+    isPublished: status === "published",
+    isVectorConnected: page.isVectorConnected ?? false,
+    isAddedToPrompt: page.isAddedToPrompt ?? false,
+    isChatSynchronized: page.isChatSynchronized ?? false,
+    hasBadge: page.hasBadge ?? false,
+    badgeName: page.badgeName ?? null,
+    badgeLink: page.badgeLink ?? null,
+    menuData: menuData as Prisma.InputJsonObject,
+  };
+}
+
+export function sectionRowToSectionInfo(section: PageSection): SectionInfo {
+  return withoutNulls({
+    ...((section.info as Record<string, unknown> | null) ?? {}),
+    id: section.name,
+  }) as SectionInfo;
+}
+
+export function pageRowToPageData(page: PageWithSections): PageData {
+  const sections = [...page.sections]
+    .sort((a, b) => a.order - b.order)
+    .map(sectionRowToSectionInfo);
+
+  return withoutNulls({
+    id: page.id,
+    linkName: page.linkName ?? page.title,
+    href: page.href,
+    roles: page.roles,
+    hasBadge: page.hasBadge,
+    badgeName: page.badgeName as BadgeName | null,
+    badgeLink: page.badgeLink,
+    type: page.type as PageType,
+    design: page.design,
+    status: page.status,
+    publishAt: page.publishAt?.toISOString(),
+    isPublished: page.isPublished,
+    isAddedToPrompt: page.isAddedToPrompt,
+    isVectorConnected: page.isVectorConnected,
+    isChatSynchronized: page.isChatSynchronized,
+    order: page.order,
+    title: page.title,
+    description: page.description || null,
+    ...((page.menuData as Record<string, unknown> | null) ?? {}),
+    ...(sections.length > 0 ? { sections } : {}),
+  }) as PageData;
+}
+
+export function categoryRowToMenuCategory(
+  category: CategoryWithPages
+): MenuCategory {
+  return withoutNulls({
+    title: category.title,
+    pages: [...category.pages]
+      .sort((a, b) => (a.order ?? 0) - (b.order ?? 0))
+      .map(pageRowToPageData),
+    order: category.order,
+  }) as MenuCategory;
+}
+
+export function sectionRowToSectionConfig(section: PageSection): SectionConfig {
+  return withoutNulls({
+    id: section.name,
+    type: section.type as SectionType,
+    className: section.className,
+    summary: section.summary,
+    headerContent: section.headerContent,
+    bodyContent: section.bodyContent,
+    footerContent: section.footerContent,
+    videoUrl: section.videoUrl,
+    imageUrl: section.imageUrl,
+    sectionClassName: section.sectionClassName,
+    contentWrapperClassName: section.contentWrapperClassName,
+    customComponentsAnyTypeData: section.customComponentsAnyTypeData,
+  }) as unknown as SectionConfig;
+}
+
+export function sectionRowToExtendedSection(
+  section: PageSection
+): ExtendedSection {
+  return {
+    ...sectionRowToSectionConfig(section),
+    order: section.order,
+  } as unknown as ExtendedSection;
+}
+
+/**
+ * Picks the content columns from an uploaded or snapshotted section.
+ * Missing fields are cleared so the row matches the section exactly.
+ */
+export function extendedSectionToSectionContent(
+  section: ExtendedSection
+): SectionContentData {
+  const source = section as unknown as Record<string, unknown>;
+  const data: Record<string, unknown> = {};
+
+  for (const field of SECTION_CONTENT_FIELDS) {
+    const value = source[field];
+
+    if (value !== undefined && value !== null) {
+      data[field] = value;
+    } else if ((SECTION_JSON_FIELDS as readonly string[]).includes(field)) {
+      data[field] = Prisma.DbNull;
+    } else {
+      data[field] = field === "type" ? DEFAULT_SECTION_TYPE : null;
+    }
+  }
+
+  return data as SectionContentData;
+}
+
+/**
+ * Builds the PageConfig rendered by PageHtmlTransformer.
+ * Menu-only sections (no header/body content yet) are skipped.
+ */
+export function pageRowToPageConfig(page: PageWithSections): PageConfig {
+  return {
+    metadata: {
+      id: page.id,
+      title: page.title,
+      description: page.description,
+      image: page.image ?? undefined,
+      slug: page.slug,
+      type: page.type as SectionType,
+      design: page.design ?? undefined,
+    },
+    sections: [...page.sections]
+      .sort((a, b) => a.order - b.order)
+      .filter((section) => section.headerContent || section.bodyContent)
+      .map(sectionRowToSectionConfig),
+  };
+}
@@ -0,0 +1,79 @@
+// @/app/@right/(_service)/(_libs)/content-permissions.ts
+
+import { UserType } from "@prisma/client";
+import { auth } from "@/app/@left/(_public)/(_AUTH)/(_service)/(_actions)/auth";
+import type { PageData } from "../(_types)/page-types";
+import {
+  getPageStatuses,
+  getPageWorkflowStates,
+} from "../(_db-queries)/content/queries";
+import {
+  canPublishPages,
+  getPageStatusError,
+  isPageLive,
+} from "./page-workflow";
+
+const CONTENT_EDITOR_TYPES: UserType[] = [
+  UserType.architect,
+  UserType.admin,
+  UserType.editor,
+];
+
+/**
+ * Who may change menu, pages and sections in the content store.
+ */
+export function canEditContent(userType: UserType | undefined): boolean {
+  return !!userType && CONTENT_EDITOR_TYPES.includes(userType);
+}
+
+/**
+ * Returns the session when the current user may edit content, otherwise null.
+ */
+export async function getContentEditorSession() {
+  const session = await auth();
+  return session?.user && canEditContent(session.user.type) ? session : null;
+}
+
+/**
+ * Checks the workflow status of pages about to be saved against their stored status.
+ * New pages start as drafts.
+ * @returns The first error message, or null when every change is allowed.
+ */
+export async function findPageStatusError(
+  userType: UserType,
+  pages: PageData[]
+): Promise<string | null> {
+  const current = await getPageStatuses({ ids: pages.map((page) => page.id) });
+
+  for (const page of pages) {
+    const error = getPageStatusError(
+      userType,
+      current.get(page.id) ?? "draft",
+      page
+    );
+    if (error) return error;
+  }
+
+  return null;
+}
+
+/**
+ * A live page changes on the public site at once, so only publishers may
+ * change its content; editors move it back to draft through a publisher first.
+ * @param ids - Pages about to change.
+ * @param categoryId - Or every page of this category.
+ * @returns An error message, or null when the change is allowed.
+ */
+export async function findLivePageError(
+  userType: UserType,
+  pages: { ids?: string[]; categoryId?: string }
+): Promise<string | null> {
+  if (canPublishPages(userType)) return null;
+
+  const live = (await getPageWorkflowStates(pages)).find((page) =>
+    isPageLive(page)
+  );
+  return live
+    ? `"${live.title}" is live: only publishers can change it. Move it back to draft first.`
+    : null;
+}
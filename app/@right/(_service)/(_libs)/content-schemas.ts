@@ -0,0 +1,111 @@
+// @/app/@right/(_service)/(_libs)/content-schemas.ts
+
+import { PageStatus, Prisma, UserType } from "@prisma/client";
+import { z } from "zod";
+
+export const categorySchema = z.object({
+  title: z
+    .string()
+    .min(1)
+    .regex(/^[a-z0-9-]+$/, "Use lowercase letters, numbers and hyphens"),
+  order: z.number().int().nullable().optional(),
+});
+
+/**
+ * Menu PageData. Only the fields the content store relies on are checked;
+ * the rest (reports, analysis, images...) is stored as-is.
+ */
+export const pageDataSchema = z
+  .object({
+    id: z.string().min(1),
+    linkName: z.string().min(1),
+    href: z.string().startsWith("/").optional(),
+    title: z.string().optional(),
+    description: z.string().optional(),
+    roles: z.array(z.nativeEnum(UserType)),
+    type: z.string().min(1),
+    order: z.number().int().optional(),
+    status: z.nativeEnum(PageStatus).optional(),
+    publishAt: z.string().datetime({ offset: true }).optional(),
+    isPublished: z.boolean(),
+    isVectorConnected: z.boolean(),
+    isAddedToPrompt: z.boolean(),
+    isChatSynchronized: z.boolean(),
+    sections: z
+      .array(z.object({ id: z.string().min(1) }).passthrough())
+      .optional(),
+  })
+  .passthrough();
+
+/**
+ * Change note stored with the page revision a save creates.
+ */
+export const revisionNoteSchema = z.string().trim().max(500).optional();
+
+export const savePageSchema = z.object({
+  categoryId: z.string().nullable(),
+  page: pageDataSchema,
+  note: revisionNoteSchema,
+});
+
+const jsonContent = z.record(z.any()).nullable().optional();
+
+export const sectionSchema = z.object({
+  name: z.string().min(1),
+  order: z.number().int(),
+  type: z.string().min(1).optional(),
+  summary: z.string().nullable().optional(),
+  className: z.string().nullable().optional(),
+  sectionPath: z.array(z.string()).optional(),
+  headerContent: jsonContent,
+  bodyContent: jsonContent,
+  footerContent: jsonContent,
+  videoUrl: z.string().nullable().optional(),
+  imageUrl: z.string().nullable().optional(),
+  sectionClassName: z.string().nullable().optional(),
+  contentWrapperClassName: z.string().nullable().optional(),
+  customComponentsAnyTypeData: jsonContent,
+  info: jsonContent,
+});
+
+/**
+ * Splits the optional change note off a request body, so the rest can be
+ * validated as section data.
+ */
+export function splitRevisionNote(body: unknown): {
+  note: string | undefined;
+  body: unknown;
+} {
+  if (!body || typeof body !== "object" || Array.isArray(body)) {
+    return { note: undefined, body };
+  }
+
+  const { note, ...rest } = body as Record<string, unknown>;
+  const parsed = revisionNoteSchema.safeParse(note);
+  return { note: parsed.success ? parsed.data : undefined, body: rest };
+}
+
+const JSON_FIELDS = [
+  "headerContent",
+  "bodyContent",
+  "footerContent",
+  "customComponentsAnyTypeData",
+  "info",
+] as const;
+
+/**
+ * Converts parsed section input to Prisma data: JSON columns need DbNull instead of null.
+ */
+export function toSectionData<T extends Partial<z.infer<typeof sectionSchema>>>(
+  input: T
+) {
+  const data: Record<string, unknown> = { ...input };
+  for (const field of JSON_FIELDS) {
+    if (data[field] === null) data[field] = Prisma.DbNull;
+  }
+  return data as Omit<T, (typeof JSON_FIELDS)[number]> & {
+    [K in (typeof JSON_FIELDS)[number]]?:
+      | Prisma.InputJsonValue
+      | typeof Prisma.DbNull;
+  };
+}
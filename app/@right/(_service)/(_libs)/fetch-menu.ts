@@ -2,8 +2,15 @@
 
 import { MenuCategory } from "../(_types)/menu-types";
 
+/**
+ * Where the menu was loaded from: the database content store, or
+ * content-data.ts while it has not been imported yet.
+ */
+export type MenuSource = "database" | "file";
+
 export async function fetchMenuCategories(): Promise<{
   status: string;
+  source?: MenuSource;
   categories?: MenuCategory[];
   error?: string;
 }> {
@@ -21,6 +28,7 @@ export async function fetchMenuCategories(): Promise<{
     const data = await res.json();
     return {
       status: "ok",
+      source: data.source,
       categories: data.categories,
     };
   } catch (error) {
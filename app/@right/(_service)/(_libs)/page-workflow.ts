@@ -0,0 +1,117 @@
+// @/app/@right/(_service)/(_libs)/page-workflow.ts
+
+import type { PageStatus, UserType } from "@prisma/client";
+
+export const PAGE_STATUS_LABELS: Record<PageStatus, string> = {
+  draft: "Draft",
+  in_review: "In review",
+  scheduled: "Scheduled",
+  published: "Published",
+  archived: "Archived",
+};
+
+// Every status a page can move to from its current one
+const PAGE_STATUS_TRANSITIONS: Record<PageStatus, PageStatus[]> = {
+  draft: ["in_review", "scheduled", "published", "archived"],
+  in_review: ["draft", "scheduled", "published", "archived"],
+  scheduled: ["draft", "published", "archived"],
+  published: ["draft", "archived"],
+  archived: ["draft"],
+};
+
+// Editors prepare pages and submit them; publishers approve, schedule and archive
+const PUBLISHER_TYPES: UserType[] = ["architect", "admin"];
+const EDITOR_STATUSES: PageStatus[] = ["draft", "in_review"];
+
+export function canPublishPages(userType: UserType | undefined): boolean {
+  return !!userType && PUBLISHER_TYPES.includes(userType);
+}
+
+/**
+ * Whether a user may move a page from one status to another.
+ * Keeping the current status is always allowed.
+ */
+export function canChangePageStatus(
+  userType: UserType | undefined,
+  from: PageStatus,
+  to: PageStatus
+): boolean {
+  if (from === to) return true;
+  if (!PAGE_STATUS_TRANSITIONS[from].includes(to)) return false;
+  if (canPublishPages(userType)) return true;
+  return EDITOR_STATUSES.includes(from) && EDITOR_STATUSES.includes(to);
+}
+
+/**
+ * Statuses offered to the user for a page, current one first.
+ */
+export function getAvailablePageStatuses(
+  userType: UserType | undefined,
+  from: PageStatus
+): PageStatus[] {
+  return [
+    from,
+    ...PAGE_STATUS_TRANSITIONS[from].filter((to) =>
+      canChangePageStatus(userType, from, to)
+    ),
+  ];
+}
+
+/**
+ * Explains why a user may not save a page with its requested status.
+ * @returns An error message, or null when the change is allowed.
+ */
+export function getPageStatusError(
+  userType: UserType | undefined,
+  from: PageStatus,
+  page: {
+    linkName?: string;
+    status?: PageStatus;
+    isPublished?: boolean;
+    publishAt?: string;
+  }
+): string | null {
+  const to = getPageStatus(page);
+
+  if (to === "scheduled" && !page.publishAt) {
+    return `"${page.linkName}" is scheduled without a publish time`;
+  }
+
+  // A menu loaded before the publisher ran still says "scheduled"
+  const isStaleSchedule =
+    from === "published" &&
+    to === "scheduled" &&
+    new Date(page.publishAt!) <= new Date();
+
+  if (!isStaleSchedule && !canChangePageStatus(userType, from, to)) {
+    return `You cannot move "${page.linkName}" from ${PAGE_STATUS_LABELS[from]} to ${PAGE_STATUS_LABELS[to]}`;
+  }
+
+  return null;
+}
+
+/**
+ * Status of menu PageData; data saved before the workflow only has isPublished.
+ */
+export function getPageStatus(page: {
+  status?: PageStatus;
+  isPublished?: boolean;
+}): PageStatus {
+  return page.status ?? (page.isPublished ? "published" : "draft");
+}
+
+/**
+ * Whether a page is visible on the public site. Scheduled pages go live at
+ * publishAt even before the publisher job has flipped their status.
+ */
+export function isPageLive(
+  page: { status: PageStatus; publishAt: Date | null },
+  now = new Date()
+): boolean {
+  return (
+    page.status === "published" ||
+    (page.status === "scheduled" &&
+      page.publishAt !== null &&
+      page.publishAt <= now)
+  );
+}
@@ -19,7 +19,7 @@ export type PersistMenuResult = MenuPersistResponse & {
 };
 
 /**
- * Persist menu categories to the server
+ * Persist menu categories to the database content store
  * Handles both successful responses and various error states
  */
 export async function persistMenuCategories(
@@ -124,6 +124,15 @@ export function isValidationError(result: PersistMenuResult): boolean {
   );
 }
 
+/**
+ * Utility function to check if the error is database-related
+ */
+export function isDatabaseError(result: PersistMenuResult): boolean {
+  return (
+    isErrorResponse(result) && result.status === OperationStatus.DATABASE_ERROR
+  );
+}
+
 /**
  * Utility function to check if the error is network-related
  */
@@ -153,10 +162,11 @@ export function shouldRetry(result: PersistMenuResult): boolean {
       return false;
     }
 
-    // Can retry GitHub API availability issues and filesystem errors
+    // Can retry GitHub API availability issues, filesystem and database errors
     return (
       result.status === OperationStatus.GITHUB_API_ERROR ||
-      result.status === OperationStatus.FILESYSTEM_ERROR
+      result.status === OperationStatus.FILESYSTEM_ERROR ||
+      result.status === OperationStatus.DATABASE_ERROR
     );
   }
 
@@ -187,8 +197,14 @@ export function getUserFriendlyMessage(result: PersistMenuResult): string {
         return "Failed to save file in local environment";
 
       case OperationStatus.VALIDATION_ERROR:
+        if (result.errorCode === ErrorCode.STATUS_CHANGE_FORBIDDEN) {
+          return result.error;
+        }
         return "Provided data has invalid format";
 
+      case OperationStatus.DATABASE_ERROR:
+        return "Failed to save data to the database. Please try again.";
+
       default:
         return "An unknown error occurred while saving";
     }
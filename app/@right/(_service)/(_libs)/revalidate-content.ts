@@ -0,0 +1,11 @@
+// @/app/@right/(_service)/(_libs)/revalidate-content.ts
+
+import { revalidatePath } from "next/cache";
+
+/**
+ * Drops cached public pages after the content store changes.
+ * The whole tree is revalidated because pages are served from a catch-all route.
+ */
+export function revalidateContent() {
+  revalidatePath("/", "layout");
+}
@@ -0,0 +1,37 @@
+// @/app/@right/(_service)/(_libs)/section-highlight.ts
+
+const HIGHLIGHT_CLASSES = ["ring-2", "ring-primary", "ring-inset"];
+const HIGHLIGHT_DURATION_MS = 2500;
+
+/**
+ * Anchor of a page section in the right-hand panel, e.g. "/docs/intro#hero".
+ */
+export function getSectionHref(href: string, sectionId?: string): string {
+  return sectionId ? `${href}#${encodeURIComponent(sectionId)}` : href;
+}
+
+/**
+ * Scrolls a rendered page section into view and outlines it for a moment.
+ * @returns false when the section is not on the current page.
+ */
+export function highlightSection(sectionId: string): boolean {
+  const element = document.getElementById(sectionId);
+  if (!element) return false;
+
+  element.scrollIntoView({ behavior: "smooth", block: "start" });
+  element.classList.add(...HIGHLIGHT_CLASSES);
+  window.setTimeout(
+    () => element.classList.remove(...HIGHLIGHT_CLASSES),
+    HIGHLIGHT_DURATION_MS
+  );
+
+  return true;
+}
+
+/**
+ * Highlights the section named in the URL hash, if any.
+ */
+export function highlightSectionFromHash(): boolean {
+  const sectionId = decodeURIComponent(window.location.hash.slice(1));
+  return sectionId ? highlightSection(sectionId) : false;
+}
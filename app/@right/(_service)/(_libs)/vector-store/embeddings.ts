@@ -0,0 +1,97 @@
+// @/app/@right/(_service)/(_libs)/vector-store/embeddings.ts
+
+import { embedMany } from "ai";
+import { openai } from "@ai-sdk/openai";
+
+/**
+ * Hashed bag-of-words embedding computed in-process. It needs no API key,
+ * so the local index works without OpenAI; set VECTOR_EMBEDDING_MODEL to an
+ * OpenAI embedding model (e.g. text-embedding-3-small) for semantic matches.
+ */
+export const LOCAL_EMBEDDING_MODEL = "local-hash-512";
+
+const LOCAL_DIMENSIONS = 512;
+
+export function getEmbeddingModelId(): string {
+  return process.env.VECTOR_EMBEDDING_MODEL || LOCAL_EMBEDDING_MODEL;
+}
+
+/**
+ * Lowercased word tokens; shared by the hashed embedding and BM25 so both
+ * see the same terms.
+ */
+export function tokenize(text: string): string[] {
+  return text.toLowerCase().match(/[\p{L}\p{N}]+/gu) ?? [];
+}
+
+// FNV-1a, stable across processes so stored vectors stay comparable
+function hashToken(token: string): number {
+  let hash = 0x811c9dc5;
+  for (let i = 0; i < token.length; i++) {
+    hash ^= token.charCodeAt(i);
+    hash = Math.imul(hash, 0x01000193);
+  }
+  return hash >>> 0;
+}
+
+function normalize(vector: number[]): number[] {
+  const norm = Math.sqrt(vector.reduce((sum, value) => sum + value * value, 0));
+  return norm === 0 ? vector : vector.map((value) => value / norm);
+}
+
+function embedLocally(text: string): number[] {
+  const vector = new Array<number>(LOCAL_DIMENSIONS).fill(0);
+  const tokens = tokenize(text);
+
+  // Word bigrams keep a little of the word order
+  const features = [
+    ...tokens,
+    ...tokens.slice(1).map((token, i) => `${tokens[i]} ${token}`),
+  ];
+
+  for (const feature of features) {
+    const hash = hashToken(feature);
+    const sign = hash & 1 ? 1 : -1;
+    vector[hash % LOCAL_DIMENSIONS] += sign;
+  }
+
+  return normalize(
+    vector.map((value) => Math.sign(value) * Math.log1p(Math.abs(value)))
+  );
+}
+
+/**
+ * Embeds texts with the configured embedding model.
+ * @returns One vector per text, in the same order.
+ */
+export async function embedTexts(
+  texts: string[],
+  modelId = getEmbeddingModelId()
+): Promise<number[][]> {
+  if (texts.length === 0) return [];
+
+  if (modelId === LOCAL_EMBEDDING_MODEL) {
+    return texts.map(embedLocally);
+  }
+
+  const { embeddings } = await embedMany({
+    model: openai.embedding(modelId),
+    values: texts,
+  });
+  return embeddings;
+}
+
+export function cosineSimilarity(a: number[], b: number[]): number {
+  const length = Math.min(a.length, b.length);
+  let dot = 0;
+  let normA = 0;
+  let normB = 0;
+
+  for (let i = 0; i < length; i++) {
+    dot += a[i] * b[i];
+    normA += a[i] * a[i];
+    normB += b[i] * b[i];
+  }
+
+  return normA === 0 || normB === 0 ? 0 : dot / Math.sqrt(normA * normB);
+}
@@ -0,0 +1,59 @@
+// @/app/@right/(_service)/(_libs)/vector-store/hybrid-ranking.ts
+
+import type { ChunkCorpusStats } from "../../(_db-queries)/vector/queries";
+
+// Standard Okapi BM25 parameters
+const BM25_K1 = 1.2;
+const BM25_B = 0.75;
+
+// Share of the vector similarity in the hybrid score; the rest is BM25
+export const HYBRID_VECTOR_WEIGHT = 0.6;
+
+/**
+ * Okapi BM25 score of one chunk for the query terms.
+ */
+export function bm25Score(
+  queryTerms: string[],
+  chunk: { terms: string[]; tokenCount: number },
+  corpus: ChunkCorpusStats
+): number {
+  if (corpus.documentCount === 0) return 0;
+
+  const termFrequency = new Map<string, number>();
+  for (const term of chunk.terms) {
+    termFrequency.set(term, (termFrequency.get(term) ?? 0) + 1);
+  }
+
+  const lengthRatio =
+    corpus.averageLength > 0 ? chunk.tokenCount / corpus.averageLength : 1;
+
+  return queryTerms.reduce((score, term) => {
+    const tf = termFrequency.get(term) ?? 0;
+    if (tf === 0) return score;
+
+    const df = corpus.documentFrequency.get(term) ?? 0;
+    const idf = Math.log(1 + (corpus.documentCount - df + 0.5) / (df + 0.5));
+
+    return (
+      score +
+      (idf * tf * (BM25_K1 + 1)) /
+        (tf + BM25_K1 * (1 - BM25_B + BM25_B * lengthRatio))
+    );
+  }, 0);
+}
+
+/**
+ * Combines cosine similarity and BM25 into one score in [0, 1].
+ * BM25 is unbounded, so it is scaled by the best score among the candidates.
+ */
+export function hybridScores(
+  candidates: { similarity: number; bm25: number }[]
+): number[] {
+  const maxBm25 = Math.max(0, ...candidates.map((c) => c.bm25));
+
+  return candidates.map(
+    ({ similarity, bm25 }) =>
+      HYBRID_VECTOR_WEIGHT * Math.max(similarity, 0) +
+      (1 - HYBRID_VECTOR_WEIGHT) * (maxBm25 > 0 ? bm25 / maxBm25 : 0)
+  );
+}
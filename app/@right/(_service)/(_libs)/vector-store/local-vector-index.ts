@@ -0,0 +1,90 @@
+// @/app/@right/(_service)/(_libs)/vector-store/local-vector-index.ts
+
+import type { PageChunk } from "@prisma/client";
+import {
+  deletePageChunks,
+  getPageChunks,
+  replacePageChunks,
+} from "../../(_db-queries)/vector/queries";
+import {
+  cosineSimilarity,
+  embedTexts,
+  getEmbeddingModelId,
+  tokenize,
+} from "./embeddings";
+import type { VectorStoreBackend } from "./types";
+
+// Other server instances may have re-indexed pages in the meantime
+const CACHE_TTL_MS = 60_000;
+
+let cache: { model: string; chunks: PageChunk[]; loadedAt: number } | null =
+  null;
+
+async function loadChunks(model: string): Promise<PageChunk[]> {
+  if (
+    !cache ||
+    cache.model !== model ||
+    Date.now() - cache.loadedAt > CACHE_TTL_MS
+  ) {
+    cache = {
+      model,
+      chunks: await getPageChunks({ embeddingModel: model }),
+      loadedAt: Date.now(),
+    };
+  }
+  return cache.chunks;
+}
+
+/**
+ * In-process vector index: chunks and embeddings are stored in PageChunk and
+ * searched in memory by cosine similarity.
+ */
+export const localVectorIndex: VectorStoreBackend = {
+  provider: "local",
+
+  async indexPage(page, chunks) {
+    const model = getEmbeddingModelId();
+    const texts = chunks.map((chunk) => `${chunk.heading}\n${chunk.content}`);
+    const embeddings = await embedTexts(texts, model);
+
+    await replacePageChunks({
+      pageId: page.id,
+      embeddingModel: model,
+      chunks: chunks.map((chunk, i) => ({
+        ...chunk,
+        embedding: embeddings[i],
+        terms: tokenize(texts[i]),
+      })),
+    });
+    cache = null;
+
+    return { chunkCount: chunks.length };
+  },
+
+  async removePage(pageId) {
+    await deletePageChunks({ pageId });
+    cache = null;
+  },
+
+  async search(query, limit, pageIds) {
+    const model = getEmbeddingModelId();
+    const [chunks, [queryEmbedding]] = await Promise.all([
+      loadChunks(model),
+      embedTexts([query], model),
+    ]);
+
+    return chunks
+      .filter((chunk) => !pageIds || pageIds.includes(chunk.pageId))
+      .map((chunk) => ({
+        id: chunk.id,
+        pageId: chunk.pageId,
+        sectionId: chunk.sectionId ?? undefined,
+        heading: chunk.heading,
+        content: chunk.content,
+        score: cosineSimilarity(queryEmbedding, chunk.embedding),
+      }))
+      .filter((result) => result.score > 0)
+      .sort((a, b) => b.score - a.score)
+      .slice(0, limit);
+  },
+};
@@ -0,0 +1,98 @@
+// @/app/@right/(_service)/(_libs)/vector-store/openai-vector-store.ts
+
+import { OpenAI, toFile } from "openai";
+import { chunksToDocument } from "./page-chunks";
+import type { VectorSearchResult, VectorStoreBackend } from "./types";
+
+function getVectorStoreId(): string {
+  const vectorStoreId = process.env.OPENAI_API_VECTOR_STORE_ID;
+  if (!vectorStoreId) {
+    throw new Error("OPENAI_API_VECTOR_STORE_ID is not configured");
+  }
+  return vectorStoreId;
+}
+
+// A page is one file; deleting it from the store and from Files frees the storage
+async function deleteFile(openai: OpenAI, fileId: string): Promise<void> {
+  await openai.vectorStores.files
+    .del(getVectorStoreId(), fileId)
+    .catch((error) => console.warn("Vector store file already gone:", error));
+  await openai.files
+    .del(fileId)
+    .catch((error) => console.warn("OpenAI file already gone:", error));
+}
+
+/**
+ * OpenAI vector store (OPENAI_API_VECTOR_STORE_ID): each page is uploaded as
+ * one markdown file and chunked by OpenAI.
+ */
+export const openaiVectorStore: VectorStoreBackend = {
+  provider: "openai",
+
+  async indexPage(page, chunks, previousFileId) {
+    const openai = new OpenAI();
+    const vectorStoreId = getVectorStoreId();
+
+    const file = await openai.files.create({
+      file: await toFile(
+        Buffer.from(chunksToDocument(chunks), "utf-8"),
+        `${page.id}.md`,
+        { type: "text/markdown" }
+      ),
+      purpose: "assistants",
+    });
+
+    const storeFile = await openai.vectorStores.files.createAndPoll(
+      vectorStoreId,
+      {
+        file_id: file.id,
+        attributes: { pageId: page.id, title: page.title },
+      }
+    );
+
+    if (storeFile.status !== "completed") {
+      await deleteFile(openai, file.id);
+      throw new Error(
+        storeFile.last_error?.message ?? `Vector store file ${storeFile.status}`
+      );
+    }
+
+    // The new file is live; only now drop the previous version
+    if (previousFileId && previousFileId !== file.id) {
+      await deleteFile(openai, previousFileId);
+    }
+
+    return { chunkCount: chunks.length, fileId: file.id };
+  },
+
+  async removePage(_pageId, fileId) {
+    if (!fileId) return;
+    await deleteFile(new OpenAI(), fileId);
+  },
+
+  async search(query, limit, pageIds) {
+    const openai = new OpenAI();
+    // pageId is a file attribute set on upload
+    const pageFilters = pageIds?.map((pageId) => ({
+      type: "eq" as const,
+      key: "pageId",
+      value: pageId,
+    }));
+    const response = await openai.vectorStores.search(getVectorStoreId(), {
+      query,
+      max_num_results: limit,
+      filters: pageFilters && { type: "or", filters: pageFilters },
+    });
+
+    // OpenAI does not expose chunk ids; file and rank identify a result
+    return response.data.map(
+      (result, rank): VectorSearchResult => ({
+        id: `${result.file_id}:${rank}`,
+        pageId: String(result.attributes?.pageId ?? ""),
+        heading: String(result.attributes?.title ?? result.filename),
+        content: result.content.map((part) => part.text).join("\n"),
+        score: result.score,
+      })
+    );
+  },
+};
@@ -0,0 +1,136 @@
+// @/app/@right/(_service)/(_libs)/vector-store/page-chunks.ts
+
+import type { PageWithSections } from "../content-mappers";
+import type { PageChunkInput } from "./types";
+
+// Roughly 300 tokens; long sections are split on paragraph boundaries
+const MAX_CHUNK_LENGTH = 1200;
+
+// Layout and link props of rendered sections carry no searchable text
+const SKIPPED_KEYS = new Set([
+  "className",
+  "sectionClassName",
+  "contentWrapperClassName",
+  "href",
+  "src",
+  "variant",
+  "type",
+  "key",
+  "ref",
+  "headingLevel",
+  "showBorder",
+]);
+
+/**
+ * Collects the text of a section's JSON content (configs and serialized React trees).
+ */
+function collectText(value: unknown, parts: string[] = []): string[] {
+  if (typeof value === "string") {
+    const text = value.trim();
+    if (text) parts.push(text);
+  } else if (typeof value === "number") {
+    parts.push(String(value));
+  } else if (Array.isArray(value)) {
+    value.forEach((item) => collectText(item, parts));
+  } else if (value && typeof value === "object") {
+    for (const [key, item] of Object.entries(value)) {
+      if (!SKIPPED_KEYS.has(key)) collectText(item, parts);
+    }
+  }
+  return parts;
+}
+
+/**
+ * Plain text of a section, as stored in the database or in the static page config.
+ */
+export function sectionToText(section: {
+  summary?: unknown;
+  headerContent?: unknown;
+  bodyContent?: unknown;
+  footerContent?: unknown;
+  customComponentsAnyTypeData?: unknown;
+}): string {
+  return collectText([
+    section.summary,
+    section.headerContent,
+    section.bodyContent,
+    section.footerContent,
+    section.customComponentsAnyTypeData,
+  ]).join("\n");
+}
+
+function splitText(text: string): string[] {
+  if (text.length <= MAX_CHUNK_LENGTH) return [text];
+
+  const pieces: string[] = [];
+  let current = "";
+
+  for (const paragraph of text.split(/\n+/)) {
+    if (current && current.length + paragraph.length + 1 > MAX_CHUNK_LENGTH) {
+      pieces.push(current);
+      current = "";
+    }
+    // A single paragraph longer than the limit is cut as-is
+    for (let start = 0; start < paragraph.length; start += MAX_CHUNK_LENGTH) {
+      const part = paragraph.slice(start, start + MAX_CHUNK_LENGTH);
+      current = current ? `${current}\n${part}` : part;
+      if (current.length >= MAX_CHUNK_LENGTH) {
+        pieces.push(current);
+        current = "";
+      }
+    }
+  }
+
+  if (current) pieces.push(current);
+  return pieces;
+}
+
+/**
+ * Splits a page into embeddable chunks: one for the title, description and
+ * keywords, then the text of each section.
+ */
+export function pageToChunks(page: PageWithSections): PageChunkInput[] {
+  const menuData = (page.menuData as { keywords?: string[] } | null) ?? {};
+  const keywords = menuData.keywords ?? [];
+  const chunks: PageChunkInput[] = [];
+
+  const overview = [
+    page.title,
+    page.description,
+    keywords.length > 0 ? `Keywords: ${keywords.join(", ")}` : "",
+  ]
+    .filter(Boolean)
+    .join("\n");
+
+  if (overview) {
+    chunks.push({ index: 0, heading: page.title, content: overview });
+  }
+
+  for (const section of [...page.sections].sort((a, b) => a.order - b.order)) {
+    const header = section.headerContent as { heading?: string } | null;
+    const heading = header?.heading?.trim() || section.name;
+    const text = sectionToText(section);
+
+    if (!text) continue;
+
+    for (const content of splitText(text)) {
+      chunks.push({
+        index: chunks.length,
+        sectionId: section.name,
+        heading,
+        content,
+      });
+    }
+  }
+
+  return chunks;
+}
+
+/**
+ * Plain-text document of a page for backends that chunk on their own.
+ */
+export function chunksToDocument(chunks: PageChunkInput[]): string {
+  return chunks
+    .map((chunk) => `## ${chunk.heading}\n\n${chunk.content}`)
+    .join("\n\n");
+}
@@ -0,0 +1,87 @@
+// @/app/@right/(_service)/(_libs)/vector-store/pgvector-store.ts
+
+import {
+  deletePageChunks,
+  getChunkCorpusStats,
+  getPageChunkCandidates,
+  replacePageChunks,
+  setPageChunkVectors,
+} from "../../(_db-queries)/vector/queries";
+import { embedTexts, getEmbeddingModelId, tokenize } from "./embeddings";
+import { bm25Score, hybridScores } from "./hybrid-ranking";
+import type { VectorStoreBackend } from "./types";
+
+// Candidates taken from each side (vector and keyword) before re-ranking
+const CANDIDATE_MULTIPLIER = 4;
+
+/**
+ * Self-hosted retrieval in Postgres: chunks are embedded into a pgvector
+ * column and ranked by cosine similarity combined with BM25 over their terms.
+ */
+export const pgvectorStore: VectorStoreBackend = {
+  provider: "pgvector",
+
+  async indexPage(page, chunks) {
+    const model = getEmbeddingModelId();
+    const texts = chunks.map((chunk) => `${chunk.heading}\n${chunk.content}`);
+    const embeddings = await embedTexts(texts, model);
+
+    await replacePageChunks({
+      pageId: page.id,
+      embeddingModel: model,
+      chunks: chunks.map((chunk, i) => ({
+        ...chunk,
+        embedding: embeddings[i],
+        terms: tokenize(texts[i]),
+      })),
+    });
+    await setPageChunkVectors({ pageId: page.id });
+
+    return { chunkCount: chunks.length };
+  },
+
+  async removePage(pageId) {
+    await deletePageChunks({ pageId });
+  },
+
+  async search(query, limit, pageIds) {
+    const model = getEmbeddingModelId();
+    const terms = [...new Set(tokenize(query))];
+    const [embedding] = await embedTexts([query], model);
+
+    const [candidates, corpus] = await Promise.all([
+      getPageChunkCandidates({
+        embeddingModel: model,
+        embedding,
+        terms,
+        limit: limit * CANDIDATE_MULTIPLIER,
+        pageIds,
+      }),
+      getChunkCorpusStats({ embeddingModel: model, terms }),
+    ]);
+
+    const scores = hybridScores(
+      candidates.map((candidate) => ({
+        similarity: candidate.similarity,
+        bm25: bm25Score(
+          terms,
+          { terms: candidate.terms ?? [], tokenCount: candidate.tokenCount },
+          corpus
+        ),
+      }))
+    );
+
+    return candidates
+      .map((candidate, i) => ({
+        id: candidate.id,
+        pageId: candidate.pageId,
+        sectionId: candidate.sectionId ?? undefined,
+        heading: candidate.heading,
+        content: candidate.content,
+        score: scores[i],
+      }))
+      .filter((result) => result.score > 0)
+      .sort((a, b) => b.score - a.score)
+      .slice(0, limit);
+  },
+};
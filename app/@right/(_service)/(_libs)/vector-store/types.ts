@@ -0,0 +1,51 @@
+// @/app/@right/(_service)/(_libs)/vector-store/types.ts
+
+import type { PageWithSections } from "../content-mappers";
+
+export type VectorStoreProvider = "local" | "pgvector" | "openai";
+
+/**
+ * A piece of page content small enough to embed on its own.
+ */
+export interface PageChunkInput {
+  index: number;
+  sectionId?: string;
+  heading: string;
+  content: string;
+}
+
+/**
+ * A ranked chunk; id identifies the chunk, pageId the document it came from.
+ */
+export interface VectorSearchResult {
+  id: string;
+  pageId: string;
+  sectionId?: string;
+  heading: string;
+  content: string;
+  score: number;
+}
+
+export interface IndexedPage {
+  chunkCount: number;
+  fileId?: string;
+}
+
+/**
+ * Storage behind the "Vector store" toggle of the admin menu.
+ */
+export interface VectorStoreBackend {
+  provider: VectorStoreProvider;
+  indexPage(
+    page: PageWithSections,
+    chunks: PageChunkInput[],
+    previousFileId?: string | null
+  ): Promise<IndexedPage>;
+  removePage(pageId: string, fileId?: string | null): Promise<void>;
+  /** pageIds limits the search to chunks of these pages */
+  search(
+    query: string,
+    limit: number,
+    pageIds?: string[]
+  ): Promise<VectorSearchResult[]>;
+}
@@ -0,0 +1,216 @@
+// @/app/@right/(_service)/(_libs)/vector-store/vector-sync.ts
+
+import { createHash } from "node:crypto";
+import type { PageVectorIndex, UserType } from "@prisma/client";
+import { getPageById, getPageLinks } from "../../(_db-queries)/content/queries";
+import {
+  deletePageVectorIndex,
+  getPageVectorIndex,
+  getSearchablePageIds,
+  getVectorIndexDrift,
+  savePageVectorIndex,
+} from "../../(_db-queries)/vector/queries";
+import { localVectorIndex } from "./local-vector-index";
+import { openaiVectorStore } from "./openai-vector-store";
+import { pageToChunks } from "./page-chunks";
+import { pgvectorStore } from "./pgvector-store";
+import type {
+  PageChunkInput,
+  VectorSearchResult,
+  VectorStoreBackend,
+  VectorStoreProvider,
+} from "./types";
+
+const backends: Record<VectorStoreProvider, VectorStoreBackend> = {
+  local: localVectorIndex,
+  pgvector: pgvectorStore,
+  openai: openaiVectorStore,
+};
+
+export type VectorSearchMatch = VectorSearchResult & {
+  title?: string;
+  href?: string;
+};
+
+/**
+ * VECTOR_STORE_PROVIDER picks the backend; without it the OpenAI store is
+ * used when OPENAI_API_VECTOR_STORE_ID is set, the local index otherwise.
+ * pgvector is opt-in: it needs the extension and prisma/pgvector.sql.
+ */
+export function getVectorStoreProvider(): VectorStoreProvider {
+  const provider = process.env.VECTOR_STORE_PROVIDER;
+  if (provider && provider in backends) {
+    return provider as VectorStoreProvider;
+  }
+  return process.env.OPENAI_API_VECTOR_STORE_ID ? "openai" : "local";
+}
+
+function getBackend(provider: string): VectorStoreBackend {
+  return backends[provider as VectorStoreProvider] ?? localVectorIndex;
+}
+
+function contentHash(chunks: PageChunkInput[]): string {
+  return createHash("sha256").update(JSON.stringify(chunks)).digest("hex");
+}
+
+async function removeEntry(entry: PageVectorIndex): Promise<void> {
+  await getBackend(entry.backend).removePage(entry.pageId, entry.fileId);
+  await deletePageVectorIndex({ pageId: entry.pageId });
+}
+
+/**
+ * Brings the vector store in line with a page: indexes its current content
+ * when the page is connected, removes it otherwise.
+ * Indexing errors are stored on the entry instead of being thrown.
+ * @param pageId - The ID of the page.
+ * @returns The vector store entry, or null when the page is not indexed.
+ */
+export async function syncPageVectorIndex(
+  pageId: string
+): Promise<PageVectorIndex | null> {
+  const [page, previous] = await Promise.all([
+    getPageById({ id: pageId }),
+    getPageVectorIndex({ pageId }),
+  ]);
+
+  if (!page?.isVectorConnected) {
+    if (previous) await removeEntry(previous);
+    return null;
+  }
+
+  const provider = getVectorStoreProvider();
+  const backend = getBackend(provider);
+
+  await savePageVectorIndex({
+    pageId,
+    data: {
+      backend: provider,
+      status: "syncing",
+      fileId: previous?.fileId ?? null,
+      chunkCount: previous?.chunkCount ?? 0,
+      error: null,
+      syncedAt: previous?.syncedAt ?? null,
+      contentHash: previous?.contentHash ?? null,
+    },
+  });
+
+  try {
+    const chunks = pageToChunks(page);
+    if (chunks.length === 0) {
+      throw new Error("The page has no text to index");
+    }
+
+    // After a backend switch the old copy is dropped once the new one exists
+    const sameBackend = previous?.backend === provider;
+    const indexed = await backend.indexPage(
+      page,
+      chunks,
+      sameBackend ? previous.fileId : null
+    );
+    if (previous && !sameBackend) {
+      await getBackend(previous.backend).removePage(pageId, previous.fileId);
+    }
+
+    return await savePageVectorIndex({
+      pageId,
+      data: {
+        backend: provider,
+        status: "synced",
+        fileId: indexed.fileId ?? null,
+        chunkCount: indexed.chunkCount,
+        error: null,
+        syncedAt: new Date(),
+        contentHash: contentHash(chunks),
+      },
+    });
+  } catch (error) {
+    console.error(`Failed to index page ${pageId} in vector store`, error);
+    return savePageVectorIndex({
+      pageId,
+      data: {
+        backend: provider,
+        status: "failed",
+        fileId: previous?.fileId ?? null,
+        chunkCount: previous?.chunkCount ?? 0,
+        error: error instanceof Error ? error.message : String(error),
+        syncedAt: previous?.syncedAt ?? null,
+        contentHash: previous?.contentHash ?? null,
+      },
+    });
+  }
+}
+
+/**
+ * Indexes connected pages that were never synced or whose content changed
+ * since the last sync (by content hash), and removes entries of pages that
+ * were disconnected or deleted, e.g. after the menu was saved.
+ * @returns The number of pages indexed and removed.
+ */
+export async function reconcileVectorIndex(): Promise<{
+  indexed: number;
+  removed: number;
+}> {
+  const { connectedPages, entriesToRemove } = await getVectorIndexDrift();
+  const pageIdsToIndex = connectedPages
+    .filter(
+      ({ page, entry }) =>
+        entry?.contentHash !== contentHash(pageToChunks(page))
+    )
+    .map(({ page }) => page.id);
+
+  for (const entry of entriesToRemove) {
+    try {
+      await removeEntry(entry);
+    } catch (error) {
+      console.error(
+        `Failed to remove page ${entry.pageId} from vector store`,
+        error
+      );
+    }
+  }
+  for (const pageId of pageIdsToIndex) {
+    await syncPageVectorIndex(pageId);
+  }
+
+  return { indexed: pageIdsToIndex.length, removed: entriesToRemove.length };
+}
+
+/**
+ * Searches the configured vector store. Only live pages visible to the
+ * user's role are searched, whatever is still left in the index.
+ * @param query - Natural language query.
+ * @param userType - The role of the searching user.
+ * @param limit - Maximum number of chunks.
+ * @param pageIds - Only chunks of these pages; omitted or empty — all pages.
+ * @returns Matching chunks with the title and href of their page.
+ */
+export async function searchVectorStore(
+  query: string,
+  userType: UserType,
+  limit = 5,
+  pageIds?: string[]
+): Promise<VectorSearchMatch[]> {
+  const searchableIds = await getSearchablePageIds({ userType });
+  const scope = pageIds?.length
+    ? pageIds.filter((pageId) => searchableIds.includes(pageId))
+    : searchableIds;
+  if (scope.length === 0) return [];
+
+  const results = await getBackend(getVectorStoreProvider()).search(
+    query,
+    limit,
+    scope
+  );
+  const links = await getPageLinks({
+    ids: results.map((result) => result.pageId).filter(Boolean),
+  });
+
+  return results.map((result) => {
+    const link = links.get(result.pageId);
+    return {
+      ...result,
+      title: link?.title,
+      href: link?.href ?? undefined,
+    };
+  });
+}
@@ -8,6 +8,7 @@ export enum OperationStatus {
   GITHUB_API_ERROR = "github_api_error", 
   FILESYSTEM_ERROR = "filesystem_error",
   VALIDATION_ERROR = "validation_error",
+  DATABASE_ERROR = "database_error",
   UNKNOWN_ERROR = "unknown_error"
 }
 
@@ -19,7 +20,9 @@ export enum ErrorCode {
   GITHUB_API_UNAVAILABLE = "GITHUB_API_UNAVAILABLE", 
   FILE_WRITE_FAILED = "FILE_WRITE_FAILED",
   INVALID_DATA_FORMAT = "INVALID_DATA_FORMAT",
-  NETWORK_ERROR = "NETWORK_ERROR"
+  NETWORK_ERROR = "NETWORK_ERROR",
+  DATABASE_WRITE_FAILED = "DATABASE_WRITE_FAILED",
+  STATUS_CHANGE_FORBIDDEN = "STATUS_CHANGE_FORBIDDEN"
 }
 
 /**
@@ -80,6 +83,7 @@ export const USER_MESSAGES = {
   GITHUB_ERROR: "Failed to update data on GitHub, please check your API key",
   FILESYSTEM_ERROR: "Failed to save file in local environment",
   VALIDATION_ERROR: "Provided data has invalid format",
+  DATABASE_ERROR: "Failed to save data to the database",
   UNKNOWN_ERROR: "An unknown error occurred while saving"
 } as const;
 
@@ -96,6 +100,8 @@ export function getUserMessage(status: OperationStatus): string {
       return USER_MESSAGES.FILESYSTEM_ERROR;
     case OperationStatus.VALIDATION_ERROR:
       return USER_MESSAGES.VALIDATION_ERROR;
+    case OperationStatus.DATABASE_ERROR:
+      return USER_MESSAGES.DATABASE_ERROR;
     default:
       return USER_MESSAGES.UNKNOWN_ERROR;
   }
@@ -1,7 +1,7 @@
 // @/app/app/(_service)/types/page-types.ts
 
 import { Metadata } from "next";
-import { UserType } from "@prisma/client";
+import { PageStatus, UserType } from "@prisma/client";
 import { BadgeName } from "../(_config)/badge-config";
 
 export type PageType =
@@ -429,7 +429,9 @@ export interface PageData {
   badgeName?: BadgeName;
   badgeLink?: string;
   order?: number;
-  isPublished: boolean;
+  status?: PageStatus;
+  publishAt?: string; // ISO date, set while status is "scheduled"
+  isPublished: boolean; // status === "published"
   isVectorConnected: boolean;
   isAddedToPrompt: boolean;
   isChatSynchronized: boolean;
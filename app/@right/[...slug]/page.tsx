@@ -8,24 +8,39 @@ import {
   SlugType,
 } from "@/app/@right/(_service)/(_types)/page-wrapper-types";
 import { PublicPagesConfig } from "../(_service)/(_config)/public-pages-config";
+import { pageRowToPageConfig } from "../(_service)/(_libs)/content-mappers";
+import { isPageLive } from "../(_service)/(_libs)/page-workflow";
+import {
+  getPublishedPageSlugs,
+  getStoredPageBySlug,
+} from "../(_service)/(_db-queries)/content/queries";
 
 interface Props {
   params: Promise<{ slug?: string[] }>;
 }
 
+// Pages edited in the content store are picked up without a redeploy
+export const revalidate = 60;
+
 export async function generateStaticParams() {
   const pages: PageConfig[] = getAllPublicPages();
+  const staticSlugs = pages.map((page: PageConfig) => page.metadata.slug || []);
+
+  let databaseSlugs: string[][] = [];
+  try {
+    databaseSlugs = await getPublishedPageSlugs();
+  } catch (error) {
+    console.error("Content store unavailable, using static pages only", error);
+  }
 
-  return pages.map((page: PageConfig) => ({
-    slug: page.metadata.slug || [],
-  }));
+  return [...staticSlugs, ...databaseSlugs].map((slug) => ({ slug }));
 }
 
 export async function generateMetadata({ params }: Props) {
   const resolvedParams = await params;
   const slugArr = resolvedParams.slug ?? [];
 
-  const publicPageConfig = getPageBySlug(slugArr);
+  const publicPageConfig = await resolvePageBySlug(slugArr);
 
   if (!publicPageConfig) return {};
   return constructMetadata(publicPageConfig.metadata);
@@ -35,7 +50,7 @@ export default async function PublicDynamicSlugPage({ params }: Props) {
   const resolvedParams = await params;
   const slugArr = resolvedParams.slug ?? [];
 
-  const publicPageConfig = getPageBySlug(slugArr);
+  const publicPageConfig = await resolvePageBySlug(slugArr);
 
   if (!publicPageConfig) {
     return <div>Page not found</div>;
@@ -44,6 +59,25 @@ export default async function PublicDynamicSlugPage({ params }: Props) {
   return <PageHtmlTransformer data={publicPageConfig} />;
 }
 
+// Pages from the content store win over the static config. A stored page that is
+// not live (draft, in review, scheduled, archived) hides the static one too.
+async function resolvePageBySlug(
+  slug: SlugType
+): Promise<PageConfig | undefined> {
+  if (slug.length > 0) {
+    try {
+      const page = await getStoredPageBySlug({ slug });
+      if (page) {
+        return isPageLive(page) ? pageRowToPageConfig(page) : undefined;
+      }
+    } catch (error) {
+      console.error("Content store unavailable, using static pages", error);
+    }
+  }
+
+  return getPageBySlug(slug);
+}
+
 export function getAllPublicPages(): PageConfig[] {
   return PublicPagesConfig.pages;
 }
@@ -6,6 +6,10 @@ import { apiResponse } from "@/app/integrations/lib/api/response";
 import { UpdateSessionSchema } from "../../_types/session";
 import { prisma } from "@/lib/db";
 import { createId } from "@paralleldrive/cuid2";
+import {
+  appendMessageToBranch,
+  getActiveBranchByChatId,
+} from "@/app/@left/(_public)/(_CHAT)/(chat)/(_service)/(_db-queries)/message/queries";
 
 const redis = new Redis({
   url: process.env.UPSTASH_REDIS_REST_URL!,
@@ -106,9 +110,12 @@ export async function POST(req: NextRequest) {
       }
 
       // Создаем новое сообщение в базе данных
+      // Сообщение продолжает активную ветку чата
       const messageId = createId();
-      await prisma.message.create({
-        data: {
+      const branch = await getActiveBranchByChatId(chatId);
+      await appendMessageToBranch({
+        parentId: branch.at(-1)?.id ?? null,
+        message: {
           id: messageId,
           chatId,
           role: "user",
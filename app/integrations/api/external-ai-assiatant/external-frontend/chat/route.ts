@@ -4,6 +4,7 @@ import { NextRequest, NextResponse } from "next/server";
 import { verify } from "jsonwebtoken";
 import { getNextAuthUrl } from "@/lib/utils/get-next-auth-url";
 import { generateCuid } from "@/lib/utils/generateCuid";
+import { API_SUPPORT_ASSISTANT } from "@/app/@left/(_public)/(_CHAT)/(chat)/(_service)/(_libs)/assistants";
 
 /**
  * External partner request format
@@ -28,7 +29,8 @@ interface InternalChatRequest {
       text: string;
     }>;
   };
-  selectedChatModel: string;
+  // Slug of the assistant; the chat uses its prompt, tools and default model
+  selectedAssistant: string;
   selectedVisibilityType: string;
 }
 
@@ -63,6 +65,7 @@ function addCorsHeaders(response: NextResponse) {
   );
   response.headers.set("Access-Control-Allow-Credentials", "true");
   response.headers.set("Access-Control-Max-Age", "86400");
+  response.headers.set("Access-Control-Expose-Headers", "Retry-After");
   return response;
 }
 
@@ -388,7 +391,7 @@ export async function POST(req: NextRequest) {
         },
       ],
     },
-    selectedChatModel: "api-chat-support",
+    selectedAssistant: API_SUPPORT_ASSISTANT,
     selectedVisibilityType: "private",
   };
 
@@ -417,6 +420,9 @@ export async function POST(req: NextRequest) {
         const response = NextResponse.json(errorData, {
           status: chatApiRes.status,
         });
+        // Quota errors (429) tell the client when the limit resets
+        const retryAfter = chatApiRes.headers.get("Retry-After");
+        if (retryAfter) response.headers.set("Retry-After", retryAfter);
         return addCorsHeaders(response);
       } catch (parseError) {
         console.error("Failed to parse error response:", parseError);
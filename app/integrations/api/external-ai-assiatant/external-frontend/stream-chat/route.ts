@@ -4,8 +4,10 @@ import { NextRequest, NextResponse } from "next/server";
 import { verify } from "jsonwebtoken";
 import { getNextAuthUrl } from "@/lib/utils/get-next-auth-url";
 import { generateCuid } from "@/lib/utils/generateCuid";
+import { API_SUPPORT_ASSISTANT } from "@/app/@left/(_public)/(_CHAT)/(chat)/(_service)/(_libs)/assistants";
 import { transformTextToStreamingMessage } from "@/app/integrations/lib/api/ai-text-transformer";
 import { removeAllJsonFragments } from "@/app/integrations/lib/api/json-fragment-cleaner";
+import { extractSubFromJWT } from "@/lib/utils/extract-sub-from-jwt";
 
 interface ExternalChatRequest {
   chat_id: string;
@@ -24,7 +26,8 @@ interface InternalChatRequest {
       text: string;
     }>;
   };
-  selectedChatModel: string;
+  // Slug of the assistant; the chat uses its prompt, tools and default model
+  selectedAssistant: string;
   selectedVisibilityType: string;
 }
 
@@ -65,6 +68,7 @@ function addStreamingCorsHeaders(response: Response): Response {
   );
   response.headers.set("Access-Control-Allow-Credentials", "true");
   response.headers.set("Access-Control-Max-Age", "86400");
+  response.headers.set("Access-Control-Expose-Headers", "Retry-After");
   return response;
 }
 
@@ -165,6 +169,11 @@ export async function POST(req: NextRequest) {
     return addStreamingCorsHeaders(response);
   }
 
+  const usageContext = {
+    userId: extractSubFromJWT(token),
+    chatId: externalBody.chat_id,
+  };
+
   // Transform to internal format
   const internalBody: InternalChatRequest = {
     id: externalBody.chat_id,
@@ -175,7 +184,7 @@ export async function POST(req: NextRequest) {
       content: externalBody.text,
       parts: [{ type: "text", text: externalBody.text }],
     },
-    selectedChatModel: "api-chat-support",
+    selectedAssistant: API_SUPPORT_ASSISTANT,
     selectedVisibilityType: "private",
   };
 
@@ -196,6 +205,9 @@ export async function POST(req: NextRequest) {
         const response = NextResponse.json(errorData, {
           status: chatApiRes.status,
         });
+        // Quota errors (429) tell the client when the limit resets
+        const retryAfter = chatApiRes.headers.get("Retry-After");
+        if (retryAfter) response.headers.set("Retry-After", retryAfter);
         return addStreamingCorsHeaders(response);
       } catch (parseError) {
         const response = NextResponse.json(
@@ -213,7 +225,8 @@ export async function POST(req: NextRequest) {
       const data = await chatApiRes.json();
       if (data.message && data.message.parts) {
         const transformedMessage = await transformTextToStreamingMessage(
-          JSON.stringify(data)
+          JSON.stringify(data),
+          usageContext
         );
         if (transformedMessage) {
           const encoder = new TextEncoder();
@@ -273,7 +286,10 @@ export async function POST(req: NextRequest) {
                 });
 
                 const transformedMessage =
-                  await transformTextToStreamingMessage(finalDataForAI);
+                  await transformTextToStreamingMessage(
+                    finalDataForAI,
+                    usageContext
+                  );
                 if (transformedMessage) {
                   const finalSSEMessage = createSSEMessage(transformedMessage);
                   controller.enqueue(encoder.encode(finalSSEMessage));
@@ -330,7 +346,10 @@ export async function POST(req: NextRequest) {
                 });
 
                 const transformedMessage =
-                  await transformTextToStreamingMessage(finalDataForAI);
+                  await transformTextToStreamingMessage(
+                    finalDataForAI,
+                    usageContext
+                  );
                 if (transformedMessage) {
                   const finalSSEMessage = createSSEMessage(transformedMessage);
                   controller.enqueue(encoder.encode(finalSSEMessage));
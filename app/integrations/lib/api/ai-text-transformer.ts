@@ -1,7 +1,8 @@
 // @/app/integrations/lib/api/ai-text-transformer.ts
 
-import { openai } from "@ai-sdk/openai";
 import { generateObject } from "ai";
+import { myProvider } from "@/app/@left/(_public)/(_CHAT)/(chat)/(_service)/(_libs)/ai/providers";
+import { recordTokenUsage } from "@/app/@left/(_public)/(_CHAT)/(chat)/(_service)/(_libs)/ai/usage";
 import { z } from "zod";
 import { prisma } from "@/lib/db";
 
@@ -247,7 +248,8 @@ async function resolveProductIds(parts: MessagePart[]): Promise<MessagePart[]> {
  * ОБНОВЛЕНО: Теперь автоматически находит полные product_id в базе данных для коротких идентификаторов
  */
 export async function transformTextToStreamingMessage(
-  rawTextData: string
+  rawTextData: string,
+  usageContext?: { userId?: string | null; chatId?: string | null }
 ): Promise<StreamingMessage | null> {
   try {
     const prompt = `
@@ -326,12 +328,21 @@ ${rawTextData}
 `;
 
     const result = await generateObject({
-      model: openai("gpt-4.1"),
+      model: myProvider.languageModel("api-transformer-model"),
       schema: StreamingMessageSchema,
       prompt: prompt,
       temperature: 0.1, // Низкая температура для точности
     });
 
+    await recordTokenUsage({
+      modelId: "api-transformer-model",
+      usage: result.usage,
+      source: "external_transformer",
+      chatId: usageContext?.chatId,
+      userId: usageContext?.userId,
+      userType: "apiUser",
+    });
+
     // Проверяем порядок parts после генерации AI
     const isOrderCorrect = validatePartsOrder(result.object.message.parts);
     if (!isOrderCorrect) {
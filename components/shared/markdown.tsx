@@ -123,10 +123,20 @@ const components: Partial<Components> = {
 
 const remarkPlugins = [remarkGfm];
 
-// Компонент, который рендерит Markdown с использованием вышеуказанных настроек
-const NonMemoizedMarkdown = ({ children }: { children: string }) => {
+// Компонент, который рендерит Markdown с использованием вышеуказанных настроек.
+// overrides заменяют отдельные теги (например, ссылки-сноски в ответах чата)
+const NonMemoizedMarkdown = ({
+  children,
+  overrides,
+}: {
+  children: string;
+  overrides?: Partial<Components>;
+}) => {
   return (
-    <ReactMarkdown remarkPlugins={remarkPlugins} components={components}>
+    <ReactMarkdown
+      remarkPlugins={remarkPlugins}
+      components={overrides ? { ...components, ...overrides } : components}
+    >
       {children}
     </ReactMarkdown>
   );
@@ -135,5 +145,7 @@ const NonMemoizedMarkdown = ({ children }: { children: string }) => {
 // Обертываем компонент в memo для оптимизации повторных рендеров
 export const Markdown = memo(
   NonMemoizedMarkdown,
-  (prevProps, nextProps) => prevProps.children === nextProps.children
+  (prevProps, nextProps) =>
+    prevProps.children === nextProps.children &&
+    prevProps.overrides === nextProps.overrides
 );
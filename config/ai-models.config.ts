@@ -0,0 +1,135 @@
+// @/config/ai-models.config.ts
+
+import type { AiModelDefinition } from "@/types/ai-models";
+
+const ALL_WEB_USERS: AiModelDefinition["userTypes"] = [
+  "guest",
+  "authUser",
+  "subscriber",
+  "customer",
+  "architect",
+  "admin",
+  "editor",
+];
+
+const GPT_4_1_MINI_PRICING = { inputPerMillion: 0.4, outputPerMillion: 1.6 };
+
+/**
+ * Model registry. Every model id used by the app (selector, chat route,
+ * title generation, artifact handlers) must be declared here.
+ * Add a new entry to expose a model; `userTypes` controls who can select it.
+ */
+export const aiModelsConfig: AiModelDefinition[] = [
+  {
+    id: "chat-model",
+    name: "Chat model",
+    description: "Primary model for all-purpose chat",
+    kind: "chat",
+    provider: "openai",
+    providerModelId: "gpt-4.1-mini-2025-04-14",
+    capabilities: { tools: true, reasoning: false, vision: true },
+    contextWindow: 1_047_576,
+    pricing: GPT_4_1_MINI_PRICING,
+    userTypes: [...ALL_WEB_USERS, "apiUser"],
+  },
+  {
+    id: "chat-model-reasoning",
+    name: "Reasoning model",
+    description: "Uses advanced reasoning",
+    kind: "chat",
+    provider: "openai",
+    providerModelId: "o4-mini-2025-04-16",
+    capabilities: { tools: false, reasoning: true, vision: true },
+    contextWindow: 200_000,
+    pricing: { inputPerMillion: 1.1, outputPerMillion: 4.4 },
+    userTypes: ALL_WEB_USERS,
+  },
+  {
+    id: "api-chat-support",
+    name: "Api support model",
+    description: "Support model",
+    kind: "chat",
+    provider: "openai",
+    providerModelId: "gpt-4.1-mini-2025-04-14",
+    capabilities: { tools: true, reasoning: false, vision: true },
+    contextWindow: 1_047_576,
+    pricing: GPT_4_1_MINI_PRICING,
+    userTypes: [],
+  },
+  {
+    id: "local-model",
+    name: "Local model",
+    description: "Self-hosted OpenAI-compatible endpoint",
+    kind: "chat",
+    provider: "openai-compatible",
+    providerModelId: "local-model",
+    capabilities: { tools: true, reasoning: false, vision: false },
+    contextWindow: 32_768,
+    pricing: { inputPerMillion: 0, outputPerMillion: 0 },
+    userTypes: ["architect", "admin"],
+    modelIdEnv: "LOCAL_LLM_MODEL_ID",
+    baseURLEnv: "LOCAL_LLM_BASE_URL",
+    apiKeyEnv: "LOCAL_LLM_API_KEY",
+    defaultBaseURL: "http://localhost:11434/v1",
+  },
+  {
+    id: "title-model",
+    name: "Title model",
+    description: "Generates chat titles",
+    kind: "task",
+    provider: "openai",
+    providerModelId: "gpt-4.1-mini-2025-04-14",
+    capabilities: { tools: false, reasoning: false, vision: false },
+    contextWindow: 1_047_576,
+    pricing: GPT_4_1_MINI_PRICING,
+    userTypes: [],
+  },
+  {
+    id: "artifact-model",
+    name: "Artifact model",
+    description: "Creates and updates artifacts",
+    kind: "task",
+    provider: "openai",
+    providerModelId: "gpt-4.1-mini-2025-04-14",
+    capabilities: { tools: false, reasoning: false, vision: false },
+    contextWindow: 1_047_576,
+    pricing: GPT_4_1_MINI_PRICING,
+    userTypes: [],
+  },
+  {
+    id: "memory-model",
+    name: "Memory model",
+    description: "Extracts long-term user memories from chats",
+    kind: "task",
+    provider: "openai",
+    providerModelId: "gpt-4.1-mini-2025-04-14",
+    capabilities: { tools: false, reasoning: false, vision: false },
+    contextWindow: 1_047_576,
+    pricing: GPT_4_1_MINI_PRICING,
+    userTypes: [],
+  },
+  {
+    id: "api-transformer-model",
+    name: "API transformer model",
+    description: "Structures external assistant responses",
+    kind: "task",
+    provider: "openai",
+    providerModelId: "gpt-4.1",
+    capabilities: { tools: false, reasoning: false, vision: false },
+    contextWindow: 1_047_576,
+    pricing: { inputPerMillion: 2, outputPerMillion: 8 },
+    userTypes: [],
+  },
+  {
+    id: "small-model",
+    name: "Image model",
+    description: "Generates images for image artifacts",
+    kind: "image",
+    provider: "xai",
+    providerModelId: "grok-2-image",
+    capabilities: { tools: false, reasoning: false, vision: false },
+    contextWindow: 0,
+    pricing: { inputPerMillion: 0, outputPerMillion: 0 },
+    userTypes: [],
+  },
+];
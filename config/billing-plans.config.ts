@@ -0,0 +1,42 @@
+// @/config/billing-plans.config.ts
+
+import type { BillingPlan } from "@/types/billing";
+
+/**
+ * Paid plans sold through Stripe Checkout.
+ * Price ids are referenced literally so Next.js can inline them on the client.
+ */
+export const billingPlansConfig: BillingPlan[] = [
+  {
+    id: "pro",
+    name: "Pro",
+    description: "Higher message and token limits for individual use",
+    userType: "subscriber",
+    prices: {
+      monthly: {
+        stripePriceId: process.env.NEXT_PUBLIC_STRIPE_PRO_MONTHLY_PLAN_ID,
+        amount: 15,
+      },
+      yearly: {
+        stripePriceId: process.env.NEXT_PUBLIC_STRIPE_PRO_YEARLY_PLAN_ID,
+        amount: 144,
+      },
+    },
+  },
+  {
+    id: "business",
+    name: "Business",
+    description: "Team usage with the customer limits",
+    userType: "customer",
+    prices: {
+      monthly: {
+        stripePriceId: process.env.NEXT_PUBLIC_STRIPE_BUSINESS_MONTHLY_PLAN_ID,
+        amount: 30,
+      },
+      yearly: {
+        stripePriceId: process.env.NEXT_PUBLIC_STRIPE_BUSINESS_YEARLY_PLAN_ID,
+        amount: 300,
+      },
+    },
+  },
+];
@@ -19,12 +19,25 @@ interface InteractionState {
   elementId: string | null;
 }
 
+// Фрагмент страницы из правого слота ("Ask AI about this"),
+// который прикладывается к следующему сообщению чата (как JSON-аннотация)
+export type PageSelection = {
+  pageId: string;
+  sectionId: string;
+  href: string;
+  pageTitle: string;
+  text: string;
+};
+
 // Определяет полный тип контекста
 interface AppContextType {
   // Последний элемент, с которым пользователь решил взаимодействовать
   activeInteraction: InteractionState | null;
   // Функция для вызова при клике на иконку взаимодействия
   setInteractionContext: (pageName: string, elementId: string) => void;
+  // Выделенный фрагмент страницы, ожидающий отправки в чат
+  pageSelection: PageSelection | null;
+  setPageSelection: (selection: PageSelection | null) => void;
   // Кастомная история навигации для правого слота
   navigationHistory: string[];
   // Функции для ручного управления историей
@@ -45,6 +58,9 @@ const MAX_HISTORY_LENGTH = 100;
 export const AppProvider = ({ children }: AppProviderProps) => {
   const [activeInteraction, setActiveInteraction] =
     useState<InteractionState | null>(null);
+  const [pageSelection, setPageSelection] = useState<PageSelection | null>(
+    null
+  );
 
   const [navigationHistory, setNavigationHistory] = useLocalStorage<string[]>(
     "rightSlotNavigationHistory",
@@ -108,6 +124,8 @@ export const AppProvider = ({ children }: AppProviderProps) => {
     () => ({
       activeInteraction,
       setInteractionContext,
+      pageSelection,
+      setPageSelection,
       navigationHistory,
       navigateBack,
       navigateForward,
@@ -117,6 +135,7 @@ export const AppProvider = ({ children }: AppProviderProps) => {
     [
       activeInteraction,
       setInteractionContext,
+      pageSelection,
       navigationHistory,
       currentHistoryIndex,
       navigateBack,
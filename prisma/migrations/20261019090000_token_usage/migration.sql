@@ -0,0 +1,29 @@
+-- CreateEnum
+CREATE TYPE "TokenUsageSource" AS ENUM ('chat', 'api_chat', 'title', 'artifact', 'suggestions', 'external_transformer');
+
+-- CreateTable
+CREATE TABLE "TokenUsage" (
+    "id" TEXT NOT NULL,
+    "userId" TEXT,
+    "userType" "UserType",
+    "chatId" TEXT,
+    "modelId" TEXT NOT NULL,
+    "providerModelId" TEXT NOT NULL,
+    "source" "TokenUsageSource" NOT NULL,
+    "promptTokens" INTEGER NOT NULL DEFAULT 0,
+    "completionTokens" INTEGER NOT NULL DEFAULT 0,
+    "totalTokens" INTEGER NOT NULL DEFAULT 0,
+    "cost" DOUBLE PRECISION NOT NULL DEFAULT 0,
+    "createdAt" TIMESTAMP(3) NOT NULL DEFAULT CURRENT_TIMESTAMP,
+
+    CONSTRAINT "TokenUsage_pkey" PRIMARY KEY ("id")
+);
+
+-- CreateIndex
+CREATE INDEX "TokenUsage_createdAt_idx" ON "TokenUsage"("createdAt");
+
+-- CreateIndex
+CREATE INDEX "TokenUsage_userId_createdAt_idx" ON "TokenUsage"("userId", "createdAt");
+
+-- CreateIndex
+CREATE INDEX "TokenUsage_modelId_idx" ON "TokenUsage"("modelId");
@@ -0,0 +1,41 @@
+-- CreateTable
+CREATE TABLE "PageCategory" (
+    "id" TEXT NOT NULL,
+    "title" TEXT NOT NULL,
+    "order" INTEGER,
+    "createdAt" TIMESTAMP(3) NOT NULL DEFAULT CURRENT_TIMESTAMP,
+    "updatedAt" TIMESTAMP(3) NOT NULL,
+
+    CONSTRAINT "PageCategory_pkey" PRIMARY KEY ("id")
+);
+
+-- AlterTable
+ALTER TABLE "Page" ADD COLUMN     "badgeLink" TEXT,
+ADD COLUMN     "badgeName" TEXT,
+ADD COLUMN     "categoryId" TEXT,
+ADD COLUMN     "hasBadge" BOOLEAN NOT NULL DEFAULT false,
+ADD COLUMN     "href" TEXT,
+ADD COLUMN     "isAddedToPrompt" BOOLEAN NOT NULL DEFAULT false,
+ADD COLUMN     "isChatSynchronized" BOOLEAN NOT NULL DEFAULT false,
+ADD COLUMN     "isPublished" BOOLEAN NOT NULL DEFAULT false,
+ADD COLUMN     "isVectorConnected" BOOLEAN NOT NULL DEFAULT false,
+ADD COLUMN     "linkName" TEXT,
+ADD COLUMN     "menuData" JSONB,
+ADD COLUMN     "order" INTEGER,
+ADD COLUMN     "roles" "UserType"[];
+
+-- AlterTable
+ALTER TABLE "PageSection" ADD COLUMN     "info" JSONB,
+ALTER COLUMN "type" SET DEFAULT 'text-block-section';
+
+-- CreateIndex
+CREATE UNIQUE INDEX "PageCategory_title_key" ON "PageCategory"("title");
+
+-- CreateIndex
+CREATE INDEX "Page_categoryId_idx" ON "Page"("categoryId");
+
+-- CreateIndex
+CREATE UNIQUE INDEX "PageSection_pageId_name_key" ON "PageSection"("pageId", "name");
+
+-- AddForeignKey
+ALTER TABLE "Page" ADD CONSTRAINT "Page_categoryId_fkey" FOREIGN KEY ("categoryId") REFERENCES "PageCategory"("id") ON DELETE CASCADE ON UPDATE CASCADE;
@@ -0,0 +1,24 @@
+-- CreateEnum
+CREATE TYPE "PageRevisionSource" AS ENUM ('menu', 'page', 'section', 'upload', 'rollback');
+
+-- CreateTable
+CREATE TABLE "PageRevision" (
+    "id" TEXT NOT NULL,
+    "pageId" TEXT NOT NULL,
+    "version" INTEGER NOT NULL,
+    "categoryId" TEXT,
+    "pageData" JSONB NOT NULL,
+    "sections" JSONB NOT NULL,
+    "source" "PageRevisionSource" NOT NULL,
+    "note" TEXT,
+    "authorId" TEXT,
+    "createdAt" TIMESTAMP(3) NOT NULL DEFAULT CURRENT_TIMESTAMP,
+
+    CONSTRAINT "PageRevision_pkey" PRIMARY KEY ("id")
+);
+
+-- CreateIndex
+CREATE UNIQUE INDEX "PageRevision_pageId_version_key" ON "PageRevision"("pageId", "version");
+
+-- AddForeignKey
+ALTER TABLE "PageRevision" ADD CONSTRAINT "PageRevision_authorId_fkey" FOREIGN KEY ("authorId") REFERENCES "User"("id") ON DELETE SET NULL ON UPDATE CASCADE;
@@ -0,0 +1,15 @@
+-- CreateEnum
+CREATE TYPE "PageStatus" AS ENUM ('draft', 'in_review', 'scheduled', 'published', 'archived');
+
+-- AlterEnum
+ALTER TYPE "PageRevisionSource" ADD VALUE 'schedule';
+
+-- AlterTable
+ALTER TABLE "Page" ADD COLUMN     "publishAt" TIMESTAMP(3),
+ADD COLUMN     "status" "PageStatus" NOT NULL DEFAULT 'draft';
+
+-- Existing published pages keep being published
+UPDATE "Page" SET "status" = 'published' WHERE "isPublished" = true;
+
+-- CreateIndex
+CREATE INDEX "Page_status_publishAt_idx" ON "Page"("status", "publishAt");
@@ -0,0 +1,37 @@
+-- CreateEnum
+CREATE TYPE "VectorSyncStatus" AS ENUM ('syncing', 'synced', 'failed');
+
+-- CreateTable
+CREATE TABLE "PageVectorIndex" (
+    "pageId" TEXT NOT NULL,
+    "backend" TEXT NOT NULL,
+    "status" "VectorSyncStatus" NOT NULL,
+    "fileId" TEXT,
+    "chunkCount" INTEGER NOT NULL DEFAULT 0,
+    "error" TEXT,
+    "syncedAt" TIMESTAMP(3),
+    "updatedAt" TIMESTAMP(3) NOT NULL,
+
+    CONSTRAINT "PageVectorIndex_pkey" PRIMARY KEY ("pageId")
+);
+
+-- CreateTable
+CREATE TABLE "PageChunk" (
+    "id" TEXT NOT NULL,
+    "pageId" TEXT NOT NULL,
+    "index" INTEGER NOT NULL,
+    "sectionId" TEXT,
+    "heading" TEXT NOT NULL,
+    "content" TEXT NOT NULL,
+    "embeddingModel" TEXT NOT NULL,
+    "embedding" DOUBLE PRECISION[],
+    "createdAt" TIMESTAMP(3) NOT NULL DEFAULT CURRENT_TIMESTAMP,
+
+    CONSTRAINT "PageChunk_pkey" PRIMARY KEY ("id")
+);
+
+-- CreateIndex
+CREATE UNIQUE INDEX "PageChunk_pageId_index_key" ON "PageChunk"("pageId", "index");
+
+-- CreateIndex
+CREATE INDEX "PageChunk_embeddingModel_idx" ON "PageChunk"("embeddingModel");
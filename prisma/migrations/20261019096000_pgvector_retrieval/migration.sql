@@ -0,0 +1,6 @@
+-- AlterTable
+ALTER TABLE "PageChunk" ADD COLUMN     "terms" TEXT[],
+ADD COLUMN     "tokenCount" INTEGER NOT NULL DEFAULT 0;
+
+-- CreateIndex
+CREATE INDEX "PageChunk_terms_idx" ON "PageChunk" USING GIN ("terms");
@@ -0,0 +1,19 @@
+-- CreateTable
+CREATE TABLE "ChatShare" (
+    "id" TEXT NOT NULL,
+    "chatId" TEXT NOT NULL,
+    "token" TEXT NOT NULL,
+    "createdAt" TIMESTAMP(3) NOT NULL DEFAULT CURRENT_TIMESTAMP,
+    "revokedAt" TIMESTAMP(3),
+
+    CONSTRAINT "ChatShare_pkey" PRIMARY KEY ("id")
+);
+
+-- CreateIndex
+CREATE UNIQUE INDEX "ChatShare_token_key" ON "ChatShare"("token");
+
+-- CreateIndex
+CREATE INDEX "ChatShare_chatId_idx" ON "ChatShare"("chatId");
+
+-- AddForeignKey
+ALTER TABLE "ChatShare" ADD CONSTRAINT "ChatShare_chatId_fkey" FOREIGN KEY ("chatId") REFERENCES "Chat"("id") ON DELETE CASCADE ON UPDATE NO ACTION;
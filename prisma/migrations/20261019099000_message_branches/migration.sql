@@ -0,0 +1,17 @@
+-- AlterTable
+ALTER TABLE "Chat" ADD COLUMN     "activeMessageId" TEXT;
+
+-- AlterTable
+ALTER TABLE "Message" ADD COLUMN     "parentId" TEXT;
+
+-- CreateIndex
+CREATE INDEX "Message_chatId_parentId_idx" ON "Message"("chatId", "parentId");
+
+-- Existing chats are linear: each message continues the previous one
+UPDATE "Message" AS m
+SET "parentId" = ordered."previousId"
+FROM (
+    SELECT "id", LAG("id") OVER (PARTITION BY "chatId" ORDER BY "createdAt", "id") AS "previousId"
+    FROM "Message"
+) AS ordered
+WHERE m."id" = ordered."id";
@@ -0,0 +1,11 @@
+-- Full-text search over chat titles and the text parts of messages.
+-- The expressions must match searchChatsByUserId for the indexes to be used.
+
+-- CreateIndex
+CREATE INDEX "Chat_title_search_idx" ON "Chat" USING GIN (to_tsvector('simple', "title"));
+
+-- CreateIndex
+CREATE INDEX "Message_parts_search_idx" ON "Message" USING GIN (to_tsvector('simple', jsonb_path_query_array("parts", '$[*] ? (@.type == "text").text')));
+
+-- CreateIndex
+CREATE INDEX "Chat_userId_idx" ON "Chat"("userId");
@@ -0,0 +1,58 @@
+-- AlterTable
+ALTER TABLE "Chat" ADD COLUMN "pinnedAt" TIMESTAMP(3),
+ADD COLUMN "folderId" TEXT;
+
+-- CreateTable
+CREATE TABLE "ChatFolder" (
+    "id" TEXT NOT NULL,
+    "userId" TEXT NOT NULL,
+    "name" TEXT NOT NULL,
+    "createdAt" TIMESTAMP(3) NOT NULL DEFAULT CURRENT_TIMESTAMP,
+
+    CONSTRAINT "ChatFolder_pkey" PRIMARY KEY ("id")
+);
+
+-- CreateTable
+CREATE TABLE "ChatTag" (
+    "id" TEXT NOT NULL,
+    "userId" TEXT NOT NULL,
+    "name" TEXT NOT NULL,
+    "createdAt" TIMESTAMP(3) NOT NULL DEFAULT CURRENT_TIMESTAMP,
+
+    CONSTRAINT "ChatTag_pkey" PRIMARY KEY ("id")
+);
+
+-- CreateTable
+CREATE TABLE "ChatTagOnChat" (
+    "chatId" TEXT NOT NULL,
+    "tagId" TEXT NOT NULL,
+
+    CONSTRAINT "ChatTagOnChat_pkey" PRIMARY KEY ("chatId","tagId")
+);
+
+-- CreateIndex
+CREATE INDEX "Chat_folderId_idx" ON "Chat"("folderId");
+
+-- CreateIndex
+CREATE UNIQUE INDEX "ChatFolder_userId_name_key" ON "ChatFolder"("userId", "name");
+
+-- CreateIndex
+CREATE UNIQUE INDEX "ChatTag_userId_name_key" ON "ChatTag"("userId", "name");
+
+-- CreateIndex
+CREATE INDEX "ChatTagOnChat_tagId_idx" ON "ChatTagOnChat"("tagId");
+
+-- AddForeignKey
+ALTER TABLE "Chat" ADD CONSTRAINT "Chat_folderId_fkey" FOREIGN KEY ("folderId") REFERENCES "ChatFolder"("id") ON DELETE SET NULL ON UPDATE NO ACTION;
+
+-- AddForeignKey
+ALTER TABLE "ChatFolder" ADD CONSTRAINT "ChatFolder_userId_fkey" FOREIGN KEY ("userId") REFERENCES "User"("id") ON DELETE CASCADE ON UPDATE NO ACTION;
+
+-- AddForeignKey
+ALTER TABLE "ChatTag" ADD CONSTRAINT "ChatTag_userId_fkey" FOREIGN KEY ("userId") REFERENCES "User"("id") ON DELETE CASCADE ON UPDATE NO ACTION;
+
+-- AddForeignKey
+ALTER TABLE "ChatTagOnChat" ADD CONSTRAINT "ChatTagOnChat_chatId_fkey" FOREIGN KEY ("chatId") REFERENCES "Chat"("id") ON DELETE CASCADE ON UPDATE CASCADE;
+
+-- AddForeignKey
+ALTER TABLE "ChatTagOnChat" ADD CONSTRAINT "ChatTagOnChat_tagId_fkey" FOREIGN KEY ("tagId") REFERENCES "ChatTag"("id") ON DELETE CASCADE ON UPDATE CASCADE;
@@ -0,0 +1,44 @@
+-- AlterTable
+ALTER TABLE "Chat" ADD COLUMN "assistantId" TEXT;
+
+-- CreateTable
+CREATE TABLE "Assistant" (
+    "id" TEXT NOT NULL,
+    "slug" TEXT NOT NULL,
+    "name" TEXT NOT NULL,
+    "icon" TEXT,
+    "description" TEXT NOT NULL DEFAULT '',
+    "systemPrompt" TEXT NOT NULL DEFAULT '',
+    "tools" TEXT[],
+    "modelId" TEXT NOT NULL,
+    "knowledgePageIds" TEXT[],
+    "userTypes" "UserType"[],
+    "enabled" BOOLEAN NOT NULL DEFAULT true,
+    "position" INTEGER NOT NULL DEFAULT 0,
+    "createdAt" TIMESTAMP(3) NOT NULL DEFAULT CURRENT_TIMESTAMP,
+    "updatedAt" TIMESTAMP(3) NOT NULL,
+
+    CONSTRAINT "Assistant_pkey" PRIMARY KEY ("id")
+);
+
+-- CreateIndex
+CREATE UNIQUE INDEX "Assistant_slug_key" ON "Assistant"("slug");
+
+-- AddForeignKey
+ALTER TABLE "Chat" ADD CONSTRAINT "Chat_assistantId_fkey" FOREIGN KEY ("assistantId") REFERENCES "Assistant"("id") ON DELETE SET NULL ON UPDATE NO ACTION;
+
+-- Seed: the persona previously hard-coded in /api/api-chat-stream for external integrations
+INSERT INTO "Assistant" ("id", "slug", "name", "icon", "description", "systemPrompt", "tools", "modelId", "knowledgePageIds", "userTypes", "updatedAt")
+VALUES (
+    'api-chat-support',
+    'api-chat-support',
+    'API support',
+    '🍗',
+    'Assistant used by external integrations',
+    'Ты — общительный, тёплый, внимательный и вежливый ИИ-официант-девушка ресторана CHICKO. Если тебе известно имя встречай клиента по имени от лица ресторана CHICKO. Если информация неизвестна то значит это новый гость можешь уточнить как его зовут , и если он ответит то значит нужно запомнить его имя и в дальнейшем обращаться по этому имени. Используй наши девизы, ВАРИАНТЫ ПРИВЕТСТВИЙ и фирменные послания. Используя информацию о клиенте о времени его последнего посещения если оно существует о количестве дней с последнего заказа о любимом блюде и генерирует дружелюбные разнообразные неповторимые разговоры с призывом на вовлечение. ',
+    ARRAY[]::TEXT[],
+    'api-chat-support',
+    ARRAY[]::TEXT[],
+    ARRAY['apiUser']::"UserType"[],
+    CURRENT_TIMESTAMP
+);
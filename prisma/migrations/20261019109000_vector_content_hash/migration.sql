@@ -0,0 +1,2 @@
+-- AlterTable
+ALTER TABLE "PageVectorIndex" ADD COLUMN     "contentHash" TEXT;
@@ -0,0 +1,9 @@
+-- Opt-in setup for VECTOR_STORE_PROVIDER="pgvector": needs the pgvector
+-- extension on the database server. Safe to run more than once:
+--   npm run db:pgvector
+
+-- CreateExtension
+CREATE EXTENSION IF NOT EXISTS "vector";
+
+-- AlterTable
+ALTER TABLE "PageChunk" ADD COLUMN IF NOT EXISTS "embeddingVector" vector;
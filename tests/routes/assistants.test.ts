@@ -0,0 +1,59 @@
+import { generateCuid } from '@/lib/utils/generateCuid';
+import { expect, test } from '../fixtures';
+import { TEST_PROMPTS } from '../prompts/routes';
+
+test.describe
+  .serial('/api/assistants', () => {
+    test('Ada does not see assistants hidden from her role', async ({
+      adaContext,
+    }) => {
+      const response = await adaContext.request.get('/api/assistants');
+      expect(response.status()).toBe(200);
+
+      const assistants: Array<{ slug: string }> = await response.json();
+      expect(assistants.map(({ slug }) => slug)).not.toContain(
+        'api-chat-support',
+      );
+    });
+
+    test('Ada cannot start a chat with an assistant hidden from her role', async ({
+      adaContext,
+    }) => {
+      const response = await adaContext.request.post('/api/chat', {
+        data: {
+          id: generateCuid(),
+          message: { ...TEST_PROMPTS.SKY.MESSAGE, id: generateCuid() },
+          selectedChatModel: 'chat-model',
+          selectedAssistant: 'api-chat-support',
+          selectedVisibilityType: 'private',
+        },
+      });
+      expect(response.status()).toBe(400);
+    });
+
+    test('Ada cannot start a chat with an unknown assistant', async ({
+      adaContext,
+    }) => {
+      const response = await adaContext.request.post('/api/chat', {
+        data: {
+          id: generateCuid(),
+          message: { ...TEST_PROMPTS.SKY.MESSAGE, id: generateCuid() },
+          selectedChatModel: 'chat-model',
+          selectedAssistant: 'no-such-assistant',
+          selectedVisibilityType: 'private',
+        },
+      });
+      expect(response.status()).toBe(400);
+    });
+
+    test('Ada cannot manage assistants', async ({ adaContext }) => {
+      const response = await adaContext.request.post('/api/admin/assistants', {
+        data: {
+          slug: 'ada-assistant',
+          name: 'Ada assistant',
+          modelId: 'chat-model',
+        },
+      });
+      expect(response.status()).toBe(403);
+    });
+  });
@@ -0,0 +1,210 @@
+import fs from "node:fs";
+import path from "node:path";
+import { generateStripeSignatureHeader } from "@/app/@left/(_public)/(_BILLING)/(_service)/(_libs)/stripe";
+import { expect, test } from "../fixtures";
+
+const WEBHOOK_URL = "/api/billing/webhook";
+const secret = process.env.STRIPE_WEBHOOK_SECRET ?? "";
+const priceId = process.env.NEXT_PUBLIC_STRIPE_PRO_MONTHLY_PLAN_ID ?? "";
+
+function loadSubscriptionEvent({
+  userId,
+  priceId,
+  type = "customer.subscription.updated",
+  status = "active",
+  subscriptionId = "sub_test_playwright",
+  created = Math.floor(Date.now() / 1000),
+}: {
+  userId: string;
+  priceId: string;
+  type?: string;
+  status?: string;
+  subscriptionId?: string;
+  created?: number;
+}) {
+  const fixture = fs
+    .readFileSync(
+      path.join(
+        __dirname,
+        "../webhooks/stripe/customer.subscription.updated.json"
+      ),
+      "utf8"
+    )
+    .replace("{{userId}}", userId)
+    .replace("{{priceId}}", priceId);
+
+  const event = JSON.parse(fixture);
+  event.type = type;
+  event.created = created;
+  event.data.object.id = subscriptionId;
+  event.data.object.status = status;
+  return JSON.stringify(event);
+}
+
+function signedHeaders(payload: string) {
+  return {
+    "Content-Type": "application/json",
+    "Stripe-Signature": generateStripeSignatureHeader({ payload, secret }),
+  };
+}
+
+test.describe.serial("/api/billing/webhook", () => {
+  test.skip(
+    !secret || !priceId,
+    "STRIPE_WEBHOOK_SECRET and NEXT_PUBLIC_STRIPE_PRO_MONTHLY_PLAN_ID are required"
+  );
+
+  let adaId = "";
+
+  test.beforeAll(async ({ adaContext }) => {
+    const response = await adaContext.request.get("/api/auth/session");
+    const session = await response.json();
+    adaId = session.user.id;
+  });
+
+  test("Rejects an event without a signature", async ({ adaContext }) => {
+    const response = await adaContext.request.post(WEBHOOK_URL, {
+      data: loadSubscriptionEvent({ userId: adaId, priceId }),
+    });
+    expect(response.status()).toBe(400);
+  });
+
+  test("Rejects an event signed with another secret", async ({
+    adaContext,
+  }) => {
+    const payload = loadSubscriptionEvent({ userId: adaId, priceId });
+
+    const response = await adaContext.request.post(WEBHOOK_URL, {
+      data: payload,
+      headers: {
+        "Stripe-Signature": generateStripeSignatureHeader({
+          payload,
+          secret: "whsec_wrong",
+        }),
+      },
+    });
+    expect(response.status()).toBe(400);
+  });
+
+  test("An active subscription makes Ada a subscriber", async ({
+    adaContext,
+  }) => {
+    const payload = loadSubscriptionEvent({ userId: adaId, priceId });
+
+    const response = await adaContext.request.post(WEBHOOK_URL, {
+      data: payload,
+      headers: {
+        "Content-Type": "application/json",
+        "Stripe-Signature": generateStripeSignatureHeader({ payload, secret }),
+      },
+    });
+    expect(response.status()).toBe(200);
+    expect(await response.json()).toMatchObject({
+      received: true,
+      handled: true,
+      status: "active",
+    });
+
+    const session = await (
+      await adaContext.request.get("/api/auth/session")
+    ).json();
+    expect(session.user.type).toBe("subscriber");
+  });
+
+  test("A deleted subscription makes Ada an authUser again", async ({
+    adaContext,
+  }) => {
+    const payload = loadSubscriptionEvent({
+      userId: adaId,
+      priceId,
+      type: "customer.subscription.deleted",
+      status: "canceled",
+    });
+
+    const response = await adaContext.request.post(WEBHOOK_URL, {
+      data: payload,
+      headers: {
+        "Content-Type": "application/json",
+        "Stripe-Signature": generateStripeSignatureHeader({ payload, secret }),
+      },
+    });
+    expect(response.status()).toBe(200);
+
+    const session = await (
+      await adaContext.request.get("/api/auth/session")
+    ).json();
+    expect(session.user.type).toBe("authUser");
+  });
+
+  test("Events for a replaced or older subscription state are skipped", async ({
+    adaContext,
+  }) => {
+    const now = Math.floor(Date.now() / 1000);
+
+    // Ada resubscribes with a new Stripe subscription
+    const resubscribed = loadSubscriptionEvent({
+      userId: adaId,
+      priceId,
+      subscriptionId: "sub_test_playwright_new",
+      created: now,
+    });
+    const resubscribedResponse = await adaContext.request.post(WEBHOOK_URL, {
+      data: resubscribed,
+      headers: signedHeaders(resubscribed),
+    });
+    expect(await resubscribedResponse.json()).toMatchObject({
+      handled: true,
+      status: "active",
+    });
+
+    // A late cancellation of the replaced subscription
+    const oldCanceled = loadSubscriptionEvent({
+      userId: adaId,
+      priceId,
+      type: "customer.subscription.deleted",
+      status: "canceled",
+      subscriptionId: "sub_test_playwright",
+      created: now + 1,
+    });
+    const oldCanceledResponse = await adaContext.request.post(WEBHOOK_URL, {
+      data: oldCanceled,
+      headers: signedHeaders(oldCanceled),
+    });
+    expect(oldCanceledResponse.status()).toBe(200);
+    expect(await oldCanceledResponse.json()).toMatchObject({
+      handled: false,
+    });
+
+    // An update of the current subscription that was created earlier
+    const outdated = loadSubscriptionEvent({
+      userId: adaId,
+      priceId,
+      status: "past_due",
+      subscriptionId: "sub_test_playwright_new",
+      created: now - 60,
+    });
+    const outdatedResponse = await adaContext.request.post(WEBHOOK_URL, {
+      data: outdated,
+      headers: signedHeaders(outdated),
+    });
+    expect(await outdatedResponse.json()).toMatchObject({ handled: false });
+
+    const session = await (
+      await adaContext.request.get("/api/auth/session")
+    ).json();
+    expect(session.user.type).toBe("subscriber");
+
+    const canceled = loadSubscriptionEvent({
+      userId: adaId,
+      priceId,
+      type: "customer.subscription.deleted",
+      status: "canceled",
+      subscriptionId: "sub_test_playwright_new",
+      created: now + 2,
+    });
+    await adaContext.request.post(WEBHOOK_URL, {
+      data: canceled,
+      headers: signedHeaders(canceled),
+    });
+  });
+});
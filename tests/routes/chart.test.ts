@@ -0,0 +1,68 @@
+import { generateCuid } from '@/lib/utils/generateCuid';
+import { expect, test } from '../fixtures';
+
+const chartId = generateCuid();
+
+test.describe
+  .serial('/api/document (chart)', () => {
+    test('Ada can create a chart document', async ({ adaContext }) => {
+      const response = await adaContext.request.post(
+        `/api/document?id=${chartId}`,
+        {
+          data: {
+            title: "Ada's Chart",
+            kind: 'chart',
+            content: JSON.stringify({
+              type: 'bar',
+              sheetId: null,
+              data: [
+                ['Month', 'Sales'],
+                ['Jan', '10'],
+                ['Feb', '12'],
+              ],
+              x: 'Month',
+              y: ['Sales'],
+            }),
+          },
+        },
+      );
+      expect(response.status()).toBe(200);
+    });
+
+    test('Ada can save a new version of her chart', async ({ adaContext }) => {
+      await adaContext.request.post(`/api/document?id=${chartId}`, {
+        data: {
+          title: "Ada's Chart",
+          kind: 'chart',
+          content: JSON.stringify({
+            type: 'line',
+            sheetId: null,
+            data: [
+              ['Month', 'Sales'],
+              ['Jan', '10'],
+              ['Feb', '12'],
+            ],
+            x: 'Month',
+            y: ['Sales'],
+          }),
+        },
+      });
+
+      const response = await adaContext.request.get(
+        `/api/document?id=${chartId}`,
+      );
+      expect(response.status()).toBe(200);
+
+      const documents = await response.json();
+      expect(documents).toHaveLength(2);
+      expect(documents[0].kind).toBe('chart');
+      expect(JSON.parse(documents[1].content).type).toBe('line');
+    });
+
+    test("Babbage cannot read Ada's chart", async ({ babbageContext }) => {
+      const response = await babbageContext.request.get(
+        `/api/document?id=${chartId}`,
+      );
+      expect(response.status()).toBe(403);
+    });
+  });
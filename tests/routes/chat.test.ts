@@ -282,6 +282,52 @@ test.describe
       expect(secondStatusCode).toBe(403);
     });
 
+    test('Babbage cannot resume an unlisted chat generation that belongs to Ada', async ({
+      adaContext,
+      babbageContext,
+    }) => {
+      const chatId = generateUUID();
+
+      const firstRequest = adaContext.request.post('/api/chat', {
+        data: {
+          id: chatId,
+          message: {
+            id: generateUUID(),
+            role: 'user',
+            content: 'Help me write an essay about Silcon Valley',
+            parts: [
+              {
+                type: 'text',
+                text: 'Help me write an essay about Silicon Valley',
+              },
+            ],
+            createdAt: new Date().toISOString(),
+          },
+          selectedChatModel: 'chat-model',
+          selectedVisibilityType: 'unlisted',
+        },
+      });
+
+      await new Promise((resolve) => setTimeout(resolve, 1000));
+
+      const secondRequest = babbageContext.request.get(
+        `/api/chat?chatId=${chatId}`,
+      );
+
+      const [firstResponse, secondResponse] = await Promise.all([
+        firstRequest,
+        secondRequest,
+      ]);
+
+      const [firstStatusCode, secondStatusCode] = await Promise.all([
+        firstResponse.status(),
+        secondResponse.status(),
+      ]);
+
+      expect(firstStatusCode).toBe(200);
+      expect(secondStatusCode).toBe(403);
+    });
+
     test('Babbage can resume a public chat generation that belongs to Ada', async ({
       adaContext,
       babbageContext,
@@ -334,4 +380,27 @@ test.describe
 
       expect(firstResponseContent).toEqual(secondResponseContent);
     });
+
+    test('Guest cannot invoke chat generation with a restricted model', async ({
+      browser,
+    }) => {
+      const context = await browser.newContext();
+      const page = await context.newPage();
+      await page.goto('/');
+
+      const response = await context.request.post('/api/chat', {
+        data: {
+          id: generateUUID(),
+          message: TEST_PROMPTS.SKY.MESSAGE,
+          selectedChatModel: 'local-model',
+          selectedVisibilityType: 'private',
+        },
+      });
+      expect(response.status()).toBe(403);
+
+      const text = await response.text();
+      expect(text).toEqual('Model not available');
+
+      await context.close();
+    });
   });
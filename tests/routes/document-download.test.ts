@@ -0,0 +1,61 @@
+import { generateCuid } from '@/lib/utils/generateCuid';
+import { expect, test } from '../fixtures';
+
+const projectId = generateCuid();
+const textId = generateCuid();
+
+test.describe
+  .serial('/api/document/download', () => {
+    test('Ada can create a project document', async ({ adaContext }) => {
+      const response = await adaContext.request.post(
+        `/api/document?id=${projectId}`,
+        {
+          data: {
+            title: "Ada's Project",
+            kind: 'project',
+            content: JSON.stringify({
+              files: [
+                { path: 'README.md', content: '# Analytical Engine' },
+                { path: 'src/index.ts', content: 'console.log(42);' },
+              ],
+            }),
+          },
+        },
+      );
+      expect(response.status()).toBe(200);
+    });
+
+    test('Ada can download her project as a zip', async ({ adaContext }) => {
+      const response = await adaContext.request.get(
+        `/api/document/download?id=${projectId}`,
+      );
+      expect(response.status()).toBe(200);
+      expect(response.headers()['content-type']).toBe('application/zip');
+
+      const body = await response.body();
+      expect(body.subarray(0, 2).toString()).toBe('PK');
+      expect(body.includes('src/index.ts')).toBe(true);
+    });
+
+    test('Ada cannot download a text document as a zip', async ({
+      adaContext,
+    }) => {
+      await adaContext.request.post(`/api/document?id=${textId}`, {
+        data: { title: "Ada's Notes", kind: 'text', content: 'Notes' },
+      });
+
+      const response = await adaContext.request.get(
+        `/api/document/download?id=${textId}`,
+      );
+      expect(response.status()).toBe(400);
+    });
+
+    test("Babbage cannot download Ada's project", async ({
+      babbageContext,
+    }) => {
+      const response = await babbageContext.request.get(
+        `/api/document/download?id=${projectId}`,
+      );
+      expect(response.status()).toBe(403);
+    });
+  });
@@ -0,0 +1,76 @@
+import { expect, test } from '../fixtures';
+
+let sheetId: string;
+
+test.describe
+  .serial('/api/document/import', () => {
+    test('Ada can import a CSV file as a sheet', async ({ adaContext }) => {
+      const response = await adaContext.request.post('/api/document/import', {
+        multipart: {
+          file: {
+            name: 'Engine parts.csv',
+            mimeType: 'text/csv',
+            buffer: Buffer.from(
+              'Part,Price\nGear,10\nLever,32\nTotal,=SUM(B2:B3)\n',
+            ),
+          },
+        },
+      });
+      expect(response.status()).toBe(201);
+
+      const document = await response.json();
+      expect(document.kind).toBe('sheet');
+      expect(document.title).toBe('Engine parts');
+      expect(JSON.parse(document.content).columns).toEqual([
+        { name: 'Part', type: 'text' },
+        { name: 'Price', type: 'number' },
+      ]);
+
+      sheetId = document.id;
+    });
+
+    test('Ada cannot import a file that is not a spreadsheet', async ({
+      adaContext,
+    }) => {
+      const response = await adaContext.request.post('/api/document/import', {
+        multipart: {
+          file: {
+            name: 'notes.txt',
+            mimeType: 'text/plain',
+            buffer: Buffer.from('Notes'),
+          },
+        },
+      });
+      expect(response.status()).toBe(400);
+    });
+
+    test('Ada can download her sheet as CSV with computed formulas', async ({
+      adaContext,
+    }) => {
+      const response = await adaContext.request.get(
+        `/api/document/download?id=${sheetId}&format=csv`,
+      );
+      expect(response.status()).toBe(200);
+      expect(response.headers()['content-type']).toContain('text/csv');
+
+      const body = await response.text();
+      expect(body).toContain('Total,42');
+    });
+
+    test('Ada can download her sheet as XLSX', async ({ adaContext }) => {
+      const response = await adaContext.request.get(
+        `/api/document/download?id=${sheetId}&format=xlsx`,
+      );
+      expect(response.status()).toBe(200);
+
+      const body = await response.body();
+      expect(body.subarray(0, 2).toString()).toBe('PK');
+    });
+
+    test("Babbage cannot download Ada's sheet", async ({ babbageContext }) => {
+      const response = await babbageContext.request.get(
+        `/api/document/download?id=${sheetId}&format=csv`,
+      );
+      expect(response.status()).toBe(403);
+    });
+  });
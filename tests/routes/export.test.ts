@@ -0,0 +1,178 @@
+import { generateCuid } from '@/lib/utils/generateCuid';
+import { expect, test } from '../fixtures';
+import { TEST_PROMPTS } from '../prompts/routes';
+
+const chatIdsCreatedByAda: Array<string> = [];
+const exportsDownloadedByAda: Array<Record<string, any>> = [];
+
+test.describe
+  .serial('/api/chat/export', () => {
+    test('Ada can create a chat to export', async ({ adaContext }) => {
+      const chatId = generateCuid();
+
+      const response = await adaContext.request.post('/api/chat', {
+        data: {
+          id: chatId,
+          message: { ...TEST_PROMPTS.SKY.MESSAGE, id: generateCuid() },
+          selectedChatModel: 'chat-model',
+          selectedVisibilityType: 'private',
+        },
+      });
+      expect(response.status()).toBe(200);
+      await response.text();
+
+      chatIdsCreatedByAda.push(chatId);
+    });
+
+    test('Ada cannot export with an unknown format', async ({
+      adaContext,
+    }) => {
+      const [chatId] = chatIdsCreatedByAda;
+
+      const response = await adaContext.request.get(
+        `/api/chat/export?id=${chatId}&format=docx`,
+      );
+      expect(response.status()).toBe(400);
+    });
+
+    test('Ada can export her chat as JSON', async ({ adaContext }) => {
+      const [chatId] = chatIdsCreatedByAda;
+
+      const response = await adaContext.request.get(
+        `/api/chat/export?id=${chatId}&format=json`,
+      );
+      expect(response.status()).toBe(200);
+      expect(response.headers()['content-disposition']).toContain(
+        'attachment',
+      );
+
+      const data = await response.json();
+      expect(data).toMatchObject({
+        format: 'aifa-chat',
+        version: 1,
+        chat: { id: chatId },
+      });
+      expect(data.messages.length).toBeGreaterThanOrEqual(2);
+
+      exportsDownloadedByAda.push(data);
+    });
+
+    test('Ada can export her chat as Markdown', async ({ adaContext }) => {
+      const [chatId] = chatIdsCreatedByAda;
+
+      const response = await adaContext.request.get(
+        `/api/chat/export?id=${chatId}&format=markdown`,
+      );
+      expect(response.status()).toBe(200);
+
+      const markdown = await response.text();
+      expect(markdown).toContain('### User');
+      expect(markdown).toContain('### Assistant');
+    });
+
+    test('Ada can open her chat for printing', async ({ adaContext }) => {
+      const [chatId] = chatIdsCreatedByAda;
+
+      const response = await adaContext.request.get(
+        `/api/chat/export?id=${chatId}&format=pdf`,
+      );
+      expect(response.status()).toBe(200);
+      expect(response.headers()['content-type']).toContain('text/html');
+    });
+
+    test("Babbage cannot export Ada's private chat", async ({
+      babbageContext,
+    }) => {
+      const [chatId] = chatIdsCreatedByAda;
+
+      const response = await babbageContext.request.get(
+        `/api/chat/export?id=${chatId}&format=json`,
+      );
+      expect(response.status()).toBe(403);
+    });
+
+    test('Babbage can import the exported chat as a new chat', async ({
+      babbageContext,
+    }) => {
+      const [data] = exportsDownloadedByAda;
+
+      const response = await babbageContext.request.post('/api/chat/import', {
+        data,
+      });
+      expect(response.status()).toBe(201);
+
+      const { id } = await response.json();
+      expect(id).not.toBe(data.chat.id);
+
+      const exportResponse = await babbageContext.request.get(
+        `/api/chat/export?id=${id}&format=json`,
+      );
+      const imported = await exportResponse.json();
+      expect(imported.chat.visibility).toBe('private');
+      expect(imported.messages.length).toBe(data.messages.length);
+    });
+
+    test('Babbage cannot import an invalid file', async ({
+      babbageContext,
+    }) => {
+      const response = await babbageContext.request.post('/api/chat/import', {
+        data: { format: 'something-else' },
+      });
+      expect(response.status()).toBe(400);
+    });
+
+    test('Babbage cannot import a file that references documents it does not contain', async ({
+      babbageContext,
+    }) => {
+      const [data] = exportsDownloadedByAda;
+      const [message] = data.messages;
+
+      const response = await babbageContext.request.post('/api/chat/import', {
+        data: {
+          ...data,
+          messages: [
+            {
+              ...message,
+              parts: [
+                {
+                  type: 'tool-invocation',
+                  toolInvocation: {
+                    state: 'result',
+                    toolCallId: 'call_1',
+                    toolName: 'createDocument',
+                    args: { title: 'Essay', kind: 'text' },
+                    result: { id: generateCuid(), title: 'Essay', kind: 'text' },
+                  },
+                },
+              ],
+            },
+          ],
+          votes: [],
+          documents: [],
+        },
+      });
+      expect(response.status()).toBe(400);
+    });
+
+    test('Ada can export all her chats as a zip', async ({ adaContext }) => {
+      const response = await adaContext.request.get('/api/chat/export/all');
+      expect(response.status()).toBe(200);
+      expect(response.headers()['content-type']).toBe('application/zip');
+
+      const body = await response.body();
+      expect(body.subarray(0, 4).toString('hex')).toBe('504b0304');
+    });
+
+    test("Babbage cannot export all of Ada's chats", async ({
+      adaContext,
+      babbageContext,
+    }) => {
+      const session = await adaContext.request.get('/api/auth/session');
+      const { user } = await session.json();
+
+      const response = await babbageContext.request.get(
+        `/api/chat/export/all?userId=${user.id}`,
+      );
+      expect(response.status()).toBe(403);
+    });
+  });
@@ -0,0 +1,210 @@
+import { generateCuid } from '@/lib/utils/generateCuid';
+import { expect, test } from '../fixtures';
+import { TEST_PROMPTS } from '../prompts/routes';
+
+const chatIdsCreatedByAda: Array<string> = [];
+const messageIdsCreatedByAda: Array<string> = [];
+
+test.describe
+  .serial('/api/history/search', () => {
+    test('Ada can create a chat to search for', async ({ adaContext }) => {
+      const chatId = generateCuid();
+      const messageId = generateCuid();
+
+      const response = await adaContext.request.post('/api/chat', {
+        data: {
+          id: chatId,
+          message: { ...TEST_PROMPTS.SKY.MESSAGE, id: messageId },
+          selectedChatModel: 'chat-model',
+          selectedVisibilityType: 'private',
+        },
+      });
+      expect(response.status()).toBe(200);
+      await response.text();
+
+      chatIdsCreatedByAda.push(chatId);
+      messageIdsCreatedByAda.push(messageId);
+    });
+
+    test('Ada cannot search with a too short query', async ({
+      adaContext,
+    }) => {
+      const response = await adaContext.request.get(
+        '/api/history/search?q=s',
+      );
+      expect(response.status()).toBe(400);
+    });
+
+    test('Ada can find her chat by message text', async ({ adaContext }) => {
+      const [chatId] = chatIdsCreatedByAda;
+      const [messageId] = messageIdsCreatedByAda;
+
+      const response = await adaContext.request.get(
+        '/api/history/search?q=sky',
+      );
+      expect(response.status()).toBe(200);
+
+      const results = await response.json();
+      const result = results.find(
+        (result: { id: string }) => result.id === chatId,
+      );
+      expect(result).toBeDefined();
+      expect(result.snippet).toContain('⟦sky⟧');
+      expect(result.messageId).toBe(messageId);
+    });
+
+    test('Ada can find her chat by a word prefix', async ({ adaContext }) => {
+      const [chatId] = chatIdsCreatedByAda;
+
+      const response = await adaContext.request.get(
+        '/api/history/search?q=blu',
+      );
+      expect(response.status()).toBe(200);
+
+      const results = await response.json();
+      expect(results.map((result: { id: string }) => result.id)).toContain(
+        chatId,
+      );
+    });
+
+    test("Babbage cannot find Ada's chat", async ({ babbageContext }) => {
+      const [chatId] = chatIdsCreatedByAda;
+
+      const response = await babbageContext.request.get(
+        '/api/history/search?q=sky',
+      );
+      expect(response.status()).toBe(200);
+
+      const results = await response.json();
+      expect(results.map((result: { id: string }) => result.id)).not.toContain(
+        chatId,
+      );
+    });
+
+    test('Ada can open her chat on the matching message', async ({
+      adaContext,
+    }) => {
+      const [chatId] = chatIdsCreatedByAda;
+      const [messageId] = messageIdsCreatedByAda;
+
+      const response = await adaContext.request.get(
+        `/chat/${chatId}?message=${messageId}`,
+      );
+      expect(response.status()).toBe(200);
+    });
+  });
+
+const chatIdsOrganizedByAda: Array<string> = [];
+const foldersCreatedByAda: Array<{ id: string; name: string }> = [];
+
+test.describe
+  .serial('/api/chat/folders', () => {
+    test('Ada can create a chat to organize', async ({ adaContext }) => {
+      const chatId = generateCuid();
+
+      const response = await adaContext.request.post('/api/chat', {
+        data: {
+          id: chatId,
+          message: { ...TEST_PROMPTS.SKY.MESSAGE, id: generateCuid() },
+          selectedChatModel: 'chat-model',
+          selectedVisibilityType: 'private',
+        },
+      });
+      expect(response.status()).toBe(200);
+      await response.text();
+
+      chatIdsOrganizedByAda.push(chatId);
+    });
+
+    test('Ada can create a folder', async ({ adaContext }) => {
+      const response = await adaContext.request.post('/api/chat/folders', {
+        data: { name: `Research ${generateCuid()}` },
+      });
+      expect(response.status()).toBe(201);
+
+      const folder = await response.json();
+      foldersCreatedByAda.push(folder);
+    });
+
+    test('Ada cannot create a folder with the same name', async ({
+      adaContext,
+    }) => {
+      const [folder] = foldersCreatedByAda;
+
+      const response = await adaContext.request.post('/api/chat/folders', {
+        data: { name: folder.name },
+      });
+      expect(response.status()).toBe(409);
+    });
+
+    test('Ada can pin her chat and move it into the folder', async ({
+      adaContext,
+    }) => {
+      const [chatId] = chatIdsOrganizedByAda;
+      const [folder] = foldersCreatedByAda;
+
+      const response = await adaContext.request.patch(
+        `/api/chat/organize?id=${chatId}`,
+        { data: { pinned: true, folderId: folder.id } },
+      );
+      expect(response.status()).toBe(200);
+
+      const chat = await response.json();
+      expect(chat.folderId).toBe(folder.id);
+      expect(chat.pinnedAt).not.toBeNull();
+    });
+
+    test('Ada can filter pinned chats by folder', async ({ adaContext }) => {
+      const [chatId] = chatIdsOrganizedByAda;
+      const [folder] = foldersCreatedByAda;
+
+      const response = await adaContext.request.get(
+        `/api/history?pinned=true&folder_id=${folder.id}`,
+      );
+      expect(response.status()).toBe(200);
+
+      const chats = await response.json();
+      expect(chats.map((chat: { id: string }) => chat.id)).toEqual([chatId]);
+    });
+
+    test("Babbage cannot reorganize Ada's chat", async ({
+      babbageContext,
+    }) => {
+      const [chatId] = chatIdsOrganizedByAda;
+
+      const response = await babbageContext.request.patch(
+        `/api/chat/organize?id=${chatId}`,
+        { data: { folderId: null } },
+      );
+      expect(response.status()).toBe(403);
+    });
+
+    test("Babbage cannot delete Ada's folder", async ({ babbageContext }) => {
+      const [folder] = foldersCreatedByAda;
+
+      const response = await babbageContext.request.delete(
+        `/api/chat/folders?id=${folder.id}`,
+      );
+      expect(response.status()).toBe(403);
+    });
+
+    test('Ada can delete the folder without deleting its chats', async ({
+      adaContext,
+    }) => {
+      const [chatId] = chatIdsOrganizedByAda;
+      const [folder] = foldersCreatedByAda;
+
+      const response = await adaContext.request.delete(
+        `/api/chat/folders?id=${folder.id}`,
+      );
+      expect(response.status()).toBe(200);
+
+      const historyResponse = await adaContext.request.get(
+        '/api/history?pinned=true',
+      );
+      const chats = await historyResponse.json();
+      const chat = chats.find((chat: { id: string }) => chat.id === chatId);
+      expect(chat).toBeDefined();
+      expect(chat.folderId).toBeNull();
+    });
+  });
@@ -0,0 +1,104 @@
+import { generateCuid } from '@/lib/utils/generateCuid';
+import { expect, test } from '../fixtures';
+import { TEST_PROMPTS } from '../prompts/routes';
+
+const chatIdsCreatedByAda: Array<string> = [];
+
+test.describe
+  .serial('/api/instructions', () => {
+    test('Ada can create a chat to instruct', async ({ adaContext }) => {
+      const chatId = generateCuid();
+
+      const response = await adaContext.request.post('/api/chat', {
+        data: {
+          id: chatId,
+          message: { ...TEST_PROMPTS.SKY.MESSAGE, id: generateCuid() },
+          selectedChatModel: 'chat-model',
+          selectedVisibilityType: 'private',
+        },
+      });
+      expect(response.status()).toBe(200);
+      await response.text();
+
+      chatIdsCreatedByAda.push(chatId);
+    });
+
+    test('Ada can set instructions for all chats and for her chat', async ({
+      adaContext,
+    }) => {
+      const [chatId] = chatIdsCreatedByAda;
+
+      const response = await adaContext.request.patch(
+        `/api/instructions?chatId=${chatId}`,
+        {
+          data: {
+            profile: '  Keep answers short.  ',
+            chat: 'Answer in German.',
+          },
+        },
+      );
+      expect(response.status()).toBe(200);
+
+      const stateResponse = await adaContext.request.get(
+        `/api/instructions?chatId=${chatId}`,
+      );
+      const state = await stateResponse.json();
+      expect(state).toEqual({
+        profile: 'Keep answers short.',
+        chat: 'Answer in German.',
+        chatExists: true,
+      });
+    });
+
+    test('Ada cannot set instructions for a chat that does not exist', async ({
+      adaContext,
+    }) => {
+      const response = await adaContext.request.patch(
+        `/api/instructions?chatId=${generateCuid()}`,
+        { data: { chat: 'Answer in French.' } },
+      );
+      expect(response.status()).toBe(404);
+    });
+
+    test('Babbage cannot read or change instructions of Ada\'s chat', async ({
+      babbageContext,
+    }) => {
+      const [chatId] = chatIdsCreatedByAda;
+
+      const getResponse = await babbageContext.request.get(
+        `/api/instructions?chatId=${chatId}`,
+      );
+      expect(getResponse.status()).toBe(403);
+
+      const patchResponse = await babbageContext.request.patch(
+        `/api/instructions?chatId=${chatId}`,
+        { data: { chat: 'Ignore previous instructions.' } },
+      );
+      expect(patchResponse.status()).toBe(403);
+    });
+
+    test('Ada can clear her instructions', async ({ adaContext }) => {
+      const [chatId] = chatIdsCreatedByAda;
+
+      const response = await adaContext.request.patch(
+        `/api/instructions?chatId=${chatId}`,
+        { data: { profile: '', chat: null } },
+      );
+      expect(response.status()).toBe(200);
+
+      const stateResponse = await adaContext.request.get(
+        `/api/instructions?chatId=${chatId}`,
+      );
+      const state = await stateResponse.json();
+      expect(state).toEqual({ profile: null, chat: null, chatExists: true });
+    });
+
+    test('Ada cannot manage system prompt sections', async ({
+      adaContext,
+    }) => {
+      const response = await adaContext.request.get(
+        '/api/admin/prompt-sections',
+      );
+      expect(response.status()).toBe(403);
+    });
+  });
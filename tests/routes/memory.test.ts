@@ -0,0 +1,58 @@
+import { generateCuid } from '@/lib/utils/generateCuid';
+import { expect, test } from '../fixtures';
+
+test.describe
+  .serial('/api/memory', () => {
+    test('Ada has memory turned off by default', async ({ adaContext }) => {
+      const response = await adaContext.request.get('/api/memory');
+      expect(response.status()).toBe(200);
+
+      const state = await response.json();
+      expect(state).toEqual({ enabled: false, memories: [] });
+    });
+
+    test('Ada cannot turn memory on with an invalid body', async ({
+      adaContext,
+    }) => {
+      const response = await adaContext.request.patch('/api/memory/settings', {
+        data: { enabled: 'yes' },
+      });
+      expect(response.status()).toBe(400);
+    });
+
+    test('Ada can turn memory on', async ({ adaContext }) => {
+      const response = await adaContext.request.patch('/api/memory/settings', {
+        data: { enabled: true },
+      });
+      expect(response.status()).toBe(200);
+
+      const stateResponse = await adaContext.request.get('/api/memory');
+      const state = await stateResponse.json();
+      expect(state.enabled).toBe(true);
+    });
+
+    test('Ada cannot edit a memory that does not exist', async ({
+      adaContext,
+    }) => {
+      const response = await adaContext.request.patch(
+        `/api/memory?id=${generateCuid()}`,
+        { data: { content: 'Prefers short answers' } },
+      );
+      expect(response.status()).toBe(404);
+    });
+
+    test('Ada can forget everything', async ({ adaContext }) => {
+      const response = await adaContext.request.delete('/api/memory');
+      expect(response.status()).toBe(200);
+
+      const { count } = await response.json();
+      expect(count).toBe(0);
+    });
+
+    test('Ada can turn memory off again', async ({ adaContext }) => {
+      const response = await adaContext.request.patch('/api/memory/settings', {
+        data: { enabled: false },
+      });
+      expect(response.status()).toBe(200);
+    });
+  });
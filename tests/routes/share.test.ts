@@ -0,0 +1,132 @@
+import { generateCuid } from '@/lib/utils/generateCuid';
+import { expect, test } from '../fixtures';
+import { TEST_PROMPTS } from '../prompts/routes';
+
+const chatIdsCreatedByAda: Array<string> = [];
+const shareLinksCreatedByAda: Array<{ id: string; token: string }> = [];
+
+test.describe
+  .serial('/api/chat/share', () => {
+    test('Ada can create a chat to share', async ({ adaContext }) => {
+      const chatId = generateCuid();
+
+      const response = await adaContext.request.post('/api/chat', {
+        data: {
+          id: chatId,
+          message: TEST_PROMPTS.SKY.MESSAGE,
+          selectedChatModel: 'chat-model',
+          selectedVisibilityType: 'private',
+        },
+      });
+      expect(response.status()).toBe(200);
+      await response.text();
+
+      chatIdsCreatedByAda.push(chatId);
+    });
+
+    test("Babbage cannot create a link to Ada's chat", async ({
+      babbageContext,
+    }) => {
+      const [chatId] = chatIdsCreatedByAda;
+
+      const response = await babbageContext.request.post(
+        `/api/chat/share?chatId=${chatId}`,
+      );
+      expect(response.status()).toBe(403);
+
+      const text = await response.text();
+      expect(text).toEqual('Forbidden');
+    });
+
+    test('Ada can create a share link', async ({ adaContext }) => {
+      const [chatId] = chatIdsCreatedByAda;
+
+      const response = await adaContext.request.post(
+        `/api/chat/share?chatId=${chatId}`,
+      );
+      expect(response.status()).toBe(201);
+
+      const share = await response.json();
+      expect(share).toMatchObject({ chatId, revokedAt: null });
+
+      shareLinksCreatedByAda.push(share);
+    });
+
+    test('Babbage can open the shared chat', async ({ babbageContext }) => {
+      const [share] = shareLinksCreatedByAda;
+
+      const response = await babbageContext.request.get(
+        `/share/${share.token}`,
+      );
+      expect(response.status()).toBe(200);
+    });
+
+    test("Babbage still cannot append message to Ada's shared chat", async ({
+      babbageContext,
+    }) => {
+      const [chatId] = chatIdsCreatedByAda;
+
+      const response = await babbageContext.request.post('/api/chat', {
+        data: {
+          id: chatId,
+          message: TEST_PROMPTS.GRASS.MESSAGE,
+          selectedChatModel: 'chat-model',
+          selectedVisibilityType: 'private',
+        },
+      });
+      expect(response.status()).toBe(403);
+
+      const text = await response.text();
+      expect(text).toEqual('Forbidden');
+    });
+
+    test('Babbage can continue the shared chat in a copy', async ({
+      babbageContext,
+    }) => {
+      const [share] = shareLinksCreatedByAda;
+      const [chatId] = chatIdsCreatedByAda;
+
+      const response = await babbageContext.request.post(
+        `/api/chat/fork?token=${share.token}`,
+      );
+      expect(response.status()).toBe(201);
+
+      const fork = await response.json();
+      expect(fork.id).not.toEqual(chatId);
+    });
+
+    test("Babbage cannot revoke Ada's link", async ({ babbageContext }) => {
+      const [share] = shareLinksCreatedByAda;
+
+      const response = await babbageContext.request.delete(
+        `/api/chat/share?id=${share.id}`,
+      );
+      expect(response.status()).toBe(403);
+    });
+
+    test('Ada can revoke her link', async ({ adaContext }) => {
+      const [share] = shareLinksCreatedByAda;
+
+      const response = await adaContext.request.delete(
+        `/api/chat/share?id=${share.id}`,
+      );
+      expect(response.status()).toBe(200);
+
+      const revoked = await response.json();
+      expect(revoked.revokedAt).not.toBeNull();
+    });
+
+    test('Babbage cannot open a revoked link', async ({ babbageContext }) => {
+      const [share] = shareLinksCreatedByAda;
+
+      const response = await babbageContext.request.get(
+        `/share/${share.token}`,
+      );
+      expect(response.status()).toBe(404);
+
+      const forkResponse = await babbageContext.request.post(
+        `/api/chat/fork?token=${share.token}`,
+      );
+      expect(forkResponse.status()).toBe(404);
+    });
+  });
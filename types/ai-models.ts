@@ -0,0 +1,50 @@
+// @/types/ai-models.ts
+
+import type { UserType } from "@prisma/client";
+
+/**
+ * Provider backends the model registry knows how to instantiate.
+ * "openai-compatible" covers self-hosted endpoints (vLLM, Ollama, LM Studio)
+ * that speak the OpenAI chat completions protocol.
+ */
+export type AiModelProvider = "openai" | "xai" | "openai-compatible";
+
+/**
+ * What the model is used for inside the app.
+ * - chat: selectable in the model selector and accepted by /api/chat
+ * - task: internal model ids (title generation, artifacts)
+ * - image: image generation models
+ */
+export type AiModelKind = "chat" | "task" | "image";
+
+export type AiModelCapabilities = {
+  tools: boolean;
+  reasoning: boolean;
+  vision: boolean;
+};
+
+/**
+ * Prices in USD per 1M tokens.
+ */
+export type AiModelPricing = {
+  inputPerMillion: number;
+  outputPerMillion: number;
+};
+
+export type AiModelDefinition = {
+  id: string;
+  name: string;
+  description: string;
+  kind: AiModelKind;
+  provider: AiModelProvider;
+  providerModelId: string;
+  capabilities: AiModelCapabilities;
+  contextWindow: number;
+  pricing: AiModelPricing;
+  userTypes: UserType[];
+  // openai-compatible only: env variables resolved on the server
+  modelIdEnv?: string;
+  baseURLEnv?: string;
+  apiKeyEnv?: string;
+  defaultBaseURL?: string;
+};
@@ -0,0 +1,26 @@
+// @/types/billing.ts
+
+import type { UserType } from "@prisma/client";
+
+export type BillingPlanId = "pro" | "business";
+
+export type BillingInterval = "monthly" | "yearly";
+
+export type BillingPrice = {
+  /** Stripe price id, read from NEXT_PUBLIC_STRIPE_*_PLAN_ID */
+  stripePriceId: string | undefined;
+  /** Display amount in USD */
+  amount: number;
+};
+
+export type BillingPlan = {
+  id: BillingPlanId;
+  name: string;
+  description: string;
+  /**
+   * User type granted while the subscription is active.
+   * Limits come from `entitlementsByUserType[userType]`.
+   */
+  userType: Extract<UserType, "subscriber" | "customer">;
+  prices: Record<BillingInterval, BillingPrice>;
+};